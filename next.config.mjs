@@ -3,6 +3,12 @@ const nextConfig = {
   // Enable standalone output for Docker deployment
   output: 'standalone',
   distDir: 'dist',
+  experimental: {
+    // Native module used by the SQLite storage driver; keep it out of the server bundle
+    serverComponentsExternalPackages: ['better-sqlite3'],
+    // Runs src/instrumentation.ts on server start (data migrations)
+    instrumentationHook: true,
+  },
   // Add the following to ignore build errors related to useSearchParams
   typescript: {
     // Ignore build errors in production (but keep them in development)
@@ -0,0 +1,147 @@
+// Staff access: the route table, session tokens, what the middleware lets through and deactivated accounts
+import assert from 'assert/strict';
+import { NextRequest } from 'next/server';
+import { Check, withEnv } from './harness';
+
+const CRON_SECRET = 'check-cron-secret';
+
+// Who a route is open to: anyone, recruiters (and so admins) or admins only
+type Audience = 'public' | 'recruiter' | 'admin';
+
+const ROUTES: [method: string, path: string, audience: Audience][] = [
+  ['GET', '/api/jobs', 'public'],
+  ['GET', '/api/jobs/job-1', 'public'],
+  ['POST', '/api/jobs', 'admin'],
+  ['PUT', '/api/jobs/job-1', 'admin'],
+  ['POST', '/api/candidates', 'public'],
+  ['GET', '/api/candidates', 'recruiter'],
+  ['PATCH', '/api/candidates/cand-1', 'recruiter'],
+  ['GET', '/api/applications', 'recruiter'],
+  ['POST', '/api/applications/bulk', 'recruiter'],
+  ['PATCH', '/api/applications/app-1/status', 'recruiter'],
+  ['POST', '/api/screening', 'public'],
+  ['GET', '/api/screening', 'recruiter'],
+  ['GET', '/api/screening/details', 'public'],
+  ['POST', '/api/screening/outbound', 'recruiter'],
+  ['GET', '/api/interviews/int-1/invite', 'public'],
+  ['PATCH', '/api/interviews/int-1', 'recruiter'],
+  ['GET', '/api/portal/some-token', 'public'],
+  ['POST', '/api/sms/inbound', 'public'],
+  ['POST', '/api/vapi/webhook', 'public'],
+  ['GET', '/api/admin/users', 'admin'],
+  ['GET', '/api/admin/queue', 'admin'],
+  ['GET', '/api/audit', 'admin'],
+  ['GET', '/api/env-check', 'admin'],
+  ['GET', '/recruiter', 'recruiter'],
+  ['GET', '/recruiter/candidates/cand-1', 'recruiter'],
+  ['GET', '/admin', 'admin'],
+  ['GET', '/admin/users', 'admin'],
+  ['GET', '/candidate/portal', 'public']
+];
+
+function request(method: string, path: string, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(`http://127.0.0.1:9${path}`, { method, headers });
+}
+
+export const checks: Check[] = [
+  {
+    name: 'the access table opens each route to the right callers',
+    run: async () => {
+      const { findAccessRule, hasPermission } = await import('../../src/lib/auth/permissions');
+
+      for (const [method, path, audience] of ROUTES) {
+        const rule = findAccessRule(path, method);
+        const actual: Audience = !rule || rule.access === 'public'
+          ? 'public'
+          : hasPermission('recruiter', rule.access) ? 'recruiter' : 'admin';
+        assert.equal(actual, audience, `${method} ${path}`);
+        if (rule && rule.access !== 'public') {
+          assert.equal(hasPermission('admin', rule.access), true, `admin on ${method} ${path}`);
+        }
+      }
+      assert.equal(hasPermission(null, 'view_applications'), false);
+      assert.equal(hasPermission('candidate', 'view_applications'), false);
+    }
+  },
+  {
+    name: 'a session token is refused once tampered with, expired or signed with another secret',
+    run: async () => {
+      const { SESSION_TTL_SECONDS, createSessionToken, verifySessionToken } = await import('../../src/lib/auth/session');
+      const user = { id: 'user-check', role: 'recruiter' as const, name: 'Check Recruiter' };
+      const now = Date.now();
+
+      await withEnv({ AUTH_SECRET: 'check-auth-secret' }, async () => {
+        const token = await createSessionToken(user, now);
+        assert.deepEqual(
+          await verifySessionToken(token, now),
+          { sub: user.id, role: 'recruiter', name: user.name, exp: Math.floor(now / 1000) + SESSION_TTL_SECONDS }
+        );
+        assert.equal(await verifySessionToken(token, now + SESSION_TTL_SECONDS * 1000), null);
+
+        // A recruiter who rewrites their own role in the payload
+        const [payload, signature] = token.split('.');
+        const promoted = Buffer.from(
+          JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), role: 'admin' })
+        ).toString('base64url');
+        assert.equal(await verifySessionToken(`${promoted}.${signature}`, now), null);
+        assert.equal(await verifySessionToken(payload, now), null);
+        assert.equal(await verifySessionToken('not-a-token.at-all', now), null);
+        assert.equal(await verifySessionToken(undefined, now), null);
+
+        const elsewhere = await withEnv({ AUTH_SECRET: 'another-secret' }, () => createSessionToken(user, now));
+        assert.equal(await verifySessionToken(elsewhere, now), null);
+      });
+    }
+  },
+  {
+    name: 'staff routes refuse requests without a session, or whose session cannot be re-checked',
+    run: async () => {
+      const { middleware } = await import('../../src/middleware');
+      const { SESSION_COOKIE, createSessionToken } = await import('../../src/lib/auth/session');
+
+      assert.equal((await middleware(request('GET', '/api/applications'))).status, 401);
+      assert.equal((await middleware(request('GET', '/api/admin/users', { cookie: `${SESSION_COOKIE}=forged.token` }))).status, 401);
+
+      const page = await middleware(request('GET', '/recruiter'));
+      assert.equal(page.status, 307);
+      assert.equal(new URL(page.headers.get('location')!).pathname, '/login');
+      assert.equal(new URL(page.headers.get('location')!).searchParams.get('next'), '/recruiter');
+
+      // Nothing answers the re-check here, so even a validly signed admin session is refused
+      const token = await createSessionToken({ id: 'user-check', role: 'admin', name: 'Check Admin' });
+      assert.equal((await middleware(request('GET', '/api/admin/users', { cookie: `${SESSION_COOKIE}=${token}` }))).status, 401);
+
+      const open = await middleware(request('GET', '/api/jobs'));
+      assert.equal(open.headers.get('x-middleware-next'), '1');
+    }
+  },
+  {
+    name: 'the cron secret only opens the scheduler routes',
+    run: async () => {
+      const { middleware } = await import('../../src/middleware');
+
+      await withEnv({ CRON_SECRET }, async () => {
+        const bearer = { authorization: `Bearer ${CRON_SECRET}` };
+        assert.equal((await middleware(request('POST', '/api/sla/scheduler', bearer))).headers.get('x-middleware-next'), '1');
+        assert.equal((await middleware(request('POST', '/api/screening/scheduler', bearer))).headers.get('x-middleware-next'), '1');
+        assert.equal((await middleware(request('GET', '/api/admin/users', bearer))).status, 401);
+        assert.equal((await middleware(request('GET', '/api/admin/queue', bearer))).status, 401);
+        assert.equal((await middleware(request('POST', '/api/sla/scheduler', { authorization: 'Bearer guess' }))).status, 401);
+      });
+    }
+  },
+  {
+    name: 'a deactivated user can no longer sign in',
+    run: async () => {
+      const { authenticate, createUser, updateUser } = await import('../../src/lib/services/userService');
+      const email = `check-${Date.now()}@example.com`;
+      const password = 'check-password-1234';
+      const user = createUser({ email, name: 'Check Recruiter', role: 'recruiter', password });
+
+      assert.equal(authenticate(email, password)?.id, user.id);
+      assert.equal(authenticate(email, 'wrong-password-1234'), null);
+      updateUser(user.id, { active: false });
+      assert.equal(authenticate(email, password), null);
+    }
+  }
+];
@@ -0,0 +1,87 @@
+// Bulk actions: request validation, a result per application, and staying inside the user's locations
+import assert from 'assert/strict';
+import type { ApplicationStatus, JobApplication } from '../../src/lib/types';
+import { Check, assertHttpError, insertApplication } from './harness';
+
+// An application on a copy of the first job that belongs to `locationId`
+async function insertApplicationAt(locationId: string, status: ApplicationStatus): Promise<JobApplication> {
+  const { getStorageDriver } = await import('../../src/lib/data/storage');
+  const { getAllJobs, getJobById } = await import('../../src/lib/servers/jobs-server');
+
+  const jobId = `job-check-${locationId}`;
+  if (!getJobById(jobId)) {
+    getStorageDriver().insert('jobs', { ...getAllJobs()[0], id: jobId, locationId });
+  }
+  const application = await insertApplication(status);
+  return getStorageDriver().update<JobApplication>('applications', application.id, current => ({ ...current, jobId }))!;
+}
+
+export const checks: Check[] = [
+  {
+    name: 'a malformed action or application list is refused as a whole',
+    run: async () => {
+      const { validateApplicationIds, validateBulkAction } = await import('../../src/lib/services/bulkActionService');
+
+      await assertHttpError(() => validateBulkAction({ type: 'delete' }), 400);
+      await assertHttpError(() => validateBulkAction({ type: 'status', status: 'approved' }), 400);
+      await assertHttpError(() => validateBulkAction({ type: 'reject', notes: '  ' }), 400);
+      await assertHttpError(() => validateBulkAction({ type: 'tag', add: [], remove: [] }), 400);
+      await assertHttpError(() => validateBulkAction({ type: 'tag', add: [42] }), 400);
+      await assertHttpError(() => validateBulkAction({ type: 'tag', add: ['x'.repeat(41)] }), 400);
+      assert.deepEqual(validateBulkAction({ type: 'tag', add: [' bilingual ', ''] }), { type: 'tag', add: ['bilingual'], remove: [] });
+
+      await assertHttpError(() => validateApplicationIds([]), 400);
+      await assertHttpError(() => validateApplicationIds('app-1'), 400);
+      await assertHttpError(() => validateApplicationIds(['app-1', '']), 400);
+      await assertHttpError(() => validateApplicationIds(Array.from({ length: 201 }, (_, i) => `app-${i}`)), 400);
+      assert.deepEqual(validateApplicationIds(['app-1', 'app-1', 'app-2']), ['app-1', 'app-2']);
+    }
+  },
+  {
+    name: 'each application gets its own result, and one failing does not stop the rest',
+    run: async () => {
+      const { runBulkAction } = await import('../../src/lib/services/bulkActionService');
+      const { getApplicationById } = await import('../../src/lib/services/applicationService');
+      const reviewing = await insertApplication('under_review');
+      const hired = await insertApplication('hired');
+
+      const { results, succeeded, failed } = runBulkAction(
+        [reviewing.id, hired.id, 'app-missing'],
+        { type: 'reject', notes: 'Not a fit for this role' },
+        'recruiter',
+        null
+      );
+      assert.equal(succeeded, 1);
+      assert.equal(failed, 2);
+      assert.deepEqual(results.map(result => result.success), [true, false, false]);
+      assert.equal(results[0].application?.status, 'rejected');
+      assert.equal(results[0].application?.portalToken, undefined);
+      assert.ok(results[1].error, 'The hired application failed without saying why');
+      assert.equal(results[2].error, 'Application not found');
+      assert.equal(getApplicationById(hired.id)?.status, 'hired');
+
+      const rescreen = runBulkAction([reviewing.id], { type: 'rescreen' }, 'recruiter', null);
+      assert.equal(rescreen.results[0].success, false);
+    }
+  },
+  {
+    name: "applications outside the user's locations are reported as not found and left alone",
+    run: async () => {
+      const { runBulkAction } = await import('../../src/lib/services/bulkActionService');
+      const { getApplicationById } = await import('../../src/lib/services/applicationService');
+      const north = await insertApplicationAt('loc-check-north', 'under_review');
+      const south = await insertApplicationAt('loc-check-south', 'under_review');
+      const tag = { type: 'tag' as const, add: ['Weekend'], remove: [] };
+
+      const scoped = runBulkAction([north.id, south.id], tag, 'recruiter', ['loc-check-north']);
+      assert.deepEqual(scoped.results.map(result => result.error), [undefined, 'Application not found']);
+      assert.equal(scoped.results[1].application, undefined);
+      assert.deepEqual(getApplicationById(north.id)?.tags, ['Weekend']);
+      assert.equal(getApplicationById(south.id)?.tags, undefined);
+
+      const unrestricted = runBulkAction([south.id], { ...tag, add: ['weekend'] }, 'admin', null);
+      assert.equal(unrestricted.succeeded, 1);
+      assert.deepEqual(getApplicationById(south.id)?.tags, ['weekend']);
+    }
+  }
+];
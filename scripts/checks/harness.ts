@@ -0,0 +1,76 @@
+// Shared pieces for the suites run by scripts/run-checks.ts.
+// Suites import from src lazily (inside run), after the runner has moved into the data copy.
+import assert from 'assert/strict';
+import fs from 'fs';
+import path from 'path';
+import type { ApplicationStatus, JobApplication } from '../../src/lib/types';
+
+export interface Check {
+  name: string;
+  run: () => void | Promise<void>;
+}
+
+// An empty data directory inside the data copy, for checks that need their own files
+export function freshDataDir(name: string): string {
+  const dir = path.join(process.cwd(), 'check-data', name);
+  fs.rmSync(dir, { recursive: true, force: true });
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+// Passes when `action` throws an HttpError with the given status
+export async function assertHttpError(action: () => unknown, status: number): Promise<void> {
+  const { HttpError } = await import('../../src/lib/http/httpError');
+  assert.throws(action, error => error instanceof HttpError && error.status === status);
+}
+
+// Sets env vars for the length of `action`, then puts the old values back
+export async function withEnv<T>(vars: Record<string, string | undefined>, action: () => T | Promise<T>): Promise<T> {
+  const env = process.env as Record<string, string | undefined>;
+  const previous = Object.fromEntries(Object.keys(vars).map(key => [key, env[key]]));
+  Object.entries(vars).forEach(([key, value]) => (value === undefined ? delete env[key] : (env[key] = value)));
+  try {
+    return await action();
+  } finally {
+    Object.entries(previous).forEach(([key, value]) => (value === undefined ? delete env[key] : (env[key] = value)));
+  }
+}
+
+export function hoursAgo(hours: number, now: Date = new Date()): string {
+  return new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * A new candidate and an application for them on the first job in the data copy,
+ * sitting in `status` since `since`. Written straight to storage, so nobody is notified.
+ */
+export async function insertApplication(status: ApplicationStatus, since: string = new Date().toISOString()): Promise<JobApplication> {
+  const { getStorageDriver } = await import('../../src/lib/data/storage');
+  const { getAllJobs } = await import('../../src/lib/servers/jobs-server');
+  const { getStepForStatus } = await import('../../src/lib/workflow/workflowUtils');
+
+  const id = `check-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const step = getStepForStatus(status) || 'application_submitted';
+  getStorageDriver().insert('candidates', {
+    id: `cand-${id}`,
+    firstName: 'Check',
+    lastName: 'Candidate',
+    email: `${id}@example.com`,
+    phone: '+15555550100',
+    createdAt: since,
+    updatedAt: since
+  });
+
+  return getStorageDriver().insert<JobApplication>('applications', {
+    id: `app-${id}`,
+    candidateId: `cand-${id}`,
+    jobId: getAllJobs()[0].id,
+    status,
+    currentStep: step,
+    submittedAt: since,
+    timeline: [{ step, status: 'completed', timestamp: since, notes: 'Created by npm run check', performedBy: 'system', applicationStatus: status }],
+    feedback: {},
+    createdAt: since,
+    updatedAt: since
+  });
+}
@@ -0,0 +1,107 @@
+// Data migrations: legacy files are upgraded once, stamped, and never touched again
+import assert from 'assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { Check, freshDataDir } from './harness';
+
+function writeJson(dir: string, file: string, contents: unknown): void {
+  fs.writeFileSync(path.join(dir, file), JSON.stringify(contents, null, 2));
+}
+
+function readJson(dir: string, file: string): any {
+  return JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+}
+
+// A data directory as it looked before schema versions, with the config from the data copy
+async function legacyDataDir(name: string) {
+  const { JsonStorageDriver } = await import('../../src/lib/data/storage/json-storage-driver');
+  const dir = freshDataDir(name);
+
+  writeJson(dir, 'candidates.json', [
+    { id: 'cand-legacy', firstName: 'Sam', resumePath: '/uploads/sam.pdf', screeningSummary: 'Good fit' }
+  ]);
+  writeJson(dir, 'applications.json', [
+    {
+      id: 'app-legacy',
+      candidateId: 'cand-legacy',
+      status: 'under_review',
+      currentStep: 'under_review',
+      createdAt: '2024-03-01T10:00:00.000Z',
+      timeline: [{ step: 'submitted', status: 'completed', timestamp: '2024-03-01T10:00:00.000Z', completedBy: 'candidate' }]
+    }
+  ]);
+  const { schemaVersion, ...config } = readJson(path.join(process.cwd(), 'data'), 'config.json');
+  writeJson(dir, 'config.json', config);
+
+  return { dir, driver: new JsonStorageDriver(dir) };
+}
+
+export const checks: Check[] = [
+  {
+    name: 'migrations have unique, increasing versions',
+    run: async () => {
+      const { MIGRATIONS } = await import('../../src/lib/data/migrations');
+      MIGRATIONS.forEach((migration, index) => {
+        if (index > 0) {
+          assert.ok(migration.version > MIGRATIONS[index - 1].version, `${migration.name} is out of order`);
+        }
+      });
+    }
+  },
+  {
+    name: 'legacy files are migrated and stamped with the latest version',
+    run: async () => {
+      const { LATEST_SCHEMA_VERSION, getMigrationStatus, runMigrations } = await import('../../src/lib/data/migrations');
+      const { dir, driver } = await legacyDataDir('legacy');
+
+      const results = runMigrations(driver);
+      assert.ok(results.some(result => result.target === 'candidates' && result.applied.includes('001-candidate-legacy-fields')));
+      assert.ok(results.some(result => result.target === 'applications' && result.applied.includes('003-application-steps')));
+
+      const candidates = readJson(dir, 'candidates.json');
+      assert.equal(candidates.schemaVersion, LATEST_SCHEMA_VERSION);
+      assert.equal(candidates.records[0].resumeUrl, '/uploads/sam.pdf');
+      assert.equal('resumePath' in candidates.records[0], false);
+      assert.equal(candidates.records[0].screeningCompleted, true);
+
+      const application = readJson(dir, 'applications.json').records[0];
+      assert.equal(application.currentStep, 'recruiter_review');
+      assert.equal(application.submittedAt, '2024-03-01T10:00:00.000Z');
+      assert.equal(application.timeline[0].step, 'application_submitted');
+      assert.equal(application.timeline[0].performedBy, 'candidate');
+      assert.deepEqual(application.feedback, {});
+
+      assert.equal(readJson(dir, 'config.json').schemaVersion, LATEST_SCHEMA_VERSION);
+      for (const status of getMigrationStatus(driver)) {
+        assert.deepEqual(status.pending, [], `${status.target} still has pending migrations`);
+      }
+    }
+  },
+  {
+    name: 'running the migrations again changes nothing',
+    run: async () => {
+      const { runMigrations } = await import('../../src/lib/data/migrations');
+      const { dir, driver } = await legacyDataDir('rerun');
+      runMigrations(driver);
+
+      const before = ['candidates.json', 'applications.json', 'config.json'].map(file => fs.readFileSync(path.join(dir, file), 'utf-8'));
+      assert.deepEqual(runMigrations(driver), []);
+      const after = ['candidates.json', 'applications.json', 'config.json'].map(file => fs.readFileSync(path.join(dir, file), 'utf-8'));
+      assert.deepEqual(after, before);
+    }
+  },
+  {
+    name: 'a file written by a newer build is left alone',
+    run: async () => {
+      const { JsonStorageDriver } = await import('../../src/lib/data/storage/json-storage-driver');
+      const { LATEST_SCHEMA_VERSION, runMigrations } = await import('../../src/lib/data/migrations');
+      const dir = freshDataDir('newer');
+      const newer = { schemaVersion: LATEST_SCHEMA_VERSION + 1, records: [{ id: 'cand-new', resumePath: '/uploads/new.pdf' }] };
+      writeJson(dir, 'candidates.json', newer);
+
+      const results = runMigrations(new JsonStorageDriver(dir));
+      assert.equal(results.some(result => result.target === 'candidates'), false);
+      assert.deepEqual(readJson(dir, 'candidates.json'), newer);
+    }
+  }
+];
@@ -0,0 +1,80 @@
+// Candidate status portal: magic-link tokens, what a wrong token gets, and what the portal lets a candidate change
+import assert from 'assert/strict';
+import { NextRequest } from 'next/server';
+import { Check, insertApplication } from './harness';
+
+async function callPortal(token: string, method: 'GET' | 'PATCH' = 'GET', body?: Record<string, unknown>) {
+  const route = await import('../../src/app/api/portal/[token]/route');
+  const response = await route[method](
+    new NextRequest(`http://localhost/api/portal/${encodeURIComponent(token)}`, { method, body: body && JSON.stringify(body) }),
+    { params: { token } }
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+// The token at the end of the application's portal link, issuing it if needed
+async function portalToken(applicationId: string): Promise<string> {
+  const { getApplicationById } = await import('../../src/lib/services/applicationService');
+  const { getPortalLink } = await import('../../src/lib/services/candidatePortalService');
+  return getPortalLink(getApplicationById(applicationId)!).split('/').pop()!;
+}
+
+export const checks: Check[] = [
+  {
+    name: 'each application gets one random portal token, kept out of staff responses',
+    run: async () => {
+      const { getApplicationById, withoutPortalToken } = await import('../../src/lib/services/applicationService');
+      const first = await insertApplication('under_review');
+      const second = await insertApplication('under_review');
+
+      const token = await portalToken(first.id);
+      assert.ok(token.length >= 32, 'The portal token is too short to be unguessable');
+      assert.equal(await portalToken(first.id), token);
+      assert.notEqual(await portalToken(second.id), token);
+      assert.equal(getApplicationById(first.id)?.portalToken, token);
+      assert.equal(withoutPortalToken(getApplicationById(first.id)!).portalToken, undefined);
+    }
+  },
+  {
+    name: 'only the exact token opens the portal',
+    run: async () => {
+      const application = await insertApplication('under_review');
+      const token = await portalToken(application.id);
+
+      const opened = await callPortal(token);
+      assert.equal(opened.status, 200);
+      assert.equal(opened.body.portal.applicationId, application.id);
+      assert.equal(JSON.stringify(opened.body).includes(token), false);
+
+      const altered = `${token.slice(0, -1)}${token.endsWith('A') ? 'B' : 'A'}`;
+      for (const guess of [altered, token.slice(0, -1), application.id, application.candidateId, ' ']) {
+        assert.equal((await callPortal(guess)).status, 404, `Opened with ${guess}`);
+      }
+    }
+  },
+  {
+    name: 'a wrong token changes nothing, and only resumes uploaded for the candidate are attached',
+    run: async () => {
+      const { getApplicationById } = await import('../../src/lib/services/applicationService');
+      const application = await insertApplication('under_review');
+      const other = await insertApplication('under_review');
+      const token = await portalToken(application.id);
+
+      assert.equal((await callPortal(`${token}x`, 'PATCH', { action: 'withdraw' })).status, 404);
+      assert.equal(getApplicationById(application.id)?.status, 'under_review');
+
+      const foreign = `/uploads/resumes/${other.candidateId}_resume.pdf`;
+      const escaping = `/uploads/resumes/${application.candidateId}_/../${other.candidateId}_resume.pdf`;
+      for (const resumeUrl of [foreign, escaping, undefined]) {
+        assert.equal((await callPortal(token, 'PATCH', { action: 'replace_resume', resumeUrl })).status, 400);
+      }
+      const own = `/uploads/resumes/${application.candidateId}_resume.pdf`;
+      assert.equal((await callPortal(token, 'PATCH', { action: 'replace_resume', resumeUrl: own })).status, 200);
+      assert.equal(getApplicationById(application.id)?.resumeUrl, own);
+
+      const withdrawn = await callPortal(token, 'PATCH', { action: 'withdraw' });
+      assert.equal(withdrawn.body.portal.status, 'withdrawn');
+      assert.equal(getApplicationById(other.id)?.status, 'under_review');
+    }
+  }
+];
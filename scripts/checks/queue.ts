@@ -0,0 +1,129 @@
+// Background job queue: backoff, dead-lettering, abandoned leases, admin retries and dedupe keys
+import assert from 'assert/strict';
+import { Check, freshDataDir } from './harness';
+
+const WORKER = 'check-worker';
+
+// Each check gets a queue of its own, so jobs the app queued meanwhile can't be claimed instead
+async function withEmptyQueue(name: string, action: () => void | Promise<void>): Promise<void> {
+  const { setStorageDriver } = await import('../../src/lib/data/storage');
+  const { JsonStorageDriver } = await import('../../src/lib/data/storage/json-storage-driver');
+  setStorageDriver(new JsonStorageDriver(freshDataDir(`queue-${name}`)));
+  try {
+    await action();
+  } finally {
+    setStorageDriver(null);
+  }
+}
+
+function later(now: Date, ms: number): Date {
+  return new Date(now.getTime() + ms);
+}
+
+export const checks: Check[] = [
+  {
+    name: 'a failed attempt is retried after its backoff',
+    run: () => withEmptyQueue('backoff', async () => {
+      const { claimNextJob, enqueueJob, failJob, getBackoffDelayMs, getRetryPolicy } = await import('../../src/lib/queue/jobQueue');
+      const now = new Date();
+      const job = enqueueJob('deliver-notification', { notificationId: 'n1' }, {}, now);
+
+      assert.equal(claimNextJob(WORKER, now)?.id, job.id);
+      const failed = failJob(job.id, WORKER, new Error('SMTP timeout'), now);
+      const delayMs = getBackoffDelayMs(1, getRetryPolicy('deliver-notification'));
+      assert.equal(failed?.status, 'queued');
+      assert.equal(failed?.runAt, later(now, delayMs).toISOString());
+      assert.equal(failed?.lastError, 'SMTP timeout');
+
+      assert.equal(claimNextJob(WORKER, later(now, delayMs - 1)), null);
+      assert.equal(claimNextJob(WORKER, later(now, delayMs))?.attempts, 2);
+      assert.ok(getBackoffDelayMs(2, getRetryPolicy('deliver-notification')) > delayMs);
+    })
+  },
+  {
+    name: 'a job that fails every attempt is dead-lettered',
+    run: () => withEmptyQueue('dead-letter', async () => {
+      const { claimNextJob, enqueueJob, failJob, getJobById } = await import('../../src/lib/queue/jobQueue');
+      let now = new Date();
+      const job = enqueueJob('process-end-of-call-report', { callId: 'call-1' }, {}, now);
+
+      for (let attempt = 1; attempt <= job.maxAttempts; attempt++) {
+        const claimed = claimNextJob(WORKER, now);
+        assert.equal(claimed?.attempts, attempt);
+        const failed = failJob(job.id, WORKER, new Error(`Failure ${attempt}`), now);
+        now = new Date(failed!.runAt);
+      }
+
+      const dead = getJobById(job.id);
+      assert.equal(dead?.status, 'dead');
+      assert.equal(dead?.errors.length, job.maxAttempts);
+      assert.equal(claimNextJob(WORKER, later(now, 24 * 60 * 60 * 1000)), null);
+    })
+  },
+  {
+    name: 'a permanent error dead-letters the job straight away',
+    run: () => withEmptyQueue('permanent', async () => {
+      const { PermanentJobError, claimNextJob, enqueueJob, failJob } = await import('../../src/lib/queue/jobQueue');
+      const now = new Date();
+      const job = enqueueJob('fetch-call-results', { callId: 'call-1' }, {}, now);
+
+      claimNextJob(WORKER, now);
+      const failed = failJob(job.id, WORKER, new PermanentJobError('Call not found'), now);
+      assert.equal(failed?.status, 'dead');
+      assert.equal(failed?.attempts, 1);
+    })
+  },
+  {
+    name: 'an expired lease is re-claimed, and on the last attempt dead-letters the job',
+    run: () => withEmptyQueue('lease', async () => {
+      const { claimNextJob, completeJob, enqueueJob, getJobById } = await import('../../src/lib/queue/jobQueue');
+      let now = new Date();
+      const job = enqueueJob('deliver-notification', { notificationId: 'n1' }, {}, now);
+
+      for (let attempt = 1; attempt <= job.maxAttempts; attempt++) {
+        const claimed = claimNextJob(WORKER, now, 1000);
+        assert.equal(claimed?.attempts, attempt);
+        now = later(now, 1000);
+      }
+
+      // A worker whose lease ran out can no longer finish the job
+      assert.equal(claimNextJob('other-worker', now), null);
+      assert.equal(completeJob(job.id, WORKER, 'done', now)?.status, 'dead');
+      assert.equal(getJobById(job.id)?.lastError, `Lease expired on attempt ${job.maxAttempts} of ${job.maxAttempts}`);
+    })
+  },
+  {
+    name: 'retrying a dead job gives it a fresh set of attempts',
+    run: () => withEmptyQueue('retry', async () => {
+      const { PermanentJobError, claimNextJob, enqueueJob, failJob, retryJob } = await import('../../src/lib/queue/jobQueue');
+      const now = new Date();
+      const job = enqueueJob('deliver-notification', { notificationId: 'n1' }, {}, now);
+      claimNextJob(WORKER, now);
+      failJob(job.id, WORKER, new PermanentJobError('Bad address'), now);
+
+      const retried = retryJob(job.id, later(now, 1000));
+      assert.equal(retried.status, 'queued');
+      assert.equal(retried.attempts, 0);
+      assert.equal(retried.deadAt, undefined);
+      assert.equal(claimNextJob(WORKER, later(now, 1000))?.id, job.id);
+      assert.throws(() => retryJob(job.id), /A running job cannot be retried/);
+    })
+  },
+  {
+    name: 'a dedupe key returns the active job instead of queueing another',
+    run: () => withEmptyQueue('dedupe', async () => {
+      const { claimNextJob, completeJob, enqueueJob, listJobs } = await import('../../src/lib/queue/jobQueue');
+      const now = new Date();
+      const first = enqueueJob('process-end-of-call-report', { callId: 'call-1' }, { dedupeKey: 'end-of-call-report:call-1' }, now);
+      const second = enqueueJob('process-end-of-call-report', { callId: 'call-1' }, { dedupeKey: 'end-of-call-report:call-1' }, now);
+      assert.equal(second.id, first.id);
+      assert.equal(listJobs().length, 1);
+
+      // Once it has finished, the key is free again
+      claimNextJob(WORKER, now);
+      completeJob(first.id, WORKER, undefined, now);
+      const third = enqueueJob('process-end-of-call-report', { callId: 'call-1' }, { dedupeKey: 'end-of-call-report:call-1' }, now);
+      assert.notEqual(third.id, first.id);
+    })
+  }
+];
@@ -0,0 +1,90 @@
+// SLA timers: due times, one escalation per stay in a status, and automatic moves for overdue steps
+import assert from 'assert/strict';
+import { Check, hoursAgo, insertApplication } from './harness';
+
+export const checks: Check[] = [
+  {
+    name: 'the limit counts from when the application got to its status',
+    run: async () => {
+      const { getApplicationSlaStatus } = await import('../../src/lib/services/slaService');
+      const { DEFAULT_WORKFLOW_CONFIG } = await import('../../src/lib/workflow/workflowUtils');
+      const now = new Date();
+
+      const onTime = getApplicationSlaStatus(await insertApplication('screening_completed', hoursAgo(47, now)), DEFAULT_WORKFLOW_CONFIG, now);
+      assert.equal(onTime?.slaHours, 48);
+      assert.equal(onTime?.dueAt, hoursAgo(-1, now));
+      assert.equal(onTime?.overdue, false);
+
+      const late = getApplicationSlaStatus(await insertApplication('screening_completed', hoursAgo(50, now)), DEFAULT_WORKFLOW_CONFIG, now);
+      assert.equal(late?.overdue, true);
+      assert.equal(late?.hoursOverdue, 2);
+
+      assert.equal(getApplicationSlaStatus(await insertApplication('rejected', hoursAgo(500, now)), DEFAULT_WORKFLOW_CONFIG, now), null);
+    }
+  },
+  {
+    name: 'moving an application on restarts its clock',
+    run: async () => {
+      const { getApplicationSlaStatus } = await import('../../src/lib/services/slaService');
+      const { transitionApplication } = await import('../../src/lib/services/workflowService');
+      const { DEFAULT_WORKFLOW_CONFIG } = await import('../../src/lib/workflow/workflowUtils');
+      const application = await insertApplication('screening_completed', hoursAgo(50));
+
+      const moved = transitionApplication(application.id, { status: 'under_review', actor: 'recruiter' });
+      const sla = getApplicationSlaStatus(moved, DEFAULT_WORKFLOW_CONFIG);
+      assert.equal(sla?.slaHours, 120);
+      assert.equal(sla?.overdue, false);
+      assert.equal(sla?.since, moved.timeline[moved.timeline.length - 1].timestamp);
+    }
+  },
+  {
+    name: 'an overdue application is flagged once per stay in its status',
+    run: async () => {
+      const { runSlaScheduler } = await import('../../src/lib/services/slaService');
+      const { getApplicationById } = await import('../../src/lib/services/applicationService');
+      const now = new Date();
+      const application = await insertApplication('under_review', hoursAgo(121, now));
+
+      runSlaScheduler(now);
+      const flagged = getApplicationById(application.id)!;
+      assert.deepEqual(flagged.slaEscalation, { status: 'under_review', since: application.submittedAt, escalatedAt: now.toISOString() });
+      assert.equal(flagged.flags?.filter(flag => flag.source === 'sla').length, 1);
+
+      runSlaScheduler(new Date(now.getTime() + 60 * 60 * 1000));
+      const again = getApplicationById(application.id)!;
+      assert.deepEqual(again.slaEscalation, flagged.slaEscalation);
+      assert.deepEqual(again.flags, flagged.flags);
+    }
+  },
+  {
+    name: 'a step with an automatic move sends overdue applications on',
+    run: async () => {
+      const { runSlaScheduler } = await import('../../src/lib/services/slaService');
+      const { getApplicationById } = await import('../../src/lib/services/applicationService');
+      const { getWorkflow, getWorkflowRoleForJob, resetWorkflow, updateWorkflow } = await import('../../src/lib/services/workflowService');
+      const { getJobById } = await import('../../src/lib/servers/jobs-server');
+      const now = new Date();
+      const overdue = await insertApplication('screening_completed', hoursAgo(49, now));
+      const onTime = await insertApplication('screening_completed', hoursAgo(47, now));
+      const role = getWorkflowRoleForJob(getJobById(overdue.jobId));
+
+      const workflow = getWorkflow(role);
+      updateWorkflow(role, {
+        ...workflow,
+        steps: workflow.steps.map(step => (step.step === 'screening_call_completed' ? { ...step, slaAutoTransition: 'under_review' } : step))
+      });
+      try {
+        runSlaScheduler(now);
+      } finally {
+        resetWorkflow(role);
+      }
+
+      const moved = getApplicationById(overdue.id)!;
+      assert.equal(moved.status, 'under_review');
+      assert.equal(moved.currentStep, 'recruiter_review');
+      assert.equal(moved.timeline[moved.timeline.length - 1].performedBy, 'system');
+      assert.equal(moved.slaEscalation, undefined);
+      assert.equal(getApplicationById(onTime.id)?.status, 'screening_completed');
+    }
+  }
+];
@@ -0,0 +1,77 @@
+// Inbound SMS: request signatures, the replay window, and the route refusing texts it can't verify
+import assert from 'assert/strict';
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { Check, insertApplication, withEnv } from './harness';
+
+const SECRET = 'check-sms-secret';
+
+// Signed the way the stub provider expects: timestamp in seconds, hex HMAC of `${timestamp}.${rawBody}`
+function signedText(fields: Record<string, string>, sentAt: number = Date.now(), secret: string = SECRET) {
+  const rawBody = JSON.stringify(fields);
+  const timestamp = String(Math.floor(sentAt / 1000));
+  const headers = new Headers({
+    'content-type': 'application/json',
+    'x-sms-timestamp': timestamp,
+    'x-sms-signature': crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex')
+  });
+  return { url: 'http://localhost/api/sms/inbound', rawBody, headers };
+}
+
+async function postText(text: { rawBody: string; headers: Headers }) {
+  const { POST } = await import('../../src/app/api/sms/inbound/route');
+  const response = await POST(new NextRequest('http://localhost/api/sms/inbound', { method: 'POST', headers: text.headers, body: text.rawBody }));
+  return { status: response.status, body: await response.json() };
+}
+
+export const checks: Check[] = [
+  {
+    name: 'signed texts are accepted and tampered, stale or unsigned ones refused',
+    run: async () => {
+      const { StubSmsProvider } = await import('../../src/lib/notifications/sms/stubSmsProvider');
+      const provider = new StubSmsProvider();
+      const fields = { from: '+15555550199', body: 'WITHDRAW' };
+
+      const good = signedText(fields);
+      assert.equal(provider.verifyInbound(good, SECRET), true);
+
+      const prefixed = new Headers(good.headers);
+      prefixed.set('x-sms-signature', `sha256=${good.headers.get('x-sms-signature')}`);
+      assert.equal(provider.verifyInbound({ ...good, headers: prefixed }, SECRET), true);
+
+      assert.equal(provider.verifyInbound({ ...good, rawBody: good.rawBody.replace('WITHDRAW', 'STOP') }, SECRET), false);
+      assert.equal(provider.verifyInbound(signedText(fields, Date.now() - 10 * 60 * 1000), SECRET), false);
+      assert.equal(provider.verifyInbound(signedText(fields, Date.now() + 10 * 60 * 1000), SECRET), false);
+      assert.equal(provider.verifyInbound(signedText(fields, Date.now(), 'another-secret'), SECRET), false);
+      assert.equal(provider.verifyInbound({ ...good, headers: new Headers() }, SECRET), false);
+
+      const unreadableTime = new Headers(good.headers);
+      unreadableTime.set('x-sms-timestamp', 'soon');
+      assert.equal(provider.verifyInbound({ ...good, headers: unreadableTime }, SECRET), false);
+    }
+  },
+  {
+    name: 'the inbound route acts only on texts it could verify',
+    run: async () => {
+      const { getApplicationById } = await import('../../src/lib/services/applicationService');
+      const application = await insertApplication('under_review');
+
+      await withEnv({ SMS_INBOUND_SECRET: SECRET }, async () => {
+        // Someone who knows the candidate's number but not the secret
+        const unsigned = signedText({ from: '+15555550100', body: 'WITHDRAW' });
+        unsigned.headers.delete('x-sms-signature');
+        assert.equal((await postText(unsigned)).status, 401);
+        assert.equal(getApplicationById(application.id)?.status, 'under_review');
+
+        const signed = await postText(signedText({ from: '+15555550199', body: 'Hello' }));
+        assert.equal(signed.status, 200);
+        assert.equal(signed.body.reply.outcome, 'Ignored: no candidate has this phone number');
+      });
+
+      await withEnv({ SMS_INBOUND_SECRET: undefined, NODE_ENV: 'production' }, async () => {
+        assert.equal((await postText(signedText({ from: '+15555550100', body: 'WITHDRAW' }))).status, 500);
+        assert.equal(getApplicationById(application.id)?.status, 'under_review');
+      });
+    }
+  }
+];
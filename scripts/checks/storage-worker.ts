@@ -0,0 +1,10 @@
+// Child process for the storage checks: bumps a counter record through the JSON driver.
+// Usage (forked by checks/storage.ts): storage-worker.ts <dataDir> <recordId> <times>
+import { JsonStorageDriver } from '../../src/lib/data/storage/json-storage-driver';
+
+const [dataDir, recordId, times] = process.argv.slice(2);
+const driver = new JsonStorageDriver(dataDir);
+
+for (let i = 0; i < Number(times); i++) {
+  driver.update<{ id: string; count: number }>('candidates', recordId, record => ({ ...record, count: record.count + 1 }));
+}
@@ -0,0 +1,112 @@
+// JSON storage driver: atomic writes, file locks and the expectedUpdatedAt check
+import assert from 'assert/strict';
+import { fork } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { Check, freshDataDir } from './harness';
+
+interface Counter {
+  id: string;
+  count: number;
+  updatedAt?: string;
+}
+
+const WORKERS = 3;
+const UPDATES_PER_WORKER = 20;
+
+async function openDriver(name: string) {
+  const { JsonStorageDriver } = await import('../../src/lib/data/storage/json-storage-driver');
+  const dir = freshDataDir(name);
+  return { dir, driver: new JsonStorageDriver(dir), file: path.join(dir, 'candidates.json') };
+}
+
+function runWorker(dir: string, recordId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = fork(path.join(__dirname, 'storage-worker.ts'), [dir, recordId, String(UPDATES_PER_WORKER)]);
+    child.on('error', reject);
+    child.on('exit', code => (code === 0 ? resolve() : reject(new Error(`Storage worker exited with ${code}`))));
+  });
+}
+
+export const checks: Check[] = [
+  {
+    name: 'writes replace the file whole and leave no temp or lock files behind',
+    run: async () => {
+      const { dir, driver, file } = await openDriver('atomic');
+      driver.insert<Counter>('candidates', { id: 'c1', count: 0 });
+      driver.update<Counter>('candidates', 'c1', record => ({ ...record, count: 1 }));
+
+      assert.deepEqual(JSON.parse(fs.readFileSync(file, 'utf-8')), [{ id: 'c1', count: 1 }]);
+      assert.deepEqual(fs.readdirSync(dir).filter(name => /\.(lock|tmp|stale)$/.test(name)), []);
+    }
+  },
+  {
+    name: 'a stale expectedUpdatedAt is refused without writing',
+    run: async () => {
+      const { StorageConflictError } = await import('../../src/lib/data/storage');
+      const { driver } = await openDriver('conflict');
+      driver.insert<Counter>('candidates', { id: 'c1', count: 0, updatedAt: '2025-01-02T00:00:00.000Z' });
+
+      assert.throws(
+        () => driver.update<Counter>('candidates', 'c1', record => ({ ...record, count: 99 }), { expectedUpdatedAt: '2025-01-01T00:00:00.000Z' }),
+        StorageConflictError
+      );
+      assert.equal(driver.findById<Counter>('candidates', 'c1')?.count, 0);
+
+      driver.update<Counter>('candidates', 'c1', record => ({ ...record, count: 1 }), { expectedUpdatedAt: '2025-01-02T00:00:00.000Z' });
+      assert.equal(driver.findById<Counter>('candidates', 'c1')?.count, 1);
+    }
+  },
+  {
+    name: 'processes updating the same record at once lose no updates',
+    run: async () => {
+      const { dir, driver } = await openDriver('concurrent');
+      driver.insert<Counter>('candidates', { id: 'c1', count: 0 });
+
+      await Promise.all(Array.from({ length: WORKERS }, () => runWorker(dir, 'c1')));
+      assert.equal(driver.findById<Counter>('candidates', 'c1')?.count, WORKERS * UPDATES_PER_WORKER);
+    }
+  },
+  {
+    name: 'a lock left behind by a crashed process is reclaimed',
+    run: async () => {
+      const { driver, file } = await openDriver('stale-lock');
+      driver.insert<Counter>('candidates', { id: 'c1', count: 0 });
+
+      const lockPath = `${file}.lock`;
+      fs.writeFileSync(lockPath, '99999');
+      const longAgo = new Date(Date.now() - 60 * 1000);
+      fs.utimesSync(lockPath, longAgo, longAgo);
+
+      driver.update<Counter>('candidates', 'c1', record => ({ ...record, count: 1 }));
+      assert.equal(driver.findById<Counter>('candidates', 'c1')?.count, 1);
+      assert.equal(fs.existsSync(lockPath), false);
+      assert.deepEqual(fs.readdirSync(path.dirname(file)).filter(name => name.endsWith('.stale')), []);
+    }
+  },
+  {
+    name: 'a lock reclaimed from a slow holder is not removed when that holder finishes',
+    run: async () => {
+      const { withFileLock } = await import('../../src/lib/data/storage/atomic-file');
+      const { file } = await openDriver('slow-holder');
+      const lockPath = `${file}.lock`;
+
+      withFileLock(file, () => {
+        // What another process does once this lock has gone stale
+        fs.renameSync(lockPath, `${lockPath}.reclaimed`);
+        fs.writeFileSync(lockPath, '99999');
+      });
+      assert.equal(fs.readFileSync(lockPath, 'utf-8'), '99999');
+    }
+  },
+  {
+    name: 'an unreadable data file is left alone rather than overwritten',
+    run: async () => {
+      const { driver, file } = await openDriver('corrupt');
+      fs.writeFileSync(file, '[{"id": "c1", "cou');
+
+      assert.throws(() => driver.insert<Counter>('candidates', { id: 'c2', count: 0 }));
+      assert.equal(fs.readFileSync(file, 'utf-8'), '[{"id": "c1", "cou');
+    }
+  }
+];
@@ -0,0 +1,167 @@
+// VAPI webhooks: signatures, the replay window, duplicate deliveries and the events the route handles
+import assert from 'assert/strict';
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import type { ApplicationStatus } from '../../src/lib/types';
+import { Check, insertApplication, withEnv } from './harness';
+
+const SECRET = 'check-webhook-secret';
+
+// Wrapped and signed the way VAPI sends it
+function signedDelivery(message: Record<string, any>, timestamp: number = Date.now()) {
+  const rawBody = JSON.stringify({ message: { id: crypto.randomUUID(), timestamp, ...message } });
+  const signature = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${rawBody}`).digest('hex');
+  const headers = new Headers({
+    'content-type': 'application/json',
+    'x-vapi-timestamp': String(timestamp),
+    'x-vapi-signature': signature
+  });
+  return { rawBody, headers, payload: JSON.parse(rawBody) };
+}
+
+async function postToWebhook(delivery: { rawBody: string; headers: Headers }) {
+  const { POST } = await import('../../src/app/api/vapi/webhook/route');
+  const response = await POST(new NextRequest('http://localhost/api/vapi/webhook', {
+    method: 'POST',
+    headers: delivery.headers,
+    body: delivery.rawBody
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+// A simulated call for a new screening, with its metadata pointing back at the records
+async function startCall(status: ApplicationStatus = 'screening_scheduled') {
+  const { createScreening } = await import('../../src/lib/services/screeningService');
+  const { createSimulatedCallId, startSimulatedCall } = await import('../../src/lib/integrations/vapi/webhookEmitter');
+
+  const application = await insertApplication(status);
+  const screening = createScreening(application.id, application.candidateId, application.jobId);
+  const call = startSimulatedCall(createSimulatedCallId(), 'qualified', {
+    screeningId: screening.id,
+    applicationId: application.id,
+    candidateId: application.candidateId,
+    jobId: application.jobId
+  });
+  return { application, screening, call };
+}
+
+export const checks: Check[] = [
+  {
+    name: 'signed requests are accepted and tampered, stale or unsigned ones refused',
+    run: async () => {
+      const { verifyWebhookRequest } = await import('../../src/lib/integrations/vapi/webhookVerification');
+      await withEnv({ VAPI_WEBHOOK_SECRET: SECRET }, () => {
+        const message = { type: 'status-update', status: 'ringing', call: { id: 'call-check' } };
+
+        const good = signedDelivery(message);
+        assert.equal(verifyWebhookRequest(good.headers, good.rawBody, good.payload).ok, true);
+
+        const tampered = verifyWebhookRequest(good.headers, good.rawBody.replace('ringing', 'ended'), good.payload);
+        assert.equal(tampered.ok === false && tampered.reason, 'invalid_signature');
+
+        const stale = signedDelivery(message, Date.now() - 10 * 60 * 1000);
+        const staleResult = verifyWebhookRequest(stale.headers, stale.rawBody, stale.payload);
+        assert.equal(staleResult.ok === false && staleResult.reason, 'stale_timestamp');
+
+        const unsigned = verifyWebhookRequest(new Headers(), good.rawBody, good.payload);
+        assert.equal(unsigned.ok === false && unsigned.reason, 'missing_credentials');
+
+        const wrongSecret = verifyWebhookRequest(new Headers({ 'x-vapi-secret': 'guess' }), good.rawBody, good.payload);
+        assert.equal(wrongSecret.ok === false && wrongSecret.reason, 'invalid_secret');
+
+        const sharedSecret = verifyWebhookRequest(new Headers({ 'x-vapi-secret': SECRET }), good.rawBody, good.payload);
+        assert.equal(sharedSecret.ok, true);
+      });
+    }
+  },
+  {
+    name: 'production refuses webhooks when no secret is configured',
+    run: async () => {
+      const { verifyWebhookRequest } = await import('../../src/lib/integrations/vapi/webhookVerification');
+      await withEnv({ VAPI_WEBHOOK_SECRET: undefined, NODE_ENV: 'production' }, () => {
+        const delivery = signedDelivery({ type: 'status-update', status: 'ringing', call: { id: 'call-check' } });
+        const result = verifyWebhookRequest(delivery.headers, delivery.rawBody, delivery.payload);
+        assert.equal(result.ok === false && result.status, 500);
+      });
+    }
+  },
+  {
+    name: 'each event is handled once unless its processing failed',
+    run: async () => {
+      const { claimWebhookEvent, releaseWebhookEvent } = await import('../../src/lib/integrations/vapi/webhookVerification');
+      const eventKey = `message:${crypto.randomUUID()}`;
+
+      assert.equal(claimWebhookEvent(eventKey), true);
+      assert.equal(claimWebhookEvent(eventKey), false);
+      releaseWebhookEvent(eventKey);
+      assert.equal(claimWebhookEvent(eventKey), true);
+    }
+  },
+  {
+    name: 'a status update starts the screening and its redelivery is ignored',
+    run: async () => {
+      const { getScreeningById } = await import('../../src/lib/services/screeningService');
+      const { getApplicationById } = await import('../../src/lib/services/applicationService');
+      const { buildStatusUpdate } = await import('../../src/lib/integrations/vapi/webhookEmitter');
+
+      await withEnv({ VAPI_WEBHOOK_SECRET: SECRET }, async () => {
+        const { application, screening, call } = await startCall();
+        const delivery = signedDelivery({ ...buildStatusUpdate(call, 'in-progress') });
+
+        const first = await postToWebhook(delivery);
+        assert.equal(first.status, 200);
+        assert.equal(getScreeningById(screening.id)?.status, 'screening_in_progress');
+        assert.equal(getScreeningById(screening.id)?.aiCallId, call.id);
+        assert.equal(getApplicationById(application.id)?.status, 'screening_in_progress');
+
+        const repeat = await postToWebhook(delivery);
+        assert.equal(repeat.body.message, 'Duplicate event ignored');
+      });
+    }
+  },
+  {
+    name: 'a call on a closed application leaves its status alone',
+    run: async () => {
+      const { getApplicationById } = await import('../../src/lib/services/applicationService');
+      const { recordScreeningFailure } = await import('../../src/lib/services/screeningResultsService');
+      const { buildStatusUpdate } = await import('../../src/lib/integrations/vapi/webhookEmitter');
+
+      await withEnv({ VAPI_WEBHOOK_SECRET: SECRET }, async () => {
+        const { application, screening, call } = await startCall('rejected');
+        await postToWebhook(signedDelivery({ ...buildStatusUpdate(call, 'in-progress') }));
+        assert.equal(getApplicationById(application.id)?.status, 'rejected');
+
+        recordScreeningFailure(screening.id, 'Line busy');
+        assert.equal(getApplicationById(application.id)?.status, 'rejected');
+      });
+    }
+  },
+  {
+    name: 'an end-of-call report is queued and the worker records the results',
+    run: async () => {
+      const { getScreeningById } = await import('../../src/lib/services/screeningService');
+      const { buildEndOfCallReport, buildStatusUpdate, endSimulatedCall } = await import('../../src/lib/integrations/vapi/webhookEmitter');
+      const { getJobById } = await import('../../src/lib/queue/jobQueue');
+      const { runJobWorker } = await import('../../src/lib/queue/jobWorker');
+
+      await withEnv({ VAPI_WEBHOOK_SECRET: SECRET }, async () => {
+        const { screening, call } = await startCall();
+        await postToWebhook(signedDelivery({ ...buildStatusUpdate(call, 'in-progress') }));
+
+        const ended = endSimulatedCall(call.id, call.scenario.turns.length);
+        const queued = await postToWebhook(signedDelivery({ ...buildEndOfCallReport(ended) }));
+        assert.equal(queued.status, 200);
+        assert.equal(getJobById(queued.body.jobId)?.type, 'process-end-of-call-report');
+
+        // The route also nudges the in-process worker; whichever run claims the job finishes it
+        for (let i = 0; i < 50 && getJobById(queued.body.jobId)?.status !== 'succeeded'; i++) {
+          await runJobWorker();
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+        const finished = getScreeningById(screening.id);
+        assert.equal(finished?.status, 'screening_completed');
+        assert.ok(finished?.transcript, 'The transcript was not recorded');
+      });
+    }
+  }
+];
@@ -0,0 +1,81 @@
+// Workflow transitions: who may move an application where, notes, steps and stale updates
+import assert from 'assert/strict';
+import { Check, assertHttpError, insertApplication } from './harness';
+
+export const checks: Check[] = [
+  {
+    name: 'the workflow decides who may make a move and whether it needs a note',
+    run: async () => {
+      const { transitionApplication } = await import('../../src/lib/services/workflowService');
+      const { DEFAULT_WORKFLOW_CONFIG, isValidStatusTransition } = await import('../../src/lib/workflow/workflowUtils');
+      const application = await insertApplication('under_review');
+
+      await assertHttpError(() => transitionApplication(application.id, { status: 'interview_scheduled', actor: 'candidate', notes: 'Please' }), 403);
+      await assertHttpError(() => transitionApplication(application.id, { status: 'interview_scheduled', actor: 'recruiter' }), 400);
+      await assertHttpError(() => transitionApplication(application.id, { status: 'screening_scheduled', actor: 'admin' }), 400);
+      assert.equal(isValidStatusTransition('under_review', 'interview_scheduled', 'candidate', DEFAULT_WORKFLOW_CONFIG), false);
+      assert.equal(isValidStatusTransition('under_review', 'interview_scheduled', 'recruiter', DEFAULT_WORKFLOW_CONFIG), true);
+
+      const moved = transitionApplication(application.id, { status: 'interview_scheduled', actor: 'recruiter', notes: 'Strong screening' });
+      assert.equal(moved.status, 'interview_scheduled');
+      assert.equal(moved.currentStep, 'recruiter_review');
+      assert.equal(moved.timeline[moved.timeline.length - 1].performedBy, 'recruiter');
+    }
+  },
+  {
+    name: 'an application can only be put at a step that fits its status',
+    run: async () => {
+      const { assertStepForStatus, transitionApplication } = await import('../../src/lib/services/workflowService');
+      const { getApplicationById } = await import('../../src/lib/services/applicationService');
+      const { DEFAULT_WORKFLOW_CONFIG } = await import('../../src/lib/workflow/workflowUtils');
+
+      assert.equal(assertStepForStatus(DEFAULT_WORKFLOW_CONFIG, 'recruiter_review', 'under_review'), 'recruiter_review');
+      assert.equal(assertStepForStatus(DEFAULT_WORKFLOW_CONFIG, 'hiring_decision', 'interview_completed'), 'hiring_decision');
+      await assertHttpError(() => assertStepForStatus(DEFAULT_WORKFLOW_CONFIG, 'screening_call_pending', 'under_review'), 400);
+      await assertHttpError(() => assertStepForStatus(DEFAULT_WORKFLOW_CONFIG, 'onboarding', 'hired'), 400);
+
+      const application = await insertApplication('screening_completed');
+      await assertHttpError(
+        () => transitionApplication(application.id, { status: 'under_review', actor: 'recruiter', step: 'process_complete' }),
+        400
+      );
+      assert.equal(getApplicationById(application.id)?.status, 'screening_completed');
+    }
+  },
+  {
+    name: "the saved workflow for the job's role is the one enforced",
+    run: async () => {
+      const { getWorkflow, getWorkflowRoleForJob, resetWorkflow, transitionApplication, updateWorkflow } = await import('../../src/lib/services/workflowService');
+      const { getJobById } = await import('../../src/lib/servers/jobs-server');
+      const application = await insertApplication('screening_completed');
+      const role = getWorkflowRoleForJob(getJobById(application.jobId));
+
+      const workflow = getWorkflow(role);
+      updateWorkflow(role, {
+        ...workflow,
+        statusTransitions: workflow.statusTransitions.filter(transition => !(transition.from === 'screening_completed' && transition.to === 'under_review'))
+      });
+      try {
+        await assertHttpError(() => transitionApplication(application.id, { status: 'under_review', actor: 'recruiter' }), 400);
+      } finally {
+        resetWorkflow(role);
+      }
+      assert.equal(transitionApplication(application.id, { status: 'under_review', actor: 'recruiter' }).status, 'under_review');
+    }
+  },
+  {
+    name: 'a change made from a stale copy of the application is refused',
+    run: async () => {
+      const { StorageConflictError } = await import('../../src/lib/data/storage');
+      const { transitionApplication } = await import('../../src/lib/services/workflowService');
+      const { getApplicationById } = await import('../../src/lib/services/applicationService');
+      const application = await insertApplication('screening_completed', '2025-01-01T00:00:00.000Z');
+
+      assert.throws(
+        () => transitionApplication(application.id, { status: 'under_review', actor: 'recruiter' }, { expectedUpdatedAt: '2024-12-31T00:00:00.000Z' }),
+        StorageConflictError
+      );
+      assert.equal(getApplicationById(application.id)?.status, 'screening_completed');
+    }
+  }
+];
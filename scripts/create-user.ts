@@ -0,0 +1,37 @@
+// Creates a staff account, e.g. the first admin. Prints a generated password when none is given.
+// Usage: npm run create-user -- --email <email> --name "<name>" [--role admin|recruiter] [--password <password>]
+import crypto from 'crypto';
+import { runWithAuditContext } from '../src/lib/audit/context';
+import { HttpError } from '../src/lib/http/httpError';
+import { createUser } from '../src/lib/services/userService';
+import type { UserRole } from '../src/lib/types';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const email = getArg('email');
+const name = getArg('name');
+const role = (getArg('role') || 'admin') as UserRole;
+const givenPassword = getArg('password');
+const password = givenPassword || crypto.randomBytes(12).toString('base64url');
+
+if (!email || !name) {
+  console.error('Pass --email <email> and --name "<name>".');
+  process.exitCode = 1;
+} else {
+  try {
+    const user = runWithAuditContext(
+      { actor: { role: 'system' }, source: 'scripts/create-user' },
+      () => createUser({ email, name, role, password })
+    );
+    console.log(`Created ${user.role} ${user.name} <${user.email}> (${user.id})`);
+    if (!givenPassword) {
+      console.log(`Password: ${password}`);
+    }
+  } catch (error) {
+    console.error(error instanceof HttpError ? error.message : error);
+    process.exitCode = 1;
+  }
+}
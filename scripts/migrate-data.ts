@@ -0,0 +1,25 @@
+// Runs pending data migrations, or reports schema versions with --status.
+// Usage: npm run migrate [-- --status]
+import { getMigrationStatus, runMigrations } from '../src/lib/data/migrations';
+
+function printStatus(): void {
+  for (const status of getMigrationStatus()) {
+    const pending = status.pending.length ? status.pending.join(', ') : 'none';
+    console.log(`${status.target}: v${status.currentVersion} of v${status.latestVersion}, pending: ${pending}`);
+  }
+}
+
+if (process.argv.includes('--status')) {
+  printStatus();
+} else {
+  const results = runMigrations();
+
+  if (results.length === 0) {
+    console.log('All data files are up to date.');
+  }
+
+  for (const result of results) {
+    const applied = result.applied.length ? result.applied.join(', ') : 'version stamp only';
+    console.log(`${result.target}: v${result.fromVersion} -> v${result.toVersion} (${applied})`);
+  }
+}
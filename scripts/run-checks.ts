@@ -0,0 +1,104 @@
+// Runs the behaviour checks in scripts/checks against a throwaway copy of data/, so nothing real is touched.
+// Usage: npm run check [-- <suite> ...] [--keep] [--verbose]
+//   --keep     leave the data copy behind and print where it is
+//   --verbose  show what the app logs while the checks run
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Check } from './checks/harness';
+
+// In the order they run
+const SUITES: Record<string, () => Promise<{ checks: Check[] }>> = {
+  storage: () => import('./checks/storage'),
+  migrations: () => import('./checks/migrations'),
+  webhooks: () => import('./checks/webhooks'),
+  queue: () => import('./checks/queue'),
+  workflow: () => import('./checks/workflow'),
+  sla: () => import('./checks/sla'),
+  access: () => import('./checks/access'),
+  portal: () => import('./checks/portal'),
+  sms: () => import('./checks/sms'),
+  bulk: () => import('./checks/bulk')
+};
+
+const LOG_METHODS = ['log', 'info', 'warn', 'error'] as const;
+
+// The app logs a lot while it works; only the check results are shown unless --verbose
+async function runQuietly(check: Check, verbose: boolean): Promise<void> {
+  const original = LOG_METHODS.map(method => console[method]);
+  if (!verbose) {
+    LOG_METHODS.forEach(method => { console[method] = () => {}; });
+  }
+  try {
+    await check.run();
+  } finally {
+    LOG_METHODS.forEach((method, index) => { console[method] = original[index]; });
+  }
+}
+
+function copyData(): string {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recruitment-checks-'));
+  fs.cpSync(path.join(process.cwd(), 'data'), path.join(workDir, 'data'), {
+    recursive: true,
+    filter: source => !/\.(lock|tmp|stale)$/.test(source)
+  });
+  return workDir;
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const keep = args.includes('--keep');
+  const selected = args.filter(arg => !arg.startsWith('--'));
+
+  const unknown = selected.filter(name => !SUITES[name]);
+  if (unknown.length > 0) {
+    console.error(`Unknown check suite ${unknown.join(', ')}; pick from ${Object.keys(SUITES).join(', ')}`);
+    return 1;
+  }
+
+  // Data paths are resolved from the working directory when the app's modules load,
+  // so move into the copy before anything from src is imported
+  const workDir = copyData();
+  process.chdir(workDir);
+
+  let failed = 0;
+  try {
+    const { runMigrations } = await import('../src/lib/data/migrations');
+    runMigrations();
+
+    for (const name of selected.length > 0 ? selected : Object.keys(SUITES)) {
+      const { checks } = await SUITES[name]();
+      console.log(name);
+      for (const check of checks) {
+        try {
+          await runQuietly(check, verbose);
+          console.log(`  ok    ${check.name}`);
+        } catch (error) {
+          failed++;
+          console.log(`  FAIL  ${check.name}`);
+          console.log(`        ${error instanceof Error ? error.message.split('\n').join('\n        ') : String(error)}`);
+        }
+      }
+    }
+  } finally {
+    process.chdir(os.tmpdir());
+    if (keep) {
+      console.log(`Data copy kept in ${workDir}`);
+    } else {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  console.log(failed > 0 ? `${failed} check${failed === 1 ? '' : 's'} failed` : 'All checks passed');
+  return failed > 0 ? 1 : 0;
+}
+
+// Exit explicitly: the job worker and SLA scheduler timers would otherwise keep the process alive
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error);
+    process.exit(1);
+  }
+);
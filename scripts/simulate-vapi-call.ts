@@ -0,0 +1,84 @@
+// Replays a scripted VAPI call against a running server's webhook, for testing screenings offline.
+// Usage: npm run simulate:call -- (--screening <id> | --application <id>) [--scenario qualified] [--url http://localhost:3000] [--realtime]
+//        npm run simulate:call -- --list
+import { getApplicationById } from '../src/lib/services/applicationService';
+import { createScreening, getScreeningById } from '../src/lib/services/screeningService';
+import { DEFAULT_SIMULATOR_SCENARIO, SIMULATOR_SCENARIOS } from '../src/lib/integrations/vapi/simulatorScenarios';
+import { replayScenario } from '../src/lib/integrations/vapi/webhookEmitter';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function listScenarios(): void {
+  for (const scenario of Object.values(SIMULATOR_SCENARIOS)) {
+    console.log(`${scenario.name}: ${scenario.description}`);
+  }
+}
+
+// The screening to replay the call for; --application starts a new one like the screening page does
+function resolveScreeningId(): string | null {
+  const screeningId = getArg('screening');
+  if (screeningId) {
+    return getScreeningById(screeningId) ? screeningId : null;
+  }
+
+  const applicationId = getArg('application');
+  const application = applicationId ? getApplicationById(applicationId) : null;
+  if (!application) {
+    return null;
+  }
+
+  return createScreening(application.id, application.candidateId, application.jobId).id;
+}
+
+async function main(): Promise<void> {
+  if (process.argv.includes('--list')) {
+    listScenarios();
+    return;
+  }
+
+  const screeningId = resolveScreeningId();
+  if (!screeningId) {
+    console.error('Pass --screening <id> or --application <id> for an existing record.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const scenarioName = getArg('scenario') || DEFAULT_SIMULATOR_SCENARIO;
+  if (!SIMULATOR_SCENARIOS[scenarioName]) {
+    console.error(`Unknown scenario "${scenarioName}". Available scenarios:`);
+    listScenarios();
+    process.exitCode = 1;
+    return;
+  }
+
+  const webhookUrl = new URL('/api/vapi/webhook', getArg('url') || 'http://localhost:3000').toString();
+  const screening = getScreeningById(screeningId)!;
+  const { callId, results } = await replayScenario(webhookUrl, scenarioName, {
+    screeningId,
+    applicationId: screening.applicationId,
+    candidateId: screening.candidateId,
+    jobId: screening.jobId
+  }, { realtime: process.argv.includes('--realtime') });
+
+  if (results.length === 0) {
+    console.log(`Scenario "${scenarioName}" fails before the call connects, so VAPI sends no webhooks.`);
+    return;
+  }
+
+  for (const result of results) {
+    console.log(`${result.type}: ${result.status} ${result.body?.message || result.body?.error || ''}`);
+  }
+  console.log(`Replayed ${callId} for screening ${screeningId}`);
+
+  if (results.some(result => result.status >= 400)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Simulated call failed:', error);
+  process.exitCode = 1;
+});
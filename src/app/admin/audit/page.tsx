@@ -0,0 +1,211 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { AuditEntityType, AuditEntry } from '@/lib/types';
+
+const ENTITY_OPTIONS: { value: AuditEntityType | 'all'; label: string }[] = [
+  { value: 'all', label: 'All entities' },
+  { value: 'application', label: 'Applications' },
+  { value: 'candidate', label: 'Candidates' },
+  { value: 'job', label: 'Jobs' },
+  { value: 'screening', label: 'Screenings' },
+  { value: 'interview', label: 'Interviews' },
+  { value: 'user', label: 'Users' },
+  { value: 'location', label: 'Locations' },
+  { value: 'config', label: 'Configuration' }
+];
+
+const ACTOR_OPTIONS = [
+  { value: 'all', label: 'All actors' },
+  { value: 'admin', label: 'Admin' },
+  { value: 'recruiter', label: 'Recruiter' },
+  { value: 'candidate', label: 'Candidate' },
+  { value: 'system', label: 'System' }
+];
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800'
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value.length > 120 ? `${value.slice(0, 120)}…` : value;
+  const json = JSON.stringify(value);
+  return json.length > 120 ? `${json.slice(0, 120)}…` : json;
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [entityType, setEntityType] = useState<AuditEntityType | 'all'>('all');
+  const [entityId, setEntityId] = useState('');
+  const [actor, setActor] = useState('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: '200' });
+      if (entityType !== 'all') params.set('entityType', entityType);
+      if (entityId.trim()) params.set('entityId', entityId.trim());
+      if (actor !== 'all') params.set('actor', actor);
+
+      const response = await fetch(`/api/audit?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch audit log');
+      const data = await response.json();
+      setEntries(data.entries || []);
+      setTotal(data.total || 0);
+    } catch (err) {
+      console.error('Failed to load audit log:', err);
+      setError('Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entityType, entityId, actor]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <Link href="/admin" className="text-blue-600 hover:text-blue-800 mb-4 inline-block">
+            ← Back to Admin Dashboard
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Audit Log
+          </h1>
+          <p className="text-gray-600">
+            Every change to applications, candidates, jobs, screenings and configuration.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-wrap gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Entity</label>
+            <select
+              value={entityType}
+              onChange={(e) => setEntityType(e.target.value as AuditEntityType | 'all')}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {ENTITY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Entity ID</label>
+            <input
+              type="text"
+              value={entityId}
+              onChange={(e) => setEntityId(e.target.value)}
+              placeholder="e.g. app-1748898653089"
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm w-64"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Actor</label>
+            <select
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {ACTOR_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <span className="text-sm text-gray-500 ml-auto">
+            Showing {entries.length} of {total}
+          </span>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {/* Entries */}
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="ml-2 text-gray-600">Loading audit log...</span>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No audit entries match these filters</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actor</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Action</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Entity</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Changes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {entries.map(entry => (
+                  <Fragment key={entry.id}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    >
+                      <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {entry.actor.name || entry.actor.id || entry.actor.role}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                          {entry.action}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        <span className="font-medium">{entry.entityType}</span>
+                        <span className="text-gray-500"> {entry.entityId}</span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500 font-mono">{entry.source}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {entry.changes.length} field{entry.changes.length === 1 ? '' : 's'}
+                      </td>
+                    </tr>
+                    {expandedId === entry.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-4 py-3">
+                          <div className="space-y-1">
+                            {entry.changes.map(change => (
+                              <div key={change.path} className="text-xs font-mono grid grid-cols-3 gap-4">
+                                <span className="text-gray-700">{change.path}</span>
+                                <span className="text-red-700 break-all">{formatValue(change.before)}</span>
+                                <span className="text-green-700 break-all">{formatValue(change.after)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
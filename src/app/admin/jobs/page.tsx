@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { Job } from '@/lib/types';
+import { Job, Location } from '@/lib/types';
 import JobForm from '@/components/features/admin/JobForm';
 
 export default function JobsAdminPage() {
@@ -15,12 +15,21 @@ export default function JobsAdminPage() {
   const [sortBy, setSortBy] = useState<'title' | 'department' | 'status' | 'createdAt'>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive' | 'filled'>('all');
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationFilter, setLocationFilter] = useState<string>('all'); // 'all', 'none' or a location id
 
-  // Load jobs on mount
+  // Load jobs and locations on mount
   useEffect(() => {
     loadJobs();
+    fetch('/api/locations')
+      .then(response => response.ok ? response.json() : { locations: [] })
+      .then(data => setLocations(data.locations || []))
+      .catch(error => console.error('Failed to load locations:', error));
   }, []);
 
+  const getLocationName = (locationId?: string) =>
+    locations.find(location => location.id === locationId)?.name;
+
   // Load jobs from API
   const loadJobs = async () => {
     setIsLoading(true);
@@ -123,6 +132,11 @@ export default function JobsAdminPage() {
   const getFilteredJobs = () => {
     return jobs
       .filter(job => statusFilter === 'all' ? true : job.status === statusFilter)
+      .filter(job => {
+        if (locationFilter === 'all') return true;
+        if (locationFilter === 'none') return !job.locationId;
+        return job.locationId === locationFilter;
+      })
       .sort((a, b) => {
         // Handle different sort fields
         let comparison = 0;
@@ -207,6 +221,19 @@ export default function JobsAdminPage() {
               <option value="inactive">Inactive</option>
               <option value="filled">Filled</option>
             </select>
+            {locations.length > 0 && (
+              <select
+                value={locationFilter}
+                onChange={(e) => setLocationFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="all">All Locations</option>
+                {locations.map(location => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+                <option value="none">No location</option>
+              </select>
+            )}
           </div>
         </div>
         
@@ -216,6 +243,7 @@ export default function JobsAdminPage() {
             <div className="max-w-4xl w-full">
               <JobForm 
                 job={editingJob || undefined}
+                locations={locations}
                 onSubmit={handleFormSubmit}
                 onCancel={handleCancelForm}
               />
@@ -291,6 +319,9 @@ export default function JobsAdminPage() {
                         )}
                       </div>
                     </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Location
+                    </th>
                     <th 
                       scope="col" 
                       className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
@@ -334,6 +365,9 @@ export default function JobsAdminPage() {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {job.department}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {getLocationName(job.locationId) || '—'}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusBadgeClass(job.status)}`}>
                           {job.status.charAt(0).toUpperCase() + job.status.slice(1)}
@@ -369,8 +403,8 @@ export default function JobsAdminPage() {
             </svg>
             <h3 className="mt-2 text-sm font-medium text-gray-900">No jobs found</h3>
             <p className="mt-1 text-sm text-gray-500">
-              {statusFilter !== 'all' 
-                ? `No ${statusFilter} jobs found. Try changing the filter or create a new job.`
+              {statusFilter !== 'all' || locationFilter !== 'all'
+                ? `No ${statusFilter !== 'all' ? `${statusFilter} ` : ''}jobs found. Try changing the filters or create a new job.`
                 : 'Get started by creating a new job posting.'}
             </p>
             <div className="mt-6">
@@ -0,0 +1,15 @@
+import { SessionBar } from '../../components/features/auth';
+
+// Only reachable when signed in; see src/middleware.ts
+export default function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <>
+      <SessionBar />
+      {children}
+    </>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Location } from '@/lib/types';
+import { DAY_NAMES } from '@/lib/screening/screeningSlots';
+import LocationForm, { LocationFormData } from '@/components/features/admin/LocationForm';
+
+function describeHours(location: Location): string {
+  if (!location.screeningHours?.length) {
+    return 'Screening schedule defaults';
+  }
+  return location.screeningHours
+    .map(window => `${DAY_NAMES[window.dayOfWeek].slice(0, 3)} ${window.start}–${window.end}`)
+    .join(', ');
+}
+
+export default function LocationsPage() {
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [editing, setEditing] = useState<Location | 'new' | null>(null);
+  const [busyLocationId, setBusyLocationId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadLocations = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/locations');
+      if (!response.ok) throw new Error('Failed to fetch locations');
+      const data = await response.json();
+      setLocations(data.locations || []);
+    } catch (err) {
+      console.error('Failed to load locations:', err);
+      setError('Failed to load locations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLocations();
+  }, [loadLocations]);
+
+  const saveLocation = async (data: LocationFormData | { active: boolean }, location?: Location) => {
+    setError(null);
+    setNotice(null);
+    const response = await fetch(location ? `/api/admin/locations/${location.id}` : '/api/admin/locations', {
+      method: location ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data)
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || 'Failed to save location');
+    await loadLocations();
+    return result.location as Location;
+  };
+
+  const handleSubmit = async (data: LocationFormData) => {
+    try {
+      const saved = await saveLocation(data, editing === 'new' ? undefined : editing || undefined);
+      setNotice(`Saved ${saved.name}`);
+      setEditing(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save location');
+    }
+  };
+
+  const toggleActive = async (location: Location) => {
+    setBusyLocationId(location.id);
+    try {
+      await saveLocation({ active: !location.active }, location);
+      setNotice(`${location.name} ${location.active ? 'deactivated' : 'reactivated'}`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to update location');
+    } finally {
+      setBusyLocationId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <Link href="/admin" className="text-blue-600 hover:text-blue-800 mb-4 inline-block">
+            ← Back to Admin Dashboard
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Locations
+          </h1>
+          <p className="text-gray-600">
+            The restaurants this install hires for. Jobs, screenings and recruiters belong to a location.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+            <p className="text-green-700">{notice}</p>
+          </div>
+        )}
+
+        {/* Locations */}
+        <div className="bg-white rounded-lg shadow-md overflow-hidden mb-6">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="ml-2 text-gray-600">Loading locations...</span>
+            </div>
+          ) : locations.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No locations yet. Jobs use the company name until you add one.</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Hiring manager</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Screening hours</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {locations.map(location => (
+                  <tr key={location.id} className={location.active ? '' : 'bg-gray-50 text-gray-400'}>
+                    <td className="px-4 py-3 text-sm">
+                      <p className="font-medium text-gray-900">{location.name}</p>
+                      <p className="text-gray-500">
+                        {location.address.street}, {location.address.city}, {location.address.state} {location.address.postalCode}
+                      </p>
+                      <p className="text-xs text-gray-500">{location.timezone}</p>
+                      {!location.active && <p className="text-xs text-red-600">Inactive</p>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {location.hiringManager ? (
+                        <>
+                          <p>{location.hiringManager.name}</p>
+                          {location.hiringManager.email && <p className="text-gray-500">{location.hiringManager.email}</p>}
+                          {location.hiringManager.phone && <p className="text-gray-500">{location.hiringManager.phone}</p>}
+                        </>
+                      ) : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{describeHours(location)}</td>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => setEditing(location)}
+                        className="text-blue-600 hover:text-blue-800 mr-4"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => toggleActive(location)}
+                        disabled={busyLocationId === location.id}
+                        className={`${location.active ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'} disabled:opacity-50`}
+                      >
+                        {location.active ? 'Deactivate' : 'Reactivate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {editing ? (
+          <LocationForm
+            key={editing === 'new' ? 'new' : editing.id}
+            location={editing === 'new' ? undefined : editing}
+            onSubmit={handleSubmit}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setEditing('new')}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Add Location
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { BackgroundJob, BackgroundJobStats, BackgroundJobStatus } from '@/lib/types';
+
+const STATUS_OPTIONS: { value: BackgroundJobStatus | 'all'; label: string }[] = [
+  { value: 'all', label: 'All jobs' },
+  { value: 'queued', label: 'Queued' },
+  { value: 'running', label: 'Running' },
+  { value: 'succeeded', label: 'Succeeded' },
+  { value: 'dead', label: 'Dead-lettered' }
+];
+
+const STATUS_STYLES: Record<BackgroundJobStatus, string> = {
+  queued: 'bg-blue-100 text-blue-800',
+  running: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  dead: 'bg-red-100 text-red-800'
+};
+
+const JOB_TYPE_LABELS: Record<BackgroundJob['type'], string> = {
+  'process-end-of-call-report': 'Process end-of-call report',
+  'fetch-call-results': 'Fetch call results from VAPI',
+  'deliver-notification': 'Message candidate'
+};
+
+const EMPTY_STATS: BackgroundJobStats = { queued: 0, running: 0, succeeded: 0, dead: 0 };
+
+export default function BackgroundJobsPage() {
+  const [jobs, setJobs] = useState<BackgroundJob[]>([]);
+  const [stats, setStats] = useState<BackgroundJobStats>(EMPTY_STATS);
+  const [status, setStatus] = useState<BackgroundJobStatus | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (status !== 'all') params.set('status', status);
+
+      const response = await fetch(`/api/admin/queue?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch background jobs');
+      const data = await response.json();
+      setJobs(data.jobs || []);
+      setStats(data.stats || EMPTY_STATS);
+    } catch (err) {
+      console.error('Failed to load background jobs:', err);
+      setError('Failed to load background jobs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const updateJob = async (jobId: string, request: Promise<Response>) => {
+    setBusyJobId(jobId);
+    setError(null);
+    try {
+      const response = await request;
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      await loadJobs();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const retryJob = (jobId: string) =>
+    updateJob(jobId, fetch('/api/admin/queue', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'retry', jobId })
+    }));
+
+  const discardJob = (jobId: string) => {
+    if (!confirm('Discard this job? It will not be run again.')) return;
+    updateJob(jobId, fetch(`/api/admin/queue?jobId=${encodeURIComponent(jobId)}`, { method: 'DELETE' }));
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <Link href="/admin" className="text-blue-600 hover:text-blue-800 mb-4 inline-block">
+            ← Back to Admin Dashboard
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Background Jobs
+          </h1>
+          <p className="text-gray-600">
+            Post-call processing runs here. Failed jobs retry with increasing delays; jobs that run out of attempts are dead-lettered.
+          </p>
+        </div>
+
+        {/* Counts */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {STATUS_OPTIONS.filter(option => option.value !== 'all').map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setStatus(option.value)}
+              className={`bg-white rounded-lg shadow-md p-4 text-left border-2 ${
+                status === option.value ? 'border-blue-500' : 'border-transparent'
+              }`}
+            >
+              <p className="text-sm font-medium text-gray-600">{option.label}</p>
+              <p className="text-2xl font-semibold text-gray-900">{stats[option.value as BackgroundJobStatus]}</p>
+            </button>
+          ))}
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-wrap gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as BackgroundJobStatus | 'all')}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {STATUS_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={loadJobs}
+            className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md text-sm hover:bg-gray-200"
+          >
+            Refresh
+          </button>
+          <span className="text-sm text-gray-500 ml-auto">
+            Showing {jobs.length} job{jobs.length === 1 ? '' : 's'}
+          </span>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+
+        {/* Jobs */}
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="ml-2 text-gray-600">Loading background jobs...</span>
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No background jobs match this filter</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Created</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Job</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Attempts</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Next run / outcome</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {jobs.map(job => (
+                  <Fragment key={job.id}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}
+                    >
+                      <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                        {new Date(job.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        <span className="font-medium">{JOB_TYPE_LABELS[job.type] || job.type}</span>
+                        {job.payload?.callId && <span className="text-gray-500 font-mono"> {job.payload.callId}</span>}
+                        {job.payload?.notification?.to && <span className="text-gray-500"> {job.payload.notification.to}</span>}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[job.status]}`}>
+                          {job.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {job.attempts} / {job.maxAttempts}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {job.status === 'queued'
+                          ? new Date(job.runAt).toLocaleString()
+                          : job.status === 'succeeded'
+                            ? job.result || 'Done'
+                            : job.lastError || '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                        {(job.status === 'dead' || job.status === 'queued') && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => retryJob(job.id)}
+                              disabled={busyJobId === job.id}
+                              className="text-blue-600 hover:text-blue-800 mr-4 disabled:opacity-50"
+                            >
+                              {job.status === 'dead' ? 'Retry' : 'Run now'}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => discardJob(job.id)}
+                              disabled={busyJobId === job.id}
+                              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              Discard
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedId === job.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-4 py-3 space-y-3">
+                          {job.errors.length > 0 && (
+                            <div>
+                              <p className="text-xs font-medium text-gray-700 mb-1">Errors</p>
+                              {job.errors.map(attemptError => (
+                                <div key={`${attemptError.attempt}-${attemptError.at}`} className="text-xs font-mono text-red-700">
+                                  #{attemptError.attempt} {new Date(attemptError.at).toLocaleString()}: {attemptError.message}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          <div>
+                            <p className="text-xs font-medium text-gray-700 mb-1">Job {job.id}</p>
+                            <pre className="text-xs font-mono text-gray-700 whitespace-pre-wrap break-all max-h-64 overflow-y-auto">
+                              {JSON.stringify(job.payload, null, 2)}
+                            </pre>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
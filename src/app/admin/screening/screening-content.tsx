@@ -11,9 +11,12 @@ import { RoleConfig } from '@/lib/screening/screeningConfigUtils';
 import { ScreeningRole } from '@/lib/types';
 import { VapiConfig, DEFAULT_VAPI_CONFIG } from '@/lib/integrations/vapi/vapiConfig';
 import VoiceSettings from '@/components/features/admin/VoiceSettings';
+import VapiOverridesForm from '@/components/features/admin/VapiOverridesForm';
+import KnockoutQuestionsConfig from '@/components/features/admin/KnockoutQuestionsConfig';
+import { KnockoutQuestion } from '@/lib/screening/knockoutQuestions';
 
 // Tab type definition
-type TabType = 'roles' | 'voice' | 'prompts' | 'evaluation' | 'rolemanagement';
+type TabType = 'roles' | 'voice' | 'prompts' | 'evaluation' | 'knockout' | 'rolemanagement';
 
 export default function ScreeningContent() {
   // Get search params for tab
@@ -25,6 +28,7 @@ export default function ScreeningContent() {
     tabParam === 'voice' ? 'voice' : 
     tabParam === 'prompts' ? 'prompts' : 
     tabParam === 'evaluation' ? 'evaluation' : 
+    tabParam === 'knockout' ? 'knockout' : 
     tabParam === 'rolemanagement' ? 'rolemanagement' : 'roles'
   );
   
@@ -34,6 +38,7 @@ export default function ScreeningContent() {
       [key: string]: RoleConfig;
     };
     mandatoryQuestions: string[];
+    knockoutQuestions?: KnockoutQuestion[];
     vapiSettings: VapiConfig;
   } | null>(null);
   
@@ -90,7 +95,8 @@ export default function ScreeningContent() {
       if (response.ok) {
         alert('Configuration saved successfully!');
       } else {
-        alert('Failed to save configuration');
+        const result = await response.json().catch(() => null);
+        alert(result?.details ? `Failed to save configuration:\n${result.details.join('\n')}` : 'Failed to save configuration');
       }
     } catch (error) {
       console.error('Error saving configuration:', error);
@@ -283,6 +289,16 @@ export default function ScreeningContent() {
             >
               Evaluation Criteria
             </button>
+            <button
+              onClick={() => setActiveTab('knockout')}
+              className={`mr-8 py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'knockout'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Knockout Questions
+            </button>
             <button
               onClick={() => setActiveTab('rolemanagement')}
               className={`mr-8 py-4 px-1 border-b-2 font-medium text-sm ${
@@ -373,10 +389,50 @@ export default function ScreeningContent() {
           )}
 
           {activeTab === 'voice' && config && (
-            <VoiceSettings
-              vapiSettings={config.vapiSettings || DEFAULT_VAPI_CONFIG}
-              onUpdate={updateVapiSettings}
-            />
+            <div className="space-y-6">
+              <VoiceSettings
+                vapiSettings={config.vapiSettings || DEFAULT_VAPI_CONFIG}
+                onUpdate={updateVapiSettings}
+              />
+
+              {/* Per-role overrides; jobs can override these again from the job form */}
+              {activeRole && config.roles[activeRole] && (
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <div className="mb-4">
+                    <h3 className="text-xl font-semibold text-gray-800 mb-2">Role Overrides</h3>
+                    <p className="text-sm text-gray-600">Use a different voice, model, transcriber or call length for one role&apos;s screenings.</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {Object.keys(config.roles).map((roleName) => (
+                      <button
+                        key={roleName}
+                        onClick={() => setActiveRole(roleName)}
+                        className={`py-1 px-3 rounded-md text-sm ${
+                          activeRole === roleName
+                            ? 'bg-blue-100 text-blue-800 border border-blue-300'
+                            : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                        }`}
+                      >
+                        {roleName}
+                        {config.roles[roleName].vapiOverrides && ' •'}
+                      </button>
+                    ))}
+                  </div>
+                  <VapiOverridesForm
+                    overrides={config.roles[activeRole].vapiOverrides}
+                    inherited={config.vapiSettings || DEFAULT_VAPI_CONFIG}
+                    inheritedLabel="voice settings above"
+                    onChange={(vapiOverrides) => setConfig({
+                      ...config,
+                      roles: {
+                        ...config.roles,
+                        [activeRole]: { ...config.roles[activeRole], vapiOverrides }
+                      }
+                    })}
+                  />
+                </div>
+              )}
+            </div>
           )}
 
           {activeTab === 'prompts' && config && (
@@ -403,6 +459,21 @@ export default function ScreeningContent() {
             />
           )}
 
+          {activeTab === 'knockout' && config && (
+            <KnockoutQuestionsConfig
+              knockoutQuestions={config.knockoutQuestions || []}
+              mandatoryQuestions={config.mandatoryQuestions}
+              roles={config.roles}
+              onUpdate={(knockoutQuestions: KnockoutQuestion[]) => {
+                if (!config) return;
+                setConfig({
+                  ...config,
+                  knockoutQuestions
+                });
+              }}
+            />
+          )}
+
           {activeTab === 'rolemanagement' && config && (
             <RoleTypeManagement
               roles={config.roles}
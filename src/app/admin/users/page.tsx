@@ -0,0 +1,305 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Location, PublicUser, UserRole } from '@/lib/types';
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'recruiter', label: 'Recruiter' },
+  { value: 'admin', label: 'Admin' }
+];
+
+const EMPTY_FORM = { name: '', email: '', role: 'recruiter' as UserRole, password: '', locationIds: [] as string[] };
+
+// Adds or removes one location from a list of ids
+function toggleLocation(locationIds: string[] | undefined, locationId: string): string[] {
+  const ids = locationIds || [];
+  return ids.includes(locationId) ? ids.filter(id => id !== locationId) : [...ids, locationId];
+}
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/users');
+      if (!response.ok) throw new Error('Failed to fetch users');
+      const data = await response.json();
+      setUsers(data.users || []);
+    } catch (err) {
+      console.error('Failed to load users:', err);
+      setError('Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+    fetch('/api/locations')
+      .then(response => response.ok ? response.json() : { locations: [] })
+      .then(data => setLocations(data.locations || []))
+      .catch(err => console.error('Failed to load locations:', err));
+  }, [loadUsers]);
+
+  const updateUser = async (user: PublicUser, changes: Record<string, unknown>, success: string) => {
+    setBusyUserId(user.id);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      setNotice(success);
+      await loadUsers();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const resetPassword = (user: PublicUser) => {
+    const password = prompt(`New password for ${user.name}:`);
+    if (!password) return;
+    updateUser(user, { password }, `Password changed for ${user.name}`);
+  };
+
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create user');
+      setForm(EMPTY_FORM);
+      setNotice(`Created an account for ${data.user.name}`);
+      await loadUsers();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create user');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <Link href="/admin" className="text-blue-600 hover:text-blue-800 mb-4 inline-block">
+            ← Back to Admin Dashboard
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Users
+          </h1>
+          <p className="text-gray-600">
+            Staff accounts. Recruiters work the applicant pipeline, limited to their locations when any are ticked; admins also manage jobs, settings, users and the audit log.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+            <p className="text-green-700">{notice}</p>
+          </div>
+        )}
+
+        {/* Users */}
+        <div className="bg-white rounded-lg shadow-md overflow-hidden mb-6">
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="ml-2 text-gray-600">Loading users...</span>
+            </div>
+          ) : users.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No users yet</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+                  {locations.length > 0 && (
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Locations</th>
+                  )}
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last sign-in</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {users.map(user => (
+                  <tr key={user.id} className={user.active ? '' : 'bg-gray-50 text-gray-400'}>
+                    <td className="px-4 py-3 text-sm">
+                      <p className="font-medium text-gray-900">{user.name}</p>
+                      <p className="text-gray-500">{user.email}</p>
+                      {!user.active && <p className="text-xs text-red-600">Deactivated</p>}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <select
+                        value={user.role}
+                        disabled={busyUserId === user.id}
+                        onChange={(e) => updateUser(user, { role: e.target.value }, `${user.name} is now ${e.target.value === 'admin' ? 'an admin' : 'a recruiter'}`)}
+                        className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                      >
+                        {ROLE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    {locations.length > 0 && (
+                      <td className="px-4 py-3 text-sm">
+                        {user.role === 'admin' ? (
+                          <span className="text-gray-500">All</span>
+                        ) : (
+                          <>
+                            {locations.map(location => (
+                              <label key={location.id} className="flex items-center text-gray-700">
+                                <input
+                                  type="checkbox"
+                                  className="mr-2"
+                                  checked={!!user.locationIds?.includes(location.id)}
+                                  disabled={busyUserId === user.id}
+                                  onChange={() => updateUser(
+                                    user,
+                                    { locationIds: toggleLocation(user.locationIds, location.id) },
+                                    `Updated locations for ${user.name}`
+                                  )}
+                                />
+                                {location.name}
+                              </label>
+                            ))}
+                            {!user.locationIds?.length && <p className="text-xs text-gray-500">None ticked: sees all</p>}
+                          </>
+                        )}
+                      </td>
+                    )}
+                    <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                      {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => resetPassword(user)}
+                        disabled={busyUserId === user.id}
+                        className="text-blue-600 hover:text-blue-800 mr-4 disabled:opacity-50"
+                      >
+                        Reset password
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateUser(user, { active: !user.active }, `${user.name} ${user.active ? 'deactivated' : 'reactivated'}`)}
+                        disabled={busyUserId === user.id}
+                        className={`${user.active ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'} disabled:opacity-50`}
+                      >
+                        {user.active ? 'Deactivate' : 'Reactivate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* New user */}
+        <form onSubmit={createUser} className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Add a user</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <input
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                required
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+              <select
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              >
+                {ROLE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Temporary password</label>
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                required
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            {form.role === 'recruiter' && locations.length > 0 && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Locations</label>
+                <div className="flex flex-wrap gap-4">
+                  {locations.map(location => (
+                    <label key={location.id} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        className="mr-2"
+                        checked={form.locationIds.includes(location.id)}
+                        onChange={() => setForm({ ...form, locationIds: toggleLocation(form.locationIds, location.id) })}
+                      />
+                      {location.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Leave all unticked for a recruiter who works every location</p>
+              </div>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={creating}
+            className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {creating ? 'Creating...' : 'Create User'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ScreeningRole } from '@/lib/types';
+import { WORKFLOW_ROLES, WorkflowConfig } from '@/lib/workflow/workflowUtils';
+import WorkflowEditor from '@/components/features/admin/WorkflowEditor';
+
+const ROLE_LABELS: Record<ScreeningRole, string> = {
+  server: 'Server',
+  cook: 'Cook',
+  host: 'Host',
+  manager: 'Manager',
+  general: 'Everyone else'
+};
+
+export default function WorkflowsPage() {
+  const [workflows, setWorkflows] = useState<Record<ScreeningRole, WorkflowConfig> | null>(null);
+  const [role, setRole] = useState<ScreeningRole>('server');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadWorkflows = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/workflows');
+      if (!response.ok) throw new Error('Failed to fetch workflows');
+      const data = await response.json();
+      setWorkflows(data.workflows);
+    } catch (err) {
+      console.error('Failed to load workflows:', err);
+      setError('Failed to load workflows');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWorkflows();
+  }, [loadWorkflows]);
+
+  const saveWorkflow = async (method: 'PUT' | 'DELETE', workflow?: WorkflowConfig) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/admin/workflows/${role}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: workflow ? JSON.stringify(workflow) : undefined
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save workflow');
+      setWorkflows(current => current && { ...current, [role]: result.workflow });
+      setNotice(method === 'PUT' ? `Saved the ${ROLE_LABELS[role]} workflow` : `The ${ROLE_LABELS[role]} workflow is back to the default`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save workflow');
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <Link href="/admin" className="text-blue-600 hover:text-blue-800 mb-4 inline-block">
+            ← Back to Admin Dashboard
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            Hiring Workflows
+          </h1>
+          <p className="text-gray-600">
+            The pipeline applications follow, per role. Status changes that aren&apos;t listed here are refused, including from the recruiter screens.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-red-600">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+            <p className="text-green-700">{notice}</p>
+          </div>
+        )}
+
+        {/* Roles */}
+        <div className="border-b mb-6 flex">
+          {WORKFLOW_ROLES.map(workflowRole => (
+            <button
+              key={workflowRole}
+              type="button"
+              onClick={() => { setRole(workflowRole); setNotice(null); setError(null); }}
+              className={`px-4 py-2 font-medium text-sm border-b-2 focus:outline-none ${
+                role === workflowRole
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {ROLE_LABELS[workflowRole]}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-2 text-gray-600">Loading workflows...</span>
+          </div>
+        ) : workflows && (
+          <WorkflowEditor
+            key={`${role}-${JSON.stringify(workflows[role])}`}
+            workflow={workflows[role]}
+            onSubmit={(workflow) => saveWorkflow('PUT', workflow)}
+            onReset={() => saveWorkflow('DELETE')}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
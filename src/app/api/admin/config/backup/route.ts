@@ -1,28 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
+import { getStorageDriver } from '@/lib/data/storage';
 
-// Path to the config file
-const CONFIG_FILE = path.join(process.cwd(), 'data', 'config.json');
-
-// Get the full current configuration (from file system)
+// Get the full current configuration (from the active storage driver)
 function getFullConfig() {
   try {
-    if (!fs.existsSync(CONFIG_FILE)) {
-      console.log('Config file does not exist, creating default config');
-      // Return a default configuration if file doesn't exist
-      return {
-        roles: {},
-        mandatoryQuestions: [],
-        vapiSettings: {},
-        applicationSettings: {}
-      };
-    }
-    
-    const configStr = fs.readFileSync(CONFIG_FILE, 'utf8');
-    
-    if (!configStr.trim()) {
-      console.log('Config file is empty, returning default config');
+    const config = getStorageDriver().readDocument('config');
+
+    if (!config) {
+      console.log('Config does not exist or is empty, returning default config');
+      // Return a default configuration if nothing is stored yet
       return {
         roles: {},
         mandatoryQuestions: [],
@@ -31,9 +17,9 @@ function getFullConfig() {
       };
     }
     
-    return JSON.parse(configStr);
+    return config;
   } catch (error) {
-    console.error('Error reading config file:', error);
+    console.error('Error reading config:', error);
     // Return default config instead of throwing
     return {
       roles: {},
@@ -1,9 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
-
-// Path to the config file
-const CONFIG_FILE = path.join(process.cwd(), 'data', 'config.json');
+import { configRepository } from '@/lib/data/repositories/config-repository';
 
 // Validate config structure to ensure it has the expected format
 function validateConfig(config: any): boolean {
@@ -30,31 +26,6 @@ function validateConfig(config: any): boolean {
   return true;
 }
 
-// Save the config to file
-function saveConfig(config: any): void {
-  try {
-    fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
-  } catch (error) {
-    console.error('Error writing config file:', error);
-    throw new Error('Failed to save configuration');
-  }
-}
-
-// Create a backup before restoring
-function createBackup(): void {
-  try {
-    const timestamp = new Date().toISOString().replace(/[:\.]/g, '-');
-    const backupPath = path.join(process.cwd(), 'data', `config.backup.${timestamp}.json`);
-    
-    if (fs.existsSync(CONFIG_FILE)) {
-      fs.copyFileSync(CONFIG_FILE, backupPath);
-    }
-  } catch (error) {
-    console.error('Error creating backup:', error);
-    // Continue anyway, just log the error
-  }
-}
-
 export async function POST(request: NextRequest) {
   try {
     const config = await request.json();
@@ -67,11 +38,8 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Create a backup of the current config
-    createBackup();
-    
-    // Save the new config
-    saveConfig(config);
+    // Back up the current config and save the new one
+    configRepository.restore(config);
     
     return NextResponse.json({ success: true, message: 'Configuration restored successfully' });
   } catch (error: any) {
@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auditRepository } from '../../../../lib/data/repositories/audit-repository';
+import {
+  getNotificationTemplates,
+  getSmsTemplates,
+  updateNotificationTemplates,
+  updateSmsTemplates
+} from '../../../../lib/notifications/statusNotifications';
 
-// In a real application, this would be stored in a database
+// In a real application, this would be stored in a database.
+// Notification templates (email and SMS) are the exception: the delivery engine
+// sends them, so they are saved in config.json. Hiring workflows are edited
+// through /api/admin/workflows.
 let systemConfig = {
   applicationSettings: {
     allowOpenApplications: true,
@@ -15,32 +25,28 @@ let systemConfig = {
     sendCandidateFollowup: true
   },
   recruitmentSettings: {
-    hiringWorkflowSteps: [
-      'Application Submission',
-      'Resume Screening',
-      'Phone Screening',
-      'Hiring Manager Review',
-      'Interview',
-      'Offer / Rejection'
-    ],
     notificationEmails: ['recruiters@restaurant.com', 'hiring@restaurant.com'],
     defaultApplicationDeadlineDays: 14
-  },
-  notificationTemplates: {
-    applicationReceived: 'Dear {{candidateName}},\n\nThank you for applying to the {{position}} position at our restaurant. We have received your application and will review it shortly.\n\nBest regards,\nThe Recruitment Team',
-    screeningInvitation: 'Dear {{candidateName}},\n\nWe would like to invite you to complete a brief AI screening call for the {{position}} position. Please click the link below to schedule your screening.\n\n{{screeningLink}}\n\nBest regards,\nThe Recruitment Team',
-    screeningComplete: 'Dear {{candidateName}},\n\nThank you for completing the screening call for the {{position}} position. Our team will review your responses and get back to you soon.\n\nBest regards,\nThe Recruitment Team',
-    interviewInvitation: 'Dear {{candidateName}},\n\nWe would like to invite you for an interview for the {{position}} position. Please choose a suitable time from the available slots.\n\n{{interviewLink}}\n\nBest regards,\nThe Recruitment Team',
-    offerLetter: 'Dear {{candidateName}},\n\nWe are pleased to offer you the {{position}} position at our restaurant. Please find the details of our offer below:\n\n{{offerDetails}}\n\nBest regards,\nThe Recruitment Team',
-    rejectionEmail: 'Dear {{candidateName}},\n\nThank you for your interest in the {{position}} position. After careful consideration, we have decided to pursue other candidates whose qualifications better match our needs at this time.\n\nWe appreciate your interest in our company and wish you success in your job search.\n\nBest regards,\nThe Recruitment Team'
   }
 };
 
+// Templates are optional in an update, but when sent every entry must be text
+function isTemplateMap(templates: unknown): boolean {
+  return templates === undefined || (
+    !!templates && typeof templates === 'object' &&
+    Object.values(templates).every(template => typeof template === 'string')
+  );
+}
+
 // GET handler - retrieve the current configuration
 export async function GET() {
   try {
     // In a real application, this would be fetched from a database
-    return NextResponse.json(systemConfig, { status: 200 });
+    return NextResponse.json({
+      ...systemConfig,
+      notificationTemplates: getNotificationTemplates(),
+      smsTemplates: getSmsTemplates()
+    }, { status: 200 });
   } catch (error) {
     console.error('Error fetching config:', error);
     return NextResponse.json(
@@ -66,16 +72,42 @@ export async function POST(request: NextRequest) {
     // In a real application, you would validate each field properly
     // and save to a database
     
+    const { notificationTemplates, smsTemplates, ...settings } = data;
+    if (!isTemplateMap(notificationTemplates) || !isTemplateMap(smsTemplates)) {
+      return NextResponse.json(
+        { error: 'Notification templates must be text' },
+        { status: 400 }
+      );
+    }
+
     // For now, just update our in-memory config
+    const previousConfig = {
+      ...systemConfig,
+      notificationTemplates: getNotificationTemplates(),
+      smsTemplates: getSmsTemplates()
+    };
     systemConfig = {
       ...systemConfig,
-      ...data
+      ...settings
     };
+    const config = {
+      ...systemConfig,
+      notificationTemplates: notificationTemplates ? updateNotificationTemplates(notificationTemplates) : previousConfig.notificationTemplates,
+      smsTemplates: smsTemplates ? updateSmsTemplates(smsTemplates) : previousConfig.smsTemplates
+    };
+
+    auditRepository.record({
+      entityType: 'config',
+      entityId: 'system-settings',
+      action: 'update',
+      before: previousConfig,
+      after: config
+    });
     
     return NextResponse.json(
       { 
         message: 'Configuration updated successfully',
-        config: systemConfig 
+        config
       },
       { status: 200 }
     );
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateLocation } from '../../../../../lib/services/locationService';
+import { errorResponse } from '../../../../../lib/http/errorResponse';
+
+// PATCH /api/admin/locations/[locationId]
+// Body: any of { name, address, timezone, hiringManager, screeningHours, active }.
+// An empty screeningHours list goes back to the global availability windows.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { locationId: string } }
+) {
+  try {
+    const { name, address, timezone, hiringManager, screeningHours, active } = await request.json();
+    const location = updateLocation(params.locationId, { name, address, timezone, hiringManager, screeningHours, active });
+    return NextResponse.json({ location });
+  } catch (error) {
+    return errorResponse(error, 'update location');
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLocation, listLocations } from '../../../../lib/services/locationService';
+import { errorResponse } from '../../../../lib/http/errorResponse';
+
+// Reads storage on every request
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/locations - All locations, by name
+export async function GET() {
+  try {
+    return NextResponse.json({ locations: listLocations() });
+  } catch (error) {
+    return errorResponse(error, 'load locations');
+  }
+}
+
+// POST /api/admin/locations - Add a location
+// Body: { name, address: { street, city, state, postalCode }, timezone, hiringManager?, screeningHours?, active? }
+export async function POST(request: NextRequest) {
+  try {
+    const { name, address, timezone, hiringManager, screeningHours, active } = await request.json();
+    const location = createLocation({ name, address, timezone, hiringManager, screeningHours, active });
+    return NextResponse.json({ location }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'create location');
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BackgroundJobStatus, BackgroundJobType } from '../../../../lib/types';
+import { discardJob, getJobStats, listJobs, retryJob } from '../../../../lib/queue/jobQueue';
+import { nudgeJobWorker, runJobWorker } from '../../../../lib/queue/jobWorker';
+import { errorResponse } from '../../../../lib/http/errorResponse';
+
+// This route requires query parameters, so it must be dynamic
+export const dynamic = 'force-dynamic';
+
+const JOB_STATUSES: BackgroundJobStatus[] = ['queued', 'running', 'succeeded', 'dead'];
+
+// GET /api/admin/queue?status=dead&type=fetch-call-results
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status') as BackgroundJobStatus | null;
+    const type = request.nextUrl.searchParams.get('type') as BackgroundJobType | null;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of ${JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      jobs: listJobs({ status: status || undefined, type: type || undefined }),
+      stats: getJobStats()
+    });
+  } catch (error) {
+    return errorResponse(error, 'load background jobs');
+  }
+}
+
+// POST /api/admin/queue
+// Body: { action: 'retry', jobId } puts a job back in the queue;
+// { action: 'run' } runs due jobs now (for external cron or testing)
+export async function POST(request: NextRequest) {
+  try {
+    const { action, jobId } = await request.json();
+
+    if (action === 'run') {
+      const result = await runJobWorker();
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    if (action === 'retry') {
+      if (!jobId) {
+        return NextResponse.json(
+          { error: 'Job ID is required' },
+          { status: 400 }
+        );
+      }
+      const job = retryJob(jobId);
+      nudgeJobWorker();
+      return NextResponse.json({ success: true, job });
+    }
+
+    return NextResponse.json(
+      { error: 'Action must be "retry" or "run"' },
+      { status: 400 }
+    );
+  } catch (error) {
+    return errorResponse(error, 'update the job queue');
+  }
+}
+
+// DELETE /api/admin/queue?jobId=... - Discard a dead-lettered or waiting job
+export async function DELETE(request: NextRequest) {
+  try {
+    const jobId = request.nextUrl.searchParams.get('jobId');
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Job ID is required' },
+        { status: 400 }
+      );
+    }
+
+    discardJob(jobId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'discard the job');
+  }
+}
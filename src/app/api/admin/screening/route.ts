@@ -2,6 +2,24 @@ import { NextRequest, NextResponse } from 'next/server';
 import { RoleConfig } from '@/lib/screening/screeningConfigUtils';
 import { ScreeningRole } from '@/lib/types/common';
 import { readConfigFile, writeConfigFile } from '@/lib/utils/fileUtils';
+import { validateStructuredDataSchema } from '@/lib/screening/structuredData';
+import { validateKnockoutQuestions } from '@/lib/screening/knockoutQuestions';
+
+// Structured data schemas are sent straight to VAPI, so reject malformed ones on save
+function findSchemaErrors(roles: Record<string, RoleConfig>): string[] {
+  return Object.entries(roles).flatMap(([roleType, role]) =>
+    role?.structuredDataSchema
+      ? validateStructuredDataSchema(role.structuredDataSchema).map(error => `${roleType}.structuredDataSchema.${error}`)
+      : []
+  );
+}
+
+function schemaErrorResponse(errors: string[]) {
+  return new NextResponse(JSON.stringify({ error: 'Invalid structured data schema', details: errors }), {
+    status: 400,
+    headers: { 'content-type': 'application/json' }
+  });
+}
 
 // GET /api/admin/screening
 export async function GET() {
@@ -30,6 +48,11 @@ export async function POST(request: NextRequest) {
       });
     }
     
+    const schemaErrors = findSchemaErrors({ [roleType]: roleConfig });
+    if (schemaErrors.length > 0) {
+      return schemaErrorResponse(schemaErrors);
+    }
+
     const config = readConfigFile();
     
     // Add or update role config based on action
@@ -62,8 +85,23 @@ export async function PUT(request: NextRequest) {
     const config = readConfigFile();
     let message = 'Settings updated successfully';
     
+    if (body.knockoutQuestions !== undefined) {
+      const knockoutErrors = validateKnockoutQuestions(body.knockoutQuestions);
+      if (knockoutErrors.length > 0) {
+        return new NextResponse(JSON.stringify({ error: 'Invalid knockout questions', details: knockoutErrors }), {
+          status: 400,
+          headers: { 'content-type': 'application/json' }
+        });
+      }
+    }
+
     // If the body contains the full configuration structure, update the entire config
     if (body.roles && body.mandatoryQuestions && body.vapiSettings) {
+      const schemaErrors = findSchemaErrors(body.roles);
+      if (schemaErrors.length > 0) {
+        return schemaErrorResponse(schemaErrors);
+      }
+
       // Full configuration update
       const updatedConfig = {
         ...config,
@@ -88,6 +126,12 @@ export async function PUT(request: NextRequest) {
         config.mandatoryQuestions = body.mandatoryQuestions;
         message = 'Mandatory questions updated successfully';
       }
+
+      // Update knockout questions if provided
+      if (Array.isArray(body.knockoutQuestions)) {
+        config.knockoutQuestions = body.knockoutQuestions;
+        message = 'Knockout questions updated successfully';
+      }
       
       // Save the updated configuration
       writeConfigFile(config);
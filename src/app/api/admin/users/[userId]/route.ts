@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toPublicUser, updateUser } from '../../../../../lib/services/userService';
+import { requireSessionUser } from '../../../../../lib/auth/currentUser';
+import { errorResponse } from '../../../../../lib/http/errorResponse';
+
+// PATCH /api/admin/users/[userId]
+// Body: { name?, role?, active?, password?, locationIds? }; a new password replaces the old one.
+// locationIds limits a recruiter to those locations; an empty list means all of them.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    const { name, role, active, password, locationIds } = await request.json();
+
+    // Admins can't lock themselves out
+    const currentUser = await requireSessionUser();
+    if (currentUser.id === params.userId &&
+        (active === false || (role !== undefined && role !== currentUser.role))) {
+      return NextResponse.json(
+        { error: "You can't deactivate your own account or change your own role" },
+        { status: 409 }
+      );
+    }
+
+    const user = updateUser(params.userId, { name, role, active, password, locationIds });
+    return NextResponse.json({ user: toPublicUser(user) });
+  } catch (error) {
+    return errorResponse(error, 'update user');
+  }
+}
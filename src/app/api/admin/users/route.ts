@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createUser, listUsers, toPublicUser } from '../../../../lib/services/userService';
+import { errorResponse } from '../../../../lib/http/errorResponse';
+
+// Reads storage on every request
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/users - All staff accounts, admins first
+export async function GET() {
+  try {
+    return NextResponse.json({ users: listUsers().map(toPublicUser) });
+  } catch (error) {
+    return errorResponse(error, 'load users');
+  }
+}
+
+// POST /api/admin/users - Create an account
+// Body: { email, name, role: 'recruiter' | 'admin', password, locationIds? }
+export async function POST(request: NextRequest) {
+  try {
+    const { email, name, role, password, locationIds } = await request.json();
+    const user = createUser({ email, name, role, password, locationIds });
+    return NextResponse.json({ user: toPublicUser(user) }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'create user');
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditRepository } from '../../../../../lib/data/repositories/audit-repository';
+import { getWorkflows, resetWorkflow, updateWorkflow } from '../../../../../lib/services/workflowService';
+import { WorkflowConfig } from '../../../../../lib/workflow/workflowUtils';
+import { ScreeningRole } from '../../../../../lib/types';
+import { errorResponse } from '../../../../../lib/http/errorResponse';
+
+// Workflows live in config.json, so changes are recorded like the other settings
+function recordChange(role: string, before: WorkflowConfig | undefined, after: WorkflowConfig) {
+  auditRepository.record({
+    entityType: 'config',
+    entityId: `workflow-${role}`,
+    action: 'update',
+    before,
+    after
+  });
+}
+
+// PUT /api/admin/workflows/[role]
+// Body: { steps, statusTransitions }. Replaces the role's workflow; every problem is reported at once.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { role: string } }
+) {
+  try {
+    const before = getWorkflows()[params.role as ScreeningRole];
+    const workflow = updateWorkflow(params.role, await request.json());
+    recordChange(params.role, before, workflow);
+    return NextResponse.json({ workflow });
+  } catch (error) {
+    return errorResponse(error, 'save workflow');
+  }
+}
+
+// DELETE /api/admin/workflows/[role] - Back to the default pipeline
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { role: string } }
+) {
+  try {
+    const before = getWorkflows()[params.role as ScreeningRole];
+    const workflow = resetWorkflow(params.role);
+    recordChange(params.role, before, workflow);
+    return NextResponse.json({ workflow });
+  } catch (error) {
+    return errorResponse(error, 'reset workflow');
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getWorkflows } from '../../../../lib/services/workflowService';
+
+// Reads config.json on every request
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/workflows - The workflow for every screening role
+export async function GET() {
+  try {
+    return NextResponse.json({ workflows: getWorkflows() });
+  } catch (error) {
+    console.error('Error trying to load workflows:', error);
+    return NextResponse.json(
+      { error: 'Failed to load workflows' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,74 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { applicationService } from '../../../../../lib/services/application-service';
+import { withoutPortalToken } from '../../../../../lib/services/applicationService';
+import { StorageConflictError } from '../../../../../lib/data/storage';
+import { requireSessionUser } from '../../../../../lib/auth/currentUser';
+import { getStatusDisplayInfo } from '../../../../../lib/utils/statusManager';
+import { getLocationScope, isLocationInScope } from '../../../../../lib/services/locationService';
+import {
+  assertStepForStatus,
+  getWorkflow,
+  getWorkflowRoleForJob,
+  transitionApplication
+} from '../../../../../lib/services/workflowService';
+import { getJobById } from '../../../../../lib/servers/jobs-server';
+import { User } from '../../../../../lib/types';
+import { errorResponse } from '../../../../../lib/http/errorResponse';
 
+// Reads the session on every request
+export const dynamic = 'force-dynamic';
+
+function statusErrorResponse(error: unknown, action: string) {
+  if (error instanceof StorageConflictError) {
+    return NextResponse.json(
+      { error: 'Application was updated by someone else. Reload and try again.' },
+      { status: 409 }
+    );
+  }
+  return errorResponse(error, action);
+}
+
+// The application, or null when it doesn't exist or is at a location the user can't see
+async function findApplication(applicationId: string, user: User) {
+  const application = await applicationService.getApplicationById(applicationId);
+  if (!application || !isLocationInScope(getJobById(application.jobId)?.locationId, getLocationScope(user))) {
+    return null;
+  }
+  return application;
+}
+
+// GET /api/applications/[applicationId]/status
+// The status changes the signed-in user may make, from the job's workflow
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const user = await requireSessionUser();
+    const application = await findApplication(params.applicationId, user);
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const role = getWorkflowRoleForJob(getJobById(application.jobId));
+    const transitions = getWorkflow(role).statusTransitions
+      .filter(transition => transition.from === application.status && transition.allowedBy.includes(user.role))
+      .map(transition => ({
+        to: transition.to,
+        label: getStatusDisplayInfo(transition.to).label,
+        requiresNotes: transition.requiresNotes
+      }));
+
+    return NextResponse.json({ status: application.status, role, transitions });
+  } catch (error) {
+    return statusErrorResponse(error, 'load status changes');
+  }
+}
+
+// PATCH /api/applications/[applicationId]/status
+// Body: { status?, currentStep?, notes?, expectedUpdatedAt? }. Status changes must be
+// allowed for the user's role by the job's workflow, with notes where it asks for them;
+// currentStep must be one of the workflow's steps and fit the application's status.
 export async function PATCH(
   request: NextRequest,
   { params }: { params: { applicationId: string } }
@@ -8,59 +76,48 @@ export async function PATCH(
   try {
     const applicationId = params.applicationId;
     const data = await request.json();
-    
-    // Get existing application
-    const application = await applicationService.getApplicationById(applicationId);
+
+    // Re-read so a deactivated account or changed role applies straight away
+    const user = await requireSessionUser();
+
+    // Recruiters limited to some locations can't see applications elsewhere
+    const application = await findApplication(applicationId, user);
     if (!application) {
       return NextResponse.json({ error: 'Application not found' }, { status: 404 });
     }
-    
-    // Update with allowed fields only
-    const allowedFields = ['status', 'currentStep'];
-    const updates: Record<string, any> = {};
-    
-    Object.keys(data).forEach(key => {
-      if (allowedFields.includes(key)) {
-        updates[key] = data[key];
-      }
-    });
-    
-    // Update timeline if status is changed
-    if (updates.status && updates.status !== application.status) {
-      const timestamp = new Date().toISOString();
-      const statusMap: Record<string, string> = {
-        'screening_scheduled': 'screening_call_pending',
-        'interview_scheduled': 'recruiter_review',
-        'hired': 'process_complete',
-        'rejected': 'process_complete'
-      };
-      
-      // Add timeline entry
-      if (!updates.timeline) {
-        updates.timeline = [...application.timeline];
-      }
-      
-      updates.timeline.push({
-        step: statusMap[updates.status] || application.currentStep,
-        status: 'completed',
-        timestamp,
-        notes: `Application status changed to ${updates.status.replace(/_/g, ' ')}`,
-        performedBy: 'recruiter'
-      });
+
+    // Reject the write if someone else changed the application since the user loaded it
+    const options = { expectedUpdatedAt: data.expectedUpdatedAt || application.updatedAt };
+
+    if (data.status && data.status !== application.status) {
+      const updatedApplication = transitionApplication(
+        applicationId,
+        {
+          status: data.status,
+          actor: user.role,
+          notes: typeof data.notes === 'string' ? data.notes : undefined,
+          step: data.currentStep || undefined
+        },
+        options
+      );
+      return NextResponse.json({ success: true, data: withoutPortalToken(updatedApplication) });
     }
-    
-    // Update the application
-    const updatedApplication = await applicationService.updateApplication(
-      applicationId, 
-      updates
-    );
-    
-    return NextResponse.json({ 
-      success: true, 
-      data: updatedApplication 
+
+    // Moving along the steps without changing status
+    const workflow = getWorkflow(getWorkflowRoleForJob(getJobById(application.jobId)));
+    const updatedApplication = data.currentStep
+      ? await applicationService.updateApplication(
+        applicationId,
+        { currentStep: assertStepForStatus(workflow, data.currentStep, application.status) },
+        options
+      )
+      : application;
+
+    return NextResponse.json({
+      success: true,
+      data: updatedApplication && withoutPortalToken(updatedApplication)
     });
   } catch (error) {
-    console.error('Error updating application:', error);
-    return NextResponse.json({ error: 'Failed to update application' }, { status: 500 });
+    return statusErrorResponse(error, 'update application');
   }
 }
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSessionUser } from '../../../../../lib/auth/currentUser';
+import { getLocationScope, transferApplication } from '../../../../../lib/services/locationService';
+import { withoutPortalToken } from '../../../../../lib/services/applicationService';
+import { errorResponse } from '../../../../../lib/http/errorResponse';
+
+// POST /api/applications/[applicationId]/transfer
+// Body: { jobId } - moves the application to a job at another location, keeping its status
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const user = await requireSessionUser();
+
+    const { jobId } = await request.json();
+    if (!jobId || typeof jobId !== 'string') {
+      return NextResponse.json({ error: 'jobId is required' }, { status: 400 });
+    }
+
+    const application = transferApplication(params.applicationId, jobId, user.role, getLocationScope(user));
+    return NextResponse.json({ success: true, application: withoutPortalToken(application) });
+  } catch (error) {
+    return errorResponse(error, 'transfer application');
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSessionUser } from '../../../../lib/auth/currentUser';
+import { getLocationScope } from '../../../../lib/services/locationService';
+import {
+  runBulkAction,
+  validateApplicationIds,
+  validateBulkAction
+} from '../../../../lib/services/bulkActionService';
+import { errorResponse } from '../../../../lib/http/errorResponse';
+
+// Reads the session on every request
+export const dynamic = 'force-dynamic';
+
+// POST /api/applications/bulk
+// Body: { applicationIds, action: { type: 'status', status, notes? } | { type: 'reject', notes } |
+// { type: 'tag', add?, remove? } | { type: 'rescreen' } }. Each application is checked on its
+// own, against its job's workflow for status changes; the response has a result per application.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireSessionUser();
+
+    const data = await request.json();
+    const applicationIds = validateApplicationIds(data.applicationIds);
+    const action = validateBulkAction(data.action);
+
+    return NextResponse.json({
+      success: true,
+      ...runBulkAction(applicationIds, action, user.role, getLocationScope(user))
+    });
+  } catch (error) {
+    return errorResponse(error, 'update applications');
+  }
+}
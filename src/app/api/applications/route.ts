@@ -1,50 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
+import { applicationRepository } from '../../../lib/data/repositories/application-repository';
+import { notifyStatusChange } from '../../../lib/notifications/statusNotifications';
+import { requireSessionUser } from '../../../lib/auth/currentUser';
+import { getLocationScope, isLocationInScope } from '../../../lib/services/locationService';
+import { getAllJobs } from '../../../lib/servers/jobs-server';
+import { withoutPortalToken } from '../../../lib/services/applicationService';
+import { HttpError } from '../../../lib/http/httpError';
+import { errorResponse } from '../../../lib/http/errorResponse';
 
-interface Application {
-  id: string;
-  candidateId: string;
-  jobId: string;
-  status: string;
-  submittedAt: string;
-  currentStep: string;
-  timeline: Array<{
-    step: string;
-    status: string;
-    timestamp: string;
-    notes: string;
-    performedBy: string;
-  }>;
-  feedback: Record<string, any>;
-  createdAt: string;
-  updatedAt: string;
-}
+// Depends on the signed-in user's locations
+export const dynamic = 'force-dynamic';
 
+// GET /api/applications?candidateId=...&locationId=...
+// Recruiters limited to some locations only get applications for jobs there
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const candidateId = searchParams.get('candidateId');
+    const locationId = searchParams.get('locationId');
     
     // Read applications data
-    const dataPath = path.join(process.cwd(), 'data', 'applications.json');
-    const applicationsData = fs.readFileSync(dataPath, 'utf8');
-    const applications: Application[] = JSON.parse(applicationsData);
+    const applications = applicationRepository.findAll();
+    const scope = getLocationScope(await requireSessionUser());
+    const jobLocations = new Map(getAllJobs().map(job => [job.id, job.locationId]));
     
-    // Filter by candidateId if provided
-    let filteredApplications = applications;
+    let filteredApplications = applications.filter(app => isLocationInScope(jobLocations.get(app.jobId), scope));
     if (candidateId) {
-      filteredApplications = applications.filter(app => app.candidateId === candidateId);
+      filteredApplications = filteredApplications.filter(app => app.candidateId === candidateId);
+    }
+    if (locationId) {
+      filteredApplications = filteredApplications.filter(app => jobLocations.get(app.jobId) === locationId);
     }
     
     return NextResponse.json({
       success: true,
-      applications: filteredApplications,
+      applications: filteredApplications.map(withoutPortalToken),
       total: filteredApplications.length,
-      candidateId: candidateId || null
+      candidateId: candidateId || null,
+      locationId: locationId || null
     });
     
   } catch (error) {
+    if (error instanceof HttpError) {
+      return errorResponse(error, 'fetch applications');
+    }
+
     console.error('Error fetching applications:', error);
     return NextResponse.json(
       {
@@ -62,14 +62,8 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
-    // Read current applications
-    const dataPath = path.join(process.cwd(), 'data', 'applications.json');
-    const applicationsData = fs.readFileSync(dataPath, 'utf8');
-    const applications: Application[] = JSON.parse(applicationsData);
-    
-    // Create new application
-    const newApplication: Application = {
-      id: `app-${Date.now()}`,
+    // Create and save the new application
+    const newApplication = applicationRepository.create({
       candidateId: body.candidateId,
       jobId: body.jobId,
       status: 'submitted',
@@ -80,22 +74,16 @@ export async function POST(request: NextRequest) {
         status: 'completed',
         timestamp: new Date().toISOString(),
         notes: body.notes || 'Application submitted',
-        performedBy: 'candidate'
+        performedBy: 'candidate',
+        applicationStatus: 'submitted'
       }],
-      feedback: {},
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-    
-    // Add to applications array
-    applications.push(newApplication);
-    
-    // Save back to file
-    fs.writeFileSync(dataPath, JSON.stringify(applications, null, 2));
+      feedback: {}
+    });
+    notifyStatusChange(newApplication, null);
     
     return NextResponse.json({
       success: true,
-      application: newApplication
+      application: withoutPortalToken(newApplication)
     });
     
   } catch (error) {
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auditRepository } from '../../../lib/data/repositories/audit-repository';
+import { AuditEntityType } from '../../../lib/types';
+
+const ENTITY_TYPES: AuditEntityType[] = ['application', 'candidate', 'job', 'screening', 'interview', 'user', 'location', 'config'];
+
+// GET /api/audit - Query the audit log (filters: entityType, entityId, actor, from, to, limit)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const entityType = searchParams.get('entityType');
+    const limit = searchParams.get('limit');
+
+    if (entityType && !ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown entityType "${entityType}"` },
+        { status: 400 }
+      );
+    }
+
+    const { entries, total } = auditRepository.find({
+      entityType: (entityType as AuditEntityType) || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      actor: searchParams.get('actor') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      limit: limit ? Math.max(1, parseInt(limit, 10) || 0) : undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      total
+    });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, toPublicUser } from '../../../../lib/services/userService';
+import { createSessionToken, sessionCookieOptions, SESSION_COOKIE } from '../../../../lib/auth/session';
+import { ROLE_HOME } from '../../../../lib/auth/permissions';
+
+// POST /api/auth/login - Sign in and start a session
+// Body: { email, password }
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = await request.json();
+    if (!email || !password) {
+      return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+    }
+
+    const user = authenticate(email, password);
+    if (!user) {
+      return NextResponse.json({ error: 'Incorrect email or password' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ user: toPublicUser(user), home: ROLE_HOME[user.role] });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
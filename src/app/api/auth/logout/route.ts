@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { sessionCookieOptions, SESSION_COOKIE } from '../../../../lib/auth/session';
+
+// POST /api/auth/logout - End the session
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0));
+  return response;
+}
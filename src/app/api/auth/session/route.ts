@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../lib/auth/currentUser';
+import { ROLE_PERMISSIONS } from '../../../../lib/auth/permissions';
+import { toPublicUser } from '../../../../lib/services/userService';
+
+// Reads the session cookie, so it must be dynamic
+export const dynamic = 'force-dynamic';
+
+// GET /api/auth/session - The signed-in user and what their role may do
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    return NextResponse.json({ user: toPublicUser(user), permissions: ROLE_PERMISSIONS[user.role] });
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return NextResponse.json({ error: 'Failed to load session' }, { status: 500 });
+  }
+}
@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCandidateById, updateCandidate } from '../../../../lib/services/candidateService';
+import { StorageConflictError } from '../../../../lib/data/storage';
+import { canViewCandidate, isCandidateInScope } from '../../../../lib/auth/candidateAccess';
+import { requireSessionUser } from '../../../../lib/auth/currentUser';
+import { getLocationScope } from '../../../../lib/services/locationService';
+import { errorResponse } from '../../../../lib/http/errorResponse';
 
+// This route reads the session and query parameters, so it must be dynamic
+export const dynamic = 'force-dynamic';
+
+// GET /api/candidates/[candidateId]?applicationId=...
+// Staff can read candidates who applied at their locations; the screening page reads its own with the application id from its link
 export async function GET(
   request: NextRequest,
   { params }: { params: { candidateId: string } }
@@ -17,7 +27,7 @@ export async function GET(
 
     const candidate = getCandidateById(candidateId);
     
-    if (!candidate) {
+    if (!candidate || !(await canViewCandidate(candidateId, request.nextUrl.searchParams.get('applicationId')))) {
       return NextResponse.json(
         { error: 'Candidate not found' },
         { status: 404 }
@@ -42,9 +52,9 @@ export async function PATCH(
     const candidateId = params.candidateId;
     const data = await request.json();
     
-    // Get existing candidate
+    // Get existing candidate, if they applied at one of the user's locations
     const candidate = getCandidateById(candidateId);
-    if (!candidate) {
+    if (!candidate || !isCandidateInScope(candidateId, getLocationScope(await requireSessionUser()))) {
       return NextResponse.json({ error: 'Candidate not found' }, { status: 404 });
     }
     
@@ -58,15 +68,23 @@ export async function PATCH(
       }
     });
     
-    // Update the candidate
-    const updatedCandidate = updateCandidate(candidateId, updates);
+    // Update the candidate (optionally guarded by the version the client last saw)
+    const updatedCandidate = updateCandidate(candidateId, updates, {
+      expectedUpdatedAt: data.expectedUpdatedAt
+    });
     
     return NextResponse.json({ 
       success: true, 
       data: updatedCandidate 
     });
   } catch (error) {
-    console.error('Error updating candidate:', error);
-    return NextResponse.json({ error: 'Failed to update candidate' }, { status: 500 });
+    if (error instanceof StorageConflictError) {
+      return NextResponse.json(
+        { error: 'Candidate was updated by someone else. Reload and try again.' },
+        { status: 409 }
+      );
+    }
+
+    return errorResponse(error, 'update candidate');
   }
 }
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { candidateService } from '@/lib/services/candidate-service';
 import { applicationService } from '@/lib/services/application-service';
+import { getPortalLink } from '@/lib/services/candidatePortalService';
+import { getLocationScope, isLocationInScope } from '@/lib/services/locationService';
+import { requireSessionUser } from '@/lib/auth/currentUser';
+import { getAllApplications, withoutPortalToken } from '@/lib/services/applicationService';
+import { getAllJobs } from '@/lib/servers/jobs-server';
+import { errorResponse } from '@/lib/http/errorResponse';
 import { Candidate, JobApplication } from '@/lib/types';
 
+// GET depends on the signed-in user's locations
+export const dynamic = 'force-dynamic';
+
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json();
@@ -59,7 +68,7 @@ export async function POST(request: NextRequest) {
     
     console.log('Application created:', application);
 
-    return NextResponse.json({ candidate, application });
+    return NextResponse.json({ candidate, application: withoutPortalToken(application), portalUrl: getPortalLink(application) });
   } catch (error) {
     console.error('Error creating candidate:', error);
     
@@ -80,15 +89,23 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Recruiters limited to some locations only get candidates who applied to jobs there
 export async function GET(request: NextRequest) {
   try {
     const candidates = await candidateService.getAllCandidates();
-    return NextResponse.json(candidates);
-  } catch (error) {
-    console.error('Error fetching candidates:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
+    const scope = getLocationScope(await requireSessionUser());
+    if (!scope) {
+      return NextResponse.json(candidates);
+    }
+
+    const jobLocations = new Map(getAllJobs().map(job => [job.id, job.locationId]));
+    const inScope = new Set(
+      getAllApplications()
+        .filter(app => isLocationInScope(jobLocations.get(app.jobId), scope))
+        .map(app => app.candidateId)
     );
+    return NextResponse.json(candidates.filter(candidate => inScope.has(candidate.id)));
+  } catch (error) {
+    return errorResponse(error, 'fetch candidates');
   }
 }
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
+import { getStorageDriver } from '../../../lib/data/storage';
 
 export async function GET() {
   try {
@@ -17,19 +18,22 @@ export async function GET() {
       throw new Error('Data directory not found');
     }
 
-    // Check required data files
-    const requiredFiles = [
-      'applications.json',
-      'candidates.json',
-      'jobs.json',
-      'screenings.json',
-      'config.json'
-    ];
+    // Check required data files (only the JSON driver keeps records in data/*.json)
+    const storageDriver = getStorageDriver();
+    if (storageDriver.name === 'json') {
+      const requiredFiles = [
+        'applications.json',
+        'candidates.json',
+        'jobs.json',
+        'screenings.json',
+        'config.json'
+      ];
 
-    for (const file of requiredFiles) {
-      const filePath = path.join(dataDir, file);
-      if (!fs.existsSync(filePath)) {
-        throw new Error(`Required data file missing: ${file}`);
+      for (const file of requiredFiles) {
+        const filePath = path.join(dataDir, file);
+        if (!fs.existsSync(filePath)) {
+          throw new Error(`Required data file missing: ${file}`);
+        }
       }
     }
 
@@ -50,6 +54,7 @@ export async function GET() {
       checks: {
         dataDirectory: 'ok',
         dataFiles: 'ok',
+        storageDriver: storageDriver.name,
         uploadsDirectory: 'ok',
         permissions: 'ok'
       }
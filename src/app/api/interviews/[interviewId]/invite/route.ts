@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  findInterviewByInviteToken,
+  findInterviewInScope,
+  getInterviewInvite
+} from '../../../../../lib/services/interviewService';
+import { getSessionUser } from '../../../../../lib/auth/currentUser';
+import { hasPermission } from '../../../../../lib/auth/permissions';
+import { getLocationScope } from '../../../../../lib/services/locationService';
+import { errorResponse } from '../../../../../lib/http/errorResponse';
+
+// Built on each request so DTSTAMP and the latest SEQUENCE are current
+export const dynamic = 'force-dynamic';
+
+// GET /api/interviews/[interviewId]/invite?token=... - The interview as an iCalendar (.ics) file.
+// Candidates open it from their email with the interview's invite token; signed-in
+// staff who manage interviews can open it for interviews in their locations.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { interviewId: string } }
+) {
+  try {
+    const user = await getSessionUser();
+    const interview =
+      (user && hasPermission(user.role, 'manage_interviews') && findInterviewInScope(params.interviewId, getLocationScope(user))) ||
+      findInterviewByInviteToken(params.interviewId, request.nextUrl.searchParams.get('token'));
+    if (!interview) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+    }
+
+    const invite = getInterviewInvite(interview);
+    return new NextResponse(invite.content, {
+      headers: {
+        'Content-Type': `text/calendar; charset=utf-8; method=${invite.method}`,
+        'Content-Disposition': `attachment; filename="${invite.filename}"`
+      }
+    });
+  } catch (error) {
+    return errorResponse(error, 'build interview invite');
+  }
+}
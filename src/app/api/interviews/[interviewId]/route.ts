@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  cancelInterview,
+  completeInterview,
+  findInterviewInScope,
+  markInterviewNoShow,
+  updateInterview,
+  withoutInviteToken
+} from '../../../../lib/services/interviewService';
+import { requireSessionUser } from '../../../../lib/auth/currentUser';
+import { getLocationScope } from '../../../../lib/services/locationService';
+import { errorResponse } from '../../../../lib/http/errorResponse';
+
+// Reads the session on every request
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { interviewId: string } }
+) {
+  try {
+    const interview = findInterviewInScope(params.interviewId, getLocationScope(await requireSessionUser()));
+    if (!interview) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+    }
+    return NextResponse.json({ interview: withoutInviteToken(interview) });
+  } catch (error) {
+    return errorResponse(error, 'load interview');
+  }
+}
+
+// PATCH /api/interviews/[interviewId]
+// Body: { action: 'cancel', reason? } | { action: 'complete', outcome, notes? } | { action: 'no_show' }
+// Without an action: { startTime?, endTime?, interviewer?, format?, location?, notes? } changes the interview
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { interviewId: string } }
+) {
+  try {
+    if (!findInterviewInScope(params.interviewId, getLocationScope(await requireSessionUser()))) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+    }
+
+    const { action, reason, outcome, notes, startTime, endTime, interviewer, format, location } = await request.json();
+
+    switch (action) {
+      case 'cancel':
+        return NextResponse.json({ success: true, interview: withoutInviteToken(cancelInterview(params.interviewId, reason)) });
+      case 'complete':
+        if (!outcome) {
+          return NextResponse.json({ error: 'Outcome is required' }, { status: 400 });
+        }
+        return NextResponse.json({ success: true, interview: withoutInviteToken(completeInterview(params.interviewId, outcome, notes)) });
+      case 'no_show':
+        return NextResponse.json({ success: true, interview: withoutInviteToken(markInterviewNoShow(params.interviewId)) });
+      case undefined:
+        return NextResponse.json({
+          success: true,
+          interview: withoutInviteToken(updateInterview(params.interviewId, { startTime, endTime, interviewer, format, location, notes }))
+        });
+      default:
+        return NextResponse.json(
+          { error: 'Action must be "cancel", "complete" or "no_show"' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    return errorResponse(error, 'update interview');
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findInterviewInScope, submitScorecard, withoutInviteToken } from '../../../../../lib/services/interviewService';
+import { requireSessionUser } from '../../../../../lib/auth/currentUser';
+import { getLocationScope } from '../../../../../lib/services/locationService';
+import { errorResponse } from '../../../../../lib/http/errorResponse';
+
+// Reads the session on every request
+export const dynamic = 'force-dynamic';
+
+// POST /api/interviews/[interviewId]/scorecards - Add an interviewer's feedback
+// Body: { interviewer, ratings: [{ criterion, score: 1-5, notes? }], recommendation, comments? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { interviewId: string } }
+) {
+  try {
+    if (!findInterviewInScope(params.interviewId, getLocationScope(await requireSessionUser()))) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 });
+    }
+
+    const { interviewer, ratings, recommendation, comments } = await request.json();
+    const interview = submitScorecard(params.interviewId, { interviewer, ratings, recommendation, comments });
+    return NextResponse.json({ success: true, interview: withoutInviteToken(interview) }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'submit scorecard');
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InterviewStatus } from '../../../lib/types';
+import { listInterviews, scheduleInterview, withoutInviteToken } from '../../../lib/services/interviewService';
+import { getApplicationById } from '../../../lib/services/applicationService';
+import { requireSessionUser } from '../../../lib/auth/currentUser';
+import { getLocationScope, isLocationInScope } from '../../../lib/services/locationService';
+import { getJobById } from '../../../lib/servers/jobs-server';
+import { errorResponse } from '../../../lib/http/errorResponse';
+
+// This route reads the session and query parameters, so it must be dynamic
+export const dynamic = 'force-dynamic';
+
+const STATUSES: InterviewStatus[] = ['scheduled', 'completed', 'cancelled', 'no_show'];
+
+// GET /api/interviews?applicationId=&candidateId=&jobId=&interviewer=&status=&from=&to=
+// Interviews matching the filters at the user's locations, soonest first
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+
+    if (status && !STATUSES.includes(status as InterviewStatus)) {
+      return NextResponse.json(
+        { error: `Status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const interviews = listInterviews({
+      applicationId: searchParams.get('applicationId') || undefined,
+      candidateId: searchParams.get('candidateId') || undefined,
+      jobId: searchParams.get('jobId') || undefined,
+      interviewer: searchParams.get('interviewer') || undefined,
+      status: (status as InterviewStatus) || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined
+    }, getLocationScope(await requireSessionUser()));
+
+    return NextResponse.json({ interviews: interviews.map(withoutInviteToken) });
+  } catch (error) {
+    return errorResponse(error, 'load interviews');
+  }
+}
+
+// POST /api/interviews - Book an interview and send the candidate an invite
+// Body: { applicationId, interviewer: { name, email? }, format, location?, startTime, endTime? | durationMinutes?, notes? }
+export async function POST(request: NextRequest) {
+  try {
+    const { applicationId, interviewer, format, location, startTime, endTime, durationMinutes, notes } = await request.json();
+
+    if (!applicationId || !startTime || !format) {
+      return NextResponse.json(
+        { error: 'Application ID, format and start time are required' },
+        { status: 400 }
+      );
+    }
+
+    // Recruiters limited to some locations can only book interviews for jobs there
+    const application = getApplicationById(applicationId);
+    const scope = getLocationScope(await requireSessionUser());
+    if (!application || !isLocationInScope(getJobById(application.jobId)?.locationId, scope)) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const interview = scheduleInterview({
+      applicationId,
+      interviewer,
+      format,
+      location,
+      startTime,
+      endTime,
+      durationMinutes: durationMinutes ? Number(durationMinutes) : undefined,
+      notes
+    });
+    return NextResponse.json({ success: true, interview: withoutInviteToken(interview) }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'schedule interview');
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { jobService } from '../../../lib/services/job-service';
+import { assertAssignableLocation } from '../../../lib/services/locationService';
+import { errorResponse } from '../../../lib/http/errorResponse';
 
 export async function GET() {
   try {
@@ -17,14 +19,11 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const jobData = await request.json();
-    const newJob = await jobService.createJob(jobData);
+    assertAssignableLocation(jobData.locationId);
+    const newJob = await jobService.createJob({ ...jobData, locationId: jobData.locationId || undefined });
     return NextResponse.json(newJob, { status: 201 });
   } catch (error) {
-    console.error('Error creating job:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'create job');
   }
 }
 
@@ -37,15 +36,20 @@ export async function PUT(request: NextRequest) {
         { status: 400 }
       );
     }
+
+    // A job can stay at a location that was closed, but can't be moved to one
+    const existing = await jobService.getJobById(jobData.id);
+    if ('locationId' in jobData) {
+      if (jobData.locationId !== existing?.locationId) {
+        assertAssignableLocation(jobData.locationId);
+      }
+      jobData.locationId = jobData.locationId || undefined;
+    }
     
     const updatedJob = await jobService.updateJob(jobData.id, jobData);
     return NextResponse.json(updatedJob);
   } catch (error) {
-    console.error('Error updating job:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'update job');
   }
 }
 
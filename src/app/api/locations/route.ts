@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getLocationScope, listLocations } from '../../../lib/services/locationService';
+import { requireSessionUser } from '../../../lib/auth/currentUser';
+import { errorResponse } from '../../../lib/http/errorResponse';
+
+// Depends on the signed-in user
+export const dynamic = 'force-dynamic';
+
+// GET /api/locations - Locations for staff filters and transfers.
+// `scope` lists the locations the user is limited to, or is null when they see all.
+export async function GET() {
+  try {
+    const user = await requireSessionUser();
+    return NextResponse.json({
+      locations: listLocations(),
+      scope: getLocationScope(user)
+    });
+  } catch (error) {
+    return errorResponse(error, 'fetch locations');
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isVapiSimulatorEnabled } from '../../../lib/integrations/vapi/simulatorScenarios';
+import { getSimulatedCall, toVapiCallResponse } from '../../../lib/integrations/vapi/webhookEmitter';
+
+// This route requires query parameters, so it must be dynamic
+export const dynamic = 'force-dynamic';
+
+// GET /api/mock-vapi?callId=mock-... - Simulated calls in the shape of VAPI's GET /call/:id,
+// used by getCallData when the webhook results never arrive
+export async function GET(request: NextRequest) {
+  if (!isVapiSimulatorEnabled()) {
+    return NextResponse.json(
+      { error: 'VAPI simulator is not enabled' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const callId = request.nextUrl.searchParams.get('callId');
+
+    if (!callId) {
+      return NextResponse.json(
+        { error: 'Call ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const call = getSimulatedCall(callId);
+    if (!call) {
+      return NextResponse.json(
+        { error: 'Simulated call not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toVapiCallResponse(call));
+  } catch (error) {
+    console.error('Error fetching simulated call:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch simulated call' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPortalView,
+  replaceResume,
+  withdrawByPortalToken
+} from '../../../../lib/services/candidatePortalService';
+import { errorResponse } from '../../../../lib/http/errorResponse';
+
+// The token is the candidate's only credential, so this must never be cached
+export const dynamic = 'force-dynamic';
+
+// GET /api/portal/[token] - The candidate's view of their application
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    return NextResponse.json({ portal: getPortalView(params.token) });
+  } catch (error) {
+    return errorResponse(error, 'load application');
+  }
+}
+
+// PATCH /api/portal/[token]
+// Body: { action: 'withdraw' } | { action: 'replace_resume', resumeUrl } (from /api/upload)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { action, resumeUrl } = await request.json();
+
+    switch (action) {
+      case 'withdraw':
+        withdrawByPortalToken(params.token);
+        break;
+      case 'replace_resume':
+        replaceResume(params.token, resumeUrl);
+        break;
+      default:
+        return NextResponse.json({ error: 'Action must be "withdraw" or "replace_resume"' }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, portal: getPortalView(params.token) });
+  } catch (error) {
+    return errorResponse(error, 'update application');
+  }
+}
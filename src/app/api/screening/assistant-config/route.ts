@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobById } from '../../../../lib/servers/jobs-server';
+import { determineScreeningRole } from '../../../../lib/screening/screeningService';
+import { getEffectiveVapiConfig } from '../../../../lib/integrations/vapi/vapiServerConfig';
+import { getLocationName } from '../../../../lib/services/locationService';
+
+// This route requires query parameters, so it must be dynamic
+export const dynamic = 'force-dynamic';
+
+// GET /api/screening/assistant-config?jobId=...
+// The voice, model, transcriber and max duration a screening for this job should use:
+// admin vapiSettings, then the role's overrides, then the job's. Also the job's
+// location name for the {locationName} prompt variable.
+export async function GET(request: NextRequest) {
+  try {
+    const jobId = request.nextUrl.searchParams.get('jobId');
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Job ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const job = getJobById(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const roleType = determineScreeningRole(job.title, job.department);
+    return NextResponse.json({
+      roleType,
+      config: getEffectiveVapiConfig(roleType, job.vapiOverrides),
+      locationName: getLocationName(job.locationId)
+    });
+  } catch (error) {
+    console.error('Error resolving screening assistant config:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve screening assistant config' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCandidateApplication } from '../../../../lib/auth/candidateAccess';
+import { expireStaleScreenings, getScreeningAttempts } from '../../../../lib/services/screeningService';
+
+// This route requires query parameters, so it must be dynamic
+export const dynamic = 'force-dynamic';
+
+// GET /api/screening/attempts?applicationId=...&candidateId=...
+// How many screenings the application has had and how they ended
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const application = await findCandidateApplication(searchParams.get('applicationId'), searchParams.get('candidateId'));
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ attempts: getScreeningAttempts(application.id) });
+  } catch (error) {
+    console.error('Error reading screening attempts:', error);
+    return NextResponse.json(
+      { error: 'Failed to read screening attempts' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/screening/attempts - Fail the application's stale screenings, then count its attempts
+// Body: { applicationId, candidateId }
+export async function POST(request: NextRequest) {
+  try {
+    const { applicationId, candidateId } = await request.json();
+    const application = await findCandidateApplication(applicationId, candidateId);
+
+    if (!application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    const expired = expireStaleScreenings(application.id);
+    return NextResponse.json({ expired, attempts: getScreeningAttempts(application.id) });
+  } catch (error) {
+    console.error('Error cleaning up stale screenings:', error);
+    return NextResponse.json(
+      { error: 'Failed to clean up stale screenings' },
+      { status: 500 }
+    );
+  }
+}
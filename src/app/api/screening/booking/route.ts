@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCandidateApplication } from '../../../../lib/auth/candidateAccess';
+import {
+  bookScreeningSlot,
+  cancelScreeningBooking,
+  getAvailableScreeningSlots
+} from '../../../../lib/services/screeningSchedulingService';
+import { errorResponse } from '../../../../lib/http/errorResponse';
+
+// This route requires query parameters, so it must be dynamic
+export const dynamic = 'force-dynamic';
+
+function applicationNotFound() {
+  return NextResponse.json(
+    { error: 'Application not found' },
+    { status: 404 }
+  );
+}
+
+// GET /api/screening/booking?applicationId=...&candidateId=...
+// The application's current booking and the slots the candidate can pick from
+export async function GET(request: NextRequest) {
+  try {
+    const applicationId = request.nextUrl.searchParams.get('applicationId');
+
+    if (!applicationId) {
+      return NextResponse.json(
+        { error: 'Application ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const application = await findCandidateApplication(applicationId, request.nextUrl.searchParams.get('candidateId'));
+    if (!application) {
+      return applicationNotFound();
+    }
+
+    return NextResponse.json({
+      booking: application.screeningBooking || null,
+      slots: getAvailableScreeningSlots(application.id)
+    });
+  } catch (error) {
+    return errorResponse(error, 'load screening slots');
+  }
+}
+
+// POST /api/screening/booking - Book or move the screening for an application
+// Body: { applicationId, candidateId, slotStart, channel: 'web' | 'phone' }
+export async function POST(request: NextRequest) {
+  try {
+    const { applicationId, candidateId, slotStart, channel = 'web' } = await request.json();
+
+    if (!applicationId || !slotStart) {
+      return NextResponse.json(
+        { error: 'Application ID and slot start are required' },
+        { status: 400 }
+      );
+    }
+
+    if (channel !== 'web' && channel !== 'phone') {
+      return NextResponse.json(
+        { error: 'Channel must be "web" or "phone"' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await findCandidateApplication(applicationId, candidateId))) {
+      return applicationNotFound();
+    }
+
+    const booking = bookScreeningSlot(applicationId, slotStart, channel);
+    return NextResponse.json({ success: true, booking }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'book screening slot');
+  }
+}
+
+// DELETE /api/screening/booking?applicationId=...&candidateId=... - Cancel an upcoming booking
+export async function DELETE(request: NextRequest) {
+  try {
+    const applicationId = request.nextUrl.searchParams.get('applicationId');
+
+    if (!applicationId) {
+      return NextResponse.json(
+        { error: 'Application ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await findCandidateApplication(applicationId, request.nextUrl.searchParams.get('candidateId')))) {
+      return applicationNotFound();
+    }
+
+    const booking = cancelScreeningBooking(applicationId);
+    return NextResponse.json({ success: true, booking });
+  } catch (error) {
+    return errorResponse(error, 'cancel screening booking');
+  }
+}
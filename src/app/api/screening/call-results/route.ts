@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCandidateScreening } from '../../../../lib/auth/candidateAccess';
+import { FetchCallResultsJobPayload } from '../../../../lib/services/callPostProcessingService';
+import { enqueueJob } from '../../../../lib/queue/jobQueue';
+import { nudgeJobWorker } from '../../../../lib/queue/jobWorker';
+
+// POST /api/screening/call-results - Fetch a finished call's results from VAPI in the background
+// Body: { screeningId, candidateId, callId }. Used when the webhook's end-of-call report hasn't arrived.
+export async function POST(request: NextRequest) {
+  try {
+    const { screeningId, candidateId, callId } = await request.json();
+
+    if (!screeningId || !callId) {
+      return NextResponse.json(
+        { error: 'Screening ID and call ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const screening = await findCandidateScreening(screeningId, candidateId);
+    if (!screening) {
+      return NextResponse.json(
+        { error: 'Screening not found' },
+        { status: 404 }
+      );
+    }
+
+    // Results from another call must not land on this screening
+    if (screening.aiCallId && screening.aiCallId !== callId) {
+      return NextResponse.json(
+        { error: 'Call ID does not match the screening' },
+        { status: 400 }
+      );
+    }
+
+    const job = enqueueJob<FetchCallResultsJobPayload>(
+      'fetch-call-results',
+      { callId, screeningId },
+      { dedupeKey: `fetch-call-results:${callId}` }
+    );
+    nudgeJobWorker();
+
+    return NextResponse.json({ success: true, jobId: job.id, status: job.status }, { status: 202 });
+  } catch (error) {
+    console.error('Error queueing call results retrieval:', error);
+    return NextResponse.json(
+      { error: 'Failed to queue call results retrieval' },
+      { status: 500 }
+    );
+  }
+}
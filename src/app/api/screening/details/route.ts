@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllScreenings } from '../../../../lib/services/screeningService';
-import { getAllCandidates } from '../../../../lib/servers/candidates-server';
-import { getAllJobs } from '../../../../lib/servers/jobs-server';
+import { findCandidateScreening } from '../../../../lib/auth/candidateAccess';
+import { getCandidateById } from '../../../../lib/services/candidateService';
+import { getJobById } from '../../../../lib/servers/jobs-server';
 
 // This route requires query parameters, so it must be dynamic
 export const dynamic = 'force-dynamic';
 
+// GET /api/screening/details?id=...&candidateId=...
+// The screening with its candidate and job; candidates only get their own
 export async function GET(request: NextRequest) {
   try {
     const screeningId = request.nextUrl.searchParams.get('id');
@@ -17,13 +19,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get all data
-    const screenings = getAllScreenings();
-    const candidates = getAllCandidates();
-    const jobs = getAllJobs();
-    
-    // Find the specific screening
-    const screening = screenings.find(s => s.id === screeningId);
+    const screening = await findCandidateScreening(screeningId, request.nextUrl.searchParams.get('candidateId'));
     if (!screening) {
       return NextResponse.json(
         { error: 'Screening not found' },
@@ -32,8 +28,8 @@ export async function GET(request: NextRequest) {
     }
     
     // Find associated candidate and job
-    const candidate = candidates.find(c => c.id === screening.candidateId);
-    const job = jobs.find(j => j.id === screening.jobId);
+    const candidate = getCandidateById(screening.candidateId);
+    const job = getJobById(screening.jobId);
     
     return NextResponse.json({
       screening,
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { placeOutboundScreeningCall } from '../../../../lib/integrations/vapi/outboundCall';
+import { requireSessionUser } from '../../../../lib/auth/currentUser';
+import { getLocationScope } from '../../../../lib/services/locationService';
+import { errorResponse } from '../../../../lib/http/errorResponse';
+
+// Depends on the signed-in user's locations
+export const dynamic = 'force-dynamic';
+
+// POST /api/screening/outbound - Place a phone screening call to the candidate on an application now
+// Body: { applicationId }
+export async function POST(request: NextRequest) {
+  try {
+    const { applicationId } = await request.json();
+
+    if (!applicationId) {
+      return NextResponse.json(
+        { error: 'Application ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const screening = await placeOutboundScreeningCall(applicationId, {
+      // The simulator posts its webhooks back to this server
+      webhookUrl: new URL('/api/vapi/webhook', request.url).toString(),
+      requestedBy: 'recruiter',
+      scope: getLocationScope(await requireSessionUser())
+    });
+
+    return NextResponse.json({ success: true, screening }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'place phone screening call');
+  }
+}
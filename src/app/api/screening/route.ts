@@ -7,6 +7,9 @@ import {
   updateScreeningStatus,
   getScreeningsByFilters
 } from '../../../lib/services/screeningService';
+import { StorageConflictError } from '../../../lib/data/storage';
+import { findCandidateApplication } from '../../../lib/auth/candidateAccess';
+import { PRE_SCREENING_STATUSES } from '../../../lib/services/screeningResultsService';
 
 // GET /api/screening - List all screening calls or filter by query params
 export async function GET(request: NextRequest) {
@@ -41,7 +44,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/screening - Create a new screening call record
+// POST /api/screening - Create a new screening call record for the candidate's own application
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -56,15 +59,27 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Extract additional data (everything except the required fields)
-    const { applicationId: _, candidateId: __, jobId: ___, ...additionalData } = body;
+    const application = await findCandidateApplication(applicationId, candidateId);
+    if (!application || application.candidateId !== candidateId || application.jobId !== jobId) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      );
+    }
     
-    // Create new screening using the service
+    // A rejected, withdrawn or hired candidate can't reopen the application by screening again
+    if (!PRE_SCREENING_STATUSES.includes(application.status)) {
+      return NextResponse.json(
+        { error: 'This application is not waiting for a screening call' },
+        { status: 409 }
+      );
+    }
+
+    // Create new screening using the service; it always starts as scheduled
     const newScreening = createScreening(
       applicationId,
       candidateId,
-      jobId,
-      additionalData
+      jobId
     );
     
     return NextResponse.json(newScreening, { status: 201 });
@@ -86,8 +101,9 @@ export async function PUT(
     const screeningId = params.id;
     const body = await request.json();
     
-    // Update the screening using the service
-    const updatedScreening = updateScreening(screeningId, body);
+    // Update the screening using the service (optionally guarded by the client's last-seen version)
+    const { expectedUpdatedAt, ...updates } = body;
+    const updatedScreening = updateScreening(screeningId, updates, { expectedUpdatedAt });
     
     if (!updatedScreening) {
       return NextResponse.json(
@@ -98,6 +114,13 @@ export async function PUT(
     
     return NextResponse.json(updatedScreening);
   } catch (error) {
+    if (error instanceof StorageConflictError) {
+      return NextResponse.json(
+        { error: 'Screening was updated by someone else. Reload and try again.' },
+        { status: 409 }
+      );
+    }
+
     console.error('Error updating screening:', error);
     return NextResponse.json(
       { error: 'Failed to update screening record' },
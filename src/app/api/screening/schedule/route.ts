@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCandidateById } from '../../../../lib/services/candidateService';
+import { getJobById } from '../../../../lib/servers/jobs-server';
+import { validateScreeningScheduling } from '../../../../lib/screening/screeningSlots';
+import {
+  getScreeningSchedulingSettings,
+  getUpcomingBookings,
+  updateScreeningSchedulingSettings
+} from '../../../../lib/services/screeningSchedulingService';
+
+// Bookings change whenever a candidate picks a slot, so never cache this route
+export const dynamic = 'force-dynamic';
+
+// GET /api/screening/schedule - Recruiter availability windows and upcoming bookings
+export async function GET() {
+  try {
+    const bookings = getUpcomingBookings().map(application => {
+      const candidate = getCandidateById(application.candidateId);
+      return {
+        applicationId: application.id,
+        candidateId: application.candidateId,
+        jobId: application.jobId,
+        candidateName: candidate ? `${candidate.firstName} ${candidate.lastName}` : 'Unknown Candidate',
+        jobTitle: getJobById(application.jobId)?.title || 'Unknown Position',
+        ...application.screeningBooking!
+      };
+    });
+
+    return NextResponse.json({ settings: getScreeningSchedulingSettings(), bookings });
+  } catch (error) {
+    console.error('Error getting screening schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to get screening schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/screening/schedule - Save availability windows and booking rules
+// Body: ScreeningSchedulingSettings
+export async function PUT(request: NextRequest) {
+  try {
+    const settings = await request.json();
+
+    const errors = validateScreeningScheduling(settings);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid scheduling settings', details: errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings: updateScreeningSchedulingSettings({ ...getScreeningSchedulingSettings(), ...settings })
+    });
+  } catch (error) {
+    console.error('Error updating screening schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update screening schedule' },
+      { status: 500 }
+    );
+  }
+}
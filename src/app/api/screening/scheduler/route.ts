@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runScreeningScheduler } from '../../../../lib/services/screeningSchedulingService';
+
+// POST /api/screening/scheduler - Send due reminders and start booked screenings now.
+// The server already does this every minute; this is for external cron or testing.
+export async function POST(request: NextRequest) {
+  try {
+    const result = await runScreeningScheduler(
+      new Date(),
+      new URL('/api/vapi/webhook', request.url).toString()
+    );
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error running screening scheduler:', error);
+    return NextResponse.json(
+      { error: 'Failed to run screening scheduler' },
+      { status: 500 }
+    );
+  }
+}
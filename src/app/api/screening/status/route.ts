@@ -1,12 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ApplicationStatus } from '../../../../lib/types';
+import { findCandidateScreening } from '../../../../lib/auth/candidateAccess';
 import { updateScreeningStatus as updateStatus } from '../../../../lib/services/screeningService';
+import { hasWebhookResults } from '../../../../lib/services/screeningResultsService';
+
+// The statuses the screening page moves its call through
+const BROWSER_STATUSES: ApplicationStatus[] = ['screening_in_progress', 'screening_completed', 'rejected'];
 
 // POST /api/screening/status - Update screening call status
+// Body: { screeningId, candidateId, status, errorMessage? }
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { screeningId, status, ...additionalData } = body;
+    const { screeningId, candidateId, status, errorMessage } = body;
     
     if (!screeningId || !status) {
       return NextResponse.json(
@@ -15,8 +21,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!BROWSER_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of ${BROWSER_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const screening = await findCandidateScreening(screeningId, candidateId);
+    if (!screening) {
+      return NextResponse.json(
+        { error: 'Screening not found' },
+        { status: 404 }
+      );
+    }
+
+    // A finished call stays finished, and once the webhook has recorded it the browser can no longer finish or fail it
+    if (screening.status === 'screening_completed' || screening.status === 'rejected' ||
+        ((status === 'screening_completed' || status === 'rejected') && hasWebhookResults(screeningId))) {
+      return NextResponse.json(screening);
+    }
+
     // Update the screening status using the service
-    const updatedScreening = updateStatus(screeningId, status as ApplicationStatus, additionalData);
+    const updatedScreening = updateStatus(screeningId, status as ApplicationStatus, {
+      ...(typeof errorMessage === 'string' && errorMessage ? { errorMessage } : {}),
+      ...(status === 'rejected' ? { completedAt: new Date().toISOString() } : {})
+    });
     
     if (!updatedScreening) {
       return NextResponse.json(
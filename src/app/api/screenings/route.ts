@@ -1,15 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ScreeningCall, ApplicationStatus } from '../../../lib/types';
+import { ApplicationStatus } from '../../../lib/types';
 import { 
   readScreeningsFromFile,
-  writeScreeningsToFile,
   updateScreeningStatus
 } from '../../../lib/services/screeningService';
 
 /**
  * API endpoint for browser-compatible screening operations
  * GET /api/screenings - Get all screenings
- * POST /api/screenings - Save all screenings (bulk update)
+ * PUT /api/screenings?id=... - Update one screening's status
  */
 
 // GET /api/screenings - Read all screening calls (browser-compatible)
@@ -26,30 +25,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/screenings - Write all screenings (browser-compatible bulk update)
-export async function POST(request: NextRequest) {
-  try {
-    const screenings: ScreeningCall[] = await request.json();
-    
-    // Validate that we received an array
-    if (!Array.isArray(screenings)) {
-      return NextResponse.json(
-        { error: 'Request body must be an array of screening calls' },
-        { status: 400 }
-      );
-    }
-    
-    writeScreeningsToFile(screenings);
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Error writing screenings:', error);
-    return NextResponse.json(
-      { error: 'Failed to write screenings' },
-      { status: 500 }
-    );
-  }
-}
-
 // PUT /api/screenings - Update a single screening by ID
 export async function PUT(request: NextRequest) {
   try {
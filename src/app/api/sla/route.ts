@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applicationRepository } from '../../../lib/data/repositories/application-repository';
+import { requireSessionUser } from '../../../lib/auth/currentUser';
+import { getLocationScope, isLocationInScope } from '../../../lib/services/locationService';
+import { getRecruiterSlaMetrics, listOverdueApplications } from '../../../lib/services/slaService';
+import { getAllJobs } from '../../../lib/servers/jobs-server';
+import { errorResponse } from '../../../lib/http/errorResponse';
+
+// Depends on the signed-in user's locations and the time of the request
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_METRICS_DAYS = 30;
+
+// GET /api/sla?locationId=...&days=30
+// Applications past their workflow step's time limit, and how quickly each
+// recruiter moved applications on over the last `days` days
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const locationId = searchParams.get('locationId');
+    const days = Number(searchParams.get('days')) || DEFAULT_METRICS_DAYS;
+
+    const scope = getLocationScope(await requireSessionUser());
+    const jobLocations = new Map(getAllJobs().map(job => [job.id, job.locationId]));
+    const applications = applicationRepository.findAll().filter(application => {
+      const applicationLocation = jobLocations.get(application.jobId);
+      return isLocationInScope(applicationLocation, scope) && (!locationId || applicationLocation === locationId);
+    });
+
+    const now = new Date();
+    return NextResponse.json({
+      overdue: listOverdueApplications(applications, now),
+      metrics: getRecruiterSlaMetrics(applications, new Date(now.getTime() - days * 24 * 60 * 60 * 1000)),
+      days
+    });
+  } catch (error) {
+    return errorResponse(error, 'load SLA status');
+  }
+}
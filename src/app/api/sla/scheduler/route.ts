@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { runSlaScheduler } from '../../../../lib/services/slaService';
+
+// POST /api/sla/scheduler - Flag overdue applications and make automatic SLA moves now.
+// The server already does this every 15 minutes; this is for external cron or testing.
+export async function POST() {
+  try {
+    const result = runSlaScheduler();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error running SLA scheduler:', error);
+    return NextResponse.json(
+      { error: 'Failed to run SLA scheduler' },
+      { status: 500 }
+    );
+  }
+}
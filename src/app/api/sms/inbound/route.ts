@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSmsProvider } from '../../../../lib/notifications/sms';
+import { handleInboundSms } from '../../../../lib/services/smsReplyService';
+
+// The request must carry the provider's signature made with SMS_INBOUND_SECRET.
+// Without a secret only development accepts texts, unsigned.
+function rejectUnverified(request: NextRequest, rawBody: string): NextResponse | null {
+  const secret = process.env.SMS_INBOUND_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      return NextResponse.json({ error: 'SMS webhook secret is not configured' }, { status: 500 });
+    }
+    console.warn('SMS_INBOUND_SECRET is not set; accepting unsigned inbound SMS (development only)');
+    return null;
+  }
+
+  const verified = getSmsProvider().verifyInbound({ url: request.url, headers: request.headers, rawBody }, secret);
+  return verified ? null : NextResponse.json({ error: 'Invalid SMS webhook signature' }, { status: 401 });
+}
+
+function readFields(contentType: string, rawBody: string): Record<string, string> {
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(rawBody));
+  }
+  const body = JSON.parse(rawBody);
+  return body && typeof body === 'object' ? body : {};
+}
+
+// POST /api/sms/inbound - A text from a candidate: { from, body } (or the gateway's own fields)
+// STOP/START, RESCHEDULE and WITHDRAW act on the candidate's open application
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text();
+    const rejection = rejectUnverified(request, rawBody);
+    if (rejection) {
+      return rejection;
+    }
+
+    let fields: Record<string, string>;
+    try {
+      fields = readFields(request.headers.get('content-type') || '', rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Request body is not valid JSON' }, { status: 400 });
+    }
+
+    const message = getSmsProvider().parseInbound(fields);
+    if (!message) {
+      return NextResponse.json({ error: 'from and body are required' }, { status: 400 });
+    }
+
+    const reply = handleInboundSms(message);
+    return NextResponse.json({ success: true, reply });
+  } catch (error) {
+    console.error('Error handling inbound SMS:', error);
+    return NextResponse.json({ error: 'Failed to handle inbound SMS' }, { status: 500 });
+  }
+}
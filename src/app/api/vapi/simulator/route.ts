@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isVapiSimulatorEnabled } from '../../../../lib/integrations/vapi/simulatorScenarios';
+import {
+  buildStatusUpdate,
+  emitCallEnded,
+  emitTurnEvents,
+  emitWebhook,
+  endSimulatedCall,
+  getSimulatedCall,
+  recordSimulatedTurn,
+  startSimulatedCall
+} from '../../../../lib/integrations/vapi/webhookEmitter';
+
+// POST /api/vapi/simulator - Progress reports from the fake VAPI client (lib/integrations/vapi/fakeVapiClient.ts)
+// Actions: start { callId, scenario, metadata }, turn { callId, turn }, end { callId, turnsCompleted, endedReason? }
+// Each one posts the webhooks VAPI would send at that point to /api/vapi/webhook
+export async function POST(request: NextRequest) {
+  if (!isVapiSimulatorEnabled()) {
+    return NextResponse.json(
+      { error: 'VAPI simulator is not enabled' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { action, callId } = body;
+    const webhookUrl = new URL('/api/vapi/webhook', request.url).toString();
+
+    if (!callId || typeof callId !== 'string') {
+      return NextResponse.json(
+        { error: 'Call ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'start') {
+      const call = startSimulatedCall(callId, body.scenario, body.metadata);
+      const results = [await emitWebhook(webhookUrl, buildStatusUpdate(call, 'in-progress'))];
+      return NextResponse.json({ success: true, callId, results });
+    }
+
+    const call = getSimulatedCall(callId);
+    if (!call) {
+      return NextResponse.json(
+        { error: 'Simulated call not found' },
+        { status: 404 }
+      );
+    }
+
+    switch (action) {
+      case 'turn': {
+        const turn = Number(body.turn);
+        const results = await emitTurnEvents(webhookUrl, recordSimulatedTurn(callId, turn + 1), turn);
+        return NextResponse.json({ success: true, callId, results });
+      }
+
+      case 'end': {
+        const endedCall = endSimulatedCall(callId, Number(body.turnsCompleted) || 0, body.endedReason);
+        const results = await emitCallEnded(webhookUrl, endedCall);
+        return NextResponse.json({ success: true, callId, results });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'Action must be one of start, turn, end' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Error running VAPI simulator action:', error);
+    return NextResponse.json(
+      { error: 'Failed to run simulator action' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,38 +1,123 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllScreenings, updateScreeningStatus } from '../../../../lib/services/screeningService';
-import { updateApplicationStatus } from '../../../../lib/services/applicationService';
+import {
+  getScreeningById,
+  updateScreening,
+  updateScreeningStatus
+} from '../../../../lib/services/screeningService';
+import { getApplicationById, updateApplicationStatus } from '../../../../lib/services/applicationService';
+import { PRE_SCREENING_STATUSES, recordScreeningFailure, recordScreeningResults } from '../../../../lib/services/screeningResultsService';
+import {
+  logCallHang,
+  logPostProcessingFailure,
+  logWebhookRejection
+} from '../../../../lib/services/callErrorLogger';
+import {
+  claimWebhookEvent,
+  getWebhookCallId,
+  getWebhookMessage,
+  releaseWebhookEvent,
+  verifyWebhookRequest
+} from '../../../../lib/integrations/vapi/webhookVerification';
+import { recordHang, recordSpeechUpdate, takeCallDiagnostics } from '../../../../lib/integrations/vapi/callDiagnostics';
+import { EndOfCallReportJobPayload, findScreeningId } from '../../../../lib/services/callPostProcessingService';
+import { enqueueJob } from '../../../../lib/queue/jobQueue';
+import { nudgeJobWorker } from '../../../../lib/queue/jobWorker';
+import {
+  VapiEndOfCallReport,
+  VapiHangMessage,
+  VapiSpeechUpdate,
+  VapiStatusUpdate
+} from '../../../../lib/types/vapi';
+
+function rejectWebhook(request: NextRequest, reason: string, message: string, status: number, body?: any) {
+  logWebhookRejection(reason, message, body ? getWebhookCallId(body) : undefined, {
+    eventType: body?.message?.type || body?.type,
+    remoteAddress: request.headers.get('x-forwarded-for') || request.ip
+  });
+  return NextResponse.json({ error: message }, { status });
+}
 
 // POST /api/vapi/webhook - Handle VAPI webhook events
 export async function POST(request: NextRequest) {
+  let eventKey: string | null = null;
+
   try {
-    const body = await request.json();
+    // Signatures cover the exact bytes sent, so read the raw body before parsing
+    const rawBody = await request.text();
+    let body: any;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return rejectWebhook(request, 'invalid_payload', 'Webhook body is not valid JSON', 400);
+    }
+
+    const verification = verifyWebhookRequest(request.headers, rawBody, body);
+    if (!verification.ok) {
+      return rejectWebhook(request, verification.reason, verification.message, verification.status, body);
+    }
+
+    if (!claimWebhookEvent(verification.eventKey)) {
+      logWebhookRejection('duplicate_event', `Event ${verification.eventKey} was already processed`, getWebhookCallId(body));
+      return NextResponse.json({ success: true, message: 'Duplicate event ignored' });
+    }
+    eventKey = verification.eventKey;
     
-    // Validate webhook event
-    if (!body || !body.type) {
+    // VAPI wraps server messages in { message: ... }; older flat payloads are still accepted
+    const message = getWebhookMessage(body);
+    if (!message || !message.type) {
       return NextResponse.json(
         { error: 'Invalid webhook payload' },
         { status: 400 }
       );
     }
 
-    console.log('VAPI webhook received:', body.type, body);
+    console.log('VAPI webhook received:', message.type, getWebhookCallId(body));
 
     // Handle different VAPI event types
-    switch (body.type) {
+    let response: NextResponse;
+    switch (message.type) {
+      case 'end-of-call-report':
+        response = await handleEndOfCallReport(message as VapiEndOfCallReport);
+        break;
+
+      case 'status-update':
+        response = await handleStatusUpdate(message as VapiStatusUpdate);
+        break;
+
+      case 'hang':
+        response = await handleHang(message as VapiHangMessage);
+        break;
+
+      case 'speech-update':
+        response = handleSpeechUpdate(message as VapiSpeechUpdate);
+        break;
+
       case 'call-ended':
       case 'call-completed':
-        return await handleCallCompleted(body);
+        response = await handleCallCompleted(message);
+        break;
       
       case 'call-failed':
       case 'call-error':
-        return await handleCallFailed(body);
+        response = await handleCallFailed(message);
+        break;
       
       default:
-        console.log('Unhandled VAPI webhook event type:', body.type);
-        return NextResponse.json({ success: true, message: 'Event ignored' });
+        console.log('Unhandled VAPI webhook event type:', message.type);
+        response = NextResponse.json({ success: true, message: 'Event ignored' });
+    }
+
+    // A failed event may be retried by VAPI; do not treat the retry as a duplicate
+    if (response.status >= 500) {
+      releaseWebhookEvent(eventKey);
     }
+    return response;
     
   } catch (error) {
+    if (eventKey) {
+      releaseWebhookEvent(eventKey);
+    }
+
     console.error('Error processing VAPI webhook:', error);
     return NextResponse.json(
       { error: 'Failed to process webhook' },
@@ -41,61 +126,140 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Handle call completion events
+// Queue the end-of-call report; the job worker records the transcript, analysis and recording
+async function handleEndOfCallReport(report: VapiEndOfCallReport) {
+  const callId = report.call?.id;
+
+  try {
+    // Diagnostics only live in this process's memory, so they travel with the job
+    const job = enqueueJob<EndOfCallReportJobPayload>(
+      'process-end-of-call-report',
+      { callId, report, callDiagnostics: callId ? takeCallDiagnostics(callId) : undefined },
+      { dedupeKey: callId ? `end-of-call-report:${callId}` : undefined }
+    );
+    nudgeJobWorker();
+
+    return NextResponse.json({
+      success: true,
+      message: 'End-of-call report queued',
+      jobId: job.id
+    });
+  } catch (error) {
+    logPostProcessingFailure('end-of-call-report', error as Error, callId);
+    return NextResponse.json(
+      { error: 'Failed to queue end-of-call report' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle live call status changes so the screening shows as in progress while the call runs
+async function handleStatusUpdate(update: VapiStatusUpdate) {
+  const callId = update.call?.id;
+
+  try {
+    if (update.status !== 'in-progress') {
+      // Queued/ringing need no action, and an ended call is finished by its end-of-call report
+      return NextResponse.json({ success: true, message: `Status ${update.status} noted` });
+    }
+
+    const screeningId = findScreeningId(update);
+    const screening = screeningId ? getScreeningById(screeningId) : null;
+    if (!screening) {
+      console.warn('No screening found for status update, call ID:', callId);
+      return NextResponse.json({ success: true, message: 'No screening found' });
+    }
+
+    // Results may already be in if the status update was delayed
+    if (screening.status === 'screening_completed' || screening.status === 'rejected') {
+      return NextResponse.json({ success: true, message: 'Screening already finished', screeningId });
+    }
+
+    updateScreeningStatus(screening.id, 'screening_in_progress', {
+      aiCallId: callId,
+      aiCallStatus: 'pending',
+      startedAt: screening.startedAt || update.call?.startedAt || new Date().toISOString()
+    });
+
+    const application = screening.applicationId ? getApplicationById(screening.applicationId) : null;
+    // Closed or further-along applications keep their status; the call can't reopen them
+    if (application && application.status !== 'screening_in_progress' && PRE_SCREENING_STATUSES.includes(application.status)) {
+      updateApplicationStatus(
+        application.id,
+        'screening_in_progress',
+        undefined,
+        'AI screening call started',
+        'system'
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Status update processed', screeningId });
+  } catch (error) {
+    console.error('Error handling status update:', error);
+    return NextResponse.json(
+      { error: 'Failed to process status update' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle hang notifications (the assistant went quiet for too long) for diagnostics
+async function handleHang(message: VapiHangMessage) {
+  const callId = message.call?.id;
+  if (!callId) {
+    return NextResponse.json({ success: true, message: 'Event ignored' });
+  }
+
+  const { diagnostics, recentEvents } = recordHang(callId);
+  const screeningId = findScreeningId(message);
+  logCallHang(callId, diagnostics.hangCount, { screeningId, recentSpeech: recentEvents });
+
+  if (screeningId) {
+    updateScreening(screeningId, { callDiagnostics: diagnostics });
+  }
+
+  return NextResponse.json({ success: true, message: 'Hang recorded', screeningId });
+}
+
+// Handle speech updates; kept in memory and attached to the hang log and end-of-call report
+function handleSpeechUpdate(message: VapiSpeechUpdate) {
+  const callId = message.call?.id;
+  if (callId) {
+    recordSpeechUpdate(callId, message);
+  }
+  return NextResponse.json({ success: true });
+}
+
+// Handle legacy flat call completion events
 async function handleCallCompleted(webhookData: any) {
   const { callId, transcript, summary, duration, metadata } = webhookData;
   
   try {
     // Find the screening by call ID or metadata
-    const screeningId = metadata?.screeningId || findScreeningByCallId(callId);
+    const screeningId = metadata?.screeningId || findScreeningId(webhookData);
     
     if (!screeningId) {
       console.warn('No screening found for call ID:', callId);
       return NextResponse.json({ success: true, message: 'No screening found' });
     }
 
-    // Update screening status to completed
-    const updatedScreening = updateScreeningStatus(screeningId, 'screening_completed', {
+    if (!summary) {
+      // If no summary yet, it will be processed later or caught by our diagnostic tool
+      console.warn('Call completed but no summary provided for screening:', screeningId);
+    }
+
+    const updatedScreening = recordScreeningResults(screeningId, {
       transcript: transcript || 'Call completed - transcript processing in progress',
+      summaryMarkdown: typeof summary === 'string' ? summary : undefined,
+      summary: summary && typeof summary === 'object' ? summary : undefined,
       duration: duration || 0,
-      completedAt: new Date().toISOString(),
       aiCallId: callId
-    });
+    }, 'webhook');
 
     if (!updatedScreening) {
       throw new Error('Failed to update screening status');
     }
 
-    // If we have a summary from VAPI, process it immediately
-    if (summary) {
-      // Call our existing summary processing endpoint
-      await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/screening/summary`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          screeningId,
-          transcript: transcript || '',
-          rawSummary: summary
-        })
-      });
-    } else {
-      // If no summary yet, it will be processed later or caught by our diagnostic tool
-      console.warn('Call completed but no summary provided for screening:', screeningId);
-    }
-
-    // Update application status
-    if (updatedScreening.applicationId) {
-      updateApplicationStatus(
-        updatedScreening.applicationId,
-        'screening_completed',
-        'screening_call_completed',
-        'AI screening completed successfully via webhook',
-        'system'
-      );
-    }
-
     return NextResponse.json({ 
       success: true, 
       message: 'Call completion processed',
@@ -111,44 +275,26 @@ async function handleCallCompleted(webhookData: any) {
   }
 }
 
-// Handle call failure events
+// Handle legacy flat call failure events
 async function handleCallFailed(webhookData: any) {
   const { callId, error, metadata } = webhookData;
   
   try {
     // Find the screening by call ID or metadata
-    const screeningId = metadata?.screeningId || findScreeningByCallId(callId);
+    const screeningId = metadata?.screeningId || findScreeningId(webhookData);
     
     if (!screeningId) {
       console.warn('No screening found for failed call ID:', callId);
       return NextResponse.json({ success: true, message: 'No screening found' });
     }
 
-    // Update screening status to failed
     const errorMessage = error?.message || 'Call failed';
-    const updatedScreening = updateScreeningStatus(screeningId, 'rejected', {
-      errorMessage,
-      transcript: 'Call failed - no transcript available',
-      completedAt: new Date().toISOString(),
-      aiCallId: callId
-    });
+    const updatedScreening = recordScreeningFailure(screeningId, errorMessage, { aiCallId: callId });
 
     if (!updatedScreening) {
       throw new Error('Failed to update screening status');
     }
 
-    // Important: Keep application in submitted state, not rejected
-    // A failed call doesn't mean the candidate is rejected
-    if (updatedScreening.applicationId) {
-      updateApplicationStatus(
-        updatedScreening.applicationId,
-        'submitted',
-        'screening_call_pending',
-        `Screening call failed: ${errorMessage}. Manual review required.`,
-        'system'
-      );
-    }
-
     return NextResponse.json({ 
       success: true, 
       message: 'Call failure processed',
@@ -164,18 +310,6 @@ async function handleCallFailed(webhookData: any) {
   }
 }
 
-// Helper function to find screening by call ID
-function findScreeningByCallId(callId: string): string | null {
-  const allScreenings = getAllScreenings();
-  
-  // Look for screening with matching call ID in aiCallId field
-  const screening = allScreenings.find(s => 
-    s.aiCallId === callId
-  );
-  
-  return screening?.id || null;
-}
-
 // GET method for webhook verification (if VAPI requires it)
 export async function GET(request: NextRequest) {
   const url = new URL(request.url);
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getWorkflowRoleForJob, getWorkflows } from '../../../lib/services/workflowService';
+import { getAllJobs } from '../../../lib/servers/jobs-server';
+
+// Reads config.json on every request
+export const dynamic = 'force-dynamic';
+
+// GET /api/workflows - Every role's workflow and the role each job follows, so
+// recruiter screens can tell which status changes are allowed before making them
+export async function GET() {
+  try {
+    const jobRoles = Object.fromEntries(getAllJobs().map(job => [job.id, getWorkflowRoleForJob(job)]));
+    return NextResponse.json({ workflows: getWorkflows(), jobRoles });
+  } catch (error) {
+    console.error('Error trying to load workflows:', error);
+    return NextResponse.json(
+      { error: 'Failed to load workflows' },
+      { status: 500 }
+    );
+  }
+}
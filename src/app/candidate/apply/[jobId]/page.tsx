@@ -4,6 +4,7 @@ import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import { Job } from '../../../../lib/types';
 import ResumeUpload from './ResumeUpload';
+import { ScreeningSlotPicker } from '../../../../components/features/screening';
 
 interface Props {
   params: { jobId: string };
@@ -28,6 +29,7 @@ export default function JobApplicationPage({ params }: Props) {
   // State for success page - moved to top level to avoid hooks violation
   const [candidateId, setCandidateId] = useState<string>('');
   const [applicationId, setApplicationId] = useState<string>('');
+  const [portalUrl, setPortalUrl] = useState<string>('');
   
   // Fetch job data on mount
   useEffect(() => {
@@ -198,6 +200,10 @@ export default function JobApplicationPage({ params }: Props) {
       if (result.application && result.application.id) {
         sessionStorage.setItem('applicationId', result.application.id);
       }
+
+      if (result.portalUrl) {
+        setPortalUrl(result.portalUrl);
+      }
       
       setSubmitSuccess(true);
     } catch (error: any) {
@@ -257,11 +263,29 @@ export default function JobApplicationPage({ params }: Props) {
               <h3 className="font-medium text-blue-900 mb-2">What happens next?</h3>
               <ol className="text-sm text-blue-800 space-y-2 list-decimal list-inside">
                 <li>You'll receive a confirmation email shortly</li>
-                <li>Complete your AI-powered screening call</li>
+                <li>Complete your AI-powered screening call now, or at a time you book</li>
                 <li>A recruiter will review your application</li>
                 <li>You'll be contacted for the next steps</li>
               </ol>
             </div>
+            {applicationId && (
+              <div className="border border-gray-200 rounded-md p-4 mb-6 text-left">
+                <h3 className="font-medium text-gray-900 mb-1">Prefer to do it later?</h3>
+                <p className="text-sm text-gray-600 mb-4">Pick a time for your screening and we'll send you a reminder.</p>
+                <ScreeningSlotPicker applicationId={applicationId} candidateId={candidateId} hasPhone={!!formData.phone} />
+              </div>
+            )}
+            {portalUrl && (
+              <div className="border border-gray-200 rounded-md p-4 mb-6 text-left">
+                <h3 className="font-medium text-gray-900 mb-1">Keep track of your application</h3>
+                <p className="text-sm text-gray-600 mb-2">
+                  Bookmark your personal link to check your status, update your resume or withdraw. We've also emailed it to you.
+                </p>
+                <a href={portalUrl} className="text-sm text-blue-600 hover:text-blue-800 break-all">
+                  {portalUrl}
+                </a>
+              </div>
+            )}
             <div className="flex flex-col sm:flex-row sm:space-x-4 space-y-3 sm:space-y-0">
               <Link
                 href={`/candidate/screening?candidateId=${candidateId}&jobId=${params.jobId}&applicationId=${applicationId}`}
@@ -0,0 +1,273 @@
+'use client';
+
+import Link from 'next/link';
+import { useState, useEffect, useCallback } from 'react';
+import ResumeUpload from '../../apply/[jobId]/ResumeUpload';
+import { ScreeningSlotPicker } from '../../../../components/features/screening';
+import { getStatusDisplayInfo, getStatusBadgeClasses } from '../../../../lib/utils/statusManager';
+import { isRetryAllowed } from '../../../../lib/services/clientScreeningService';
+import { uploadResumeFile } from '../../../../lib/integrations/file-upload/fileUpload';
+import type { CandidatePortalView } from '../../../../lib/services/candidatePortalService';
+
+interface Props {
+  params: { token: string };
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+export default function CandidatePortalPage({ params }: Props) {
+  const [portal, setPortal] = useState<CandidatePortalView | null>(null);
+  const [retryAllowed, setRetryAllowed] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [resumeFile, setResumeFile] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [resumeSaved, setResumeSaved] = useState(false);
+
+  const loadPortal = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/portal/${params.token}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load your application');
+      }
+      setPortal(data.portal);
+      if (data.portal.canScreen) {
+        setRetryAllowed(await isRetryAllowed(data.portal.applicationId, data.portal.candidateId));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load your application');
+    } finally {
+      setLoading(false);
+    }
+  }, [params.token]);
+
+  useEffect(() => {
+    loadPortal();
+  }, [loadPortal]);
+
+  const updatePortal = async (body: Record<string, string>, failureMessage: string): Promise<boolean> => {
+    const response = await fetch(`/api/portal/${params.token}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setActionError(data.error || failureMessage);
+      return false;
+    }
+    setPortal(data.portal);
+    return true;
+  };
+
+  const handleResumeSave = async () => {
+    if (!portal || !resumeFile) return;
+
+    try {
+      setSubmitting(true);
+      setActionError(null);
+      const upload = await uploadResumeFile(resumeFile, portal.candidateId);
+      if (!upload.success || !upload.uploadPath) {
+        setActionError(upload.error || 'Resume upload failed');
+        return;
+      }
+      if (await updatePortal({ action: 'replace_resume', resumeUrl: upload.uploadPath }, 'Failed to update your resume')) {
+        setResumeFile(null);
+        setResumeSaved(true);
+      }
+    } catch (err: any) {
+      setActionError(err.message || 'Failed to update your resume');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!portal) return;
+    if (!window.confirm(`Withdraw your application for the ${portal.jobTitle} position? This can't be undone.`)) return;
+
+    try {
+      setSubmitting(true);
+      setActionError(null);
+      await updatePortal({ action: 'withdraw' }, 'Failed to withdraw your application');
+    } catch (err: any) {
+      setActionError(err.message || 'Failed to withdraw your application');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-md mx-auto text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading your application...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !portal) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-lg mx-auto bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">We couldn't open your application</h1>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <Link
+            href="/candidate"
+            className="inline-block bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700"
+          >
+            Return to Job Listings
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const statusInfo = getStatusDisplayInfo(portal.status);
+  const screeningLink = `/candidate/screening?candidateId=${portal.candidateId}&jobId=${portal.jobId}&applicationId=${portal.applicationId}`;
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <div className="flex justify-between items-start">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 mb-1">{portal.jobTitle}</h1>
+                <p className="text-gray-600">
+                  {portal.candidateName ? `${portal.candidateName}, applied` : 'Applied'} {new Date(portal.submittedAt).toLocaleDateString()}
+                </p>
+              </div>
+              <span className={getStatusBadgeClasses(portal.status)}>{statusInfo.label}</span>
+            </div>
+            <p className="text-sm text-gray-500 mt-3">{statusInfo.description}</p>
+          </div>
+
+          {actionError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3">{actionError}</div>
+          )}
+
+          {/* Timeline */}
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Your application so far</h2>
+            <ol className="space-y-4">
+              {portal.timeline.map((entry, idx) => {
+                const info = getStatusDisplayInfo(entry.status);
+                return (
+                  <li key={idx} className="flex items-start">
+                    <span className={`mt-1 mr-3 h-3 w-3 rounded-full flex-shrink-0 ${info.bgColor}`} />
+                    <div>
+                      <p className={`text-sm font-medium ${info.color}`}>{info.label}</p>
+                      <p className="text-sm text-gray-600">{info.description}</p>
+                      <p className="text-xs text-gray-400">{formatDateTime(entry.timestamp)}</p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+
+          {/* Screening */}
+          {portal.canScreen && (
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Screening call</h2>
+              {retryAllowed ? (
+                <>
+                  <p className="text-sm text-gray-600 mb-4">
+                    Take your AI screening call now, or book a time that suits you. You can move your booking here too.
+                  </p>
+                  <Link
+                    href={screeningLink}
+                    className="inline-block bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 transition-colors mb-4"
+                  >
+                    Start Screening Call
+                  </Link>
+                  <ScreeningSlotPicker applicationId={portal.applicationId} candidateId={portal.candidateId} hasPhone={portal.hasPhone} />
+                </>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  You have used all of your screening attempts for this application. A recruiter will be in touch about next steps.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Interviews */}
+          {portal.upcomingInterviews.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Upcoming interviews</h2>
+              <ul className="space-y-2">
+                {portal.upcomingInterviews.map(interview => (
+                  <li key={interview.startTime} className="text-sm text-gray-700">
+                    {formatDateTime(interview.startTime)}
+                    {interview.location && <span className="text-gray-500"> &middot; {interview.location}</span>}
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-gray-500 mt-2">The calendar invite was sent to your email.</p>
+            </div>
+          )}
+
+          {/* Resume */}
+          {portal.canWithdraw && (
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Resume</h2>
+              {portal.resumeUrl ? (
+                <p className="text-sm text-gray-600 mb-4">
+                  <a href={portal.resumeUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                    View the resume on your application
+                  </a>
+                </p>
+              ) : (
+                <p className="text-sm text-gray-600 mb-4">There is no resume on your application yet.</p>
+              )}
+              {resumeSaved && (
+                <p className="text-sm text-green-700 mb-4">Your updated resume has been added to your application.</p>
+              )}
+              <ResumeUpload onFileSelected={file => { setResumeFile(file); setResumeSaved(false); }} />
+              <button
+                type="button"
+                onClick={handleResumeSave}
+                disabled={!resumeFile || submitting}
+                className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {submitting ? 'Saving...' : 'Upload Updated Resume'}
+              </button>
+            </div>
+          )}
+
+          {/* Withdraw */}
+          {portal.canWithdraw && (
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Withdraw your application</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                No longer interested? Withdrawing cancels any booked screening or interview.
+              </p>
+              <button
+                type="button"
+                onClick={handleWithdraw}
+                disabled={submitting}
+                className="bg-red-50 text-red-700 border border-red-200 px-4 py-2 rounded-md hover:bg-red-100 transition-colors disabled:opacity-50"
+              >
+                Withdraw Application
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
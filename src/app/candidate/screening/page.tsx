@@ -2,8 +2,8 @@
 
 import { useState, useEffect, Suspense, useCallback } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { UnifiedVoiceScreeningCall } from '@/components/features/screening';
-import { Job, Candidate, ScreeningSummary } from '@/lib/types';
+import { UnifiedVoiceScreeningCall, ScreeningSlotPicker } from '@/components/features/screening';
+import { Job, Candidate, ScreeningSummary, ScreeningBooking } from '@/lib/types';
 import Link from 'next/link';
 
 // Content component that uses search params
@@ -20,6 +20,7 @@ function ScreeningPageContent() {
   const [callComplete, setCallComplete] = useState<boolean>(false);
   const [callError, setCallError] = useState<Error | null>(null);
   const [callSummary, setCallSummary] = useState<ScreeningSummary | null>(null);
+  const [booking, setBooking] = useState<ScreeningBooking | null>(null);
   const [feedbackSubmitted, setFeedbackSubmitted] = useState<boolean>(false);
   const [feedbackRating, setFeedbackRating] = useState<number>(0);
   const [feedbackComment, setFeedbackComment] = useState<string>('');
@@ -45,7 +46,7 @@ function ScreeningPageContent() {
 
         // Fetch candidate data
         if (candidateId) {
-          const candidateResponse = await fetch(`/api/candidates/${candidateId}`);
+          const candidateResponse = await fetch(`/api/candidates/${candidateId}?applicationId=${encodeURIComponent(applicationId)}`);
           if (candidateResponse.ok) {
             const candidateData = await candidateResponse.json();
             setCandidate(candidateData);
@@ -54,6 +55,15 @@ function ScreeningPageContent() {
             return;
           }
         }
+
+        // A booked screening only opens at the booked time
+        if (applicationId) {
+          const bookingResponse = await fetch(`/api/screening/booking?${new URLSearchParams({ applicationId, candidateId })}`);
+          if (bookingResponse.ok) {
+            const bookingData = await bookingResponse.json();
+            setBooking(bookingData.booking);
+          }
+        }
       } catch (err) {
         setError('An error occurred while loading data');
         console.error('Error fetching data:', err);
@@ -67,7 +77,7 @@ function ScreeningPageContent() {
     } else {
       setLoading(false);
     }
-  }, [jobId, candidateId]);
+  }, [jobId, candidateId, applicationId]);
   
   // Handle call events - memoized to prevent unnecessary re-renders
   const handleCallStart = useCallback(() => {
@@ -261,6 +271,10 @@ function ScreeningPageContent() {
     );
   }
 
+  // Phone bookings are called by the scheduler; web bookings wait for their slot
+  const waitingForBooking = booking?.status === 'booked' &&
+    (booking.channel === 'phone' || new Date(booking.slotStart).getTime() > Date.now());
+
   // Main screening call view
   return (
     <div className="container mx-auto px-4 py-8">
@@ -307,16 +321,28 @@ function ScreeningPageContent() {
           </div>
         </div>
         
-        <UnifiedVoiceScreeningCall
-          jobId={jobId}
-          candidateId={candidateId}
-          applicationId={applicationId}
-          job={job}
-          candidate={candidate}
-          onCallStart={handleCallStart}
-          onCallEnd={handleCallEnd}
-          onCallError={handleCallError}
-        />
+        {waitingForBooking ? (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Your screening is booked</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {booking?.channel === 'phone'
+                ? "We'll call you at the booked time, so there's nothing to start here."
+                : 'Come back to this page at the booked time to start your screening call.'}
+            </p>
+            <ScreeningSlotPicker applicationId={applicationId} candidateId={candidateId} hasPhone={!!candidate.phone} onBookingChange={setBooking} />
+          </div>
+        ) : (
+          <UnifiedVoiceScreeningCall
+            jobId={jobId}
+            candidateId={candidateId}
+            applicationId={applicationId}
+            job={job}
+            candidate={candidate}
+            onCallStart={handleCallStart}
+            onCallEnd={handleCallEnd}
+            onCallError={handleCallError}
+          />
+        )}
       </div>
     </div>
   );
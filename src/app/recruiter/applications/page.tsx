@@ -2,14 +2,18 @@
 
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
 import ApplicantList from '../../../components/features/recruitment/ApplicantList';
 import ExportData from '../../../components/features/recruitment/ExportData';
 import { JobApplication, Candidate, Job } from '../../../lib/types';
+import type { ApplicationSlaStatus } from '../../../lib/services/slaService';
 
 export default function ApplicationsPage() {
   const [applications, setApplications] = useState<any[]>([]);
   const [candidates, setCandidates] = useState<Candidate[]>([]);
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [overdue, setOverdue] = useState<ApplicationSlaStatus[]>([]);
+  const searchParams = useSearchParams();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -19,10 +23,11 @@ export default function ApplicationsPage() {
         setLoading(true);
         setError(null);
 
-        const [applicationsRes, candidatesRes, jobsRes] = await Promise.all([
+        const [applicationsRes, candidatesRes, jobsRes, slaRes] = await Promise.all([
           fetch('/api/applications'),
           fetch('/api/candidates'),
-          fetch('/api/jobs')
+          fetch('/api/jobs'),
+          fetch('/api/sla')
         ]);
 
         if (!applicationsRes.ok || !candidatesRes.ok || !jobsRes.ok) {
@@ -38,6 +43,8 @@ export default function ApplicationsPage() {
         setApplications(applicationsData.applications || applicationsData);
         setCandidates(candidatesData);
         setJobs(jobsData);
+        // Overdue markers are extra; the list still works without them
+        setOverdue(slaRes.ok ? (await slaRes.json()).overdue || [] : []);
       } catch (error) {
         console.error('Error fetching data:', error);
         setError('Failed to load data. Please try again.');
@@ -79,10 +86,17 @@ export default function ApplicationsPage() {
       }),
       createdAt: app.createdAt,
       updatedAt: app.updatedAt,
+      tags: app.tags,
       feedback: {}
     } as JobApplication;
   });
 
+  // Swap in the applications a bulk action changed
+  const handleApplicationsUpdated = (updated: JobApplication[]) => {
+    const byId = new Map(updated.map(application => [application.id, application]));
+    setApplications(current => current.map(app => byId.get(app.id) || app));
+  };
+
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -154,6 +168,9 @@ export default function ApplicationsPage() {
           candidates={candidates}
           jobs={jobs}
           showJobInfo={true}
+          overdueApplications={overdue}
+          initialSlaFilter={searchParams?.get('filter') === 'overdue' ? 'overdue' : 'all'}
+          onApplicationsUpdated={handleApplicationsUpdated}
         />
       </div>
     </div>
@@ -0,0 +1,114 @@
+'use client';
+
+import Link from 'next/link';
+import { useState, useEffect } from 'react';
+import PipelineBoard from '../../../components/features/recruitment/PipelineBoard';
+import { Candidate, Job, JobApplication, ScreeningRole, UserRole } from '../../../lib/types';
+import { WorkflowConfig } from '../../../lib/workflow/workflowUtils';
+
+interface BoardData {
+  applications: JobApplication[];
+  candidates: Candidate[];
+  jobs: Job[];
+  workflows: Record<ScreeningRole, WorkflowConfig>;
+  jobRoles: Record<string, ScreeningRole>;
+  userRole: UserRole;
+}
+
+export default function PipelineBoardPage() {
+  const [data, setData] = useState<BoardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const responses = await Promise.all([
+          fetch('/api/applications'),
+          fetch('/api/candidates'),
+          fetch('/api/jobs'),
+          fetch('/api/workflows'),
+          fetch('/api/auth/session')
+        ]);
+        if (responses.some(response => !response.ok)) {
+          throw new Error('Failed to fetch data');
+        }
+
+        const [applicationsData, candidatesData, jobsData, workflowsData, sessionData] = await Promise.all(
+          responses.map(response => response.json())
+        );
+        setData({
+          applications: applicationsData.applications || applicationsData,
+          candidates: candidatesData,
+          jobs: jobsData,
+          workflows: workflowsData.workflows,
+          jobRoles: workflowsData.jobRoles,
+          userRole: sessionData.user.role
+        });
+      } catch (error) {
+        console.error('Error fetching board data:', error);
+        setError('Failed to load the board. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const handleMoved = (application: JobApplication) => {
+    setData(current => current && {
+      ...current,
+      applications: current.applications.map(existing => (existing.id === application.id ? application : existing))
+    });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-full mx-auto">
+        {/* Header */}
+        <div className="mb-6">
+          <Link href="/recruiter" className="text-blue-600 hover:text-blue-800 mb-4 inline-block">
+            ← Back to Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Pipeline Board
+          </h1>
+          <p className="text-gray-600">
+            Every application by status. Moves follow each job&apos;s hiring workflow.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading applications...</p>
+          </div>
+        ) : error || !data ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error || 'Failed to load the board.'}</p>
+            <button
+              onClick={() => window.location.reload()}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+            >
+              Try Again
+            </button>
+          </div>
+        ) : (
+          <PipelineBoard
+            applications={data.applications}
+            candidates={data.candidates}
+            jobs={data.jobs}
+            workflows={data.workflows}
+            jobRoles={data.jobRoles}
+            userRole={data.userRole}
+            onApplicationMoved={handleMoved}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,21 +6,34 @@ import JobApplicantsOverview from '../../components/features/recruitment/JobAppl
 import ApplicantList from '../../components/features/recruitment/ApplicantList';
 import CandidateStatusTracker from '../../components/features/recruitment/CandidateStatusTracker';
 import ExportData from '../../components/features/recruitment/ExportData';
-import { JobApplication, Candidate, Job } from '../../lib/types';
+import { JobApplication, Candidate, Job, Location } from '../../lib/types';
 import { getStatusDisplayInfo, getStatusBadgeClasses } from '../../lib/utils/statusManager';
+import type { ApplicationSlaStatus, RecruiterSlaMetrics } from '../../lib/services/slaService';
 
 export default function RecruiterDashboard() {
   const [applications, setApplications] = useState<JobApplication[]>([]);
   const [candidates, setCandidates] = useState<Candidate[]>([]);
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationId, setLocationId] = useState(''); // Empty for every location the user can see
   const [loading, setLoading] = useState(true);
+  const [overdue, setOverdue] = useState<ApplicationSlaStatus[]>([]);
+  const [slaMetrics, setSlaMetrics] = useState<{ metrics: RecruiterSlaMetrics[]; days: number } | null>(null);
+
+  // Recruiters limited to some locations only get to pick from those
+  useEffect(() => {
+    fetch('/api/locations')
+      .then(response => response.ok ? response.json() : { locations: [], scope: null })
+      .then(data => setLocations((data.locations || []).filter((location: Location) => !data.scope || data.scope.includes(location.id))))
+      .catch(error => console.error('Error fetching locations:', error));
+  }, []);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
         setLoading(true);
         const [applicationsRes, candidatesRes, jobsRes] = await Promise.all([
-          fetch('/api/applications'),
+          fetch(locationId ? `/api/applications?locationId=${encodeURIComponent(locationId)}` : '/api/applications'),
           fetch('/api/candidates'),
           fetch('/api/jobs')
         ]);
@@ -33,7 +46,14 @@ export default function RecruiterDashboard() {
 
         setApplications(applicationsData.applications || applicationsData);
         setCandidates(candidatesData);
-        setJobs(jobsData);
+        setJobs(locationId ? jobsData.filter((job: Job) => job.locationId === locationId) : jobsData);
+
+        const slaRes = await fetch(locationId ? `/api/sla?locationId=${encodeURIComponent(locationId)}` : '/api/sla');
+        if (slaRes.ok) {
+          const slaData = await slaRes.json();
+          setOverdue(slaData.overdue || []);
+          setSlaMetrics({ metrics: slaData.metrics || [], days: slaData.days });
+        }
       } catch (error) {
         console.error('Error fetching dashboard data:', error);
       } finally {
@@ -42,7 +62,20 @@ export default function RecruiterDashboard() {
     };
 
     fetchData();
-  }, []);
+  }, [locationId]);
+
+  const locationPicker = locations.length > 0 && (
+    <select
+      value={locationId}
+      onChange={(e) => setLocationId(e.target.value)}
+      className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+    >
+      <option value="">All locations</option>
+      {locations.map(location => (
+        <option key={location.id} value={location.id}>{location.name}</option>
+      ))}
+    </select>
+  );
 
   // Show loading state
   if (loading) {
@@ -106,11 +139,32 @@ export default function RecruiterDashboard() {
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
             Recruiter Dashboard
           </h1>
-          <p className="text-gray-600">
-            Manage applications, review candidates, and track hiring progress.
-          </p>
+          <div className="flex flex-wrap justify-between items-center gap-4">
+            <p className="text-gray-600">
+              Manage applications, review candidates, and track hiring progress.
+            </p>
+            {locationPicker}
+          </div>
         </div>
 
+        {/* Applications past their workflow step's time limit */}
+        {overdue.length > 0 && (
+          <Link
+            href="/recruiter/applications?filter=overdue"
+            className="mb-6 flex items-center justify-between bg-red-50 border border-red-200 rounded-lg p-4 hover:bg-red-100 transition-colors"
+          >
+            <div className="flex items-center">
+              <span className="inline-flex items-center justify-center h-8 min-w-[2rem] px-2 rounded-full bg-red-600 text-white text-sm font-semibold mr-3">
+                {overdue.length}
+              </span>
+              <p className="text-red-800">
+                {overdue.length === 1 ? 'application has' : 'applications have'} waited longer than the workflow allows
+              </p>
+            </div>
+            <span className="text-sm text-red-700">Show overdue →</span>
+          </Link>
+        )}
+
         {/* Statistics Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-lg shadow-md p-6">
@@ -174,7 +228,7 @@ export default function RecruiterDashboard() {
         {/* Quick Actions */}
         <div className="bg-white rounded-lg shadow-md p-6 mb-8">
           <h2 className="text-xl font-semibold mb-4">Quick Actions</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             <Link 
               href="/recruiter/applications"
               className="flex items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
@@ -188,6 +242,19 @@ export default function RecruiterDashboard() {
               </div>
             </Link>
 
+            <Link 
+              href="/recruiter/board"
+              className="flex items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <svg className="w-8 h-8 text-indigo-600 mr-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+              </svg>
+              <div>
+                <h3 className="font-medium">Pipeline Board</h3>
+                <p className="text-sm text-gray-600">Drag applications between statuses</p>
+              </div>
+            </Link>
+
             <Link 
               href="/recruiter/screening"
               className="flex items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
@@ -201,6 +268,19 @@ export default function RecruiterDashboard() {
               </div>
             </Link>
 
+            <Link 
+              href="/recruiter/schedule"
+              className="flex items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <svg className="w-8 h-8 text-purple-600 mr-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              <div>
+                <h3 className="font-medium">Screening Schedule</h3>
+                <p className="text-sm text-gray-600">Set availability and see bookings</p>
+              </div>
+            </Link>
+
             <Link 
               href="/recruiter/candidates"
               className="flex items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
@@ -301,6 +381,40 @@ export default function RecruiterDashboard() {
           )}
         </div>
         
+        {/* How quickly each recruiter moves applications on */}
+        {slaMetrics && slaMetrics.metrics.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h2 className="text-xl font-semibold mb-1">Response Times</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Status changes in the last {slaMetrics.days} days, and how long the application had been waiting
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recruiter</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status Changes</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Average Wait</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Within Time Limit</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {slaMetrics.metrics.map(metric => (
+                    <tr key={metric.userId}>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{metric.name}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">{metric.statusChanges}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">{metric.averageHours}h</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {metric.withinSlaRate === null ? '—' : `${Math.round(metric.withinSlaRate * 100)}%`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Candidate Status Tracker - Task 4.6 */}
         
 
@@ -0,0 +1,161 @@
+'use client';
+
+import Link from 'next/link';
+import { useState, useEffect, useCallback } from 'react';
+import ScreeningAvailabilityForm from '../../../components/features/recruitment/ScreeningAvailabilityForm';
+import { ScreeningBooking } from '../../../lib/types';
+import { ScreeningSchedulingSettings } from '../../../lib/screening/screeningSlots';
+
+interface UpcomingBooking extends ScreeningBooking {
+  applicationId: string;
+  candidateId: string;
+  jobId: string;
+  candidateName: string;
+  jobTitle: string;
+}
+
+export default function ScreeningSchedulePage() {
+  const [settings, setSettings] = useState<ScreeningSchedulingSettings | null>(null);
+  const [bookings, setBookings] = useState<UpcomingBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/screening/schedule');
+      if (!response.ok) {
+        throw new Error('Failed to fetch schedule');
+      }
+      const data = await response.json();
+      setSettings(data.settings);
+      setBookings(data.bookings);
+    } catch (error) {
+      console.error('Error fetching screening schedule:', error);
+      setError('Failed to load the screening schedule. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const handleSave = async (updated: ScreeningSchedulingSettings) => {
+    const response = await fetch('/api/screening/schedule', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updated)
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      setNotice({ type: 'error', message: [data.error, ...(data.details || [])].join('. ') });
+      return;
+    }
+
+    setSettings(data.settings);
+    setNotice({ type: 'success', message: 'Availability saved' });
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading schedule...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link href="/recruiter" className="text-blue-600 hover:text-blue-800 mb-4 inline-block">
+            ← Back to Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Screening Schedule</h1>
+          <p className="text-gray-600">
+            Set when candidates can book their AI screening, and see who is booked
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-md p-4 mb-6">{error}</div>
+        )}
+
+        {notice && (
+          <div className={`rounded-md p-4 mb-6 border ${
+            notice.type === 'success' ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'
+          }`}>
+            {notice.message}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <h2 className="text-xl font-semibold mb-4">Upcoming Bookings</h2>
+          {bookings.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Candidate</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Position</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Channel</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reminder</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {bookings.map(booking => (
+                    <tr key={booking.applicationId} className="hover:bg-gray-50">
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(booking.slotStart).toLocaleString(undefined, {
+                          weekday: 'short',
+                          month: 'short',
+                          day: 'numeric',
+                          hour: 'numeric',
+                          minute: '2-digit'
+                        })}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm">
+                        <Link
+                          href={`/recruiter/candidate/${booking.candidateId}?jobId=${booking.jobId}&applicationId=${booking.applicationId}`}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {booking.candidateName}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">{booking.jobTitle}</td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {booking.channel === 'phone' ? 'Phone call' : 'Web call'}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {booking.reminderSentAt ? 'Sent' : 'Not yet'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 italic">No screenings are booked.</p>
+          )}
+        </div>
+
+        {settings && (
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-semibold mb-4">Availability</h2>
+            <ScreeningAvailabilityForm settings={settings} onSave={handleSave} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
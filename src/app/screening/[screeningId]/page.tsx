@@ -8,12 +8,16 @@ import { Job, Candidate } from '../../../lib/types';
 interface ScreeningPageProps {
   params: { 
     screeningId: string;
-  }
+  };
+  searchParams: {
+    candidateId?: string; // From the screening page's link; staff can leave it out
+  };
 }
 
-export default function ScreeningPage({ params }: ScreeningPageProps) {
+export default function ScreeningPage({ params, searchParams }: ScreeningPageProps) {
   const router = useRouter();
   const { screeningId } = params;
+  const candidateId = searchParams.candidateId || '';
   
   const [isLoading, setIsLoading] = useState(true);
   const [screeningData, setScreeningData] = useState<{
@@ -34,7 +38,8 @@ export default function ScreeningPage({ params }: ScreeningPageProps) {
         setIsLoading(true);
         
         // Fetch screening details using the details API
-        const response = await fetch(`/api/screening/details?id=${screeningId}`);
+        const query = new URLSearchParams({ id: screeningId, candidateId });
+        const response = await fetch(`/api/screening/details?${query}`);
         
         if (!response.ok) {
           const errorData = await response.json();
@@ -67,7 +72,7 @@ export default function ScreeningPage({ params }: ScreeningPageProps) {
     };
     
     fetchData();
-  }, [screeningId]);
+  }, [screeningId, candidateId]);
   
   const handleCallEnd = useCallback(async (data: any) => {
     console.log('Call ended with data:', data);
@@ -221,7 +226,6 @@ export default function ScreeningPage({ params }: ScreeningPageProps) {
             onCallEnd={handleCallEnd}
             onCallError={handleCallError}
             autoRetry={true}
-            maxRetryAttempts={3}
           />
         </div>
       )}
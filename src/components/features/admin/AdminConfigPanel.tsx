@@ -5,6 +5,13 @@ import Link from 'next/link';
 import { isEqual } from 'lodash';
 import { useSearchParams } from 'next/navigation';
 import { populateTemplate, getSampleDataForTemplate } from '@/lib/utils/templateUtils';
+import {
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  DEFAULT_SMS_TEMPLATES,
+  NotificationTemplates,
+  SmsTemplateKey,
+  SmsTemplates
+} from '@/lib/notifications/templates';
 import ConfigBackupRestore from './ConfigBackupRestore';
 
 // Define configuration types
@@ -22,18 +29,11 @@ interface SystemConfig {
     sendCandidateFollowup: boolean;
   };
   recruitmentSettings: {
-    hiringWorkflowSteps: string[];
     notificationEmails: string[];
     defaultApplicationDeadlineDays: number;
   };
-  notificationTemplates: {
-    applicationReceived: string;
-    screeningInvitation: string;
-    screeningComplete: string;
-    interviewInvitation: string;
-    offerLetter: string;
-    rejectionEmail: string;
-  };
+  notificationTemplates: NotificationTemplates;
+  smsTemplates: SmsTemplates;
 }
 
 // ESSENTIAL: Default configuration - DO NOT COMMENT OUT - Required for application initialization
@@ -51,27 +51,20 @@ const defaultConfig: SystemConfig = {
     sendCandidateFollowup: true
   },
   recruitmentSettings: {
-    hiringWorkflowSteps: [
-      'Application Submission',
-      'Resume Screening',
-      'Phone Screening',
-      'Hiring Manager Review',
-      'Interview',
-      'Offer / Rejection'
-    ],
     notificationEmails: ['recruiters@restaurant.com', 'hiring@restaurant.com'],
     defaultApplicationDeadlineDays: 14
   },
-  notificationTemplates: {
-    applicationReceived: 'Dear {{candidateName}},\n\nThank you for applying to the {{position}} position at our restaurant. We have received your application and will review it shortly.\n\nBest regards,\nThe Recruitment Team',
-    screeningInvitation: 'Dear {{candidateName}},\n\nWe would like to invite you to complete a brief AI screening call for the {{position}} position. Please click the link below to schedule your screening.\n\n{{screeningLink}}\n\nBest regards,\nThe Recruitment Team',
-    screeningComplete: 'Dear {{candidateName}},\n\nThank you for completing the screening call for the {{position}} position. Our team will review your responses and get back to you soon.\n\nBest regards,\nThe Recruitment Team',
-    interviewInvitation: 'Dear {{candidateName}},\n\nWe would like to invite you for an interview for the {{position}} position. Please choose a suitable time from the available slots.\n\n{{interviewLink}}\n\nBest regards,\nThe Recruitment Team',
-    offerLetter: 'Dear {{candidateName}},\n\nWe are pleased to offer you the {{position}} position at our restaurant. Please find the details of our offer below:\n\n{{offerDetails}}\n\nBest regards,\nThe Recruitment Team',
-    rejectionEmail: 'Dear {{candidateName}},\n\nThank you for your interest in the {{position}} position. After careful consideration, we have decided to pursue other candidates whose qualifications better match our needs at this time.\n\nWe appreciate your interest in our company and wish you success in your job search.\n\nBest regards,\nThe Recruitment Team'
-  }
+  notificationTemplates: DEFAULT_NOTIFICATION_TEMPLATES,
+  smsTemplates: DEFAULT_SMS_TEMPLATES
 };
 
+// Texts for the screening booking flow; their emails are set with the screening availability
+const SCREENING_SMS_TEMPLATES: { key: SmsTemplateKey; description: string }[] = [
+  { key: 'screeningBookingConfirmation', description: 'Sent when a candidate books or moves a screening slot' },
+  { key: 'screeningReminder', description: 'Sent shortly before the booked screening starts' },
+  { key: 'screeningOpen', description: 'Sent when the booked web screening is ready to start' }
+];
+
 export default function AdminConfigPanel() {
   const searchParams = useSearchParams();
   const [config, setConfig] = useState<SystemConfig>(defaultConfig);
@@ -80,7 +73,6 @@ export default function AdminConfigPanel() {
   const [activeTab, setActiveTab] = useState('application');
   const [saveMessage, setSaveMessage] = useState<{type: 'success' | 'error', message: string} | null>(null);
   const [newEmail, setNewEmail] = useState('');
-  const [newWorkflowStep, setNewWorkflowStep] = useState('');
   const [selectedTemplateForPreview, setSelectedTemplateForPreview] = useState<keyof SystemConfig['notificationTemplates'] | null>(null);
   const [templatePreview, setTemplatePreview] = useState<string>('');
   
@@ -206,66 +198,47 @@ export default function AdminConfigPanel() {
     }));
   };
   
-  // Add new workflow step
-  const handleAddWorkflowStep = () => {
-    if (!newWorkflowStep) return;
-    
-    setConfig(prevConfig => ({
-      ...prevConfig,
-      recruitmentSettings: {
-        ...prevConfig.recruitmentSettings,
-        hiringWorkflowSteps: [...prevConfig.recruitmentSettings.hiringWorkflowSteps, newWorkflowStep]
-      }
-    }));
-    setNewWorkflowStep('');
-  };
-  
-  // Remove workflow step
-  const handleRemoveWorkflowStep = (step: string) => {
-    setConfig(prevConfig => ({
-      ...prevConfig,
-      recruitmentSettings: {
-        ...prevConfig.recruitmentSettings,
-        hiringWorkflowSteps: prevConfig.recruitmentSettings.hiringWorkflowSteps.filter(s => s !== step)
-      }
-    }));
-  };
-  
-  // Move workflow step
-  const handleMoveWorkflowStep = (index: number, direction: 'up' | 'down') => {
-    if (
-      (direction === 'up' && index === 0) || 
-      (direction === 'down' && index === config.recruitmentSettings.hiringWorkflowSteps.length - 1)
-    ) {
-      return; // Can't move first item up or last item down
-    }
-    
-    const newSteps = [...config.recruitmentSettings.hiringWorkflowSteps];
-    const targetIndex = direction === 'up' ? index - 1 : index + 1;
-    
-    // Swap items
-    [newSteps[index], newSteps[targetIndex]] = [newSteps[targetIndex], newSteps[index]];
-    
+  // Handle notification template changes
+  const handleTemplateChange = (templateKey: string, value: string) => {
     setConfig(prevConfig => ({
       ...prevConfig,
-      recruitmentSettings: {
-        ...prevConfig.recruitmentSettings,
-        hiringWorkflowSteps: newSteps
+      notificationTemplates: {
+        ...prevConfig.notificationTemplates,
+        [templateKey]: value
       }
     }));
   };
-  
-  // Handle notification template changes
-  const handleTemplateChange = (templateKey: string, value: string) => {
+
+  // Blank SMS variants are kept: that message then goes out by email only
+  const handleSmsTemplateChange = (templateKey: SmsTemplateKey, value: string) => {
     setConfig(prevConfig => ({
       ...prevConfig,
-      notificationTemplates: {
-        ...prevConfig.notificationTemplates,
+      smsTemplates: {
+        ...prevConfig.smsTemplates,
         [templateKey]: value
       }
     }));
   };
 
+  const renderSmsTemplateField = (key: SmsTemplateKey, label: string) => (
+    <div className="mt-3">
+      <label htmlFor={`sms-template-${key}`} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <textarea
+        id={`sms-template-${key}`}
+        rows={2}
+        value={config.smsTemplates[key]}
+        onChange={(e) => handleSmsTemplateChange(key, e.target.value)}
+        placeholder="Leave blank to send this message by email only"
+        className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
+      />
+      <p className="mt-1 text-xs text-gray-500">
+        {config.smsTemplates[key].length} characters before placeholders are filled in; longer than 160 is sent as several texts
+      </p>
+    </div>
+  );
+
   // Get the display name for a template key
   const getTemplateDisplayName = (key: string): string => {
     return key
@@ -499,84 +472,11 @@ export default function AdminConfigPanel() {
         {activeTab === 'recruitment' && (
           <div className="space-y-6">
             <div className="bg-gray-50 p-4 rounded-md">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Hiring Workflow Steps</h3>
-              
-              <div className="space-y-2">
-                <p className="text-gray-500 text-sm mb-2">Configure the steps in your hiring workflow</p>
-                
-                <div className="mt-2 mb-4">
-                  <label htmlFor="workflowStep" className="sr-only">New workflow step</label>
-                  <div className="flex">
-                    <input
-                      type="text"
-                      id="workflowStep"
-                      value={newWorkflowStep}
-                      onChange={(e) => setNewWorkflowStep(e.target.value)}
-                      placeholder="New workflow step"
-                      className="block w-full rounded-l-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                    />
-                    <button
-                      type="button"
-                      onClick={handleAddWorkflowStep}
-                      className="inline-flex items-center rounded-r-md border border-l-0 border-gray-300 bg-gray-50 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-                    >
-                      Add
-                    </button>
-                  </div>
-                </div>
-                
-                <ul className="divide-y divide-gray-200 border rounded-md">
-                  {config.recruitmentSettings.hiringWorkflowSteps.map((step, index) => (
-                    <li key={index} className="flex items-center justify-between px-4 py-3">
-                      <div className="flex items-center">
-                        <span className="inline-flex items-center justify-center h-6 w-6 rounded-full bg-blue-100 text-blue-800 text-xs font-medium mr-3">
-                          {index + 1}
-                        </span>
-                        <span className="text-gray-900">{step}</span>
-                      </div>
-                      <div className="flex space-x-2">
-                        <button
-                          type="button"
-                          onClick={() => handleMoveWorkflowStep(index, 'up')}
-                          disabled={index === 0}
-                          className={`p-1 rounded-md ${
-                            index === 0
-                              ? 'text-gray-300 cursor-not-allowed'
-                              : 'text-gray-500 hover:bg-gray-100'
-                          }`}
-                        >
-                          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                          </svg>
-                        </button>
-                        <button
-                          type="button"
-                          onClick={() => handleMoveWorkflowStep(index, 'down')}
-                          disabled={index === config.recruitmentSettings.hiringWorkflowSteps.length - 1}
-                          className={`p-1 rounded-md ${
-                            index === config.recruitmentSettings.hiringWorkflowSteps.length - 1
-                              ? 'text-gray-300 cursor-not-allowed'
-                              : 'text-gray-500 hover:bg-gray-100'
-                          }`}
-                        >
-                          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                          </svg>
-                        </button>
-                        <button
-                          type="button"
-                          onClick={() => handleRemoveWorkflowStep(step)}
-                          className="p-1 rounded-md text-red-500 hover:bg-gray-100"
-                        >
-                          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
-                      </div>
-                    </li>
-                  ))}
-                </ul>
-              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Hiring Workflows</h3>
+              <p className="text-gray-500 text-sm">
+                The steps, allowed status changes, required notes and automations for each role are set on the{' '}
+                <Link href="/admin/workflows" className="text-blue-600 hover:text-blue-800">workflows page</Link>.
+              </p>
             </div>
             
             <div className="bg-gray-50 p-4 rounded-md">
@@ -694,6 +594,8 @@ export default function AdminConfigPanel() {
                         </div>
                       </div>
                     </div>
+
+                    {renderSmsTemplateField(key as SmsTemplateKey, 'Text message (SMS) variant')}
                     
                     <div className="mt-2">
                       <div className="bg-gray-50 rounded p-2">
@@ -705,16 +607,19 @@ export default function AdminConfigPanel() {
                           <span className="inline-flex items-center rounded-full bg-blue-50 px-2 py-1 text-xs font-medium text-blue-700">
                             {'{{position}}'}
                           </span>
+                          <span className="inline-flex items-center rounded-full bg-blue-50 px-2 py-1 text-xs font-medium text-blue-700">
+                            {'{{portalLink}}'}
+                          </span>
                           {key === 'screeningInvitation' && (
                             <span className="inline-flex items-center rounded-full bg-blue-50 px-2 py-1 text-xs font-medium text-blue-700">
                               {'{{screeningLink}}'}
                             </span>
                           )}
-                          {key === 'interviewInvitation' && (
-                            <span className="inline-flex items-center rounded-full bg-blue-50 px-2 py-1 text-xs font-medium text-blue-700">
-                              {'{{interviewLink}}'}
+                          {key === 'interviewInvitation' && ['interviewLink', 'scheduledTime', 'format', 'location', 'interviewer'].map(placeholder => (
+                            <span key={placeholder} className="inline-flex items-center rounded-full bg-blue-50 px-2 py-1 text-xs font-medium text-blue-700">
+                              {`{{${placeholder}}}`}
                             </span>
-                          )}
+                          ))}
                           {key === 'offerLetter' && (
                             <span className="inline-flex items-center rounded-full bg-blue-50 px-2 py-1 text-xs font-medium text-blue-700">
                               {'{{offerDetails}}'}
@@ -728,6 +633,21 @@ export default function AdminConfigPanel() {
               </div>
             </div>
             
+            <div className="bg-gray-50 p-4 rounded-md">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Screening Booking Texts</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Text messages for screening bookings, using <code>{'{{candidateName}}'}</code>, <code>{'{{position}}'}</code>, <code>{'{{scheduledTime}}'}</code> and <code>{'{{howToJoin}}'}</code>.
+                Candidates can reply STOP, RESCHEDULE or WITHDRAW.
+              </p>
+              <div className="space-y-4">
+                {SCREENING_SMS_TEMPLATES.map(({ key, description }) => (
+                  <div key={key} className="bg-white p-4 rounded-md shadow-sm">
+                    {renderSmsTemplateField(key, `${getTemplateDisplayName(key)} - ${description}`)}
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <div className="bg-gray-50 p-4 rounded-md">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Template Preview</h3>
               <p className="text-sm text-gray-500 mb-4">Preview how your templates will look with actual data.</p>
@@ -2,14 +2,20 @@
 
 import { useState, useEffect } from 'react';
 import { Job } from '../../../lib/types/job';
+import { Location } from '../../../lib/types/location';
+import { VapiConfig, DEFAULT_VAPI_CONFIG, applyVapiOverrides } from '../../../lib/integrations/vapi/vapiConfig';
+import { determineScreeningRole } from '../../../lib/screening/screeningService';
+import { ScreeningConfig } from '../../../lib/screening/screeningConfigUtils';
+import VapiOverridesForm from './VapiOverridesForm';
 
 interface JobFormProps {
   job?: Job;
+  locations?: Location[]; // Choices for the job's location; the field is hidden when there are none
   onSubmit: (jobData: Omit<Job, 'id' | 'createdAt' | 'updatedAt'> | Partial<Job>) => Promise<void> | void;
   onCancel: () => void;
 }
 
-export default function JobForm({ job, onSubmit, onCancel }: JobFormProps) {
+export default function JobForm({ job, locations = [], onSubmit, onCancel }: JobFormProps) {
   const [formData, setFormData] = useState<Omit<Job, 'id' | 'createdAt' | 'updatedAt'> | Partial<Job>>({
     title: '',
     department: '',
@@ -19,7 +25,8 @@ export default function JobForm({ job, onSubmit, onCancel }: JobFormProps) {
     shiftTypes: [],
     weekendRequired: false,
     hourlyRate: '',
-    status: 'active'
+    status: 'active',
+    locationId: ''
   });
 
   // Initialize form with job data if editing
@@ -34,11 +41,30 @@ export default function JobForm({ job, onSubmit, onCancel }: JobFormProps) {
         shiftTypes: job.shiftTypes,
         weekendRequired: job.weekendRequired,
         hourlyRate: job.hourlyRate,
-        status: job.status
+        status: job.status,
+        locationId: job.locationId || '',
+        vapiOverrides: job.vapiOverrides
       });
+      setShowScreeningSettings(Object.keys(job.vapiOverrides || {}).length > 0);
     }
   }, [job]);
 
+  // Screening settings the job inherits from voice settings and its role
+  const [screeningConfig, setScreeningConfig] = useState<ScreeningConfig | null>(null);
+  const [showScreeningSettings, setShowScreeningSettings] = useState(false);
+  useEffect(() => {
+    fetch('/api/admin/screening')
+      .then(response => response.ok ? response.json() : null)
+      .then(config => setScreeningConfig(config))
+      .catch(error => console.error('Error loading screening settings:', error));
+  }, []);
+
+  const roleType = determineScreeningRole(formData.title || '', formData.department);
+  const inheritedScreeningSettings: VapiConfig = applyVapiOverrides(
+    { ...DEFAULT_VAPI_CONFIG, ...screeningConfig?.vapiSettings },
+    screeningConfig?.roles[roleType]?.vapiOverrides
+  );
+
   // Handle input changes
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -152,6 +178,31 @@ export default function JobForm({ job, onSubmit, onCancel }: JobFormProps) {
           />
         </div>
 
+        {/* Location */}
+        {locations.length > 0 && (
+          <div className="col-span-1">
+            <label htmlFor="locationId" className="block text-sm font-medium text-gray-700 mb-1">
+              Location
+            </label>
+            <select
+              id="locationId"
+              name="locationId"
+              value={formData.locationId || ''}
+              onChange={handleChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">No specific location</option>
+              {locations
+                .filter(location => location.active || location.id === job?.locationId)
+                .map(location => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}{location.active ? '' : ' (inactive)'}
+                  </option>
+                ))}
+            </select>
+          </div>
+        )}
+
         {/* Job Description */}
         <div className="col-span-1 md:col-span-2">
           <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
@@ -317,6 +368,28 @@ export default function JobForm({ job, onSubmit, onCancel }: JobFormProps) {
         </div>
       </div>
 
+      {/* Screening call settings for this job */}
+      <div className="mt-6 border-t pt-6">
+        <button
+          type="button"
+          onClick={() => setShowScreeningSettings(!showScreeningSettings)}
+          className="text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          {showScreeningSettings ? 'Hide' : 'Show'} screening call settings
+        </button>
+        {showScreeningSettings && (
+          <div className="mt-4">
+            <VapiOverridesForm
+              overrides={formData.vapiOverrides}
+              inherited={inheritedScreeningSettings}
+              inheritedLabel={`${roleType} role's screening settings`}
+              // An empty object rather than undefined, so clearing every field also clears the saved overrides
+              onChange={(vapiOverrides) => setFormData(prev => ({ ...prev, vapiOverrides: vapiOverrides || {} }))}
+            />
+          </div>
+        )}
+      </div>
+
       {/* Form Actions */}
       <div className="mt-8 flex justify-end space-x-3">
         <button
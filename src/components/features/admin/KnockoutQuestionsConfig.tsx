@@ -0,0 +1,247 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { KnockoutAction } from '@/lib/types';
+import { RoleConfig } from '@/lib/screening/screeningConfigUtils';
+import { KnockoutQuestion } from '@/lib/screening/knockoutQuestions';
+
+interface KnockoutQuestionsConfigProps {
+  knockoutQuestions: KnockoutQuestion[];
+  mandatoryQuestions: string[];
+  roles: { [key: string]: RoleConfig };
+  onUpdate: (knockoutQuestions: KnockoutQuestion[]) => void;
+}
+
+// Structured data fields a knockout question can read its answer from
+const ANSWER_FIELDS = [
+  { value: 'morningShiftAvailable', label: 'Morning shift availability' },
+  { value: 'eveningShiftAvailable', label: 'Evening shift availability' },
+  { value: 'weekendAvailable', label: 'Weekend availability' },
+  { value: 'hasReliableTransportation', label: 'Reliable transportation' },
+  { value: 'yearsOfExperience', label: 'Years of experience' },
+  { value: '', label: 'Role question answer' }
+];
+
+const JOB_REQUIREMENT_FIELDS = ['morningShiftAvailable', 'eveningShiftAvailable', 'weekendAvailable'];
+
+const ACTIONS: { value: KnockoutAction; label: string }[] = [
+  { value: 'flag', label: 'Flag for recruiter' },
+  { value: 'under_review', label: 'Move to Under Review' },
+  { value: 'reject', label: 'Reject with note' }
+];
+
+type ExpectedAnswerType = 'yes' | 'no' | 'job_requirement' | 'minimum';
+
+function expectedAnswerType(expected: KnockoutQuestion['expectedAnswer']): ExpectedAnswerType {
+  if (expected === 'job_requirement') return 'job_requirement';
+  if (typeof expected === 'number') return 'minimum';
+  return expected ? 'yes' : 'no';
+}
+
+export default function KnockoutQuestionsConfig({
+  knockoutQuestions,
+  mandatoryQuestions,
+  roles,
+  onUpdate
+}: KnockoutQuestionsConfigProps) {
+  const [questions, setQuestions] = useState<KnockoutQuestion[]>([]);
+  const [newQuestion, setNewQuestion] = useState('');
+
+  useEffect(() => {
+    setQuestions(knockoutQuestions || []);
+  }, [knockoutQuestions]);
+
+  // Questions not yet marked as knockout questions
+  const availableQuestions = Array.from(new Set([
+    ...mandatoryQuestions,
+    ...Object.values(roles).flatMap(role => role.screeningQuestions || [])
+  ])).filter(question => !questions.some(knockout => knockout.question === question));
+
+  const updateQuestion = (index: number, changes: Partial<KnockoutQuestion>) => {
+    const updated = [...questions];
+    updated[index] = { ...updated[index], ...changes };
+    setQuestions(updated);
+    onUpdate(updated);
+  };
+
+  const handleExpectedAnswerChange = (index: number, type: ExpectedAnswerType) => {
+    const expectedAnswer = type === 'job_requirement' ? 'job_requirement'
+      : type === 'minimum' ? 1
+      : type === 'yes';
+    updateQuestion(index, { expectedAnswer });
+  };
+
+  const addQuestion = () => {
+    if (!newQuestion) return;
+
+    const updated: KnockoutQuestion[] = [...questions, { question: newQuestion, expectedAnswer: true, action: 'flag' }];
+    setQuestions(updated);
+    onUpdate(updated);
+    setNewQuestion('');
+  };
+
+  const removeQuestion = (index: number) => {
+    const updated = [...questions];
+    updated.splice(index, 1);
+    setQuestions(updated);
+    onUpdate(updated);
+  };
+
+  const toggleRole = (index: number, roleType: string) => {
+    const current = questions[index].roles || [];
+    const roleList = current.includes(roleType)
+      ? current.filter(role => role !== roleType)
+      : [...current, roleType];
+    updateQuestion(index, { roles: roleList.length > 0 ? roleList : undefined });
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold mb-2">Knockout Questions</h2>
+        <p className="text-sm text-gray-600">
+          When a candidate&apos;s answer doesn&apos;t match the expected answer, the action is applied to their application
+          as soon as the screening completes and recorded in the application timeline. Questions the candidate didn&apos;t
+          answer are only flagged.
+        </p>
+      </div>
+
+      {questions.length === 0 && (
+        <div className="p-4 bg-gray-50 text-gray-600 rounded-md mb-6">
+          No knockout questions configured. Every candidate goes to recruiter review as usual.
+        </div>
+      )}
+
+      {questions.map((knockout, index) => {
+        const answerType = expectedAnswerType(knockout.expectedAnswer);
+        return (
+          <div key={`${knockout.question}-${index}`} className="border border-gray-200 rounded-md p-4 mb-4">
+            <div className="flex justify-between items-start mb-3">
+              <p className="font-medium text-gray-800">{knockout.question}</p>
+              <button
+                onClick={() => removeQuestion(index)}
+                className="ml-4 text-sm text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Answer</label>
+                <select
+                  value={knockout.answerField || ''}
+                  onChange={(e) => updateQuestion(index, {
+                    answerField: e.target.value || undefined,
+                    // Fall back to "yes" when the current expected answer doesn't fit the new field
+                    ...((answerType === 'job_requirement' && !JOB_REQUIREMENT_FIELDS.includes(e.target.value)) ||
+                      (answerType === 'minimum' && e.target.value !== 'yearsOfExperience') ? { expectedAnswer: true } : {})
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {ANSWER_FIELDS.map(field => (
+                    <option key={field.value} value={field.value}>{field.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Expected answer</label>
+                <div className="flex">
+                  <select
+                    value={answerType}
+                    onChange={(e) => handleExpectedAnswerChange(index, e.target.value as ExpectedAnswerType)}
+                    className="flex-grow px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="yes">Yes</option>
+                    <option value="no">No</option>
+                    {JOB_REQUIREMENT_FIELDS.includes(knockout.answerField || '') && (
+                      <option value="job_requirement">Whatever the job requires</option>
+                    )}
+                    {knockout.answerField === 'yearsOfExperience' && (
+                      <option value="minimum">At least</option>
+                    )}
+                  </select>
+                  {answerType === 'minimum' && (
+                    <input
+                      type="number"
+                      min={0}
+                      value={knockout.expectedAnswer as number}
+                      onChange={(e) => updateQuestion(index, { expectedAnswer: Math.max(0, Number(e.target.value)) })}
+                      className="ml-2 w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+                <select
+                  value={knockout.action}
+                  onChange={(e) => updateQuestion(index, { action: e.target.value as KnockoutAction })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {ACTIONS.map(action => (
+                    <option key={action.value} value={action.value}>{action.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="mb-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Note {knockout.action === 'reject' && <span className="text-gray-500">(recorded as the rejection reason)</span>}
+              </label>
+              <input
+                type="text"
+                value={knockout.note || ''}
+                onChange={(e) => updateQuestion(index, { note: e.target.value || undefined })}
+                placeholder="e.g., Cannot work weekends, which this job requires"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">
+                Applies to {!knockout.roles?.length && <span className="text-gray-500">(all roles)</span>}
+              </span>
+              <div className="flex flex-wrap gap-4">
+                {Object.keys(roles).map(roleType => (
+                  <label key={roleType} className="inline-flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={knockout.roles?.includes(roleType) || false}
+                      onChange={() => toggleRole(index, roleType)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">{roles[roleType].name || roleType}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex mt-2">
+        <select
+          value={newQuestion}
+          onChange={(e) => setNewQuestion(e.target.value)}
+          className="flex-grow px-3 py-2 border border-gray-300 rounded-l-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Mark a screening question as a knockout question...</option>
+          {availableQuestions.map(question => (
+            <option key={question} value={question}>{question}</option>
+          ))}
+        </select>
+        <button
+          onClick={addQuestion}
+          disabled={!newQuestion}
+          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-r-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+import { Location } from '../../../lib/types/location';
+import { DAY_NAMES, ScreeningAvailabilityWindow } from '../../../lib/screening/screeningSlots';
+
+export type LocationFormData = Pick<Location, 'name' | 'address' | 'timezone' | 'hiringManager' | 'screeningHours'>;
+
+interface LocationFormProps {
+  location?: Location;
+  onSubmit: (data: LocationFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+const EMPTY_LOCATION: LocationFormData = {
+  name: '',
+  address: { street: '', city: '', state: '', postalCode: '' },
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  hiringManager: { name: '', email: '', phone: '' },
+  screeningHours: []
+};
+
+const ADDRESS_FIELDS: { field: keyof Location['address']; label: string }[] = [
+  { field: 'street', label: 'Street' },
+  { field: 'city', label: 'City' },
+  { field: 'state', label: 'State' },
+  { field: 'postalCode', label: 'Postal code' }
+];
+
+export default function LocationForm({ location, onSubmit, onCancel }: LocationFormProps) {
+  const [draft, setDraft] = useState<LocationFormData>(location ? {
+    name: location.name,
+    address: location.address,
+    timezone: location.timezone,
+    hiringManager: { name: '', email: '', phone: '', ...location.hiringManager },
+    screeningHours: location.screeningHours || []
+  } : EMPTY_LOCATION);
+  const [saving, setSaving] = useState(false);
+
+  const hours = draft.screeningHours || [];
+  const manager = draft.hiringManager || { name: '' };
+
+  const updateWindow = (index: number, updates: Partial<ScreeningAvailabilityWindow>) => {
+    setDraft({ ...draft, screeningHours: hours.map((window, i) => (i === index ? { ...window, ...updates } : window)) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit(draft);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-6">
+      <h2 className="text-lg font-semibold text-gray-900">{location ? `Edit ${location.name}` : 'Add a location'}</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            required
+            placeholder="e.g., Downtown"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-1">Candidates hear this name in the screening call</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Time zone</label>
+          <input
+            type="text"
+            value={draft.timezone}
+            onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+            required
+            placeholder="e.g., America/Chicago"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+        </div>
+        {ADDRESS_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+            <input
+              type="text"
+              value={draft.address[field]}
+              onChange={(e) => setDraft({ ...draft, address: { ...draft.address, [field]: e.target.value } })}
+              required
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Hiring manager</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <input
+            type="text"
+            value={manager.name}
+            onChange={(e) => setDraft({ ...draft, hiringManager: { ...manager, name: e.target.value } })}
+            placeholder="Name"
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <input
+            type="email"
+            value={manager.email || ''}
+            onChange={(e) => setDraft({ ...draft, hiringManager: { ...manager, email: e.target.value } })}
+            placeholder="Email"
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <input
+            type="tel"
+            value={manager.phone || ''}
+            onChange={(e) => setDraft({ ...draft, hiringManager: { ...manager, phone: e.target.value } })}
+            placeholder="Phone"
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Screening hours</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          In the location&apos;s time zone. Leave empty to use the availability windows on the screening schedule.
+        </p>
+        <div className="space-y-2">
+          {hours.map((window, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <select
+                value={window.dayOfWeek}
+                onChange={(e) => updateWindow(index, { dayOfWeek: Number(e.target.value) })}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+              >
+                {DAY_NAMES.map((day, dayOfWeek) => (
+                  <option key={day} value={dayOfWeek}>{day}</option>
+                ))}
+              </select>
+              <input
+                type="time"
+                value={window.start}
+                onChange={(e) => updateWindow(index, { start: e.target.value })}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="time"
+                value={window.end}
+                onChange={(e) => updateWindow(index, { end: e.target.value })}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, screeningHours: hours.filter((_, i) => i !== index) })}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => setDraft({ ...draft, screeningHours: [...hours, { dayOfWeek: 1, start: '09:00', end: '17:00' }] })}
+          className="mt-3 text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add window
+        </button>
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : location ? 'Save Location' : 'Create Location'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -91,7 +91,9 @@ export default function PromptCustomization({ vapiSettings, onUpdate }: PromptCu
       '{jobTitle}',
       'server',
       ['{roleSpecificQuestions}'],
-      settings.conversationTone || 'friendly and professional'
+      settings.conversationTone || 'friendly and professional',
+      undefined,
+      '{locationName}'
     );
   };
 
@@ -273,7 +275,7 @@ Format the response as a clear, professional summary for hiring managers.`;
         <div>
           <div className="mb-6">
             <h4 className="font-medium text-gray-700 mb-2">System Prompt Customization</h4>
-            <p className="text-sm text-gray-600 mb-4">Customize the core instructions that guide the AI assistant during screening interviews. Use variables like {'{jobTitle}'}, {'{roleType}'}, {'{conversationTone}'}, and {'{roleSpecificQuestions}'} for dynamic content.</p>
+            <p className="text-sm text-gray-600 mb-4">Customize the core instructions that guide the AI assistant during screening interviews. Use variables like {'{jobTitle}'}, {'{locationName}'}, {'{roleType}'}, {'{conversationTone}'}, and {'{roleSpecificQuestions}'} for dynamic content.</p>
             
             <div className="mb-4">
               <div className="flex items-center justify-between mb-2">
@@ -295,7 +297,7 @@ Format the response as a clear, professional summary for hiring managers.`;
                 rows={12}
               />
               <p className="text-xs text-gray-500 mt-1">
-                Available variables: {'{jobTitle}'}, {'{roleType}'}, {'{conversationTone}'}, {'{roleSpecificQuestions}'}
+                Available variables: {'{jobTitle}'}, {'{locationName}'} (the job's location, or the company name), {'{roleType}'}, {'{conversationTone}'}, {'{roleSpecificQuestions}'}
               </p>
             </div>
 
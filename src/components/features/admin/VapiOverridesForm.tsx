@@ -0,0 +1,151 @@
+'use client';
+
+import { VapiConfig } from '@/lib/integrations/vapi/vapiConfig';
+import { VapiSettingsOverride } from '@/lib/types/vapi';
+
+interface VapiOverridesFormProps {
+  overrides?: VapiSettingsOverride;
+  inherited: VapiConfig; // Settings used for any field left blank
+  inheritedLabel: string; // Where the inherited settings come from, e.g. "voice settings"
+  onChange: (overrides: VapiSettingsOverride | undefined) => void;
+}
+
+const inputClasses = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+// Drop empty groups so an untouched form saves no overrides at all
+function compact(overrides: VapiSettingsOverride): VapiSettingsOverride | undefined {
+  const result: VapiSettingsOverride = {};
+  (['voice', 'model', 'transcriber'] as const).forEach(group => {
+    const values = Object.fromEntries(
+      Object.entries(overrides[group] || {}).filter(([, value]) => value)
+    );
+    if (Object.keys(values).length > 0) {
+      result[group] = values;
+    }
+  });
+  if (overrides.conversationTone) result.conversationTone = overrides.conversationTone;
+  if (overrides.maxCallDuration) result.maxCallDuration = overrides.maxCallDuration;
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+export default function VapiOverridesForm({ overrides = {}, inherited, inheritedLabel, onChange }: VapiOverridesFormProps) {
+  const handleNestedChange = (group: 'voice' | 'model' | 'transcriber', field: string, value: string) => {
+    onChange(compact({
+      ...overrides,
+      [group]: { ...overrides[group], [field]: value }
+    }));
+  };
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-3">Leave a field blank to use the {inheritedLabel}.</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Voice Provider</label>
+          <select
+            value={overrides.voice?.provider || ''}
+            onChange={(e) => handleNestedChange('voice', 'provider', e.target.value)}
+            className={inputClasses}
+          >
+            <option value="">Inherit ({inherited.voice.provider})</option>
+            <option value="playht">PlayHT</option>
+            <option value="elevenlabs">ElevenLabs</option>
+            <option value="openai">OpenAI</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Voice ID</label>
+          <input
+            type="text"
+            value={overrides.voice?.voiceId || ''}
+            onChange={(e) => handleNestedChange('voice', 'voiceId', e.target.value)}
+            className={inputClasses}
+            placeholder={inherited.voice.voiceId}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Model Provider</label>
+          <select
+            value={overrides.model?.provider || ''}
+            onChange={(e) => handleNestedChange('model', 'provider', e.target.value)}
+            className={inputClasses}
+          >
+            <option value="">Inherit ({inherited.model.provider})</option>
+            <option value="openai">OpenAI</option>
+            <option value="anthropic">Anthropic</option>
+            <option value="azure">Azure OpenAI</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Model Name</label>
+          <select
+            value={overrides.model?.model || ''}
+            onChange={(e) => handleNestedChange('model', 'model', e.target.value)}
+            className={inputClasses}
+          >
+            <option value="">Inherit ({inherited.model.model})</option>
+            <option value="gpt-4">GPT-4</option>
+            <option value="gpt-4-turbo">GPT-4 Turbo</option>
+            <option value="gpt-3.5-turbo">GPT-3.5 Turbo</option>
+            <option value="claude-3-opus">Claude 3 Opus</option>
+            <option value="claude-3-sonnet">Claude 3 Sonnet</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Transcriber</label>
+          <select
+            value={overrides.transcriber?.provider || ''}
+            onChange={(e) => handleNestedChange('transcriber', 'provider', e.target.value)}
+            className={inputClasses}
+          >
+            <option value="">Inherit ({inherited.transcriber.provider})</option>
+            <option value="deepgram">Deepgram</option>
+            <option value="whisper">OpenAI Whisper</option>
+            <option value="assembly">AssemblyAI</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Transcriber Model</label>
+          <input
+            type="text"
+            value={overrides.transcriber?.model || ''}
+            onChange={(e) => handleNestedChange('transcriber', 'model', e.target.value)}
+            className={inputClasses}
+            placeholder={inherited.transcriber.model}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+          <input
+            type="text"
+            value={overrides.transcriber?.language || ''}
+            onChange={(e) => handleNestedChange('transcriber', 'language', e.target.value)}
+            className={inputClasses}
+            placeholder={inherited.transcriber.language}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Max Call Duration (seconds)</label>
+          <input
+            type="number"
+            value={overrides.maxCallDuration || ''}
+            onChange={(e) => onChange(compact({ ...overrides, maxCallDuration: parseInt(e.target.value) || undefined }))}
+            min={60}
+            max={1800}
+            step={30}
+            className={inputClasses}
+            placeholder={String(inherited.maxCallDuration)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,417 @@
+'use client';
+
+import { useState } from 'react';
+import { ApplicationStatus, ApplicationStep } from '../../../lib/types/common';
+import { getStatusDisplayInfo } from '../../../lib/utils/statusManager';
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STEPS,
+  StatusTransition,
+  WORKFLOW_ACTORS,
+  WORKFLOW_AUTOMATION_LABELS,
+  WorkflowActor,
+  WorkflowAutomation,
+  WorkflowConfig
+} from '../../../lib/workflow/workflowUtils';
+
+interface WorkflowEditorProps {
+  workflow: WorkflowConfig;
+  onSubmit: (workflow: WorkflowConfig) => Promise<void>;
+  onReset: () => Promise<void>;
+}
+
+const statusLabel = (status: ApplicationStatus) => getStatusDisplayInfo(status).label;
+
+// e.g. screening_call_pending -> Screening call pending
+const stepName = (step: string) => step.replace(/_/g, ' ').replace(/^./, first => first.toUpperCase());
+
+// Adds or removes one automation of a kind, keeping the others
+function withAutomation(
+  automations: WorkflowAutomation[] | undefined,
+  type: WorkflowAutomation['type'],
+  automation: WorkflowAutomation | null
+): WorkflowAutomation[] | undefined {
+  const others = (automations || []).filter(existing => existing.type !== type);
+  const next = automation ? [...others, automation] : others;
+  return next.length > 0 ? next : undefined;
+}
+
+export default function WorkflowEditor({ workflow, onSubmit, onReset }: WorkflowEditorProps) {
+  const [draft, setDraft] = useState<WorkflowConfig>(workflow);
+  const [newStep, setNewStep] = useState<ApplicationStep | ''>('');
+  const [newTransition, setNewTransition] = useState<{ from: ApplicationStatus; to: ApplicationStatus }>({ from: 'submitted', to: 'under_review' });
+  const [saving, setSaving] = useState(false);
+
+  const unusedSteps = APPLICATION_STEPS.filter(step => !draft.steps.some(existing => existing.step === step));
+
+  const updateStep = (index: number, updates: Partial<WorkflowConfig['steps'][number]>) => {
+    setDraft({ ...draft, steps: draft.steps.map((step, i) => (i === index ? { ...step, ...updates } : step)) });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...draft.steps];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    setDraft({ ...draft, steps });
+  };
+
+  // A status belongs to at most one step
+  const setStatusStep = (status: ApplicationStatus, step: string) => {
+    setDraft({
+      ...draft,
+      steps: draft.steps.map(existing => ({
+        ...existing,
+        statuses: existing.step === step
+          ? [...existing.statuses.filter(s => s !== status), status]
+          : existing.statuses.filter(s => s !== status)
+      }))
+    });
+  };
+
+  // Overdue applications can only be moved where the system may move them
+  const systemTargets = (statuses: ApplicationStatus[]) => APPLICATION_STATUSES.filter(to =>
+    draft.statusTransitions.some(transition => statuses.includes(transition.from) && transition.to === to && transition.allowedBy.includes('system'))
+  );
+
+  const updateTransition = (index: number, updates: Partial<StatusTransition>) => {
+    setDraft({
+      ...draft,
+      statusTransitions: draft.statusTransitions.map((transition, i) => (i === index ? { ...transition, ...updates } : transition))
+    });
+  };
+
+  const toggleActor = (index: number, actor: WorkflowActor) => {
+    const allowedBy = draft.statusTransitions[index].allowedBy;
+    updateTransition(index, {
+      allowedBy: allowedBy.includes(actor) ? allowedBy.filter(existing => existing !== actor) : [...allowedBy, actor]
+    });
+  };
+
+  const addStep = () => {
+    if (!newStep) return;
+    setDraft({
+      ...draft,
+      steps: [...draft.steps, {
+        step: newStep,
+        label: stepName(newStep),
+        description: '',
+        requiredFor: ['all'],
+        isOptional: false,
+        estimatedDuration: '',
+        automatable: false,
+        statuses: []
+      }]
+    });
+    setNewStep('');
+  };
+
+  const addTransition = () => {
+    setDraft({
+      ...draft,
+      statusTransitions: [...draft.statusTransitions, { ...newTransition, allowedBy: ['recruiter', 'admin'], requiresNotes: false }]
+    });
+  };
+
+  // Listed in pipeline order of where they start, the way the status buttons show them
+  const transitions = draft.statusTransitions
+    .map((transition, index) => ({ transition, index }))
+    .sort((a, b) =>
+      APPLICATION_STATUSES.indexOf(a.transition.from) - APPLICATION_STATUSES.indexOf(b.transition.from) ||
+      APPLICATION_STATUSES.indexOf(a.transition.to) - APPLICATION_STATUSES.indexOf(b.transition.to)
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit(draft);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Replace this workflow with the default pipeline?')) return;
+    setSaving(true);
+    try {
+      await onReset();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Steps */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Steps</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          The stages an application goes through, in order. A time limit flags applications left in one of the step&apos;s statuses for longer, or moves them on.
+        </p>
+        <ul className="divide-y divide-gray-200 border rounded-md">
+          {draft.steps.map((step, index) => (
+            <li key={step.step} className="px-4 py-3 flex flex-wrap items-center gap-3">
+              <span className="inline-flex items-center justify-center h-6 w-6 rounded-full bg-blue-100 text-blue-800 text-xs font-medium">
+                {index + 1}
+              </span>
+              <input
+                type="text"
+                value={step.label}
+                onChange={(e) => updateStep(index, { label: e.target.value })}
+                required
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm w-56"
+              />
+              <input
+                type="text"
+                value={step.estimatedDuration}
+                onChange={(e) => updateStep(index, { estimatedDuration: e.target.value })}
+                placeholder="e.g., 1-2 days"
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm w-32"
+              />
+              <label className="flex items-center text-sm text-gray-700" title="Applications left longer in one of the step's statuses are overdue">
+                <input
+                  type="number"
+                  min="1"
+                  value={step.slaHours ?? ''}
+                  onChange={(e) => updateStep(index, {
+                    slaHours: e.target.value ? Number(e.target.value) : undefined,
+                    ...(!e.target.value && { slaAutoTransition: undefined })
+                  })}
+                  placeholder="No limit"
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm w-24 mr-1"
+                />
+                hours
+              </label>
+              {step.slaHours !== undefined && (
+                <select
+                  value={step.slaAutoTransition || ''}
+                  onChange={(e) => updateStep(index, { slaAutoTransition: (e.target.value || undefined) as ApplicationStatus | undefined })}
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                >
+                  <option value="">When overdue: flag it</option>
+                  {systemTargets(step.statuses).map(status => (
+                    <option key={status} value={status}>When overdue: move to {statusLabel(status)}</option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mr-1"
+                  checked={step.isOptional}
+                  onChange={(e) => updateStep(index, { isOptional: e.target.checked })}
+                />
+                Optional
+              </label>
+              <span className="text-xs text-gray-400">{step.step}</span>
+              <div className="ml-auto flex space-x-2 text-sm">
+                <button type="button" onClick={() => moveStep(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-700 disabled:opacity-30">↑</button>
+                <button type="button" onClick={() => moveStep(index, 1)} disabled={index === draft.steps.length - 1} className="text-gray-500 hover:text-gray-700 disabled:opacity-30">↓</button>
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) })}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+        {unusedSteps.length > 0 && (
+          <div className="mt-3 flex items-center gap-2">
+            <select
+              value={newStep}
+              onChange={(e) => setNewStep(e.target.value as ApplicationStep | '')}
+              className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+            >
+              <option value="">Add a step...</option>
+              {unusedSteps.map(step => (
+                <option key={step} value={step}>{stepName(step)}</option>
+              ))}
+            </select>
+            <button type="button" onClick={addStep} disabled={!newStep} className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50">
+              + Add step
+            </button>
+          </div>
+        )}
+
+        <h3 className="text-sm font-medium text-gray-700 mt-6 mb-2">Step for each status</h3>
+        <p className="text-xs text-gray-500 mb-3">Where an application moved to a status ends up. Unassigned statuses leave it at its current step.</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {APPLICATION_STATUSES.map(status => (
+            <label key={status} className="flex items-center justify-between text-sm text-gray-700">
+              <span>{statusLabel(status)}</span>
+              <select
+                value={draft.steps.find(step => step.statuses.includes(status))?.step || ''}
+                onChange={(e) => setStatusStep(status, e.target.value)}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm w-56"
+              >
+                <option value="">Current step</option>
+                {draft.steps.map(step => (
+                  <option key={step.step} value={step.step}>{step.label}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Transitions */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Status changes</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Only these moves are allowed, and only by the roles ticked. System moves happen on their own, e.g. when a screening call ends.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Move</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Allowed for</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Note</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Afterwards</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {transitions.map(({ transition, index }) => {
+                const advanceTo = transition.automations?.find(automation => automation.type === 'advance_to')?.status || '';
+                return (
+                  <tr key={`${transition.from}-${transition.to}`}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                      {statusLabel(transition.from)} → {statusLabel(transition.to)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex flex-wrap gap-3">
+                        {WORKFLOW_ACTORS.map(actor => (
+                          <label key={actor} className="flex items-center text-gray-700">
+                            <input
+                              type="checkbox"
+                              className="mr-1"
+                              checked={transition.allowedBy.includes(actor)}
+                              onChange={() => toggleActor(index, actor)}
+                            />
+                            {actor}
+                          </label>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <label className="flex items-center text-gray-700 whitespace-nowrap">
+                        <input
+                          type="checkbox"
+                          className="mr-1"
+                          checked={transition.requiresNotes}
+                          onChange={(e) => updateTransition(index, { requiresNotes: e.target.checked })}
+                        />
+                        Required
+                      </label>
+                    </td>
+                    <td className="px-3 py-2">
+                      {(['cancel_screening_booking', 'cancel_interviews'] as const).map(type => (
+                        <label key={type} className="flex items-center text-gray-700 whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            className="mr-1"
+                            checked={!!transition.automations?.some(automation => automation.type === type)}
+                            onChange={(e) => updateTransition(index, {
+                              automations: withAutomation(transition.automations, type, e.target.checked ? { type } : null)
+                            })}
+                          />
+                          {WORKFLOW_AUTOMATION_LABELS[type]}
+                        </label>
+                      ))}
+                      <label className="flex items-center text-gray-700 whitespace-nowrap mt-1">
+                        <span className="mr-2">{WORKFLOW_AUTOMATION_LABELS.advance_to}</span>
+                        <select
+                          value={advanceTo}
+                          onChange={(e) => updateTransition(index, {
+                            automations: withAutomation(
+                              transition.automations,
+                              'advance_to',
+                              e.target.value ? { type: 'advance_to', status: e.target.value as ApplicationStatus } : null
+                            )
+                          })}
+                          className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        >
+                          <option value="">Nothing</option>
+                          {APPLICATION_STATUSES.filter(status => status !== transition.to).map(status => (
+                            <option key={status} value={status}>{statusLabel(status)}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setDraft({ ...draft, statusTransitions: draft.statusTransitions.filter((_, i) => i !== index) })}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+          <select
+            value={newTransition.from}
+            onChange={(e) => setNewTransition({ ...newTransition, from: e.target.value as ApplicationStatus })}
+            className="border border-gray-300 rounded-md px-2 py-1"
+          >
+            {APPLICATION_STATUSES.map(status => (
+              <option key={status} value={status}>{statusLabel(status)}</option>
+            ))}
+          </select>
+          <span className="text-gray-500">→</span>
+          <select
+            value={newTransition.to}
+            onChange={(e) => setNewTransition({ ...newTransition, to: e.target.value as ApplicationStatus })}
+            className="border border-gray-300 rounded-md px-2 py-1"
+          >
+            {APPLICATION_STATUSES.map(status => (
+              <option key={status} value={status}>{statusLabel(status)}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={addTransition}
+            disabled={newTransition.from === newTransition.to || draft.statusTransitions.some(t => t.from === newTransition.from && t.to === newTransition.to)}
+            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            + Add status change
+          </button>
+        </div>
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Workflow'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setDraft(workflow)}
+          disabled={saving}
+          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Discard changes
+        </button>
+        <button
+          type="button"
+          onClick={handleReset}
+          disabled={saving}
+          className="px-4 py-2 border border-gray-300 rounded-md text-red-600 hover:bg-red-50 disabled:opacity-50"
+        >
+          Reset to default
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import type { PublicUser } from '../../../lib/types';
+
+const ROLE_LABELS: Record<PublicUser['role'], string> = {
+  recruiter: 'Recruiter',
+  admin: 'Admin'
+};
+
+// Who is signed in, with links between the staff areas and a sign-out button
+export default function SessionBar() {
+  const [user, setUser] = useState<PublicUser | null>(null);
+  const [signingOut, setSigningOut] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setUser(data?.user || null))
+      .catch(error => console.error('Failed to load session:', error));
+  }, []);
+
+  const signOut = async () => {
+    setSigningOut(true);
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      window.location.href = '/login';
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border-b border-gray-200">
+      <div className="container mx-auto px-4 py-2 flex items-center justify-end gap-4 text-sm">
+        <Link href="/recruiter" className="text-gray-600 hover:text-gray-900">Recruiter</Link>
+        {user.role === 'admin' && (
+          <Link href="/admin" className="text-gray-600 hover:text-gray-900">Admin</Link>
+        )}
+        <span className="text-gray-500">
+          {user.name} <span className="text-gray-400">({ROLE_LABELS[user.role]})</span>
+        </span>
+        <button
+          type="button"
+          onClick={signOut}
+          disabled={signingOut}
+          className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+}
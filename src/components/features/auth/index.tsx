@@ -0,0 +1,3 @@
+'use client';
+
+export { default as SessionBar } from './SessionBar';
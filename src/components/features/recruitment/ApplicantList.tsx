@@ -4,19 +4,28 @@ import React, { useState, useMemo } from 'react';
 import Link from 'next/link';
 import { JobApplication, Job, Candidate } from '../../../lib/types';
 import { getStatusDisplayInfo, getStatusBadgeClasses } from '../../../lib/utils/statusManager';
+import type { ApplicationSlaStatus } from '../../../lib/services/slaService';
+import BulkActionBar from './BulkActionBar';
 
 interface ApplicantListProps {
   applications: JobApplication[];
   candidates: Candidate[];
   jobs: Job[];
   showJobInfo?: boolean;
+  overdueApplications?: ApplicationSlaStatus[]; // Past their workflow step's time limit, from /api/sla
+  initialSlaFilter?: 'all' | 'overdue';
+  // Turns on selection and bulk actions; called with the applications a bulk action changed
+  onApplicationsUpdated?: (applications: JobApplication[]) => void;
 }
 
 export default function ApplicantList({ 
   applications, 
   candidates, 
   jobs, 
-  showJobInfo = true 
+  showJobInfo = true,
+  overdueApplications = [],
+  initialSlaFilter = 'all',
+  onApplicationsUpdated
 }: ApplicantListProps) {
   // Filters
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -25,6 +34,13 @@ export default function ApplicantList({
   const [sortField, setSortField] = useState<string>('createdAt');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [screeningFilter, setScreeningFilter] = useState<string>('all');
+  const [slaFilter, setSlaFilter] = useState<string>(initialSlaFilter);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const overdueById = useMemo(
+    () => new Map(overdueApplications.map(sla => [sla.applicationId, sla])),
+    [overdueApplications]
+  );
 
   // Filter and sort applications
   const filteredApplications = useMemo(() => {
@@ -40,6 +56,11 @@ export default function ApplicantList({
           return false;
         }
         
+        // Apply SLA filter
+        if (slaFilter === 'overdue' && !overdueById.has(app.id)) {
+          return false;
+        }
+        
         // Apply screening filter
         if (screeningFilter !== 'all') {
           if (screeningFilter === 'completed' && !['screening_completed'].includes(app.status)) {
@@ -66,7 +87,8 @@ export default function ApplicantList({
             candidate.lastName,
             candidate.email,
             job.title,
-            app.status
+            app.status,
+            ...(app.tags || [])
           ].map(field => field?.toLowerCase() || '');
           
           const normalizedSearchTerm = searchTerm.toLowerCase();
@@ -95,7 +117,32 @@ export default function ApplicantList({
         }
         return 0;
       });
-  }, [applications, candidates, jobs, statusFilter, jobFilter, screeningFilter, searchTerm, sortField, sortDirection]);
+  }, [applications, candidates, jobs, statusFilter, jobFilter, screeningFilter, slaFilter, overdueById, searchTerm, sortField, sortDirection]);
+
+  const selectable = !!onApplicationsUpdated;
+  const selectedApplications = applications.filter(app => selectedIds.has(app.id));
+  const allFilteredSelected = filteredApplications.length > 0 && filteredApplications.every(app => selectedIds.has(app.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Selects every application the filters show, or clears them if they all are
+  const toggleAllFiltered = () => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      filteredApplications.forEach(app => (allFilteredSelected ? next.delete(app.id) : next.add(app.id)));
+      return next;
+    });
+  };
 
   // Handle sort toggle
   const handleSortToggle = (field: string) => {
@@ -116,7 +163,7 @@ export default function ApplicantList({
 
       {/* Filters */}
       <div className="p-4 bg-gray-50 border-b">
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
           <div>
             <label htmlFor="status-filter" className="block text-sm font-medium text-gray-700 mb-1">
               Status
@@ -176,6 +223,21 @@ export default function ApplicantList({
             </select>
           </div>
           
+          <div>
+            <label htmlFor="sla-filter" className="block text-sm font-medium text-gray-700 mb-1">
+              Time Limit
+            </label>
+            <select
+              id="sla-filter"
+              value={slaFilter}
+              onChange={(e) => setSlaFilter(e.target.value)}
+              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="all">All Applications</option>
+              <option value="overdue">Overdue ({overdueApplications.length})</option>
+            </select>
+          </div>
+          
           <div>
             <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-1">
               Search
@@ -242,6 +304,20 @@ export default function ApplicantList({
             </span>
           )}
           
+          {slaFilter !== 'all' && (
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-sm font-medium bg-red-100 text-red-800">
+              Overdue only
+              <button 
+                onClick={() => setSlaFilter('all')} 
+                className="ml-1.5 inline-flex text-red-400 hover:text-red-600 focus:outline-none"
+              >
+                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </span>
+          )}
+          
           {searchTerm && (
             <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-sm font-medium bg-purple-100 text-purple-800">
               Search: "{searchTerm}"
@@ -256,12 +332,13 @@ export default function ApplicantList({
             </span>
           )}
           
-          {(statusFilter !== 'all' || jobFilter !== 'all' || screeningFilter !== 'all' || searchTerm) && (
+          {(statusFilter !== 'all' || jobFilter !== 'all' || screeningFilter !== 'all' || slaFilter !== 'all' || searchTerm) && (
             <button 
               onClick={() => {
                 setStatusFilter('all');
                 setJobFilter('all');
                 setScreeningFilter('all');
+                setSlaFilter('all');
                 setSearchTerm('');
               }}
               className="text-sm text-gray-600 hover:text-gray-900"
@@ -272,11 +349,32 @@ export default function ApplicantList({
         </div>
       </div>
 
+      {/* Bulk actions on the selected applicants */}
+      {selectable && selectedApplications.length > 0 && (
+        <BulkActionBar
+          selected={selectedApplications}
+          candidates={candidates}
+          jobs={jobs}
+          onApplicationsUpdated={onApplicationsUpdated}
+          onClearSelection={() => setSelectedIds(new Set())}
+        />
+      )}
+
       {/* Applicants List */}
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
+              {selectable && (
+                <th scope="col" className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all shown applications"
+                    checked={allFilteredSelected}
+                    onChange={toggleAllFiltered}
+                  />
+                </th>
+              )}
               <th 
                 scope="col" 
                 className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
@@ -326,9 +424,20 @@ export default function ApplicantList({
               filteredApplications.map(application => {
                 const candidate = candidates.find(c => c.id === application.candidateId);
                 const job = jobs.find(j => j.id === application.jobId);
+                const sla = overdueById.get(application.id);
                 
                 return (
-                  <tr key={application.id} className="hover:bg-gray-50">
+                  <tr key={application.id} className={selectedIds.has(application.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                    {selectable && (
+                      <td className="pl-6 py-4 w-4">
+                        <input
+                          type="checkbox"
+                          aria-label="Select application"
+                          checked={selectedIds.has(application.id)}
+                          onChange={() => toggleSelected(application.id)}
+                        />
+                      </td>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
                         {candidate ? `${candidate.firstName} ${candidate.lastName}` : 'Unknown Candidate'}
@@ -336,6 +445,13 @@ export default function ApplicantList({
                       <div className="text-xs text-gray-500">
                         {candidate?.email || 'No email'}
                       </div>
+                      {application.tags && application.tags.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {application.tags.map(tag => (
+                            <span key={tag} className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700 text-xs">{tag}</span>
+                          ))}
+                        </div>
+                      )}
                     </td>
                     {showJobInfo && (
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -354,6 +470,11 @@ export default function ApplicantList({
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeClasses(application.status)}`}>
                         {getStatusDisplayInfo(application.status).label}
                       </span>
+                      {sla && (
+                        <div className="text-xs text-red-600 mt-1" title={`Limit for ${sla.stepLabel}: ${sla.slaHours} hours`}>
+                          Overdue by {sla.hoursOverdue}h
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {application.status === 'screening_completed' ? (
@@ -394,7 +515,7 @@ export default function ApplicantList({
               })
             ) : (
               <tr>
-                <td colSpan={showJobInfo ? 6 : 5} className="px-6 py-8 text-center text-gray-500">
+                <td colSpan={(showJobInfo ? 6 : 5) + (selectable ? 1 : 0)} className="px-6 py-8 text-center text-gray-500">
                   <svg className="w-12 h-12 mx-auto text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
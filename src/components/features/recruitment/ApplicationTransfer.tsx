@@ -0,0 +1,99 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { ApplicationStatus, Job, JobApplication, Location } from '../../../lib/types';
+
+interface ApplicationTransferProps {
+  applicationId: string;
+  applicationStatus: ApplicationStatus;
+  job: Job;
+  // Called with the application after it moved to the new job
+  onTransferred: (application: JobApplication) => void;
+}
+
+const CLOSED_STATUSES: ApplicationStatus[] = ['hired', 'rejected', 'withdrawn'];
+
+// Shows the job's location and moves the application to an open job at another one
+export default function ApplicationTransfer({ applicationId, applicationStatus, job, onTransferred }: ApplicationTransferProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [targetJobId, setTargetJobId] = useState('');
+  const [transferring, setTransferring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/jobs').then(response => (response.ok ? response.json() : [])),
+      fetch('/api/locations').then(response => (response.ok ? response.json() : { locations: [] }))
+    ])
+      .then(([jobsData, locationsData]) => {
+        setJobs(jobsData);
+        setLocations(locationsData.locations || []);
+      })
+      .catch(err => console.error('Failed to load transfer options:', err));
+  }, []);
+
+  const locationName = (locationId?: string) => locations.find(location => location.id === locationId)?.name;
+  const targets = jobs.filter(other => other.status === 'active' && other.id !== job.id);
+
+  const handleTransfer = async () => {
+    const target = targets.find(other => other.id === targetJobId);
+    if (!target || !confirm(`Move this application to ${target.title}${target.locationId ? ` at ${locationName(target.locationId)}` : ''}? A booked screening will be cancelled.`)) {
+      return;
+    }
+
+    setTransferring(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/applications/${applicationId}/transfer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: targetJobId })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to transfer the application');
+      onTransferred(data.application);
+    } catch (err: any) {
+      setError(err.message || 'Failed to transfer the application');
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  if (locations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 text-sm">
+      <p className="text-gray-600">
+        <span className="font-medium">Location:</span> {locationName(job.locationId) || 'Not set'}
+      </p>
+      {!CLOSED_STATUSES.includes(applicationStatus) && targets.length > 0 && (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <select
+            value={targetJobId}
+            onChange={(e) => setTargetJobId(e.target.value)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+          >
+            <option value="">Transfer to another job...</option>
+            {targets.map(other => (
+              <option key={other.id} value={other.id}>
+                {other.title} ({locationName(other.locationId) || 'no location'})
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleTransfer}
+            disabled={!targetJobId || transferring}
+            className="px-3 py-1 bg-white border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {transferring ? 'Transferring...' : 'Transfer'}
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-red-600">{error}</p>}
+    </div>
+  );
+}
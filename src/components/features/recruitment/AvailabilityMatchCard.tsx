@@ -0,0 +1,105 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Candidate, Job } from '../../../lib/types';
+import {
+  AvailabilityMatch,
+  getCandidateAvailability,
+  getFitBadgeClasses,
+  matchCandidateToJobs
+} from '../../../lib/screening/availabilityMatch';
+
+interface AvailabilityMatchCardProps {
+  candidate: Candidate;
+  job: Job;
+}
+
+function MatchDetails({ match }: { match: AvailabilityMatch }) {
+  return (
+    <>
+      {match.mismatches.length > 0 ? (
+        <ul className="mt-1 space-y-1">
+          {match.mismatches.map(mismatch => (
+            <li key={mismatch} className="text-sm text-red-600">{mismatch}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-1 text-sm text-green-600">Available for everything this job needs</p>
+      )}
+      {match.unverified.length > 0 && (
+        <p className="mt-1 text-xs text-gray-500">Not asked during screening: {match.unverified.join(', ')}</p>
+      )}
+    </>
+  );
+}
+
+export default function AvailabilityMatchCard({ candidate, job }: AvailabilityMatchCardProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+
+  useEffect(() => {
+    const fetchJobs = async () => {
+      try {
+        const response = await fetch('/api/jobs');
+        if (response.ok) {
+          setJobs(await response.json());
+        }
+      } catch (error) {
+        console.error('Error fetching jobs for availability match:', error);
+      }
+    };
+
+    fetchJobs();
+  }, []);
+
+  const availability = getCandidateAvailability(candidate);
+  const matches = availability ? matchCandidateToJobs(availability, job, jobs) : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b">
+        <h2 className="text-lg font-semibold">Availability Match</h2>
+      </div>
+      <div className="p-6">
+        {!matches ? (
+          <p className="text-sm text-gray-500 italic">Available once the candidate completes a screening.</p>
+        ) : (
+          <>
+            <div className="mb-4">
+              <div className="flex justify-between items-center">
+                <span className="text-gray-700 font-medium">{job.title}</span>
+                <span className={getFitBadgeClasses(matches.applied.fitPercentage)}>
+                  {matches.applied.fitPercentage}% fit
+                </span>
+              </div>
+              <MatchDetails match={matches.applied} />
+            </div>
+
+            {matches.alternatives.length > 0 && (
+              <div className="border-t pt-4">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Other open positions</h3>
+                <ul className="space-y-3">
+                  {matches.alternatives.map(match => (
+                    <li key={match.jobId}>
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-gray-900">
+                          {match.jobTitle}
+                          {match.fitPercentage > matches.applied.fitPercentage && (
+                            <span className="ml-2 text-xs font-medium text-blue-600">Better fit</span>
+                          )}
+                        </span>
+                        <span className={getFitBadgeClasses(match.fitPercentage)}>
+                          {match.fitPercentage}%
+                        </span>
+                      </div>
+                      {match.mismatches.length > 0 && <MatchDetails match={match} />}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from 'react';
+import { ApplicationStatus, Candidate, Job, JobApplication } from '../../../lib/types';
+import { getStatusDisplayInfo } from '../../../lib/utils/statusManager';
+import { APPLICATION_STATUSES } from '../../../lib/workflow/workflowUtils';
+import type { BulkActionResult } from '../../../lib/services/bulkActionService';
+import ExportData from './ExportData';
+
+interface BulkActionBarProps {
+  selected: JobApplication[];
+  candidates: Candidate[];
+  jobs: Job[];
+  // Called with the applications the action changed, as the server returned them
+  onApplicationsUpdated: (applications: JobApplication[]) => void;
+  onClearSelection: () => void;
+}
+
+type Mode = 'status' | 'reject' | 'tag' | null;
+
+interface Outcome {
+  message: string;
+  failures: { name: string; error: string }[];
+}
+
+// Saved as the rejection note; the candidate gets the rejection message from the notification templates
+const REJECTION_REASONS = [
+  'The position has been filled',
+  "Availability doesn't match the shifts we need",
+  "Experience doesn't match the role",
+  "Didn't complete the screening"
+];
+
+const buttonClasses = 'px-3 py-1.5 text-sm rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50';
+
+// Actions on the applicants selected in ApplicantList, sent to /api/applications/bulk
+export default function BulkActionBar({ selected, candidates, jobs, onApplicationsUpdated, onClearSelection }: BulkActionBarProps) {
+  const [mode, setMode] = useState<Mode>(null);
+  const [status, setStatus] = useState<ApplicationStatus>('under_review');
+  const [notes, setNotes] = useState('');
+  const [tagText, setTagText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const candidateName = (applicationId: string) => {
+    const application = selected.find(app => app.id === applicationId);
+    const candidate = candidates.find(c => c.id === application?.candidateId);
+    return candidate ? `${candidate.firstName} ${candidate.lastName}` : applicationId;
+  };
+
+  const runAction = async (action: Record<string, unknown>, done: string) => {
+    setBusy(true);
+    setError(null);
+    setOutcome(null);
+    try {
+      const response = await fetch('/api/applications/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ applicationIds: selected.map(app => app.id), action })
+      });
+      const data: BulkActionResult & { error?: string } = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update applications');
+
+      onApplicationsUpdated(data.results.flatMap(result => (result.success && result.application ? [result.application] : [])));
+      setOutcome({
+        message: `${done} ${data.succeeded} of ${data.results.length} applications.`,
+        failures: data.results
+          .filter(result => !result.success)
+          .map(result => ({ name: candidateName(result.applicationId), error: result.error || 'Failed' }))
+      });
+      setMode(null);
+      setNotes('');
+      setTagText('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to update applications');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const tagsFromText = () => tagText.split(',').map(tag => tag.trim()).filter(Boolean);
+
+  const selectedCandidates = candidates.filter(candidate => selected.some(app => app.candidateId === candidate.id));
+
+  return (
+    <div className="p-4 bg-blue-50 border-b space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-blue-900 mr-2">{selected.length} selected</span>
+        <button type="button" className={buttonClasses} disabled={busy} onClick={() => setMode(mode === 'status' ? null : 'status')}>
+          Change status
+        </button>
+        <button type="button" className={buttonClasses} disabled={busy} onClick={() => setMode(mode === 'reject' ? null : 'reject')}>
+          Reject
+        </button>
+        <button type="button" className={buttonClasses} disabled={busy} onClick={() => setMode(mode === 'tag' ? null : 'tag')}>
+          Tag
+        </button>
+        <button
+          type="button"
+          className={buttonClasses}
+          disabled={busy}
+          onClick={() => {
+            if (confirm(`Send the screening invitation again to ${selected.length} candidate${selected.length === 1 ? '' : 's'}?`)) {
+              runAction({ type: 'rescreen' }, 'Invited');
+            }
+          }}
+        >
+          Re-send screening invite
+        </button>
+        <ExportData
+          candidates={selectedCandidates}
+          applications={selected}
+          jobs={jobs}
+          buttonText="Export"
+          variant="outline"
+        />
+        <button type="button" onClick={onClearSelection} className="ml-auto text-sm text-gray-600 hover:text-gray-900">
+          Clear selection
+        </button>
+      </div>
+
+      {mode === 'status' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ApplicationStatus)}
+            className="border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+          >
+            {APPLICATION_STATUSES.map(option => (
+              <option key={option} value={option}>{getStatusDisplayInfo(option).label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Note (required for some moves)"
+            className="border border-gray-300 rounded-md px-2 py-1.5 text-sm flex-1 min-w-[16rem]"
+          />
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => runAction({ type: 'status', status, notes: notes.trim() || undefined }, 'Moved')}
+            className="px-3 py-1.5 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy ? 'Applying...' : 'Apply'}
+          </button>
+        </div>
+      )}
+
+      {mode === 'reject' && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value=""
+              onChange={(e) => e.target.value && setNotes(e.target.value)}
+              className="border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+            >
+              <option value="">Pick a reason...</option>
+              {REJECTION_REASONS.map(reason => (
+                <option key={reason} value={reason}>{reason}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Reason for rejecting (kept on the timeline)"
+              className="border border-gray-300 rounded-md px-2 py-1.5 text-sm flex-1 min-w-[16rem]"
+            />
+            <button
+              type="button"
+              disabled={busy || !notes.trim()}
+              onClick={() => {
+                if (confirm(`Reject ${selected.length} application${selected.length === 1 ? '' : 's'}? Each candidate gets the rejection message.`)) {
+                  runAction({ type: 'reject', notes: notes.trim() }, 'Rejected');
+                }
+              }}
+              className="px-3 py-1.5 text-sm rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+            >
+              {busy ? 'Rejecting...' : 'Reject'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">Candidates get the rejection message from the notification templates. Booked screenings and interviews are cancelled.</p>
+        </div>
+      )}
+
+      {mode === 'tag' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={tagText}
+            onChange={(e) => setTagText(e.target.value)}
+            placeholder="Tags, separated by commas"
+            className="border border-gray-300 rounded-md px-2 py-1.5 text-sm flex-1 min-w-[16rem]"
+          />
+          <button
+            type="button"
+            disabled={busy || tagsFromText().length === 0}
+            onClick={() => runAction({ type: 'tag', add: tagsFromText() }, 'Tagged')}
+            className="px-3 py-1.5 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add tags
+          </button>
+          <button
+            type="button"
+            disabled={busy || tagsFromText().length === 0}
+            onClick={() => runAction({ type: 'tag', remove: tagsFromText() }, 'Untagged')}
+            className={buttonClasses}
+          >
+            Remove tags
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {outcome && (
+        <div className="text-sm">
+          <p className="text-gray-800">{outcome.message}</p>
+          {outcome.failures.length > 0 && (
+            <ul className="mt-1 list-disc list-inside text-red-600">
+              {outcome.failures.map((failure, index) => (
+                <li key={`${failure.name}-${index}`}>{failure.name}: {failure.error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,24 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import type { Candidate } from '../../../lib/types';
 import type { JobApplication, ApplicationTimelineEntry, ApplicationStatus } from '../../../lib/types';
 import type { Job } from '../../../lib/types';
 import type { ScreeningSummary as LegacyScreeningSummary } from '../../../lib/types/candidates';
-import { getStatusDisplayInfo, getStatusBadgeClasses, getNextPossibleStatuses } from '../../../lib/utils/statusManager';
+import { getStatusDisplayInfo, getStatusBadgeClasses } from '../../../lib/utils/statusManager';
 import RecruiterNotes from './RecruiterNotes';
 import ScreeningSummary from './ScreeningSummary';
+import AvailabilityMatchCard from './AvailabilityMatchCard';
+import InterviewPanel from './InterviewPanel';
+import ApplicationTransfer from './ApplicationTransfer';
+
+// A status change the signed-in user may make, from GET /api/applications/[id]/status
+interface AvailableTransition {
+  to: ApplicationStatus;
+  label: string;
+  requiresNotes: boolean;
+}
 
 interface CandidateDetailsProps {
   candidate: Candidate;
@@ -20,6 +30,17 @@ interface CandidateDetailsProps {
 
 export default function CandidateDetails({ candidate, application, job, onRefreshScreening, refreshing = false }: CandidateDetailsProps) {
   const [currentStatus, setCurrentStatus] = useState(application.status);
+  const [placingCall, setPlacingCall] = useState(false);
+  const [callNotice, setCallNotice] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [transitions, setTransitions] = useState<AvailableTransition[]>([]);
+
+  // Only offer the status changes the job's workflow allows the signed-in user to make
+  useEffect(() => {
+    fetch(`/api/applications/${application.id}/status`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setTransitions(data?.transitions || []))
+      .catch(error => console.error('Failed to load status changes:', error));
+  }, [application.id, currentStatus]);
   
   // Convert CandidateScreeningSummary to legacy ScreeningSummary format
   const convertScreeningSummary = (summary: typeof candidate.screeningSummary): LegacyScreeningSummary | undefined => {
@@ -68,7 +89,14 @@ export default function CandidateDetails({ candidate, application, job, onRefres
   };
 
   // Handle status update
-  const handleStatusUpdate = async (newStatus: string) => {
+  const handleStatusUpdate = async (transition: AvailableTransition) => {
+    const newStatus = transition.to;
+    let notes: string | undefined;
+    if (transition.requiresNotes) {
+      notes = prompt(`A note is required to move this application to ${transition.label}:`)?.trim();
+      if (!notes) return;
+    }
+
     try {
       // 1. Update application status
       const appResponse = await fetch(`/api/applications/${application.id}/status`, {
@@ -76,12 +104,15 @@ export default function CandidateDetails({ candidate, application, job, onRefres
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, notes }),
       });
 
+      const appData = await appResponse.json().catch(() => ({}));
       if (!appResponse.ok) {
-        throw new Error('Failed to update application status');
+        throw new Error(appData.error || 'Failed to update application status');
       }
+      // The workflow may have moved it on again automatically
+      const updatedStatus: ApplicationStatus = appData.data?.status || newStatus;
 
       // 2. Update candidate status
       const candResponse = await fetch(`/api/candidates/${candidate.id}`, {
@@ -89,7 +120,7 @@ export default function CandidateDetails({ candidate, application, job, onRefres
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: updatedStatus }),
       });
 
       if (!candResponse.ok) {
@@ -97,14 +128,46 @@ export default function CandidateDetails({ candidate, application, job, onRefres
       }
 
       // 3. Update local state
-      setCurrentStatus(newStatus as JobApplication['status']);
+      setCurrentStatus(updatedStatus);
 
       // 4. Show success message
-      alert(`Status updated to ${newStatus.replace(/_/g, ' ')}`);
+      alert(`Status updated to ${updatedStatus.replace(/_/g, ' ')}`);
 
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating status:', error);
-      alert('Failed to update status. Please try again.');
+      alert(error.message || 'Failed to update status. Please try again.');
+    }
+  };
+
+  // Screen the candidate by phone right away instead of waiting for them to open the browser screening
+  const handleCallCandidate = async () => {
+    setPlacingCall(true);
+    setCallNotice(null);
+
+    try {
+      const response = await fetch('/api/screening/outbound', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ applicationId: application.id }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to place the call');
+      }
+
+      setCurrentStatus(currentStatus === 'submitted' ? 'screening_scheduled' : currentStatus);
+      setCallNotice({
+        type: 'success',
+        message: `Calling ${data.screening.phoneNumber}. Results appear here once the call ends; use Fetch Latest Results to check.`
+      });
+    } catch (error) {
+      console.error('Error placing phone screening call:', error);
+      setCallNotice({ type: 'error', message: error instanceof Error ? error.message : 'Failed to place the call' });
+    } finally {
+      setPlacingCall(false);
     }
   };
 
@@ -142,6 +205,19 @@ export default function CandidateDetails({ candidate, application, job, onRefres
           </div>
           
           <div className="flex space-x-3">
+            {!candidate.screeningCompleted && (
+              <button
+                onClick={handleCallCandidate}
+                disabled={placingCall || !candidate.phone}
+                title={candidate.phone ? `Place an AI screening call to ${candidate.phone}` : 'No phone number on file'}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" />
+                </svg>
+                {placingCall ? 'Calling...' : 'Call Candidate Now'}
+              </button>
+            )}
             <button className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500">
               <svg className="mr-2 h-4 w-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
@@ -158,6 +234,28 @@ export default function CandidateDetails({ candidate, application, job, onRefres
         </div>
       </div>
       
+      {callNotice && (
+        <div className={`mb-6 rounded-lg p-4 border ${
+          callNotice.type === 'success' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'
+        }`}>
+          <p className="text-sm">{callNotice.message}</p>
+        </div>
+      )}
+
+      {/* Flags raised automatically, e.g. by knockout questions */}
+      {application.flags && application.flags.length > 0 && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-yellow-800 mb-2">Flagged for review</h3>
+          <ul className="list-disc list-inside space-y-1">
+            {application.flags.map((flag, index) => (
+              <li key={`${flag.createdAt}-${index}`} className="text-sm text-yellow-700">
+                {flag.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Main content - 2 column layout */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Left column - main content */}
@@ -178,6 +276,15 @@ export default function CandidateDetails({ candidate, application, job, onRefres
                       {job.hourlyRate || 'Competitive salary'}
                     </span>
                   </div>
+                  <ApplicationTransfer
+                    applicationId={application.id}
+                    applicationStatus={currentStatus}
+                    job={job}
+                    onTransferred={(moved) => {
+                      // The page is keyed by job, so reload it for the new one
+                      window.location.href = `/recruiter/candidate/${candidate.id}?jobId=${moved.jobId}&applicationId=${moved.id}`;
+                    }}
+                  />
                 </div>
               </div>
             
@@ -285,6 +392,14 @@ export default function CandidateDetails({ candidate, application, job, onRefres
             </div>
           </div>
           
+          {/* Interviews booked after screening, with invites and scorecards */}
+          <InterviewPanel
+            applicationId={application.id}
+            jobId={application.jobId}
+            applicationStatus={currentStatus}
+            onStatusChange={setCurrentStatus}
+          />
+
           {/* Recruiter notes section with edit capability */}
           <div className="bg-white rounded-lg shadow-md overflow-hidden">
             <div className="px-6 py-4 border-b">
@@ -318,8 +433,8 @@ export default function CandidateDetails({ candidate, application, job, onRefres
               <div className="my-4">
                 <h3 className="text-sm font-medium text-gray-700 mb-2">Update Status:</h3>
                 <div className="flex flex-col space-y-2">
-                  {getNextPossibleStatuses(currentStatus).map((status) => {
-                    const statusInfo = getStatusDisplayInfo(status);
+                  {transitions.map((transition) => {
+                    const status = transition.to;
                     const buttonClass = status === 'hired' ? 'bg-green-600 hover:bg-green-700 focus:ring-green-500' :
                                       status === 'rejected' ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500' :
                                       status === 'withdrawn' ? 'bg-gray-600 hover:bg-gray-700 focus:ring-gray-500' :
@@ -329,10 +444,10 @@ export default function CandidateDetails({ candidate, application, job, onRefres
                     return (
                       <button 
                         key={status}
-                        onClick={() => handleStatusUpdate(status)}
+                        onClick={() => handleStatusUpdate(transition)}
                         className={`w-full py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white ${buttonClass} focus:outline-none focus:ring-2 focus:ring-offset-2`}
                       >
-                        {statusInfo.label}
+                        {transition.label}
                       </button>
                     );
                   })}
@@ -341,6 +456,46 @@ export default function CandidateDetails({ candidate, application, job, onRefres
             </div>
           </div>
           
+          {/* Availability against this job and the other open positions */}
+          <AvailabilityMatchCard candidate={candidate} job={job} />
+
+          {/* Emails and texts sent to the candidate */}
+          {application.notificationDeliveries && application.notificationDeliveries.length > 0 && (
+            <div className="bg-white rounded-lg shadow-md overflow-hidden">
+              <div className="px-6 py-4 border-b flex justify-between items-center">
+                <h2 className="text-lg font-semibold">Candidate Messages</h2>
+                {candidate.smsOptOutAt && (
+                  <span className="text-xs text-gray-500" title={`Replied STOP on ${new Date(candidate.smsOptOutAt).toLocaleString()}`}>
+                    Texts off
+                  </span>
+                )}
+              </div>
+              <ul className="divide-y divide-gray-200">
+                {[...application.notificationDeliveries].reverse().map(delivery => (
+                  <li key={delivery.notificationId} className="px-6 py-3 text-sm">
+                    <div className="flex justify-between items-start gap-2">
+                      <span className="font-medium text-gray-900">{delivery.subject}</span>
+                      <span className={`shrink-0 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
+                        delivery.status === 'sent' ? 'bg-green-100 text-green-800' :
+                        delivery.status === 'failed' ? 'bg-red-100 text-red-800' :
+                        'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {delivery.status}
+                      </span>
+                    </div>
+                    <p className="mt-0.5 text-gray-500">
+                      {delivery.channel === 'sms' ? 'Text' : 'Email'} to {delivery.to || 'unknown recipient'} &middot; {new Date(delivery.sentAt || delivery.queuedAt).toLocaleString()}
+                      {delivery.attempts > 1 && ` \u00b7 ${delivery.attempts} attempts`}
+                    </p>
+                    {delivery.status !== 'sent' && delivery.lastError && (
+                      <p className="mt-0.5 text-red-600">{delivery.lastError}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Application Timeline */}
           <div className="bg-white rounded-lg shadow-md overflow-hidden">
             <div className="px-6 py-4 border-b">
@@ -388,11 +543,12 @@ export default function CandidateDetails({ candidate, application, job, onRefres
                               </div>
                               <p className="mt-0.5 text-sm text-gray-500">
                                 {event.timestamp ? new Date(event.timestamp).toLocaleString() : 'No timestamp'}
+                                {event.performedByUser && <span> &middot; {event.performedByUser.name}</span>}
                               </p>
                             </div>
-                            {event.note && (
+                            {(event.note || event.notes) && (
                               <div className="mt-2 text-sm text-gray-700">
-                                <p>{event.note}</p>
+                                <p>{event.note || event.notes}</p>
                               </div>
                             )}
                           </div>
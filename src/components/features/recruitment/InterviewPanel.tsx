@@ -0,0 +1,464 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ApplicationStatus, Interview, InterviewFormat, InterviewOutcome, InterviewRecommendation, ScreeningRole } from '../../../lib/types';
+import { WorkflowConfig, isValidStatusTransition } from '../../../lib/workflow/workflowUtils';
+import { INTERVIEW_FORMAT_LABELS } from '../../../lib/interviews/icalendar';
+import {
+  DEFAULT_SCORECARD_CRITERIA,
+  RECOMMENDATION_LABELS,
+  SCORECARD_RECOMMENDATIONS,
+  describeScorecards
+} from '../../../lib/interviews/scorecards';
+
+interface InterviewPanelProps {
+  applicationId: string;
+  jobId: string; // Picks the workflow the server moves the application through
+  applicationStatus: ApplicationStatus;
+  // Called with the status the server moved the application to
+  onStatusChange: (status: ApplicationStatus) => void;
+}
+
+const STATUS_STYLES: Record<Interview['status'], string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+  no_show: 'bg-red-100 text-red-800'
+};
+
+const OUTCOME_OPTIONS: { value: InterviewOutcome; label: string }[] = [
+  { value: 'advance', label: 'Advance' },
+  { value: 'hold', label: 'Hold' },
+  { value: 'reject', label: 'Do not advance' }
+];
+
+const CLOSED_STATUSES: ApplicationStatus[] = ['hired', 'rejected', 'withdrawn'];
+
+const EMPTY_FORM = {
+  interviewerName: '',
+  interviewerEmail: '',
+  format: 'in_person' as InterviewFormat,
+  location: '',
+  startTime: '',
+  durationMinutes: 45,
+  notes: ''
+};
+
+// datetime-local inputs work in the browser's local time, without a zone suffix
+function toDateTimeLocal(iso: string): string {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function ScorecardForm({ interview, onSubmit }: { interview: Interview; onSubmit: (body: any) => Promise<boolean> }) {
+  const [interviewer, setInterviewer] = useState(interview.interviewer.name);
+  const [scores, setScores] = useState<Record<string, number>>(
+    Object.fromEntries(DEFAULT_SCORECARD_CRITERIA.map(criterion => [criterion, 3]))
+  );
+  const [recommendation, setRecommendation] = useState<InterviewRecommendation>('yes');
+  const [comments, setComments] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    await onSubmit({
+      interviewer,
+      ratings: Object.entries(scores).map(([criterion, score]) => ({ criterion, score })),
+      recommendation,
+      comments
+    });
+    setSubmitting(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 bg-gray-50 rounded-md p-3 space-y-3">
+      <input
+        type="text"
+        value={interviewer}
+        onChange={(e) => setInterviewer(e.target.value)}
+        placeholder="Interviewer"
+        required
+        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+      />
+      <div className="grid grid-cols-2 gap-2">
+        {DEFAULT_SCORECARD_CRITERIA.map(criterion => (
+          <label key={criterion} className="flex items-center justify-between text-sm text-gray-700">
+            {criterion}
+            <select
+              value={scores[criterion]}
+              onChange={(e) => setScores({ ...scores, [criterion]: Number(e.target.value) })}
+              className="ml-2 border border-gray-300 rounded-md px-2 py-1 text-sm"
+            >
+              {[1, 2, 3, 4, 5].map(score => (
+                <option key={score} value={score}>{score}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      <select
+        value={recommendation}
+        onChange={(e) => setRecommendation(e.target.value as InterviewRecommendation)}
+        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+      >
+        {SCORECARD_RECOMMENDATIONS.map(option => (
+          <option key={option} value={option}>{RECOMMENDATION_LABELS[option]}</option>
+        ))}
+      </select>
+      <textarea
+        value={comments}
+        onChange={(e) => setComments(e.target.value)}
+        placeholder="Comments"
+        rows={2}
+        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+      />
+      <button
+        type="submit"
+        disabled={submitting}
+        className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+      >
+        {submitting ? 'Saving...' : 'Submit Scorecard'}
+      </button>
+    </form>
+  );
+}
+
+export default function InterviewPanel({ applicationId, jobId, applicationStatus, onStatusChange }: InterviewPanelProps) {
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [workflow, setWorkflow] = useState<WorkflowConfig | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [rescheduleTime, setRescheduleTime] = useState('');
+  const [scorecardId, setScorecardId] = useState<string | null>(null);
+  const [outcomes, setOutcomes] = useState<Record<string, InterviewOutcome>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInterviews = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/interviews?applicationId=${encodeURIComponent(applicationId)}`);
+      if (!response.ok) throw new Error('Failed to fetch interviews');
+      const data = await response.json();
+      setInterviews(data.interviews || []);
+    } catch (err) {
+      console.error('Failed to load interviews:', err);
+      setError('Failed to load interviews');
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    loadInterviews();
+  }, [loadInterviews]);
+
+  useEffect(() => {
+    const loadWorkflow = async () => {
+      try {
+        const response = await fetch('/api/workflows');
+        if (!response.ok) throw new Error('Failed to fetch workflows');
+        const data: { workflows: Record<ScreeningRole, WorkflowConfig>; jobRoles: Record<string, ScreeningRole> } = await response.json();
+        setWorkflow(data.workflows[data.jobRoles[jobId] || 'general']);
+      } catch (err) {
+        console.error('Failed to load workflow:', err);
+      }
+    };
+    loadWorkflow();
+  }, [jobId]);
+
+  // Runs a request and reloads the list; returns the updated interview, or null on failure
+  const send = async (url: string, method: string, body: any): Promise<Interview | null> => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      await loadInterviews();
+      return data.interview;
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Mirrors interviewService, which moves the application as a recruiter when the job's workflow allows it
+  const moveApplicationTo = (status: ApplicationStatus) => {
+    if (workflow && isValidStatusTransition(applicationStatus, status, 'recruiter', workflow)) {
+      onStatusChange(status);
+    }
+  };
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const interview = await send('/api/interviews', 'POST', {
+      applicationId,
+      interviewer: { name: form.interviewerName, email: form.interviewerEmail },
+      format: form.format,
+      location: form.location,
+      startTime: new Date(form.startTime).toISOString(),
+      durationMinutes: form.durationMinutes,
+      notes: form.notes
+    });
+    if (interview) {
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      moveApplicationTo('interview_scheduled');
+    }
+  };
+
+  const handleReschedule = async (interview: Interview) => {
+    const updated = await send(`/api/interviews/${interview.id}`, 'PATCH', {
+      startTime: new Date(rescheduleTime).toISOString()
+    });
+    if (updated) setReschedulingId(null);
+  };
+
+  const handleCancel = async (interview: Interview) => {
+    const reason = prompt('Reason for cancelling (optional):');
+    if (reason === null) return;
+    const updated = await send(`/api/interviews/${interview.id}`, 'PATCH', { action: 'cancel', reason });
+    const othersScheduled = interviews.some(other => other.id !== interview.id && other.status === 'scheduled');
+    if (updated && applicationStatus === 'interview_scheduled' && !othersScheduled) {
+      onStatusChange('under_review');
+    }
+  };
+
+  const handleNoShow = async (interview: Interview) => {
+    if (!confirm('Mark this interview as a no-show?')) return;
+    await send(`/api/interviews/${interview.id}`, 'PATCH', { action: 'no_show' });
+  };
+
+  const handleComplete = async (interview: Interview) => {
+    const updated = await send(`/api/interviews/${interview.id}`, 'PATCH', {
+      action: 'complete',
+      outcome: outcomes[interview.id] || 'advance'
+    });
+    if (updated) moveApplicationTo('interview_completed');
+  };
+
+  const handleScorecard = async (interview: Interview, body: any): Promise<boolean> => {
+    const updated = await send(`/api/interviews/${interview.id}/scorecards`, 'POST', body);
+    if (updated) setScorecardId(null);
+    return !!updated;
+  };
+
+  const canSchedule = !CLOSED_STATUSES.includes(applicationStatus);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-6 py-4 border-b flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Interviews</h2>
+        {canSchedule && (
+          <button
+            type="button"
+            onClick={() => setShowForm(!showForm)}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-blue-600 bg-blue-50 hover:bg-blue-100"
+          >
+            {showForm ? 'Close' : 'Schedule Interview'}
+          </button>
+        )}
+      </div>
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {showForm && (
+          <form onSubmit={handleSchedule} className="grid grid-cols-1 md:grid-cols-2 gap-3 bg-gray-50 rounded-lg p-4">
+            <input
+              type="text"
+              value={form.interviewerName}
+              onChange={(e) => setForm({ ...form, interviewerName: e.target.value })}
+              placeholder="Interviewer name"
+              required
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <input
+              type="email"
+              value={form.interviewerEmail}
+              onChange={(e) => setForm({ ...form, interviewerEmail: e.target.value })}
+              placeholder="Interviewer email (optional)"
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <select
+              value={form.format}
+              onChange={(e) => setForm({ ...form, format: e.target.value as InterviewFormat })}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {(Object.keys(INTERVIEW_FORMAT_LABELS) as InterviewFormat[]).map(format => (
+                <option key={format} value={format}>{INTERVIEW_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={form.location}
+              onChange={(e) => setForm({ ...form, location: e.target.value })}
+              placeholder={form.format === 'in_person' ? 'Address' : form.format === 'video' ? 'Meeting link' : 'Phone number'}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <input
+              type="datetime-local"
+              value={form.startTime}
+              onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+              required
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <select
+              value={form.durationMinutes}
+              onChange={(e) => setForm({ ...form, durationMinutes: Number(e.target.value) })}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {[30, 45, 60, 90].map(minutes => (
+                <option key={minutes} value={minutes}>{minutes} minutes</option>
+              ))}
+            </select>
+            <textarea
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              placeholder="Notes for the candidate (optional)"
+              rows={2}
+              className="md:col-span-2 border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <div className="md:col-span-2">
+              <button
+                type="submit"
+                disabled={busy}
+                className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {busy ? 'Booking...' : 'Book and Send Invite'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {interviews.length === 0 ? (
+          <p className="text-gray-500 italic">No interviews scheduled</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {interviews.map(interview => (
+              <li key={interview.id} className="py-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {new Date(interview.startTime).toLocaleString()} · {INTERVIEW_FORMAT_LABELS[interview.format]}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      With {interview.interviewer.name}{interview.location ? ` · ${interview.location}` : ''}
+                    </p>
+                    {interview.cancellationReason && (
+                      <p className="text-sm text-gray-500">Cancelled: {interview.cancellationReason}</p>
+                    )}
+                    {interview.scorecards.length > 0 && (
+                      <p className="text-sm text-gray-700 mt-1">{describeScorecards(interview.scorecards)}</p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[interview.status]}`}>
+                    {interview.status.replace(/_/g, ' ')}
+                    {interview.outcome ? ` · ${OUTCOME_OPTIONS.find(option => option.value === interview.outcome)?.label}` : ''}
+                  </span>
+                </div>
+
+                <div className="mt-2 flex flex-wrap items-center gap-3 text-sm">
+                  <a href={`/api/interviews/${interview.id}/invite`} className="text-blue-600 hover:text-blue-800">
+                    Download invite (.ics)
+                  </a>
+                  {interview.status !== 'cancelled' && (
+                    <button
+                      type="button"
+                      onClick={() => setScorecardId(scorecardId === interview.id ? null : interview.id)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Add scorecard
+                    </button>
+                  )}
+                  {interview.status === 'scheduled' && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setReschedulingId(reschedulingId === interview.id ? null : interview.id);
+                          setRescheduleTime(toDateTimeLocal(interview.startTime));
+                        }}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Reschedule
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleNoShow(interview)}
+                        disabled={busy}
+                        className="text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                      >
+                        No-show
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleCancel(interview)}
+                        disabled={busy}
+                        className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <span className="inline-flex items-center gap-2">
+                        <select
+                          value={outcomes[interview.id] || 'advance'}
+                          onChange={(e) => setOutcomes({ ...outcomes, [interview.id]: e.target.value as InterviewOutcome })}
+                          className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                        >
+                          {OUTCOME_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => handleComplete(interview)}
+                          disabled={busy}
+                          className="text-green-600 hover:text-green-800 disabled:opacity-50"
+                        >
+                          Mark completed
+                        </button>
+                      </span>
+                    </>
+                  )}
+                </div>
+
+                {reschedulingId === interview.id && (
+                  <div className="mt-3 flex items-center gap-2">
+                    <input
+                      type="datetime-local"
+                      value={rescheduleTime}
+                      onChange={(e) => setRescheduleTime(e.target.value)}
+                      className="border border-gray-300 rounded-md px-3 py-1.5 text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleReschedule(interview)}
+                      disabled={busy || !rescheduleTime}
+                      className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Move and Send Update
+                    </button>
+                  </div>
+                )}
+
+                {scorecardId === interview.id && (
+                  <ScorecardForm interview={interview} onSubmit={(body) => handleScorecard(interview, body)} />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import Link from 'next/link';
 import type { Job, JobApplication, Candidate } from '../../../lib/types';
+import { findBetterFits, getCandidateAvailability, getFitBadgeClasses, matchCandidateToJobs } from '../../../lib/screening/availabilityMatch';
 
 interface JobApplicantsOverviewProps {
   jobs: Job[];
@@ -143,6 +144,9 @@ export default function JobApplicantsOverview({ jobs, applications, candidates }
                             <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                               Screening
                             </th>
+                            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Availability Fit
+                            </th>
                             <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                               Actions
                             </th>
@@ -151,6 +155,10 @@ export default function JobApplicantsOverview({ jobs, applications, candidates }
                         <tbody className="bg-white divide-y divide-gray-200">
                           {applicationsByJob[job.id]?.map(application => {
                             const candidate = candidates.find(c => c.id === application.candidateId);
+                            const appliedJob = jobs.find(j => j.id === job.id);
+                            const availability = candidate ? getCandidateAvailability(candidate) : null;
+                            const matches = availability && appliedJob ? matchCandidateToJobs(availability, appliedJob, jobs) : null;
+                            const betterFit = matches ? findBetterFits(matches)[0] : undefined;
                             
                             return (
                               <tr key={application.id} className="hover:bg-gray-50">
@@ -202,6 +210,25 @@ export default function JobApplicantsOverview({ jobs, applications, candidates }
                                     <span className="text-gray-500">Not started</span>
                                   )}
                                 </td>
+                                <td className="px-4 py-4 text-sm">
+                                  {matches ? (
+                                    <div>
+                                      <span
+                                        className={getFitBadgeClasses(matches.applied.fitPercentage)}
+                                        title={matches.applied.mismatches.join(', ') || 'No availability mismatches'}
+                                      >
+                                        {matches.applied.fitPercentage}%
+                                      </span>
+                                      {betterFit && (
+                                        <div className="mt-1 text-xs text-blue-600">
+                                          Better fit: {betterFit.jobTitle} ({betterFit.fitPercentage}%)
+                                        </div>
+                                      )}
+                                    </div>
+                                  ) : (
+                                    <span className="text-gray-400">—</span>
+                                  )}
+                                </td>
                                 <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium">
                                   <Link 
                                     href={`/recruiter/candidate/${application.candidateId}?jobId=${job.id}&applicationId=${application.id}`}
@@ -214,7 +241,7 @@ export default function JobApplicantsOverview({ jobs, applications, candidates }
                             );
                           }) || (
                             <tr>
-                              <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                              <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
                                 No applications for this position
                               </td>
                             </tr>
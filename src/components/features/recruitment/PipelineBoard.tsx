@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { ApplicationStatus, Candidate, Job, JobApplication, ScreeningRole } from '../../../lib/types';
+import { getStatusDisplayInfo, getStatusBadgeClasses } from '../../../lib/utils/statusManager';
+import {
+  APPLICATION_STATUSES,
+  WorkflowActor,
+  WorkflowConfig,
+  findStatusTransition,
+  isValidStatusTransition,
+  requiresNotesForTransition
+} from '../../../lib/workflow/workflowUtils';
+
+interface PipelineBoardProps {
+  applications: JobApplication[];
+  candidates: Candidate[];
+  jobs: Job[];
+  workflows: Record<ScreeningRole, WorkflowConfig>;
+  jobRoles: Record<string, ScreeningRole>; // Workflow role per job id, from /api/workflows
+  userRole: WorkflowActor;
+  // Called with the application as the status API returned it after a move
+  onApplicationMoved: (application: JobApplication) => void;
+}
+
+type Notice = { type: 'success' | 'error'; message: string };
+
+const statusLabel = (status: ApplicationStatus) => getStatusDisplayInfo(status).label;
+
+// Same wording as the status API, so a refused drop reads the same whichever side catches it
+function refusalMessage(from: ApplicationStatus, to: ApplicationStatus, workflow: WorkflowConfig): string {
+  const transition = findStatusTransition(from, to, workflow);
+  if (!transition) {
+    return `Application can't be moved from ${statusLabel(from)} to ${statusLabel(to)}`;
+  }
+  const staff = transition.allowedBy.filter(role => role === 'recruiter' || role === 'admin');
+  return staff.length > 0
+    ? `Only ${staff.join(' or ')} users can move a ${statusLabel(from)} application to ${statusLabel(to)}`
+    : `${statusLabel(from)} applications move to ${statusLabel(to)} automatically`;
+}
+
+// One column per status; dragging a card to another column changes the status through the workflow
+export default function PipelineBoard({
+  applications,
+  candidates,
+  jobs,
+  workflows,
+  jobRoles,
+  userRole,
+  onApplicationMoved
+}: PipelineBoardProps) {
+  const [jobFilter, setJobFilter] = useState('all');
+  const [departmentFilter, setDepartmentFilter] = useState('all');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+  const [rejectedStatus, setRejectedStatus] = useState<ApplicationStatus | null>(null);
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  const departments = useMemo(
+    () => Array.from(new Set(jobs.map(job => job.department).filter(Boolean))).sort(),
+    [jobs]
+  );
+  const jobOptions = departmentFilter === 'all' ? jobs : jobs.filter(job => job.department === departmentFilter);
+
+  const columns = useMemo(() => {
+    const jobsById = new Map(jobs.map(job => [job.id, job]));
+    const visible = applications.filter(application => {
+      const job = jobsById.get(application.jobId);
+      return (jobFilter === 'all' || application.jobId === jobFilter) &&
+        (departmentFilter === 'all' || job?.department === departmentFilter);
+    });
+    return APPLICATION_STATUSES.map(status => ({
+      status,
+      applications: visible.filter(application => application.status === status)
+    }));
+  }, [applications, jobs, jobFilter, departmentFilter]);
+
+  const workflowFor = (application: JobApplication) => workflows[jobRoles[application.jobId] || 'general'];
+  const dragging = draggingId ? applications.find(application => application.id === draggingId) : undefined;
+  const canDropOn = (status: ApplicationStatus) =>
+    !!dragging && isValidStatusTransition(dragging.status, status, userRole, workflowFor(dragging));
+
+  const candidateName = (application: JobApplication) => {
+    const candidate = candidates.find(c => c.id === application.candidateId);
+    return candidate ? `${candidate.firstName} ${candidate.lastName}` : 'Unknown Candidate';
+  };
+
+  // Flashes the column the card was dropped on and says why it didn't move
+  const reject = (status: ApplicationStatus, message: string) => {
+    setNotice({ type: 'error', message });
+    setRejectedStatus(status);
+    setTimeout(() => setRejectedStatus(current => (current === status ? null : current)), 1500);
+  };
+
+  const handleDrop = async (to: ApplicationStatus, applicationId: string) => {
+    setDraggingId(null);
+    setDropTarget(null);
+    const application = applications.find(existing => existing.id === applicationId);
+    if (!application || application.status === to) return;
+
+    const workflow = workflowFor(application);
+    if (!isValidStatusTransition(application.status, to, userRole, workflow)) {
+      reject(to, refusalMessage(application.status, to, workflow));
+      return;
+    }
+
+    let notes: string | undefined;
+    if (requiresNotesForTransition(application.status, to, workflow)) {
+      notes = prompt(`A note is required to move ${candidateName(application)} to ${statusLabel(to)}:`)?.trim();
+      if (!notes) return;
+    }
+
+    setMovingId(application.id);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/applications/${application.id}/status`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: to, notes, expectedUpdatedAt: application.updatedAt })
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to move the application');
+      }
+
+      // The workflow may have moved it on again automatically
+      const moved: JobApplication = data.data;
+      onApplicationMoved(moved);
+      setNotice({ type: 'success', message: `Moved ${candidateName(application)} to ${statusLabel(moved.status)}` });
+
+      // Keep the candidate's status in step, as the candidate page does
+      fetch(`/api/candidates/${application.candidateId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: moved.status })
+      }).catch(error => console.error('Failed to update candidate status:', error));
+    } catch (err: any) {
+      reject(to, err.message || 'Failed to move the application');
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  const columnClasses = (status: ApplicationStatus) => {
+    if (rejectedStatus === status) return 'bg-red-50 ring-2 ring-red-400';
+    if (!dragging || dragging.status === status) return 'bg-gray-100';
+    if (!canDropOn(status)) return 'bg-gray-100 opacity-50';
+    return dropTarget === status ? 'bg-green-100 ring-2 ring-green-500' : 'bg-green-50 ring-1 ring-green-300';
+  };
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-md p-4 mb-4 flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="board-department-filter" className="block text-sm font-medium text-gray-700 mb-1">
+            Department
+          </label>
+          <select
+            id="board-department-filter"
+            value={departmentFilter}
+            onChange={(e) => { setDepartmentFilter(e.target.value); setJobFilter('all'); }}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="all">All Departments</option>
+            {departments.map(department => (
+              <option key={department} value={department}>{department}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="board-job-filter" className="block text-sm font-medium text-gray-700 mb-1">
+            Position
+          </label>
+          <select
+            id="board-job-filter"
+            value={jobFilter}
+            onChange={(e) => setJobFilter(e.target.value)}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="all">All Positions</option>
+            {jobOptions.map(job => (
+              <option key={job.id} value={job.id}>{job.title}</option>
+            ))}
+          </select>
+        </div>
+        <p className="text-sm text-gray-500 ml-auto">
+          Drag a card to another column to change its status. Columns you can&apos;t move it to are greyed out.
+        </p>
+      </div>
+
+      {notice && (
+        <div className={`rounded-lg p-3 mb-4 border ${
+          notice.type === 'error' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-green-50 border-green-200 text-green-700'
+        }`}>
+          <p className="text-sm">{notice.message}</p>
+        </div>
+      )}
+
+      {/* Columns */}
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {columns.map(column => (
+          <div
+            key={column.status}
+            onDragOver={(e) => e.preventDefault()}
+            onDragEnter={() => setDropTarget(column.status)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(column.status, e.dataTransfer.getData('text/plain'));
+            }}
+            className={`w-64 flex-shrink-0 rounded-lg p-3 transition-colors ${columnClasses(column.status)}`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <span className={getStatusBadgeClasses(column.status)}>{statusLabel(column.status)}</span>
+              <span className="text-xs text-gray-500">{column.applications.length}</span>
+            </div>
+            <div className="space-y-2 min-h-[4rem]">
+              {column.applications.map(application => {
+                const job = jobs.find(j => j.id === application.jobId);
+                return (
+                  <div
+                    key={application.id}
+                    draggable={movingId !== application.id}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', application.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(application.id);
+                      setNotice(null);
+                    }}
+                    onDragEnd={() => { setDraggingId(null); setDropTarget(null); }}
+                    className={`bg-white rounded-md shadow-sm p-3 cursor-move border border-gray-200 ${
+                      movingId === application.id ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-gray-900">{candidateName(application)}</p>
+                    <p className="text-xs text-gray-500">{job?.title || 'Unknown Position'}</p>
+                    <div className="mt-2 flex items-center justify-between text-xs">
+                      <span className="text-gray-400">{new Date(application.createdAt).toLocaleDateString()}</span>
+                      <Link
+                        href={`/recruiter/candidate/${application.candidateId}?jobId=${application.jobId}&applicationId=${application.id}`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        View
+                      </Link>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
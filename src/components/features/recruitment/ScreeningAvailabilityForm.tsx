@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  DAY_NAMES,
+  ScreeningAvailabilityWindow,
+  ScreeningSchedulingSettings
+} from '../../../lib/screening/screeningSlots';
+
+interface ScreeningAvailabilityFormProps {
+  settings: ScreeningSchedulingSettings;
+  onSave: (settings: ScreeningSchedulingSettings) => Promise<void>;
+}
+
+const NUMBER_FIELDS: { field: keyof ScreeningSchedulingSettings; label: string; help: string }[] = [
+  { field: 'slotMinutes', label: 'Slot length (minutes)', help: 'How long each bookable slot is' },
+  { field: 'maxBookingsPerSlot', label: 'Bookings per slot', help: 'Screenings that can run at the same time' },
+  { field: 'minNoticeMinutes', label: 'Minimum notice (minutes)', help: 'Earliest a slot can start after booking' },
+  { field: 'bookingHorizonDays', label: 'Booking window (days)', help: 'How far ahead candidates can book' },
+  { field: 'reminderMinutesBefore', label: 'Reminder (minutes before)', help: '0 turns reminders off' }
+];
+
+const TEMPLATE_FIELDS: { field: keyof ScreeningSchedulingSettings; label: string }[] = [
+  { field: 'confirmationTemplate', label: 'Booking confirmation' },
+  { field: 'reminderTemplate', label: 'Reminder' },
+  { field: 'screeningOpenTemplate', label: 'Screening is ready' }
+];
+
+export default function ScreeningAvailabilityForm({ settings, onSave }: ScreeningAvailabilityFormProps) {
+  const [draft, setDraft] = useState<ScreeningSchedulingSettings>(settings);
+  const [saving, setSaving] = useState(false);
+
+  const updateWindow = (index: number, updates: Partial<ScreeningAvailabilityWindow>) => {
+    setDraft({
+      ...draft,
+      availabilityWindows: draft.availabilityWindows.map((window, i) => (i === index ? { ...window, ...updates } : window))
+    });
+  };
+
+  const addWindow = () => {
+    setDraft({
+      ...draft,
+      availabilityWindows: [...draft.availabilityWindows, { dayOfWeek: 1, start: '09:00', end: '17:00' }]
+    });
+  };
+
+  const removeWindow = (index: number) => {
+    setDraft({ ...draft, availabilityWindows: draft.availabilityWindows.filter((_, i) => i !== index) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          className="mr-2"
+          checked={draft.enabled}
+          onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+        />
+        Let candidates book a screening time after applying
+      </label>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Availability windows</h3>
+        <p className="text-xs text-gray-500 mb-3">Times are in the server&apos;s time zone. Locations with their own screening hours use those instead, in the location&apos;s time zone. Candidates see slots in their own.</p>
+        <div className="space-y-2">
+          {draft.availabilityWindows.map((window, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <select
+                value={window.dayOfWeek}
+                onChange={(e) => updateWindow(index, { dayOfWeek: Number(e.target.value) })}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+              >
+                {DAY_NAMES.map((day, dayOfWeek) => (
+                  <option key={day} value={dayOfWeek}>{day}</option>
+                ))}
+              </select>
+              <input
+                type="time"
+                value={window.start}
+                onChange={(e) => updateWindow(index, { start: e.target.value })}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="time"
+                value={window.end}
+                onChange={(e) => updateWindow(index, { end: e.target.value })}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => removeWindow(index)}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button type="button" onClick={addWindow} className="mt-3 text-sm text-blue-600 hover:text-blue-800">
+          + Add window
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {NUMBER_FIELDS.map(({ field, label, help }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+            <input
+              type="number"
+              min={0}
+              value={draft[field] as number}
+              onChange={(e) => setDraft({ ...draft, [field]: Number(e.target.value) })}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">{help}</p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Candidate messages</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Placeholders: {'{{candidateName}}'}, {'{{position}}'}, {'{{scheduledTime}}'}, {'{{howToJoin}}'}
+        </p>
+        <div className="space-y-4">
+          {TEMPLATE_FIELDS.map(({ field, label }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+              <textarea
+                rows={5}
+                value={draft[field] as string}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save Availability'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ScreeningBooking, ScreeningChannel } from '../../../lib/types';
+import type { ScreeningSlot } from '../../../lib/screening/screeningSlots';
+
+interface ScreeningSlotPickerProps {
+  applicationId: string;
+  candidateId: string; // Checked against the application by the booking API
+  hasPhone: boolean; // Phone screenings need a number to call
+  onBookingChange?: (booking: ScreeningBooking | null) => void;
+}
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+// Slots grouped by the day they fall on in the candidate's time zone
+function groupByDay(slots: ScreeningSlot[]): [string, ScreeningSlot[]][] {
+  const days = new Map<string, ScreeningSlot[]>();
+  for (const slot of slots) {
+    const day = formatDay(slot.start);
+    days.set(day, [...(days.get(day) || []), slot]);
+  }
+  return Array.from(days.entries());
+}
+
+export default function ScreeningSlotPicker({ applicationId, candidateId, hasPhone, onBookingChange }: ScreeningSlotPickerProps) {
+  const [booking, setBooking] = useState<ScreeningBooking | null>(null);
+  const [slots, setSlots] = useState<ScreeningSlot[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const [channel, setChannel] = useState<ScreeningChannel>('web');
+  const [changing, setChanging] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Held in a ref so a parent passing an inline callback doesn't refetch on every render
+  const onBookingChangeRef = useRef(onBookingChange);
+  onBookingChangeRef.current = onBookingChange;
+
+  const bookingQuery = new URLSearchParams({ applicationId, candidateId }).toString();
+
+  const loadSlots = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/screening/booking?${bookingQuery}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load available times');
+      }
+      setBooking(data.booking);
+      setSlots(data.slots);
+      onBookingChangeRef.current?.(data.booking);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load available times');
+    } finally {
+      setLoading(false);
+    }
+  }, [bookingQuery]);
+
+  useEffect(() => {
+    if (applicationId) {
+      loadSlots();
+    }
+  }, [applicationId, loadSlots]);
+
+  const handleBook = async () => {
+    if (!selectedSlot) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch('/api/screening/booking', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ applicationId, candidateId, slotStart: selectedSlot, channel })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to book this time');
+      }
+      setChanging(false);
+      setSelectedSlot(null);
+      await loadSlots();
+    } catch (err: any) {
+      setError(err.message || 'Failed to book this time');
+      await loadSlots();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch(`/api/screening/booking?${bookingQuery}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel the booking');
+      }
+      await loadSlots();
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel the booking');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading && slots.length === 0 && !booking) {
+    return <p className="text-sm text-gray-500">Loading available times...</p>;
+  }
+
+  const upcoming = booking?.status === 'booked' ? booking : null;
+
+  return (
+    <div className="text-left">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-md p-3 mb-4">{error}</div>
+      )}
+
+      {upcoming && !changing ? (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <p className="text-sm text-green-800 font-medium">
+            Your screening is booked for {formatDay(upcoming.slotStart)} at {formatTime(upcoming.slotStart)}
+          </p>
+          <p className="text-sm text-green-700 mt-1">
+            {upcoming.channel === 'phone'
+              ? 'We will call you at the number on your application.'
+              : 'The screening link opens at that time. We will send you a reminder beforehand.'}
+          </p>
+          <div className="flex space-x-4 mt-3">
+            <button
+              type="button"
+              onClick={() => setChanging(true)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+              disabled={submitting}
+            >
+              Change time
+            </button>
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="text-sm text-red-600 hover:text-red-800"
+              disabled={submitting}
+            >
+              Cancel booking
+            </button>
+          </div>
+        </div>
+      ) : slots.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No screening times are available right now. You can start your screening now instead.</p>
+      ) : (
+        <>
+          <div className="flex space-x-4 mb-4">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="radio"
+                name="screeningChannel"
+                className="mr-2"
+                checked={channel === 'web'}
+                onChange={() => setChannel('web')}
+              />
+              Online (in your browser)
+            </label>
+            <label className={`flex items-center text-sm ${hasPhone ? 'text-gray-700' : 'text-gray-400'}`}>
+              <input
+                type="radio"
+                name="screeningChannel"
+                className="mr-2"
+                checked={channel === 'phone'}
+                onChange={() => setChannel('phone')}
+                disabled={!hasPhone}
+              />
+              Phone call
+            </label>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto space-y-4 mb-4">
+            {groupByDay(slots).map(([day, daySlots]) => (
+              <div key={day}>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">{day}</h4>
+                <div className="flex flex-wrap gap-2">
+                  {daySlots.map(slot => (
+                    <button
+                      key={slot.start}
+                      type="button"
+                      onClick={() => setSelectedSlot(slot.start)}
+                      className={`px-3 py-1 text-sm rounded-md border ${
+                        selectedSlot === slot.start
+                          ? 'bg-blue-600 text-white border-blue-600'
+                          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {formatTime(slot.start)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={handleBook}
+              disabled={!selectedSlot || submitting}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {submitting ? 'Booking...' : upcoming ? 'Move Booking' : 'Book This Time'}
+            </button>
+            {changing && (
+              <button
+                type="button"
+                onClick={() => setChanging(false)}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md text-sm hover:bg-gray-200"
+              >
+                Keep Current Time
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
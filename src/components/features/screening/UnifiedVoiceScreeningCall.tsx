@@ -2,14 +2,16 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Link from 'next/link';
-import { ScreeningCall, ScreeningRole, Job, Candidate, ScreeningSummary } from '../../../lib/types';
-import { createScreeningAssistantOptions, DEFAULT_VAPI_CONFIG } from '../../../lib/integrations/vapi/vapiConfig';
+import { ScreeningCall, ScreeningRole, Job, Candidate } from '../../../lib/types';
+import { createScreeningAssistantOptions, DEFAULT_VAPI_CONFIG, VapiConfig } from '../../../lib/integrations/vapi/vapiConfig';
+import { getSimulatorScenario, isVapiSimulatorEnabled } from '../../../lib/integrations/vapi/simulatorScenarios';
+import { FakeVapiClient } from '../../../lib/integrations/vapi/fakeVapiClient';
 import { 
   determineScreeningRole, 
-  parseScreeningSummary, 
-  saveScreeningSummary, 
   updateScreeningStatus, 
-  createScreeningRecord 
+  createScreeningRecord,
+  waitForCallResults,
+  requestCallResults
 } from '../../../lib/screening/screeningService';
 import { 
   setupEnhancedVapiEventHandlers, 
@@ -18,7 +20,6 @@ import {
   VapiCallData 
 } from '../../../lib/services/vapiCallService';
 import {
-  readScreeningsFromAPI,
   hasActiveScreeningCall,
   hasReachedScreeningCallLimit,
   handleInterruptedCall,
@@ -34,17 +35,13 @@ import {
   getComprehensiveCallData 
 } from '../../../lib/services/screeningCallAnalysis';
 import { 
-  retrieveCallDataWithRetry,
   analyzeCallDataComprehensively, 
   analyzeScreeningCall 
 } from '../../../lib/services/enhancedScreeningService';
 import { 
   handleCallFailure, 
   analyzeFailedCall, 
-  CallErrorDetails, 
-  detectStateConflicts, 
-  analyzeTranscriptForErrors, 
-  logPostProcessingFailure 
+  CallErrorDetails 
 } from '../../../lib/services/callErrorLogger';
 
 // Enhanced interfaces for better type safety
@@ -81,7 +78,6 @@ interface UnifiedVoiceScreeningCallProps {
   onCallError?: (error: Error) => void;
   onDataRetrieved?: (data: CallDataState) => void;
   autoRetry?: boolean;
-  maxRetryAttempts?: number;
   showDebugInfo?: boolean;
 }
 
@@ -96,18 +92,8 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
   onCallError,
   onDataRetrieved,
   autoRetry = true,
-  maxRetryAttempts = 5,
   showDebugInfo = false
 }) => {
-  // Define default empty summary structure early in the component
-  const defaultSummary: ScreeningSummary = {
-    experience: { evaluation: '', highlights: [] },
-    availability: { morning: false, evening: false, weekends: false, notes: '' },
-    transportation: { hasReliableTransportation: false, notes: '' },
-    softSkills: { evaluation: '', highlights: [] },
-    roleSpecific: { evaluation: '', strengths: [], areas_of_improvement: [] }
-  };
-
   // Core state
   const [vapi, setVapi] = useState<any>(null);
   const [status, setStatus] = useState<string>('initializing');
@@ -143,19 +129,37 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
     }
   }, [job]);
 
+  // Load the assistant settings for this job: admin voice settings plus role and job overrides,
+  // the role's questions, its structured data schema and the name of the job's location
+  const [assistantConfig, setAssistantConfig] = useState<VapiConfig>(DEFAULT_VAPI_CONFIG);
+  const [locationName, setLocationName] = useState<string | undefined>(undefined);
+  useEffect(() => {
+    if (!jobId) return;
+
+    fetch(`/api/screening/assistant-config?jobId=${encodeURIComponent(jobId)}`)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load assistant config: ${response.statusText}`);
+        }
+        return response.json();
+      })
+      .then(data => {
+        setAssistantConfig(data.config);
+        setLocationName(data.locationName);
+      })
+      .catch(error => console.error('Failed to load assistant config, using the defaults:', error));
+  }, [jobId]);
+
   // Create screening record
   useEffect(() => {
     const initScreeningRecord = async () => {
       if (jobId && candidateId && applicationId) {
         try {
           // Check for stale calls and clean them up first
-          const cleanedUpCount = await cleanupStaleScreeningCalls(10); // 10 minutes timeout
-          if (cleanedUpCount > 0) {
-            console.log(`Cleaned up ${cleanedUpCount} stale screening calls before initialization`);
-          }
+          await cleanupStaleScreeningCalls(applicationId, candidateId);
           
           // Check if this application already has an active screening call
-          const hasActiveCall = await hasActiveScreeningCall(applicationId);
+          const hasActiveCall = await hasActiveScreeningCall(applicationId, candidateId);
           if (hasActiveCall) {
             const errorMsg = 'There is already an active screening call for this application.';
             setErrorMessage(errorMsg);
@@ -176,7 +180,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
           const maxAllowedCalls = await getMaxAllowedCalls(applicationId);
           
           // Get the completed screening count - this now only counts successful screenings
-          const hasReachedLimit = await hasReachedScreeningCallLimit(applicationId, maxAllowedCalls);
+          const hasReachedLimit = await hasReachedScreeningCallLimit(applicationId, candidateId, maxAllowedCalls);
           if (hasReachedLimit) {
             const errorMsg = 'This application has already been screened successfully. Only one completed screening call is allowed per application.';
             setErrorMessage(errorMsg);
@@ -195,7 +199,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
           }
           
           // Check if retries are allowed for failed calls
-          const retryAllowed = await isRetryAllowed(applicationId);
+          const retryAllowed = await isRetryAllowed(applicationId, candidateId);
           if (!retryAllowed) {
             const errorMsg = 'You have exceeded the maximum number of retry attempts for this application.';
             setErrorMessage(errorMsg);
@@ -243,6 +247,18 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
       try {
         setIsLoading(true);
         
+        // Offline testing: replay a scripted scenario instead of calling VAPI (?vapiScenario= picks another one)
+        if (isVapiSimulatorEnabled()) {
+          const scenarioName = new URLSearchParams(window.location.search).get('vapiScenario');
+          const fakeVapi = new FakeVapiClient(getSimulatorScenario(scenarioName));
+          setVapi(fakeVapi);
+          setupEnhancedVapiEventHandlers(fakeVapi);
+
+          setIsLoading(false);
+          setStatus('ready');
+          return;
+        }
+
         // Import Vapi SDK
         const { default: Vapi } = await import('@vapi-ai/web');
         
@@ -309,7 +325,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
       durationTimerRef.current = timer;
       
       // Set maximum call duration timer as a safety fallback
-      const maxCallDuration = DEFAULT_VAPI_CONFIG.maxCallDuration * 1000 + 30000; // convert to ms and add 30s buffer
+      const maxCallDuration = assistantConfig.maxCallDuration * 1000 + 30000; // convert to ms and add 30s buffer
       const safetyTimer = setTimeout(() => {
         console.log('Maximum call duration reached, ending call automatically');
         if (vapi) {
@@ -328,7 +344,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
       // Update screening status to in_progress
       (async () => {
         if (screeningId) {
-          await updateScreeningStatus(screeningId, 'screening_in_progress');
+          await updateScreeningStatus(screeningId, candidateId, 'screening_in_progress');
         }
       })();
     };
@@ -367,7 +383,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
         if (screeningId) {
           (async () => {
             try {
-              await updateScreeningStatus(screeningId, 'screening_completed', {
+              await updateScreeningStatus(screeningId, candidateId, 'screening_completed', {
                 errorMessage: 'Call completed but no call ID available for data retrieval'
               });
             } catch (error) {
@@ -431,7 +447,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
         vapi.off('error', handleError);
       }
     };
-  }, [vapi, callData, callDuration, onCallStart, onCallError, screeningId]);
+  }, [vapi, callData, callDuration, onCallStart, onCallError, screeningId, candidateId, assistantConfig]);
 
   // Add a ref to track if the component is being unmounted due to navigation
   const isNavigatingRef = useRef(false);
@@ -480,7 +496,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
           });
           
           // Use the specialized util function to handle interrupted calls
-          const interruptHandled = handleInterruptedCall(screeningId, 'Call interrupted due to page navigation or component unmount');
+          const interruptHandled = handleInterruptedCall(screeningId, candidateId, 'Call interrupted due to page navigation or component unmount');
           
           // Release any resources that might be held by the call
           releaseScreeningResources(screeningId);
@@ -489,7 +505,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
           if (!interruptHandled) {
             (async () => {
               try {
-                await updateScreeningStatus(screeningId, 'rejected', {
+                await updateScreeningStatus(screeningId, candidateId, 'rejected', {
                   errorMessage: 'Call interrupted due to page navigation or component unmount'
                 });
               } catch (error) {
@@ -505,7 +521,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
         console.log('Component unmounting without navigation detected - likely React re-render, not marking as interrupted');
       }
     };
-  }, [callActive, processingCall, screeningId, applicationId]);
+  }, [callActive, processingCall, screeningId, applicationId, candidateId]);
 
   // Specialized error handler that categorizes errors and takes appropriate actions
   const handleScreeningError = useCallback((error: Error | unknown, phase: 'initialization' | 'call' | 'processing' = 'call') => {
@@ -527,7 +543,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
     
     // If a call was active, make sure to release resources
     if (callActive && screeningId) {
-      handleInterruptedCall(screeningId, `Call interrupted due to error: ${errorMessage}`);
+      handleInterruptedCall(screeningId, candidateId, `Call interrupted due to error: ${errorMessage}`);
       releaseScreeningResources(screeningId);
     }
     
@@ -535,7 +551,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
     if (onCallError) {
       onCallError(error instanceof Error ? error : new Error(errorMessage));
     }
-  }, [applicationId, callActive, onCallError, screeningId]);
+  }, [applicationId, callActive, onCallError, screeningId, candidateId]);
   
   // Start call with assistant options
   const startCall = useCallback(async () => {
@@ -551,7 +567,10 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
       const assistantOptions = createScreeningAssistantOptions(
         job?.title || 'the position',
         candidate?.firstName || 'Candidate',
-        screeningRole
+        screeningRole,
+        assistantConfig,
+        { screeningId: screeningId || undefined, applicationId, candidateId, jobId },
+        locationName
       );
       
       console.log(`Starting call with role: ${screeningRole}`);
@@ -580,7 +599,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
       setStatus('error');
       if (onCallError) onCallError(error instanceof Error ? error : new Error('Failed to start call'));
     }
-  }, [vapi, callActive, startingCall, screeningRole, candidate, job, showDebugInfo, onCallError]);
+  }, [vapi, callActive, startingCall, screeningRole, candidate, job, showDebugInfo, onCallError, screeningId, applicationId, candidateId, jobId, assistantConfig, locationName]);
   
   // Stop active call
   const stopCall = useCallback(() => {
@@ -594,181 +613,53 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
     }
   }, [vapi, callActive]);
   
-  // Enhanced call data retrieval with retry
+  // Call results are recorded on the server: from the webhook's end-of-call report, or by a
+  // background job that fetches the call from VAPI when the report doesn't arrive
   const retrieveCallData = useCallback(async (callId: string) => {
     setIsRetrievingData(true);
-    setDataRetrievalProgress('Starting data retrieval...');
+    setDataRetrievalProgress('Waiting for call results...');
     
     try {
-      // First attempt with regular wait
-      setDataRetrievalProgress('Retrieving call data...');
-      let vapiCallData = await retrieveCallDataWithRetry(callId, maxRetryAttempts, 2000);
-      
-      // If no transcript after first attempt, try adding a longer delay
-      if (!vapiCallData?.transcript) {
-        setDataRetrievalProgress('Initial retrieval incomplete, waiting longer...');
-        
-        // Wait 5 seconds before trying again
-        await new Promise(resolve => {
-          dataRetrievalTimeoutRef.current = setTimeout(resolve, 5000) as unknown as NodeJS.Timeout;
-        });
-        
-        setDataRetrievalProgress('Retrieving call data (attempt 2)...');
-        vapiCallData = await retrieveCallDataWithRetry(callId, 3, 3000);
+      if (!screeningId) {
+        throw new Error('Call completed but there is no screening record to save the results to');
       }
-      
-      // Ensure we always update the screening status to completed, regardless of data retrieval success
-      let screeningStatus = 'screening_completed';
-      let screeningUpdateSuccess = false;
-      
-      // Update local state with retrieved data
-      if (vapiCallData) {
-        // Check for inconsistent state like successful transcript but error message
-        const stateCheck = detectStateConflicts(vapiCallData);
-        
-        if (stateCheck.hasConflicts) {
-          // Log diagnostic information about the conflict
-          console.log(`[POST-PROCESSING] Detected ${stateCheck.severity} severity conflicts for call ${vapiCallData.id}:`, {
-            hasErrorMessage: !!vapiCallData.errorMessage,
-            errorMessage: vapiCallData.errorMessage,
-            hasTranscript: !!vapiCallData.transcript,
-            transcriptLength: vapiCallData.transcript?.length || 0,
-            conflicts: stateCheck.conflicts,
-            recommendations: stateCheck.recommendations
-          });
-          
-          setDataRetrievalProgress(`Detected call state conflicts: ${stateCheck.conflicts.join(', ')}`);
-          
-          // Track this special case with detailed logging
-          logPostProcessingFailure(
-            'state-conflict-resolution',
-            vapiCallData.transcript || 'No transcript available',
-            vapiCallData.id,
-            {
-              conflicts: stateCheck.conflicts,
-              severity: stateCheck.severity,
-              recommendations: stateCheck.recommendations,
-              errorMessage: vapiCallData.errorMessage
-            }
-          );
-        }
-        
-        // Parse transcript for potential errors in the conversation
-        if (vapiCallData.transcript) {
-          const conversationIssues = analyzeTranscriptForErrors(vapiCallData.transcript);
-          if (conversationIssues.length > 0) {
-            console.log('Detected potential conversation issues:', conversationIssues);
-          }
-        }
-        
-        // Update the call data state
-        setCallData({
-          callId: vapiCallData.id,
-          transcript: vapiCallData.transcript,
-          summary: vapiCallData.summary || vapiCallData.artifact?.summary,
-          audioUrl: vapiCallData.audioUrl || vapiCallData.artifact?.recordingUrl || vapiCallData.artifact?.recording?.stereoUrl,
-          duration: callDuration,
-          status: 'completed'
-        });
-        
-        // Update screening record with results
-        if (screeningId && vapiCallData.transcript) {
-          try {
-            // Parse the summary into structured data
-            let screeningSummary: ScreeningSummary | null = null;
-            
-            if (vapiCallData.summary) {
-              screeningSummary = parseScreeningSummary(vapiCallData.summary);
-            }
-            
-            // Create a complete record with both summary and additional data
-            await saveScreeningSummary(
-              screeningId,
-              screeningSummary || defaultSummary
-            );
-            
-            // Update the screening record with complete data
-            screeningUpdateSuccess = await updateScreeningStatus(screeningId, 'screening_completed', {
-              transcript: vapiCallData.transcript,
-              summary: vapiCallData.summary || '',
-              audioUrl: vapiCallData.audioUrl || '',
-              completedAt: new Date().toISOString()
-            });
-            
-            // Log success
-            console.log('Successfully saved screening results');
-            
-            if (screeningSummary) {
-              // Calculate scores based on available data
-              const hasMoreStrengthsThanWeaknesses = screeningSummary.roleSpecific?.strengths?.length > 
-                screeningSummary.roleSpecific?.areas_of_improvement?.length;
-                
-              setCallData(prev => ({
-                ...prev,
-                overallRating: hasMoreStrengthsThanWeaknesses ? 8 : 5,
-                recommendation: hasMoreStrengthsThanWeaknesses ? 'Consider for interview' : 'Review qualifications'
-              }));
-            }
-          } catch (error) {
-            console.error('Error saving screening results:', error);
-            // Even if saving results fails, we still want to mark the screening as completed
-            if (!screeningUpdateSuccess && screeningId) {
-              await updateScreeningStatus(screeningId, 'screening_completed');
-            }
-          }
-        }
-        
-        // Call the onDataRetrieved callback with the results
-        if (onDataRetrieved) {
-          onDataRetrieved({
-            callId: vapiCallData.id,
-            transcript: vapiCallData.transcript,
-            summary: vapiCallData.summary,
-            audioUrl: vapiCallData.audioUrl,
-            duration: callDuration
-          });
-        }
-        
-        // Mark the call as completed normally
-        callCompletedRef.current = true;
-        
-        // Call the onCallEnd callback now that we have all data
-        if (onCallEnd) {
-          onCallEnd({
-            callId: vapiCallData.id,
-            transcript: vapiCallData.transcript,
-            summary: vapiCallData.summary,
-            audioUrl: vapiCallData.audioUrl,
-            duration: callDuration
-          });
-        }
-      } else {
-        setDataRetrievalProgress('Failed to retrieve call data after multiple attempts');
-        setErrorMessage('Failed to retrieve call data');
-        
-        // Even if data retrieval failed, ensure we complete the screening
-        if (screeningId) {
-          await updateScreeningStatus(screeningId, 'screening_completed', {
-            transcript: 'Call completed - transcript processing failed',
-            errorMessage: 'Failed to retrieve call data'
-          });
-        }
-        
-        // Mark the call as completed even if data retrieval failed
-        callCompletedRef.current = true;
+
+      let screening = await waitForCallResults(screeningId, candidateId);
+
+      if (!screening) {
+        setDataRetrievalProgress('Results are taking longer than usual, fetching them from the call record...');
+        await requestCallResults(screeningId, candidateId, callId);
+        screening = await waitForCallResults(screeningId, candidateId, 60000, 3000);
       }
+
+      callCompletedRef.current = true;
+
+      if (!screening) {
+        // The background job keeps retrying after this page is closed
+        setDataRetrievalProgress('Your responses are still being processed. You can close this page; the results will be saved automatically.');
+        return;
+      }
+
+      if (screening.status === 'rejected') {
+        throw new Error(screening.errorMessage || 'The screening call could not be completed');
+      }
+
+      const results = {
+        callId: screening.aiCallId || callId,
+        transcript: screening.transcript,
+        summary: screening.summaryMarkdown,
+        audioUrl: screening.audioUrl,
+        duration: screening.duration || callDuration
+      };
+
+      setCallData({ ...results, status: 'completed' });
+      if (onDataRetrieved) onDataRetrieved(results);
+      if (onCallEnd) onCallEnd(results);
     } catch (error) {
       console.error('Error retrieving call data:', error);
       setErrorMessage(error instanceof Error ? error.message : 'Error retrieving call data');
       setDataRetrievalProgress('Error during data retrieval');
       
-      // Always ensure we complete the screening even if there's an error
-      if (screeningId) {
-        await updateScreeningStatus(screeningId, 'screening_completed', {
-          errorMessage: error instanceof Error ? error.message : 'Error retrieving call data'
-        });
-      }
-      
       // Mark the call as completed even in error cases
       callCompletedRef.current = true;
       
@@ -779,7 +670,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
       setIsRetrievingData(false);
       setProcessingCall(false);
     }
-  }, [maxRetryAttempts, callDuration, screeningId, onDataRetrieved, onCallEnd, onCallError]);
+  }, [callDuration, screeningId, candidateId, onDataRetrieved, onCallEnd, onCallError]);
 
   // Check if the application has already been screened
   const [hasBeenScreened, setHasBeenScreened] = useState<boolean>(false);
@@ -791,21 +682,19 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
     const checkScreeningStatus = async () => {
       if (applicationId) {
         try {
-          // Clean up any stale calls that might be stuck in "in_progress" state
-          await cleanupStaleScreeningCalls(10); // 10 minutes timeout
-          
-          // Get all screenings for this application
-          const screenings = await readScreeningsFromAPI();
-          const appScreenings = screenings.filter((s: any) => s.applicationId === applicationId);
+          // Clean up any stale calls that might be stuck in "in_progress" state, then count this application's attempts
+          const attempts = await cleanupStaleScreeningCalls(applicationId, candidateId);
+          if (!attempts) {
+            throw new Error('Failed to read screening attempts');
+          }
           
           // Check if this application has already had a completed screening
-          const completedScreenings = appScreenings.filter(s => s.status === 'screening_completed');
-          const alreadyScreened = completedScreenings.length > 0;
+          const alreadyScreened = attempts.completed > 0;
           setHasBeenScreened(alreadyScreened);
           
           // Count failed attempts (rejected status)
-          const failedAttempts = appScreenings.filter(s => s.status === 'rejected').length;
-          setPastAttempts(appScreenings.length);
+          const failedAttempts = attempts.failed;
+          setPastAttempts(attempts.total);
           
           // Retry is only available if:
           // 1. No completed screening exists
@@ -816,8 +705,8 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
           
           console.log('Screening status check:', {
             applicationId,
-            totalAttempts: appScreenings.length,
-            completedScreenings: completedScreenings.length,
+            totalAttempts: attempts.total,
+            completedScreenings: attempts.completed,
             failedAttempts,
             alreadyScreened,
             canRetry
@@ -833,7 +722,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
     };
 
     checkScreeningStatus();
-  }, [applicationId]);
+  }, [applicationId, candidateId]);
   
   // Render loading state
   if (isLoading) {
@@ -1020,7 +909,7 @@ const UnifiedVoiceScreeningCall: React.FC<UnifiedVoiceScreeningCallProps> = ({
           {/* Link to full transcript */}
           {screeningId && (
             <Link 
-              href={`/screening/${screeningId}`}
+              href={`/screening/${screeningId}?candidateId=${encodeURIComponent(candidateId)}`}
               className="inline-block px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
             >
               View Full Transcript
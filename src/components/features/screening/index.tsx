@@ -2,6 +2,7 @@
 
 // Export the unified voice screening component
 export { default as UnifiedVoiceScreeningCall } from './UnifiedVoiceScreeningCall';
+export { default as ScreeningSlotPicker } from './ScreeningSlotPicker';
 
 // Default export the unified component for simpler imports
 export { default } from './UnifiedVoiceScreeningCall';
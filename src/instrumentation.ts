@@ -0,0 +1,40 @@
+// Next.js calls register() once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  if (process.env.DATA_MIGRATIONS_ON_STARTUP !== 'false') {
+    const { runMigrations } = await import('./lib/data/migrations');
+
+    try {
+      for (const result of runMigrations()) {
+        console.log(
+          `Migrated ${result.target} from schema v${result.fromVersion} to v${result.toVersion}` +
+            (result.applied.length ? ` (${result.applied.join(', ')})` : '')
+        );
+      }
+    } catch (error) {
+      console.error('Data migrations failed:', error);
+      throw error;
+    }
+  }
+
+  // Reminders and booked screenings; turn off where an external cron calls /api/screening/scheduler
+  if (process.env.SCREENING_SCHEDULER !== 'false') {
+    const { startScreeningScheduler } = await import('./lib/services/screeningSchedulingService');
+    startScreeningScheduler();
+  }
+
+  // Overdue applications; turn off where an external cron calls POST /api/sla/scheduler
+  if (process.env.SLA_SCHEDULER !== 'false') {
+    const { startSlaScheduler } = await import('./lib/services/slaService');
+    startSlaScheduler();
+  }
+
+  // Post-call processing jobs; turn off where an external cron calls POST /api/admin/queue instead
+  if (process.env.JOB_WORKER !== 'false') {
+    const { startJobWorker } = await import('./lib/queue/jobWorker');
+    startJobWorker();
+  }
+}
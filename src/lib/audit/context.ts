@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { headers } from 'next/headers';
+import type { AuditActor, AuditActorRole } from '../types/audit';
+import { AUDIT_ACTOR_HEADER, AUDIT_ACTOR_ID_HEADER, AUDIT_ACTOR_NAME_HEADER, AUDIT_SOURCE_HEADER } from './headers';
+
+export interface AuditContext {
+  actor: AuditActor;
+  source: string;
+}
+
+const ACTOR_ROLES: AuditActorRole[] = ['system', 'candidate', 'recruiter', 'admin'];
+
+const SYSTEM_CONTEXT: AuditContext = { actor: { role: 'system' }, source: 'system' };
+
+const contextStorage = new AsyncLocalStorage<AuditContext>();
+
+// Attributes every change made inside `action` to `context` (scripts, webhooks, background work)
+export function runWithAuditContext<T>(context: AuditContext, action: () => T): T {
+  return contextStorage.run(context, action);
+}
+
+function readRequestContext(): AuditContext | null {
+  try {
+    const requestHeaders = headers();
+    const source = requestHeaders.get(AUDIT_SOURCE_HEADER);
+    if (!source) {
+      return null;
+    }
+
+    const role = requestHeaders.get(AUDIT_ACTOR_HEADER) as AuditActorRole | null;
+    const actor: AuditActor = { role: role && ACTOR_ROLES.includes(role) ? role : 'system' };
+    const id = requestHeaders.get(AUDIT_ACTOR_ID_HEADER);
+    const name = requestHeaders.get(AUDIT_ACTOR_NAME_HEADER);
+    if (id) actor.id = id;
+    if (name) actor.name = decodeURIComponent(name);
+    return { actor, source };
+  } catch {
+    // Called outside a request (CLI scripts, startup)
+    return null;
+  }
+}
+
+// Who is making the current change and from where: explicit context, then request headers, then "system"
+export function getAuditContext(): AuditContext {
+  return contextStorage.getStore() || readRequestContext() || SYSTEM_CONTEXT;
+}
@@ -0,0 +1,52 @@
+import type { AuditChange } from '../types/audit';
+
+// Bookkeeping fields that change on every write and would only add noise
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+// Secrets: the log records that they changed, never their values
+const REDACTED_FIELDS = new Set(['passwordHash', 'portalToken', 'inviteToken']);
+const REDACTED = '[redacted]';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function collectChanges(before: unknown, after: unknown, path: string, changes: AuditChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (!path && IGNORED_FIELDS.has(key)) continue;
+      if (!path && REDACTED_FIELDS.has(key)) {
+        if (!isEqual(before[key], after[key])) {
+          changes.push({
+            path: key,
+            before: before[key] === undefined ? undefined : REDACTED,
+            after: after[key] === undefined ? undefined : REDACTED
+          });
+        }
+        continue;
+      }
+      collectChanges(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  // Arrays and scalars are compared as a whole
+  if (!isEqual(before, after)) {
+    changes.push({ path, before, after });
+  }
+}
+
+/**
+ * Field-level differences between two versions of a record.
+ * Pass null for `before` on create and for `after` on delete.
+ */
+export function diffRecords(before: unknown, after: unknown): AuditChange[] {
+  const changes: AuditChange[] = [];
+  collectChanges(before ?? {}, after ?? {}, '', changes);
+  return changes;
+}
@@ -0,0 +1,31 @@
+import type { AuditAction, AuditEntityType, AuditEntry } from '../types/audit';
+import { getAuditContext } from './context';
+import { diffRecords } from './diff';
+
+export interface AuditChangeParams {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  before: unknown;
+  after: unknown;
+}
+
+// Builds the entry for one change, or null when nothing but bookkeeping fields changed
+export function buildAuditEntry({ entityType, entityId, action, before, after }: AuditChangeParams): AuditEntry | null {
+  const changes = diffRecords(before, after);
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const { actor, source } = getAuditContext();
+  return {
+    id: `audit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: new Date().toISOString(),
+    actor,
+    entityType,
+    entityId,
+    action,
+    source,
+    changes
+  };
+}
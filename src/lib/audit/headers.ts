@@ -0,0 +1,7 @@
+// Request headers set by src/middleware.ts so server code can attribute changes.
+// Kept free of Node imports because the middleware runs on the edge runtime.
+export const AUDIT_SOURCE_HEADER = 'x-audit-source';
+export const AUDIT_ACTOR_HEADER = 'x-audit-actor';
+// The signed-in user, when there is one; the name is URI-encoded
+export const AUDIT_ACTOR_ID_HEADER = 'x-audit-actor-id';
+export const AUDIT_ACTOR_NAME_HEADER = 'x-audit-actor-name';
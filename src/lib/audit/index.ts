@@ -0,0 +1,4 @@
+export * from './context';
+export * from './diff';
+export * from './entry';
+export * from './headers';
@@ -0,0 +1,58 @@
+// Who may act on a candidate's screening records (not for the edge runtime)
+import type { JobApplication, ScreeningCall } from '../types';
+import { getApplicationById, getApplicationsByCandidateId } from '../services/applicationService';
+import { getLocationScope, isLocationInScope } from '../services/locationService';
+import { getScreeningById } from '../services/screeningService';
+import { getJobById } from '../servers/jobs-server';
+import { getSessionUser } from './currentUser';
+import { hasPermission } from './permissions';
+
+/**
+ * Candidates use the screening pages without signing in, from a link carrying
+ * their application and candidate ids. The public screening endpoints only
+ * act on a record when the candidate id sent with the request is the one the
+ * record belongs to. Signed-in staff who can view applications may act on any
+ * record in their locations.
+ */
+async function canAccess(record: { candidateId: string; jobId: string }, candidateId: unknown): Promise<boolean> {
+  if (typeof candidateId === 'string' && candidateId && record.candidateId === candidateId) {
+    return true;
+  }
+
+  const user = await getSessionUser();
+  return !!user &&
+    hasPermission(user.role, 'view_applications') &&
+    isLocationInScope(getJobById(record.jobId)?.locationId, getLocationScope(user));
+}
+
+// Whether the candidate applied to a job at one of the `scope` locations (see getLocationScope)
+export function isCandidateInScope(candidateId: string, scope: string[] | null): boolean {
+  return !scope || getApplicationsByCandidateId(candidateId)
+    .some(application => isLocationInScope(getJobById(application.jobId)?.locationId, scope));
+}
+
+// Staff who can see one of the candidate's applications, or a candidate asking
+// about themselves with one of their application ids
+export async function canViewCandidate(candidateId: string, applicationId: unknown): Promise<boolean> {
+  const application = typeof applicationId === 'string' && applicationId ? getApplicationById(applicationId) : null;
+  if (application?.candidateId === candidateId) {
+    return true;
+  }
+
+  const user = await getSessionUser();
+  return !!user &&
+    hasPermission(user.role, 'view_applications') &&
+    isCandidateInScope(candidateId, getLocationScope(user));
+}
+
+// Null when the application doesn't exist or the caller may not act on it
+export async function findCandidateApplication(applicationId: unknown, candidateId: unknown): Promise<JobApplication | null> {
+  const application = typeof applicationId === 'string' && applicationId ? getApplicationById(applicationId) : null;
+  return application && (await canAccess(application, candidateId)) ? application : null;
+}
+
+// Null when the screening doesn't exist or the caller may not act on it
+export async function findCandidateScreening(screeningId: unknown, candidateId: unknown): Promise<ScreeningCall | null> {
+  const screening = typeof screeningId === 'string' && screeningId ? getScreeningById(screeningId) : null;
+  return screening && (await canAccess(screening, candidateId)) ? screening : null;
+}
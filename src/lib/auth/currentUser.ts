@@ -0,0 +1,55 @@
+// Server-side view of who is signed in (not for the edge runtime)
+import { cookies } from 'next/headers';
+import type { TimelineEntry, User } from '../types';
+import { getAuditContext } from '../audit/context';
+import { getUserById } from '../services/userService';
+import { HttpError } from '../http/httpError';
+import { SESSION_COOKIE, verifySessionToken } from './session';
+
+const STAFF_ROLES = ['recruiter', 'admin'];
+
+/**
+ * The signed-in user, re-read from storage so deactivation and role changes
+ * apply immediately rather than when the session cookie expires.
+ */
+export async function getSessionUser(): Promise<User | null> {
+  try {
+    const session = await verifySessionToken(cookies().get(SESSION_COOKIE)?.value);
+    const user = session ? getUserById(session.sub) : null;
+    return user?.active ? user : null;
+  } catch {
+    // Called outside a request
+    return null;
+  }
+}
+
+// For routes that need a signed-in user: a 401 HttpError when the session is
+// missing or expired, or the account has been deactivated since sign-in
+export async function requireSessionUser(): Promise<User> {
+  const user = await getSessionUser();
+  if (!user) {
+    throw new HttpError('Sign in to continue', 401);
+  }
+  return user;
+}
+
+/**
+ * Who to record on a timeline entry. Callers pass who they act for; staff
+ * actions are attributed to the signed-in user instead when there is one.
+ */
+export function getTimelineActor(
+  completedBy: string,
+  performedBy: TimelineEntry['performedBy']
+): Pick<TimelineEntry, 'completedBy' | 'performedBy' | 'performedByUser'> {
+  const { actor } = getAuditContext();
+  if (!STAFF_ROLES.includes(performedBy || '') || !actor.id || !STAFF_ROLES.includes(actor.role)) {
+    return { completedBy, performedBy };
+  }
+
+  const name = actor.name || actor.id;
+  return {
+    completedBy: name,
+    performedBy: actor.role,
+    performedByUser: { id: actor.id, name }
+  };
+}
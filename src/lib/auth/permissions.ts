@@ -0,0 +1,97 @@
+// Role permissions and the access rules src/middleware.ts enforces.
+// Kept free of Node imports because the middleware runs on the edge runtime.
+import type { UserRole } from '../types/user';
+
+export type Permission =
+  | 'view_applications' // Recruiter dashboard, applicant lists and candidate details
+  | 'review_applications' // Change application status and edit candidates
+  | 'manage_screenings' // Schedule and place screening calls
+  | 'manage_interviews'
+  | 'manage_jobs'
+  | 'manage_settings' // Admin configuration, locations, screening questions and background jobs
+  | 'manage_users'
+  | 'view_audit_log';
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  recruiter: ['view_applications', 'review_applications', 'manage_screenings', 'manage_interviews'],
+  admin: [
+    'view_applications',
+    'review_applications',
+    'manage_screenings',
+    'manage_interviews',
+    'manage_jobs',
+    'manage_settings',
+    'manage_users',
+    'view_audit_log'
+  ]
+};
+
+// Where each role lands after signing in, or when it opens a page it may not see
+export const ROLE_HOME: Record<UserRole, string> = {
+  recruiter: '/recruiter',
+  admin: '/admin'
+};
+
+export const USER_ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role as UserRole] || []).includes(permission);
+}
+
+export interface AccessRule {
+  pattern: RegExp;
+  methods?: string[]; // Any method when left out
+  access: 'public' | Permission;
+  cron?: boolean; // Also open to external cron presenting CRON_SECRET
+}
+
+// First match wins. Public routes serve the candidate flow and outside callers
+// (VAPI, the SMS provider) that check their own secrets.
+const API_RULES: AccessRule[] = [
+  { pattern: /^\/api\/auth\//, access: 'public' },
+  { pattern: /^\/api\/health$/, access: 'public' },
+  { pattern: /^\/api\/(vapi|mock-vapi)(\/|$)/, access: 'public' },
+  { pattern: /^\/api\/sms\/inbound$/, access: 'public' },
+  { pattern: /^\/api\/portal\//, access: 'public' },
+  { pattern: /^\/api\/jobs(\/[^/]+)?$/, methods: ['GET'], access: 'public' },
+  { pattern: /^\/api\/candidates$/, methods: ['POST'], access: 'public' },
+  { pattern: /^\/api\/candidates\/[^/]+$/, methods: ['GET'], access: 'public' },
+  { pattern: /^\/api\/upload$/, methods: ['POST'], access: 'public' },
+  // The emailed invite link carries the interview's invite token; the route checks it
+  { pattern: /^\/api\/interviews\/[^/]+\/invite$/, methods: ['GET'], access: 'public' },
+  { pattern: /^\/api\/screening$/, methods: ['POST'], access: 'public' },
+  // Candidates act on their own records only; the routes check the candidate id against the record
+  { pattern: /^\/api\/screening\/(attempts|booking|details|call-results|status|assistant-config)$/, access: 'public' },
+
+  { pattern: /^\/api\/screening\/scheduler$/, access: 'manage_screenings', cron: true },
+  { pattern: /^\/api\/screening(\/|$)/, access: 'manage_screenings' },
+  { pattern: /^\/api\/screenings$/, access: 'review_applications' },
+  { pattern: /^\/api\/admin\/users(\/|$)/, access: 'manage_users' },
+  { pattern: /^\/api\/admin\/queue$/, methods: ['POST'], access: 'manage_settings', cron: true },
+  { pattern: /^\/api\/sla\/scheduler$/, methods: ['POST'], access: 'manage_settings', cron: true },
+  { pattern: /^\/api\/admin\//, access: 'manage_settings' },
+  { pattern: /^\/api\/env-check$/, access: 'manage_settings' },
+  { pattern: /^\/api\/audit$/, access: 'view_audit_log' },
+  { pattern: /^\/api\/jobs(\/|$)/, access: 'manage_jobs' },
+  { pattern: /^\/api\/interviews(\/|$)/, access: 'manage_interviews' },
+  { pattern: /^\/api\/applications\/[^/]+\/(status|transfer)$/, access: 'review_applications' },
+  { pattern: /^\/api\/applications\/bulk$/, access: 'review_applications' },
+  { pattern: /^\/api\/candidates\/[^/]+$/, methods: ['PATCH'], access: 'review_applications' },
+  { pattern: /^\/api\//, access: 'view_applications' }
+];
+
+const PAGE_RULES: AccessRule[] = [
+  { pattern: /^\/admin\/users(\/|$)/, access: 'manage_users' },
+  { pattern: /^\/admin\/audit(\/|$)/, access: 'view_audit_log' },
+  { pattern: /^\/admin\/jobs(\/|$)/, access: 'manage_jobs' },
+  { pattern: /^\/admin(\/|$)/, access: 'manage_settings' },
+  { pattern: /^\/recruiter(\/|$)/, access: 'view_applications' }
+];
+
+// The rule for a request, or null for pages that need no sign-in
+export function findAccessRule(pathname: string, method: string): AccessRule | null {
+  const rules = pathname.startsWith('/api/') ? API_RULES : PAGE_RULES;
+  return rules.find(rule =>
+    rule.pattern.test(pathname) && (!rule.methods || rule.methods.includes(method.toUpperCase()))
+  ) || null;
+}
@@ -0,0 +1,108 @@
+// Signed session cookies for staff sign-in.
+// Uses Web Crypto only so the middleware can verify sessions on the edge runtime.
+import type { UserRole } from '../types/user';
+
+export const SESSION_COOKIE = 'recruitment_session';
+
+// About one shift; users sign in again afterwards
+export const SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+// Only used outside production so local development works without configuration
+const DEVELOPMENT_SECRET = 'development-only-auth-secret';
+
+export interface Session {
+  sub: string; // User id
+  role: UserRole;
+  name: string;
+  exp: number; // Seconds since the epoch
+}
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set in production');
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function importKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// <payload>.<signature>, both base64url
+export async function createSessionToken(
+  user: { id: string; role: UserRole; name: string },
+  now: number = Date.now()
+): Promise<string> {
+  const session: Session = {
+    sub: user.id,
+    role: user.role,
+    name: user.name,
+    exp: Math.floor(now / 1000) + SESSION_TTL_SECONDS
+  };
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign('HMAC', await importKey(), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Null for missing, tampered or expired tokens
+export async function verifySessionToken(
+  token: string | null | undefined,
+  now: number = Date.now()
+): Promise<Session | null> {
+  const [payload, signature] = (token || '').split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await importKey(),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload)
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Session;
+    return session.sub && session.exp > Math.floor(now / 1000) ? session : null;
+  } catch {
+    // Malformed token
+    return null;
+  }
+}
+
+// Not readable from scripts; sent only over HTTPS in production
+export function sessionCookieOptions(maxAge: number = SESSION_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge
+  };
+}
@@ -5,6 +5,11 @@ export const APP_CONFIG = {
   COMPANY_NAME: 'Your Restaurant Chain'
 } as const;
 
+// Absolute URL of this app, for links in candidate messages and server-side calls back into the API
+export function getAppBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || `http://localhost:${process.env.PORT || 3000}`;
+}
+
 // Screening configuration
 export const SCREENING_CONFIG = {
   DEFAULT_CALL_DURATION: 600, // 10 minutes in seconds
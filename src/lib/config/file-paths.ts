@@ -3,7 +3,8 @@ export const FILE_PATHS = {
   DATA_DIR: 'data',
   UPLOADS_DIR: 'public/uploads',
   RESUMES_DIR: 'public/uploads/resumes',
-  BACKUPS_DIR: 'data/backups'
+  BACKUPS_DIR: 'data/backups',
+  OUTBOX_DIR: 'data/outbox' // Maildir the file email transport delivers to
 } as const;
 
 // File size limits
@@ -23,5 +24,15 @@ export const DATA_FILES = {
   CANDIDATES: 'candidates.json',
   JOBS: 'jobs.json',
   SCREENINGS: 'screenings.json',
-  CONFIG: 'config.json'
+  INTERVIEWS: 'interviews.json',
+  JOB_QUEUE: 'job-queue.json',
+  USERS: 'users.json',
+  LOCATIONS: 'locations.json',
+  CONFIG: 'config.json',
+  AUDIT_LOG: 'audit-log.jsonl',
+  WEBHOOK_EVENTS_LOG: 'webhook-events.jsonl',
+  VAPI_SIMULATOR_LOG: 'vapi-simulator-calls.jsonl',
+  NOTIFICATIONS_LOG: 'notifications.jsonl',
+  SMS_OUTBOX_LOG: 'sms-outbox.jsonl',
+  SMS_INBOUND_LOG: 'sms-inbound.jsonl'
 } as const;
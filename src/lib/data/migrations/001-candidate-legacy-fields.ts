@@ -0,0 +1,15 @@
+import type { CollectionMigration } from './types';
+
+// Folds the legacy resumePath into resumeUrl and derives screeningCompleted from the summary
+export const candidateLegacyFields: CollectionMigration = {
+  version: 1,
+  name: '001-candidate-legacy-fields',
+  collection: 'candidates',
+  migrateRecord({ resumePath, ...candidate }) {
+    return {
+      ...candidate,
+      resumeUrl: candidate.resumeUrl || resumePath,
+      screeningCompleted: Boolean(candidate.screeningSummary)
+    };
+  }
+};
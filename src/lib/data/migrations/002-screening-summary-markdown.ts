@@ -0,0 +1,21 @@
+import { screeningSummaryFromMarkdown } from '../../services/summaryParser';
+import type { CollectionMigration } from './types';
+
+// Moves markdown summaries to summaryMarkdown and stores the structured ScreeningSummary in summary
+export const screeningSummaryMarkdown: CollectionMigration = {
+  version: 2,
+  name: '002-screening-summary-markdown',
+  collection: 'screenings',
+  migrateRecord(screening) {
+    if (typeof screening.summary !== 'string') {
+      return screening;
+    }
+
+    const markdown: string = screening.summary;
+    return {
+      ...screening,
+      summaryMarkdown: screening.summaryMarkdown || markdown,
+      summary: markdown.trim() ? screeningSummaryFromMarkdown(markdown) : undefined
+    };
+  }
+};
@@ -0,0 +1,64 @@
+import type { ApplicationStep } from '../../types/common';
+import type { CollectionMigration, LegacyRecord } from './types';
+
+const APPLICATION_STEPS: Record<ApplicationStep, true> = {
+  application_submitted: true,
+  resume_review: true,
+  resume_uploaded: true,
+  screening_call_pending: true,
+  screening_call_scheduled: true,
+  screening_call_completed: true,
+  interview_scheduled: true,
+  interview_completed: true,
+  reference_check: true,
+  manager_review: true,
+  recruiter_review: true,
+  offer_pending: true,
+  hiring_decision: true,
+  onboarding: true,
+  completed: true,
+  rejected: true,
+  process_complete: true
+};
+
+// Status names that older code wrote where a step was expected
+const STEP_ALIASES: Record<string, ApplicationStep> = {
+  submitted: 'application_submitted',
+  screening_scheduled: 'screening_call_scheduled',
+  screening_in_progress: 'screening_call_pending',
+  screening_completed: 'screening_call_completed',
+  under_review: 'recruiter_review',
+  hired: 'process_complete'
+};
+
+function normalizeStep(step: unknown): ApplicationStep | undefined {
+  if (typeof step !== 'string') {
+    return undefined;
+  }
+  return step in APPLICATION_STEPS ? (step as ApplicationStep) : STEP_ALIASES[step];
+}
+
+// Normalizes step names, fills currentStep/submittedAt/feedback and copies completedBy into performedBy
+export const applicationSteps: CollectionMigration = {
+  version: 3,
+  name: '003-application-steps',
+  collection: 'applications',
+  migrateRecord(application) {
+    const timeline: LegacyRecord[] = (Array.isArray(application.timeline) ? application.timeline : []).map(
+      (entry: LegacyRecord) => ({
+        ...entry,
+        step: normalizeStep(entry.step) || entry.step,
+        performedBy: entry.performedBy || entry.completedBy
+      })
+    );
+    const lastStep = timeline.length > 0 ? normalizeStep(timeline[timeline.length - 1].step) : undefined;
+
+    return {
+      ...application,
+      currentStep: normalizeStep(application.currentStep) || lastStep || 'application_submitted',
+      submittedAt: application.submittedAt || application.createdAt,
+      timeline,
+      feedback: application.feedback || {}
+    };
+  }
+};
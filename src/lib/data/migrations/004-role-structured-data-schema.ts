@@ -0,0 +1,23 @@
+import { getDefaultStructuredDataSchema } from '../../screening/structuredData';
+import type { DocumentMigration } from './types';
+
+// Gives every configured role a structuredDataSchema so calls are analysed with one
+export const roleStructuredDataSchema: DocumentMigration = {
+  version: 4,
+  name: '004-role-structured-data-schema',
+  document: 'config',
+  migrateDocument(config) {
+    if (!config.roles || typeof config.roles !== 'object') {
+      return config;
+    }
+
+    const roles = Object.fromEntries(
+      Object.entries(config.roles).map(([roleType, role]: [string, any]) => [
+        roleType,
+        role.structuredDataSchema ? role : { ...role, structuredDataSchema: getDefaultStructuredDataSchema(roleType) }
+      ])
+    );
+
+    return { ...config, roles };
+  }
+};
@@ -0,0 +1,14 @@
+import { DEFAULT_KNOCKOUT_QUESTIONS } from '../../screening/knockoutQuestions';
+import type { DocumentMigration } from './types';
+
+// Seeds the default knockout questions (job shift/weekend requirements, transportation)
+export const knockoutQuestions: DocumentMigration = {
+  version: 5,
+  name: '005-knockout-questions',
+  document: 'config',
+  migrateDocument(config) {
+    return Array.isArray(config.knockoutQuestions)
+      ? config
+      : { ...config, knockoutQuestions: DEFAULT_KNOCKOUT_QUESTIONS };
+  }
+};
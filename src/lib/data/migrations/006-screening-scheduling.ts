@@ -0,0 +1,14 @@
+import { DEFAULT_SCREENING_SCHEDULING } from '../../screening/screeningSlots';
+import type { DocumentMigration } from './types';
+
+// Seeds weekday 9-5 availability windows so candidates can book screening slots
+export const screeningScheduling: DocumentMigration = {
+  version: 6,
+  name: '006-screening-scheduling',
+  document: 'config',
+  migrateDocument(config) {
+    return config.screeningScheduling
+      ? config
+      : { ...config, screeningScheduling: DEFAULT_SCREENING_SCHEDULING };
+  }
+};
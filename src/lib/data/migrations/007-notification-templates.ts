@@ -0,0 +1,14 @@
+import { DEFAULT_NOTIFICATION_TEMPLATES } from '../../notifications/templates';
+import type { DocumentMigration } from './types';
+
+// Notification templates used to live only in the admin settings route's memory
+export const notificationTemplates: DocumentMigration = {
+  version: 7,
+  name: '007-notification-templates',
+  document: 'config',
+  migrateDocument(config) {
+    return config.notificationTemplates
+      ? config
+      : { ...config, notificationTemplates: DEFAULT_NOTIFICATION_TEMPLATES };
+  }
+};
@@ -0,0 +1,14 @@
+import { DEFAULT_SMS_TEMPLATES } from '../../notifications/templates';
+import type { DocumentMigration } from './types';
+
+// Text message variants of the candidate notifications
+export const smsTemplates: DocumentMigration = {
+  version: 8,
+  name: '008-sms-templates',
+  document: 'config',
+  migrateDocument(config) {
+    return config.smsTemplates
+      ? config
+      : { ...config, smsTemplates: DEFAULT_SMS_TEMPLATES };
+  }
+};
@@ -0,0 +1,31 @@
+import { DEFAULT_NOTIFICATION_TEMPLATES, DEFAULT_SMS_TEMPLATES } from '../../notifications/templates';
+import type { DocumentMigration } from './types';
+
+// The application received messages as they were before they linked to the candidate portal.
+// Templates an admin has reworded are left for them to add {{portalLink}} to.
+const PREVIOUS_APPLICATION_RECEIVED = {
+  email: 'Dear {{candidateName}},\n\nThank you for applying to the {{position}} position at our restaurant. We have received your application and will review it shortly.\n\nBest regards,\nThe Recruitment Team',
+  sms: 'Hi {{candidateName}}, we received your application for the {{position}} position and will be in touch soon. Reply STOP to stop texts.'
+};
+
+export const portalLink: DocumentMigration = {
+  version: 9,
+  name: '009-portal-link',
+  document: 'config',
+  migrateDocument(config) {
+    const migrated = { ...config };
+    if (config.notificationTemplates?.applicationReceived === PREVIOUS_APPLICATION_RECEIVED.email) {
+      migrated.notificationTemplates = {
+        ...config.notificationTemplates,
+        applicationReceived: DEFAULT_NOTIFICATION_TEMPLATES.applicationReceived
+      };
+    }
+    if (config.smsTemplates?.applicationReceived === PREVIOUS_APPLICATION_RECEIVED.sms) {
+      migrated.smsTemplates = {
+        ...config.smsTemplates,
+        applicationReceived: DEFAULT_SMS_TEMPLATES.applicationReceived
+      };
+    }
+    return migrated;
+  }
+};
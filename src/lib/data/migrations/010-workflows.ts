@@ -0,0 +1,14 @@
+import { getDefaultWorkflows } from '../../workflow/workflowUtils';
+import type { DocumentMigration } from './types';
+
+// Seeds every role with the default application pipeline, which was hard-coded until now
+export const workflows: DocumentMigration = {
+  version: 10,
+  name: '010-workflows',
+  document: 'config',
+  migrateDocument(config) {
+    return config.workflows
+      ? config
+      : { ...config, workflows: getDefaultWorkflows() };
+  }
+};
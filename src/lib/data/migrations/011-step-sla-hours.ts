@@ -0,0 +1,28 @@
+import { DEFAULT_WORKFLOW_CONFIG } from '../../workflow/workflowUtils';
+import type { DocumentMigration, LegacyRecord } from './types';
+
+// Gives saved workflow steps the default time limits; steps set up before SLAs existed have none
+export const stepSlaHours: DocumentMigration = {
+  version: 11,
+  name: '011-step-sla-hours',
+  document: 'config',
+  migrateDocument(config) {
+    if (!config.workflows) {
+      return config;
+    }
+
+    const workflows = Object.fromEntries(
+      Object.entries(config.workflows as Record<string, LegacyRecord>).map(([role, workflow]) => [
+        role,
+        {
+          ...workflow,
+          steps: (workflow.steps || []).map((step: LegacyRecord) => {
+            const slaHours = DEFAULT_WORKFLOW_CONFIG.steps.find(defaultStep => defaultStep.step === step.step)?.slaHours;
+            return step.slaHours === undefined && slaHours !== undefined ? { ...step, slaHours } : step;
+          })
+        }
+      ])
+    );
+    return { ...config, workflows };
+  }
+};
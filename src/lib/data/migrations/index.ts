@@ -0,0 +1,2 @@
+export * from './types';
+export { MIGRATIONS, LATEST_SCHEMA_VERSION, getMigrationStatus, runMigrations } from './runner';
@@ -0,0 +1,119 @@
+import { CollectionName, DocumentName, SchemaTarget, StorageDriver, StoredRecord, getStorageDriver } from '../storage';
+import { candidateLegacyFields } from './001-candidate-legacy-fields';
+import { screeningSummaryMarkdown } from './002-screening-summary-markdown';
+import { applicationSteps } from './003-application-steps';
+import { roleStructuredDataSchema } from './004-role-structured-data-schema';
+import { knockoutQuestions } from './005-knockout-questions';
+import { screeningScheduling } from './006-screening-scheduling';
+import { notificationTemplates } from './007-notification-templates';
+import { smsTemplates } from './008-sms-templates';
+import { portalLink } from './009-portal-link';
+import { workflows } from './010-workflows';
+import { stepSlaHours } from './011-step-sla-hours';
+import {
+  CollectionMigration,
+  DataMigration,
+  DocumentMigration,
+  LegacyRecord,
+  MigrationResult,
+  MigrationStatus
+} from './types';
+
+// Every migration, in the order it must run. Append new ones with the next version number.
+export const MIGRATIONS: DataMigration[] = [
+  candidateLegacyFields,
+  screeningSummaryMarkdown,
+  applicationSteps,
+  roleStructuredDataSchema,
+  knockoutQuestions,
+  screeningScheduling,
+  notificationTemplates,
+  smsTemplates,
+  portalLink,
+  workflows,
+  stepSlaHours
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+
+const COLLECTIONS: CollectionName[] = ['applications', 'candidates', 'jobs', 'screenings', 'interviews', 'queue', 'users', 'locations'];
+const DOCUMENTS: DocumentName[] = ['config'];
+
+function targetOf(migration: DataMigration): SchemaTarget {
+  return 'collection' in migration ? migration.collection : migration.document;
+}
+
+function pendingMigrations(target: SchemaTarget, fromVersion: number): DataMigration[] {
+  return MIGRATIONS.filter(migration => targetOf(migration) === target && migration.version > fromVersion);
+}
+
+function assertMigrationOrder(): void {
+  MIGRATIONS.forEach((migration, index) => {
+    if (index > 0 && migration.version <= MIGRATIONS[index - 1].version) {
+      throw new Error(`Migration ${migration.name} must have a higher version than ${MIGRATIONS[index - 1].name}`);
+    }
+  });
+}
+
+// Reports each data file's schema version and the migrations it still needs
+export function getMigrationStatus(driver: StorageDriver = getStorageDriver()): MigrationStatus[] {
+  return [...COLLECTIONS, ...DOCUMENTS].map(target => {
+    const currentVersion = driver.getSchemaVersion(target);
+    return {
+      target,
+      currentVersion,
+      latestVersion: LATEST_SCHEMA_VERSION,
+      pending: pendingMigrations(target, currentVersion).map(migration => migration.name)
+    };
+  });
+}
+
+/**
+ * Brings every collection and document up to LATEST_SCHEMA_VERSION.
+ * Each target is rewritten and stamped atomically, so running this from several
+ * processes at once (or twice) applies every migration exactly once.
+ */
+export function runMigrations(driver: StorageDriver = getStorageDriver()): MigrationResult[] {
+  assertMigrationOrder();
+  const results: MigrationResult[] = [];
+
+  for (const collection of COLLECTIONS) {
+    const result: MigrationResult = { target: collection, fromVersion: 0, toVersion: LATEST_SCHEMA_VERSION, applied: [] };
+
+    const migrated = driver.migrateCollection<StoredRecord & LegacyRecord>(
+      collection,
+      LATEST_SCHEMA_VERSION,
+      (records, fromVersion) => {
+        const pending = pendingMigrations(collection, fromVersion) as CollectionMigration[];
+        result.fromVersion = fromVersion;
+        result.applied = pending.map(migration => migration.name);
+        return records.map(record =>
+          pending.reduce((current, migration) => migration.migrateRecord(current), record as LegacyRecord)
+        ) as (StoredRecord & LegacyRecord)[];
+      }
+    );
+
+    if (migrated) results.push(result);
+  }
+
+  for (const document of DOCUMENTS) {
+    const result: MigrationResult = { target: document, fromVersion: 0, toVersion: LATEST_SCHEMA_VERSION, applied: [] };
+
+    const migrated = driver.migrateDocument<LegacyRecord>(document, LATEST_SCHEMA_VERSION, (current, fromVersion) => {
+      const pending = pendingMigrations(document, fromVersion) as DocumentMigration[];
+      result.fromVersion = fromVersion;
+      result.applied = pending.map(migration => migration.name);
+      return pending.reduce((value, migration) => migration.migrateDocument(value), current);
+    });
+
+    if (migrated) results.push(result);
+  }
+
+  for (const status of getMigrationStatus(driver)) {
+    if (status.currentVersion > LATEST_SCHEMA_VERSION) {
+      console.warn(`${status.target} is at schema version ${status.currentVersion}, newer than this build (${LATEST_SCHEMA_VERSION})`);
+    }
+  }
+
+  return results;
+}
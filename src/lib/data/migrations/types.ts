@@ -0,0 +1,36 @@
+import type { CollectionName, DocumentName, SchemaTarget } from '../storage';
+
+// Records are migrated as loose JSON; the shapes they end up in live in src/lib/types
+export type LegacyRecord = Record<string, any>;
+
+interface MigrationBase {
+  // Schema version this migration produces; strictly increasing across all migrations
+  version: number;
+  name: string;
+}
+
+export interface CollectionMigration extends MigrationBase {
+  collection: CollectionName;
+  migrateRecord(record: LegacyRecord): LegacyRecord;
+}
+
+export interface DocumentMigration extends MigrationBase {
+  document: DocumentName;
+  migrateDocument(document: LegacyRecord): LegacyRecord;
+}
+
+export type DataMigration = CollectionMigration | DocumentMigration;
+
+export interface MigrationStatus {
+  target: SchemaTarget;
+  currentVersion: number;
+  latestVersion: number;
+  pending: string[];
+}
+
+export interface MigrationResult {
+  target: SchemaTarget;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
@@ -0,0 +1,44 @@
+import { AuditEntityType, AuditEntry } from '../../types';
+import { AuditChangeParams, buildAuditEntry } from '../../audit';
+import { getStorageDriver } from '../storage';
+
+const LOG = 'audit';
+const DEFAULT_LIMIT = 100;
+
+export interface AuditQuery {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actor?: string; // matches the actor's role or id
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export class AuditRepository {
+  // Newest first
+  find(query: AuditQuery = {}): { entries: AuditEntry[]; total: number } {
+    const matches = getStorageDriver()
+      .readLog<AuditEntry>(LOG)
+      .filter(entry =>
+        (!query.entityType || entry.entityType === query.entityType) &&
+        (!query.entityId || entry.entityId === query.entityId) &&
+        (!query.actor || entry.actor.role === query.actor || entry.actor.id === query.actor) &&
+        (!query.from || entry.timestamp >= query.from) &&
+        (!query.to || entry.timestamp <= query.to)
+      )
+      .reverse();
+
+    return { entries: matches.slice(0, query.limit || DEFAULT_LIMIT), total: matches.length };
+  }
+
+  // For changes that do not go through the storage driver (e.g. in-memory settings)
+  record(change: AuditChangeParams): AuditEntry | null {
+    const entry = buildAuditEntry(change);
+    if (entry) {
+      getStorageDriver().appendLog(LOG, entry);
+    }
+    return entry;
+  }
+}
+
+export const auditRepository = new AuditRepository();
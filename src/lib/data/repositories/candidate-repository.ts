@@ -1,60 +1,23 @@
-import fs from 'fs';
-import path from 'path';
 import { Candidate } from '../../types/candidate';
+import { getStorageDriver, UpdateOptions } from '../storage';
 
-const DATA_DIR = path.join(process.cwd(), 'data');
-const CANDIDATES_FILE = path.join(DATA_DIR, 'candidates.json');
+const COLLECTION = 'candidates';
 
 export class CandidateRepository {
-  private ensureDataDirectory(): void {
-    if (!fs.existsSync(DATA_DIR)) {
-      fs.mkdirSync(DATA_DIR, { recursive: true });
-    }
-  }
-
-  private readCandidatesFromFile(): Candidate[] {
-    this.ensureDataDirectory();
-    
-    if (!fs.existsSync(CANDIDATES_FILE)) {
-      fs.writeFileSync(CANDIDATES_FILE, JSON.stringify([]));
-      return [];
-    }
-    
-    try {
-      const rawData = fs.readFileSync(CANDIDATES_FILE, 'utf-8');
-      return JSON.parse(rawData) as Candidate[];
-    } catch (error) {
-      console.error('Error reading candidates file:', error);
-      return [];
-    }
-  }
-
-  private writeCandidatesToFile(candidates: Candidate[]): void {
-    try {
-      this.ensureDataDirectory();
-      fs.writeFileSync(CANDIDATES_FILE, JSON.stringify(candidates, null, 2));
-    } catch (error) {
-      console.error('Error writing candidates file:', error);
-      throw error;
-    }
-  }
-
   findAll(): Candidate[] {
-    return this.readCandidatesFromFile();
+    return getStorageDriver().findAll<Candidate>(COLLECTION);
   }
 
   findById(id: string): Candidate | null {
-    const candidates = this.readCandidatesFromFile();
-    return candidates.find(candidate => candidate.id === id) || null;
+    return getStorageDriver().findById<Candidate>(COLLECTION, id);
   }
 
   findByEmail(email: string): Candidate | null {
-    const candidates = this.readCandidatesFromFile();
+    const candidates = this.findAll();
     return candidates.find(candidate => candidate.email === email) || null;
   }
 
   create(candidateData: Omit<Candidate, 'id' | 'createdAt' | 'updatedAt'>): Candidate {
-    const candidates = this.readCandidatesFromFile();
     const newCandidate: Candidate = {
       ...candidateData,
       id: `candidate-${Date.now()}`,
@@ -62,40 +25,19 @@ export class CandidateRepository {
       updatedAt: new Date().toISOString()
     };
     
-    candidates.push(newCandidate);
-    this.writeCandidatesToFile(candidates);
-    return newCandidate;
+    return getStorageDriver().insert(COLLECTION, newCandidate);
   }
 
-  update(id: string, updates: Partial<Candidate>): Candidate | null {
-    const candidates = this.readCandidatesFromFile();
-    const index = candidates.findIndex(candidate => candidate.id === id);
-    
-    if (index === -1) {
-      return null;
-    }
-    
-    candidates[index] = {
-      ...candidates[index],
+  update(id: string, updates: Partial<Candidate>, options: UpdateOptions = {}): Candidate | null {
+    return getStorageDriver().update<Candidate>(COLLECTION, id, candidate => ({
+      ...candidate,
       ...updates,
       updatedAt: new Date().toISOString()
-    };
-    
-    this.writeCandidatesToFile(candidates);
-    return candidates[index];
+    }), options);
   }
 
   delete(id: string): boolean {
-    const candidates = this.readCandidatesFromFile();
-    const initialLength = candidates.length;
-    const filteredCandidates = candidates.filter(candidate => candidate.id !== id);
-    
-    if (filteredCandidates.length < initialLength) {
-      this.writeCandidatesToFile(filteredCandidates);
-      return true;
-    }
-    
-    return false;
+    return getStorageDriver().remove(COLLECTION, id);
   }
 }
 
@@ -1,9 +1,14 @@
 import fs from 'fs';
 import path from 'path';
 import { ScreeningConfig } from '../../screening/screeningConfigUtils';
+import { DEFAULT_KNOCKOUT_QUESTIONS } from '../../screening/knockoutQuestions';
+import { DEFAULT_SCREENING_SCHEDULING } from '../../screening/screeningSlots';
+import { DEFAULT_NOTIFICATION_TEMPLATES, DEFAULT_SMS_TEMPLATES } from '../../notifications/templates';
+import { getDefaultStructuredDataSchema } from '../../screening/structuredData';
+import { getDefaultWorkflows } from '../../workflow/workflowUtils';
+import { getStorageDriver } from '../storage';
 
 const DATA_DIR = path.join(process.cwd(), 'data');
-const CONFIG_FILE = path.join(DATA_DIR, 'config.json');
 
 export class ConfigRepository {
   private ensureDataDirectory(): void {
@@ -36,7 +41,8 @@ export class ConfigRepository {
               weight: 0.3,
               description: "Customer service skills and attitude"
             }
-          }
+          },
+          structuredDataSchema: getDefaultStructuredDataSchema('server')
         },
         cook: {
           name: "Cook",
@@ -59,7 +65,8 @@ export class ConfigRepository {
               weight: 0.3,
               description: "Food safety knowledge and practices"
             }
-          }
+          },
+          structuredDataSchema: getDefaultStructuredDataSchema('cook')
         }
       },
       generalSettings: {
@@ -71,6 +78,11 @@ export class ConfigRepository {
         }
       },
       mandatoryQuestions: [],
+      knockoutQuestions: DEFAULT_KNOCKOUT_QUESTIONS,
+      screeningScheduling: DEFAULT_SCREENING_SCHEDULING,
+      notificationTemplates: DEFAULT_NOTIFICATION_TEMPLATES,
+      smsTemplates: DEFAULT_SMS_TEMPLATES,
+      workflows: getDefaultWorkflows(),
       vapiSettings: {
         voice: {
           provider: "elevenlabs",
@@ -96,63 +108,58 @@ export class ConfigRepository {
     };
   }
 
-  private readConfigFromFile(): ScreeningConfig {
-    this.ensureDataDirectory();
-    
-    if (!fs.existsSync(CONFIG_FILE)) {
+  private readConfig(): ScreeningConfig {
+    const storage = getStorageDriver();
+    const config = storage.readDocument<ScreeningConfig>('config');
+
+    if (!config) {
       const defaultConfig = this.getDefaultConfig();
-      fs.writeFileSync(CONFIG_FILE, JSON.stringify(defaultConfig, null, 2));
+      storage.writeDocument('config', defaultConfig);
       return defaultConfig;
     }
-    
-    try {
-      const rawData = fs.readFileSync(CONFIG_FILE, 'utf-8');
-      return JSON.parse(rawData) as ScreeningConfig;
-    } catch (error) {
-      console.error('Error reading config file:', error);
-      return this.getDefaultConfig();
-    }
+
+    return config;
   }
 
-  private writeConfigToFile(config: ScreeningConfig): void {
+  private writeConfig(config: ScreeningConfig): void {
     try {
-      this.ensureDataDirectory();
-      fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+      getStorageDriver().writeDocument('config', config);
     } catch (error) {
-      console.error('Error writing config file:', error);
+      console.error('Error writing config:', error);
       throw error;
     }
   }
 
   getConfig(): ScreeningConfig {
-    return this.readConfigFromFile();
+    return this.readConfig();
   }
 
   updateConfig(config: ScreeningConfig): ScreeningConfig {
-    this.writeConfigToFile(config);
+    this.writeConfig(config);
     return config;
   }
 
   updateRoleConfig(roleId: string, roleConfig: any): ScreeningConfig {
-    const config = this.readConfigFromFile();
+    const config = this.readConfig();
     config.roles[roleId] = roleConfig;
-    this.writeConfigToFile(config);
+    this.writeConfig(config);
     return config;
   }
 
   updateGeneralSettings(settings: any): ScreeningConfig {
-    const config = this.readConfigFromFile();
+    const config = this.readConfig();
     config.generalSettings = { ...config.generalSettings, ...settings };
-    this.writeConfigToFile(config);
+    this.writeConfig(config);
     return config;
   }
 
   backup(): string {
-    const config = this.readConfigFromFile();
+    const config = this.readConfig();
     const timestamp = new Date().toISOString().replace(/[:\.]/g, '-');
     const backupPath = path.join(DATA_DIR, `config.backup.${timestamp}.json`);
     
     try {
+      this.ensureDataDirectory();
       fs.writeFileSync(backupPath, JSON.stringify(config, null, 2));
       return backupPath;
     } catch (error) {
@@ -165,7 +172,7 @@ export class ConfigRepository {
     // Create backup before restoring
     this.backup();
     
-    this.writeConfigToFile(configData);
+    this.writeConfig(configData);
     return configData;
   }
 }
@@ -1,70 +1,33 @@
-import fs from 'fs';
-import path from 'path';
 import { ScreeningCall, ApplicationStatus, ScreeningSummary } from '../../types';
+import { getStorageDriver, UpdateOptions } from '../storage';
 
-const DATA_DIR = path.join(process.cwd(), 'data');
-const SCREENINGS_FILE = path.join(DATA_DIR, 'screenings.json');
+const COLLECTION = 'screenings';
 
 export class ScreeningRepository {
-  private ensureDataDirectory(): void {
-    if (!fs.existsSync(DATA_DIR)) {
-      fs.mkdirSync(DATA_DIR, { recursive: true });
-    }
-  }
-
-  private readScreeningsFromFile(): ScreeningCall[] {
-    this.ensureDataDirectory();
-    
-    if (!fs.existsSync(SCREENINGS_FILE)) {
-      fs.writeFileSync(SCREENINGS_FILE, JSON.stringify([]));
-      return [];
-    }
-    
-    try {
-      const rawData = fs.readFileSync(SCREENINGS_FILE, 'utf-8');
-      return JSON.parse(rawData) as ScreeningCall[];
-    } catch (error) {
-      console.error('Error reading screenings file:', error);
-      return [];
-    }
-  }
-
-  private writeScreeningsToFile(screenings: ScreeningCall[]): void {
-    try {
-      this.ensureDataDirectory();
-      fs.writeFileSync(SCREENINGS_FILE, JSON.stringify(screenings, null, 2));
-    } catch (error) {
-      console.error('Error writing screenings file:', error);
-      throw error;
-    }
-  }
-
   findAll(): ScreeningCall[] {
-    return this.readScreeningsFromFile();
+    return getStorageDriver().findAll<ScreeningCall>(COLLECTION);
   }
 
   findById(id: string): ScreeningCall | null {
-    const screenings = this.readScreeningsFromFile();
-    return screenings.find(screening => screening.id === id) || null;
+    return getStorageDriver().findById<ScreeningCall>(COLLECTION, id);
   }
 
   findByApplicationId(applicationId: string): ScreeningCall[] {
-    const screenings = this.readScreeningsFromFile();
+    const screenings = this.findAll();
     return screenings.filter(screening => screening.applicationId === applicationId);
   }
 
   findByCandidateId(candidateId: string): ScreeningCall[] {
-    const screenings = this.readScreeningsFromFile();
+    const screenings = this.findAll();
     return screenings.filter(screening => screening.candidateId === candidateId);
   }
 
   findByStatus(status: ApplicationStatus): ScreeningCall[] {
-    const screenings = this.readScreeningsFromFile();
+    const screenings = this.findAll();
     return screenings.filter(screening => screening.status === status);
   }
 
   create(screeningData: Omit<ScreeningCall, 'id' | 'createdAt' | 'updatedAt'>): ScreeningCall {
-    const screenings = this.readScreeningsFromFile();
     const newScreening: ScreeningCall = {
       ...screeningData,
       id: `screening-${Date.now()}`,
@@ -72,27 +35,15 @@ export class ScreeningRepository {
       updatedAt: new Date().toISOString()
     };
     
-    screenings.push(newScreening);
-    this.writeScreeningsToFile(screenings);
-    return newScreening;
+    return getStorageDriver().insert(COLLECTION, newScreening);
   }
 
-  update(id: string, updates: Partial<ScreeningCall>): ScreeningCall | null {
-    const screenings = this.readScreeningsFromFile();
-    const index = screenings.findIndex(screening => screening.id === id);
-    
-    if (index === -1) {
-      return null;
-    }
-    
-    screenings[index] = {
-      ...screenings[index],
+  update(id: string, updates: Partial<ScreeningCall>, options: UpdateOptions = {}): ScreeningCall | null {
+    return getStorageDriver().update<ScreeningCall>(COLLECTION, id, screening => ({
+      ...screening,
       ...updates,
       updatedAt: new Date().toISOString()
-    };
-    
-    this.writeScreeningsToFile(screenings);
-    return screenings[index];
+    }), options);
   }
 
   updateStatus(id: string, status: ApplicationStatus, additionalData: Partial<ScreeningCall> = {}): ScreeningCall | null {
@@ -121,16 +72,7 @@ export class ScreeningRepository {
   }
 
   delete(id: string): boolean {
-    const screenings = this.readScreeningsFromFile();
-    const initialLength = screenings.length;
-    const filteredScreenings = screenings.filter(screening => screening.id !== id);
-    
-    if (filteredScreenings.length < initialLength) {
-      this.writeScreeningsToFile(filteredScreenings);
-      return true;
-    }
-    
-    return false;
+    return getStorageDriver().remove(COLLECTION, id);
   }
 }
 
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import { StorageLockTimeoutError } from './errors';
+
+const LOCK_TIMEOUT_MS = 10_000;
+const STALE_LOCK_MS = 30_000;
+const RETRY_INTERVAL_MS = 20;
+
+// Locks held by this process, so nested calls on the same file do not deadlock
+const heldLocks = new Set<string>();
+const sleepCell = new Int32Array(new SharedArrayBuffer(4));
+
+function sleep(ms: number): void {
+  Atomics.wait(sleepCell, 0, 0, ms);
+}
+
+// The lock file's identity and age, or null when nobody holds the lock
+function statLock(lockPath: string): fs.Stats | null {
+  try {
+    return fs.statSync(lockPath);
+  } catch {
+    return null;
+  }
+}
+
+function removeQuietly(filePath: string): void {
+  try {
+    fs.unlinkSync(filePath);
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Moves a stale lock out of the way. The rename to a name only this call uses is atomic,
+ * so of several processes reclaiming the same lock only one moves it. The moved file is
+ * then checked to be the lock that was found stale and not a fresh one another process
+ * took in between; a fresh one is put back, unless yet another lock has replaced it.
+ */
+function reclaimStaleLock(lockPath: string, stale: fs.Stats): void {
+  const movedPath = `${lockPath}.${process.pid}.${Date.now()}.stale`;
+  try {
+    fs.renameSync(lockPath, movedPath);
+  } catch {
+    // Another process reclaimed it first
+    return;
+  }
+
+  if (statLock(movedPath)?.ino !== stale.ino) {
+    try {
+      fs.linkSync(movedPath, lockPath);
+    } catch {
+      // A newer lock is already in place
+    }
+  }
+  removeQuietly(movedPath);
+}
+
+/**
+ * Runs `action` while holding an exclusive `<file>.lock` lock file.
+ * The lock is shared by every request and every process using the same data directory.
+ * Locks left behind by a crashed process are reclaimed after STALE_LOCK_MS.
+ */
+export function withFileLock<T>(filePath: string, action: () => T): T {
+  const lockPath = `${filePath}.lock`;
+
+  if (heldLocks.has(lockPath)) {
+    return action();
+  }
+
+  const startedAt = Date.now();
+  let lockFd: number | null = null;
+
+  while (lockFd === null) {
+    try {
+      lockFd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(lockFd, String(process.pid));
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') {
+        throw error;
+      }
+
+      const current = statLock(lockPath);
+      if (!current) {
+        // Released between the failed open and the stat; retry immediately
+        continue;
+      }
+
+      if (Date.now() - current.mtimeMs > STALE_LOCK_MS) {
+        console.warn(`Removing stale lock ${lockPath}`);
+        reclaimStaleLock(lockPath, current);
+        continue;
+      }
+
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new StorageLockTimeoutError(lockPath);
+      }
+
+      sleep(RETRY_INTERVAL_MS);
+    }
+  }
+
+  heldLocks.add(lockPath);
+  try {
+    return action();
+  } finally {
+    heldLocks.delete(lockPath);
+    const held = fs.fstatSync(lockFd);
+    fs.closeSync(lockFd);
+    // A lock held past STALE_LOCK_MS may have been reclaimed; only remove it while it is still ours
+    if (statLock(lockPath)?.ino === held.ino) {
+      removeQuietly(lockPath);
+    }
+  }
+}
+
+/**
+ * Writes `contents` to a temp file next to `filePath`, flushes it and renames it into place.
+ * Readers see either the old file or the new one, never a half-written file.
+ */
+export function writeFileAtomic(filePath: string, contents: string): void {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  try {
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeFileSync(fd, contents, 'utf-8');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    removeQuietly(tempPath);
+    throw error;
+  }
+}
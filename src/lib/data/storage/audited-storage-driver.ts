@@ -0,0 +1,147 @@
+import { AuditChangeParams, buildAuditEntry } from '../../audit/entry';
+import type { AuditEntityType } from '../../types/audit';
+import {
+  CollectionName,
+  DocumentName,
+  LogName,
+  SchemaTarget,
+  StorageDriver,
+  StorageDriverName,
+  StoredRecord,
+  UpdateOptions
+} from './types';
+
+// Collections without an entity type hold operational state and are not audited
+const ENTITY_TYPES: Record<CollectionName, AuditEntityType | null> = {
+  applications: 'application',
+  candidates: 'candidate',
+  jobs: 'job',
+  screenings: 'screening',
+  interviews: 'interview',
+  queue: null,
+  users: 'user',
+  locations: 'location'
+};
+
+/**
+ * Wraps another driver and appends an audit entry for every insert, update,
+ * remove and document write. Schema migrations are not audited.
+ */
+export class AuditedStorageDriver implements StorageDriver {
+  readonly name: StorageDriverName;
+
+  constructor(private readonly inner: StorageDriver) {
+    this.name = inner.name;
+  }
+
+  // Auditing must never fail the change it describes
+  private record(params: AuditChangeParams): void {
+    try {
+      const entry = buildAuditEntry(params);
+      if (entry) {
+        this.inner.appendLog('audit', entry);
+      }
+    } catch (error) {
+      console.error('Error writing audit entry:', error);
+    }
+  }
+
+  private recordCollectionChange(collection: CollectionName, params: Omit<AuditChangeParams, 'entityType'>): void {
+    const entityType = ENTITY_TYPES[collection];
+    if (entityType) {
+      this.record({ ...params, entityType });
+    }
+  }
+
+  findAll<T extends StoredRecord>(collection: CollectionName): T[] {
+    return this.inner.findAll<T>(collection);
+  }
+
+  findById<T extends StoredRecord>(collection: CollectionName, id: string): T | null {
+    return this.inner.findById<T>(collection, id);
+  }
+
+  insert<T extends StoredRecord>(collection: CollectionName, record: T): T {
+    const created = this.inner.insert(collection, record);
+    this.recordCollectionChange(collection, { entityId: created.id, action: 'create', before: null, after: created });
+    return created;
+  }
+
+  update<T extends StoredRecord>(
+    collection: CollectionName,
+    id: string,
+    updater: (current: T) => T,
+    options?: UpdateOptions
+  ): T | null {
+    const captured: { before?: T } = {};
+    const updated = this.inner.update<T>(collection, id, current => {
+      captured.before = current;
+      return updater(current);
+    }, options);
+
+    if (updated && captured.before) {
+      this.recordCollectionChange(collection, { entityId: id, action: 'update', before: captured.before, after: updated });
+    }
+    return updated;
+  }
+
+  remove(collection: CollectionName, id: string): boolean {
+    const before = this.inner.findById(collection, id);
+    const removed = this.inner.remove(collection, id);
+
+    if (removed) {
+      this.recordCollectionChange(collection, { entityId: id, action: 'delete', before, after: null });
+    }
+    return removed;
+  }
+
+  replaceAll<T extends StoredRecord>(collection: CollectionName, records: T[]): void {
+    const previous = new Map(this.inner.findAll<T>(collection).map(record => [record.id, record]));
+    this.inner.replaceAll(collection, records);
+
+    for (const record of records) {
+      const before = previous.get(record.id) || null;
+      previous.delete(record.id);
+      this.recordCollectionChange(collection, { entityId: record.id, action: before ? 'update' : 'create', before, after: record });
+    }
+    previous.forEach((before, id) => this.recordCollectionChange(collection, { entityId: id, action: 'delete', before, after: null }));
+  }
+
+  readDocument<T>(name: DocumentName): T | null {
+    return this.inner.readDocument<T>(name);
+  }
+
+  writeDocument<T>(name: DocumentName, value: T): void {
+    const before = this.inner.readDocument(name);
+    this.inner.writeDocument(name, value);
+    this.record({ entityType: 'config', entityId: name, action: before ? 'update' : 'create', before, after: value });
+  }
+
+  appendLog<T>(log: LogName, entry: T): void {
+    this.inner.appendLog(log, entry);
+  }
+
+  readLog<T>(log: LogName): T[] {
+    return this.inner.readLog<T>(log);
+  }
+
+  getSchemaVersion(target: SchemaTarget): number {
+    return this.inner.getSchemaVersion(target);
+  }
+
+  migrateCollection<T extends StoredRecord>(
+    collection: CollectionName,
+    toVersion: number,
+    transform: (records: T[], fromVersion: number) => T[]
+  ): boolean {
+    return this.inner.migrateCollection(collection, toVersion, transform);
+  }
+
+  migrateDocument<T>(
+    name: DocumentName,
+    toVersion: number,
+    transform: (document: T, fromVersion: number) => T
+  ): boolean {
+    return this.inner.migrateDocument(name, toVersion, transform);
+  }
+}
@@ -0,0 +1,31 @@
+// Raised when a write is based on a stale copy of the record (optimistic check failed)
+export class StorageConflictError extends Error {
+  constructor(
+    public readonly collection: string,
+    public readonly recordId: string,
+    public readonly expectedUpdatedAt: string,
+    public readonly actualUpdatedAt?: string
+  ) {
+    super(`${collection} record ${recordId} was modified by another request`);
+    this.name = 'StorageConflictError';
+  }
+}
+
+// Throws a StorageConflictError when `current` changed since the caller read it
+export function assertNotModified(
+  collection: string,
+  current: { id: string; updatedAt?: string },
+  expectedUpdatedAt?: string
+): void {
+  if (expectedUpdatedAt && current.updatedAt !== expectedUpdatedAt) {
+    throw new StorageConflictError(collection, current.id, expectedUpdatedAt, current.updatedAt);
+  }
+}
+
+// Raised when the data file lock cannot be acquired in time
+export class StorageLockTimeoutError extends Error {
+  constructor(public readonly lockPath: string) {
+    super(`Timed out waiting for lock ${lockPath}`);
+    this.name = 'StorageLockTimeoutError';
+  }
+}
@@ -0,0 +1,46 @@
+import { AuditedStorageDriver } from './audited-storage-driver';
+import { JsonStorageDriver } from './json-storage-driver';
+import { StorageDriver, StorageDriverName } from './types';
+
+export * from './types';
+export * from './errors';
+
+let storageDriver: StorageDriver | null = null;
+
+function resolveDriverName(): StorageDriverName {
+  const configured = (process.env.STORAGE_DRIVER || 'json').toLowerCase();
+
+  if (configured !== 'json' && configured !== 'sqlite') {
+    console.warn(`Unknown STORAGE_DRIVER "${configured}", falling back to json`);
+    return 'json';
+  }
+
+  return configured;
+}
+
+// Returns the process-wide storage driver selected by the STORAGE_DRIVER env var
+export function getStorageDriver(): StorageDriver {
+  if (!storageDriver) {
+    const driverName = resolveDriverName();
+
+    let baseDriver: StorageDriver;
+
+    if (driverName === 'sqlite') {
+      // Loaded on demand so JSON deployments never touch the native SQLite module
+      const { SqliteStorageDriver } = require('./sqlite-storage-driver') as typeof import('./sqlite-storage-driver');
+      baseDriver = new SqliteStorageDriver();
+    } else {
+      baseDriver = new JsonStorageDriver();
+    }
+
+    // Every mutation made through the driver lands in the audit log
+    storageDriver = new AuditedStorageDriver(baseDriver);
+  }
+
+  return storageDriver;
+}
+
+// Overrides the active driver (used by scripts that need a specific backend)
+export function setStorageDriver(driver: StorageDriver | null): void {
+  storageDriver = driver;
+}
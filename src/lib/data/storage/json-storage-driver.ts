@@ -0,0 +1,306 @@
+import fs from 'fs';
+import path from 'path';
+import { DATA_FILES, FILE_PATHS } from '../../config/file-paths';
+import { withFileLock, writeFileAtomic } from './atomic-file';
+import { assertNotModified } from './errors';
+import { CollectionName, DocumentName, LogName, SchemaTarget, StorageDriver, StoredRecord, UpdateOptions } from './types';
+
+const DATA_DIR = path.join(process.cwd(), FILE_PATHS.DATA_DIR);
+
+const COLLECTION_FILES: Record<CollectionName, string> = {
+  applications: DATA_FILES.APPLICATIONS,
+  candidates: DATA_FILES.CANDIDATES,
+  jobs: DATA_FILES.JOBS,
+  screenings: DATA_FILES.SCREENINGS,
+  interviews: DATA_FILES.INTERVIEWS,
+  queue: DATA_FILES.JOB_QUEUE,
+  users: DATA_FILES.USERS,
+  locations: DATA_FILES.LOCATIONS
+};
+
+const DOCUMENT_FILES: Record<DocumentName, string> = {
+  config: DATA_FILES.CONFIG
+};
+
+const LOG_FILES: Record<LogName, string> = {
+  audit: DATA_FILES.AUDIT_LOG,
+  'webhook-events': DATA_FILES.WEBHOOK_EVENTS_LOG,
+  'vapi-simulator-calls': DATA_FILES.VAPI_SIMULATOR_LOG,
+  notifications: DATA_FILES.NOTIFICATIONS_LOG,
+  'sms-outbox': DATA_FILES.SMS_OUTBOX_LOG,
+  'sms-inbound': DATA_FILES.SMS_INBOUND_LOG
+};
+
+// Top-level key holding a document's schema version (e.g. in config.json)
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Versioned collection files wrap their records; a bare array is schema version 0
+interface CollectionFile<T> {
+  schemaVersion: number;
+  records: T[];
+}
+
+function parseCollectionFile<T>(contents: unknown): CollectionFile<T> {
+  if (Array.isArray(contents)) {
+    return { schemaVersion: 0, records: contents as T[] };
+  }
+
+  const file = contents as Partial<CollectionFile<T>> | null;
+  if (!file || !Array.isArray(file.records)) {
+    throw new Error('Unrecognized collection file layout');
+  }
+
+  return { schemaVersion: Number(file.schemaVersion) || 0, records: file.records };
+}
+
+function isDocumentName(target: SchemaTarget): target is DocumentName {
+  return target in DOCUMENT_FILES;
+}
+
+/**
+ * Stores every collection as a JSON array in data/*.json (the original layout),
+ * wrapped as { schemaVersion, records } once the file has been migrated.
+ * Every read-modify-write runs under a per-file lock and replaces the file atomically.
+ */
+export class JsonStorageDriver implements StorageDriver {
+  readonly name = 'json' as const;
+
+  constructor(private readonly dataDir: string = DATA_DIR) {}
+
+  private ensureDataDirectory(): void {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+  }
+
+  private collectionPath(collection: CollectionName): string {
+    return path.join(this.dataDir, COLLECTION_FILES[collection]);
+  }
+
+  private documentPath(name: DocumentName): string {
+    return path.join(this.dataDir, DOCUMENT_FILES[name]);
+  }
+
+  // 'wx' never clobbers a file another writer created in the meantime
+  private createEmptyCollection(filePath: string): void {
+    try {
+      fs.writeFileSync(filePath, JSON.stringify([]), { flag: 'wx' });
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+
+  // Holds the collection's file lock for the duration of a read-modify-write
+  private mutate<R>(collection: CollectionName, action: () => R): R {
+    this.ensureDataDirectory();
+    return withFileLock(this.collectionPath(collection), action);
+  }
+
+  // With `forWrite`, an unreadable file aborts the write instead of being overwritten with []
+  private readCollectionFile<T>(collection: CollectionName, forWrite: boolean = false): CollectionFile<T> {
+    this.ensureDataDirectory();
+    const filePath = this.collectionPath(collection);
+
+    if (!fs.existsSync(filePath)) {
+      this.createEmptyCollection(filePath);
+      return { schemaVersion: 0, records: [] };
+    }
+
+    try {
+      const rawData = fs.readFileSync(filePath, 'utf-8');
+      return parseCollectionFile<T>(JSON.parse(rawData));
+    } catch (error) {
+      console.error(`Error reading ${collection} file:`, error);
+      if (forWrite) {
+        throw error;
+      }
+      return { schemaVersion: 0, records: [] };
+    }
+  }
+
+  private readCollection<T>(collection: CollectionName): T[] {
+    return this.readCollectionFile<T>(collection).records;
+  }
+
+  private writeCollection<T>(collection: CollectionName, file: CollectionFile<T>): void {
+    try {
+      this.ensureDataDirectory();
+      // Unversioned files keep the original bare-array layout
+      const contents = file.schemaVersion > 0 ? file : file.records;
+      writeFileAtomic(this.collectionPath(collection), JSON.stringify(contents, null, 2));
+    } catch (error) {
+      console.error(`Error writing ${collection} file:`, error);
+      throw error;
+    }
+  }
+
+  private readDocumentFile<T>(name: DocumentName): { schemaVersion: number; document: T | null } {
+    const filePath = this.documentPath(name);
+
+    if (!fs.existsSync(filePath)) {
+      return { schemaVersion: 0, document: null };
+    }
+
+    try {
+      const rawData = fs.readFileSync(filePath, 'utf-8');
+      if (!rawData.trim()) {
+        return { schemaVersion: 0, document: null };
+      }
+
+      const { [SCHEMA_VERSION_KEY]: schemaVersion, ...document } = JSON.parse(rawData);
+      return { schemaVersion: Number(schemaVersion) || 0, document: document as T };
+    } catch (error) {
+      console.error(`Error reading ${name} file:`, error);
+      return { schemaVersion: 0, document: null };
+    }
+  }
+
+  private writeDocumentFile<T>(name: DocumentName, document: T, schemaVersion: number): void {
+    const contents = schemaVersion > 0 ? { ...document, [SCHEMA_VERSION_KEY]: schemaVersion } : document;
+    writeFileAtomic(this.documentPath(name), JSON.stringify(contents, null, 2));
+  }
+
+  findAll<T extends StoredRecord>(collection: CollectionName): T[] {
+    return this.readCollection<T>(collection);
+  }
+
+  findById<T extends StoredRecord>(collection: CollectionName, id: string): T | null {
+    return this.readCollection<T>(collection).find(record => record.id === id) || null;
+  }
+
+  insert<T extends StoredRecord>(collection: CollectionName, record: T): T {
+    return this.mutate(collection, () => {
+      const file = this.readCollectionFile<T>(collection, true);
+      file.records.push(record);
+      this.writeCollection(collection, file);
+      return record;
+    });
+  }
+
+  update<T extends StoredRecord>(
+    collection: CollectionName,
+    id: string,
+    updater: (current: T) => T,
+    options: UpdateOptions = {}
+  ): T | null {
+    return this.mutate(collection, () => {
+      const file = this.readCollectionFile<T>(collection, true);
+      const records = file.records;
+      const index = records.findIndex(record => record.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      assertNotModified(collection, records[index], options.expectedUpdatedAt);
+
+      records[index] = updater(records[index]);
+      this.writeCollection(collection, file);
+      return records[index];
+    });
+  }
+
+  remove(collection: CollectionName, id: string): boolean {
+    return this.mutate(collection, () => {
+      const file = this.readCollectionFile<StoredRecord>(collection, true);
+      const remaining = file.records.filter(record => record.id !== id);
+
+      if (remaining.length === file.records.length) {
+        return false;
+      }
+
+      this.writeCollection(collection, { ...file, records: remaining });
+      return true;
+    });
+  }
+
+  replaceAll<T extends StoredRecord>(collection: CollectionName, records: T[]): void {
+    this.mutate(collection, () => {
+      const { schemaVersion } = this.readCollectionFile<T>(collection, true);
+      this.writeCollection(collection, { schemaVersion, records });
+    });
+  }
+
+  readDocument<T>(name: DocumentName): T | null {
+    return this.readDocumentFile<T>(name).document;
+  }
+
+  writeDocument<T>(name: DocumentName, value: T): void {
+    try {
+      this.ensureDataDirectory();
+      withFileLock(this.documentPath(name), () => {
+        const { schemaVersion } = this.readDocumentFile<T>(name);
+        this.writeDocumentFile(name, value, schemaVersion);
+      });
+    } catch (error) {
+      console.error(`Error writing ${name} file:`, error);
+      throw error;
+    }
+  }
+
+  appendLog<T>(log: LogName, entry: T): void {
+    this.ensureDataDirectory();
+    const filePath = path.join(this.dataDir, LOG_FILES[log]);
+    withFileLock(filePath, () => fs.appendFileSync(filePath, JSON.stringify(entry) + '\n', 'utf-8'));
+  }
+
+  readLog<T>(log: LogName): T[] {
+    const filePath = path.join(this.dataDir, LOG_FILES[log]);
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    const entries: T[] = [];
+    for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as T);
+      } catch (error) {
+        // A crash mid-append can leave a truncated last line; skip it
+        console.error(`Skipping unreadable ${log} log entry:`, error);
+      }
+    }
+    return entries;
+  }
+
+  getSchemaVersion(target: SchemaTarget): number {
+    return isDocumentName(target)
+      ? this.readDocumentFile(target).schemaVersion
+      : this.readCollectionFile(target).schemaVersion;
+  }
+
+  migrateCollection<T extends StoredRecord>(
+    collection: CollectionName,
+    toVersion: number,
+    transform: (records: T[], fromVersion: number) => T[]
+  ): boolean {
+    return this.mutate(collection, () => {
+      const { schemaVersion, records } = this.readCollectionFile<T>(collection, true);
+      if (schemaVersion >= toVersion) {
+        return false;
+      }
+
+      this.writeCollection(collection, { schemaVersion: toVersion, records: transform(records, schemaVersion) });
+      return true;
+    });
+  }
+
+  migrateDocument<T>(
+    name: DocumentName,
+    toVersion: number,
+    transform: (document: T, fromVersion: number) => T
+  ): boolean {
+    this.ensureDataDirectory();
+    return withFileLock(this.documentPath(name), () => {
+      const { schemaVersion, document } = this.readDocumentFile<T>(name);
+      if (document === null || schemaVersion >= toVersion) {
+        return false;
+      }
+
+      this.writeDocumentFile(name, transform(document, schemaVersion), toVersion);
+      return true;
+    });
+  }
+}
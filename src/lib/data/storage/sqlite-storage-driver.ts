@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { FILE_PATHS } from '../../config/file-paths';
+import { JsonStorageDriver } from './json-storage-driver';
+import { assertNotModified } from './errors';
+import { CollectionName, DocumentName, LogName, SchemaTarget, StorageDriver, StoredRecord, UpdateOptions } from './types';
+
+const DEFAULT_DATABASE_FILE = path.join(process.cwd(), FILE_PATHS.DATA_DIR, 'recruitment.db');
+
+const COLLECTIONS: CollectionName[] = ['applications', 'candidates', 'jobs', 'screenings', 'interviews', 'queue', 'users', 'locations'];
+const DOCUMENTS: DocumentName[] = ['config'];
+
+interface RecordRow {
+  data: string;
+}
+
+interface VersionRow {
+  version: number;
+}
+
+/**
+ * Stores each collection in its own table as (id, JSON data) rows.
+ * Writes run inside IMMEDIATE transactions, so concurrent requests and
+ * processes serialize on the database lock instead of overwriting each other.
+ */
+export class SqliteStorageDriver implements StorageDriver {
+  readonly name = 'sqlite' as const;
+
+  private db: BetterSqlite3.Database;
+
+  constructor(databaseFile: string = process.env.SQLITE_DATABASE_PATH || DEFAULT_DATABASE_FILE) {
+    // Required lazily so the native module is only loaded when SQLite is selected
+    const Database = require('better-sqlite3') as typeof BetterSqlite3;
+
+    const directory = path.dirname(databaseFile);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+
+    this.db = new Database(databaseFile);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.initializeSchema();
+  }
+
+  private tableExists(table: string): boolean {
+    const row = this.db
+      .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`)
+      .get(table);
+    return Boolean(row);
+  }
+
+  // Creates missing tables and seeds newly created ones from the existing JSON files
+  private initializeSchema(): void {
+    const seedSource = new JsonStorageDriver();
+    const hasDocumentsTable = this.tableExists('documents');
+
+    this.db.transaction(() => {
+      this.db.exec(`CREATE TABLE IF NOT EXISTS schema_versions (name TEXT PRIMARY KEY, version INTEGER NOT NULL)`);
+      this.db.exec(`CREATE TABLE IF NOT EXISTS logs (seq INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, data TEXT NOT NULL)`);
+
+      for (const collection of COLLECTIONS) {
+        if (this.tableExists(collection)) continue;
+
+        this.db.exec(`CREATE TABLE ${collection} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+        const insert = this.db.prepare(`INSERT OR REPLACE INTO ${collection} (id, data) VALUES (?, ?)`);
+        for (const record of seedSource.findAll(collection)) {
+          insert.run(record.id, JSON.stringify(record));
+        }
+        this.setSchemaVersion(collection, seedSource.getSchemaVersion(collection));
+      }
+
+      if (!hasDocumentsTable) {
+        this.db.exec(`CREATE TABLE documents (name TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+        const insert = this.db.prepare(`INSERT INTO documents (name, data) VALUES (?, ?)`);
+        for (const name of DOCUMENTS) {
+          const document = seedSource.readDocument(name);
+          if (document !== null) {
+            insert.run(name, JSON.stringify(document));
+            this.setSchemaVersion(name, seedSource.getSchemaVersion(name));
+          }
+        }
+      }
+    }).immediate();
+  }
+
+  findAll<T extends StoredRecord>(collection: CollectionName): T[] {
+    const rows = this.db.prepare(`SELECT data FROM ${collection} ORDER BY rowid`).all() as RecordRow[];
+    return rows.map(row => JSON.parse(row.data) as T);
+  }
+
+  findById<T extends StoredRecord>(collection: CollectionName, id: string): T | null {
+    const row = this.db.prepare(`SELECT data FROM ${collection} WHERE id = ?`).get(id) as RecordRow | undefined;
+    return row ? (JSON.parse(row.data) as T) : null;
+  }
+
+  insert<T extends StoredRecord>(collection: CollectionName, record: T): T {
+    this.db
+      .prepare(`INSERT INTO ${collection} (id, data) VALUES (?, ?)`)
+      .run(record.id, JSON.stringify(record));
+    return record;
+  }
+
+  update<T extends StoredRecord>(
+    collection: CollectionName,
+    id: string,
+    updater: (current: T) => T,
+    options: UpdateOptions = {}
+  ): T | null {
+    return this.db.transaction((): T | null => {
+      const current = this.findById<T>(collection, id);
+      if (!current) {
+        return null;
+      }
+
+      assertNotModified(collection, current, options.expectedUpdatedAt);
+
+      const updated = updater(current);
+      this.db
+        .prepare(`UPDATE ${collection} SET data = ? WHERE id = ?`)
+        .run(JSON.stringify(updated), id);
+      return updated;
+    }).immediate();
+  }
+
+  remove(collection: CollectionName, id: string): boolean {
+    const result = this.db.prepare(`DELETE FROM ${collection} WHERE id = ?`).run(id);
+    return result.changes > 0;
+  }
+
+  replaceAll<T extends StoredRecord>(collection: CollectionName, records: T[]): void {
+    this.db.transaction(() => {
+      this.db.exec(`DELETE FROM ${collection}`);
+      const insert = this.db.prepare(`INSERT OR REPLACE INTO ${collection} (id, data) VALUES (?, ?)`);
+      for (const record of records) {
+        insert.run(record.id, JSON.stringify(record));
+      }
+    }).immediate();
+  }
+
+  readDocument<T>(name: DocumentName): T | null {
+    const row = this.db.prepare(`SELECT data FROM documents WHERE name = ?`).get(name) as RecordRow | undefined;
+    return row ? (JSON.parse(row.data) as T) : null;
+  }
+
+  writeDocument<T>(name: DocumentName, value: T): void {
+    this.db
+      .prepare(`INSERT INTO documents (name, data) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET data = excluded.data`)
+      .run(name, JSON.stringify(value));
+  }
+
+  appendLog<T>(log: LogName, entry: T): void {
+    this.db.prepare(`INSERT INTO logs (name, data) VALUES (?, ?)`).run(log, JSON.stringify(entry));
+  }
+
+  readLog<T>(log: LogName): T[] {
+    const rows = this.db.prepare(`SELECT data FROM logs WHERE name = ? ORDER BY seq`).all(log) as RecordRow[];
+    return rows.map(row => JSON.parse(row.data) as T);
+  }
+
+  getSchemaVersion(target: SchemaTarget): number {
+    const row = this.db.prepare(`SELECT version FROM schema_versions WHERE name = ?`).get(target) as VersionRow | undefined;
+    return row ? row.version : 0;
+  }
+
+  private setSchemaVersion(target: SchemaTarget, version: number): void {
+    this.db
+      .prepare(`INSERT INTO schema_versions (name, version) VALUES (?, ?) ON CONFLICT(name) DO UPDATE SET version = excluded.version`)
+      .run(target, version);
+  }
+
+  migrateCollection<T extends StoredRecord>(
+    collection: CollectionName,
+    toVersion: number,
+    transform: (records: T[], fromVersion: number) => T[]
+  ): boolean {
+    return this.db.transaction((): boolean => {
+      const fromVersion = this.getSchemaVersion(collection);
+      if (fromVersion >= toVersion) {
+        return false;
+      }
+
+      this.replaceAll(collection, transform(this.findAll<T>(collection), fromVersion));
+      this.setSchemaVersion(collection, toVersion);
+      return true;
+    }).immediate();
+  }
+
+  migrateDocument<T>(
+    name: DocumentName,
+    toVersion: number,
+    transform: (document: T, fromVersion: number) => T
+  ): boolean {
+    return this.db.transaction((): boolean => {
+      const fromVersion = this.getSchemaVersion(name);
+      const document = this.readDocument<T>(name);
+      if (document === null || fromVersion >= toVersion) {
+        return false;
+      }
+
+      this.writeDocument(name, transform(document, fromVersion));
+      this.setSchemaVersion(name, toVersion);
+      return true;
+    }).immediate();
+  }
+}
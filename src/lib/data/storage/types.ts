@@ -0,0 +1,81 @@
+// Storage abstraction shared by the repositories and the legacy service modules
+
+export type StorageDriverName = 'json' | 'sqlite';
+
+// Record collections, one per data file in the JSON layout
+export type CollectionName = 'applications' | 'candidates' | 'jobs' | 'screenings' | 'interviews' | 'queue' | 'users' | 'locations';
+
+// Single-document entries such as config.json
+export type DocumentName = 'config';
+
+// Append-only logs, one JSON entry per line in the JSON layout
+export type LogName = 'audit' | 'webhook-events' | 'vapi-simulator-calls' | 'notifications' | 'sms-outbox' | 'sms-inbound';
+
+// Anything that carries its own schema version stamp
+export type SchemaTarget = CollectionName | DocumentName;
+
+export interface StoredRecord {
+  id: string;
+  updatedAt?: string;
+}
+
+export interface UpdateOptions {
+  /**
+   * Optimistic concurrency check: the update is rejected with a StorageConflictError
+   * when the stored record's updatedAt no longer matches this value.
+   */
+  expectedUpdatedAt?: string;
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  findAll<T extends StoredRecord>(collection: CollectionName): T[];
+  findById<T extends StoredRecord>(collection: CollectionName, id: string): T | null;
+  insert<T extends StoredRecord>(collection: CollectionName, record: T): T;
+
+  /**
+   * Applies `updater` to the current record and persists the result in one step,
+   * so the read and the write cannot interleave with another writer.
+   * Returns null when the record does not exist.
+   */
+  update<T extends StoredRecord>(
+    collection: CollectionName,
+    id: string,
+    updater: (current: T) => T,
+    options?: UpdateOptions
+  ): T | null;
+
+  remove(collection: CollectionName, id: string): boolean;
+
+  // Replaces the whole collection (bulk endpoints only)
+  replaceAll<T extends StoredRecord>(collection: CollectionName, records: T[]): void;
+
+  readDocument<T>(name: DocumentName): T | null;
+  writeDocument<T>(name: DocumentName, value: T): void;
+
+  // Appends never rewrite earlier entries; readLog returns them oldest first
+  appendLog<T>(log: LogName, entry: T): void;
+  readLog<T>(log: LogName): T[];
+
+  // Schema version stamped on a collection or document; 0 when never migrated
+  getSchemaVersion(target: SchemaTarget): number;
+
+  /**
+   * Rewrites every record with `transform` and stamps `toVersion` in one atomic step.
+   * `transform` receives the version read under the lock; nothing is written and
+   * false is returned when the collection is already at or past `toVersion`.
+   */
+  migrateCollection<T extends StoredRecord>(
+    collection: CollectionName,
+    toVersion: number,
+    transform: (records: T[], fromVersion: number) => T[]
+  ): boolean;
+
+  // Document counterpart of migrateCollection; a missing document is left alone
+  migrateDocument<T>(
+    name: DocumentName,
+    toVersion: number,
+    transform: (document: T, fromVersion: number) => T
+  ): boolean;
+}
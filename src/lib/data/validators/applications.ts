@@ -1,5 +1,6 @@
-import fs from 'fs';
-import path from 'path';
+import type { ApplicationStep } from '../../types/common';
+import { getStorageDriver } from '../storage';
+import { DEFAULT_WORKFLOW_CONFIG, WorkflowConfig, getNextPossibleSteps, getStepConfig } from '../../workflow/workflowUtils';
 
 // Types for application workflow
 export interface Application {
@@ -27,14 +28,7 @@ export type ApplicationStatus =
   | 'rejected'
   | 'withdrawn';
 
-export type ApplicationStep = 
-  | 'application_submitted'
-  | 'resume_uploaded'
-  | 'screening_call_pending'
-  | 'screening_call_completed'
-  | 'recruiter_review'
-  | 'hiring_decision'
-  | 'process_complete';
+export type { ApplicationStep };
 
 export interface ApplicationTimelineEntry {
   step: ApplicationStep;
@@ -44,25 +38,12 @@ export interface ApplicationTimelineEntry {
   performedBy?: 'system' | 'candidate' | 'recruiter' | 'admin';
 }
 
-const APPLICATIONS_FILE_PATH = path.join(process.cwd(), 'data', 'applications.json');
-
-// Ensure data directory and file exist
-const ensureApplicationsFile = () => {
-  const dataDir = path.dirname(APPLICATIONS_FILE_PATH);
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
-  if (!fs.existsSync(APPLICATIONS_FILE_PATH)) {
-    fs.writeFileSync(APPLICATIONS_FILE_PATH, '[]', 'utf8');
-  }
-};
+const COLLECTION = 'applications';
 
 // Read all applications
 export const getAllApplications = (): Application[] => {
   try {
-    ensureApplicationsFile();
-    const data = fs.readFileSync(APPLICATIONS_FILE_PATH, 'utf8');
-    return JSON.parse(data) || [];
+    return getStorageDriver().findAll<Application>(COLLECTION);
   } catch (error) {
     console.error('Error reading applications:', error);
     return [];
@@ -88,7 +69,6 @@ export const getApplicationsByJobId = (jobId: string): Application[] => {
 
 // Create new application
 export const createApplication = (candidateId: string, jobId: string): Application => {
-  const applications = getAllApplications();
   const initialTimeline: ApplicationTimelineEntry = {
     step: 'application_submitted',
     status: 'completed',
@@ -107,9 +87,7 @@ export const createApplication = (candidateId: string, jobId: string): Applicati
     updatedAt: new Date().toISOString(),
   };
   
-  applications.push(newApplication);
-  fs.writeFileSync(APPLICATIONS_FILE_PATH, JSON.stringify(applications, null, 2), 'utf8');
-  return newApplication;
+  return getStorageDriver().insert(COLLECTION, newApplication);
 };
 
 // Update application status and advance workflow
@@ -120,81 +98,42 @@ export const updateApplicationStatus = (
   notes?: string,
   performedBy: 'system' | 'candidate' | 'recruiter' | 'admin' = 'system'
 ): Application | null => {
-  const applications = getAllApplications();
-  const appIndex = applications.findIndex(app => app.id === id);
-  
-  if (appIndex === -1) {
-    return null;
-  }
-
-  const application = applications[appIndex];
-  const timelineEntry: ApplicationTimelineEntry = {
-    step: newStep || application.currentStep,
-    status: 'completed',
-    timestamp: new Date().toISOString(),
-    notes,
-    performedBy
-  };
-
-  applications[appIndex] = {
-    ...application,
-    status: newStatus,
-    currentStep: newStep || application.currentStep,
-    timeline: [...application.timeline, timelineEntry],
-    updatedAt: new Date().toISOString(),
-  };
-  
-  fs.writeFileSync(APPLICATIONS_FILE_PATH, JSON.stringify(applications, null, 2), 'utf8');
-  return applications[appIndex];
+  return getStorageDriver().update<Application>(COLLECTION, id, application => {
+    const timelineEntry: ApplicationTimelineEntry = {
+      step: newStep || application.currentStep,
+      status: 'completed',
+      timestamp: new Date().toISOString(),
+      notes,
+      performedBy
+    };
+
+    return {
+      ...application,
+      status: newStatus,
+      currentStep: newStep || application.currentStep,
+      timeline: [...application.timeline, timelineEntry],
+      updatedAt: new Date().toISOString(),
+    };
+  });
 };
 
-// Advance to next step in workflow
+// Advance to the next step in the workflow, taking the status that step stands for
 export const advanceApplicationStep = (
   id: string, 
   notes?: string,
-  performedBy: 'system' | 'candidate' | 'recruiter' | 'admin' = 'system'
+  performedBy: 'system' | 'candidate' | 'recruiter' | 'admin' = 'system',
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
 ): Application | null => {
   const application = getApplicationById(id);
   if (!application) return null;
 
-  const stepFlow: Record<ApplicationStep, { nextStep: ApplicationStep; status: ApplicationStatus }> = {
-    'application_submitted': { 
-      nextStep: 'resume_uploaded', 
-      status: 'submitted' 
-    },
-    'resume_uploaded': { 
-      nextStep: 'screening_call_pending', 
-      status: 'screening_scheduled' 
-    },
-    'screening_call_pending': { 
-      nextStep: 'screening_call_completed', 
-      status: 'screening_in_progress' 
-    },
-    'screening_call_completed': { 
-      nextStep: 'recruiter_review', 
-      status: 'under_review' 
-    },
-    'recruiter_review': { 
-      nextStep: 'hiring_decision', 
-      status: 'under_review' 
-    },
-    'hiring_decision': { 
-      nextStep: 'process_complete', 
-      status: 'hired' // This will be overridden based on actual decision
-    },
-    'process_complete': { 
-      nextStep: 'process_complete', 
-      status: application.status // No change
-    }
-  };
-
-  const nextFlow = stepFlow[application.currentStep];
-  if (!nextFlow) return null;
+  const [nextStep] = getNextPossibleSteps(application.currentStep, workflow);
+  if (!nextStep) return null;
 
   return updateApplicationStatus(
     id, 
-    nextFlow.status, 
-    nextFlow.nextStep, 
+    getStepConfig(nextStep, workflow)?.statuses[0] || application.status, 
+    nextStep, 
     notes, 
     performedBy
   );
@@ -223,14 +162,5 @@ export const getApplicationsForReview = (): Application[] => {
 
 // Delete application
 export const deleteApplication = (id: string): boolean => {
-  const applications = getAllApplications();
-  const initialLength = applications.length;
-  const filteredApplications = applications.filter(app => app.id !== id);
-  
-  if (filteredApplications.length === initialLength) {
-    return false; // Application not found
-  }
-  
-  fs.writeFileSync(APPLICATIONS_FILE_PATH, JSON.stringify(filteredApplications, null, 2), 'utf8');
-  return true;
+  return getStorageDriver().remove(COLLECTION, id);
 };
@@ -1,5 +1,4 @@
-import fs from 'fs';
-import path from 'path';
+import { getStorageDriver } from '../storage';
 
 // Types for candidate data
 export interface Candidate {
@@ -9,7 +8,6 @@ export interface Candidate {
   email: string;
   phone: string;
   resumeFileName?: string;
-  resumePath?: string;
   appliedJobId: string;
   applicationDate: string;
   screeningCompleted: boolean;
@@ -47,25 +45,12 @@ export interface ScreeningSummary {
   completedAt: string;
 }
 
-const CANDIDATES_FILE_PATH = path.join(process.cwd(), 'data', 'candidates.json');
-
-// Ensure data directory and file exist
-const ensureCandidatesFile = () => {
-  const dataDir = path.dirname(CANDIDATES_FILE_PATH);
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
-  if (!fs.existsSync(CANDIDATES_FILE_PATH)) {
-    fs.writeFileSync(CANDIDATES_FILE_PATH, '[]', 'utf8');
-  }
-};
+const COLLECTION = 'candidates';
 
 // Read all candidates
 export const getAllCandidates = (): Candidate[] => {
   try {
-    ensureCandidatesFile();
-    const data = fs.readFileSync(CANDIDATES_FILE_PATH, 'utf8');
-    return JSON.parse(data) || [];
+    return getStorageDriver().findAll<Candidate>(COLLECTION);
   } catch (error) {
     console.error('Error reading candidates:', error);
     return [];
@@ -85,7 +70,6 @@ export const getCandidatesByJobId = (jobId: string): Candidate[] => {
 
 // Create new candidate
 export const createCandidate = (candidateData: Omit<Candidate, 'id' | 'createdAt' | 'updatedAt'>): Candidate => {
-  const candidates = getAllCandidates();
   const newCandidate: Candidate = {
     ...candidateData,
     id: `candidate-${Date.now()}`,
@@ -93,28 +77,16 @@ export const createCandidate = (candidateData: Omit<Candidate, 'id' | 'createdAt
     updatedAt: new Date().toISOString(),
   };
   
-  candidates.push(newCandidate);
-  fs.writeFileSync(CANDIDATES_FILE_PATH, JSON.stringify(candidates, null, 2), 'utf8');
-  return newCandidate;
+  return getStorageDriver().insert(COLLECTION, newCandidate);
 };
 
 // Update existing candidate
 export const updateCandidate = (id: string, updates: Partial<Candidate>): Candidate | null => {
-  const candidates = getAllCandidates();
-  const candidateIndex = candidates.findIndex(candidate => candidate.id === id);
-  
-  if (candidateIndex === -1) {
-    return null;
-  }
-  
-  candidates[candidateIndex] = {
-    ...candidates[candidateIndex],
+  return getStorageDriver().update<Candidate>(COLLECTION, id, current => ({
+    ...current,
     ...updates,
     updatedAt: new Date().toISOString(),
-  };
-  
-  fs.writeFileSync(CANDIDATES_FILE_PATH, JSON.stringify(candidates, null, 2), 'utf8');
-  return candidates[candidateIndex];
+  }));
 };
 
 // Update candidate screening summary
@@ -128,16 +100,7 @@ export const updateCandidateScreeningSummary = (id: string, summary: ScreeningSu
 
 // Delete candidate
 export const deleteCandidate = (id: string): boolean => {
-  const candidates = getAllCandidates();
-  const initialLength = candidates.length;
-  const filteredCandidates = candidates.filter(candidate => candidate.id !== id);
-  
-  if (filteredCandidates.length === initialLength) {
-    return false; // Candidate not found
-  }
-  
-  fs.writeFileSync(CANDIDATES_FILE_PATH, JSON.stringify(filteredCandidates, null, 2), 'utf8');
-  return true;
+  return getStorageDriver().remove(COLLECTION, id);
 };
 
 // Search candidates by criteria
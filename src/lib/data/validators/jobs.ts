@@ -1,5 +1,4 @@
-import fs from 'fs';
-import path from 'path';
+import { getStorageDriver } from '../storage';
 
 // Types for job data
 export interface Job {
@@ -17,25 +16,12 @@ export interface Job {
   updatedAt: string;
 }
 
-const JOBS_FILE_PATH = path.join(process.cwd(), 'data', 'jobs.json');
-
-// Ensure data directory and file exist
-const ensureJobsFile = () => {
-  const dataDir = path.dirname(JOBS_FILE_PATH);
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
-  if (!fs.existsSync(JOBS_FILE_PATH)) {
-    fs.writeFileSync(JOBS_FILE_PATH, '[]', 'utf8');
-  }
-};
+const COLLECTION = 'jobs';
 
 // Read all jobs
 export const getAllJobs = (): Job[] => {
   try {
-    ensureJobsFile();
-    const data = fs.readFileSync(JOBS_FILE_PATH, 'utf8');
-    return JSON.parse(data) || [];
+    return getStorageDriver().findAll<Job>(COLLECTION);
   } catch (error) {
     console.error('Error reading jobs:', error);
     return [];
@@ -55,7 +41,6 @@ export const getJobById = (id: string): Job | null => {
 
 // Create new job
 export const createJob = (jobData: Omit<Job, 'id' | 'createdAt' | 'updatedAt'>): Job => {
-  const jobs = getAllJobs();
   const newJob: Job = {
     ...jobData,
     id: `job-${Date.now()}`,
@@ -63,42 +48,21 @@ export const createJob = (jobData: Omit<Job, 'id' | 'createdAt' | 'updatedAt'>):
     updatedAt: new Date().toISOString(),
   };
   
-  jobs.push(newJob);
-  fs.writeFileSync(JOBS_FILE_PATH, JSON.stringify(jobs, null, 2), 'utf8');
-  return newJob;
+  return getStorageDriver().insert(COLLECTION, newJob);
 };
 
 // Update existing job
 export const updateJob = (id: string, updates: Partial<Job>): Job | null => {
-  const jobs = getAllJobs();
-  const jobIndex = jobs.findIndex(job => job.id === id);
-  
-  if (jobIndex === -1) {
-    return null;
-  }
-  
-  jobs[jobIndex] = {
-    ...jobs[jobIndex],
+  return getStorageDriver().update<Job>(COLLECTION, id, current => ({
+    ...current,
     ...updates,
     updatedAt: new Date().toISOString(),
-  };
-  
-  fs.writeFileSync(JOBS_FILE_PATH, JSON.stringify(jobs, null, 2), 'utf8');
-  return jobs[jobIndex];
+  }));
 };
 
 // Delete job
 export const deleteJob = (id: string): boolean => {
-  const jobs = getAllJobs();
-  const initialLength = jobs.length;
-  const filteredJobs = jobs.filter(job => job.id !== id);
-  
-  if (filteredJobs.length === initialLength) {
-    return false; // Job not found
-  }
-  
-  fs.writeFileSync(JOBS_FILE_PATH, JSON.stringify(filteredJobs, null, 2), 'utf8');
-  return true;
+  return getStorageDriver().remove(COLLECTION, id);
 };
 
 // Search jobs by criteria
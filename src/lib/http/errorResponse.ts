@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from './httpError';
+
+// The answer to an error caught in an API route: an HttpError's own message and
+// status, or a logged 500 saying `action` failed
+export function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof HttpError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return NextResponse.json({ error: `Failed to ${action}` }, { status: 500 });
+}
@@ -0,0 +1,8 @@
+// Thrown when a request can't go ahead; carries the HTTP status the API route
+// should answer with (see errorResponse)
+export class HttpError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
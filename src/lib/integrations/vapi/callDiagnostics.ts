@@ -0,0 +1,88 @@
+/**
+ * Live call diagnostics from VAPI `speech-update` and `hang` server messages (server-side only)
+ *
+ * Speech updates arrive several times per turn, so they are kept in memory per call
+ * instead of being written to the screening. Hangs are rare and worth persisting, so
+ * the route stores the snapshot returned by recordHang on the screening.
+ */
+
+import { ScreeningCallDiagnostics } from '../../types';
+import { VapiSpeechUpdate } from '../../types/vapi';
+
+const RECENT_EVENT_LIMIT = 10;
+// Calls that never send an end-of-call report are forgotten after this long
+const STALE_CALL_MS = 2 * 60 * 60 * 1000;
+
+export interface SpeechEvent {
+  at: string;
+  role: 'assistant' | 'user';
+  status: 'started' | 'stopped';
+}
+
+interface CallActivity {
+  diagnostics: ScreeningCallDiagnostics;
+  recentEvents: SpeechEvent[];
+  touchedAt: number;
+}
+
+const activeCalls = new Map<string, CallActivity>();
+
+function getActivity(callId: string): CallActivity {
+  const now = Date.now();
+  for (const [id, activity] of Array.from(activeCalls.entries())) {
+    if (now - activity.touchedAt > STALE_CALL_MS) {
+      activeCalls.delete(id);
+    }
+  }
+
+  let activity = activeCalls.get(callId);
+  if (!activity) {
+    activity = { diagnostics: { hangCount: 0, speechTurns: 0 }, recentEvents: [], touchedAt: now };
+    activeCalls.set(callId, activity);
+  }
+  activity.touchedAt = now;
+  return activity;
+}
+
+/**
+ * Track who is speaking; a turn is counted each time a speaker starts talking
+ */
+export function recordSpeechUpdate(callId: string, message: VapiSpeechUpdate): void {
+  const activity = getActivity(callId);
+  const at = new Date().toISOString();
+
+  if (message.status === 'started') {
+    activity.diagnostics.speechTurns++;
+  }
+  activity.diagnostics.lastSpeechAt = at;
+  activity.diagnostics.lastSpeaker = message.role;
+
+  activity.recentEvents.push({ at, role: message.role, status: message.status });
+  if (activity.recentEvents.length > RECENT_EVENT_LIMIT) {
+    activity.recentEvents.shift();
+  }
+}
+
+/**
+ * Count a hang (the assistant failed to respond in time) and return the speech
+ * activity leading up to it
+ */
+export function recordHang(callId: string): { diagnostics: ScreeningCallDiagnostics; recentEvents: SpeechEvent[] } {
+  const activity = getActivity(callId);
+  activity.diagnostics.hangCount++;
+  activity.diagnostics.lastHangAt = new Date().toISOString();
+
+  return {
+    diagnostics: { ...activity.diagnostics },
+    recentEvents: [...activity.recentEvents]
+  };
+}
+
+/**
+ * Final diagnostics for a call that has ended; the call is no longer tracked afterwards
+ */
+export function takeCallDiagnostics(callId: string): ScreeningCallDiagnostics | undefined {
+  const activity = activeCalls.get(callId);
+  activeCalls.delete(callId);
+  return activity ? { ...activity.diagnostics } : undefined;
+}
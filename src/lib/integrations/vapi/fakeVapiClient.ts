@@ -0,0 +1,146 @@
+/**
+ * Drop-in stand-in for the @vapi-ai/web client, used when NEXT_PUBLIC_VAPI_SIMULATOR is set
+ *
+ * Plays a scripted scenario with the same events the SDK emits (call-start,
+ * speech-start/end, volume-level, transcript messages, call-end, error) and
+ * reports its progress to /api/vapi/simulator, which posts the matching
+ * webhooks so the server side runs exactly as it would for a real call.
+ */
+
+import { SIMULATED_CALL_PREFIX, SimulatorScenario } from './simulatorScenarios';
+
+type Listener = (...args: any[]) => void;
+
+// How long a call with nothing to say stays open before timing out on silence
+const SILENCE_TIMEOUT_MS = 3000;
+const MS_PER_CHARACTER = 40;
+
+export class FakeVapiClient {
+  private listeners = new Map<string, Set<Listener>>();
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private callId: string | null = null;
+  private turnsCompleted = 0;
+  private active = false;
+  private reports: Promise<void> = Promise.resolve();
+
+  constructor(private scenario: SimulatorScenario) {}
+
+  on(event: string, listener: Listener): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+  }
+
+  off(event: string, listener: Listener): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  private emit(event: string, ...args: any[]): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error(`Error in simulated ${event} listener:`, error);
+      }
+    });
+  }
+
+  private schedule(callback: () => void, delayMs: number): void {
+    this.timers.push(setTimeout(callback, delayMs));
+  }
+
+  // Reports are sent one at a time so the webhooks arrive in call order
+  private report(body: Record<string, any>): Promise<void> {
+    this.reports = this.reports.then(() => this.sendReport(body));
+    return this.reports;
+  }
+
+  private async sendReport(body: Record<string, any>): Promise<void> {
+    try {
+      const response = await fetch('/api/vapi/simulator', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!response.ok) {
+        console.error(`VAPI simulator ${body.action} failed:`, response.statusText);
+      }
+    } catch (error) {
+      console.error(`VAPI simulator ${body.action} failed:`, error);
+    }
+  }
+
+  async start(assistantOptions?: any): Promise<{ id: string } | null> {
+    if (this.active) {
+      return null;
+    }
+
+    // Like the SDK, a call that is refused reports an error event rather than throwing
+    const { startError } = this.scenario;
+    if (startError) {
+      this.schedule(() => this.emit('error', { error: { ...startError } }), 300);
+      return null;
+    }
+
+    const callId = `${SIMULATED_CALL_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    this.callId = callId;
+    this.turnsCompleted = 0;
+    this.active = true;
+
+    console.log(`Starting simulated VAPI call ${callId} (scenario: ${this.scenario.name})`);
+    await this.report({ action: 'start', callId, scenario: this.scenario.name, metadata: assistantOptions?.metadata });
+
+    this.emit('call-start', { id: callId });
+    this.playTurn(0);
+    return { id: callId };
+  }
+
+  stop(): void {
+    this.finish();
+  }
+
+  private playTurn(index: number): void {
+    const { turns } = this.scenario;
+    if (index >= turns.length) {
+      this.schedule(() => this.finish(), turns.length === 0 ? SILENCE_TIMEOUT_MS : 500);
+      return;
+    }
+
+    const turn = turns[index];
+    this.schedule(() => {
+      if (!this.active) return;
+
+      // The SDK's speech events describe the assistant; the volume meter follows whoever is talking
+      if (turn.role === 'assistant') this.emit('speech-start');
+      this.emit('volume-level', turn.role === 'assistant' ? 0.6 : 0.3);
+      this.emit('message', {
+        type: 'transcript',
+        role: turn.role,
+        transcriptType: 'final',
+        transcript: turn.text
+      });
+
+      this.schedule(() => {
+        if (!this.active) return;
+
+        if (turn.role === 'assistant') this.emit('speech-end');
+        this.emit('volume-level', 0);
+        this.turnsCompleted = index + 1;
+        this.report({ action: 'turn', callId: this.callId, turn: index });
+        this.playTurn(index + 1);
+      }, turn.text.length * MS_PER_CHARACTER);
+    }, turn.delayMs);
+  }
+
+  private finish(): void {
+    if (!this.active) return;
+
+    this.active = false;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+
+    this.emit('call-end');
+    this.report({ action: 'end', callId: this.callId, turnsCompleted: this.turnsCompleted });
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Outbound phone screening (server-side only)
+ *
+ * Places a VAPI phone call to the candidate with the same assistant the browser
+ * screening uses. The call is tracked as a ScreeningCall with channel 'phone'
+ * and finished by /api/vapi/webhook like any other call.
+ */
+
+import { ScreeningCall } from '../../types';
+import { getApplicationById, updateApplicationStatus } from '../../services/applicationService';
+import { getCandidateById } from '../../services/candidateService';
+import { createScreening, getScreeningsByApplication, updateScreening } from '../../services/screeningService';
+import { recordScreeningFailure } from '../../services/screeningResultsService';
+import { handleCallFailure } from '../../services/callErrorLogger';
+import { getJobById } from '../../servers/jobs-server';
+import { getLocationName, isLocationInScope } from '../../services/locationService';
+import { determineScreeningRole } from '../../screening/screeningService';
+import { createScreeningAssistantOptions } from './vapiConfig';
+import { getEffectiveVapiConfig } from './vapiServerConfig';
+import { getSimulatorScenario, isVapiSimulatorEnabled } from './simulatorScenarios';
+import { createSimulatedCallId, replayScenario } from './webhookEmitter';
+import { toE164 } from '../../utils/phoneUtils';
+import { HttpError } from '../../http/httpError';
+
+const VAPI_CALL_URL = 'https://api.vapi.ai/call';
+
+// A recruiter can call again after a failed attempt, but never over an active or completed screening
+function getScreeningBlocker(applicationId: string): string | null {
+  const screenings = getScreeningsByApplication(applicationId);
+  if (screenings.some(s => s.status === 'screening_completed')) {
+    return 'This application has already been screened';
+  }
+  if (screenings.some(s => s.status === 'screening_in_progress' || s.status === 'screening_scheduled')) {
+    return 'There is already an active screening call for this application';
+  }
+  return null;
+}
+
+async function createVapiPhoneCall(phoneNumber: string, candidateName: string, assistant: Record<string, any>): Promise<string> {
+  const apiKey = process.env.NEXT_PUBLIC_VAPI_PRIVATE_KEY;
+  const phoneNumberId = process.env.VAPI_PHONE_NUMBER_ID;
+  if (!apiKey || !phoneNumberId) {
+    throw new Error('Phone screening needs NEXT_PUBLIC_VAPI_PRIVATE_KEY and VAPI_PHONE_NUMBER_ID to be set');
+  }
+
+  const response = await fetch(VAPI_CALL_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      phoneNumberId,
+      customer: { number: phoneNumber, name: candidateName },
+      assistant
+    }),
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(`VAPI rejected the phone call (${response.status}): ${body?.message || response.statusText}`);
+  }
+  return body.id;
+}
+
+// Replays the configured scenario as if VAPI had placed the call
+function startSimulatedPhoneCall(webhookUrl: string, metadata: Record<string, string>): string {
+  const scenario = getSimulatorScenario();
+  if (scenario.startError) {
+    throw new Error(scenario.startError.message);
+  }
+
+  const callId = createSimulatedCallId();
+  replayScenario(webhookUrl, scenario.name, metadata, { realtime: true, callId })
+    .catch(error => console.error('Simulated phone call failed:', error));
+  return callId;
+}
+
+/**
+ * Call the candidate on an application now. Returns the screening record; the
+ * webhook moves it to in progress when the candidate answers and records the results.
+ * `scope` is the requesting user's locations (see getLocationScope); applications
+ * for jobs elsewhere are treated as not found.
+ */
+export async function placeOutboundScreeningCall(
+  applicationId: string,
+  options: { webhookUrl: string; requestedBy?: string; scope?: string[] | null }
+): Promise<ScreeningCall> {
+  const application = getApplicationById(applicationId);
+  const job = application ? getJobById(application.jobId) : null;
+  if (!application || !isLocationInScope(job?.locationId, options.scope ?? null)) {
+    throw new HttpError('Application not found', 404);
+  }
+
+  const candidate = getCandidateById(application.candidateId);
+  if (!candidate || !job) {
+    throw new HttpError('Candidate or job for this application not found', 404);
+  }
+
+  const phoneNumber = toE164(candidate.phone);
+  if (!phoneNumber) {
+    throw new HttpError(`Candidate phone number "${candidate.phone || ''}" can't be dialled`, 400);
+  }
+
+  const blocker = getScreeningBlocker(application.id);
+  if (blocker) {
+    throw new HttpError(blocker, 409);
+  }
+
+  const role = determineScreeningRole(job.title, job.department);
+  const screening = createScreening(application.id, candidate.id, job.id, { channel: 'phone', phoneNumber, role });
+  const metadata = { screeningId: screening.id, applicationId: application.id, candidateId: candidate.id, jobId: job.id };
+  const assistant = createScreeningAssistantOptions(
+    job.title,
+    candidate.firstName,
+    role,
+    getEffectiveVapiConfig(role, job.vapiOverrides),
+    metadata,
+    getLocationName(job.locationId)
+  );
+
+  let callId: string;
+  try {
+    callId = isVapiSimulatorEnabled()
+      ? startSimulatedPhoneCall(options.webhookUrl, metadata)
+      : await createVapiPhoneCall(phoneNumber, `${candidate.firstName} ${candidate.lastName}`.trim(), assistant);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await handleCallFailure(errorMessage, undefined, 0, { screeningId: screening.id, channel: 'phone' });
+    recordScreeningFailure(screening.id, errorMessage);
+    throw new HttpError(errorMessage, 502);
+  }
+
+  updateApplicationStatus(
+    application.id,
+    application.status === 'submitted' ? 'screening_scheduled' : application.status,
+    'screening_call_scheduled',
+    `Phone screening call placed to ${phoneNumber}`,
+    options.requestedBy || 'recruiter'
+  );
+
+  return updateScreening(screening.id, { aiCallId: callId, aiCallStatus: 'pending' }) || screening;
+}
@@ -0,0 +1,212 @@
+/**
+ * Scripted conversations for the local VAPI simulator
+ *
+ * Set NEXT_PUBLIC_VAPI_SIMULATOR to a scenario name (or "true" for the default
+ * scenario) and the screening call uses the fake client in fakeVapiClient.ts
+ * instead of @vapi-ai/web, with webhooks posted by webhookEmitter.ts. Simulated
+ * call IDs start with "mock-" so getCallData reads them from /api/mock-vapi.
+ */
+
+export interface SimulatorTurn {
+  role: 'assistant' | 'user';
+  text: string;
+  delayMs: number; // Pause before this turn starts
+}
+
+// Server events sent during the call, after the turn at this index has been spoken
+export interface SimulatorEvent {
+  afterTurn: number;
+  type: 'hang';
+}
+
+export interface SimulatorScenario {
+  name: string;
+  description: string;
+  turns: SimulatorTurn[];
+  events?: SimulatorEvent[];
+  // The call never connects; messages match the categories in callErrorLogger
+  startError?: { message: string; statusCode: number };
+  endedReason: string;
+  summary?: string;
+  structuredData?: Record<string, any>;
+  successEvaluation?: string;
+}
+
+export const DEFAULT_SIMULATOR_SCENARIO = 'qualified';
+
+export const SIMULATED_CALL_PREFIX = 'mock-sim-';
+
+const GREETING: SimulatorTurn = {
+  role: 'assistant',
+  text: 'Hi, thanks for applying! I have a few quick questions about your experience and availability. Ready to start?',
+  delayMs: 500
+};
+
+export const SIMULATOR_SCENARIOS: Record<string, SimulatorScenario> = {
+  qualified: {
+    name: 'qualified',
+    description: 'Experienced candidate available for every shift',
+    turns: [
+      GREETING,
+      { role: 'user', text: 'Yes, ready.', delayMs: 800 },
+      { role: 'assistant', text: 'How many years of restaurant experience do you have?', delayMs: 600 },
+      { role: 'user', text: 'About four years, mostly at a busy brunch place where I trained new staff.', delayMs: 1200 },
+      { role: 'assistant', text: 'Are you available to work morning shifts, 6 AM to 2 PM?', delayMs: 600 },
+      { role: 'user', text: 'Yes, mornings are great.', delayMs: 800 },
+      { role: 'assistant', text: 'And evening shifts, 2 PM to 10 PM?', delayMs: 600 },
+      { role: 'user', text: 'Yes, I can do evenings too.', delayMs: 800 },
+      { role: 'assistant', text: 'Can you work weekends?', delayMs: 600 },
+      { role: 'user', text: 'Yes, every weekend.', delayMs: 800 },
+      { role: 'assistant', text: 'Do you have reliable transportation to get to work?', delayMs: 600 },
+      { role: 'user', text: 'Yes, I have my own car.', delayMs: 800 },
+      { role: 'assistant', text: 'Tell me about a time you handled an upset guest.', delayMs: 600 },
+      { role: 'user', text: 'A guest got the wrong order, so I apologized, fixed it right away and checked back with them. They left happy.', delayMs: 1500 },
+      { role: 'assistant', text: 'That is everything I needed. Thanks for your time, the team will be in touch soon!', delayMs: 600 }
+    ],
+    endedReason: 'assistant-ended-call',
+    summary: 'The candidate has four years of restaurant experience, including training new staff. They are available for morning, evening and weekend shifts and have their own car. They described resolving a wrong order calmly and following up with the guest.',
+    structuredData: {
+      morningShiftAvailable: true,
+      eveningShiftAvailable: true,
+      weekendAvailable: true,
+      hasReliableTransportation: true,
+      yearsOfExperience: 4,
+      availabilityNotes: 'Fully flexible',
+      roleQuestionAnswers: [
+        {
+          question: 'Tell me about a time you handled an upset guest.',
+          answer: 'Apologized, fixed the wrong order right away and checked back with the guest.',
+          satisfactory: true
+        }
+      ]
+    },
+    successEvaluation: 'true'
+  },
+
+  'weekend-conflict': {
+    name: 'weekend-conflict',
+    description: 'Candidate who cannot work weekends or mornings',
+    turns: [
+      GREETING,
+      { role: 'user', text: 'Sure.', delayMs: 800 },
+      { role: 'assistant', text: 'How many years of restaurant experience do you have?', delayMs: 600 },
+      { role: 'user', text: 'One year as a host.', delayMs: 1000 },
+      { role: 'assistant', text: 'Are you available to work morning shifts, 6 AM to 2 PM?', delayMs: 600 },
+      { role: 'user', text: 'No, I have classes in the morning.', delayMs: 900 },
+      { role: 'assistant', text: 'And evening shifts, 2 PM to 10 PM?', delayMs: 600 },
+      { role: 'user', text: 'Yes, evenings work.', delayMs: 800 },
+      { role: 'assistant', text: 'Can you work weekends?', delayMs: 600 },
+      { role: 'user', text: 'No, I am not available on weekends.', delayMs: 900 },
+      { role: 'assistant', text: 'Do you have reliable transportation to get to work?', delayMs: 600 },
+      { role: 'user', text: 'I take the bus, it is usually fine.', delayMs: 900 },
+      { role: 'assistant', text: 'Thanks, that is all for today. The team will follow up with you.', delayMs: 600 }
+    ],
+    endedReason: 'assistant-ended-call',
+    summary: 'The candidate has one year of experience as a host. They can only work weekday evenings because of morning classes and are not available on weekends. They commute by bus.',
+    structuredData: {
+      morningShiftAvailable: false,
+      eveningShiftAvailable: true,
+      weekendAvailable: false,
+      hasReliableTransportation: true,
+      yearsOfExperience: 1,
+      availabilityNotes: 'Weekday evenings only',
+      roleQuestionAnswers: []
+    },
+    successEvaluation: 'false'
+  },
+
+  'assistant-hang': {
+    name: 'assistant-hang',
+    description: 'Short call where the assistant goes quiet mid-call (hang event)',
+    turns: [
+      GREETING,
+      { role: 'user', text: 'Yes.', delayMs: 800 },
+      { role: 'assistant', text: 'Are you available to work morning shifts, 6 AM to 2 PM?', delayMs: 600 },
+      { role: 'user', text: 'Yes.', delayMs: 800 },
+      { role: 'assistant', text: 'Sorry about that. Can you work weekends?', delayMs: 4000 },
+      { role: 'user', text: 'Yes, I can.', delayMs: 800 },
+      { role: 'assistant', text: 'Thanks, that is all for now.', delayMs: 600 }
+    ],
+    events: [{ afterTurn: 3, type: 'hang' }],
+    endedReason: 'assistant-ended-call',
+    summary: 'The candidate is available for mornings and weekends. The call was cut short after the assistant stalled.',
+    structuredData: {
+      morningShiftAvailable: true,
+      eveningShiftAvailable: false,
+      weekendAvailable: true,
+      hasReliableTransportation: false,
+      yearsOfExperience: null,
+      roleQuestionAnswers: []
+    }
+  },
+
+  'no-conversation': {
+    name: 'no-conversation',
+    description: 'Call connects but nothing is said',
+    turns: [],
+    endedReason: 'silence-timed-out'
+  },
+
+  'no-answer': {
+    name: 'no-answer',
+    description: 'Phone screening the candidate does not pick up',
+    turns: [],
+    endedReason: 'customer-did-not-answer'
+  },
+
+  voicemail: {
+    name: 'voicemail',
+    description: 'Phone screening that reaches the candidate\'s voicemail',
+    turns: [
+      { role: 'user', text: 'Hi, you have reached Sam. Leave a message after the tone.', delayMs: 1000 },
+      { role: 'assistant', text: 'Hi, this is the screening assistant calling about your application. We will try you again soon.', delayMs: 600 }
+    ],
+    endedReason: 'voicemail'
+  },
+
+  'payment-error': {
+    name: 'payment-error',
+    description: 'VAPI refuses the call because of the account balance',
+    turns: [],
+    startError: {
+      message: 'Payment required: insufficient balance on your subscription. Update your card details to continue.',
+      statusCode: 402
+    },
+    endedReason: 'call.start.error-vapi-payment-required'
+  },
+
+  'authentication-error': {
+    name: 'authentication-error',
+    description: 'VAPI rejects the public API key',
+    turns: [],
+    startError: {
+      message: 'Unauthorized: invalid API key',
+      statusCode: 401
+    },
+    endedReason: 'call.start.error-vapi-unauthorized'
+  }
+};
+
+// Whether screening calls should use the simulator instead of the VAPI SDK
+export function isVapiSimulatorEnabled(): boolean {
+  const setting = process.env.NEXT_PUBLIC_VAPI_SIMULATOR;
+  return !!setting && setting !== 'false';
+}
+
+// Scenario by name; unknown names (including "true") fall back to the default scenario
+export function getSimulatorScenario(name?: string | null): SimulatorScenario {
+  const scenarioName = name || process.env.NEXT_PUBLIC_VAPI_SIMULATOR;
+  return (scenarioName && SIMULATOR_SCENARIOS[scenarioName]) || SIMULATOR_SCENARIOS[DEFAULT_SIMULATOR_SCENARIO];
+}
+
+export function isSimulatedCallId(callId: string): boolean {
+  return callId.startsWith(SIMULATED_CALL_PREFIX);
+}
+
+// Transcript in VAPI's "AI: ..." / "User: ..." format for the turns spoken so far
+export function buildScenarioTranscript(scenario: SimulatorScenario, turnsCompleted: number = scenario.turns.length): string {
+  return scenario.turns
+    .slice(0, turnsCompleted)
+    .map(turn => `${turn.role === 'assistant' ? 'AI' : 'User'}: ${turn.text}`)
+    .join('\n');
+}
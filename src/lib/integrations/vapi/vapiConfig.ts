@@ -1,20 +1,17 @@
 /**
  * Unified Vapi.ai configuration for restaurant recruitment platform screening calls
- * Supports both client-side and server-side usage with dynamic config loading
+ * Safe to use in the browser; the admin's saved settings are read on the server
+ * by vapiServerConfig.ts and passed in as a VapiConfig
  */
 
 import { ScreeningRole } from '../../types';
-
-// Server-side imports (only available in Node.js environment)
-let fs: any, path: any;
-try {
-  if (typeof window === 'undefined') {
-    fs = require('fs');
-    path = require('path');
-  }
-} catch (error) {
-  // Silently fail in browser environment
-}
+import { APP_CONFIG } from '../../config/constants';
+import { VapiScreeningMetadata, VapiSettingsOverride } from '../../types/vapi';
+import {
+  StructuredDataSchema,
+  buildStructuredDataPrompt,
+  getDefaultStructuredDataSchema
+} from '../../screening/structuredData';
 
 // Configuration for the Vapi.ai assistant
 export interface VapiConfig {
@@ -35,6 +32,8 @@ export interface VapiConfig {
   maxCallDuration: number;
   customSystemPrompt?: string;
   customAnalysisPrompt?: string;
+  structuredDataSchema?: StructuredDataSchema; // Role schema, when the caller already loaded it
+  roleSpecificQuestions?: string[]; // Role questions, when the caller already loaded them
 }
 
 // Default Vapi configuration
@@ -56,6 +55,9 @@ export const DEFAULT_VAPI_CONFIG: VapiConfig = {
   maxCallDuration: 180 // 3 minutes
 };
 
+// Webhook URL for server messages; when unset, the server URL configured in the VAPI dashboard is used
+const VAPI_SERVER_URL = process.env.NEXT_PUBLIC_VAPI_SERVER_URL;
+
 // Default mandatory questions (fallback values for client-side usage)
 export const MANDATORY_QUESTIONS = [
   'Are you available to work morning shifts (6 AM - 2 PM)?',
@@ -64,154 +66,33 @@ export const MANDATORY_QUESTIONS = [
   'Do you have reliable transportation to get to work?'
 ];
 
-// Server-side function to get mandatory questions from config (when available)
-export function getMandatoryQuestions(): string[] {
-  // Return static questions if in browser or if fs/path not available
-  if (typeof window !== 'undefined' || !fs || !path) {
-    return MANDATORY_QUESTIONS;
-  }
-
-  try {
-    // Read from config.json (server-side only)
-    const configPath = path.join(process.cwd(), 'data', 'config.json');
-    if (fs.existsSync(configPath)) {
-      const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-      
-      // Check if mandatory questions exist in config
-      if (config.mandatoryQuestions && Array.isArray(config.mandatoryQuestions)) {
-        return config.mandatoryQuestions;
-      }
-    }
-  } catch (error) {
-    console.error('Error reading mandatory questions from config:', error);
-  }
-  
-  // Fallback to default questions
-  return MANDATORY_QUESTIONS;
-}
-
-// Server-side function to get conversation tone from config (when available)
-export function getConversationTone(): string {
-  // Return default tone if in browser or if fs/path not available
-  if (typeof window !== 'undefined' || !fs || !path) {
-    return DEFAULT_VAPI_CONFIG.conversationTone;
-  }
-
-  try {
-    // Read from config.json (server-side only)
-    const configPath = path.join(process.cwd(), 'data', 'config.json');
-    if (fs.existsSync(configPath)) {
-      const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-      
-      // Check if vapiSettings and conversationTone exist in config
-      if (config.vapiSettings && config.vapiSettings.conversationTone) {
-        return config.vapiSettings.conversationTone;
-      }
-    }
-  } catch (error) {
-    console.error('Error reading conversation tone from config:', error);
-  }
-  
-  // Fallback to default tone
-  return DEFAULT_VAPI_CONFIG.conversationTone;
-}
-
-// Server-side function to get custom system prompt from config (when available)
-export function getCustomSystemPrompt(): string | undefined {
-  // Return undefined if in browser or if fs/path not available
-  if (typeof window !== 'undefined' || !fs || !path) {
-    return undefined;
-  }
-
-  try {
-    const configPath = path.join(process.cwd(), 'data', 'config.json');
-    if (fs.existsSync(configPath)) {
-      const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-      if (config.vapiSettings && config.vapiSettings.customSystemPrompt) {
-        return config.vapiSettings.customSystemPrompt;
-      }
-    }
-  } catch (error) {
-    console.error('Error reading custom system prompt from config:', error);
-  }
-  return undefined;
-}
-
-// Server-side function to get custom analysis prompt from config (when available)
-export function getCustomAnalysisPrompt(): string | undefined {
-  // Return undefined if in browser or if fs/path not available
-  if (typeof window !== 'undefined' || !fs || !path) {
-    return undefined;
-  }
-
-  try {
-    const configPath = path.join(process.cwd(), 'data', 'config.json');
-    if (fs.existsSync(configPath)) {
-      const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-      if (config.vapiSettings && config.vapiSettings.customAnalysisPrompt) {
-        return config.vapiSettings.customAnalysisPrompt;
-      }
-    }
-  } catch (error) {
-    console.error('Error reading custom analysis prompt from config:', error);
-  }
-  return undefined;
+/**
+ * Apply role and job overrides, in that order, on top of the admin's vapiSettings.
+ * Each override only replaces the fields it sets.
+ */
+export function applyVapiOverrides(
+  base: VapiConfig,
+  ...overrides: (VapiSettingsOverride | undefined)[]
+): VapiConfig {
+  return overrides.reduce<VapiConfig>((config, override) => override ? {
+    ...config,
+    voice: { ...config.voice, ...withoutEmpty(override.voice) },
+    model: { ...config.model, ...withoutEmpty(override.model) },
+    transcriber: { ...config.transcriber, ...withoutEmpty(override.transcriber) },
+    conversationTone: override.conversationTone || config.conversationTone,
+    maxCallDuration: override.maxCallDuration || config.maxCallDuration
+  } : config, base);
 }
 
-// Server-side function to get Vapi settings from config (when available)
-export function getVapiSettings(): VapiConfig {
-  // Return default config if in browser or if fs/path not available
-  if (typeof window !== 'undefined' || !fs || !path) {
-    return DEFAULT_VAPI_CONFIG;
-  }
-
-  try {
-    // Read from config.json (server-side only)
-    const configPath = path.join(process.cwd(), 'data', 'config.json');
-    if (fs.existsSync(configPath)) {
-      const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-      
-      // Check if vapiSettings exist in config
-      if (config.vapiSettings) {
-        return {
-          voice: config.vapiSettings.voice || DEFAULT_VAPI_CONFIG.voice,
-          model: config.vapiSettings.model || DEFAULT_VAPI_CONFIG.model,
-          transcriber: config.vapiSettings.transcriber || DEFAULT_VAPI_CONFIG.transcriber,
-          conversationTone: config.vapiSettings.conversationTone || DEFAULT_VAPI_CONFIG.conversationTone,
-          maxCallDuration: config.vapiSettings.maxCallDuration || DEFAULT_VAPI_CONFIG.maxCallDuration,
-          customSystemPrompt: config.vapiSettings.customSystemPrompt,
-          customAnalysisPrompt: config.vapiSettings.customAnalysisPrompt
-        };
-      }
-    }
-  } catch (error) {
-    console.error('Error reading Vapi settings from config:', error);
-  }
-  
-  // Fallback to default config
-  return DEFAULT_VAPI_CONFIG;
+// Blank fields in an override form mean "inherit"
+function withoutEmpty<T extends object>(values?: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values || {}).filter(([, value]) => value !== undefined && value !== '')
+  ) as Partial<T>;
 }
 
-// Generate role-specific questions based on the job role with server-side config support
-export function getRoleSpecificQuestions(roleType: ScreeningRole): string[] {
-  // Try to read from config first (server-side only)
-  if (typeof window === 'undefined' && fs && path) {
-    try {
-      const configPath = path.join(process.cwd(), 'data', 'config.json');
-      if (fs.existsSync(configPath)) {
-        const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-        
-        // Check if role-specific questions exist in config
-        if (config.roleSpecificQuestions && config.roleSpecificQuestions[roleType]) {
-          return config.roleSpecificQuestions[roleType];
-        }
-      }
-    } catch (error) {
-      console.error('Error reading role-specific questions from config:', error);
-    }
-  }
-
-  // Fallback to default questions if config is not available or an error occurs
+// Default questions for a role, used when the admin hasn't set any
+export function getDefaultRoleSpecificQuestions(roleType: ScreeningRole): string[] {
   switch (roleType) {
     case 'server':
       return [
@@ -252,19 +133,21 @@ export function generateScreeningSystemPrompt(
   roleType: ScreeningRole,
   roleSpecificQuestions: string[],
   conversationTone: string = DEFAULT_VAPI_CONFIG.conversationTone,
-  customSystemPrompt?: string
+  customSystemPrompt?: string,
+  locationName: string = APP_CONFIG.COMPANY_NAME // The restaurant the job is at
 ): string {
   // If custom system prompt is provided, use it with variable substitution
   if (customSystemPrompt) {
     return customSystemPrompt
       .replace(/\{jobTitle\}/g, jobTitle)
+      .replace(/\{locationName\}/g, locationName)
       .replace(/\{roleType\}/g, roleType)
       .replace(/\{conversationTone\}/g, conversationTone)
       .replace(/\{roleSpecificQuestions\}/g, roleSpecificQuestions.join('\n- '));
   }
 
   // Default system prompt
-  return `You are an AI assistant conducting a screening interview for a ${jobTitle} position at a restaurant. 
+  return `You are an AI assistant conducting a screening interview for a ${jobTitle} position at ${locationName}, a restaurant. 
 Your goal is to assess the candidate's experience, availability, and fit for the role in a ${conversationTone} manner.
 
 IMPORTANT GUIDELINES:
@@ -284,7 +167,7 @@ REQUIRED INFORMATION TO COLLECT:
 5. Specific skills related to the ${jobTitle} position
 
 PROCESS:
-1. Start with a brief introduction as the restaurant's AI screening assistant
+1. Start with a brief introduction as ${locationName}'s AI screening assistant
 2. Ask about their relevant experience for the ${jobTitle} position
 3. Ask the mandatory questions about availability and transportation
 4. Ask role-specific questions for the ${jobTitle} position
@@ -301,22 +184,25 @@ export function createScreeningAssistantOptions(
   jobTitle: string,
   candidateName: string,
   roleType: ScreeningRole,
-  config?: VapiConfig
+  config?: VapiConfig,
+  metadata?: VapiScreeningMetadata,
+  locationName: string = APP_CONFIG.COMPANY_NAME
 ) {
-  // Use server-side config if available and no config is explicitly provided
-  const effectiveConfig = config || (typeof window === 'undefined' ? getVapiSettings() : DEFAULT_VAPI_CONFIG);
+  // Server callers pass getEffectiveVapiConfig(); the browser gets it from /api/screening/assistant-config
+  const effectiveConfig = config || DEFAULT_VAPI_CONFIG;
   
-  const roleSpecificQuestions = getRoleSpecificQuestions(roleType);
+  const roleSpecificQuestions = effectiveConfig.roleSpecificQuestions || getDefaultRoleSpecificQuestions(roleType);
   const systemPrompt = generateScreeningSystemPrompt(
     jobTitle,
     roleType,
     roleSpecificQuestions,
     effectiveConfig.conversationTone,
-    effectiveConfig.customSystemPrompt
+    effectiveConfig.customSystemPrompt,
+    locationName
   );
 
   // Get analysis prompt - use custom if available, otherwise default
-  const analysisPrompt = effectiveConfig.customAnalysisPrompt || getCustomAnalysisPrompt() ||
+  const analysisPrompt = effectiveConfig.customAnalysisPrompt ||
     `Analyze this ${jobTitle} screening call and provide a structured summary including:
     1. Candidate's relevant experience
     2. Availability (shifts, weekends, transportation) - Only mention in summary what candidate is said yes to, e.g. if candidate not availble for evening shift don't mention it. If candidate is available for both shifts mention both shift names. Same logic for all fields.
@@ -329,19 +215,19 @@ export function createScreeningAssistantOptions(
   // Simple assistant configuration based on working vapi-react-demo sample
   return {
     name: `${jobTitle} Screening`,
-    firstMessage: `Hi ${candidateName}, I'm the AI screening assistant for the ${jobTitle} position. This call will take about 2-3 minutes, and will be recorded for quality and training purposes. I'll be asking you some questions about your experience and availability. Let's get started. Could you tell me about your relevant experience for this ${jobTitle} role?`,
+    firstMessage: `Hi ${candidateName}, I'm the AI screening assistant for the ${jobTitle} position at ${locationName}. This call will take about 2-3 minutes, and will be recorded for quality and training purposes. I'll be asking you some questions about your experience and availability. Let's get started. Could you tell me about your relevant experience for this ${jobTitle} role?`,
     transcriber: {
-      provider: "deepgram",
-      model: "nova-2",
-      language: "en-US",
+      provider: effectiveConfig.transcriber.provider,
+      model: effectiveConfig.transcriber.model,
+      language: effectiveConfig.transcriber.language,
     },
     voice: {
-      provider: "playht",
-      voiceId: "jennifer",
+      provider: effectiveConfig.voice.provider,
+      voiceId: effectiveConfig.voice.voiceId,
     },
     model: {
-      provider: "openai",
-      model: "gpt-4",
+      provider: effectiveConfig.model.provider,
+      model: effectiveConfig.model.model,
       messages: [
         {
           role: "system",
@@ -364,10 +250,23 @@ export function createScreeningAssistantOptions(
       "tool-calls-result",
       "tool.completed"
     ],
+    // Events VAPI posts to /api/vapi/webhook; the end-of-call report carries the results
+    serverMessages: [
+      "end-of-call-report",
+      "status-update",
+      "hang",
+      "speech-update"
+    ],
+    ...(VAPI_SERVER_URL ? { server: { url: VAPI_SERVER_URL } } : {}),
+    // Lets the webhook match the call to its screening
+    metadata: metadata || {},
     recordingEnabled: true, // Enable recording to get audio URL
     // Configure analysis plan to generate call summary
     analysisPlan: {
       summaryPrompt: analysisPrompt,
+      // Typed answers (availability, transportation, experience, role questions) for the webhook to validate
+      structuredDataSchema: effectiveConfig.structuredDataSchema || getDefaultStructuredDataSchema(roleType),
+      structuredDataPrompt: buildStructuredDataPrompt(jobTitle, roleSpecificQuestions),
     },
     // Call ending configuration
     silenceTimeoutSeconds: 15, // End call after 15 seconds of silence
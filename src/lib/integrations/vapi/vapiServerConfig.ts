@@ -0,0 +1,88 @@
+/**
+ * Admin VAPI settings from the config document (server-side only)
+ *
+ * Reads go through the config repository, so they follow the configured
+ * storage driver. Browser code gets the same settings from
+ * /api/screening/assistant-config.
+ */
+
+import { ScreeningRole } from '../../types';
+import { VapiSettingsOverride } from '../../types/vapi';
+import { configRepository } from '../../data/repositories/config-repository';
+import { ScreeningConfig } from '../../screening/screeningConfigUtils';
+import { StructuredDataSchema, getDefaultStructuredDataSchema } from '../../screening/structuredData';
+import {
+  DEFAULT_VAPI_CONFIG,
+  MANDATORY_QUESTIONS,
+  VapiConfig,
+  applyVapiOverrides,
+  getDefaultRoleSpecificQuestions
+} from './vapiConfig';
+
+// Null when the config can't be read; callers fall back to the defaults
+function readConfig(setting: string): ScreeningConfig | null {
+  try {
+    return configRepository.getConfig();
+  } catch (error) {
+    console.error(`Error reading ${setting} from config:`, error);
+    return null;
+  }
+}
+
+export function getMandatoryQuestions(): string[] {
+  const questions = readConfig('mandatory questions')?.mandatoryQuestions;
+  return Array.isArray(questions) ? questions : MANDATORY_QUESTIONS;
+}
+
+export function getConversationTone(): string {
+  return readConfig('conversation tone')?.vapiSettings?.conversationTone || DEFAULT_VAPI_CONFIG.conversationTone;
+}
+
+export function getCustomSystemPrompt(): string | undefined {
+  return readConfig('custom system prompt')?.vapiSettings?.customSystemPrompt || undefined;
+}
+
+export function getCustomAnalysisPrompt(): string | undefined {
+  return readConfig('custom analysis prompt')?.vapiSettings?.customAnalysisPrompt || undefined;
+}
+
+export function getVapiSettings(): VapiConfig {
+  const settings = readConfig('Vapi settings')?.vapiSettings;
+  if (!settings) {
+    return DEFAULT_VAPI_CONFIG;
+  }
+
+  return {
+    voice: settings.voice || DEFAULT_VAPI_CONFIG.voice,
+    model: settings.model || DEFAULT_VAPI_CONFIG.model,
+    transcriber: settings.transcriber || DEFAULT_VAPI_CONFIG.transcriber,
+    conversationTone: settings.conversationTone || DEFAULT_VAPI_CONFIG.conversationTone,
+    maxCallDuration: settings.maxCallDuration || DEFAULT_VAPI_CONFIG.maxCallDuration,
+    customSystemPrompt: settings.customSystemPrompt,
+    customAnalysisPrompt: settings.customAnalysisPrompt
+  };
+}
+
+// Questions admins set on the role, then the older top-level roleSpecificQuestions, then the defaults
+export function getRoleSpecificQuestions(roleType: ScreeningRole): string[] {
+  const config = readConfig('role-specific questions');
+  if (config?.roles?.[roleType]?.screeningQuestions?.length) {
+    return config.roles[roleType].screeningQuestions;
+  }
+  return config?.roleSpecificQuestions?.[roleType] || getDefaultRoleSpecificQuestions(roleType);
+}
+
+export function getStructuredDataSchema(roleType: ScreeningRole): StructuredDataSchema {
+  return readConfig('structured data schema')?.roles?.[roleType]?.structuredDataSchema || getDefaultStructuredDataSchema(roleType);
+}
+
+// The assistant settings for a role and, optionally, a job
+export function getEffectiveVapiConfig(roleType: ScreeningRole, jobOverrides?: VapiSettingsOverride): VapiConfig {
+  const roleOverrides = readConfig('role Vapi overrides')?.roles?.[roleType]?.vapiOverrides;
+
+  return {
+    ...applyVapiOverrides(getVapiSettings(), roleOverrides, jobOverrides),
+    structuredDataSchema: getStructuredDataSchema(roleType),
+    roleSpecificQuestions: getRoleSpecificQuestions(roleType)
+  };
+}
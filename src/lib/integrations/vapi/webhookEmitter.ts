@@ -0,0 +1,269 @@
+/**
+ * Webhook emitter for the local VAPI simulator (server-side only)
+ *
+ * Keeps a log of simulated calls and posts the server messages VAPI would send
+ * for a scenario to /api/vapi/webhook, signed the way webhookVerification expects.
+ */
+
+import crypto from 'crypto';
+import { getStorageDriver } from '../../data/storage';
+import { VAPI_SIGNATURE_HEADER, VAPI_TIMESTAMP_HEADER } from './webhookVerification';
+import {
+  SIMULATED_CALL_PREFIX,
+  SimulatorScenario,
+  buildScenarioTranscript,
+  getSimulatorScenario
+} from './simulatorScenarios';
+import {
+  VapiCallStatus,
+  VapiEndOfCallReport,
+  VapiHangMessage,
+  VapiScreeningMetadata,
+  VapiServerCall,
+  VapiSpeechUpdate,
+  VapiStatusUpdate
+} from '../../types/vapi';
+
+const SIMULATOR_LOG = 'vapi-simulator-calls';
+
+// One log entry per change to a simulated call; later entries win
+interface SimulatedCallEntry {
+  callId: string;
+  scenario?: string;
+  metadata?: VapiScreeningMetadata;
+  status?: VapiCallStatus;
+  startedAt?: string;
+  endedAt?: string;
+  endedReason?: string;
+  turnsCompleted?: number;
+}
+
+export interface SimulatedCall {
+  id: string;
+  scenario: SimulatorScenario;
+  metadata: VapiScreeningMetadata;
+  status: VapiCallStatus;
+  startedAt: string;
+  endedAt?: string;
+  endedReason?: string;
+  turnsCompleted: number;
+}
+
+export interface EmitResult {
+  type: string;
+  status: number;
+  body: any;
+}
+
+export function createSimulatedCallId(): string {
+  return `${SIMULATED_CALL_PREFIX}${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+}
+
+export function getSimulatedCall(callId: string): SimulatedCall | null {
+  const entries = getStorageDriver()
+    .readLog<SimulatedCallEntry>(SIMULATOR_LOG)
+    .filter(entry => entry.callId === callId);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const state = entries.reduce<SimulatedCallEntry>((current, entry) => ({ ...current, ...entry }), { callId });
+  return {
+    id: callId,
+    scenario: getSimulatorScenario(state.scenario),
+    metadata: state.metadata || {},
+    status: state.status || 'queued',
+    startedAt: state.startedAt || new Date().toISOString(),
+    endedAt: state.endedAt,
+    endedReason: state.endedReason,
+    turnsCompleted: state.turnsCompleted || 0
+  };
+}
+
+function recordCallEntry(entry: SimulatedCallEntry): SimulatedCall {
+  getStorageDriver().appendLog<SimulatedCallEntry>(SIMULATOR_LOG, entry);
+  return getSimulatedCall(entry.callId)!;
+}
+
+export function startSimulatedCall(callId: string, scenarioName: string, metadata: VapiScreeningMetadata = {}): SimulatedCall {
+  return recordCallEntry({
+    callId,
+    scenario: getSimulatorScenario(scenarioName).name,
+    metadata,
+    status: 'in-progress',
+    startedAt: new Date().toISOString(),
+    turnsCompleted: 0
+  });
+}
+
+export function recordSimulatedTurn(callId: string, turnsCompleted: number): SimulatedCall {
+  return recordCallEntry({ callId, turnsCompleted });
+}
+
+export function endSimulatedCall(callId: string, turnsCompleted: number, endedReason?: string): SimulatedCall {
+  const call = getSimulatedCall(callId);
+  return recordCallEntry({
+    callId,
+    status: 'ended',
+    endedAt: new Date().toISOString(),
+    // A call stopped before the script finished was hung up by the candidate
+    endedReason: endedReason ||
+      (call && turnsCompleted < call.scenario.turns.length ? 'customer-ended-call' : call?.scenario.endedReason),
+    turnsCompleted
+  });
+}
+
+function isScriptComplete(call: SimulatedCall): boolean {
+  return call.turnsCompleted >= call.scenario.turns.length;
+}
+
+function toServerCall(call: SimulatedCall): VapiServerCall {
+  return {
+    id: call.id,
+    type: 'webCall',
+    status: call.status,
+    startedAt: call.startedAt,
+    endedAt: call.endedAt,
+    endedReason: call.endedReason,
+    metadata: call.metadata,
+    assistantOverrides: { metadata: call.metadata }
+  };
+}
+
+/**
+ * The call as VAPI's GET /call/:id returns it; analysis is only available once
+ * the whole script has played, as a cut-off call has nothing to extract
+ */
+export function toVapiCallResponse(call: SimulatedCall): Record<string, any> {
+  const scenario = call.scenario;
+  return {
+    ...toServerCall(call),
+    artifact: {
+      transcript: buildScenarioTranscript(scenario, call.turnsCompleted),
+      messages: scenario.turns.slice(0, call.turnsCompleted).map(turn => ({
+        role: turn.role === 'assistant' ? 'bot' : 'user',
+        message: turn.text
+      }))
+    },
+    analysis: call.status === 'ended' && isScriptComplete(call) && scenario.summary
+      ? { summary: scenario.summary, structuredData: scenario.structuredData, successEvaluation: scenario.successEvaluation }
+      : undefined
+  };
+}
+
+export function buildStatusUpdate(call: SimulatedCall, status: VapiCallStatus): VapiStatusUpdate {
+  return { type: 'status-update', status, call: toServerCall(call), endedReason: call.endedReason };
+}
+
+// A started/stopped pair for one spoken turn
+export function buildSpeechUpdates(call: SimulatedCall, turn: number): VapiSpeechUpdate[] {
+  const role = call.scenario.turns[turn]?.role || 'assistant';
+  return (['started', 'stopped'] as const).map(status => ({
+    type: 'speech-update',
+    status,
+    role,
+    turn,
+    call: toServerCall(call)
+  }));
+}
+
+export function buildHang(call: SimulatedCall): VapiHangMessage {
+  return { type: 'hang', call: toServerCall(call) };
+}
+
+export function buildEndOfCallReport(call: SimulatedCall): VapiEndOfCallReport {
+  const response = toVapiCallResponse(call);
+  return {
+    type: 'end-of-call-report',
+    call: toServerCall(call),
+    endedReason: call.endedReason,
+    startedAt: call.startedAt,
+    endedAt: call.endedAt,
+    artifact: response.artifact,
+    analysis: response.analysis
+  };
+}
+
+/**
+ * Post one server message to the webhook, wrapped in { message } like VAPI does.
+ * Signs it with VAPI_WEBHOOK_SECRET when that is set.
+ */
+export async function emitWebhook(webhookUrl: string, message: { type: string; [key: string]: any }): Promise<EmitResult> {
+  const timestamp = Date.now();
+  const rawBody = JSON.stringify({ message: { id: crypto.randomUUID(), timestamp, ...message } });
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  const secret = process.env.VAPI_WEBHOOK_SECRET;
+  if (secret) {
+    headers[VAPI_TIMESTAMP_HEADER] = String(timestamp);
+    headers[VAPI_SIGNATURE_HEADER] = crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+  }
+
+  const response = await fetch(webhookUrl, { method: 'POST', headers, body: rawBody });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    console.error(`Simulated ${message.type} webhook was rejected (${response.status}):`, body);
+  }
+
+  return { type: message.type, status: response.status, body };
+}
+
+// Speech updates for a turn that has just been spoken, plus any scripted events after it
+export async function emitTurnEvents(webhookUrl: string, call: SimulatedCall, turn: number): Promise<EmitResult[]> {
+  const results: EmitResult[] = [];
+  for (const update of buildSpeechUpdates(call, turn)) {
+    results.push(await emitWebhook(webhookUrl, update));
+  }
+
+  for (const event of call.scenario.events || []) {
+    if (event.afterTurn === turn && event.type === 'hang') {
+      results.push(await emitWebhook(webhookUrl, buildHang(call)));
+    }
+  }
+
+  return results;
+}
+
+export async function emitCallEnded(webhookUrl: string, call: SimulatedCall): Promise<EmitResult[]> {
+  return [
+    await emitWebhook(webhookUrl, buildStatusUpdate(call, 'ended')),
+    await emitWebhook(webhookUrl, buildEndOfCallReport(call))
+  ];
+}
+
+/**
+ * Replay a whole scenario against a webhook: status update, speech and scripted
+ * events for every turn, then the end-of-call report. With `realtime` the turns
+ * keep their scripted pauses; otherwise they are sent back to back.
+ */
+export async function replayScenario(
+  webhookUrl: string,
+  scenarioName: string,
+  metadata: VapiScreeningMetadata,
+  options: { realtime?: boolean; callId?: string } = {}
+): Promise<{ callId: string; results: EmitResult[] }> {
+  const callId = options.callId || createSimulatedCallId();
+  const scenario = getSimulatorScenario(scenarioName);
+  const results: EmitResult[] = [];
+
+  // A call that fails to start never reaches the server URL
+  if (scenario.startError) {
+    return { callId, results };
+  }
+
+  let call = startSimulatedCall(callId, scenario.name, metadata);
+  results.push(await emitWebhook(webhookUrl, buildStatusUpdate(call, 'in-progress')));
+
+  for (let turn = 0; turn < scenario.turns.length; turn++) {
+    if (options.realtime) {
+      await new Promise(resolve => setTimeout(resolve, scenario.turns[turn].delayMs));
+    }
+    call = recordSimulatedTurn(callId, turn + 1);
+    results.push(...await emitTurnEvents(webhookUrl, call, turn));
+  }
+
+  call = endSimulatedCall(callId, scenario.turns.length);
+  results.push(...await emitCallEnded(webhookUrl, call));
+
+  return { callId, results };
+}
@@ -0,0 +1,201 @@
+/**
+ * VAPI webhook verification (server-side only)
+ *
+ * Requests must carry either the shared secret (x-vapi-secret) or an HMAC-SHA256
+ * signature of `${timestamp}.${rawBody}` (x-vapi-signature), be recent enough to
+ * fall inside the replay window, and not repeat an event that was already handled.
+ */
+
+import crypto from 'crypto';
+import { getStorageDriver } from '../../data/storage';
+
+export const VAPI_SECRET_HEADER = 'x-vapi-secret';
+export const VAPI_SIGNATURE_HEADER = 'x-vapi-signature';
+export const VAPI_TIMESTAMP_HEADER = 'x-vapi-timestamp';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const EVENTS_LOG = 'webhook-events';
+
+export type WebhookRejectionReason =
+  | 'secret_not_configured'
+  | 'missing_credentials'
+  | 'invalid_secret'
+  | 'invalid_signature'
+  | 'missing_timestamp'
+  | 'stale_timestamp'
+  | 'invalid_payload'
+  | 'duplicate_event';
+
+export type WebhookVerificationResult =
+  | { ok: true; eventKey: string }
+  | { ok: false; reason: WebhookRejectionReason; status: number; message: string };
+
+interface WebhookEventRecord {
+  key: string;
+  receivedAt: number;
+  released?: boolean;
+}
+
+function getToleranceMs(): number {
+  const configured = parseInt(process.env.VAPI_WEBHOOK_TOLERANCE_SECONDS || '', 10);
+  return (configured > 0 ? configured : DEFAULT_TOLERANCE_SECONDS) * 1000;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+// Accepts seconds or milliseconds since the epoch, or an ISO date string
+function parseTimestamp(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const numeric = Number(value);
+  if (!Number.isNaN(numeric)) {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+// The VAPI server message, whether or not it is wrapped in { message: ... }
+export function getWebhookMessage(payload: any): any {
+  return payload?.message && typeof payload.message === 'object' ? payload.message : payload;
+}
+
+export function getWebhookCallId(payload: any): string | undefined {
+  const message = getWebhookMessage(payload);
+  return message?.call?.id || message?.callId || payload?.callId;
+}
+
+/**
+ * Key that identifies one delivery of one event: the message id when VAPI sends one,
+ * otherwise call id + event type + timestamp.
+ */
+export function getWebhookEventKey(payload: any, timestamp: number): string | null {
+  const message = getWebhookMessage(payload);
+  if (message?.id) {
+    return `message:${message.id}`;
+  }
+
+  const callId = getWebhookCallId(payload);
+  if (!callId || !message?.type) {
+    return null;
+  }
+
+  return `call:${callId}:${message.type}:${timestamp}`;
+}
+
+function verifyCredentials(headers: Headers, rawBody: string, secret: string, timestamp: string | null): WebhookVerificationResult | null {
+  const signature = headers.get(VAPI_SIGNATURE_HEADER);
+  if (signature) {
+    if (!timestamp) {
+      return { ok: false, reason: 'missing_timestamp', status: 401, message: 'Signed webhook is missing its timestamp header' };
+    }
+
+    const expected = crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+    return safeEqual(signature.replace(/^sha256=/, ''), expected)
+      ? null
+      : { ok: false, reason: 'invalid_signature', status: 401, message: 'Unauthorized: webhook signature mismatch' };
+  }
+
+  const providedSecret = headers.get(VAPI_SECRET_HEADER);
+  if (providedSecret) {
+    return safeEqual(providedSecret, secret)
+      ? null
+      : { ok: false, reason: 'invalid_secret', status: 401, message: 'Unauthorized: webhook secret mismatch' };
+  }
+
+  return { ok: false, reason: 'missing_credentials', status: 401, message: 'Unauthorized: webhook credentials missing' };
+}
+
+/**
+ * Checks credentials and the replay window. Does not check for duplicates;
+ * call claimWebhookEvent with the returned key once the request is accepted.
+ */
+export function verifyWebhookRequest(
+  headers: Headers,
+  rawBody: string,
+  payload: any,
+  now: number = Date.now()
+): WebhookVerificationResult {
+  const secret = process.env.VAPI_WEBHOOK_SECRET;
+  const timestampHeader = headers.get(VAPI_TIMESTAMP_HEADER);
+
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      return { ok: false, reason: 'secret_not_configured', status: 500, message: 'Webhook secret is not configured' };
+    }
+    console.warn('VAPI_WEBHOOK_SECRET is not set; accepting unsigned webhook (development only)');
+  } else {
+    const credentialFailure = verifyCredentials(headers, rawBody, secret, timestampHeader);
+    if (credentialFailure) {
+      return credentialFailure;
+    }
+  }
+
+  // The signed header decides freshness; the message's own timestamp identifies the event across retries
+  const deliveredAt = parseTimestamp(timestampHeader);
+  const sentAt = parseTimestamp(getWebhookMessage(payload)?.timestamp);
+  const timestamp = deliveredAt ?? sentAt;
+  if (timestamp === null) {
+    return { ok: false, reason: 'missing_timestamp', status: 400, message: 'Webhook has no timestamp' };
+  }
+
+  if (Math.abs(now - timestamp) > getToleranceMs()) {
+    return { ok: false, reason: 'stale_timestamp', status: 401, message: 'Webhook timestamp is outside the accepted window' };
+  }
+
+  const eventKey = getWebhookEventKey(payload, sentAt ?? timestamp);
+  if (!eventKey) {
+    return { ok: false, reason: 'invalid_payload', status: 400, message: 'Webhook has no message id or call id' };
+  }
+
+  return { ok: true, eventKey };
+}
+
+// Keys handled recently, loaded from the events log on first use
+let recentEvents: Map<string, number> | null = null;
+
+function getRecentEvents(now: number): Map<string, number> {
+  if (!recentEvents) {
+    recentEvents = new Map();
+    for (const record of getStorageDriver().readLog<WebhookEventRecord>(EVENTS_LOG)) {
+      if (record.released) {
+        recentEvents.delete(record.key);
+      } else {
+        recentEvents.set(record.key, record.receivedAt);
+      }
+    }
+  }
+
+  // Anything older than twice the replay window can no longer pass verification
+  const cutoff = now - getToleranceMs() * 2;
+  recentEvents.forEach((receivedAt, key) => {
+    if (receivedAt < cutoff) recentEvents!.delete(key);
+  });
+
+  return recentEvents;
+}
+
+// Marks an event as handled; returns false when it was already claimed
+export function claimWebhookEvent(eventKey: string, now: number = Date.now()): boolean {
+  const events = getRecentEvents(now);
+  if (events.has(eventKey)) {
+    return false;
+  }
+
+  events.set(eventKey, now);
+  getStorageDriver().appendLog<WebhookEventRecord>(EVENTS_LOG, { key: eventKey, receivedAt: now });
+  return true;
+}
+
+// Lets VAPI's retry through after processing failed
+export function releaseWebhookEvent(eventKey: string): void {
+  getRecentEvents(Date.now()).delete(eventKey);
+  getStorageDriver().appendLog<WebhookEventRecord>(EVENTS_LOG, { key: eventKey, receivedAt: Date.now(), released: true });
+}
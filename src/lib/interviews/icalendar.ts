@@ -0,0 +1,124 @@
+/**
+ * iCalendar (.ics) invites for interviews (RFC 5545).
+ *
+ * Each interview keeps one UID, and its `sequence` goes up whenever the time,
+ * place or status changes, so calendar clients update the existing event
+ * instead of adding a second one. Cancelled interviews produce a CANCEL.
+ */
+
+import { Interview, InterviewFormat } from '../types';
+import { APP_CONFIG } from '../config/constants';
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+function octetLength(value: string): number {
+  return encoder.encode(value).length;
+}
+
+export interface InterviewInviteDetails {
+  candidateName: string;
+  candidateEmail?: string;
+  position: string;
+  organizerEmail?: string; // Defaults to the interviewer
+}
+
+export const INTERVIEW_FORMAT_LABELS: Record<InterviewFormat, string> = {
+  in_person: 'In person',
+  phone: 'Phone',
+  video: 'Video call'
+};
+
+// 2025-06-02T21:10:54.332Z -> 20250602T211054Z
+export function toICalendarDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function escapeICalendarText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Parameter values (like CN) have no escapes: values with , ; or : are double-quoted,
+// and a quoted value can't hold double quotes or control characters (RFC 5545 3.1)
+export function formatICalendarParam(value: string): string {
+  const text = value.replace(/"/g, '').replace(/[\x00-\x1f\x7f]+/g, ' ').trim();
+  return /[,;:]/.test(text) ? `"${text}"` : text;
+}
+
+// Lines longer than 75 octets continue on the next line after a single space
+export function foldICalendarLine(line: string): string {
+  if (octetLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = octetLength(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+export function getInterviewUid(interview: Interview): string {
+  return `${interview.id}@${APP_CONFIG.APP_NAME.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+}
+
+function calendarAddress(name: string, email: string | undefined, extra: string = ''): string {
+  return `;CN=${formatICalendarParam(name)}${extra}:mailto:${email || 'noreply@invalid'}`;
+}
+
+export function buildInterviewInvite(
+  interview: Interview,
+  details: InterviewInviteDetails,
+  now: Date = new Date()
+): string {
+  const cancelled = interview.status === 'cancelled';
+  const description = [
+    `${INTERVIEW_FORMAT_LABELS[interview.format]} interview for the ${details.position} position.`,
+    `Interviewer: ${interview.interviewer.name}`,
+    interview.location ? `Location: ${interview.location}` : '',
+    interview.notes || ''
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${APP_CONFIG.COMPANY_NAME}//${APP_CONFIG.APP_NAME} ${APP_CONFIG.VERSION}//EN`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${cancelled ? 'CANCEL' : 'REQUEST'}`,
+    'BEGIN:VEVENT',
+    `UID:${getInterviewUid(interview)}`,
+    `DTSTAMP:${toICalendarDate(now.toISOString())}`,
+    `DTSTART:${toICalendarDate(interview.startTime)}`,
+    `DTEND:${toICalendarDate(interview.endTime)}`,
+    `SEQUENCE:${interview.sequence}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SUMMARY:${escapeICalendarText(`Interview: ${details.candidateName} - ${details.position}`)}`,
+    `DESCRIPTION:${escapeICalendarText(description)}`,
+    interview.location ? `LOCATION:${escapeICalendarText(interview.location)}` : '',
+    `ORGANIZER${calendarAddress(interview.interviewer.name, details.organizerEmail || interview.interviewer.email)}`,
+    `ATTENDEE${calendarAddress(details.candidateName, details.candidateEmail, ';ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE')}`,
+    `ATTENDEE${calendarAddress(interview.interviewer.name, interview.interviewer.email, ';ROLE=CHAIR;PARTSTAT=ACCEPTED')}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].filter(Boolean);
+
+  return lines.map(foldICalendarLine).join(CRLF) + CRLF;
+}
@@ -0,0 +1,104 @@
+/**
+ * Interview feedback scorecards.
+ *
+ * Each interviewer rates the candidate 1-5 on a few criteria and gives a
+ * recommendation. The scorecards on an interview roll up into one line on the
+ * application timeline.
+ */
+
+import { InterviewRecommendation, InterviewScorecard, ScorecardRating } from '../types';
+
+export const SCORECARD_RECOMMENDATIONS: InterviewRecommendation[] = ['strong_yes', 'yes', 'no', 'strong_no'];
+
+export const RECOMMENDATION_LABELS: Record<InterviewRecommendation, string> = {
+  strong_yes: 'Strong yes',
+  yes: 'Yes',
+  no: 'No',
+  strong_no: 'Strong no'
+};
+
+// Criteria the scorecard form starts with; interviewers can add their own
+export const DEFAULT_SCORECARD_CRITERIA = ['Experience', 'Communication', 'Teamwork', 'Reliability', 'Role skills'];
+
+export interface ScorecardInput {
+  interviewer: string;
+  ratings: ScorecardRating[];
+  recommendation: InterviewRecommendation;
+  comments?: string;
+}
+
+export interface ScorecardSummary {
+  count: number;
+  averageScore: number | null; // Average of the scorecards' overall scores
+  recommendations: Record<InterviewRecommendation, number>;
+}
+
+export function validateScorecard(input: any): string[] {
+  const errors: string[] = [];
+  if (typeof input?.interviewer !== 'string' || !input.interviewer.trim()) {
+    errors.push('interviewer: Required');
+  }
+  if (!SCORECARD_RECOMMENDATIONS.includes(input?.recommendation)) {
+    errors.push(`recommendation: Must be one of ${SCORECARD_RECOMMENDATIONS.join(', ')}`);
+  }
+  if (!Array.isArray(input?.ratings) || input.ratings.length === 0) {
+    errors.push('ratings: At least one rating is required');
+    return errors;
+  }
+
+  input.ratings.forEach((rating: any, index: number) => {
+    if (typeof rating?.criterion !== 'string' || !rating.criterion.trim()) {
+      errors.push(`ratings.${index}.criterion: Required`);
+    }
+    if (!Number.isInteger(rating?.score) || rating.score < 1 || rating.score > 5) {
+      errors.push(`ratings.${index}.score: Must be a whole number from 1 to 5`);
+    }
+  });
+  return errors;
+}
+
+export function buildScorecard(input: ScorecardInput, now: Date = new Date()): InterviewScorecard {
+  const ratings = input.ratings.map(rating => ({
+    criterion: rating.criterion.trim(),
+    score: rating.score,
+    ...(rating.notes?.trim() ? { notes: rating.notes.trim() } : {})
+  }));
+  const total = ratings.reduce((sum, rating) => sum + rating.score, 0);
+
+  return {
+    id: `scorecard-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    interviewer: input.interviewer.trim(),
+    ratings,
+    overallScore: Math.round((total / ratings.length) * 10) / 10,
+    recommendation: input.recommendation,
+    comments: input.comments?.trim() || undefined,
+    submittedAt: now.toISOString()
+  };
+}
+
+export function summarizeScorecards(scorecards: InterviewScorecard[]): ScorecardSummary {
+  const recommendations: Record<InterviewRecommendation, number> = { strong_yes: 0, yes: 0, no: 0, strong_no: 0 };
+  for (const scorecard of scorecards) {
+    recommendations[scorecard.recommendation]++;
+  }
+
+  const averageScore = scorecards.length
+    ? Math.round((scorecards.reduce((sum, scorecard) => sum + scorecard.overallScore, 0) / scorecards.length) * 10) / 10
+    : null;
+
+  return { count: scorecards.length, averageScore, recommendations };
+}
+
+// e.g. "2 scorecards, average 4.3/5 (Strong yes: 1, Yes: 1)"
+export function describeScorecards(scorecards: InterviewScorecard[]): string {
+  const summary = summarizeScorecards(scorecards);
+  if (summary.count === 0) {
+    return 'No scorecards submitted';
+  }
+
+  const votes = SCORECARD_RECOMMENDATIONS
+    .filter(recommendation => summary.recommendations[recommendation] > 0)
+    .map(recommendation => `${RECOMMENDATION_LABELS[recommendation]}: ${summary.recommendations[recommendation]}`)
+    .join(', ');
+  return `${summary.count} scorecard${summary.count === 1 ? '' : 's'}, average ${summary.averageScore}/5 (${votes})`;
+}
@@ -0,0 +1,129 @@
+/**
+ * Delivery of candidate notifications (server-side only)
+ *
+ * sendNotification queues a 'deliver-notification' job; the job worker hands
+ * the message to the email transport or the SMS provider and retries failures
+ * with backoff. Every attempt is recorded in the application's
+ * notificationDeliveries log.
+ */
+
+import { JobApplication, NotificationDelivery } from '../types';
+import { getStorageDriver } from '../data/storage';
+import { PermanentJobError } from '../queue/jobQueue';
+import type { CandidateNotification } from '../services/notificationService';
+import { EmailAttachment, SmtpError, getEmailFromAddress, getEmailTransport } from './transports';
+import { getSmsProvider } from './sms';
+
+export interface DeliverNotificationJobPayload {
+  notification: CandidateNotification;
+  attachments?: EmailAttachment[];
+}
+
+interface SendOutcome {
+  messageId: string;
+  transport: string;
+}
+
+// The delivery log is bookkeeping, not an edit of the application, so updatedAt
+// is left alone and a recruiter's open edit doesn't hit a conflict
+function updateDelivery(
+  applicationId: string,
+  notificationId: string,
+  changes: Partial<NotificationDelivery>
+): void {
+  getStorageDriver().update<JobApplication>('applications', applicationId, application => ({
+    ...application,
+    notificationDeliveries: (application.notificationDeliveries || []).map(delivery =>
+      delivery.notificationId === notificationId ? { ...delivery, ...changes } : delivery
+    )
+  }));
+}
+
+export function recordQueuedDelivery(notification: CandidateNotification): void {
+  const delivery: NotificationDelivery = {
+    notificationId: notification.id,
+    type: notification.type,
+    channel: notification.channel,
+    to: notification.to,
+    subject: notification.subject,
+    status: 'queued',
+    attempts: 0,
+    queuedAt: notification.createdAt
+  };
+
+  getStorageDriver().update<JobApplication>('applications', notification.applicationId, application => ({
+    ...application,
+    notificationDeliveries: [...(application.notificationDeliveries || []), delivery]
+  }));
+}
+
+async function sendEmail(payload: DeliverNotificationJobPayload): Promise<SendOutcome> {
+  const { notification, attachments } = payload;
+  const transport = getEmailTransport();
+  try {
+    const result = await transport.send({
+      from: getEmailFromAddress(),
+      to: notification.to,
+      subject: notification.subject,
+      text: notification.body,
+      attachments
+    });
+    return { messageId: result.messageId, transport: transport.name };
+  } catch (error) {
+    if (error instanceof SmtpError && error.permanent) {
+      throw new PermanentJobError(error.message);
+    }
+    throw error;
+  }
+}
+
+async function sendSms(payload: DeliverNotificationJobPayload): Promise<SendOutcome> {
+  const provider = getSmsProvider();
+  const result = await provider.send({ to: payload.notification.to, body: payload.notification.body });
+  return { messageId: result.messageId, transport: provider.name };
+}
+
+/**
+ * Sends one notification on its channel. Throws so the job is retried; a
+ * missing recipient or a permanent rejection dead-letters it.
+ */
+export async function deliverNotification(payload: DeliverNotificationJobPayload, attempt: number): Promise<string> {
+  const { notification } = payload;
+  const attemptedAt = new Date().toISOString();
+  const channelLabel = notification.channel === 'sms' ? 'text' : 'email';
+
+  try {
+    if (!notification.to) {
+      throw new PermanentJobError(`Candidate has no ${notification.channel === 'sms' ? 'phone number' : 'email address'}`);
+    }
+
+    const outcome = notification.channel === 'sms' ? await sendSms(payload) : await sendEmail(payload);
+    updateDelivery(notification.applicationId, notification.id, {
+      status: 'sent',
+      attempts: attempt,
+      transport: outcome.transport,
+      messageId: outcome.messageId,
+      lastAttemptAt: attemptedAt,
+      sentAt: new Date().toISOString(),
+      lastError: undefined
+    });
+    return `Sent ${notification.type} ${channelLabel} to ${notification.to} via ${outcome.transport}`;
+  } catch (error) {
+    updateDelivery(notification.applicationId, notification.id, {
+      attempts: attempt,
+      lastAttemptAt: attemptedAt,
+      lastError: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+// Dead-letter handler: the job is out of attempts (or the failure was permanent)
+export function handleDeliveryFailed(payload: DeliverNotificationJobPayload, error: Error): void {
+  const { notification } = payload;
+  updateDelivery(notification.applicationId, notification.id, {
+    status: 'failed',
+    lastError: error.message
+  });
+  console.error(`${notification.channel === 'sms' ? 'Text' : 'Email'} ${notification.type} to ${notification.to || 'unknown recipient'} failed:`, error.message);
+}
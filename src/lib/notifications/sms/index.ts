@@ -0,0 +1,20 @@
+import { StubSmsProvider } from './stubSmsProvider';
+import { SmsProvider } from './types';
+
+export * from './types';
+
+let smsProvider: SmsProvider | null = null;
+
+// Returns the process-wide SMS provider. Only the local stub exists so far; a
+// gateway integration implements SmsProvider and is selected here.
+export function getSmsProvider(): SmsProvider {
+  if (!smsProvider) {
+    smsProvider = new StubSmsProvider();
+  }
+  return smsProvider;
+}
+
+// Overrides the active provider (used by scripts that need a specific one)
+export function setSmsProvider(provider: SmsProvider | null): void {
+  smsProvider = provider;
+}
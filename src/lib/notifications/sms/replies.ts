@@ -0,0 +1,25 @@
+/**
+ * Keywords candidates can text back. Matching is on the first word, ignoring
+ * case and punctuation, so "Stop." and "withdraw please" both count.
+ */
+
+export type SmsReplyCommand = 'stop' | 'start' | 'reschedule' | 'withdraw' | 'help' | 'unknown';
+
+// STOP/START keywords follow the carrier opt-out conventions
+const KEYWORDS: Record<Exclude<SmsReplyCommand, 'unknown'>, string[]> = {
+  stop: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT'],
+  start: ['START', 'UNSTOP', 'SUBSCRIBE'],
+  reschedule: ['RESCHEDULE', 'RESCHED', 'REBOOK'],
+  withdraw: ['WITHDRAW'],
+  help: ['HELP', 'INFO']
+};
+
+export function parseSmsReply(text: string): SmsReplyCommand {
+  const firstWord = text.trim().split(/\s+/)[0]?.toUpperCase().replace(/[^A-Z]/g, '') || '';
+  for (const [command, keywords] of Object.entries(KEYWORDS)) {
+    if (keywords.includes(firstWord)) {
+      return command as SmsReplyCommand;
+    }
+  }
+  return 'unknown';
+}
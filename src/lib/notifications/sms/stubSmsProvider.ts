@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import { getStorageDriver } from '../../data/storage';
+import { InboundSms, InboundSmsRequest, SmsMessage, SmsProvider, SmsSendResult } from './types';
+
+export const SMS_SIGNATURE_HEADER = 'x-sms-signature';
+export const SMS_TIMESTAMP_HEADER = 'x-sms-timestamp';
+
+// How far a signed request's timestamp may be from now before it counts as a replay
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface StubSmsRecord extends SmsMessage {
+  messageId: string;
+  sentAt: string;
+}
+
+/**
+ * Development provider: nothing leaves the machine. Sent texts are appended to
+ * the sms-outbox log and printed to the console; inbound texts are posted to
+ * /api/sms/inbound by hand as { from, body }, signed the way our VAPI webhooks
+ * are when SMS_INBOUND_SECRET is set.
+ */
+export class StubSmsProvider implements SmsProvider {
+  readonly name = 'stub';
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const record: StubSmsRecord = {
+      ...message,
+      messageId: `SM${crypto.randomBytes(16).toString('hex')}`,
+      sentAt: new Date().toISOString()
+    };
+    getStorageDriver().appendLog<StubSmsRecord>('sms-outbox', record);
+    console.log(`[SMS] to ${message.to}: ${message.body}`);
+    return { messageId: record.messageId };
+  }
+
+  // Also takes the From/Body field names most SMS gateways post
+  parseInbound(fields: Record<string, string>): InboundSms | null {
+    const from = fields.from || fields.From;
+    const body = fields.body ?? fields.Body;
+    if (!from || typeof body !== 'string') {
+      return null;
+    }
+    return {
+      from,
+      body,
+      receivedAt: new Date().toISOString(),
+      messageId: fields.messageId || fields.MessageSid || undefined
+    };
+  }
+
+  // Hex HMAC-SHA256 of `${timestamp}.${rawBody}` in x-sms-signature, with the timestamp (seconds) in x-sms-timestamp
+  verifyInbound({ headers, rawBody }: InboundSmsRequest, secret: string, now: number = Date.now()): boolean {
+    const signature = headers.get(SMS_SIGNATURE_HEADER);
+    const timestamp = headers.get(SMS_TIMESTAMP_HEADER);
+    if (!signature || !timestamp) {
+      return false;
+    }
+
+    const sentAt = Number(timestamp) * 1000;
+    if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > SIGNATURE_TOLERANCE_MS) {
+      return false;
+    }
+
+    const expected = Buffer.from(crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex'));
+    const provided = Buffer.from(signature.replace(/^sha256=/, ''));
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  }
+}
@@ -0,0 +1,33 @@
+export interface SmsMessage {
+  to: string; // E.164
+  body: string;
+}
+
+export interface SmsSendResult {
+  messageId: string;
+}
+
+// A text a candidate sent to our number
+export interface InboundSms {
+  from: string;
+  body: string;
+  receivedAt: string;
+  messageId?: string;
+}
+
+// What the inbound webhook route received, for checking the provider's signature
+export interface InboundSmsRequest {
+  url: string;
+  headers: Headers;
+  rawBody: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  // Throws when the provider did not accept the message; the delivery job retries it
+  send(message: SmsMessage): Promise<SmsSendResult>;
+  // The provider's inbound webhook fields as an InboundSms, or null when they aren't one
+  parseInbound(fields: Record<string, string>): InboundSms | null;
+  // Whether an inbound webhook request carries the provider's signature made with `secret`
+  verifyInbound(request: InboundSmsRequest, secret: string, now?: number): boolean;
+}
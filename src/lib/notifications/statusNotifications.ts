@@ -0,0 +1,133 @@
+/**
+ * Status change notifications (server-side only)
+ *
+ * Called after an application's status changes; sends the admin-configured
+ * template for the new status (see STATUS_NOTIFICATIONS) by email, and its SMS
+ * variant to candidates who can be texted.
+ */
+
+import { ApplicationStatus, Candidate, Job, JobApplication } from '../types';
+import { configRepository } from '../data/repositories/config-repository';
+import { getAppBaseUrl } from '../config/constants';
+import { getCandidateById } from '../services/candidateService';
+import { getScreeningsByApplication } from '../services/screeningService';
+import { CandidateNotification, sendCandidateNotification } from '../services/notificationService';
+import { getPortalLink } from '../services/candidatePortalService';
+import { getJobById } from '../servers/jobs-server';
+import {
+  NotificationTemplates,
+  STATUS_NOTIFICATIONS,
+  SmsTemplates,
+  resolveNotificationTemplates,
+  resolveSmsTemplates
+} from './templates';
+
+const DEFAULT_OFFER_DETAILS = 'A member of our team will contact you shortly with the details of your offer.';
+
+export function getNotificationTemplates(): NotificationTemplates {
+  return resolveNotificationTemplates(configRepository.getConfig().notificationTemplates);
+}
+
+export function updateNotificationTemplates(templates: Partial<NotificationTemplates>): NotificationTemplates {
+  const config = configRepository.getConfig();
+  const resolved = resolveNotificationTemplates({ ...config.notificationTemplates, ...templates });
+  configRepository.updateConfig({ ...config, notificationTemplates: resolved });
+  return resolved;
+}
+
+export function getSmsTemplates(): SmsTemplates {
+  return resolveSmsTemplates(configRepository.getConfig().smsTemplates);
+}
+
+export function updateSmsTemplates(templates: Partial<SmsTemplates>): SmsTemplates {
+  const config = configRepository.getConfig();
+  const resolved = resolveSmsTemplates({ ...config.smsTemplates, ...templates });
+  configRepository.updateConfig({ ...config, smsTemplates: resolved });
+  return resolved;
+}
+
+export function getScreeningLink(application: JobApplication): string {
+  const params = new URLSearchParams({
+    candidateId: application.candidateId,
+    jobId: application.jobId,
+    applicationId: application.id
+  });
+  return `${getAppBaseUrl()}/candidate/screening?${params.toString()}`;
+}
+
+// Placeholder values shared by the status templates
+function templateData(application: JobApplication, candidate: Candidate | null, job: Job | null): Record<string, string> {
+  return {
+    candidateName: candidate ? `${candidate.firstName} ${candidate.lastName}`.trim() : 'there',
+    position: job?.title || 'open',
+    screeningLink: getScreeningLink(application),
+    portalLink: getPortalLink(application),
+    offerDetails: application.feedback?.offerDetails || DEFAULT_OFFER_DETAILS
+  };
+}
+
+// Statuses whose message another part of the flow already covers
+function isCoveredElsewhere(application: JobApplication, previousStatus: ApplicationStatus | null): boolean {
+  switch (application.status) {
+    case 'submitted':
+      // Only a new application; going back to submitted (e.g. after a failed call) isn't one
+      return previousStatus !== null;
+    case 'screening_scheduled':
+      // A booked slot or a placed call comes with its own confirmation
+      return ['booked', 'started'].includes(application.screeningBooking?.status || '') ||
+        getScreeningsByApplication(application.id).length > 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Queues the messages for the application's new status. Pass null as the
+ * previous status for a newly created application.
+ */
+export function notifyStatusChange(
+  application: JobApplication,
+  previousStatus: ApplicationStatus | null
+): CandidateNotification[] {
+  const rule = STATUS_NOTIFICATIONS[application.status];
+  if (!rule || application.status === previousStatus || isCoveredElsewhere(application, previousStatus)) {
+    return [];
+  }
+
+  try {
+    const candidate = getCandidateById(application.candidateId);
+    const job = getJobById(application.jobId);
+
+    return sendCandidateNotification(
+      candidate,
+      {
+        applicationId: application.id,
+        candidateId: application.candidateId,
+        type: `status_${application.status}`,
+        subject: rule.subject
+      },
+      { email: getNotificationTemplates()[rule.template], sms: getSmsTemplates()[rule.template] },
+      templateData(application, candidate, job)
+    );
+  } catch (error) {
+    // The status change itself already happened; a missed email shouldn't undo or fail it
+    console.error(`Failed to queue ${application.status} messages for application ${application.id}:`, error);
+    return [];
+  }
+}
+
+// Sends the screening invitation again without a status change, e.g. after a missed or failed call
+export function sendScreeningReinvitation(application: JobApplication): CandidateNotification[] {
+  const candidate = getCandidateById(application.candidateId);
+  return sendCandidateNotification(
+    candidate,
+    {
+      applicationId: application.id,
+      candidateId: application.candidateId,
+      type: 'screening_reinvite',
+      subject: STATUS_NOTIFICATIONS.screening_scheduled?.subject || 'Schedule your screening call'
+    },
+    { email: getNotificationTemplates().screeningInvitation, sms: getSmsTemplates().screeningInvitation },
+    templateData(application, candidate, getJobById(application.jobId))
+  );
+}
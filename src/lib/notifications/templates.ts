@@ -0,0 +1,109 @@
+/**
+ * Candidate notification templates.
+ *
+ * Admins edit the wording in the admin settings; it is saved in config.json as
+ * `notificationTemplates`, with the text message variants in `smsTemplates`.
+ * STATUS_NOTIFICATIONS decides which template goes out when an application
+ * moves to a status.
+ */
+
+import { ApplicationStatus } from '../types';
+
+// Placeholders: {{candidateName}}, {{position}}, {{portalLink}}, plus the ones noted per template
+export interface NotificationTemplates {
+  applicationReceived: string;
+  screeningInvitation: string; // {{screeningLink}}
+  screeningComplete: string;
+  interviewInvitation: string; // {{interviewLink}}, {{scheduledTime}}, {{format}}, {{location}}, {{interviewer}}
+  offerLetter: string; // {{offerDetails}}
+  rejectionEmail: string;
+}
+
+export type NotificationTemplateKey = keyof NotificationTemplates;
+
+export const DEFAULT_NOTIFICATION_TEMPLATES: NotificationTemplates = {
+  applicationReceived: 'Dear {{candidateName}},\n\nThank you for applying to the {{position}} position at our restaurant. We have received your application and will review it shortly.\n\nYou can follow your application, book your screening call or update your resume here:\n{{portalLink}}\n\nBest regards,\nThe Recruitment Team',
+  screeningInvitation: 'Dear {{candidateName}},\n\nWe would like to invite you to complete a brief AI screening call for the {{position}} position. Please click the link below to schedule your screening.\n\n{{screeningLink}}\n\nBest regards,\nThe Recruitment Team',
+  screeningComplete: 'Dear {{candidateName}},\n\nThank you for completing the screening call for the {{position}} position. Our team will review your responses and get back to you soon.\n\nBest regards,\nThe Recruitment Team',
+  interviewInvitation: 'Dear {{candidateName}},\n\nWe would like to invite you for an interview for the {{position}} position.\n\nWhen: {{scheduledTime}}\nFormat: {{format}}\nWhere: {{location}}\nInterviewer: {{interviewer}}\n\nThe calendar invite is attached. You can also add it from here:\n{{interviewLink}}\n\nBest regards,\nThe Recruitment Team',
+  offerLetter: 'Dear {{candidateName}},\n\nWe are pleased to offer you the {{position}} position at our restaurant. Please find the details of our offer below:\n\n{{offerDetails}}\n\nBest regards,\nThe Recruitment Team',
+  rejectionEmail: 'Dear {{candidateName}},\n\nThank you for your interest in the {{position}} position. After careful consideration, we have decided to pursue other candidates whose qualifications better match our needs at this time.\n\nWe appreciate your interest in our company and wish you success in your job search.\n\nBest regards,\nThe Recruitment Team'
+};
+
+export const NOTIFICATION_TEMPLATE_KEYS = Object.keys(DEFAULT_NOTIFICATION_TEMPLATES) as NotificationTemplateKey[];
+
+// Text message variants. A blank variant means that message goes out by email only.
+export interface SmsTemplates extends Record<NotificationTemplateKey, string> {
+  // The screening booking messages; their email wording is in the screening scheduling settings
+  screeningBookingConfirmation: string; // {{scheduledTime}}, {{howToJoin}}
+  screeningReminder: string; // {{scheduledTime}}, {{howToJoin}}
+  screeningOpen: string; // {{howToJoin}}
+}
+
+export type SmsTemplateKey = keyof SmsTemplates;
+
+export const DEFAULT_SMS_TEMPLATES: SmsTemplates = {
+  applicationReceived: 'Hi {{candidateName}}, we received your application for the {{position}} position. Follow it here: {{portalLink}} Reply STOP to stop texts.',
+  screeningInvitation: 'Hi {{candidateName}}, please book a short screening call for the {{position}} position: {{screeningLink}}',
+  screeningComplete: 'Thanks for completing your screening for the {{position}} position, {{candidateName}}. We will be in touch soon.',
+  interviewInvitation: 'Hi {{candidateName}}, your interview for the {{position}} position is on {{scheduledTime}} ({{format}}, {{location}}). Reply RESCHEDULE if that time does not work.',
+  offerLetter: 'Great news, {{candidateName}}! We would like to offer you the {{position}} position. The details are in your email.',
+  rejectionEmail: 'Hi {{candidateName}}, thank you for applying for the {{position}} position. We will not be moving forward this time, and we wish you the best.',
+  screeningBookingConfirmation: 'Your screening call for the {{position}} position is booked for {{scheduledTime}}. Reply RESCHEDULE to pick another time or WITHDRAW to withdraw.',
+  screeningReminder: 'Reminder: your screening call for the {{position}} position starts at {{scheduledTime}}. {{howToJoin}}',
+  screeningOpen: 'Your screening call for the {{position}} position is ready. {{howToJoin}}'
+};
+
+export const SMS_TEMPLATE_KEYS = Object.keys(DEFAULT_SMS_TEMPLATES) as SmsTemplateKey[];
+
+export interface StatusNotificationRule {
+  template: NotificationTemplateKey;
+  subject: string;
+}
+
+// interview_scheduled is not here: booking an interview sends interviewInvitation itself,
+// with the time, place and calendar invite (see interviewService)
+export const STATUS_NOTIFICATIONS: Partial<Record<ApplicationStatus, StatusNotificationRule>> = {
+  submitted: {
+    template: 'applicationReceived',
+    subject: 'We received your application'
+  },
+  screening_scheduled: {
+    template: 'screeningInvitation',
+    subject: 'Schedule your screening call'
+  },
+  screening_completed: {
+    template: 'screeningComplete',
+    subject: 'Thanks for completing your screening'
+  },
+  hired: {
+    template: 'offerLetter',
+    subject: 'Your job offer'
+  },
+  rejected: {
+    template: 'rejectionEmail',
+    subject: 'An update on your application'
+  }
+};
+
+// Saved templates with anything missing (or blank) filled in from the defaults
+export function resolveNotificationTemplates(saved?: Partial<NotificationTemplates>): NotificationTemplates {
+  const templates = { ...DEFAULT_NOTIFICATION_TEMPLATES };
+  for (const key of NOTIFICATION_TEMPLATE_KEYS) {
+    if (typeof saved?.[key] === 'string' && saved[key]!.trim()) {
+      templates[key] = saved[key]!;
+    }
+  }
+  return templates;
+}
+
+// Unlike email templates, a blank SMS variant is kept: it turns that text off
+export function resolveSmsTemplates(saved?: Partial<SmsTemplates>): SmsTemplates {
+  const templates = { ...DEFAULT_SMS_TEMPLATES };
+  for (const key of SMS_TEMPLATE_KEYS) {
+    if (typeof saved?.[key] === 'string') {
+      templates[key] = saved[key]!;
+    }
+  }
+  return templates;
+}
@@ -0,0 +1,31 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FILE_PATHS } from '../../config/file-paths';
+import { buildMimeMessage, createMessageId } from './mime';
+import { EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+/**
+ * Development transport: writes each message as an .eml file into a Maildir
+ * (tmp/, new/, cur/), so it can be opened in a mail client or inspected on disk.
+ * Written to tmp/ first and moved to new/, so readers never see half a message.
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file' as const;
+
+  constructor(private readonly maildir: string = process.env.EMAIL_MAILDIR || path.join(process.cwd(), FILE_PATHS.OUTBOX_DIR)) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    for (const folder of ['tmp', 'new', 'cur']) {
+      fs.mkdirSync(path.join(this.maildir, folder), { recursive: true });
+    }
+
+    const messageId = createMessageId(message.from);
+    const filename = `${Date.now()}.${messageId.split('@')[0]}.${os.hostname()}.eml`;
+    const tmpPath = path.join(this.maildir, 'tmp', filename);
+
+    fs.writeFileSync(tmpPath, buildMimeMessage(message, messageId));
+    fs.renameSync(tmpPath, path.join(this.maildir, 'new', filename));
+    return { messageId };
+  }
+}
@@ -0,0 +1,37 @@
+import { APP_CONFIG } from '../../config/constants';
+import { FileEmailTransport } from './fileTransport';
+import { SmtpEmailTransport } from './smtpTransport';
+import { EmailTransport, EmailTransportName } from './types';
+
+export * from './types';
+export { SmtpError } from './smtpTransport';
+
+let emailTransport: EmailTransport | null = null;
+
+function resolveTransportName(): EmailTransportName {
+  const configured = (process.env.EMAIL_TRANSPORT || 'file').toLowerCase();
+
+  if (configured !== 'smtp' && configured !== 'file') {
+    console.warn(`Unknown EMAIL_TRANSPORT "${configured}", falling back to file`);
+    return 'file';
+  }
+
+  return configured;
+}
+
+// Returns the process-wide email transport selected by the EMAIL_TRANSPORT env var
+export function getEmailTransport(): EmailTransport {
+  if (!emailTransport) {
+    emailTransport = resolveTransportName() === 'smtp' ? new SmtpEmailTransport() : new FileEmailTransport();
+  }
+  return emailTransport;
+}
+
+// Overrides the active transport (used by scripts that need a specific one)
+export function setEmailTransport(transport: EmailTransport | null): void {
+  emailTransport = transport;
+}
+
+export function getEmailFromAddress(): string {
+  return process.env.EMAIL_FROM || `${APP_CONFIG.COMPANY_NAME} <no-reply@localhost>`;
+}
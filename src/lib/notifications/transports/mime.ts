@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import { EmailMessage } from './types';
+
+const CRLF = '\r\n';
+
+// Header values must stay on one line, or a crafted value could add headers of its own
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+// RFC 2047 encoded-word for non-ASCII subjects and names
+function encodeHeaderText(value: string): string {
+  const clean = headerValue(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(content: string): string {
+  return (Buffer.from(content, 'utf8').toString('base64').match(/.{1,76}/g) || []).join(CRLF);
+}
+
+// The bare address from `Name <address>` or `address`
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return headerValue(match ? match[1] : value);
+}
+
+export function createMessageId(from: string): string {
+  const domain = extractAddress(from).split('@')[1] || 'localhost';
+  return `${Date.now()}.${crypto.randomBytes(8).toString('hex')}@${domain}`;
+}
+
+/**
+ * The message as RFC 5322 text with CRLF line endings. The body is UTF-8 in
+ * base64; attachments make it multipart/mixed.
+ */
+export function buildMimeMessage(message: EmailMessage, messageId: string, date: Date = new Date()): string {
+  const headers = [
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeaderText(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text)
+  ];
+
+  if (!message.attachments?.length) {
+    return [...headers, ...textPart].join(CRLF) + CRLF;
+  }
+
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  const parts = [textPart.join(CRLF)];
+  for (const attachment of message.attachments) {
+    const filename = headerValue(attachment.filename).replace(/"/g, '');
+    parts.push([
+      `Content-Type: ${headerValue(attachment.contentType)}; name="${filename}"`,
+      `Content-Disposition: attachment; filename="${filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(attachment.content)
+    ].join(CRLF));
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    ...parts.map(part => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`
+  ].join(CRLF) + CRLF;
+}
@@ -0,0 +1,212 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { buildMimeMessage, createMessageId, extractAddress } from './mime';
+import { EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS when the server offers it, required to log in
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+// A reply the server sent instead of the one expected; 5xx replies are permanent failures
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  get permanent(): boolean {
+    return this.code >= 500;
+  }
+}
+
+export function getSmtpSettingsFromEnv(): SmtpSettings {
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASS || undefined
+  };
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// One SMTP conversation over a socket, reading a (possibly multi-line) reply per command
+class SmtpConnection {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private pendingLines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket, private readonly settings: SmtpSettings) {
+    this.attach(socket);
+  }
+
+  static connect(settings: SmtpSettings): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const options = { host: settings.host, port: settings.port, servername: settings.host };
+      const socket = settings.secure ? tls.connect(options) : net.connect(options);
+      const onError = (error: Error) => reject(error);
+      socket.once('error', onError);
+      socket.once(settings.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError);
+        resolve(new SmtpConnection(socket, settings));
+      });
+      socket.setTimeout(settings.timeoutMs || DEFAULT_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+    socket.setTimeout(this.settings.timeoutMs || DEFAULT_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.pendingLines.push(line);
+      // "250-..." continues the reply; "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines.map(l => l.slice(4)) });
+        this.pendingLines = [];
+      }
+    }
+    this.deliver();
+  }
+
+  private deliver(): void {
+    if (this.waiting && this.replies.length > 0) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(this.replies.shift()!);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    if (this.replies.length > 0) {
+      return Promise.resolve(this.replies.shift()!);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async expect(expectedCodes: number[], command?: string): Promise<SmtpReply> {
+    if (command !== undefined) {
+      this.socket.write(`${command}\r\n`);
+    }
+    const reply = await this.readReply();
+    if (!expectedCodes.includes(reply.code)) {
+      // Never echo credentials back into logs
+      const sent = command?.startsWith('AUTH') ? 'AUTH' : command?.split(' ')[0] || 'connect';
+      throw new SmtpError(`SMTP ${sent} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  // Switch the plain connection to TLS after STARTTLS
+  upgrade(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data');
+      this.socket.removeAllListeners('close');
+      this.socket.removeAllListeners('error');
+      const secureSocket = tls.connect({ socket: this.socket, servername: this.settings.host }, () => {
+        secureSocket.off('error', reject);
+        resolve();
+      });
+      secureSocket.once('error', reject);
+      this.socket = secureSocket;
+      this.attach(secureSocket);
+    });
+  }
+
+  writeData(content: string): void {
+    // Dot-stuffing: a line starting with "." would otherwise end the message early
+    const stuffed = content.replace(/\r\n\./g, '\r\n..').replace(/^\./, '..');
+    this.socket.write(stuffed.endsWith('\r\n') ? stuffed : `${stuffed}\r\n`);
+    this.socket.write('.\r\n');
+  }
+
+  close(): void {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp' as const;
+
+  constructor(private readonly settings: SmtpSettings = getSmtpSettingsFromEnv()) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = createMessageId(message.from);
+    const content = buildMimeMessage(message, messageId);
+    const clientName = os.hostname() || 'localhost';
+
+    const connection = await SmtpConnection.connect(this.settings);
+    try {
+      await connection.expect([220]);
+      const ehlo = await connection.expect([250], `EHLO ${clientName}`);
+
+      let encrypted = this.settings.secure;
+      const offersStartTls = ehlo.lines.some(line => line.toUpperCase().startsWith('STARTTLS'));
+      if (!encrypted && offersStartTls) {
+        await connection.expect([220], 'STARTTLS');
+        await connection.upgrade();
+        await connection.expect([250], `EHLO ${clientName}`);
+        encrypted = true;
+      }
+
+      if (this.settings.user) {
+        // Credentials only go over TLS. A server that stopped offering STARTTLS may be
+        // misconfigured or have it stripped in transit; retrying won't change that.
+        if (!encrypted) {
+          throw new SmtpError('SMTP server did not offer STARTTLS; refusing to send credentials unencrypted', 530);
+        }
+        const credentials = Buffer.from(`\u0000${this.settings.user}\u0000${this.settings.password || ''}`, 'utf8').toString('base64');
+        await connection.expect([235], `AUTH PLAIN ${credentials}`);
+      }
+
+      await connection.expect([250], `MAIL FROM:<${extractAddress(message.from)}>`);
+      await connection.expect([250, 251], `RCPT TO:<${extractAddress(message.to)}>`);
+      await connection.expect([354], 'DATA');
+      connection.writeData(content);
+      await connection.expect([250]);
+      await connection.expect([221], 'QUIT').catch(() => undefined);
+      return { messageId };
+    } finally {
+      connection.close();
+    }
+  }
+}
@@ -0,0 +1,25 @@
+export type EmailTransportName = 'smtp' | 'file';
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string; // e.g. 'text/calendar; method=REQUEST'
+  content: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailSendResult {
+  messageId: string;
+}
+
+// Throws when the message could not be handed over; the delivery job retries it
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
@@ -0,0 +1,270 @@
+/**
+ * Durable background job queue (server-side only)
+ *
+ * Jobs are stored in the 'queue' collection, so they survive restarts. A worker
+ * claims a due job with a time-limited lease; a failed attempt is retried with
+ * exponential backoff until the job runs out of attempts and is dead-lettered
+ * for an admin to retry or discard.
+ */
+
+import { getStorageDriver } from '../data/storage';
+import { BackgroundJob, BackgroundJobStats, BackgroundJobStatus, BackgroundJobType } from '../types';
+import { HttpError } from '../http/httpError';
+
+const COLLECTION = 'queue' as const;
+
+// A claimed job not finished within the lease is treated as abandoned
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+// Only the most recent errors are kept on the job
+const MAX_ERROR_HISTORY = 10;
+
+export interface JobRetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number; // Delay before the second attempt; doubles on each later one
+  maxDelayMs: number;
+}
+
+const RETRY_POLICIES: Record<BackgroundJobType, JobRetryPolicy> = {
+  'process-end-of-call-report': { maxAttempts: 5, baseDelayMs: 10 * 1000, maxDelayMs: 10 * 60 * 1000 },
+  // VAPI can take a few minutes to finish the transcript and analysis after a call
+  'fetch-call-results': { maxAttempts: 8, baseDelayMs: 15 * 1000, maxDelayMs: 15 * 60 * 1000 },
+  // Mail servers that are down or greylisting usually recover within the hour
+  'deliver-notification': { maxAttempts: 6, baseDelayMs: 30 * 1000, maxDelayMs: 30 * 60 * 1000 }
+};
+
+// Thrown by a job handler when retrying cannot help; the job is dead-lettered straight away
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+export interface EnqueueJobOptions {
+  dedupeKey?: string;
+  delayMs?: number;
+}
+
+export interface JobListFilters {
+  status?: BackgroundJobStatus;
+  type?: BackgroundJobType;
+}
+
+export function getRetryPolicy(type: BackgroundJobType): JobRetryPolicy {
+  return RETRY_POLICIES[type];
+}
+
+export function getBackoffDelayMs(attempt: number, policy: JobRetryPolicy): number {
+  return Math.min(policy.baseDelayMs * Math.pow(2, Math.max(attempt - 1, 0)), policy.maxDelayMs);
+}
+
+function isActive(job: BackgroundJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+function isDue(job: BackgroundJob, now: Date): boolean {
+  if (job.status === 'queued') {
+    return new Date(job.runAt).getTime() <= now.getTime();
+  }
+  return job.status === 'running' && !!job.lockedUntil && new Date(job.lockedUntil).getTime() <= now.getTime();
+}
+
+export function getJobById(id: string): BackgroundJob | null {
+  return getStorageDriver().findById<BackgroundJob>(COLLECTION, id);
+}
+
+// Newest first
+export function listJobs(filters: JobListFilters = {}): BackgroundJob[] {
+  return getStorageDriver()
+    .findAll<BackgroundJob>(COLLECTION)
+    .filter(job => (!filters.status || job.status === filters.status) && (!filters.type || job.type === filters.type))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getJobStats(): BackgroundJobStats {
+  const stats: BackgroundJobStats = { queued: 0, running: 0, succeeded: 0, dead: 0 };
+  for (const job of getStorageDriver().findAll<BackgroundJob>(COLLECTION)) {
+    stats[job.status]++;
+  }
+  return stats;
+}
+
+/**
+ * Add a job to the queue. With a dedupeKey, an existing queued or running job
+ * for the same key is returned instead of adding a second one.
+ */
+export function enqueueJob<TPayload extends Record<string, any>>(
+  type: BackgroundJobType,
+  payload: TPayload,
+  options: EnqueueJobOptions = {},
+  now: Date = new Date()
+): BackgroundJob<TPayload> {
+  if (options.dedupeKey) {
+    const existing = getStorageDriver()
+      .findAll<BackgroundJob<TPayload>>(COLLECTION)
+      .find(job => job.dedupeKey === options.dedupeKey && isActive(job));
+    if (existing) {
+      return existing;
+    }
+  }
+
+  const timestamp = now.toISOString();
+  const job: BackgroundJob<TPayload> = {
+    id: `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    type,
+    payload,
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: getRetryPolicy(type).maxAttempts,
+    runAt: new Date(now.getTime() + (options.delayMs || 0)).toISOString(),
+    dedupeKey: options.dedupeKey,
+    errors: [],
+    createdAt: timestamp,
+    updatedAt: timestamp
+  };
+
+  return getStorageDriver().insert(COLLECTION, job);
+}
+
+// A running job whose lease ran out used its last attempt without finishing, e.g. it crashed the server
+function isAbandoned(job: BackgroundJob): boolean {
+  return job.status === 'running' && job.attempts >= job.maxAttempts;
+}
+
+/**
+ * Claim the next due job for `workerId`, oldest runAt first. Each claim counts as
+ * an attempt, so a job that keeps crashing the server still ends up dead-lettered:
+ * an expired lease on the last attempt dead-letters the job instead of claiming it.
+ */
+export function claimNextJob(workerId: string, now: Date = new Date(), leaseMs: number = DEFAULT_LEASE_MS): BackgroundJob | null {
+  const due = getStorageDriver()
+    .findAll<BackgroundJob>(COLLECTION)
+    .filter(job => isDue(job, now))
+    .sort((a, b) => a.runAt.localeCompare(b.runAt));
+
+  for (const candidate of due) {
+    // Re-checked inside the update, so two workers can't both claim the job
+    const claimed = getStorageDriver().update<BackgroundJob>(COLLECTION, candidate.id, job => {
+      if (!isDue(job, now)) {
+        return job;
+      }
+
+      if (isAbandoned(job)) {
+        const message = `Lease expired on attempt ${job.attempts} of ${job.maxAttempts}`;
+        return {
+          ...job,
+          status: 'dead',
+          lastError: message,
+          errors: [...job.errors, { attempt: job.attempts, at: now.toISOString(), message }].slice(-MAX_ERROR_HISTORY),
+          lockedBy: undefined,
+          lockedUntil: undefined,
+          deadAt: now.toISOString(),
+          updatedAt: now.toISOString()
+        };
+      }
+
+      return {
+        ...job,
+        status: 'running',
+        attempts: job.attempts + 1,
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + leaseMs).toISOString(),
+        updatedAt: now.toISOString()
+      };
+    });
+
+    if (claimed?.lockedBy === workerId && claimed.status === 'running') {
+      return claimed;
+    }
+  }
+
+  return null;
+}
+
+// Only the worker holding the lease may finish a job; an expired lease may have been re-claimed
+function updateClaimedJob(
+  id: string,
+  workerId: string,
+  updater: (job: BackgroundJob) => BackgroundJob
+): BackgroundJob | null {
+  return getStorageDriver().update<BackgroundJob>(COLLECTION, id, job =>
+    job.status === 'running' && job.lockedBy === workerId ? updater(job) : job
+  );
+}
+
+export function completeJob(id: string, workerId: string, result?: string, now: Date = new Date()): BackgroundJob | null {
+  return updateClaimedJob(id, workerId, job => ({
+    ...job,
+    status: 'succeeded',
+    result,
+    lockedBy: undefined,
+    lockedUntil: undefined,
+    completedAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  }));
+}
+
+/**
+ * Record a failed attempt. The job goes back in the queue after its backoff, or
+ * is dead-lettered when it is out of attempts or the error is permanent.
+ */
+export function failJob(id: string, workerId: string, error: Error, now: Date = new Date()): BackgroundJob | null {
+  return updateClaimedJob(id, workerId, job => {
+    const errors = [...job.errors, { attempt: job.attempts, at: now.toISOString(), message: error.message }].slice(-MAX_ERROR_HISTORY);
+    const dead = error instanceof PermanentJobError || job.attempts >= job.maxAttempts;
+    const base = { ...job, lastError: error.message, errors, lockedBy: undefined, lockedUntil: undefined, updatedAt: now.toISOString() };
+
+    if (dead) {
+      return { ...base, status: 'dead', deadAt: now.toISOString() };
+    }
+
+    const delayMs = getBackoffDelayMs(job.attempts, getRetryPolicy(job.type));
+    return { ...base, status: 'queued', runAt: new Date(now.getTime() + delayMs).toISOString() };
+  });
+}
+
+// Put a dead (or waiting) job back at the front of the queue with a fresh set of attempts
+export function retryJob(id: string, now: Date = new Date()): BackgroundJob {
+  const job = getJobById(id);
+  if (!job) {
+    throw new HttpError('Job not found', 404);
+  }
+  if (job.status !== 'dead' && job.status !== 'queued') {
+    throw new HttpError(`A ${job.status} job cannot be retried`, 409);
+  }
+
+  return getStorageDriver().update<BackgroundJob>(COLLECTION, id, current => ({
+    ...current,
+    status: 'queued',
+    attempts: 0,
+    runAt: now.toISOString(),
+    deadAt: undefined,
+    updatedAt: now.toISOString()
+  }))!;
+}
+
+export function discardJob(id: string): void {
+  const job = getJobById(id);
+  if (!job) {
+    throw new HttpError('Job not found', 404);
+  }
+  if (job.status === 'running') {
+    throw new HttpError('A running job cannot be discarded', 409);
+  }
+
+  getStorageDriver().remove(COLLECTION, id);
+}
+
+// Succeeded jobs are only kept for the admin view; drop them once they are old
+export function pruneSucceededJobs(olderThanMs: number, now: Date = new Date()): number {
+  const cutoff = now.getTime() - olderThanMs;
+  const expired = getStorageDriver()
+    .findAll<BackgroundJob>(COLLECTION)
+    .filter(job => job.status === 'succeeded' && new Date(job.completedAt || job.updatedAt).getTime() < cutoff);
+
+  for (const job of expired) {
+    getStorageDriver().remove(COLLECTION, job.id);
+  }
+  return expired.length;
+}
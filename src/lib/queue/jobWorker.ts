@@ -0,0 +1,131 @@
+/**
+ * Background job worker (server-side only)
+ *
+ * Runs due jobs from the queue one at a time. Started from instrumentation.ts;
+ * routes that enqueue work nudge it so jobs don't wait for the next interval.
+ */
+
+import { BackgroundJob, BackgroundJobType } from '../types';
+import { claimNextJob, completeJob, failJob, pruneSucceededJobs } from './jobQueue';
+import {
+  EndOfCallReportJobPayload,
+  FetchCallResultsJobPayload,
+  fetchCallResults,
+  handleCallResultsUnavailable,
+  processEndOfCallReport
+} from '../services/callPostProcessingService';
+import { DeliverNotificationJobPayload, deliverNotification, handleDeliveryFailed } from '../notifications/delivery';
+
+const WORKER_INTERVAL_MS = 5 * 1000;
+const MAX_JOBS_PER_RUN = 20;
+const SUCCEEDED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface JobHandler {
+  run: (job: BackgroundJob) => Promise<string | void>;
+  // Called once when the job is dead-lettered
+  onDead?: (job: BackgroundJob, error: Error) => void;
+}
+
+const JOB_HANDLERS: Record<BackgroundJobType, JobHandler> = {
+  'process-end-of-call-report': {
+    run: job => processEndOfCallReport(job.payload as EndOfCallReportJobPayload)
+  },
+  'fetch-call-results': {
+    run: job => fetchCallResults(job.payload as FetchCallResultsJobPayload),
+    onDead: (job, error) => handleCallResultsUnavailable(job.payload as FetchCallResultsJobPayload, error)
+  },
+  'deliver-notification': {
+    run: job => deliverNotification(job.payload as DeliverNotificationJobPayload, job.attempts),
+    onDead: (job, error) => handleDeliveryFailed(job.payload as DeliverNotificationJobPayload, error)
+  }
+};
+
+export interface JobWorkerRunResult {
+  succeeded: number;
+  retried: number;
+  dead: number;
+}
+
+async function runJob(job: BackgroundJob, workerId: string, result: JobWorkerRunResult): Promise<void> {
+  const handler = JOB_HANDLERS[job.type];
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type ${job.type}`);
+    }
+    const message = await handler.run(job);
+    completeJob(job.id, workerId, message || undefined);
+    result.succeeded++;
+  } catch (error) {
+    const failure = error instanceof Error ? error : new Error(String(error));
+    const updated = failJob(job.id, workerId, failure);
+
+    if (updated?.status === 'dead') {
+      result.dead++;
+      console.error(`Job ${job.id} (${job.type}) dead-lettered after ${updated.attempts} attempts:`, failure.message);
+      try {
+        handler?.onDead?.(updated, failure);
+      } catch (deadLetterError) {
+        console.error(`Dead-letter handling for job ${job.id} failed:`, deadLetterError);
+      }
+    } else {
+      result.retried++;
+      console.warn(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed, retrying at ${updated?.runAt}:`, failure.message);
+    }
+  }
+}
+
+/**
+ * One pass over the queue: runs due jobs until none are left (or the per-run cap
+ * is reached) and drops succeeded jobs past their retention.
+ */
+export async function runJobWorker(maxJobs: number = MAX_JOBS_PER_RUN): Promise<JobWorkerRunResult> {
+  const workerId = `worker-${process.pid}-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+  const result: JobWorkerRunResult = { succeeded: 0, retried: 0, dead: 0 };
+
+  for (let processed = 0; processed < maxJobs; processed++) {
+    const job = claimNextJob(workerId);
+    if (!job) break;
+    await runJob(job, workerId, result);
+  }
+
+  pruneSucceededJobs(SUCCEEDED_JOB_RETENTION_MS);
+  return result;
+}
+
+// Kept on globalThis so dev-server reloads don't start a second timer or overlap runs
+const workerState = globalThis as typeof globalThis & {
+  jobWorkerTimer?: ReturnType<typeof setInterval>;
+  jobWorkerRunning?: boolean;
+};
+
+async function runGuarded(): Promise<void> {
+  if (workerState.jobWorkerRunning) return;
+  workerState.jobWorkerRunning = true;
+  try {
+    const result = await runJobWorker();
+    if (result.succeeded || result.retried || result.dead) {
+      console.log('Job worker:', result);
+    }
+  } catch (error) {
+    console.error('Job worker run failed:', error);
+  } finally {
+    workerState.jobWorkerRunning = false;
+  }
+}
+
+// Run due jobs now instead of waiting for the next interval
+export function nudgeJobWorker(): void {
+  setTimeout(runGuarded, 0);
+}
+
+export function startJobWorker(intervalMs: number = WORKER_INTERVAL_MS): void {
+  if (workerState.jobWorkerTimer) {
+    return;
+  }
+
+  workerState.jobWorkerTimer = setInterval(runGuarded, intervalMs);
+  console.log(`Job worker running every ${Math.round(intervalMs / 1000)}s`);
+  // Pick up whatever was left in the queue before the restart
+  nudgeJobWorker();
+}
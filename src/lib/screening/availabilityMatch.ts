@@ -0,0 +1,135 @@
+import { Candidate, CandidateScreeningSummary, Job } from '../types';
+
+/**
+ * Availability match between a screened candidate and a job.
+ *
+ * Each shift the job lists, weekends when the job requires them, and reliable
+ * transportation count as one requirement. The fit percentage is the share of
+ * requirements the candidate's screening answers cover.
+ */
+
+export type CandidateAvailability = Omit<CandidateScreeningSummary['evaluations']['availability'], 'notes'>;
+
+export interface AvailabilityMatch {
+  jobId: string;
+  jobTitle: string;
+  fitPercentage: number; // 0-100
+  mismatches: string[]; // Requirements the candidate's answers rule out
+  unverified: string[]; // Job shifts the screening doesn't ask about (e.g. night, on-call)
+}
+
+export interface CandidateJobMatches {
+  applied: AvailabilityMatch;
+  alternatives: AvailabilityMatch[]; // Other active jobs, best fit first (fewest unverified shifts on ties)
+}
+
+type ShiftAnswer = 'morningShift' | 'eveningShift';
+
+// Which screening answers cover each job shift type; job shift types are free text such as "Morning"
+const SHIFT_ANSWERS: Record<string, ShiftAnswer[]> = {
+  morning: ['morningShift'],
+  afternoon: ['eveningShift'],
+  evening: ['eveningShift'],
+  split: ['morningShift', 'eveningShift']
+};
+
+/**
+ * Screening answers that cover a job shift type, or null when the screening doesn't ask about it
+ */
+export function getShiftAnswers(shiftType: string): ShiftAnswer[] | null {
+  return SHIFT_ANSWERS[shiftType.trim().toLowerCase()] || null;
+}
+
+/**
+ * The candidate's availability answers, preferring the structured data extracted
+ * from the call; null until a screening has been completed
+ */
+export function getCandidateAvailability(candidate: Candidate): CandidateAvailability | null {
+  const summary = candidate.screeningSummary;
+  if (!summary) {
+    return null;
+  }
+
+  const data = summary.structuredData;
+  if (data) {
+    return {
+      morningShift: data.morningShiftAvailable,
+      eveningShift: data.eveningShiftAvailable,
+      weekendAvailable: data.weekendAvailable,
+      transportation: data.hasReliableTransportation
+    };
+  }
+
+  return summary.evaluations?.availability || null;
+}
+
+export function matchAvailability(availability: CandidateAvailability, job: Job): AvailabilityMatch {
+  const mismatches: string[] = [];
+  const unverified: string[] = [];
+  let requirements = 0;
+
+  for (const shiftType of job.shiftTypes || []) {
+    const answers = getShiftAnswers(shiftType);
+    if (!answers) {
+      unverified.push(`${shiftType} shifts`);
+      continue;
+    }
+
+    requirements++;
+    if (!answers.every(answer => availability[answer])) {
+      mismatches.push(`Not available for ${shiftType.toLowerCase()} shifts`);
+    }
+  }
+
+  if (job.weekendRequired) {
+    requirements++;
+    if (!availability.weekendAvailable) {
+      mismatches.push('Cannot work weekends');
+    }
+  }
+
+  requirements++;
+  if (!availability.transportation) {
+    mismatches.push('No reliable transportation');
+  }
+
+  return {
+    jobId: job.id,
+    jobTitle: job.title,
+    fitPercentage: Math.round(((requirements - mismatches.length) / requirements) * 100),
+    mismatches,
+    unverified
+  };
+}
+
+/**
+ * Match a candidate against the job they applied to and every other active job
+ */
+export function matchCandidateToJobs(
+  availability: CandidateAvailability,
+  appliedJob: Job,
+  jobs: Job[]
+): CandidateJobMatches {
+  return {
+    applied: matchAvailability(availability, appliedJob),
+    alternatives: jobs
+      .filter(job => job.status === 'active' && job.id !== appliedJob.id)
+      .map(job => matchAvailability(availability, job))
+      .sort((a, b) => b.fitPercentage - a.fitPercentage || a.unverified.length - b.unverified.length)
+  };
+}
+
+/**
+ * Active jobs the candidate fits better than the one they applied to
+ */
+export function findBetterFits(matches: CandidateJobMatches): AvailabilityMatch[] {
+  return matches.alternatives.filter(match => match.fitPercentage > matches.applied.fitPercentage);
+}
+
+// Badge styling for a fit percentage, matching the status badges in statusManager
+export function getFitBadgeClasses(fitPercentage: number): string {
+  const color = fitPercentage >= 80 ? 'bg-green-100 text-green-800' :
+    fitPercentage >= 50 ? 'bg-yellow-100 text-yellow-800' :
+    'bg-red-100 text-red-800';
+  return `inline-flex px-2 py-1 text-xs font-semibold rounded-full ${color}`;
+}
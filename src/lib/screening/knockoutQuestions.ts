@@ -0,0 +1,177 @@
+import { Job, KnockoutAction, KnockoutResult, ScreeningStructuredData } from '../types';
+import { getShiftAnswers } from './availabilityMatch';
+
+/**
+ * Knockout questions.
+ *
+ * Admins mark screening questions in config.json as knockout questions: an
+ * expected answer plus what to do when the candidate's answer doesn't match it.
+ * Answers come from the validated structured data, so "not available on
+ * weekends" is read as a no rather than a keyword hit on "weekends".
+ */
+
+export interface KnockoutQuestion {
+  question: string; // Question text as it appears in mandatoryQuestions or a role's screeningQuestions
+  // Structured data field holding the answer; without one the matching roleQuestionAnswers entry is used
+  answerField?: string;
+  // true/false for yes/no answers, a number for a minimum (e.g. yearsOfExperience),
+  // or 'job_requirement' to compare against the job's shiftTypes/weekendRequired
+  expectedAnswer: boolean | number | 'job_requirement';
+  action: KnockoutAction;
+  note?: string; // Recorded on the timeline, and used as the rejection note
+  roles?: string[]; // Only applies to these roles; all roles when omitted
+}
+
+// Strongest action wins when several knockout questions fail
+const ACTION_PRIORITY: KnockoutAction[] = ['flag', 'under_review', 'reject'];
+
+// Structured data fields for the shift answers used by the availability match
+const SHIFT_FIELDS: Record<string, 'morningShift' | 'eveningShift'> = {
+  morningShiftAvailable: 'morningShift',
+  eveningShiftAvailable: 'eveningShift'
+};
+
+export const DEFAULT_KNOCKOUT_QUESTIONS: KnockoutQuestion[] = [
+  {
+    question: 'Are you available to work morning shifts (6 AM - 2 PM)?',
+    answerField: 'morningShiftAvailable',
+    expectedAnswer: 'job_requirement',
+    action: 'flag',
+    note: 'Not available for the morning shifts this job requires'
+  },
+  {
+    question: 'Are you available to work evening shifts (2 PM - 10 PM)?',
+    answerField: 'eveningShiftAvailable',
+    expectedAnswer: 'job_requirement',
+    action: 'flag',
+    note: 'Not available for the evening shifts this job requires'
+  },
+  {
+    question: 'Can you work weekends?',
+    answerField: 'weekendAvailable',
+    expectedAnswer: 'job_requirement',
+    action: 'under_review',
+    note: 'Cannot work weekends, which this job requires'
+  },
+  {
+    question: 'Do you have reliable transportation to get to work?',
+    answerField: 'hasReliableTransportation',
+    expectedAnswer: true,
+    action: 'flag',
+    note: 'No reliable transportation'
+  }
+];
+
+/**
+ * Problems with an admin's knockout question list, for the config API
+ */
+export function validateKnockoutQuestions(questions: unknown): string[] {
+  if (!Array.isArray(questions)) {
+    return ['knockoutQuestions must be an array'];
+  }
+
+  return questions.flatMap((entry: any, index) => {
+    const errors: string[] = [];
+    if (!entry || typeof entry.question !== 'string' || !entry.question.trim()) {
+      errors.push(`knockoutQuestions.${index}.question: Required`);
+    }
+    if (!['boolean', 'number'].includes(typeof entry?.expectedAnswer) && entry?.expectedAnswer !== 'job_requirement') {
+      errors.push(`knockoutQuestions.${index}.expectedAnswer: Must be true, false, a number or "job_requirement"`);
+    }
+    if (entry?.expectedAnswer === 'job_requirement' && !['weekendAvailable', ...Object.keys(SHIFT_FIELDS)].includes(entry.answerField)) {
+      errors.push(`knockoutQuestions.${index}.answerField: "job_requirement" only applies to shift and weekend answers`);
+    }
+    if (!ACTION_PRIORITY.includes(entry?.action)) {
+      errors.push(`knockoutQuestions.${index}.action: Must be one of ${ACTION_PRIORITY.join(', ')}`);
+    }
+    return errors;
+  });
+}
+
+// What the job needs for a shift/weekend answer; null when the job doesn't care
+function jobRequirement(answerField: string, job: Job): boolean | null {
+  if (answerField === 'weekendAvailable') {
+    return job.weekendRequired ? true : null;
+  }
+
+  const shiftAnswer = SHIFT_FIELDS[answerField];
+  return shiftAnswer && (job.shiftTypes || []).some(shiftType => getShiftAnswers(shiftType)?.includes(shiftAnswer)) ? true : null;
+}
+
+function findAnswer(knockout: KnockoutQuestion, data: ScreeningStructuredData): unknown {
+  if (knockout.answerField) {
+    return data[knockout.answerField];
+  }
+
+  const question = knockout.question.trim().toLowerCase();
+  return data.roleQuestionAnswers.find(answer => answer.question.trim().toLowerCase() === question)?.satisfactory;
+}
+
+function describe(value: unknown): string {
+  if (value === true) return 'yes';
+  if (value === false) return 'no';
+  if (value === undefined || value === null) return 'not answered';
+  return String(value);
+}
+
+/**
+ * Compare the candidate's answers with each knockout question that applies to the role and job
+ */
+export function evaluateKnockoutQuestions(
+  questions: KnockoutQuestion[],
+  data: ScreeningStructuredData,
+  job: Job | null,
+  role: string
+): KnockoutResult[] {
+  return questions
+    .filter(knockout => !knockout.roles || knockout.roles.length === 0 || knockout.roles.includes(role))
+    .flatMap((knockout): KnockoutResult[] => {
+      const expected: boolean | number | null = knockout.expectedAnswer === 'job_requirement'
+        ? (job && knockout.answerField ? jobRequirement(knockout.answerField, job) : null)
+        : knockout.expectedAnswer;
+      if (expected === null) {
+        return []; // The job doesn't need this, so any answer is fine
+      }
+
+      const answer = findAnswer(knockout, data);
+      const answered = answer !== undefined && answer !== null;
+      const passed = !answered
+        ? null
+        : typeof expected === 'number'
+          ? typeof answer === 'number' && answer >= expected
+          : answer === expected;
+
+      return [{
+        question: knockout.question,
+        answer: describe(answer),
+        expectedAnswer: typeof expected === 'number' ? `at least ${expected}` : describe(expected),
+        passed,
+        // An unanswered question is never grounds for rejection; flag it for a person to check
+        action: passed === false ? knockout.action : passed === null ? 'flag' : undefined,
+        note: knockout.note
+      }];
+    });
+}
+
+/**
+ * The single action to take for a set of results, or null when every knockout question passed
+ */
+export function resolveKnockoutAction(results: KnockoutResult[]): KnockoutAction | null {
+  return results.reduce<KnockoutAction | null>((strongest, result) => {
+    if (!result.action) return strongest;
+    if (!strongest) return result.action;
+    return ACTION_PRIORITY.indexOf(result.action) > ACTION_PRIORITY.indexOf(strongest) ? result.action : strongest;
+  }, null);
+}
+
+/**
+ * Timeline note listing the knockout questions that triggered the action
+ */
+export function describeKnockoutResults(results: KnockoutResult[]): string {
+  return results
+    .filter(result => result.action)
+    .map(result => result.passed === null
+      ? `${result.question} — not answered`
+      : `${result.question} — answered ${result.answer}, expected ${result.expectedAnswer}${result.note ? ` (${result.note})` : ''}`)
+    .join('; ');
+}
@@ -0,0 +1,246 @@
+import { CriterionScore, ScreeningStructuredData } from '../types';
+import { EvaluationCriteriaSet, EvaluationCriterion } from './screeningConfigUtils';
+
+/**
+ * Criteria-weighted screening score.
+ *
+ * Rates each evaluation criterion configured for the role (1-10) from the
+ * structured data and the candidate's side of the transcript, then combines the
+ * ratings with the role's weights. Every rating keeps the quote it was based on
+ * so recruiters can check it.
+ */
+
+export interface ScoringInput {
+  criteria: EvaluationCriteriaSet;
+  transcript?: string;
+  structuredData?: ScreeningStructuredData;
+}
+
+export interface ScreeningScore {
+  overallScore: number; // 0-10 weighted average of the rated criteria
+  recommendation: 'hire' | 'maybe' | 'reject';
+  criteriaScores: CriterionScore[];
+}
+
+// Used when a role has no evaluationCriteria configured
+export const DEFAULT_EVALUATION_CRITERIA: EvaluationCriteriaSet = {
+  experience: { weight: 0.4, description: 'Relevant work experience' },
+  availability: { weight: 0.3, description: 'Schedule flexibility' },
+  communication: { weight: 0.3, description: 'Communication and teamwork skills' }
+};
+
+const MAX_EVIDENCE_LENGTH = 240;
+
+const STOP_WORDS = new Set([
+  'with', 'and', 'the', 'for', 'work', 'skills', 'knowledge', 'their', 'that', 'this',
+  'have', 'from', 'into', 'about', 'previous', 'ability', 'practices', 'general'
+]);
+
+const POSITIVE_TERMS = ['yes', 'comfortable', 'always', 'certified', 'love', 'enjoy', 'confident', 'trained', 'experienced'];
+const NEGATIVE_TERMS = ['no', 'not', 'never', "don't", 'dont', "haven't", "can't", 'cannot', 'unsure'];
+
+type Rating = Pick<CriterionScore, 'rating' | 'evidence' | 'source'>;
+
+function clampRating(value: number): number {
+  return Math.min(10, Math.max(1, Math.round(value * 10) / 10));
+}
+
+function truncate(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_EVIDENCE_LENGTH ? `${trimmed.slice(0, MAX_EVIDENCE_LENGTH - 1)}…` : trimmed;
+}
+
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(`(^|[^a-z'])${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}([^a-z']|$)`, 'i').test(text);
+}
+
+/**
+ * What the candidate said, one entry per sentence. VAPI transcripts are
+ * "AI: ..." / "User: ..." lines; anything else is treated as all candidate speech.
+ */
+export function getCandidateSentences(transcript: string = ''): string[] {
+  const lines = transcript.split('\n').map(line => line.trim()).filter(Boolean);
+  const speakerLines = lines.filter(line => /^(user|candidate|customer)\s*:/i.test(line));
+  const utterances = speakerLines.length > 0
+    ? speakerLines.map(line => line.replace(/^[^:]+:\s*/, ''))
+    : lines.filter(line => !/^(ai|assistant|bot)\s*:/i.test(line));
+
+  return utterances
+    .flatMap(utterance => utterance.match(/[^.!?]+[.!?]*/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+function keywordsFor(criterionKey: string, criterion: EvaluationCriterion): string[] {
+  const keyWords = criterionKey.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().split(/\s+/);
+  const descriptionWords = (criterion.description || '').toLowerCase().match(/[a-z]{4,}/g) || [];
+  return Array.from(new Set([...keyWords, ...descriptionWords])).filter(word => !STOP_WORDS.has(word));
+}
+
+// Sentence with the most keyword hits, if any sentence mentions one
+function findEvidence(sentences: string[], keywords: string[]): string | null {
+  let best: { sentence: string; hits: number } | null = null;
+  for (const sentence of sentences) {
+    const lower = sentence.toLowerCase();
+    const hits = keywords.filter(keyword => lower.includes(keyword)).length;
+    if (hits > 0 && (!best || hits > best.hits)) {
+      best = { sentence, hits };
+    }
+  }
+  return best ? best.sentence : null;
+}
+
+function rateAvailability(sentences: string[], data?: ScreeningStructuredData): Rating | null {
+  if (!data) {
+    return null;
+  }
+
+  const points =
+    (data.morningShiftAvailable ? 3 : 0) +
+    (data.eveningShiftAvailable ? 3 : 0) +
+    (data.weekendAvailable ? 3 : 0) +
+    (data.hasReliableTransportation ? 1 : 0);
+  const answers = `Morning: ${data.morningShiftAvailable ? 'yes' : 'no'}, evening: ${data.eveningShiftAvailable ? 'yes' : 'no'}, ` +
+    `weekends: ${data.weekendAvailable ? 'yes' : 'no'}, transportation: ${data.hasReliableTransportation ? 'yes' : 'no'}`;
+  const quote = findEvidence(sentences, ['weekend', 'morning', 'evening', 'shift', 'available', 'schedule']);
+
+  return {
+    rating: clampRating(points),
+    evidence: truncate(quote ? `"${quote}" (${answers})` : answers),
+    source: 'structured-data'
+  };
+}
+
+function rateExperience(sentences: string[], data?: ScreeningStructuredData): Rating | null {
+  const years = data?.yearsOfExperience;
+  if (years === undefined || years === null) {
+    return null;
+  }
+
+  const rating = years >= 5 ? 9 : years >= 3 ? 8 : years >= 2 ? 7 : years >= 1 ? 6 : 3;
+  const quote = findEvidence(sentences, ['year', 'experience', 'worked']);
+
+  return {
+    rating,
+    evidence: truncate(quote ? `"${quote}"` : `${years} year(s) of relevant experience`),
+    source: 'structured-data'
+  };
+}
+
+// Communication is judged on how fully the candidate answered, not on what they said
+function rateCommunication(sentences: string[]): Rating | null {
+  if (sentences.length === 0) {
+    return null;
+  }
+
+  const words = sentences.map(sentence => sentence.split(/\s+/).length);
+  const averageWords = words.reduce((total, count) => total + count, 0) / sentences.length;
+  const polite = sentences.some(sentence => /thank|appreciate|please/i.test(sentence));
+  const base = averageWords < 4 ? 3 : averageWords < 8 ? 5 : averageWords < 15 ? 7 : 8;
+  const longest = sentences[words.indexOf(Math.max(...words))];
+
+  return {
+    rating: clampRating(base + (polite ? 1 : 0)),
+    evidence: truncate(`"${longest}"`),
+    source: 'transcript'
+  };
+}
+
+function rateFromAnswers(
+  keywords: string[],
+  sentences: string[],
+  data?: ScreeningStructuredData
+): Rating {
+  // A role question answer on the same topic is the most direct evidence
+  const answer = data?.roleQuestionAnswers.find(({ question, answer }) =>
+    keywords.some(keyword => `${question} ${answer}`.toLowerCase().includes(keyword))
+  );
+  if (answer && answer.satisfactory !== undefined) {
+    return {
+      rating: answer.satisfactory ? 8 : 3,
+      evidence: truncate(`${answer.question} — "${answer.answer}"`),
+      source: 'structured-data'
+    };
+  }
+
+  const quote = findEvidence(sentences, keywords);
+  if (!quote) {
+    return { rating: null, evidence: '', source: 'none' };
+  }
+
+  const positives = POSITIVE_TERMS.filter(term => containsWord(quote, term)).length;
+  const negatives = NEGATIVE_TERMS.filter(term => containsWord(quote, term)).length;
+
+  return {
+    rating: clampRating(6 + positives - negatives * 2),
+    evidence: truncate(`"${quote}"`),
+    source: 'transcript'
+  };
+}
+
+function rateCriterion(
+  criterionKey: string,
+  criterion: EvaluationCriterion,
+  sentences: string[],
+  data?: ScreeningStructuredData
+): Rating {
+  const topic = `${criterionKey} ${criterion.description || ''}`.toLowerCase();
+
+  if (/availab|schedule|shift|flexib/.test(criterionKey.toLowerCase())) {
+    const rating = rateAvailability(sentences, data);
+    if (rating) return rating;
+  }
+
+  if (/experience/.test(criterionKey.toLowerCase())) {
+    const rating = rateExperience(sentences, data);
+    if (rating) return rating;
+  }
+
+  if (/communicat|soft ?skills|softskills|demeanor/.test(topic)) {
+    const rating = rateCommunication(sentences);
+    if (rating) return rating;
+  }
+
+  return rateFromAnswers(keywordsFor(criterionKey, criterion), sentences, data);
+}
+
+export function recommendationForScore(score: number): ScreeningScore['recommendation'] {
+  if (score >= 7.5) return 'hire';
+  if (score >= 5) return 'maybe';
+  return 'reject';
+}
+
+/**
+ * Score a screening against the role's evaluation criteria. Criteria the call
+ * gave no evidence for are reported with a null rating and left out of the
+ * weighted average instead of counting as zero.
+ */
+export function scoreScreening({ criteria, transcript, structuredData }: ScoringInput): ScreeningScore {
+  const entries = Object.entries(Object.keys(criteria).length > 0 ? criteria : DEFAULT_EVALUATION_CRITERIA);
+  const totalWeight = entries.reduce((total, [, criterion]) => total + Math.max(0, criterion.weight || 0), 0);
+  const sentences = getCandidateSentences(transcript);
+
+  const criteriaScores: CriterionScore[] = entries.map(([criterionKey, criterion]) => {
+    const weight = Math.max(0, criterion.weight || 0);
+    return {
+      criterion: criterionKey,
+      description: criterion.description || '',
+      weight,
+      normalizedWeight: totalWeight > 0 ? Math.round((weight / totalWeight) * 1000) / 1000 : 1 / entries.length,
+      ...rateCriterion(criterionKey, criterion, sentences, structuredData)
+    };
+  });
+
+  const rated = criteriaScores.filter(score => score.rating !== null);
+  const ratedWeight = rated.reduce((total, score) => total + score.normalizedWeight, 0);
+  const overallScore = ratedWeight > 0
+    ? Math.round((rated.reduce((total, score) => total + (score.rating as number) * score.normalizedWeight, 0) / ratedWeight) * 10) / 10
+    : 0;
+
+  return {
+    overallScore,
+    // Nothing could be rated, so leave the decision to the recruiter
+    recommendation: rated.length > 0 ? recommendationForScore(overallScore) : 'maybe',
+    criteriaScores
+  };
+}
@@ -1,4 +1,10 @@
 import { ScreeningRole } from '../types';
+import { VapiSettingsOverride } from '../types/vapi';
+import { StructuredDataSchema } from './structuredData';
+import { KnockoutQuestion } from './knockoutQuestions';
+import { ScreeningSchedulingSettings } from './screeningSlots';
+import { NotificationTemplates, SmsTemplates } from '../notifications/templates';
+import type { WorkflowConfig } from '../workflow/workflowUtils';
 
 // Helper function to get the correct API URL
 const getApiUrl = (): string => {
@@ -27,6 +33,8 @@ export interface RoleConfig {
   department: string;
   screeningQuestions: string[];
   evaluationCriteria: EvaluationCriteriaSet;
+  structuredDataSchema?: StructuredDataSchema; // Sent to VAPI as analysisPlan.structuredDataSchema
+  vapiOverrides?: VapiSettingsOverride; // Voice, model, transcriber or max duration for this role's screenings
 }
 
 
@@ -36,6 +44,11 @@ export interface ScreeningConfig {
     [key in ScreeningRole | string]: RoleConfig;
   };
   mandatoryQuestions: string[];
+  knockoutQuestions?: KnockoutQuestion[]; // Checked against the answers once a screening completes
+  screeningScheduling?: ScreeningSchedulingSettings; // Availability windows candidates book screenings in
+  notificationTemplates?: NotificationTemplates; // Candidate emails, edited in the admin settings
+  smsTemplates?: Partial<SmsTemplates>; // Text message variants; blank ones are not sent
+  workflows?: Partial<Record<ScreeningRole, WorkflowConfig>>; // Application pipeline per role, enforced by the status API
   vapiSettings: {
     voice: {
       provider: string;
@@ -52,7 +65,10 @@ export interface ScreeningConfig {
     };
     conversationTone: string;
     maxCallDuration: number;
+    customSystemPrompt?: string;
+    customAnalysisPrompt?: string;
   };
+  roleSpecificQuestions?: Partial<Record<ScreeningRole, string[]>>; // Older setting; roles[].screeningQuestions wins
   applicationSettings: {
     maxResumeSize: string;
     allowedFileTypes: string[];
@@ -1,4 +1,4 @@
-import { ScreeningSummary, ScreeningRole, ApplicationStatus } from '../types';
+import { ScreeningSummary, ScreeningRole, ApplicationStatus, ScreeningCall } from '../types';
 
 /**
  * Service for managing and processing screening calls
@@ -165,27 +165,47 @@ export function parseScreeningSummary(aiSummary: string): ScreeningSummary {
   }
 }
 
-// Send the screening summary to the backend for storage
-export async function saveScreeningSummary(
-  screeningId: string, 
-  summary: ScreeningSummary
-): Promise<boolean> {
+// Wait for the server to record the call's outcome: results from the webhook's end-of-call report
+// or a background job, or a failed call. Resolves to null on timeout.
+export async function waitForCallResults(
+  screeningId: string,
+  candidateId: string,
+  timeoutMs: number = 20000,
+  intervalMs: number = 2000
+): Promise<ScreeningCall | null> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    try {
+      const params = new URLSearchParams({ id: screeningId, candidateId });
+      const response = await fetch(`/api/screening/details?${params}`);
+      if (response.ok) {
+        const { screening } = await response.json();
+        if (screening?.status === 'rejected' || (screening?.status === 'screening_completed' && screening.completedVia !== 'client')) {
+          return screening;
+        }
+      }
+    } catch (error) {
+      console.error('Failed to check screening for call results:', error);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  return null;
+}
+
+// Ask the server to fetch the call's results from VAPI in the background
+export async function requestCallResults(screeningId: string, candidateId: string, callId: string): Promise<boolean> {
   try {
-    const response = await fetch('/api/screening/summary', {
+    const response = await fetch('/api/screening/call-results', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ screeningId, summary }),
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ screeningId, candidateId, callId })
     });
-    
-    if (!response.ok) {
-      throw new Error(`Error: ${response.status}`);
-    }
-    
-    return true;
+    return response.ok;
   } catch (error) {
-    console.error('Failed to save screening summary:', error);
+    console.error('Failed to request call results:', error);
     return false;
   }
 }
@@ -193,8 +213,9 @@ export async function saveScreeningSummary(
 // Update the screening call status
 export async function updateScreeningStatus(
   screeningId: string,
+  candidateId: string,
   status: ApplicationStatus,
-  additionalData: Record<string, any> = {}
+  additionalData: { errorMessage?: string } = {}
 ): Promise<boolean> {
   try {
     const response = await fetch('/api/screening/status', {
@@ -204,6 +225,7 @@ export async function updateScreeningStatus(
       },
       body: JSON.stringify({
         screeningId,
+        candidateId,
         status,
         ...additionalData
       }),
@@ -235,8 +257,7 @@ export async function createScreeningRecord(
       body: JSON.stringify({
         applicationId,
         candidateId,
-        jobId,
-        status: 'scheduled',
+        jobId
       }),
     });
     
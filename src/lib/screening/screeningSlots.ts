@@ -0,0 +1,211 @@
+/**
+ * Screening time slots.
+ *
+ * Recruiters set weekly availability windows in config.json; candidates book a
+ * slot inside them after applying. Windows use the server's local time unless
+ * a location's screening hours apply, which use the location's time zone.
+ * Slots are handed out as ISO timestamps so the browser can show them in the
+ * candidate's own time zone.
+ */
+
+export interface ScreeningAvailabilityWindow {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+export interface ScreeningSchedulingSettings {
+  enabled: boolean;
+  availabilityWindows: ScreeningAvailabilityWindow[];
+  slotMinutes: number;
+  maxBookingsPerSlot: number;
+  minNoticeMinutes: number; // Earliest a slot can start after booking
+  bookingHorizonDays: number; // How far ahead candidates can book
+  reminderMinutesBefore: number; // 0 turns reminders off
+  // Placeholders: {{candidateName}}, {{position}}, {{scheduledTime}}, {{howToJoin}}
+  confirmationTemplate: string;
+  reminderTemplate: string;
+  screeningOpenTemplate: string;
+}
+
+export interface ScreeningSlot {
+  start: string;
+  end: string;
+  remaining: number; // Bookings the slot can still take
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_SCREENING_SCHEDULING: ScreeningSchedulingSettings = {
+  enabled: true,
+  availabilityWindows: [1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, start: '09:00', end: '17:00' })),
+  slotMinutes: 15,
+  maxBookingsPerSlot: 2,
+  minNoticeMinutes: 60,
+  bookingHorizonDays: 7,
+  reminderMinutesBefore: 60,
+  confirmationTemplate: 'Dear {{candidateName}},\n\nYour AI screening call for the {{position}} position is booked for {{scheduledTime}}.\n\n{{howToJoin}}\n\nBest regards,\nThe Recruitment Team',
+  reminderTemplate: 'Dear {{candidateName}},\n\nA reminder that your AI screening call for the {{position}} position starts at {{scheduledTime}}.\n\n{{howToJoin}}\n\nBest regards,\nThe Recruitment Team',
+  screeningOpenTemplate: 'Dear {{candidateName}},\n\nYour AI screening call for the {{position}} position is ready to start.\n\n{{howToJoin}}\n\nBest regards,\nThe Recruitment Team'
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Saved settings with anything missing filled in from the defaults
+export function resolveScreeningScheduling(settings?: Partial<ScreeningSchedulingSettings>): ScreeningSchedulingSettings {
+  return { ...DEFAULT_SCREENING_SCHEDULING, ...(settings || {}) };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Calendar date and minutes past midnight of an instant, as a wall clock in `timeZone` reads it
+function getZonedParts(date: Date, timeZone: string): { year: number; month: number; day: number; minutes: number } {
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return { year: parts.year, month: parts.month, day: parts.day, minutes: parts.hour * 60 + parts.minute };
+}
+
+// The instant a wall clock in `timeZone` shows the given date and minute.
+// Checked twice so slots next to a daylight saving change land on the right offset.
+function zonedTimeToDate(year: number, month: number, day: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minute);
+  const offsetAt = (instant: number) => {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, 0, parts.minutes) - instant;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+/**
+ * Problems with a list of weekly windows; also used for location screening hours
+ */
+export function validateAvailabilityWindows(windows: any, field: string = 'availabilityWindows'): string[] {
+  if (!Array.isArray(windows)) {
+    return [`${field} must be an array`];
+  }
+
+  const errors: string[] = [];
+  windows.forEach((window: any, index: number) => {
+    if (!Number.isInteger(window?.dayOfWeek) || window.dayOfWeek < 0 || window.dayOfWeek > 6) {
+      errors.push(`${field}.${index}.dayOfWeek: Must be 0 (Sunday) to 6 (Saturday)`);
+    }
+    if (!TIME_PATTERN.test(window?.start || '') || !TIME_PATTERN.test(window?.end || '')) {
+      errors.push(`${field}.${index}: start and end must be HH:MM`);
+    } else if (toMinutes(window.start) >= toMinutes(window.end)) {
+      errors.push(`${field}.${index}: end must be after start`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Problems with recruiter-entered scheduling settings, for the schedule API
+ */
+export function validateScreeningScheduling(settings: any): string[] {
+  if (!settings || typeof settings !== 'object') {
+    return ['screeningScheduling must be an object'];
+  }
+
+  const errors: string[] = validateAvailabilityWindows(settings.availabilityWindows);
+
+  const ranges: [keyof ScreeningSchedulingSettings, number, number][] = [
+    ['slotMinutes', 5, 240],
+    ['maxBookingsPerSlot', 1, 100],
+    ['minNoticeMinutes', 0, 7 * 24 * 60],
+    ['bookingHorizonDays', 1, 60],
+    ['reminderMinutesBefore', 0, 7 * 24 * 60]
+  ];
+  for (const [field, min, max] of ranges) {
+    const value = settings[field];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${field}: Must be a whole number from ${min} to ${max}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Open slots from now until the booking horizon. `bookedSlotStarts` holds the
+ * start of every active booking, so full slots are left out. Windows are read
+ * in `timeZone` when given, otherwise in the server's local time.
+ */
+export function generateScreeningSlots(
+  settings: ScreeningSchedulingSettings,
+  bookedSlotStarts: string[] = [],
+  now: Date = new Date(),
+  timeZone?: string
+): ScreeningSlot[] {
+  if (!settings.enabled || settings.slotMinutes <= 0) {
+    return [];
+  }
+
+  const bookings = new Map<string, number>();
+  for (const start of bookedSlotStarts) {
+    const key = new Date(start).toISOString();
+    bookings.set(key, (bookings.get(key) || 0) + 1);
+  }
+
+  const earliest = now.getTime() + settings.minNoticeMinutes * 60 * 1000;
+  const slots: ScreeningSlot[] = [];
+
+  const today = timeZone ? getZonedParts(now, timeZone) : null;
+
+  for (let day = 0; day <= settings.bookingHorizonDays; day++) {
+    // In a time zone the calendar day is tracked in UTC fields so the server's own zone can't shift it
+    const date = today
+      ? new Date(Date.UTC(today.year, today.month - 1, today.day + day))
+      : new Date(now.getFullYear(), now.getMonth(), now.getDate() + day);
+    const dayOfWeek = today ? date.getUTCDay() : date.getDay();
+    const windows = settings.availabilityWindows
+      .filter(window => window.dayOfWeek === dayOfWeek)
+      .sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+
+    for (const window of windows) {
+      const end = toMinutes(window.end);
+      for (let minute = toMinutes(window.start); minute + settings.slotMinutes <= end; minute += settings.slotMinutes) {
+        const start = timeZone
+          ? zonedTimeToDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), minute, timeZone)
+          : new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, minute);
+        if (start.getTime() < earliest) {
+          continue;
+        }
+
+        const key = start.toISOString();
+        const remaining = settings.maxBookingsPerSlot - (bookings.get(key) || 0);
+        if (remaining > 0 && !slots.some(slot => slot.start === key)) {
+          slots.push({
+            start: key,
+            end: new Date(start.getTime() + settings.slotMinutes * 60 * 1000).toISOString(),
+            remaining
+          });
+        }
+      }
+    }
+  }
+
+  return slots;
+}
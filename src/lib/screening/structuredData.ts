@@ -0,0 +1,232 @@
+import { z } from 'zod';
+import { ScreeningStructuredData, ScreeningSummary } from '../types';
+
+/**
+ * Structured data extraction for screening calls.
+ *
+ * Each role in config.json carries a JSON schema that is sent to VAPI as
+ * analysisPlan.structuredDataSchema. Whatever VAPI returns is validated here
+ * before it is stored on the screening and the candidate.
+ */
+
+// The subset of JSON Schema that VAPI's structured data extraction accepts
+export interface StructuredDataProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  items?: StructuredDataProperty;
+  properties?: Record<string, StructuredDataProperty>;
+  required?: string[];
+}
+
+export interface StructuredDataSchema {
+  type: 'object';
+  properties: Record<string, StructuredDataProperty>;
+  required?: string[];
+}
+
+// Fields every role schema must produce; roles may add their own on top
+export const CORE_STRUCTURED_DATA_FIELDS = [
+  'morningShiftAvailable',
+  'eveningShiftAvailable',
+  'weekendAvailable',
+  'hasReliableTransportation',
+  'yearsOfExperience',
+  'roleQuestionAnswers'
+] as const;
+
+const propertySchema: z.ZodType<StructuredDataProperty> = z.lazy(() =>
+  z.object({
+    type: z.enum(['string', 'number', 'integer', 'boolean', 'array', 'object']),
+    description: z.string().optional(),
+    enum: z.array(z.string()).optional(),
+    items: propertySchema.optional(),
+    properties: z.record(propertySchema).optional(),
+    required: z.array(z.string()).optional()
+  })
+);
+
+// Validates a role's schema definition as edited by admins
+export const structuredDataSchemaDefinition = z.object({
+  type: z.literal('object'),
+  properties: z.record(propertySchema),
+  required: z.array(z.string()).optional()
+}).superRefine((schema, context) => {
+  for (const field of CORE_STRUCTURED_DATA_FIELDS) {
+    if (!schema.properties[field]) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['properties', field],
+        message: `Structured data schema must define "${field}"`
+      });
+    }
+  }
+});
+
+// The model sometimes answers "yes"/"no" or quotes numbers; accept those before checking types
+const booleanAnswer = z.preprocess(value => {
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (['yes', 'true', 'y'].includes(normalized)) return true;
+    if (['no', 'false', 'n'].includes(normalized)) return false;
+  }
+  return value;
+}, z.boolean());
+
+const yearsAnswer = z.preprocess(value => {
+  if (value === undefined || value === '' || value === 'unknown') return null;
+  if (typeof value === 'string' && !Number.isNaN(Number(value))) return Number(value);
+  return value;
+}, z.number().min(0).nullable());
+
+// Validates the structured data VAPI extracted from a call
+export const screeningStructuredDataSchema = z.object({
+  morningShiftAvailable: booleanAnswer,
+  eveningShiftAvailable: booleanAnswer,
+  weekendAvailable: booleanAnswer,
+  hasReliableTransportation: booleanAnswer,
+  yearsOfExperience: yearsAnswer,
+  availabilityNotes: z.string().optional(),
+  roleQuestionAnswers: z.array(z.object({
+    question: z.string(),
+    answer: z.string(),
+    satisfactory: booleanAnswer.optional()
+  })).default([])
+}).passthrough();
+
+export type StructuredDataValidationResult =
+  | { success: true; data: ScreeningStructuredData }
+  | { success: false; errors: string[] };
+
+export function validateStructuredData(raw: unknown): StructuredDataValidationResult {
+  const result = screeningStructuredDataSchema.safeParse(raw);
+  if (result.success) {
+    return { success: true, data: result.data as ScreeningStructuredData };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => `${issue.path.join('.') || 'structuredData'}: ${issue.message}`)
+  };
+}
+
+export function validateStructuredDataSchema(schema: unknown): string[] {
+  const result = structuredDataSchemaDefinition.safeParse(schema);
+  return result.success
+    ? []
+    : result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+}
+
+/**
+ * Default schema for a role: the core availability fields, experience, and one
+ * answer per role-specific question, plus any fields particular to the role
+ */
+export function buildStructuredDataSchema(
+  extraProperties: Record<string, StructuredDataProperty> = {}
+): StructuredDataSchema {
+  return {
+    type: 'object',
+    properties: {
+      morningShiftAvailable: {
+        type: 'boolean',
+        description: 'True only if the candidate said they can work morning shifts (6 AM - 2 PM)'
+      },
+      eveningShiftAvailable: {
+        type: 'boolean',
+        description: 'True only if the candidate said they can work evening shifts (2 PM - 10 PM)'
+      },
+      weekendAvailable: {
+        type: 'boolean',
+        description: 'True only if the candidate said they can work weekends; false if they said they are not available on weekends'
+      },
+      hasReliableTransportation: {
+        type: 'boolean',
+        description: 'True if the candidate has reliable transportation to get to work'
+      },
+      yearsOfExperience: {
+        type: 'number',
+        description: 'Years of relevant experience the candidate described; 0 if none'
+      },
+      availabilityNotes: {
+        type: 'string',
+        description: 'Any limits or preferences the candidate gave about their schedule'
+      },
+      roleQuestionAnswers: {
+        type: 'array',
+        description: 'One entry per role-specific question asked during the call',
+        items: {
+          type: 'object',
+          properties: {
+            question: { type: 'string', description: 'The question as asked' },
+            answer: { type: 'string', description: 'A short summary of the candidate\'s answer' },
+            satisfactory: { type: 'boolean', description: 'Whether the answer suggests the candidate is suited to the role' }
+          },
+          required: ['question', 'answer']
+        }
+      },
+      ...extraProperties
+    },
+    required: [...CORE_STRUCTURED_DATA_FIELDS]
+  };
+}
+
+/**
+ * Prompt that tells the analysis model how to fill the schema for this call
+ */
+export function buildStructuredDataPrompt(jobTitle: string, roleQuestions: string[]): string {
+  return `Extract the candidate's answers from this ${jobTitle} screening call into the given schema.
+Only mark a shift, weekends or transportation as true when the candidate clearly said yes; if they said they are not available, or never answered, use false.
+For roleQuestionAnswers, add one entry for each of these questions that was asked:
+${roleQuestions.map(question => `- ${question}`).join('\n')}`;
+}
+
+// Role-specific fields added to the default schemas shipped in config.json
+const DEFAULT_ROLE_FIELDS: Record<string, Record<string, StructuredDataProperty>> = {
+  server: {
+    posExperience: { type: 'boolean', description: 'True if the candidate has used point-of-sale systems' }
+  },
+  cook: {
+    foodSafetyCertified: { type: 'boolean', description: 'True if the candidate holds a food handler or food safety certification' }
+  },
+  host: {
+    reservationSystemExperience: { type: 'boolean', description: 'True if the candidate has used reservation or waitlist software' }
+  },
+  manager: {
+    yearsManagingStaff: { type: 'number', description: 'Years the candidate has supervised or managed staff; 0 if none' }
+  }
+};
+
+export function getDefaultStructuredDataSchema(roleType: string): StructuredDataSchema {
+  return buildStructuredDataSchema(DEFAULT_ROLE_FIELDS[roleType] || {});
+}
+
+/**
+ * Overlay validated structured answers on a screening summary. The structured
+ * fields win over whatever was guessed from the markdown summary.
+ */
+export function applyStructuredDataToSummary(
+  summary: ScreeningSummary | undefined,
+  data: ScreeningStructuredData
+): ScreeningSummary {
+  const base: ScreeningSummary = summary || {
+    experience: { evaluation: '', highlights: [] },
+    availability: { morning: false, evening: false, weekends: false, notes: '' },
+    transportation: { hasReliableTransportation: false, notes: '' },
+    softSkills: { evaluation: '', highlights: [] },
+    roleSpecific: { evaluation: '', strengths: [], areas_of_improvement: [] }
+  };
+
+  return {
+    ...base,
+    availability: {
+      morning: data.morningShiftAvailable,
+      evening: data.eveningShiftAvailable,
+      weekends: data.weekendAvailable,
+      notes: data.availabilityNotes || base.availability.notes
+    },
+    transportation: {
+      ...base.transportation,
+      hasReliableTransportation: data.hasReliableTransportation
+    }
+  };
+}
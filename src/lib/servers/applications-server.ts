@@ -1,10 +1,8 @@
 // Server-side only data utilities for applications
-import fs from 'fs';
-import path from 'path';
 import type { Application, ApplicationStatus, ApplicationStep, ApplicationTimelineEntry } from '../types/applications';
+import { getStorageDriver } from '../data/storage';
 
-// Data file path
-const APPLICATIONS_FILE = path.join(process.cwd(), 'data', 'applications.json');
+const COLLECTION = 'applications';
 
 // Mock data for development - COMMENTED OUT FOR PRODUCTION
 /*
@@ -78,40 +76,9 @@ const mockApplications: Application[] = [
 ];
 */
 
-// Helper function to ensure data directory exists
-function ensureDataDirectory() {
-  const dataDir = path.join(process.cwd(), 'data');
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
-}
-
-// Helper function to read applications from file
+// Helper function to read applications from storage
 function readApplicationsFromFile(): Application[] {
-  try {
-    ensureDataDirectory();
-    if (fs.existsSync(APPLICATIONS_FILE)) {
-      const data = fs.readFileSync(APPLICATIONS_FILE, 'utf8');
-      return JSON.parse(data);
-    }
-    // If file doesn't exist, create it with empty array
-    const emptyApplications: Application[] = [];
-    fs.writeFileSync(APPLICATIONS_FILE, JSON.stringify(emptyApplications, null, 2));
-    return emptyApplications;
-  } catch (error) {
-    console.error('Error reading applications file:', error);
-    return []; // Return empty array instead of mock data
-  }
-}
-
-// Helper function to write applications to file
-function writeApplicationsToFile(applications: Application[]) {
-  try {
-    ensureDataDirectory();
-    fs.writeFileSync(APPLICATIONS_FILE, JSON.stringify(applications, null, 2));
-  } catch (error) {
-    console.error('Error writing applications file:', error);
-  }
+  return getStorageDriver().findAll<Application>(COLLECTION);
 }
 
 // Update application status and advance workflow
@@ -122,35 +89,25 @@ export function updateApplicationStatus(
   notes?: string,
   completedBy: string = 'system'
 ): Application | null {
-  const applications = readApplicationsFromFile();
-  const appIndex = applications.findIndex(app => app.id === id);
-  
-  if (appIndex === -1) {
-    return null;
-  }
-
-  const application = applications[appIndex];
-  
-  // Create a timeline entry for this status change
-  const timelineEntry: ApplicationTimelineEntry = {
-    step: newStep || application.currentStep,
-    status: 'completed',
-    timestamp: new Date().toISOString(),
-    notes: notes,
-    performedBy: completedBy
-  };
+  return getStorageDriver().update<Application>(COLLECTION, id, application => {
+    // Create a timeline entry for this status change
+    const timelineEntry: ApplicationTimelineEntry = {
+      step: newStep || application.currentStep,
+      status: 'completed',
+      timestamp: new Date().toISOString(),
+      notes: notes,
+      performedBy: completedBy
+    };
 
-  // Update the application with new status and step
-  applications[appIndex] = {
-    ...application,
-    status: newStatus,
-    currentStep: newStep || application.currentStep,
-    timeline: [...application.timeline, timelineEntry],
-    updatedAt: new Date().toISOString()
-  };
-  
-  writeApplicationsToFile(applications);
-  return applications[appIndex];
+    // Update the application with new status and step
+    return {
+      ...application,
+      status: newStatus,
+      currentStep: newStep || application.currentStep,
+      timeline: [...application.timeline, timelineEntry],
+      updatedAt: new Date().toISOString()
+    };
+  });
 }
 
 // Get all applications
@@ -160,8 +117,7 @@ export function getAllApplications(): Application[] {
 
 // Get application by ID
 export function getApplicationById(id: string): Application | null {
-  const applications = readApplicationsFromFile();
-  return applications.find(app => app.id === id) || null;
+  return getStorageDriver().findById<Application>(COLLECTION, id);
 }
 
 // Get applications by candidate ID
@@ -178,7 +134,6 @@ export function getApplicationsByJobId(jobId: string): Application[] {
 
 // Add new application
 export function addApplication(applicationData: Omit<Application, 'id' | 'createdAt' | 'updatedAt'>): Application {
-  const applications = readApplicationsFromFile();
   const newApplication: Application = {
     ...applicationData,
     id: `app-${Date.now()}`,
@@ -186,42 +141,21 @@ export function addApplication(applicationData: Omit<Application, 'id' | 'create
     updatedAt: new Date().toISOString()
   };
   
-  applications.push(newApplication);
-  writeApplicationsToFile(applications);
-  return newApplication;
+  return getStorageDriver().insert(COLLECTION, newApplication);
 }
 
 // Update application
 export function updateApplication(id: string, updates: Partial<Application>): Application | null {
-  const applications = readApplicationsFromFile();
-  const index = applications.findIndex(app => app.id === id);
-  
-  if (index === -1) {
-    return null;
-  }
-  
-  applications[index] = {
-    ...applications[index],
+  return getStorageDriver().update<Application>(COLLECTION, id, application => ({
+    ...application,
     ...updates,
     updatedAt: new Date().toISOString()
-  };
-  
-  writeApplicationsToFile(applications);
-  return applications[index];
+  }));
 }
 
 // Delete application
 export function deleteApplication(id: string): boolean {
-  const applications = readApplicationsFromFile();
-  const index = applications.findIndex(app => app.id === id);
-  
-  if (index === -1) {
-    return false;
-  }
-  
-  applications.splice(index, 1);
-  writeApplicationsToFile(applications);
-  return true;
+  return getStorageDriver().remove(COLLECTION, id);
 }
 
 // Update application step
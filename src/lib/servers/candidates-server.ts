@@ -1,7 +1,6 @@
 // Server-side only data utilities for candidates
-import fs from 'fs';
-import path from 'path';
 import type { Candidate, CandidateScreeningSummary } from '../types';
+import { getStorageDriver } from '../data/storage';
 
 // Type augmentation for local use
 interface ExtendedCandidate extends Candidate {
@@ -10,8 +9,7 @@ interface ExtendedCandidate extends Candidate {
   appliedJobId?: string;
 }
 
-// Data file path
-const CANDIDATES_FILE = path.join(process.cwd(), 'data', 'candidates.json');
+const COLLECTION = 'candidates';
 
 // Mock data for development - COMMENTED OUT FOR PRODUCTION
 /*
@@ -74,40 +72,9 @@ const mockCandidates: ExtendedCandidate[] = [
 ];
 */
 
-// Helper function to ensure data directory exists
-function ensureDataDirectory() {
-  const dataDir = path.join(process.cwd(), 'data');
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
-}
-
-// Helper function to read candidates from file
+// Helper function to read candidates from storage
 function readCandidatesFromFile(): ExtendedCandidate[] {
-  try {
-    ensureDataDirectory();
-    if (fs.existsSync(CANDIDATES_FILE)) {
-      const data = fs.readFileSync(CANDIDATES_FILE, 'utf8');
-      return JSON.parse(data);
-    }
-    // If file doesn't exist, create it with empty array
-    const emptyCandidates: ExtendedCandidate[] = [];
-    fs.writeFileSync(CANDIDATES_FILE, JSON.stringify(emptyCandidates, null, 2));
-    return emptyCandidates;
-  } catch (error) {
-    console.error('Error reading candidates file:', error);
-    return []; // Return empty array instead of mock data
-  }
-}
-
-// Helper function to write candidates to file
-function writeCandidatesToFile(candidates: ExtendedCandidate[]) {
-  try {
-    ensureDataDirectory();
-    fs.writeFileSync(CANDIDATES_FILE, JSON.stringify(candidates, null, 2));
-  } catch (error) {
-    console.error('Error writing candidates file:', error);
-  }
+  return getStorageDriver().findAll<ExtendedCandidate>(COLLECTION);
 }
 
 // Get all candidates
@@ -117,8 +84,7 @@ export function getAllCandidates(): ExtendedCandidate[] {
 
 // Get candidate by ID
 export function getCandidateById(id: string): ExtendedCandidate | null {
-  const candidates = readCandidatesFromFile();
-  return candidates.find(candidate => candidate.id === id) || null;
+  return getStorageDriver().findById<ExtendedCandidate>(COLLECTION, id);
 }
 
 // Get candidates by job ID
@@ -129,7 +95,6 @@ export function getCandidatesByJobId(jobId: string): ExtendedCandidate[] {
 
 // Add new candidate
 export function addCandidate(candidateData: Omit<ExtendedCandidate, 'id' | 'createdAt' | 'updatedAt'>): ExtendedCandidate {
-  const candidates = readCandidatesFromFile();
   const newCandidate: Candidate = {
     ...candidateData,
     id: `candidate-${Date.now()}`,
@@ -137,42 +102,21 @@ export function addCandidate(candidateData: Omit<ExtendedCandidate, 'id' | 'crea
     updatedAt: new Date().toISOString()
   };
   
-  candidates.push(newCandidate);
-  writeCandidatesToFile(candidates);
-  return newCandidate;
+  return getStorageDriver().insert(COLLECTION, newCandidate);
 }
 
 // Update candidate
 export function updateCandidate(id: string, updates: Partial<ExtendedCandidate>): ExtendedCandidate | null {
-  const candidates = readCandidatesFromFile();
-  const index = candidates.findIndex(candidate => candidate.id === id);
-  
-  if (index === -1) {
-    return null;
-  }
-  
-  candidates[index] = {
-    ...candidates[index],
+  return getStorageDriver().update<ExtendedCandidate>(COLLECTION, id, candidate => ({
+    ...candidate,
     ...updates,
     updatedAt: new Date().toISOString()
-  };
-  
-  writeCandidatesToFile(candidates);
-  return candidates[index];
+  }));
 }
 
 // Delete candidate
 export function deleteCandidate(id: string): boolean {
-  const candidates = readCandidatesFromFile();
-  const index = candidates.findIndex(candidate => candidate.id === id);
-  
-  if (index === -1) {
-    return false;
-  }
-  
-  candidates.splice(index, 1);
-  writeCandidatesToFile(candidates);
-  return true;
+  return getStorageDriver().remove(COLLECTION, id);
 }
 
 // Update candidate screening results
@@ -1,10 +1,8 @@
 // Server-side only data utilities for jobs
-import fs from 'fs';
-import path from 'path';
 import type { Job } from '../types';
+import { getStorageDriver } from '../data/storage';
 
-// Data file path
-const JOBS_FILE = path.join(process.cwd(), 'data', 'jobs.json');
+const COLLECTION = 'jobs';
 
 // Mock data for development - COMMENTED OUT FOR PRODUCTION
 /*
@@ -40,40 +38,9 @@ const mockJobs: Job[] = [
 ];
 */
 
-// Helper function to ensure data directory exists
-function ensureDataDirectory() {
-  const dataDir = path.join(process.cwd(), 'data');
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
-}
-
-// Helper function to read jobs from file
+// Helper function to read jobs from storage
 function readJobsFromFile(): Job[] {
-  try {
-    ensureDataDirectory();
-    if (fs.existsSync(JOBS_FILE)) {
-      const data = fs.readFileSync(JOBS_FILE, 'utf8');
-      return JSON.parse(data);
-    }
-    // If file doesn't exist, create it with empty array
-    const emptyJobs: Job[] = [];
-    fs.writeFileSync(JOBS_FILE, JSON.stringify(emptyJobs, null, 2));
-    return emptyJobs;
-  } catch (error) {
-    console.error('Error reading jobs file:', error);
-    return []; // Return empty array instead of mock data
-  }
-}
-
-// Helper function to write jobs to file
-function writeJobsToFile(jobs: Job[]) {
-  try {
-    ensureDataDirectory();
-    fs.writeFileSync(JOBS_FILE, JSON.stringify(jobs, null, 2));
-  } catch (error) {
-    console.error('Error writing jobs file:', error);
-  }
+  return getStorageDriver().findAll<Job>(COLLECTION);
 }
 
 // Get all jobs
@@ -83,8 +50,7 @@ export function getAllJobs(): Job[] {
 
 // Get job by ID
 export function getJobById(id: string): Job | null {
-  const jobs = readJobsFromFile();
-  return jobs.find(job => job.id === id) || null;
+  return getStorageDriver().findById<Job>(COLLECTION, id);
 }
 
 // Get active jobs
@@ -95,7 +61,6 @@ export function getActiveJobs(): Job[] {
 
 // Add new job
 export function addJob(jobData: Omit<Job, 'id' | 'createdAt' | 'updatedAt'>): Job {
-  const jobs = readJobsFromFile();
   const newJob: Job = {
     ...jobData,
     id: `job-${Date.now()}`,
@@ -103,42 +68,21 @@ export function addJob(jobData: Omit<Job, 'id' | 'createdAt' | 'updatedAt'>): Jo
     updatedAt: new Date().toISOString()
   };
   
-  jobs.push(newJob);
-  writeJobsToFile(jobs);
-  return newJob;
+  return getStorageDriver().insert(COLLECTION, newJob);
 }
 
 // Update job
 export function updateJob(id: string, updates: Partial<Job>): Job | null {
-  const jobs = readJobsFromFile();
-  const index = jobs.findIndex(job => job.id === id);
-  
-  if (index === -1) {
-    return null;
-  }
-  
-  jobs[index] = {
-    ...jobs[index],
+  return getStorageDriver().update<Job>(COLLECTION, id, job => ({
+    ...job,
     ...updates,
     updatedAt: new Date().toISOString()
-  };
-  
-  writeJobsToFile(jobs);
-  return jobs[index];
+  }));
 }
 
 // Delete job
 export function deleteJob(id: string): boolean {
-  const jobs = readJobsFromFile();
-  const index = jobs.findIndex(job => job.id === id);
-  
-  if (index === -1) {
-    return false;
-  }
-  
-  jobs.splice(index, 1);
-  writeJobsToFile(jobs);
-  return true;
+  return getStorageDriver().remove(COLLECTION, id);
 }
 
 // Get job statistics
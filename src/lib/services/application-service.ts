@@ -1,5 +1,7 @@
 import { JobApplication, ApplicationStatus, ApplicationStep } from '../types';
 import { applicationRepository } from '../data/repositories/application-repository';
+import { UpdateOptions } from '../data/storage';
+import { notifyStatusChange } from '../notifications/statusNotifications';
 
 export class ApplicationService {
   async getAllApplications(): Promise<JobApplication[]> {
@@ -34,12 +36,15 @@ export class ApplicationService {
         status: 'completed' as const,
         timestamp: new Date().toISOString(),
         notes: 'Application submitted',
-        performedBy: 'candidate' as const
+        performedBy: 'candidate' as const,
+        applicationStatus: 'submitted' as ApplicationStatus
       }],
       feedback: {}
     };
 
-    return applicationRepository.create(newApplicationData);
+    const application = applicationRepository.create(newApplicationData);
+    notifyStatusChange(application, null);
+    return application;
   }
 
   async updateApplicationStatus(
@@ -49,11 +54,25 @@ export class ApplicationService {
     notes?: string,
     completedBy: string = 'system'
   ): Promise<JobApplication | null> {
-    return applicationRepository.updateStatus(id, status, step, notes, completedBy);
+    const previousStatus = applicationRepository.findById(id)?.status ?? null;
+    const application = applicationRepository.updateStatus(id, status, step, notes, completedBy);
+    if (application) {
+      notifyStatusChange(application, previousStatus);
+    }
+    return application;
   }
 
-  async updateApplication(id: string, updates: Partial<JobApplication>): Promise<JobApplication | null> {
-    return applicationRepository.update(id, updates);
+  async updateApplication(
+    id: string,
+    updates: Partial<JobApplication>,
+    options?: UpdateOptions
+  ): Promise<JobApplication | null> {
+    const previousStatus = applicationRepository.findById(id)?.status ?? null;
+    const application = applicationRepository.update(id, updates, options);
+    if (application && updates.status) {
+      notifyStatusChange(application, previousStatus);
+    }
+    return application;
   }
 
   async deleteApplication(id: string): Promise<boolean> {
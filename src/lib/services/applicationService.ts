@@ -1,39 +1,19 @@
-import fs from 'fs';
-import path from 'path';
-import { JobApplication, ApplicationStatus, ApplicationStep, ApplicationTimelineEntry } from '../types';
+import { JobApplication, ApplicationFlag, ApplicationStatus, ApplicationStep, ApplicationTimelineEntry, ScreeningBooking, SlaEscalation } from '../types';
+import { UpdateOptions, getStorageDriver } from '../data/storage';
+import { notifyStatusChange } from '../notifications/statusNotifications';
+import { getTimelineActor } from '../auth/currentUser';
 
-const DATA_DIR = path.join(process.cwd(), 'data');
-const APPLICATIONS_FILE = path.join(DATA_DIR, 'applications.json');
-
-export function ensureDataDirectory(): void {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
-  }
-}
+const COLLECTION = 'applications';
 
 export function readApplicationsFromFile(): JobApplication[] {
-  ensureDataDirectory();
-  
-  if (!fs.existsSync(APPLICATIONS_FILE)) {
-    fs.writeFileSync(APPLICATIONS_FILE, JSON.stringify([]));
-    return [];
-  }
-  
-  try {
-    const rawData = fs.readFileSync(APPLICATIONS_FILE, 'utf-8');
-    return JSON.parse(rawData) as JobApplication[];
-  } catch (error) {
-    console.error('Error reading applications file:', error);
-    return [];
-  }
+  return getStorageDriver().findAll<JobApplication>(COLLECTION);
 }
 
 export function writeApplicationsToFile(applications: JobApplication[]): void {
   try {
-    ensureDataDirectory();
-    fs.writeFileSync(APPLICATIONS_FILE, JSON.stringify(applications, null, 2));
+    getStorageDriver().replaceAll(COLLECTION, applications);
   } catch (error) {
-    console.error('Error writing applications file:', error);
+    console.error('Error writing applications:', error);
     throw error;
   }
 }
@@ -43,43 +23,63 @@ export function updateApplicationStatus(
   newStatus: ApplicationStatus, 
   newStep?: ApplicationStep,
   notes?: string,
-  completedBy: string = 'system'
+  completedBy: string = 'system',
+  options?: UpdateOptions
 ): JobApplication | null {
-  const applications = readApplicationsFromFile();
-  const appIndex = applications.findIndex(app => app.id === id);
-  
-  if (appIndex === -1) {
-    return null;
-  }
+  let previousStatus: ApplicationStatus | null = null;
+  const updated = getStorageDriver().update<JobApplication>(COLLECTION, id, application => {
+    previousStatus = application.status;
 
-  const application = applications[appIndex];
-  
-  // Create a timeline entry for this status change
-  const timelineEntry: ApplicationTimelineEntry = {
-    step: newStep || application.currentStep || 'unknown',
-    status: 'completed',
-    timestamp: new Date().toISOString(),
-    notes: notes,
-    completedBy: completedBy,
-    performedBy: completedBy as any
-  };
+    // Create a timeline entry for this status change
+    const timelineEntry: ApplicationTimelineEntry = {
+      step: newStep || application.currentStep || 'unknown',
+      status: 'completed',
+      timestamp: new Date().toISOString(),
+      notes: notes,
+      ...getTimelineActor(completedBy, completedBy as any),
+      applicationStatus: newStatus
+    };
+
+    // Update the application with new status and step
+    return {
+      ...application,
+      status: newStatus,
+      currentStep: newStep || application.currentStep,
+      timeline: [...application.timeline, timelineEntry],
+      updatedAt: new Date().toISOString()
+    };
+  }, options);
+
+  if (updated) {
+    notifyStatusChange(updated, previousStatus);
+  }
+  return updated;
+}
 
-  // Update the application with new status and step
-  applications[appIndex] = {
+// Moves an application to another job, e.g. a transfer to a different location
+export function moveApplicationToJob(
+  id: string,
+  jobId: string,
+  notes: string,
+  completedBy: string = 'system'
+): JobApplication | null {
+  return getStorageDriver().update<JobApplication>(COLLECTION, id, application => ({
     ...application,
-    status: newStatus,
-    currentStep: newStep || application.currentStep,
-    timeline: [...application.timeline, timelineEntry],
+    jobId,
+    timeline: [...application.timeline, {
+      step: application.currentStep || 'unknown',
+      status: 'completed',
+      timestamp: new Date().toISOString(),
+      notes,
+      ...getTimelineActor(completedBy, completedBy as any),
+      applicationStatus: application.status
+    }],
     updatedAt: new Date().toISOString()
-  };
-  
-  writeApplicationsToFile(applications);
-  return applications[appIndex];
+  }));
 }
 
 export function getApplicationById(id: string): JobApplication | null {
-  const applications = readApplicationsFromFile();
-  return applications.find(app => app.id === id) || null;
+  return getStorageDriver().findById<JobApplication>(COLLECTION, id);
 }
 
 export function getAllApplications(): JobApplication[] {
@@ -87,8 +87,6 @@ export function getAllApplications(): JobApplication[] {
 }
 
 export function createApplication(applicationData: Omit<JobApplication, 'id' | 'createdAt' | 'updatedAt'>): JobApplication {
-  const applications = readApplicationsFromFile();
-  
   const newApplication: JobApplication = {
     ...applicationData,
     id: `app-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -96,13 +94,66 @@ export function createApplication(applicationData: Omit<JobApplication, 'id' | '
     updatedAt: new Date().toISOString()
   };
   
-  applications.push(newApplication);
-  writeApplicationsToFile(applications);
-  
-  return newApplication;
+  const created = getStorageDriver().insert(COLLECTION, newApplication);
+  notifyStatusChange(created, null);
+  return created;
 }
 
 export function getApplicationsByCandidateId(candidateId: string): JobApplication[] {
   const applications = readApplicationsFromFile();
   return applications.filter(app => app.candidateId === candidateId);
 }
+
+export function flagApplication(id: string, reason: string, source: ApplicationFlag['source']): JobApplication | null {
+  return getStorageDriver().update<JobApplication>(COLLECTION, id, application => ({
+    ...application,
+    flags: [...(application.flags || []), { reason, source, createdAt: new Date().toISOString() }],
+    updatedAt: new Date().toISOString()
+  }));
+}
+
+export function setApplicationTags(id: string, tags: string[]): JobApplication | null {
+  return getStorageDriver().update<JobApplication>(COLLECTION, id, application => ({
+    ...application,
+    tags,
+    updatedAt: new Date().toISOString()
+  }));
+}
+
+// Flags an overdue application once per stay in a status. Bookkeeping, so updatedAt is left alone.
+export function recordSlaEscalation(id: string, escalation: SlaEscalation, reason: string): JobApplication | null {
+  return getStorageDriver().update<JobApplication>(COLLECTION, id, application => ({
+    ...application,
+    flags: [...(application.flags || []), { reason, source: 'sla', createdAt: escalation.escalatedAt }],
+    slaEscalation: escalation
+  }));
+}
+
+export function setScreeningBooking(id: string, booking: ScreeningBooking, options?: UpdateOptions): JobApplication | null {
+  return getStorageDriver().update<JobApplication>(COLLECTION, id, application => ({
+    ...application,
+    screeningBooking: booking,
+    updatedAt: new Date().toISOString()
+  }), options);
+}
+
+export function setResumeUrl(id: string, resumeUrl: string): JobApplication | null {
+  return getStorageDriver().update<JobApplication>(COLLECTION, id, application => ({
+    ...application,
+    resumeUrl,
+    updatedAt: new Date().toISOString()
+  }));
+}
+
+// The application as API responses send it, without the secret from the candidate's portal link
+export function withoutPortalToken(application: JobApplication): JobApplication {
+  const { portalToken, ...rest } = application;
+  return rest;
+}
+
+// Keeps the token already issued, if any. Bookkeeping like the delivery log, so updatedAt is left alone.
+export function issuePortalToken(id: string, portalToken: string): JobApplication | null {
+  return getStorageDriver().update<JobApplication>(COLLECTION, id, application =>
+    application.portalToken ? application : { ...application, portalToken }
+  );
+}
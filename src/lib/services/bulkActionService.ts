@@ -0,0 +1,167 @@
+/**
+ * Bulk actions on applications (server-side only)
+ *
+ * Recruiters select applicants in the list and change their status, reject
+ * them, tag them or invite them to screen again in one go. Each application is
+ * handled on its own: status changes still go through its job's workflow, and
+ * one application failing doesn't stop the rest. The caller gets a result per
+ * application.
+ */
+
+import { ApplicationStatus, JobApplication } from '../types';
+import { StorageConflictError } from '../data/storage';
+import { getJobById } from '../servers/jobs-server';
+import { sendScreeningReinvitation } from '../notifications/statusNotifications';
+import { APPLICATION_STATUSES, WorkflowActor } from '../workflow/workflowUtils';
+import { getApplicationById, setApplicationTags, withoutPortalToken } from './applicationService';
+import { isLocationInScope } from './locationService';
+import { transitionApplication } from './workflowService';
+import { HttpError } from '../http/httpError';
+
+const MAX_BULK_APPLICATIONS = 200;
+const MAX_TAG_LENGTH = 40;
+
+// Where the candidate can still book or retry a screening (see candidatePortalService)
+const RESCREEN_STATUSES: ApplicationStatus[] = ['submitted', 'screening_scheduled'];
+
+export type BulkAction =
+  | { type: 'status'; status: ApplicationStatus; notes?: string }
+  | { type: 'reject'; notes: string } // The candidate gets the rejection template
+  | { type: 'tag'; add: string[]; remove: string[] }
+  | { type: 'rescreen' };
+
+export interface BulkItemResult {
+  applicationId: string;
+  success: boolean;
+  error?: string;
+  application?: JobApplication; // As it is after the action, without its portal token
+}
+
+export interface BulkActionResult {
+  results: BulkItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
+function validateTags(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    throw new HttpError(`${field} must be a list of tags`, 400);
+  }
+  const tags = value.map(tag => tag.trim()).filter(Boolean);
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    throw new HttpError(`Tags can be at most ${MAX_TAG_LENGTH} characters`, 400);
+  }
+  return tags;
+}
+
+export function validateBulkAction(input: any): BulkAction {
+  switch (input?.type) {
+    case 'status':
+      if (!APPLICATION_STATUSES.includes(input.status)) {
+        throw new HttpError('Pick the status to move the applications to', 400);
+      }
+      return { type: 'status', status: input.status, notes: typeof input.notes === 'string' ? input.notes : undefined };
+    case 'reject':
+      if (typeof input.notes !== 'string' || !input.notes.trim()) {
+        throw new HttpError('Add a note saying why the applications are rejected', 400);
+      }
+      return { type: 'reject', notes: input.notes };
+    case 'tag': {
+      const add = validateTags(input.add, 'add');
+      const remove = validateTags(input.remove, 'remove');
+      if (add.length === 0 && remove.length === 0) {
+        throw new HttpError('Give at least one tag to add or remove', 400);
+      }
+      return { type: 'tag', add, remove };
+    }
+    case 'rescreen':
+      return { type: 'rescreen' };
+    default:
+      throw new HttpError(`Unknown bulk action ${String(input?.type)}`, 400);
+  }
+}
+
+export function validateApplicationIds(input: unknown): string[] {
+  if (!Array.isArray(input) || input.length === 0 || input.some(id => typeof id !== 'string' || !id)) {
+    throw new HttpError('applicationIds must be a non-empty list', 400);
+  }
+  const ids = Array.from(new Set(input as string[]));
+  if (ids.length > MAX_BULK_APPLICATIONS) {
+    throw new HttpError(`At most ${MAX_BULK_APPLICATIONS} applications can be changed at once`, 400);
+  }
+  return ids;
+}
+
+// Tags compare without case, keeping the first spelling used
+function applyTags(current: string[], add: string[], remove: string[]): string[] {
+  const removed = new Set(remove.map(tag => tag.toLowerCase()));
+  const tags = current.filter(tag => !removed.has(tag.toLowerCase()));
+  for (const tag of add) {
+    if (!tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      tags.push(tag);
+    }
+  }
+  return tags;
+}
+
+function applyAction(application: JobApplication, action: BulkAction, actor: WorkflowActor): JobApplication {
+  switch (action.type) {
+    case 'status':
+      return transitionApplication(
+        application.id,
+        { status: action.status, actor, notes: action.notes },
+        { expectedUpdatedAt: application.updatedAt }
+      );
+    case 'reject':
+      return transitionApplication(
+        application.id,
+        { status: 'rejected', actor, notes: action.notes },
+        { expectedUpdatedAt: application.updatedAt }
+      );
+    case 'tag':
+      return setApplicationTags(application.id, applyTags(application.tags || [], action.add, action.remove)) || application;
+    case 'rescreen':
+      if (!RESCREEN_STATUSES.includes(application.status)) {
+        throw new HttpError('Only applications still waiting for their screening can be invited to screen again', 400);
+      }
+      sendScreeningReinvitation(application);
+      return application;
+  }
+}
+
+/**
+ * Runs the action on each application the user can see. `scope` is the
+ * user's locations, or null for all of them (see getLocationScope).
+ */
+export function runBulkAction(
+  applicationIds: string[],
+  action: BulkAction,
+  actor: WorkflowActor,
+  scope: string[] | null
+): BulkActionResult {
+  const results = applicationIds.map((applicationId): BulkItemResult => {
+    const application = getApplicationById(applicationId);
+    if (!application || !isLocationInScope(getJobById(application.jobId)?.locationId, scope)) {
+      return { applicationId, success: false, error: 'Application not found' };
+    }
+
+    try {
+      return { applicationId, success: true, application: withoutPortalToken(applyAction(application, action, actor)) };
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return { applicationId, success: false, error: error.message };
+      }
+      if (error instanceof StorageConflictError) {
+        return { applicationId, success: false, error: 'Application was updated by someone else' };
+      }
+      console.error(`Bulk ${action.type} failed for application ${applicationId}:`, error);
+      return { applicationId, success: false, error: `Failed to ${action.type === 'tag' ? 'tag' : 'update'} application` };
+    }
+  });
+
+  const succeeded = results.filter(result => result.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
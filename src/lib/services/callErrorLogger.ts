@@ -354,6 +354,53 @@ export function logPostProcessingFailure(
   return errorDetails;
 }
 
+/**
+ * Log a webhook request that was rejected before processing (bad credentials, replay, duplicate)
+ */
+export function logWebhookRejection(
+  reason: string,
+  message: string,
+  callId?: string,
+  context?: Record<string, any>
+): CallErrorDetails {
+  const errorDetails = createErrorReport(
+    `Webhook rejected (${reason}): ${message}`,
+    callId,
+    undefined,
+    {
+      ...context,
+      reason,
+      errorType: 'webhook-rejection'
+    }
+  );
+
+  logCallError(errorDetails);
+  return errorDetails;
+}
+
+/**
+ * Log a VAPI `hang` notification (the assistant took too long to respond) with the speech activity before it
+ */
+export function logCallHang(
+  callId: string,
+  hangCount: number,
+  context?: Record<string, any>
+): CallErrorDetails {
+  const errorDetails = createErrorReport(
+    `Assistant response timed out during the call (hang #${hangCount})`,
+    callId,
+    undefined,
+    {
+      ...context,
+      hangCount,
+      errorType: 'call-hang'
+    }
+  );
+
+  logCallError(errorDetails);
+  return errorDetails;
+}
+
 /**
  * Comprehensive error analysis of a failed call
  */
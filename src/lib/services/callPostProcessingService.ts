@@ -0,0 +1,162 @@
+/**
+ * Post-call processing (server-side only)
+ *
+ * Turns a finished call into screening results: the webhook's end-of-call report
+ * when it arrives, or the call fetched from VAPI when it doesn't. Both run as
+ * background jobs (see lib/queue), so a restart or a closed browser tab doesn't
+ * lose the results.
+ */
+
+import { ScreeningCallDiagnostics } from '../types';
+import { VapiEndOfCallReport } from '../types/vapi';
+import { getAppBaseUrl } from '../config/constants';
+import { getScreeningById, getScreeningByCallId } from './screeningService';
+import { recordScreeningFailure, recordScreeningResults } from './screeningResultsService';
+import { handleCallFailure, logPostProcessingFailure } from './callErrorLogger';
+import { getCallData } from './vapiCallService';
+
+// Phone screenings that never reached the candidate; a voicemail greeting is not a screening
+const PHONE_UNREACHED_REASONS = ['customer-did-not-answer', 'customer-busy', 'voicemail', 'twilio-failed-to-connect-call'];
+
+export interface EndOfCallReportJobPayload {
+  callId?: string;
+  report: VapiEndOfCallReport;
+  callDiagnostics?: ScreeningCallDiagnostics; // Collected in memory by the webhook during the call
+}
+
+export interface FetchCallResultsJobPayload {
+  callId: string;
+  screeningId: string;
+}
+
+// Screening IDs travel in the assistant metadata; fall back to the stored call ID
+export function findScreeningId(message: any): string | null {
+  const screeningId =
+    message.assistant?.metadata?.screeningId ||
+    message.call?.assistantOverrides?.metadata?.screeningId ||
+    message.call?.metadata?.screeningId ||
+    message.metadata?.screeningId;
+  if (screeningId) {
+    return screeningId;
+  }
+
+  const callId = message.call?.id || message.callId;
+  return callId ? getScreeningByCallId(callId)?.id || null : null;
+}
+
+function getCallDurationSeconds(report: VapiEndOfCallReport): number | undefined {
+  if (typeof report.durationSeconds === 'number') {
+    return Math.round(report.durationSeconds);
+  }
+
+  const startedAt = report.startedAt || report.call?.startedAt;
+  const endedAt = report.endedAt || report.call?.endedAt;
+  if (!startedAt || !endedAt) {
+    return undefined;
+  }
+  return Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000);
+}
+
+function isScreeningFinished(screeningId: string): boolean {
+  const status = getScreeningById(screeningId)?.status;
+  return status === 'screening_completed' || status === 'rejected';
+}
+
+// The end-of-call report is the authoritative transcript, analysis and recording for the call
+export async function processEndOfCallReport({ report, callDiagnostics }: EndOfCallReportJobPayload): Promise<string> {
+  const callId = report.call?.id;
+  const screeningId = findScreeningId(report);
+  if (!screeningId) {
+    console.warn('No screening found for end-of-call report, call ID:', callId);
+    return 'No screening found';
+  }
+
+  const transcript = report.artifact?.transcript || report.transcript || '';
+  const endedReason = report.endedReason || report.call?.endedReason;
+  const audioUrl = report.artifact?.recordingUrl ||
+    report.recordingUrl ||
+    report.artifact?.recording?.mono?.combinedUrl ||
+    report.artifact?.stereoRecordingUrl ||
+    report.stereoRecordingUrl;
+  const duration = getCallDurationSeconds(report);
+
+  // Nothing was said (or only to voicemail), so there is nothing to screen
+  const unreached = !!endedReason && PHONE_UNREACHED_REASONS.includes(endedReason);
+  if (!transcript.trim() || unreached) {
+    const errorMessage = unreached
+      ? `Candidate could not be reached by phone (${endedReason})`
+      : `Call ended without a conversation (${endedReason || 'unknown reason'})`;
+    await handleCallFailure(errorMessage, callId, duration, { screeningId, endedReason });
+
+    recordScreeningFailure(screeningId, errorMessage, {
+      aiCallId: callId,
+      endedReason,
+      audioUrl,
+      transcript: transcript.trim() || undefined,
+      callDiagnostics
+    });
+    return `Call failure recorded for ${screeningId}`;
+  }
+
+  const successEvaluation = report.analysis?.successEvaluation;
+  const updatedScreening = recordScreeningResults(screeningId, {
+    transcript,
+    summaryMarkdown: report.analysis?.summary || report.summary,
+    audioUrl,
+    duration,
+    aiCallId: callId,
+    endedReason,
+    structuredData: report.analysis?.structuredData,
+    successEvaluation: successEvaluation === undefined ? undefined : String(successEvaluation),
+    callDiagnostics,
+    completedAt: report.endedAt || report.call?.endedAt
+  }, 'webhook');
+
+  if (!updatedScreening) {
+    throw new Error(`Failed to update screening ${screeningId}`);
+  }
+  return `Results recorded for ${screeningId}`;
+}
+
+/**
+ * Fallback for when the webhook never delivered the end-of-call report: fetch the
+ * call from VAPI. Throws while the transcript isn't available yet, so the queue
+ * tries again after its backoff.
+ */
+export async function fetchCallResults({ callId, screeningId }: FetchCallResultsJobPayload): Promise<string> {
+  if (isScreeningFinished(screeningId)) {
+    return 'Screening already has results';
+  }
+
+  const callData = await getCallData(callId, getAppBaseUrl());
+  if (!callData?.transcript) {
+    throw new Error(`Call data for ${callId} is not available yet`);
+  }
+
+  // The webhook may have landed while VAPI was being asked
+  if (isScreeningFinished(screeningId)) {
+    return 'Screening already has results';
+  }
+
+  const updatedScreening = recordScreeningResults(screeningId, {
+    transcript: callData.transcript,
+    summaryMarkdown: callData.summary || callData.analysis?.summary,
+    audioUrl: callData.audioUrl,
+    duration: callData.duration,
+    aiCallId: callId,
+    structuredData: callData.analysis?.structuredData
+  }, 'job');
+
+  if (!updatedScreening) {
+    throw new Error(`Failed to update screening ${screeningId}`);
+  }
+  return `Results recorded for ${screeningId}`;
+}
+
+// Out of attempts: stop showing the call as in progress so the candidate can try again
+export function handleCallResultsUnavailable({ callId, screeningId }: FetchCallResultsJobPayload, error: Error): void {
+  logPostProcessingFailure('fetch-call-results', error, callId, { screeningId });
+  if (!isScreeningFinished(screeningId)) {
+    recordScreeningFailure(screeningId, `Call results could not be retrieved: ${error.message}`, { aiCallId: callId });
+  }
+}
@@ -1,5 +1,6 @@
 import { Candidate, CandidateScreeningSummary } from '../types';
 import { candidateRepository } from '../data/repositories/candidate-repository';
+import { UpdateOptions } from '../data/storage';
 
 export class CandidateService {
   async getAllCandidates(): Promise<Candidate[]> {
@@ -30,8 +31,12 @@ export class CandidateService {
     return candidateRepository.create(candidateData);
   }
 
-  async updateCandidate(id: string, updates: Partial<Candidate>): Promise<Candidate | null> {
-    return candidateRepository.update(id, updates);
+  async updateCandidate(
+    id: string,
+    updates: Partial<Candidate>,
+    options?: UpdateOptions
+  ): Promise<Candidate | null> {
+    return candidateRepository.update(id, updates, options);
   }
 
   async updateResumeUrl(id: string, resumeUrl: string): Promise<Candidate | null> {
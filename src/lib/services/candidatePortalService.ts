@@ -0,0 +1,202 @@
+/**
+ * Candidate status portal (server-side only)
+ *
+ * Each application gets a secret token; the magic link built from it
+ * (/candidate/portal/<token>) lets the candidate follow their application
+ * without an account. From the portal they can book or retry their screening,
+ * upload an updated resume, or withdraw.
+ */
+
+import crypto from 'crypto';
+import { ApplicationStatus, ApplicationStep, JobApplication, ScreeningBooking, TimelineEntry } from '../types';
+import { getStorageDriver } from '../data/storage';
+import { getAppBaseUrl } from '../config/constants';
+import { getStatusDisplayInfo } from '../utils/statusManager';
+import { isValidStatusTransition } from '../workflow/workflowUtils';
+import {
+  getApplicationById,
+  issuePortalToken,
+  setResumeUrl,
+  setScreeningBooking,
+  updateApplicationStatus
+} from './applicationService';
+import { getCandidateById, updateCandidate } from './candidateService';
+import { cancelInterview, listInterviews } from './interviewService';
+import { getWorkflowForApplication } from './workflowService';
+import { getJobById } from '../servers/jobs-server';
+import { HttpError } from '../http/httpError';
+
+// Statuses where the candidate can still book, move or retry their screening
+const SCREENING_STATUSES: ApplicationStatus[] = ['submitted', 'screening_scheduled'];
+
+// For timeline entries written before they recorded the application's status
+const STEP_STATUSES: Partial<Record<ApplicationStep, ApplicationStatus>> = {
+  application_submitted: 'submitted',
+  resume_review: 'submitted',
+  resume_uploaded: 'submitted',
+  screening_call_pending: 'screening_scheduled',
+  screening_call_scheduled: 'screening_scheduled',
+  screening_call_completed: 'screening_completed',
+  recruiter_review: 'under_review',
+  manager_review: 'under_review',
+  reference_check: 'under_review',
+  interview_scheduled: 'interview_scheduled',
+  interview_completed: 'interview_completed',
+  offer_pending: 'interview_completed',
+  rejected: 'rejected'
+};
+
+export interface PortalTimelineEntry {
+  status: ApplicationStatus;
+  timestamp: string;
+}
+
+export interface PortalInterview {
+  startTime: string;
+  endTime: string;
+  format: string;
+  location?: string;
+}
+
+// What the candidate sees: no recruiter notes, scores or flags
+export interface CandidatePortalView {
+  applicationId: string;
+  candidateId: string;
+  jobId: string;
+  jobTitle: string;
+  candidateName: string;
+  hasPhone: boolean;
+  status: ApplicationStatus;
+  submittedAt: string;
+  timeline: PortalTimelineEntry[];
+  resumeUrl?: string;
+  screeningBooking?: ScreeningBooking;
+  upcomingInterviews: PortalInterview[];
+  canScreen: boolean;
+  canWithdraw: boolean;
+}
+
+/**
+ * The application's portal link, issuing its token the first time it's asked for.
+ * Empty when the application no longer exists.
+ */
+export function getPortalLink(application: JobApplication): string {
+  let token = application.portalToken;
+  if (!token) {
+    // The application passed in may be a stale copy; another caller may have issued one already
+    const issued = issuePortalToken(application.id, crypto.randomBytes(24).toString('base64url'));
+    if (!issued?.portalToken) {
+      return '';
+    }
+    token = issued.portalToken;
+  }
+  return `${getAppBaseUrl()}/candidate/portal/${token}`;
+}
+
+export function getApplicationByPortalToken(token: string): JobApplication | null {
+  if (!token) {
+    return null;
+  }
+  return getStorageDriver()
+    .findAll<JobApplication>('applications')
+    .find(application => application.portalToken === token) || null;
+}
+
+function requireApplication(token: string): JobApplication {
+  const application = getApplicationByPortalToken(token);
+  if (!application) {
+    throw new HttpError('This link is not valid. Check the link in your email.', 404);
+  }
+  return application;
+}
+
+function statusOf(entry: TimelineEntry): ApplicationStatus | null {
+  return entry.applicationStatus || STEP_STATUSES[entry.step as ApplicationStep] || null;
+}
+
+// One entry per status the application moved through, oldest first
+function buildTimeline(application: JobApplication): PortalTimelineEntry[] {
+  const timeline: PortalTimelineEntry[] = [];
+  const entries = [...application.timeline].sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || ''));
+  for (const entry of entries) {
+    const status = statusOf(entry);
+    if (status && timeline[timeline.length - 1]?.status !== status) {
+      timeline.push({ status, timestamp: entry.timestamp });
+    }
+  }
+  if (timeline[timeline.length - 1]?.status !== application.status) {
+    timeline.push({ status: application.status, timestamp: application.updatedAt });
+  }
+  return timeline;
+}
+
+export function getPortalView(token: string, now: Date = new Date()): CandidatePortalView {
+  const application = requireApplication(token);
+  const candidate = getCandidateById(application.candidateId);
+  const job = getJobById(application.jobId);
+
+  return {
+    applicationId: application.id,
+    candidateId: application.candidateId,
+    jobId: application.jobId,
+    jobTitle: job?.title || 'Open position',
+    candidateName: candidate ? `${candidate.firstName} ${candidate.lastName}`.trim() : '',
+    hasPhone: !!candidate?.phone,
+    status: application.status,
+    submittedAt: application.submittedAt,
+    timeline: buildTimeline(application),
+    resumeUrl: application.resumeUrl || candidate?.resumeUrl || undefined,
+    screeningBooking: application.screeningBooking,
+    upcomingInterviews: listInterviews({ applicationId: application.id, status: 'scheduled' })
+      .filter(interview => new Date(interview.startTime).getTime() > now.getTime())
+      .map(({ startTime, endTime, format, location }) => ({ startTime, endTime, format, location })),
+    canScreen: SCREENING_STATUSES.includes(application.status),
+    canWithdraw: isValidStatusTransition(application.status, 'withdrawn', 'candidate', getWorkflowForApplication(application))
+  };
+}
+
+/**
+ * Withdraws the application for the candidate, freeing any booked screening
+ * slot and cancelling scheduled interviews first.
+ */
+export function withdrawApplication(applicationId: string, notes: string): JobApplication {
+  const application = getApplicationById(applicationId);
+  if (!application) {
+    throw new HttpError('Application not found', 404);
+  }
+  if (application.status === 'withdrawn') {
+    throw new HttpError('This application has already been withdrawn', 409);
+  }
+  if (!isValidStatusTransition(application.status, 'withdrawn', 'candidate', getWorkflowForApplication(application))) {
+    throw new HttpError(`A ${getStatusDisplayInfo(application.status).label.toLowerCase()} application can't be withdrawn`, 409);
+  }
+
+  if (application.screeningBooking?.status === 'booked') {
+    setScreeningBooking(application.id, { ...application.screeningBooking, status: 'cancelled' });
+  }
+  for (const interview of listInterviews({ applicationId: application.id, status: 'scheduled' })) {
+    cancelInterview(interview.id, notes, 'candidate');
+  }
+
+  return updateApplicationStatus(application.id, 'withdrawn', undefined, notes, 'candidate')!;
+}
+
+export function withdrawByPortalToken(token: string): JobApplication {
+  return withdrawApplication(requireApplication(token).id, 'Candidate withdrew from the status portal');
+}
+
+/**
+ * Points the application and candidate at a resume the candidate uploaded
+ * through /api/upload. Only files uploaded under the candidate's own id are accepted.
+ */
+export function replaceResume(token: string, resumeUrl: string): JobApplication {
+  const application = requireApplication(token);
+  const uploadPrefix = `/uploads/resumes/${application.candidateId}_`;
+  if (typeof resumeUrl !== 'string' || !resumeUrl.startsWith(uploadPrefix) || resumeUrl.includes('..')) {
+    throw new HttpError('Upload the resume before attaching it to your application', 400);
+  }
+
+  updateCandidate(application.candidateId, { resumeUrl });
+  setResumeUrl(application.id, resumeUrl);
+  return updateApplicationStatus(application.id, application.status, undefined, 'Candidate uploaded an updated resume', 'candidate')!;
+}
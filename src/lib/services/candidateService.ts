@@ -1,39 +1,17 @@
-import fs from 'fs';
-import path from 'path';
 import { Candidate, CandidateScreeningSummary } from '../types';
+import { getStorageDriver, UpdateOptions } from '../data/storage';
 
-const DATA_DIR = path.join(process.cwd(), 'data');
-const CANDIDATES_FILE = path.join(DATA_DIR, 'candidates.json');
-
-export function ensureDataDirectory(): void {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
-  }
-}
+const COLLECTION = 'candidates';
 
 export function readCandidatesFromFile(): Candidate[] {
-  ensureDataDirectory();
-  
-  if (!fs.existsSync(CANDIDATES_FILE)) {
-    fs.writeFileSync(CANDIDATES_FILE, JSON.stringify([]));
-    return [];
-  }
-  
-  try {
-    const rawData = fs.readFileSync(CANDIDATES_FILE, 'utf-8');
-    return JSON.parse(rawData) as Candidate[];
-  } catch (error) {
-    console.error('Error reading candidates file:', error);
-    return [];
-  }
+  return getStorageDriver().findAll<Candidate>(COLLECTION);
 }
 
 export function writeCandidatesToFile(candidates: Candidate[]): void {
   try {
-    ensureDataDirectory();
-    fs.writeFileSync(CANDIDATES_FILE, JSON.stringify(candidates, null, 2));
+    getStorageDriver().replaceAll(COLLECTION, candidates);
   } catch (error) {
-    console.error('Error writing candidates file:', error);
+    console.error('Error writing candidates:', error);
     throw error;
   }
 }
@@ -43,29 +21,23 @@ export function updateCandidateScreening(
   screeningSummary: CandidateScreeningSummary,
   screeningId: string
 ): Candidate | null {
-  const candidates = readCandidatesFromFile();
-  const candidateIndex = candidates.findIndex(c => c.id === candidateId);
-  
-  if (candidateIndex === -1) {
-    console.error(`Candidate with ID ${candidateId} not found`);
-    return null;
-  }
-
-  // Update the candidate with screening data
-  candidates[candidateIndex] = {
-    ...candidates[candidateIndex],
+  const updated = getStorageDriver().update<Candidate>(COLLECTION, candidateId, candidate => ({
+    // Update the candidate with screening data
+    ...candidate,
     screeningSummary,
     screeningId,
     updatedAt: new Date().toISOString()
-  };
-  
-  writeCandidatesToFile(candidates);
-  return candidates[candidateIndex];
+  }));
+
+  if (!updated) {
+    console.error(`Candidate with ID ${candidateId} not found`);
+  }
+
+  return updated;
 }
 
 export function getCandidateById(id: string): Candidate | null {
-  const candidates = readCandidatesFromFile();
-  return candidates.find(candidate => candidate.id === id) || null;
+  return getStorageDriver().findById<Candidate>(COLLECTION, id);
 }
 
 export function getAllCandidates(): Candidate[] {
@@ -73,8 +45,6 @@ export function getAllCandidates(): Candidate[] {
 }
 
 export function createCandidate(candidateData: Omit<Candidate, 'id' | 'createdAt' | 'updatedAt'>): Candidate {
-  const candidates = readCandidatesFromFile();
-  
   const newCandidate: Candidate = {
     id: `candidate-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     createdAt: new Date().toISOString(),
@@ -82,26 +52,17 @@ export function createCandidate(candidateData: Omit<Candidate, 'id' | 'createdAt
     ...candidateData
   };
   
-  candidates.push(newCandidate);
-  writeCandidatesToFile(candidates);
-  
-  return newCandidate;
+  return getStorageDriver().insert(COLLECTION, newCandidate);
 }
 
-export function updateCandidate(candidateId: string, updates: Partial<Candidate>): Candidate | null {
-  const candidates = readCandidatesFromFile();
-  const candidateIndex = candidates.findIndex(c => c.id === candidateId);
-  
-  if (candidateIndex === -1) {
-    return null;
-  }
-  
-  candidates[candidateIndex] = {
-    ...candidates[candidateIndex],
+export function updateCandidate(
+  candidateId: string,
+  updates: Partial<Candidate>,
+  options: UpdateOptions = {}
+): Candidate | null {
+  return getStorageDriver().update<Candidate>(COLLECTION, candidateId, candidate => ({
+    ...candidate,
     ...updates,
     updatedAt: new Date().toISOString()
-  };
-  
-  writeCandidatesToFile(candidates);
-  return candidates[candidateIndex];
+  }), options);
 }
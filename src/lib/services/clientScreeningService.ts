@@ -5,134 +5,73 @@
  * by making API calls instead of direct file system access.
  */
 
-import { ScreeningCall, ApplicationStatus } from '../types';
+import { ScreeningCall } from '../types';
+import type { ScreeningAttempts } from './screeningService';
 
 /**
- * Read screenings from API endpoint (browser-compatible)
+ * The application's earlier screening attempts (browser-compatible).
+ * Null when they can't be read.
  */
-export async function readScreeningsFromAPI(): Promise<ScreeningCall[]> {
-  try {
-    const response = await fetch('/api/screenings');
-    if (!response.ok) {
-      throw new Error(`Failed to fetch screenings: ${response.statusText}`);
-    }
-    return await response.json();
-  } catch (error) {
-    console.error('Error reading screenings from API:', error);
-    return [];
-  }
-}
-
-/**
- * Write screenings to API endpoint (browser-compatible)
- */
-export async function writeScreeningsToAPI(screenings: ScreeningCall[]): Promise<boolean> {
+export async function getScreeningAttempts(
+  applicationId: string,
+  candidateId: string
+): Promise<ScreeningAttempts | null> {
   try {
-    const response = await fetch('/api/screenings', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(screenings),
-    });
-    
+    const params = new URLSearchParams({ applicationId, candidateId });
+    const response = await fetch(`/api/screening/attempts?${params}`);
     if (!response.ok) {
-      throw new Error(`Failed to save screenings: ${response.statusText}`);
+      throw new Error(`Failed to fetch screening attempts: ${response.statusText}`);
     }
-    
-    return true;
+    const data = await response.json();
+    return data.attempts;
   } catch (error) {
-    console.error('Error writing screenings to API:', error);
-    return false;
+    console.error('Error reading screening attempts from API:', error);
+    return null;
   }
 }
 
 /**
  * Browser-compatible version of hasActiveScreeningCall
  */
-export async function hasActiveScreeningCall(applicationId: string): Promise<boolean> {
-  const screenings = await readScreeningsFromAPI();
-  
-  // Find any screenings for this application that are in progress or scheduled
-  const activeScreenings = screenings.filter(
-    s => s.applicationId === applicationId && 
-    (s.status === 'screening_in_progress' || s.status === 'screening_scheduled')
-  );
-  
-  return activeScreenings.length > 0;
+export async function hasActiveScreeningCall(applicationId: string, candidateId: string): Promise<boolean> {
+  const attempts = await getScreeningAttempts(applicationId, candidateId);
+  return (attempts?.active || 0) > 0;
 }
 
 /**
  * Browser-compatible version of hasReachedScreeningCallLimit
  */
 export async function hasReachedScreeningCallLimit(
-  applicationId: string, 
+  applicationId: string,
+  candidateId: string,
   maxCallsPerApplication: number = 1
 ): Promise<boolean> {
-  const screenings = await readScreeningsFromAPI();
-  
-  // Only count successful or completed screenings for this application
-  const completedCallCount = screenings.filter(
-    s => s.applicationId === applicationId && 
-    // Only completed calls count toward the limit
-    s.status === 'screening_completed'
-  ).length;
-  
-  return completedCallCount >= maxCallsPerApplication;
+  const attempts = await getScreeningAttempts(applicationId, candidateId);
+
+  // Only completed calls count toward the limit
+  return (attempts?.completed || 0) >= maxCallsPerApplication;
 }
 
 /**
  * Browser-compatible version of isRetryAllowed
  */
 export async function isRetryAllowed(
-  applicationId: string, 
+  applicationId: string,
+  candidateId: string,
   maxRetries: number = 1
 ): Promise<boolean> {
-  const screenings = await readScreeningsFromAPI();
-  const appScreenings = screenings.filter(s => s.applicationId === applicationId);
-  
+  const attempts = await getScreeningAttempts(applicationId, candidateId);
+
   // No screenings yet
-  if (appScreenings.length === 0) return true;
-  
+  if (!attempts || attempts.total === 0) return true;
+
   // If there's already a completed screening, no retry allowed
-  if (appScreenings.some(s => s.status === 'screening_completed')) {
+  if (attempts.completed > 0) {
     return false;
   }
-  
-  // Count failed/rejected attempts
-  const failedAttempts = appScreenings.filter(
-    s => s.status === 'rejected'
-  ).length;
-  
-  return failedAttempts < maxRetries;
-}
 
-/**
- * Browser-compatible version of updateScreeningStatus
- */
-export async function updateScreeningStatus(
-  id: string,
-  status: ApplicationStatus,
-  additionalData: Record<string, any> = {}
-): Promise<boolean> {
-  try {
-    const response = await fetch(`/api/screenings?id=${encodeURIComponent(id)}`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ status, ...additionalData }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Failed to update screening: ${response.statusText}`);
-    }
-    
-    return true;
-  } catch (error) {
-    console.error('Error updating screening status:', error);
-    return false;
-  }
+  // Count failed/rejected attempts
+  return attempts.failed < maxRetries;
 }
 
 /**
@@ -169,57 +108,25 @@ export async function createScreening(
   }
 }
 
-/**
- * Browser-compatible version of cleanupIncompleteScreenings
- */
-export async function cleanupIncompleteScreenings(
-  applicationId: string,
-  olderThanMinutes: number = 30
-): Promise<number> {
-  const screenings = await readScreeningsFromAPI();
-  const cutoffTime = new Date(Date.now() - olderThanMinutes * 60 * 1000);
-  
-  let cleanedCount = 0;
-  const updatedScreenings = screenings.map(screening => {
-    if (screening.applicationId === applicationId && 
-        (screening.status === 'screening_in_progress' || screening.status === 'screening_scheduled') &&
-        new Date(screening.createdAt || 0) < cutoffTime) {
-      cleanedCount++;
-      return {
-        ...screening,
-        status: 'rejected' as const,
-        completedAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        errorMessage: 'Cleaned up incomplete screening call'
-      };
-    }
-    return screening;
-  });
-  
-  if (cleanedCount > 0) {
-    await writeScreeningsToAPI(updatedScreenings);
-  }
-  
-  return cleanedCount;
-}
-
 /**
  * Browser-compatible version of handleInterruptedCall
  */
 export async function handleInterruptedCall(
-  screeningId: string, 
+  screeningId: string,
+  candidateId: string,
   reason: string = 'Call interrupted due to page navigation or component unmount'
 ): Promise<boolean> {
   try {
-    const response = await fetch(`/api/screenings?id=${encodeURIComponent(screeningId)}`, {
-      method: 'PUT',
+    const response = await fetch('/api/screening/status', {
+      method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ 
+        screeningId,
+        candidateId,
         status: 'rejected',
-        errorMessage: reason,
-        completedAt: new Date().toISOString()
+        errorMessage: reason
       }),
     });
     
@@ -231,33 +138,36 @@ export async function handleInterruptedCall(
 }
 
 /**
- * Browser-compatible version of cleanupStaleScreeningCalls
+ * Has the server fail the application's screenings left open for too long,
+ * e.g. by a closed tab, and returns its attempts afterwards.
+ * Null when the cleanup failed.
  */
-export async function cleanupStaleScreeningCalls(timeoutMinutes: number = 5): Promise<number> {
-  const screenings = await readScreeningsFromAPI();
-  const cutoffTime = new Date(Date.now() - timeoutMinutes * 60 * 1000);
-  
-  let cleanedCount = 0;
-  const updatedScreenings = screenings.map(screening => {
-    if ((screening.status === 'screening_in_progress' || screening.status === 'screening_scheduled') &&
-        new Date(screening.createdAt || 0) < cutoffTime) {
-      cleanedCount++;
-      return {
-        ...screening,
-        status: 'rejected' as const,
-        completedAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        errorMessage: 'Stale screening call cleaned up automatically'
-      };
+export async function cleanupStaleScreeningCalls(
+  applicationId: string,
+  candidateId: string
+): Promise<ScreeningAttempts | null> {
+  try {
+    const response = await fetch('/api/screening/attempts', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ applicationId, candidateId }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to clean up stale screenings: ${response.statusText}`);
     }
-    return screening;
-  });
-  
-  if (cleanedCount > 0) {
-    await writeScreeningsToAPI(updatedScreenings);
+
+    const data = await response.json();
+    if (data.expired > 0) {
+      console.log(`Cleaned up ${data.expired} stale screening calls`);
+    }
+    return data.attempts;
+  } catch (error) {
+    console.error('Error cleaning up stale screening calls:', error);
+    return null;
   }
-  
-  return cleanedCount;
 }
 
 /**
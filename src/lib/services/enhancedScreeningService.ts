@@ -7,6 +7,10 @@
 
 import { getCallData, waitForCallData, VapiCallData } from './vapiCallService';
 import { parseScreeningCallData, getComprehensiveCallData, ScreeningCallResult } from './screeningCallAnalysis';
+import { CriterionScore } from '../types';
+import { EvaluationCriteriaSet } from '../screening/screeningConfigUtils';
+import { DEFAULT_EVALUATION_CRITERIA, scoreScreening } from '../screening/scoringEngine';
+import { validateStructuredData } from '../screening/structuredData';
 
 // Enhanced analysis result with scoring and insights
 export interface EnhancedScreeningAnalysis {
@@ -18,6 +22,7 @@ export interface EnhancedScreeningAnalysis {
   keyStrengths: string[];
   areasForImprovement: string[];
   detailedAssessment?: string;
+  criteriaScores: CriterionScore[]; // Per-criterion ratings with the evidence behind each
 }
 
 // Call audio links with metadata
@@ -181,145 +186,69 @@ export async function analyzeScreeningCall(
 }
 
 /**
- * Generate enhanced analysis with scoring and insights from call data
- * This uses a heuristic approach to score different aspects of the call
+ * Generate enhanced analysis with scoring and insights from call data.
+ * Scores come from the role's evaluation criteria (see lib/screening/scoringEngine.ts).
  */
-export function generateEnhancedAnalysis(callData: VapiCallData): EnhancedScreeningAnalysis | null {
+export function generateEnhancedAnalysis(
+  callData: VapiCallData,
+  criteria: EvaluationCriteriaSet = DEFAULT_EVALUATION_CRITERIA
+): EnhancedScreeningAnalysis | null {
   if (!callData || !callData.transcript) {
     console.warn('Cannot generate enhanced analysis: No transcript available');
     return null;
   }
 
-  // Default analysis
-  const analysis: EnhancedScreeningAnalysis = {
-    overallRating: 7,
-    recommendation: 'Consider proceeding to next round',
-    communicationScore: 7,
-    technicalScore: 6,
-    experienceScore: 8,
-    keyStrengths: ['Relevant experience', 'Good communication'],
-    areasForImprovement: ['Deeper technical knowledge']
-  };
-
-  try {
-    // Extract insights from transcript and summary
-    const transcript = callData.transcript?.toLowerCase() || '';
-    const summary = callData.summary?.toLowerCase() || '';
-
-    // Analyze communication skills
-    if (transcript.length > 2000 || transcript.split(' ').length > 300) {
-      // Long, detailed responses suggest good communication
-      analysis.communicationScore += 1;
-    }
-    
-    if (transcript.includes('thank you') || transcript.includes('appreciate')) {
-      // Politeness indicators
-      analysis.communicationScore += 0.5;
-    }
-
-    // Analyze experience
-    const experienceTerms = ['years of experience', 'worked on', 'project', 'led', 'managed', 'developed', 'implemented'];
-    const experienceScore = experienceTerms.reduce((score, term) => {
-      return score + (transcript.includes(term) ? 1 : 0);
-    }, 0);
-    
-    analysis.experienceScore = Math.min(10, Math.max(1, 5 + experienceScore / 2));
-
-    // Analyze technical skills
-    const techTerms = ['framework', 'programming', 'code', 'algorithm', 'database', 'architecture', 'system', 'design'];
-    const techScore = techTerms.reduce((score, term) => {
-      return score + (transcript.includes(term) ? 1 : 0);
-    }, 0);
-    
-    analysis.technicalScore = Math.min(10, Math.max(1, 5 + techScore / 2));
-
-    // Calculate overall score as weighted average
-    analysis.overallRating = Math.round((
-      analysis.communicationScore * 0.3 + 
-      analysis.technicalScore * 0.3 + 
-      analysis.experienceScore * 0.4
-    ) * 10) / 10;
-
-    // Generate recommendation based on overall score
-    if (analysis.overallRating >= 8) {
-      analysis.recommendation = 'Strongly recommend proceeding to next round';
-    } else if (analysis.overallRating >= 6) {
-      analysis.recommendation = 'Consider proceeding to next round';
-    } else if (analysis.overallRating >= 4) {
-      analysis.recommendation = 'Consider for junior position or with reservations';
-    } else {
-      analysis.recommendation = 'Not recommended for this position';
-    }
-
-    // Extract strengths and areas for improvement
-    analysis.keyStrengths = extractInsightsFromText(transcript, summary, 'strengths');
-    analysis.areasForImprovement = extractInsightsFromText(transcript, summary, 'weaknesses');
+  const structured = callData.analysis?.structuredData
+    ? validateStructuredData(callData.analysis.structuredData)
+    : undefined;
+  const { overallScore, criteriaScores } = scoreScreening({
+    criteria,
+    transcript: callData.transcript,
+    structuredData: structured?.success ? structured.data : undefined
+  });
 
-    return analysis;
-  } catch (error) {
-    console.error('Error generating enhanced analysis:', error);
-    return analysis; // Return default analysis on error
+  // Average rating of the criteria whose key matches, falling back to the overall score
+  const ratingFor = (matches: (criterion: string) => boolean): number => {
+    const ratings = criteriaScores
+      .filter(score => score.rating !== null && matches(score.criterion))
+      .map(score => score.rating as number);
+    return ratings.length > 0
+      ? Math.round((ratings.reduce((total, rating) => total + rating, 0) / ratings.length) * 10) / 10
+      : overallScore;
+  };
+  const isExperience = (criterion: string) => /experience/i.test(criterion);
+  const isAvailability = (criterion: string) => /availab|schedule|shift|flexib/i.test(criterion);
+  const isCommunication = (criterion: string) => /communicat|soft|teamwork|customer/i.test(criterion);
+
+  // Generate recommendation based on overall score
+  let recommendation: string;
+  if (overallScore >= 8) {
+    recommendation = 'Strongly recommend proceeding to next round';
+  } else if (overallScore >= 6) {
+    recommendation = 'Consider proceeding to next round';
+  } else if (overallScore >= 4) {
+    recommendation = 'Consider with reservations';
+  } else {
+    recommendation = 'Not recommended for this position';
   }
-}
 
-// Helper function to extract insights from text
-function extractInsightsFromText(
-  transcript: string,
-  summary: string,
-  type: 'strengths' | 'weaknesses'
-): string[] {
-  const text = `${transcript} ${summary}`.toLowerCase();
-  const insights: string[] = [];
-  
-  // Common patterns for strengths and weaknesses
-  const strengthPatterns = [
-    'strong', 'excellent', 'impressive', 'good', 'great',
-    'proficient', 'skilled', 'experienced', 'expert'
-  ];
-  
-  const weaknessPatterns = [
-    'improve', 'lacks', 'limited', 'weakness', 'challenge',
-    'concern', 'issue', 'missing', 'needs development'
-  ];
-  
-  const patterns = type === 'strengths' ? strengthPatterns : weaknessPatterns;
-  
-  // Extract sentences containing patterns
-  const sentences = text.split(/[.!?]+/);
-  
-  for (const pattern of patterns) {
-    for (const sentence of sentences) {
-      if (sentence.includes(pattern)) {
-        // Clean up the sentence
-        const insight = sentence
-          .trim()
-          .replace(/^[,;\s]+/, '')
-          .replace(/[,;\s]+$/, '');
-        
-        // Only add non-empty, unique insights of reasonable length
-        if (insight && insight.length > 10 && insight.length < 100 && !insights.includes(insight)) {
-          insights.push(insight);
-        }
-        
-        // Limit to 5 insights
-        if (insights.length >= 5) break;
-      }
-    }
-    if (insights.length >= 5) break;
-  }
-  
-  // If we couldn't find enough insights, add some generic ones
-  if (insights.length === 0) {
-    if (type === 'strengths') {
-      insights.push('Relevant industry experience');
-      insights.push('Communicates clearly');
-    } else {
-      insights.push('Could provide more specific examples');
-      insights.push('Would benefit from more technical depth');
-    }
-  }
-  
-  return insights;
+  return {
+    overallRating: overallScore,
+    recommendation,
+    communicationScore: ratingFor(isCommunication),
+    // Role skills: whatever the role weighs beyond experience, availability and communication
+    technicalScore: ratingFor(criterion => !isExperience(criterion) && !isAvailability(criterion) && !isCommunication(criterion)),
+    experienceScore: ratingFor(isExperience),
+    keyStrengths: criteriaScores
+      .filter(score => score.rating !== null && score.rating >= 7)
+      .map(score => `${score.description || score.criterion}: ${score.evidence}`),
+    areasForImprovement: criteriaScores
+      .filter(score => score.rating === null || score.rating < 5)
+      .map(score => score.rating === null
+        ? `${score.description || score.criterion}: not covered in the call`
+        : `${score.description || score.criterion}: ${score.evidence}`),
+    criteriaScores
+  };
 }
 
 /**
@@ -417,7 +346,10 @@ function appendDownloadParam(url: string, filename: string): string {
 /**
  * Generates a comprehensive screening summary with detailed analysis and audio links
  */
-export async function getEnhancedScreeningSummary(callId: string): Promise<EnhancedScreeningSummary | null> {
+export async function getEnhancedScreeningSummary(
+  callId: string,
+  criteria?: EvaluationCriteriaSet
+): Promise<EnhancedScreeningSummary | null> {
   try {
     // Step 1: Get call data with full retry logic
     const callData = await retrieveCallDataWithRetry(callId, 5);
@@ -427,7 +359,7 @@ export async function getEnhancedScreeningSummary(callId: string): Promise<Enhan
     }
 
     // Step 2: Generate enhanced analysis
-    const analysis = generateEnhancedAnalysis(callData);
+    const analysis = generateEnhancedAnalysis(callData, criteria);
     
     if (!analysis) {
       return null;
@@ -439,8 +371,8 @@ export async function getEnhancedScreeningSummary(callId: string): Promise<Enhan
     // Step 4: Extract candidate info from call data
     const candidateInfo = extractCandidateInfo(callData);
 
-    // Step 5: Calculate job fit score (simplified algorithm)
-    const jobFitScore = calculateJobFitScore(analysis);
+    // Step 5: Job fit is the criteria-weighted score
+    const jobFitScore = analysis.overallRating;
 
     // Step 6: Generate recommendation
     const recommendToHire = analysis.overallRating >= 7.5;
@@ -516,18 +448,6 @@ function extractCandidateInfo(callData: VapiCallData): EnhancedScreeningSummary[
   };
 }
 
-/**
- * Calculate job fit score based on analysis
- */
-function calculateJobFitScore(analysis: EnhancedScreeningAnalysis): number {
-  // Simple weighted algorithm
-  return Math.round((
-    analysis.communicationScore * 0.25 +
-    analysis.technicalScore * 0.4 +
-    analysis.experienceScore * 0.35
-  ) * 10) / 10;
-}
-
 /**
  * Track call analytics data for future improvement
  */
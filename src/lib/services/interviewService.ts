@@ -0,0 +1,574 @@
+/**
+ * Interview scheduling (server-side only)
+ *
+ * Recruiters book interviews for an application once it has been screened.
+ * Booking, moving and cancelling an interview sends the candidate an updated
+ * calendar invite, and interviewer scorecards roll up into the application
+ * timeline.
+ */
+
+import crypto from 'crypto';
+import {
+  Interview,
+  InterviewFormat,
+  InterviewOutcome,
+  InterviewStatus,
+  Interviewer,
+  JobApplication
+} from '../types';
+import { getStorageDriver } from '../data/storage';
+import { getAppBaseUrl } from '../config/constants';
+import { getApplicationById, updateApplicationStatus } from './applicationService';
+import { getCandidateById } from './candidateService';
+import { sendCandidateNotification } from './notificationService';
+import { getPortalLink } from './candidatePortalService';
+import { getNotificationTemplates, getSmsTemplates } from '../notifications/statusNotifications';
+import { getJobById } from '../servers/jobs-server';
+import { isLocationInScope } from './locationService';
+import { WORKFLOW_ACTORS, WorkflowActor, isValidStatusTransition } from '../workflow/workflowUtils';
+import { getWorkflowForApplication } from './workflowService';
+import { INTERVIEW_FORMAT_LABELS, buildInterviewInvite } from '../interviews/icalendar';
+import {
+  RECOMMENDATION_LABELS,
+  ScorecardInput,
+  buildScorecard,
+  describeScorecards,
+  validateScorecard
+} from '../interviews/scorecards';
+import { HttpError } from '../http/httpError';
+
+const COLLECTION = 'interviews' as const;
+
+const DEFAULT_DURATION_MINUTES = 45;
+
+export const INTERVIEW_FORMATS: InterviewFormat[] = ['in_person', 'phone', 'video'];
+export const INTERVIEW_OUTCOMES: InterviewOutcome[] = ['advance', 'hold', 'reject'];
+
+const OUTCOME_LABELS: Record<InterviewOutcome, string> = {
+  advance: 'advance',
+  hold: 'on hold',
+  reject: 'do not advance'
+};
+
+// Applications in these statuses can no longer be interviewed
+const CLOSED_STATUSES = ['hired', 'rejected', 'withdrawn'];
+
+// The invitation itself uses the admin-configured interviewInvitation template.
+// Placeholders: {{candidateName}}, {{position}}, {{scheduledTime}}, {{format}}, {{location}}, {{interviewer}}, {{inviteUrl}}
+const UPDATED_TEMPLATE = `Hi {{candidateName}},
+
+Your interview for the {{position}} position has changed.
+
+When: {{scheduledTime}}
+Format: {{format}}
+Where: {{location}}
+Interviewer: {{interviewer}}
+
+Updated calendar invite: {{inviteUrl}}`;
+
+const CANCELLED_TEMPLATE = `Hi {{candidateName}},
+
+Your interview for the {{position}} position on {{scheduledTime}} has been cancelled. We'll be in touch about next steps.
+
+Calendar update: {{inviteUrl}}`;
+
+const UPDATED_SMS_TEMPLATE = 'Your interview for the {{position}} position has changed: {{scheduledTime}} ({{format}}, {{location}}). Reply RESCHEDULE if that time does not work.';
+
+const CANCELLED_SMS_TEMPLATE = 'Your interview for the {{position}} position on {{scheduledTime}} has been cancelled. We will be in touch about next steps.';
+
+export interface InterviewFilters {
+  applicationId?: string;
+  candidateId?: string;
+  jobId?: string;
+  interviewer?: string; // Name or email
+  status?: InterviewStatus;
+  from?: string; // Interviews starting at or after this time
+  to?: string; // Interviews starting before this time
+}
+
+export interface ScheduleInterviewInput {
+  applicationId: string;
+  interviewer: Interviewer;
+  format: InterviewFormat;
+  location?: string;
+  startTime: string;
+  endTime?: string;
+  durationMinutes?: number; // Used when endTime is left out
+  notes?: string;
+}
+
+export type InterviewChanges = Partial<Pick<Interview, 'interviewer' | 'format' | 'location' | 'startTime' | 'endTime' | 'notes'>>;
+
+export interface InterviewInvite {
+  filename: string;
+  method: 'REQUEST' | 'CANCEL';
+  content: string;
+}
+
+export function getInterviewById(id: string): Interview | null {
+  return getStorageDriver().findById<Interview>(COLLECTION, id);
+}
+
+// Null when the interview doesn't exist or is for a job at a location outside `scope` (see getLocationScope)
+export function findInterviewInScope(id: string, scope: string[] | null): Interview | null {
+  const interview = getInterviewById(id);
+  if (!interview || !isLocationInScope(getJobById(interview.jobId)?.locationId, scope)) {
+    return null;
+  }
+  return interview;
+}
+
+// Soonest first. `scope` limits the list to jobs at the user's locations; null is all of them.
+export function listInterviews(filters: InterviewFilters = {}, scope: string[] | null = null): Interview[] {
+  const interviewer = filters.interviewer?.toLowerCase();
+  return getStorageDriver()
+    .findAll<Interview>(COLLECTION)
+    .filter(interview =>
+      (!scope || isLocationInScope(getJobById(interview.jobId)?.locationId, scope)) &&
+      (!filters.applicationId || interview.applicationId === filters.applicationId) &&
+      (!filters.candidateId || interview.candidateId === filters.candidateId) &&
+      (!filters.jobId || interview.jobId === filters.jobId) &&
+      (!filters.status || interview.status === filters.status) &&
+      (!interviewer ||
+        interview.interviewer.name.toLowerCase() === interviewer ||
+        interview.interviewer.email?.toLowerCase() === interviewer) &&
+      (!filters.from || interview.startTime >= new Date(filters.from).toISOString()) &&
+      (!filters.to || interview.startTime < new Date(filters.to).toISOString())
+    )
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+// The interview as API responses send it, without the secret from the candidate's invite link
+export function withoutInviteToken(interview: Interview): Interview {
+  const { inviteToken, ...rest } = interview;
+  return rest;
+}
+
+/**
+ * Null unless `token` is the interview's invite token. The invite link in the
+ * candidate's emails carries it, so the invite opens without signing in.
+ */
+export function findInterviewByInviteToken(id: string, token: string | null): Interview | null {
+  const interview = getInterviewById(id);
+  if (!interview?.inviteToken || !token) {
+    return null;
+  }
+  const expected = Buffer.from(interview.inviteToken);
+  const provided = Buffer.from(token);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected) ? interview : null;
+}
+
+function requireInterview(id: string): Interview {
+  const interview = getInterviewById(id);
+  if (!interview) {
+    throw new HttpError('Interview not found', 404);
+  }
+  return interview;
+}
+
+function requireScheduled(interview: Interview, action: string): void {
+  if (interview.status !== 'scheduled') {
+    throw new HttpError(`A ${interview.status.replace(/_/g, ' ')} interview cannot be ${action}`, 409);
+  }
+}
+
+export function formatInterviewTime(startTime: string): string {
+  return new Date(startTime).toLocaleString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+}
+
+function describeInterview(interview: Pick<Interview, 'interviewer' | 'format' | 'startTime'>): string {
+  return `${INTERVIEW_FORMAT_LABELS[interview.format].toLowerCase()} interview with ${interview.interviewer.name} on ${formatInterviewTime(interview.startTime)}`;
+}
+
+function normalizeInterviewer(interviewer: any): Interviewer {
+  const name = typeof interviewer?.name === 'string' ? interviewer.name.trim() : '';
+  if (!name) {
+    throw new HttpError('Interviewer name is required', 400);
+  }
+  const email = typeof interviewer.email === 'string' ? interviewer.email.trim() : '';
+  return email ? { name, email } : { name };
+}
+
+function isSameInterviewer(a: Interviewer, b: Interviewer): boolean {
+  if (a.email && b.email) {
+    return a.email.toLowerCase() === b.email.toLowerCase();
+  }
+  return a.name.toLowerCase() === b.name.toLowerCase();
+}
+
+// Start and end as ISO strings; the start must not be in the past
+function resolveTimes(startTime: string, endTime: string | undefined, durationMinutes: number | undefined, now: Date) {
+  const start = new Date(startTime);
+  if (!startTime || isNaN(start.getTime())) {
+    throw new HttpError('A valid start time is required', 400);
+  }
+  if (start.getTime() < now.getTime()) {
+    throw new HttpError('Interviews cannot be scheduled in the past', 400);
+  }
+
+  const end = endTime
+    ? new Date(endTime)
+    : new Date(start.getTime() + (durationMinutes || DEFAULT_DURATION_MINUTES) * 60 * 1000);
+  if (isNaN(end.getTime()) || end.getTime() <= start.getTime()) {
+    throw new HttpError('The interview must end after it starts', 400);
+  }
+
+  return { startTime: start.toISOString(), endTime: end.toISOString() };
+}
+
+// Neither the interviewer nor the candidate can be in two interviews at once
+function assertNoOverlap(interview: Pick<Interview, 'id' | 'candidateId' | 'interviewer' | 'startTime' | 'endTime'>): void {
+  const clash = listInterviews({ status: 'scheduled' }).find(other =>
+    other.id !== interview.id &&
+    other.startTime < interview.endTime &&
+    interview.startTime < other.endTime &&
+    (other.candidateId === interview.candidateId || isSameInterviewer(other.interviewer, interview.interviewer))
+  );
+
+  if (clash) {
+    const who = clash.candidateId === interview.candidateId ? 'The candidate' : clash.interviewer.name;
+    throw new HttpError(`${who} already has an interview at ${formatInterviewTime(clash.startTime)}`, 409);
+  }
+}
+
+function createInviteToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+// Interviews booked before invite links carried a token get one the next time they're emailed
+function getInviteUrl(interview: Interview): string {
+  let token = interview.inviteToken;
+  if (!token) {
+    // The interview passed in may be a stale copy; another caller may have issued one already
+    token = getStorageDriver().update<Interview>(COLLECTION, interview.id, current =>
+      current.inviteToken ? current : { ...current, inviteToken: createInviteToken() }
+    )?.inviteToken;
+  }
+  return `${getAppBaseUrl()}/api/interviews/${interview.id}/invite?token=${encodeURIComponent(token || '')}`;
+}
+
+function buildInvite(interview: Interview, now: Date = new Date()): InterviewInvite {
+  const candidate = getCandidateById(interview.candidateId);
+  const job = getJobById(interview.jobId);
+
+  return {
+    filename: `${interview.id}.ics`,
+    method: interview.status === 'cancelled' ? 'CANCEL' : 'REQUEST',
+    content: buildInterviewInvite(interview, {
+      candidateName: candidate ? `${candidate.firstName} ${candidate.lastName}`.trim() : 'Candidate',
+      candidateEmail: candidate?.email,
+      position: job?.title || 'Open position'
+    }, now)
+  };
+}
+
+// Every interview email carries the calendar invite, so the event in the candidate's calendar stays current
+function notifyCandidate(interview: Interview, type: string, subject: string, templates: { email: string; sms?: string }): void {
+  const candidate = getCandidateById(interview.candidateId);
+  const job = getJobById(interview.jobId);
+  const application = getApplicationById(interview.applicationId);
+  const invite = buildInvite(interview);
+
+  sendCandidateNotification(
+    candidate,
+    { applicationId: interview.applicationId, candidateId: interview.candidateId, type, subject },
+    templates,
+    {
+      candidateName: candidate ? `${candidate.firstName} ${candidate.lastName}`.trim() : 'there',
+      position: job?.title || 'open',
+      scheduledTime: formatInterviewTime(interview.startTime),
+      format: INTERVIEW_FORMAT_LABELS[interview.format],
+      location: interview.location || 'Details to follow',
+      interviewer: interview.interviewer.name,
+      inviteUrl: getInviteUrl(interview),
+      interviewLink: getInviteUrl(interview),
+      portalLink: application ? getPortalLink(application) : ''
+    },
+    [{ filename: invite.filename, contentType: `text/calendar; method=${invite.method}`, content: invite.content }]
+  );
+}
+
+// Changes are recorded under the role that made them; anything else (a staff member's name) counts as a recruiter
+function asWorkflowActor(performedBy: string): WorkflowActor {
+  return WORKFLOW_ACTORS.includes(performedBy as WorkflowActor) ? performedBy as WorkflowActor : 'recruiter';
+}
+
+// Timeline note on the application, moving it to `status` when the workflow lets `performedBy` make that move
+function recordOnApplication(
+  applicationId: string,
+  notes: string,
+  performedBy: string,
+  status?: JobApplication['status'],
+  step?: JobApplication['currentStep']
+): void {
+  const application = getApplicationById(applicationId);
+  if (!application) {
+    return;
+  }
+
+  const moves = !!status && status !== application.status &&
+    isValidStatusTransition(application.status, status, asWorkflowActor(performedBy), getWorkflowForApplication(application));
+  updateApplicationStatus(
+    application.id,
+    moves ? status! : application.status,
+    moves ? step : undefined,
+    notes,
+    performedBy
+  );
+}
+
+/**
+ * Book an interview for an application. Moves the application to
+ * interview_scheduled and sends the candidate an invite.
+ */
+export function scheduleInterview(
+  input: ScheduleInterviewInput,
+  scheduledBy: string = 'recruiter',
+  now: Date = new Date()
+): Interview {
+  const application = getApplicationById(input.applicationId);
+  if (!application) {
+    throw new HttpError('Application not found', 404);
+  }
+  if (CLOSED_STATUSES.includes(application.status)) {
+    throw new HttpError(`Cannot schedule an interview for a ${application.status} application`, 409);
+  }
+  if (!getCandidateById(application.candidateId)) {
+    throw new HttpError('Candidate for this application not found', 404);
+  }
+  if (!INTERVIEW_FORMATS.includes(input.format)) {
+    throw new HttpError(`Format must be one of ${INTERVIEW_FORMATS.join(', ')}`, 400);
+  }
+
+  const timestamp = now.toISOString();
+  const interview: Interview = {
+    id: `interview-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    applicationId: application.id,
+    candidateId: application.candidateId,
+    jobId: application.jobId,
+    interviewer: normalizeInterviewer(input.interviewer),
+    format: input.format,
+    location: input.location?.trim() || undefined,
+    ...resolveTimes(input.startTime, input.endTime, input.durationMinutes, now),
+    status: 'scheduled',
+    notes: input.notes?.trim() || undefined,
+    scorecards: [],
+    sequence: 0,
+    inviteToken: createInviteToken(),
+    scheduledBy,
+    createdAt: timestamp,
+    updatedAt: timestamp
+  };
+
+  assertNoOverlap(interview);
+  const created = getStorageDriver().insert(COLLECTION, interview);
+
+  recordOnApplication(application.id, `Booked ${describeInterview(created)}`, scheduledBy, 'interview_scheduled', 'interview_scheduled');
+  notifyCandidate(created, 'interview_invitation', 'Your interview is booked', {
+    email: getNotificationTemplates().interviewInvitation,
+    sms: getSmsTemplates().interviewInvitation
+  });
+  return created;
+}
+
+/**
+ * Change a scheduled interview. Moving it, or changing who, where or how,
+ * sends the candidate an updated invite.
+ */
+export function updateInterview(
+  id: string,
+  changes: InterviewChanges,
+  updatedBy: string = 'recruiter',
+  now: Date = new Date()
+): Interview {
+  const interview = requireInterview(id);
+  requireScheduled(interview, 'changed');
+
+  if (changes.format !== undefined && !INTERVIEW_FORMATS.includes(changes.format)) {
+    throw new HttpError(`Format must be one of ${INTERVIEW_FORMATS.join(', ')}`, 400);
+  }
+
+  const timeChanged = changes.startTime !== undefined || changes.endTime !== undefined;
+  // Moving the start keeps the interview's length unless a new end is given
+  const durationMinutes = (new Date(interview.endTime).getTime() - new Date(interview.startTime).getTime()) / (60 * 1000);
+  const times = timeChanged
+    ? resolveTimes(changes.startTime || interview.startTime, changes.endTime, durationMinutes, now)
+    : { startTime: interview.startTime, endTime: interview.endTime };
+
+  const next: Interview = {
+    ...interview,
+    ...times,
+    interviewer: changes.interviewer !== undefined ? normalizeInterviewer(changes.interviewer) : interview.interviewer,
+    format: changes.format ?? interview.format,
+    location: changes.location !== undefined ? changes.location.trim() || undefined : interview.location,
+    notes: changes.notes !== undefined ? changes.notes.trim() || undefined : interview.notes
+  };
+
+  const moved = next.startTime !== interview.startTime || next.endTime !== interview.endTime;
+  const inviteChanged = moved ||
+    next.format !== interview.format ||
+    next.location !== interview.location ||
+    next.interviewer.name !== interview.interviewer.name ||
+    next.interviewer.email !== interview.interviewer.email;
+
+  if (inviteChanged) {
+    assertNoOverlap(next);
+  }
+
+  const updated = getStorageDriver().update<Interview>(COLLECTION, id, current => ({
+    ...current,
+    ...next,
+    sequence: inviteChanged ? current.sequence + 1 : current.sequence,
+    updatedAt: now.toISOString()
+  }))!;
+
+  if (inviteChanged) {
+    recordOnApplication(
+      updated.applicationId,
+      `${moved ? 'Interview moved' : 'Interview details changed'}: ${describeInterview(updated)}`,
+      updatedBy
+    );
+    notifyCandidate(updated, 'interview_updated', 'Your interview has changed', { email: UPDATED_TEMPLATE, sms: UPDATED_SMS_TEMPLATE });
+  }
+
+  return updated;
+}
+
+/**
+ * Cancel a scheduled interview and send the candidate a calendar cancellation.
+ * An application left without a scheduled interview goes back to under_review.
+ */
+export function cancelInterview(
+  id: string,
+  reason?: string,
+  cancelledBy: string = 'recruiter',
+  now: Date = new Date()
+): Interview {
+  const interview = requireInterview(id);
+  requireScheduled(interview, 'cancelled');
+
+  const updated = getStorageDriver().update<Interview>(COLLECTION, id, current => ({
+    ...current,
+    status: 'cancelled',
+    sequence: current.sequence + 1,
+    cancelledAt: now.toISOString(),
+    cancellationReason: reason?.trim() || undefined,
+    updatedAt: now.toISOString()
+  }))!;
+
+  const application = getApplicationById(updated.applicationId);
+  if (application) {
+    const stillScheduled = listInterviews({ applicationId: application.id, status: 'scheduled' }).length > 0;
+    updateApplicationStatus(
+      application.id,
+      application.status === 'interview_scheduled' && !stillScheduled ? 'under_review' : application.status,
+      application.status === 'interview_scheduled' && !stillScheduled ? 'recruiter_review' : undefined,
+      `Cancelled ${describeInterview(updated)}${updated.cancellationReason ? `: ${updated.cancellationReason}` : ''}`,
+      cancelledBy
+    );
+  }
+
+  notifyCandidate(updated, 'interview_cancelled', 'Your interview has been cancelled', { email: CANCELLED_TEMPLATE, sms: CANCELLED_SMS_TEMPLATE });
+  return updated;
+}
+
+// The candidate didn't turn up; the application stays where it is for the recruiter to decide
+export function markInterviewNoShow(id: string, markedBy: string = 'recruiter', now: Date = new Date()): Interview {
+  const interview = requireInterview(id);
+  requireScheduled(interview, 'marked as a no-show');
+
+  const updated = getStorageDriver().update<Interview>(COLLECTION, id, current => ({
+    ...current,
+    status: 'no_show',
+    updatedAt: now.toISOString()
+  }))!;
+
+  recordOnApplication(updated.applicationId, `Candidate did not attend the ${describeInterview(updated)}`, markedBy);
+  return updated;
+}
+
+/**
+ * Record how the interview went. Moves the application to interview_completed
+ * with the scorecards rolled up into the timeline note.
+ */
+export function completeInterview(
+  id: string,
+  outcome: InterviewOutcome,
+  notes?: string,
+  completedBy: string = 'recruiter',
+  now: Date = new Date()
+): Interview {
+  if (!INTERVIEW_OUTCOMES.includes(outcome)) {
+    throw new HttpError(`Outcome must be one of ${INTERVIEW_OUTCOMES.join(', ')}`, 400);
+  }
+
+  const interview = requireInterview(id);
+  requireScheduled(interview, 'completed');
+
+  const updated = getStorageDriver().update<Interview>(COLLECTION, id, current => ({
+    ...current,
+    status: 'completed',
+    outcome,
+    notes: notes?.trim() || current.notes,
+    completedAt: now.toISOString(),
+    updatedAt: now.toISOString()
+  }))!;
+
+  recordOnApplication(
+    updated.applicationId,
+    `Interview with ${updated.interviewer.name} completed, outcome: ${OUTCOME_LABELS[outcome]}. ${describeScorecards(updated.scorecards)}`,
+    completedBy,
+    'interview_completed',
+    'interview_completed'
+  );
+  return updated;
+}
+
+/**
+ * Add an interviewer's scorecard. A second scorecard from the same interviewer
+ * replaces their first. Each submission adds the running roll-up to the timeline.
+ */
+export function submitScorecard(
+  id: string,
+  input: ScorecardInput,
+  submittedBy: string = 'recruiter',
+  now: Date = new Date()
+): Interview {
+  const errors = validateScorecard(input);
+  if (errors.length > 0) {
+    throw new HttpError(`Invalid scorecard: ${errors.join('; ')}`, 400);
+  }
+
+  const interview = requireInterview(id);
+  if (interview.status === 'cancelled') {
+    throw new HttpError('Scorecards cannot be added to a cancelled interview', 409);
+  }
+
+  const scorecard = buildScorecard(input, now);
+  const updated = getStorageDriver().update<Interview>(COLLECTION, id, current => ({
+    ...current,
+    scorecards: [
+      ...current.scorecards.filter(existing => existing.interviewer.toLowerCase() !== scorecard.interviewer.toLowerCase()),
+      scorecard
+    ],
+    updatedAt: now.toISOString()
+  }))!;
+
+  recordOnApplication(
+    updated.applicationId,
+    `Scorecard from ${scorecard.interviewer}: ${scorecard.overallScore}/5, ${RECOMMENDATION_LABELS[scorecard.recommendation].toLowerCase()}. Interview feedback so far: ${describeScorecards(updated.scorecards)}`,
+    submittedBy
+  );
+  return updated;
+}
+
+export function getInterviewInvite(interview: Interview, now: Date = new Date()): InterviewInvite {
+  return buildInvite(interview, now);
+}
@@ -1,5 +1,7 @@
 import { Job } from '../types';
+import { VapiSettingsOverride } from '../types/vapi';
 import { jobRepository } from '../data/repositories/job-repository';
+import { UpdateOptions } from '../data/storage';
 
 export class JobService {
   async getAllJobs(): Promise<Job[]> {
@@ -28,6 +30,8 @@ export class JobService {
     weekendRequired: boolean;
     hourlyRate: string;
     status?: string;
+    locationId?: string;
+    vapiOverrides?: VapiSettingsOverride;
   }): Promise<Job> {
     const newJobData = {
       ...jobData,
@@ -37,8 +41,8 @@ export class JobService {
     return jobRepository.create(newJobData);
   }
 
-  async updateJob(id: string, updates: Partial<Job>): Promise<Job | null> {
-    return jobRepository.update(id, updates);
+  async updateJob(id: string, updates: Partial<Job>, options?: UpdateOptions): Promise<Job | null> {
+    return jobRepository.update(id, updates, options);
   }
 
   async activateJob(id: string): Promise<Job | null> {
@@ -0,0 +1,231 @@
+/**
+ * Restaurant locations (server-side only)
+ *
+ * One install can serve several restaurants. Jobs belong to a location, which
+ * sets the name candidates hear in the screening call and, optionally, its own
+ * screening hours in its own time zone. Recruiters can be limited to some
+ * locations; admins always see all of them.
+ */
+
+import { JobApplication, Location, LocationAddress, HiringManager, User } from '../types';
+import { getStorageDriver } from '../data/storage';
+import { APP_CONFIG } from '../config/constants';
+import { getJobById } from '../servers/jobs-server';
+import { getApplicationById, getApplicationsByCandidateId, moveApplicationToJob, setScreeningBooking } from './applicationService';
+import { isValidTimeZone, validateAvailabilityWindows } from '../screening/screeningSlots';
+import { HttpError } from '../http/httpError';
+
+const COLLECTION = 'locations' as const;
+
+// Applications that are finished can't move
+const CLOSED_STATUSES = ['hired', 'rejected', 'withdrawn'];
+
+export type LocationInput = Pick<Location, 'name' | 'address' | 'timezone'> &
+  Partial<Pick<Location, 'hiringManager' | 'screeningHours' | 'active'>>;
+
+export function getLocationById(id: string): Location | null {
+  return getStorageDriver().findById<Location>(COLLECTION, id);
+}
+
+export function listLocations(): Location[] {
+  return getStorageDriver()
+    .findAll<Location>(COLLECTION)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Jobs without a location, or with one that was removed, fall back to the company
+export function getLocationName(locationId?: string): string {
+  return (locationId && getLocationById(locationId)?.name) || APP_CONFIG.COMPANY_NAME;
+}
+
+export function getLocationForJob(jobId: string): Location | null {
+  const locationId = getJobById(jobId)?.locationId;
+  return locationId ? getLocationById(locationId) : null;
+}
+
+/**
+ * Location ids the user may see, or null when they aren't limited. Admins and
+ * recruiters without assigned locations see everything. Takes the signed-in
+ * user (see requireSessionUser): without one there is nobody to scope for.
+ */
+export function getLocationScope(user: Pick<User, 'role' | 'locationIds'>): string[] | null {
+  if (user.role === 'admin' || !user.locationIds?.length) {
+    return null;
+  }
+  return user.locationIds;
+}
+
+// Jobs without a location stay visible to everyone so nothing goes missing
+export function isLocationInScope(locationId: string | undefined, scope: string[] | null): boolean {
+  return !scope || !locationId || scope.includes(locationId);
+}
+
+function validateText(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(`${field} is required`, 400);
+  }
+  return value.trim();
+}
+
+function validateAddress(address: any): LocationAddress {
+  if (!address || typeof address !== 'object') {
+    throw new HttpError('Address is required', 400);
+  }
+  return {
+    street: validateText(address.street, 'Street'),
+    city: validateText(address.city, 'City'),
+    state: validateText(address.state, 'State'),
+    postalCode: validateText(address.postalCode, 'Postal code')
+  };
+}
+
+function validateTimeZone(timezone: unknown): string {
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    throw new HttpError('Time zone must be an IANA zone such as America/Chicago', 400);
+  }
+  return timezone;
+}
+
+// Leaving the hiring manager's name empty removes them
+function validateHiringManager(manager: any): HiringManager | undefined {
+  if (!manager || typeof manager !== 'object' || !String(manager.name || '').trim()) {
+    return undefined;
+  }
+  return {
+    name: String(manager.name).trim(),
+    email: String(manager.email || '').trim() || undefined,
+    phone: String(manager.phone || '').trim() || undefined
+  };
+}
+
+// An empty list means the global availability windows apply
+function validateScreeningHours(hours: unknown): Location['screeningHours'] {
+  if (hours === undefined || hours === null) {
+    return undefined;
+  }
+  const errors = validateAvailabilityWindows(hours, 'screeningHours');
+  if (errors.length > 0) {
+    throw new HttpError(errors.join('; '), 400);
+  }
+  return (hours as Location['screeningHours'])!.length > 0 ? hours as Location['screeningHours'] : undefined;
+}
+
+function assertUniqueName(name: string, exceptId?: string): void {
+  const taken = listLocations().some(location =>
+    location.id !== exceptId && location.name.toLowerCase() === name.toLowerCase()
+  );
+  if (taken) {
+    throw new HttpError(`A location named ${name} already exists`, 409);
+  }
+}
+
+export function createLocation(input: LocationInput): Location {
+  const name = validateText(input.name, 'Name');
+  assertUniqueName(name);
+
+  const now = new Date().toISOString();
+  return getStorageDriver().insert<Location>(COLLECTION, {
+    id: `location-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    address: validateAddress(input.address),
+    timezone: validateTimeZone(input.timezone),
+    hiringManager: validateHiringManager(input.hiringManager),
+    screeningHours: validateScreeningHours(input.screeningHours),
+    active: input.active === undefined ? true : !!input.active,
+    createdAt: now,
+    updatedAt: now
+  });
+}
+
+export function updateLocation(id: string, changes: Partial<LocationInput>): Location {
+  if (!getLocationById(id)) {
+    throw new HttpError('Location not found', 404);
+  }
+
+  const updates: Partial<Location> = {};
+  if (changes.name !== undefined) {
+    updates.name = validateText(changes.name, 'Name');
+    assertUniqueName(updates.name, id);
+  }
+  if (changes.address !== undefined) updates.address = validateAddress(changes.address);
+  if (changes.timezone !== undefined) updates.timezone = validateTimeZone(changes.timezone);
+  if (changes.hiringManager !== undefined) updates.hiringManager = validateHiringManager(changes.hiringManager);
+  if (changes.screeningHours !== undefined) updates.screeningHours = validateScreeningHours(changes.screeningHours);
+  if (changes.active !== undefined) updates.active = !!changes.active;
+
+  const updated = getStorageDriver().update<Location>(COLLECTION, id, current => ({
+    ...current,
+    ...updates,
+    updatedAt: new Date().toISOString()
+  }));
+  if (!updated) {
+    throw new HttpError('Location not found', 404);
+  }
+  return updated;
+}
+
+// Jobs may only be put at a location that exists and is open
+export function assertAssignableLocation(locationId: unknown): void {
+  if (locationId === undefined || locationId === null || locationId === '') {
+    return;
+  }
+  const location = typeof locationId === 'string' ? getLocationById(locationId) : null;
+  if (!location) {
+    throw new HttpError('Location not found', 400);
+  }
+  if (!location.active) {
+    throw new HttpError(`${location.name} is inactive and can't take new jobs`, 409);
+  }
+}
+
+/**
+ * Move an application to a job at another location, keeping its status and
+ * history. A booked screening is cancelled because the new location may screen
+ * at different hours; the candidate books again from their portal.
+ */
+export function transferApplication(
+  applicationId: string,
+  jobId: string,
+  transferredBy: string,
+  scope: string[] | null = null
+): JobApplication {
+  const application = getApplicationById(applicationId);
+  if (!application || !isLocationInScope(getJobById(application.jobId)?.locationId, scope)) {
+    throw new HttpError('Application not found', 404);
+  }
+  if (CLOSED_STATUSES.includes(application.status)) {
+    throw new HttpError(`A ${application.status} application can't be transferred`, 409);
+  }
+  if (application.jobId === jobId) {
+    throw new HttpError('The application is already for this job', 400);
+  }
+
+  const job = getJobById(jobId);
+  if (!job) {
+    throw new HttpError('Job not found', 404);
+  }
+  if (job.status !== 'active') {
+    throw new HttpError(`${job.title} is not open for applications`, 409);
+  }
+  const duplicate = getApplicationsByCandidateId(application.candidateId)
+    .some(other => other.id !== application.id && other.jobId === jobId && !CLOSED_STATUSES.includes(other.status));
+  if (duplicate) {
+    throw new HttpError('The candidate already has an open application for this job', 409);
+  }
+
+  const from = getJobById(application.jobId);
+  const fromLabel = `${from?.title || 'Unknown job'} (${getLocationName(from?.locationId)})`;
+  const toLabel = `${job.title} (${getLocationName(job.locationId)})`;
+
+  let notes = `Transferred from ${fromLabel} to ${toLabel}`;
+  if (application.screeningBooking?.status === 'booked') {
+    setScreeningBooking(application.id, { ...application.screeningBooking, status: 'cancelled' });
+    notes += '; the booked screening was cancelled';
+  }
+
+  const moved = moveApplicationToJob(application.id, jobId, notes, transferredBy);
+  if (!moved) {
+    throw new HttpError('Application not found', 404);
+  }
+  return moved;
+}
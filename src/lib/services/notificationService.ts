@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { Candidate, NotificationChannel } from '../types';
+import { getStorageDriver } from '../data/storage';
+import { populateTemplate } from '../utils/templateUtils';
+import { toE164 } from '../utils/phoneUtils';
+import { enqueueJob } from '../queue/jobQueue';
+import { DeliverNotificationJobPayload, recordQueuedDelivery } from '../notifications/delivery';
+import { EmailAttachment } from '../notifications/transports';
+
+const NOTIFICATIONS_LOG = 'notifications';
+
+// A message sent to a candidate. Sending records it in the notifications log and
+// queues its delivery; the job worker sends it (see notifications/delivery).
+export interface CandidateNotification {
+  id: string;
+  applicationId: string;
+  candidateId: string;
+  channel: NotificationChannel;
+  to: string; // Email address, or E.164 phone number for SMS
+  type: string; // What prompted it, e.g. 'screening_booking_confirmation'
+  subject: string; // For SMS, only a label in the logs
+  body: string;
+  createdAt: string;
+}
+
+type NotificationDetails = Omit<CandidateNotification, 'id' | 'channel' | 'body' | 'createdAt'> & {
+  channel?: NotificationChannel; // Defaults to email
+};
+
+export function sendNotification(
+  notification: NotificationDetails,
+  template: string,
+  data: Record<string, string>,
+  attachments?: EmailAttachment[]
+): CandidateNotification {
+  const record: CandidateNotification = {
+    id: crypto.randomUUID(),
+    ...notification,
+    channel: notification.channel || 'email',
+    body: populateTemplate(template, data),
+    createdAt: new Date().toISOString()
+  };
+
+  getStorageDriver().appendLog<CandidateNotification>(NOTIFICATIONS_LOG, record);
+  recordQueuedDelivery(record);
+  enqueueJob<DeliverNotificationJobPayload>(
+    'deliver-notification',
+    { notification: record, attachments: record.channel === 'email' ? attachments : undefined },
+    { dedupeKey: `notification:${record.id}` }
+  );
+  console.log(`[NOTIFY] ${record.channel} ${record.type} to ${record.to || 'candidate without an address'}: ${record.subject}`);
+  return record;
+}
+
+// The number to text, or null when the candidate has none we can use or replied STOP
+export function getSmsNumber(candidate: Candidate | null): string | null {
+  if (!candidate || candidate.smsOptOutAt) {
+    return null;
+  }
+  return toE164(candidate.phone);
+}
+
+/**
+ * Emails the candidate and, when there is an SMS variant and a number to text,
+ * sends it as a text too.
+ */
+export function sendCandidateNotification(
+  candidate: Candidate | null,
+  notification: Omit<NotificationDetails, 'to' | 'channel'>,
+  templates: { email: string; sms?: string },
+  data: Record<string, string>,
+  attachments?: EmailAttachment[]
+): CandidateNotification[] {
+  const sent = [sendNotification({ ...notification, to: candidate?.email || '' }, templates.email, data, attachments)];
+
+  const phone = getSmsNumber(candidate);
+  if (phone && templates.sms?.trim()) {
+    sent.push(sendNotification({ ...notification, channel: 'sms', to: phone }, templates.sms, data));
+  }
+  return sent;
+}
+
+export function getNotifications(applicationId?: string): CandidateNotification[] {
+  const notifications = getStorageDriver().readLog<CandidateNotification>(NOTIFICATIONS_LOG);
+  return applicationId ? notifications.filter(n => n.applicationId === applicationId) : notifications;
+}
@@ -1,5 +1,6 @@
 import { ScreeningCall, ApplicationStatus, ScreeningSummary } from '../types';
 import { screeningRepository } from '../data/repositories/screening-repository';
+import { UpdateOptions } from '../data/storage';
 
 export class ScreeningService {
   async getAllScreenings(): Promise<ScreeningCall[]> {
@@ -78,8 +79,12 @@ export class ScreeningService {
     });
   }
 
-  async updateScreening(id: string, updates: Partial<ScreeningCall>): Promise<ScreeningCall | null> {
-    return screeningRepository.update(id, updates);
+  async updateScreening(
+    id: string,
+    updates: Partial<ScreeningCall>,
+    options?: UpdateOptions
+  ): Promise<ScreeningCall | null> {
+    return screeningRepository.update(id, updates, options);
   }
 
   async deleteScreening(id: string): Promise<boolean> {
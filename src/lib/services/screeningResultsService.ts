@@ -0,0 +1,319 @@
+import { ApplicationStatus, Job, ScreeningCall, ScreeningCallDiagnostics, ScreeningStructuredData, ScreeningSummary, CandidateScreeningSummary } from '../types';
+import { updateScreeningStatus, getScreeningById } from './screeningService';
+import { updateCandidateScreening } from './candidateService';
+import { updateApplicationStatus, getApplicationById, flagApplication } from './applicationService';
+import { screeningSummaryFromMarkdown } from './summaryParser';
+import { logPostProcessingFailure } from './callErrorLogger';
+import { applyStructuredDataToSummary, validateStructuredData } from '../screening/structuredData';
+import { DEFAULT_EVALUATION_CRITERIA, ScreeningScore, recommendationForScore, scoreScreening } from '../screening/scoringEngine';
+import { EvaluationCriteriaSet } from '../screening/screeningConfigUtils';
+import { describeKnockoutResults, evaluateKnockoutQuestions, resolveKnockoutAction } from '../screening/knockoutQuestions';
+import { determineScreeningRole } from '../screening/screeningService';
+import { configRepository } from '../data/repositories/config-repository';
+import { getJobById } from '../servers/jobs-server';
+
+// Results of a finished call, as delivered by the webhook or posted back by the browser
+export interface ScreeningCallResults {
+  transcript: string;
+  summary?: ScreeningSummary;
+  summaryMarkdown?: string;
+  audioUrl?: string;
+  duration?: number;
+  aiCallId?: string;
+  endedReason?: string;
+  structuredData?: Record<string, any>; // Raw analysis.structuredData; validated before it is stored
+  successEvaluation?: string;
+  callDiagnostics?: ScreeningCallDiagnostics;
+  completedAt?: string;
+}
+
+/**
+ * Convert a screening summary to the format stored on the candidate record
+ */
+export function buildCandidateScreeningSummary(
+  screening: ScreeningCall,
+  summary: ScreeningSummary
+): CandidateScreeningSummary {
+  return {
+    callDuration: screening.duration || 0,
+    transcript: screening.transcript,
+    audioUrl: screening.audioUrl,
+    evaluations: {
+      experience: {
+        score: summary.experience?.highlights?.length ? 'Good' : 'Average',
+        notes: summary.experience?.evaluation || '',
+      },
+      availability: {
+        morningShift: summary.availability?.morning || false,
+        eveningShift: summary.availability?.evening || false,
+        weekendAvailable: summary.availability?.weekends || false,
+        transportation: summary.transportation?.hasReliableTransportation || false,
+        notes: summary.availability?.notes || '',
+      },
+      softSkills: {
+        score: summary.softSkills?.highlights?.length ? 'Good' : 'Average',
+        notes: summary.softSkills?.evaluation || '',
+      }
+    },
+    roleSpecificAnswers: {
+      'Role-specific evaluation': summary.roleSpecific?.evaluation || '',
+      ...Object.fromEntries(
+        (screening.structuredData?.roleQuestionAnswers || []).map(({ question, answer }) => [question, answer])
+      )
+    },
+    structuredData: screening.structuredData,
+    overallSummary: `${summary.experience?.evaluation || ''} ${summary.softSkills?.evaluation || ''}`.trim(),
+    recommendedNextSteps: summary.roleSpecific?.strengths?.length > summary.roleSpecific?.areas_of_improvement?.length ?
+      'Recommended for further consideration' : 'Review additional qualifications',
+    completedAt: screening.completedAt || new Date().toISOString(),
+    overallScore: screening.score ?? 0,
+    recommendation: screening.score !== undefined ? recommendationForScore(screening.score) : 'maybe',
+    criteriaScores: screening.criteriaScores,
+    aiSummary: JSON.stringify(summary),
+    strengths: summary.roleSpecific?.strengths || [],
+    concerns: summary.roleSpecific?.areas_of_improvement || [],
+  };
+}
+
+/**
+ * Store the results of a completed call on the screening, candidate and application.
+ * Safe to call more than once for the same call: the application timeline only gets
+ * one completion entry.
+ */
+export function recordScreeningResults(
+  screeningId: string,
+  results: ScreeningCallResults,
+  completedVia: 'webhook' | 'job' | 'client'
+): ScreeningCall | null {
+  const structured = results.structuredData ? validateStructuredData(results.structuredData) : undefined;
+  if (structured && !structured.success) {
+    logPostProcessingFailure('structured-data-validation', structured.errors.join('; '), results.aiCallId, {
+      screeningId,
+      structuredData: results.structuredData
+    });
+  }
+  const structuredData = structured?.success ? structured.data : undefined;
+
+  let summary = results.summary ||
+    (results.summaryMarkdown?.trim() ? screeningSummaryFromMarkdown(results.summaryMarkdown) : undefined);
+  if (structuredData) {
+    summary = applyStructuredDataToSummary(summary, structuredData);
+  }
+
+  const score = scoreCall(screeningId, results.transcript, structuredData);
+
+  const updatedScreening = updateScreeningStatus(screeningId, 'screening_completed', withoutUndefined<Partial<ScreeningCall>>({
+    transcript: results.transcript,
+    summary,
+    summaryMarkdown: results.summaryMarkdown,
+    audioUrl: results.audioUrl,
+    duration: results.duration,
+    aiCallId: results.aiCallId,
+    aiCallStatus: 'completed',
+    endedReason: results.endedReason,
+    structuredData,
+    structuredDataRaw: structured && !structured.success ? results.structuredData : undefined,
+    structuredDataErrors: structured && !structured.success ? structured.errors : undefined,
+    successEvaluation: results.successEvaluation,
+    callDiagnostics: results.callDiagnostics,
+    score: score?.overallScore,
+    criteriaScores: score?.criteriaScores,
+    completedAt: results.completedAt || new Date().toISOString(),
+    completedVia
+  }));
+
+  if (!updatedScreening) {
+    return null;
+  }
+
+  if (summary && updatedScreening.candidateId) {
+    updateCandidateScreening(
+      updatedScreening.candidateId,
+      buildCandidateScreeningSummary(updatedScreening, summary),
+      updatedScreening.id
+    );
+  }
+
+  const screened = markApplicationScreened(updatedScreening, {
+    webhook: 'AI screening completed successfully via webhook',
+    job: 'AI screening completed successfully (results fetched from VAPI)',
+    client: 'AI screening completed successfully'
+  }[completedVia]);
+
+  // Only once per call, and only when the answers could be read reliably
+  if (screened && structuredData) {
+    return applyKnockoutQuestions(updatedScreening, structuredData) || updatedScreening;
+  }
+
+  return updatedScreening;
+}
+
+/**
+ * Record a call that ended without a usable conversation.
+ * A failed call doesn't mean the candidate is rejected, so the application goes back to pending.
+ */
+export function recordScreeningFailure(
+  screeningId: string,
+  errorMessage: string,
+  additionalData: Partial<ScreeningCall> = {}
+): ScreeningCall | null {
+  const updatedScreening = updateScreeningStatus(screeningId, 'rejected', {
+    ...withoutUndefined(additionalData),
+    errorMessage,
+    aiCallStatus: 'failed',
+    transcript: additionalData.transcript || 'Call failed - no transcript available',
+    completedAt: new Date().toISOString()
+  });
+
+  // A failed call only sends the application back to wait for a screening if it
+  // is still waiting for one; a recruiter may have moved it on or closed it meanwhile
+  const application = updatedScreening?.applicationId ? getApplicationById(updatedScreening.applicationId) : null;
+  if (updatedScreening && application && PRE_SCREENING_STATUSES.includes(application.status)) {
+    updateApplicationStatus(
+      updatedScreening.applicationId,
+      'submitted',
+      'screening_call_pending',
+      `Screening call failed: ${errorMessage}. Manual review required.`,
+      'system'
+    );
+  }
+
+  return updatedScreening;
+}
+
+// The job a screening was for and the screening role it maps to
+function getJobRole(jobId?: string): { job: Job | null; role: string } {
+  const job = jobId ? getJobById(jobId) : null;
+  return { job, role: job ? determineScreeningRole(job.title, job.department) : 'general' };
+}
+
+/**
+ * Evaluation criteria configured for the role the job screens for
+ */
+export function getEvaluationCriteriaForJob(jobId?: string): EvaluationCriteriaSet {
+  const { job, role } = getJobRole(jobId);
+  if (!job) {
+    return DEFAULT_EVALUATION_CRITERIA;
+  }
+
+  const roles = configRepository.getConfig().roles;
+  return (roles[role] || roles.general)?.evaluationCriteria || DEFAULT_EVALUATION_CRITERIA;
+}
+
+/**
+ * Whether the webhook has already stored results for this screening
+ */
+export function hasWebhookResults(screeningId: string): boolean {
+  return getScreeningById(screeningId)?.completedVia === 'webhook';
+}
+
+// Application statuses still waiting for a screening call: the only ones a call
+// may start, fail back to submitted or complete from
+export const PRE_SCREENING_STATUSES: ApplicationStatus[] = ['submitted', 'screening_scheduled', 'screening_in_progress'];
+
+// A later report without a recording URL must not erase the one we already have
+function withoutUndefined<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+function scoreCall(
+  screeningId: string,
+  transcript: string,
+  structuredData?: ScreeningStructuredData
+): ScreeningScore | null {
+  const screening = getScreeningById(screeningId);
+  if (!screening || !transcript) {
+    return null;
+  }
+
+  try {
+    return scoreScreening({ criteria: getEvaluationCriteriaForJob(screening.jobId), transcript, structuredData });
+  } catch (error) {
+    // A scoring problem must not lose the call results
+    logPostProcessingFailure('screening-scoring', error as Error, screening.aiCallId, { screeningId });
+    return null;
+  }
+}
+
+function markApplicationScreened(screening: ScreeningCall, notes: string): boolean {
+  if (!screening.applicationId) {
+    return false;
+  }
+
+  // The browser fallback and the webhook can both report the same call, and by the
+  // second report a knockout question or a recruiter may already have moved it on
+  const application = getApplicationById(screening.applicationId);
+  if (!application || !PRE_SCREENING_STATUSES.includes(application.status)) {
+    return false;
+  }
+
+  return updateApplicationStatus(
+    screening.applicationId,
+    'screening_completed',
+    'screening_call_completed',
+    notes,
+    'system'
+  ) !== null;
+}
+
+/**
+ * Check the answers against the configured knockout questions and act on the
+ * application: flag it, send it to review, or reject it with the question's note
+ */
+function applyKnockoutQuestions(screening: ScreeningCall, structuredData: ScreeningStructuredData): ScreeningCall | null {
+  const { job, role } = getJobRole(screening.jobId);
+  const results = evaluateKnockoutQuestions(configRepository.getConfig().knockoutQuestions || [], structuredData, job, role);
+  if (results.length === 0) {
+    return null;
+  }
+
+  const updatedScreening = updateScreeningStatus(screening.id, screening.status, { knockoutResults: results });
+  const action = resolveKnockoutAction(results);
+  if (!action) {
+    return updatedScreening;
+  }
+
+  const details = describeKnockoutResults(results);
+  switch (action) {
+    case 'reject':
+      updateApplicationStatus(
+        screening.applicationId,
+        'rejected',
+        'rejected',
+        `Rejected by knockout question: ${details}`,
+        'system'
+      );
+      break;
+    case 'under_review':
+      updateApplicationStatus(
+        screening.applicationId,
+        'under_review',
+        'recruiter_review',
+        `Knockout question needs review: ${details}`,
+        'system'
+      );
+      break;
+    case 'flag':
+      updateApplicationStatus(
+        screening.applicationId,
+        'screening_completed',
+        'screening_call_completed',
+        `Flagged by knockout question: ${details}`,
+        'system'
+      );
+      break;
+  }
+
+  // Every failed answer is kept as a flag, whatever the overall action
+  results
+    .filter(result => result.action)
+    .forEach(result => flagApplication(
+      screening.applicationId,
+      result.passed === null ? `${result.question} — not answered` : result.note || `${result.question} — answered ${result.answer}`,
+      'knockout'
+    ));
+
+  return updatedScreening;
+}
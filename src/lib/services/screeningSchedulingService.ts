@@ -0,0 +1,367 @@
+/**
+ * Self-service screening scheduling (server-side only)
+ *
+ * Candidates book a slot from the recruiter's availability windows; the booking
+ * lives on the application. A scheduler tick sends reminders and, once the slot
+ * starts, opens the screening link or places the outbound phone call.
+ */
+
+import { Candidate, JobApplication, ScreeningBooking, ScreeningChannel } from '../types';
+import { configRepository } from '../data/repositories/config-repository';
+import { StorageConflictError } from '../data/storage';
+import { getAppBaseUrl } from '../config/constants';
+import { getAllApplications, getApplicationById, setScreeningBooking, updateApplicationStatus } from './applicationService';
+import { getCandidateById } from './candidateService';
+import { getScreeningsByApplication } from './screeningService';
+import { sendCandidateNotification } from './notificationService';
+import { getSmsTemplates } from '../notifications/statusNotifications';
+import { SmsTemplateKey } from '../notifications/templates';
+import { getJobById } from '../servers/jobs-server';
+import { placeOutboundScreeningCall } from '../integrations/vapi/outboundCall';
+import { toE164 } from '../utils/phoneUtils';
+import { getLocationForJob } from './locationService';
+import {
+  ScreeningSchedulingSettings,
+  ScreeningSlot,
+  generateScreeningSlots,
+  resolveScreeningScheduling
+} from '../screening/screeningSlots';
+import { HttpError } from '../http/httpError';
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+export interface SchedulerRunResult {
+  remindersSent: number;
+  started: number;
+  failed: number;
+  missed: number;
+}
+
+export function getScreeningSchedulingSettings(): ScreeningSchedulingSettings {
+  return resolveScreeningScheduling(configRepository.getConfig().screeningScheduling);
+}
+
+export function updateScreeningSchedulingSettings(settings: ScreeningSchedulingSettings): ScreeningSchedulingSettings {
+  const config = configRepository.getConfig();
+  configRepository.updateConfig({ ...config, screeningScheduling: settings });
+  return settings;
+}
+
+// Applications with a booking the scheduler still has to start
+export function getUpcomingBookings(): JobApplication[] {
+  return getAllApplications()
+    .filter(application => application.screeningBooking?.status === 'booked')
+    .sort((a, b) => a.screeningBooking!.slotStart.localeCompare(b.screeningBooking!.slotStart));
+}
+
+// The job's location screening hours, in its time zone, replace the global windows
+function getSchedulingForJob(jobId?: string): { settings: ScreeningSchedulingSettings; timeZone?: string } {
+  const settings = getScreeningSchedulingSettings();
+  const location = jobId ? getLocationForJob(jobId) : null;
+  if (!location?.screeningHours?.length) {
+    return { settings };
+  }
+  return {
+    settings: { ...settings, availabilityWindows: location.screeningHours },
+    timeZone: location.timezone
+  };
+}
+
+/**
+ * Slots a candidate can book now. An application's own booking doesn't count
+ * against its slot, so rescheduling can keep the same time. Each location
+ * screens separately, so only bookings at the same location use up a slot.
+ */
+export function getAvailableScreeningSlots(applicationId?: string, now: Date = new Date()): ScreeningSlot[] {
+  const application = applicationId ? getApplicationById(applicationId) : null;
+  const locationId = application ? getJobById(application.jobId)?.locationId : undefined;
+  const booked = getUpcomingBookings()
+    .filter(other => other.id !== applicationId)
+    .filter(other => !application || getJobById(other.jobId)?.locationId === locationId)
+    .map(other => other.screeningBooking!.slotStart);
+  const { settings, timeZone } = getSchedulingForJob(application?.jobId);
+  return generateScreeningSlots(settings, booked, now, timeZone);
+}
+
+function getScreeningLink(application: JobApplication): string {
+  const params = new URLSearchParams({
+    candidateId: application.candidateId,
+    jobId: application.jobId,
+    applicationId: application.id
+  });
+  return `${getAppBaseUrl()}/candidate/screening?${params.toString()}`;
+}
+
+// In the location's time zone when it has one, so messages match its screening hours
+function formatSlotTime(slotStart: string, timeZone?: string): string {
+  return new Date(slotStart).toLocaleString('en-US', {
+    timeZone,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+}
+
+function notifyCandidate(
+  application: JobApplication,
+  booking: ScreeningBooking,
+  type: string,
+  subject: string,
+  template: string,
+  smsTemplate: SmsTemplateKey
+): void {
+  const candidate = getCandidateById(application.candidateId);
+  const job = getJobById(application.jobId);
+  const timeZone = getLocationForJob(application.jobId)?.timezone;
+  const howToJoin = booking.channel === 'phone'
+    ? `We will call you at ${candidate?.phone || 'the number on your application'}.`
+    : `Start your screening here: ${getScreeningLink(application)}`;
+
+  sendCandidateNotification(
+    candidate,
+    { applicationId: application.id, candidateId: application.candidateId, type, subject },
+    { email: template, sms: getSmsTemplates()[smsTemplate] },
+    {
+      candidateName: candidate ? `${candidate.firstName} ${candidate.lastName}`.trim() : 'there',
+      position: job?.title || 'open',
+      scheduledTime: formatSlotTime(booking.slotStart, timeZone),
+      howToJoin
+    }
+  );
+}
+
+function getBookingBlocker(applicationId: string): string | null {
+  const screenings = getScreeningsByApplication(applicationId);
+  if (screenings.some(s => s.status === 'screening_completed')) {
+    return 'This application has already been screened';
+  }
+  if (screenings.some(s => s.status === 'screening_in_progress')) {
+    return 'A screening call is in progress for this application';
+  }
+  return null;
+}
+
+function requireCandidate(application: JobApplication): Candidate {
+  const candidate = getCandidateById(application.candidateId);
+  if (!candidate) {
+    throw new HttpError('Candidate for this application not found', 404);
+  }
+  return candidate;
+}
+
+/**
+ * Book (or move) the screening for an application. Sends a confirmation and
+ * keeps the application at screening_call_pending until the slot starts.
+ */
+export function bookScreeningSlot(
+  applicationId: string,
+  slotStart: string,
+  channel: ScreeningChannel,
+  now: Date = new Date()
+): ScreeningBooking {
+  const application = getApplicationById(applicationId);
+  if (!application) {
+    throw new HttpError('Application not found', 404);
+  }
+
+  const settings = getScreeningSchedulingSettings();
+  if (!settings.enabled) {
+    throw new HttpError('Screening scheduling is turned off', 409);
+  }
+
+  const candidate = requireCandidate(application);
+  if (channel === 'phone' && !toE164(candidate.phone)) {
+    throw new HttpError('Add a valid phone number to book a phone screening', 400);
+  }
+
+  const blocker = getBookingBlocker(application.id);
+  if (blocker) {
+    throw new HttpError(blocker, 409);
+  }
+
+  const slot = getAvailableScreeningSlots(application.id, now).find(s => s.start === new Date(slotStart).toISOString());
+  if (!slot) {
+    throw new HttpError('That time is no longer available', 409);
+  }
+
+  const rescheduled = application.screeningBooking?.status === 'booked';
+  const booking: ScreeningBooking = {
+    slotStart: slot.start,
+    slotEnd: slot.end,
+    channel,
+    status: 'booked',
+    bookedAt: now.toISOString()
+  };
+
+  setScreeningBooking(application.id, booking);
+  updateApplicationStatus(
+    application.id,
+    application.status === 'submitted' ? 'screening_scheduled' : application.status,
+    'screening_call_pending',
+    `Screening ${rescheduled ? 'moved' : 'booked'} for ${formatSlotTime(slot.start, getLocationForJob(application.jobId)?.timezone)} (${channel === 'phone' ? 'phone call' : 'web call'})`,
+    'candidate'
+  );
+
+  notifyCandidate(application, booking, 'screening_booking_confirmation', 'Your screening call is booked', settings.confirmationTemplate, 'screeningBookingConfirmation');
+  return booking;
+}
+
+export function cancelScreeningBooking(applicationId: string, cancelledBy: string = 'candidate'): ScreeningBooking {
+  const application = getApplicationById(applicationId);
+  if (!application) {
+    throw new HttpError('Application not found', 404);
+  }
+  if (application.screeningBooking?.status !== 'booked') {
+    throw new HttpError('There is no upcoming screening booking to cancel', 409);
+  }
+
+  const booking: ScreeningBooking = { ...application.screeningBooking, status: 'cancelled' };
+  setScreeningBooking(application.id, booking);
+  updateApplicationStatus(
+    application.id,
+    application.status === 'screening_scheduled' ? 'submitted' : application.status,
+    'screening_call_pending',
+    `Screening booking for ${formatSlotTime(booking.slotStart, getLocationForJob(application.jobId)?.timezone)} cancelled`,
+    cancelledBy
+  );
+  return booking;
+}
+
+async function startBookedScreening(
+  application: JobApplication,
+  booking: ScreeningBooking,
+  settings: ScreeningSchedulingSettings,
+  webhookUrl: string,
+  now: Date
+): Promise<ScreeningBooking> {
+  const blocker = getBookingBlocker(application.id);
+  if (blocker) {
+    return { ...booking, status: 'cancelled', error: blocker };
+  }
+
+  if (booking.channel === 'phone') {
+    try {
+      const screening = await placeOutboundScreeningCall(application.id, { webhookUrl, requestedBy: 'scheduler' });
+      return { ...booking, status: 'started', startedAt: now.toISOString(), screeningId: screening.id };
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        console.error(`Booked phone screening for application ${application.id} could not be placed:`, error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      // A call VAPI refused has already put the application back through recordScreeningFailure
+      const current = getApplicationById(application.id) || application;
+      updateApplicationStatus(
+        current.id,
+        current.status,
+        'screening_call_pending',
+        `Booked phone screening could not be placed: ${message}`,
+        'scheduler'
+      );
+      return { ...booking, status: 'failed', error: message };
+    }
+  }
+
+  updateApplicationStatus(
+    application.id,
+    application.status === 'submitted' ? 'screening_scheduled' : application.status,
+    'screening_call_scheduled',
+    'Screening link opened for the booked time',
+    'scheduler'
+  );
+  notifyCandidate(application, booking, 'screening_open', 'Your screening call is ready', settings.screeningOpenTemplate, 'screeningOpen');
+  return { ...booking, status: 'started', startedAt: now.toISOString() };
+}
+
+/**
+ * One pass over the upcoming bookings: reminders for slots starting soon, and
+ * the screening itself for slots that have started. Slots that ended before the
+ * scheduler got to them (e.g. the server was down) are marked missed.
+ */
+export async function runScreeningScheduler(
+  now: Date = new Date(),
+  webhookUrl: string = new URL('/api/vapi/webhook', getAppBaseUrl()).toString()
+): Promise<SchedulerRunResult> {
+  const settings = getScreeningSchedulingSettings();
+  const result: SchedulerRunResult = { remindersSent: 0, started: 0, failed: 0, missed: 0 };
+
+  for (const { id } of getUpcomingBookings()) {
+    // Re-read right before acting: the interval and /api/screening/scheduler can overlap
+    const application = getApplicationById(id);
+    let booking = application?.screeningBooking;
+    if (!application || booking?.status !== 'booked') {
+      continue;
+    }
+
+    const start = new Date(booking.slotStart).getTime();
+    const reminderAt = start - settings.reminderMinutesBefore * 60 * 1000;
+
+    if (now.getTime() >= new Date(booking.slotEnd).getTime()) {
+      setScreeningBooking(application.id, { ...booking, status: 'missed' });
+      updateApplicationStatus(application.id, application.status, 'screening_call_pending', 'Booked screening time passed before it could start', 'scheduler');
+      result.missed++;
+      continue;
+    }
+
+    if (now.getTime() >= start) {
+      // Claim the booking before the call is placed. The claim only lands on the copy
+      // read above, so when two runs overlap the one that claims second skips it.
+      try {
+        setScreeningBooking(application.id, { ...booking, status: 'started', startedAt: now.toISOString() }, { expectedUpdatedAt: application.updatedAt });
+      } catch (error) {
+        if (error instanceof StorageConflictError) continue;
+        throw error;
+      }
+      // Whatever goes wrong from here, the booking ends up failed rather than stuck as started
+      try {
+        booking = await startBookedScreening(application, booking, settings, webhookUrl, now);
+      } catch (error) {
+        console.error(`Screening scheduler could not start the booking for application ${application.id}:`, error);
+        booking = { ...booking, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+      }
+      setScreeningBooking(application.id, booking);
+      if (booking.status === 'started') {
+        result.started++;
+      } else {
+        result.failed++;
+      }
+      continue;
+    }
+
+    if (settings.reminderMinutesBefore > 0 && !booking.reminderSentAt && now.getTime() >= reminderAt) {
+      notifyCandidate(application, booking, 'screening_reminder', 'Reminder: your screening call is coming up', settings.reminderTemplate, 'screeningReminder');
+      setScreeningBooking(application.id, { ...booking, reminderSentAt: now.toISOString() });
+      result.remindersSent++;
+    }
+  }
+
+  return result;
+}
+
+// Kept on globalThis so dev-server reloads don't start a second timer
+const schedulerState = globalThis as typeof globalThis & { screeningSchedulerTimer?: ReturnType<typeof setInterval> };
+
+export function startScreeningScheduler(intervalMs: number = SCHEDULER_INTERVAL_MS): void {
+  if (schedulerState.screeningSchedulerTimer) {
+    return;
+  }
+
+  let running = false;
+  schedulerState.screeningSchedulerTimer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await runScreeningScheduler();
+      if (result.remindersSent || result.started || result.failed || result.missed) {
+        console.log('Screening scheduler:', result);
+      }
+    } catch (error) {
+      console.error('Screening scheduler run failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  console.log(`Screening scheduler running every ${Math.round(intervalMs / 1000)}s`);
+}
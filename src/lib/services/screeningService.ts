@@ -1,41 +1,39 @@
-import fs from 'fs';
-import path from 'path';
-import { ScreeningCall, ScreeningSummary, ApplicationStatus } from '../types';
+import { ScreeningCall, ApplicationStatus } from '../types';
+import { getStorageDriver, StorageConflictError, UpdateOptions } from '../data/storage';
+import { screeningSummaryFromMarkdown } from './summaryParser';
+import { getJobById } from '../servers/jobs-server';
 
-const DATA_DIR = path.join(process.cwd(), 'data');
-const SCREENINGS_FILE = path.join(DATA_DIR, 'screenings.json');
+const COLLECTION = 'screenings';
 
-export function ensureDataDirectory(): void {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
-  }
+// A screening still open after this long was left behind, e.g. by closing the page mid-call
+export const STALE_SCREENING_MINUTES = 10;
+
+const OPEN_SCREENING_STATUSES: ApplicationStatus[] = ['screening_scheduled', 'screening_in_progress'];
+
+// What the candidate's page needs to know about earlier attempts, without their contents
+export interface ScreeningAttempts {
+  total: number;
+  active: number;
+  completed: number;
+  failed: number;
 }
 
-export function readScreeningsFromFile(): ScreeningCall[] {
-  ensureDataDirectory();
-  
-  if (!fs.existsSync(SCREENINGS_FILE)) {
-    fs.writeFileSync(SCREENINGS_FILE, JSON.stringify([]));
-    return [];
-  }
-  
-  try {
-    const rawData = fs.readFileSync(SCREENINGS_FILE, 'utf-8');
-    return JSON.parse(rawData) as ScreeningCall[];
-  } catch (error) {
-    console.error('Error reading screenings file:', error);
-    return [];
+// Callers that still send VAPI's markdown in `summary` get it moved to summaryMarkdown
+function normalizeSummaryFields(data: Partial<ScreeningCall>): Partial<ScreeningCall> {
+  const summary: unknown = data.summary;
+  if (typeof summary !== 'string') {
+    return data;
   }
+
+  return {
+    ...data,
+    summary: summary.trim() ? screeningSummaryFromMarkdown(summary) : undefined,
+    summaryMarkdown: summary
+  };
 }
 
-export function writeScreeningsToFile(screenings: ScreeningCall[]): void {
-  try {
-    ensureDataDirectory();
-    fs.writeFileSync(SCREENINGS_FILE, JSON.stringify(screenings, null, 2));
-  } catch (error) {
-    console.error('Error writing screenings file:', error);
-    throw error;
-  }
+export function readScreeningsFromFile(): ScreeningCall[] {
+  return getStorageDriver().findAll<ScreeningCall>(COLLECTION);
 }
 
 export function updateScreeningStatus(
@@ -43,12 +41,7 @@ export function updateScreeningStatus(
   status: ApplicationStatus,
   additionalData: Partial<ScreeningCall> = {}
 ): ScreeningCall | null {
-  const screenings = readScreeningsFromFile();
-  const screeningIndex = screenings.findIndex(s => s.id === id);
-  
-  if (screeningIndex === -1) {
-    return null;
-  }
+  additionalData = normalizeSummaryFields(additionalData);
 
   // Validate status consistency
   if (status === 'screening_completed') {
@@ -62,63 +55,47 @@ export function updateScreeningStatus(
   if (status === 'rejected' || additionalData.errorMessage) {
     // If there's an error or rejected status, clear any summary data and ensure consistent state
     additionalData.summary = undefined;
+    additionalData.summaryMarkdown = undefined;
     if (additionalData.errorMessage && status === 'screening_completed') {
       status = 'rejected';
     }
   }
 
-  // Update the screening
-  screenings[screeningIndex] = {
-    ...screenings[screeningIndex],
-    status,
-    ...additionalData,
-    updatedAt: new Date().toISOString()
-  };
+  return getStorageDriver().update<ScreeningCall>(COLLECTION, id, current => {
+    // Update the screening
+    const screening: ScreeningCall = {
+      ...current,
+      status,
+      ...additionalData,
+      updatedAt: new Date().toISOString()
+    };
 
-  // Add timestamps based on status
-  if (status === 'screening_completed' && screenings[screeningIndex].status !== 'screening_completed') {
-    screenings[screeningIndex].completedAt = new Date().toISOString();
+    // Add timestamps based on status
+    if (status === 'screening_completed' && screening.status !== 'screening_completed') {
+      screening.completedAt = new Date().toISOString();
+      
+      // Calculate duration if we have start time
+      if (screening.startedAt) {
+        const startTime = new Date(screening.startedAt).getTime();
+        const endTime = new Date(screening.completedAt).getTime();
+        screening.duration = Math.round((endTime - startTime) / 1000);
+      }
+    }
     
-    // Calculate duration if we have start time
-    if (screenings[screeningIndex].startedAt) {
-      const startTime = new Date(screenings[screeningIndex].startedAt!).getTime();
-      const endTime = new Date(screenings[screeningIndex].completedAt!).getTime();
-      screenings[screeningIndex].duration = Math.round((endTime - startTime) / 1000);
+    if (status === 'screening_in_progress' && screening.status !== 'screening_in_progress') {
+      screening.startedAt = new Date().toISOString();
     }
-  }
-  
-  if (status === 'screening_in_progress' && screenings[screeningIndex].status !== 'screening_in_progress') {
-    screenings[screeningIndex].startedAt = new Date().toISOString();
-  }
-  
-  writeScreeningsToFile(screenings);
-  return screenings[screeningIndex];
-}
 
-export function updateScreeningSummary(
-  id: string,
-  summary: ScreeningSummary
-): ScreeningCall | null {
-  const screenings = readScreeningsFromFile();
-  const screeningIndex = screenings.findIndex(s => s.id === id);
-  
-  if (screeningIndex === -1) {
-    return null;
-  }
-
-  screenings[screeningIndex] = {
-    ...screenings[screeningIndex],
-    summary,
-    updatedAt: new Date().toISOString()
-  };
-  
-  writeScreeningsToFile(screenings);
-  return screenings[screeningIndex];
+    return screening;
+  });
 }
 
 export function getScreeningById(id: string): ScreeningCall | null {
-  const screenings = readScreeningsFromFile();
-  return screenings.find(s => s.id === id) || null;
+  return getStorageDriver().findById<ScreeningCall>(COLLECTION, id);
+}
+
+export function getScreeningByCallId(callId: string): ScreeningCall | null {
+  return readScreeningsFromFile().find(s => s.aiCallId === callId) || null;
 }
 
 export function getAllScreenings(): ScreeningCall[] {
@@ -135,14 +112,66 @@ export function getScreeningsByApplication(applicationId: string): ScreeningCall
   return screenings.filter(s => s.applicationId === applicationId);
 }
 
+export function getScreeningAttempts(applicationId: string): ScreeningAttempts {
+  const screenings = getScreeningsByApplication(applicationId);
+  return {
+    total: screenings.length,
+    active: screenings.filter(s => OPEN_SCREENING_STATUSES.includes(s.status)).length,
+    completed: screenings.filter(s => s.status === 'screening_completed').length,
+    failed: screenings.filter(s => s.status === 'rejected').length
+  };
+}
+
+/**
+ * Fails the application's screenings that have been open for longer than
+ * `olderThanMinutes`. Each one is updated on its own and only if it hasn't
+ * changed since it was read, so results a webhook saves meanwhile are kept.
+ * Returns how many were failed.
+ */
+export function expireStaleScreenings(
+  applicationId: string,
+  olderThanMinutes: number = STALE_SCREENING_MINUTES,
+  now: Date = new Date()
+): number {
+  const cutoff = now.getTime() - olderThanMinutes * 60 * 1000;
+  let expired = 0;
+
+  for (const screening of getScreeningsByApplication(applicationId)) {
+    if (!OPEN_SCREENING_STATUSES.includes(screening.status) || new Date(screening.createdAt || 0).getTime() >= cutoff) {
+      continue;
+    }
+
+    try {
+      getStorageDriver().update<ScreeningCall>(COLLECTION, screening.id, current => {
+        // Checked again under the lock: records without updatedAt can't be compared by version
+        if (!OPEN_SCREENING_STATUSES.includes(current.status)) {
+          return current;
+        }
+        expired++;
+        return {
+          ...current,
+          status: 'rejected',
+          completedAt: now.toISOString(),
+          updatedAt: now.toISOString(),
+          errorMessage: 'Stale screening call cleaned up automatically'
+        };
+      }, { expectedUpdatedAt: screening.updatedAt });
+    } catch (error) {
+      if (!(error instanceof StorageConflictError)) {
+        throw error;
+      }
+    }
+  }
+
+  return expired;
+}
+
 export function createScreening(
   applicationId: string,
   candidateId: string,
   jobId: string,
   additionalData: Partial<ScreeningCall> = {}
 ): ScreeningCall {
-  const screenings = readScreeningsFromFile();
-  
   // Generate a unique ID for the new screening
   const id = `screening_${Date.now()}`;
   const now = new Date().toISOString();
@@ -153,6 +182,7 @@ export function createScreening(
     applicationId,
     candidateId,
     jobId,
+    locationId: getJobById(jobId)?.locationId,
     status: 'screening_scheduled',
     scheduledAt: now,
     createdAt: now,
@@ -160,53 +190,45 @@ export function createScreening(
     date: additionalData.date || now, // Ensure date is always defined
     // Using a type assertion to handle the role until ScreeningRole is updated
     role: 'general', // Default role value
-    ...additionalData
+    ...normalizeSummaryFields(additionalData)
   };
   
-  screenings.push(newScreening);
-  writeScreeningsToFile(screenings);
-  
-  return newScreening;
+  return getStorageDriver().insert(COLLECTION, newScreening);
 }
 
 export function updateScreening(
   id: string,
-  updates: Partial<ScreeningCall>
+  updates: Partial<ScreeningCall>,
+  options: UpdateOptions = {}
 ): ScreeningCall | null {
-  const screenings = readScreeningsFromFile();
-  const screeningIndex = screenings.findIndex(s => s.id === id);
-  
-  if (screeningIndex === -1) {
-    return null;
-  }
-
-  // Update the screening data
-  screenings[screeningIndex] = {
-    ...screenings[screeningIndex],
-    ...updates,
-    updatedAt: new Date().toISOString()
-  };
+  return getStorageDriver().update<ScreeningCall>(COLLECTION, id, current => {
+    // Update the screening data
+    const screening: ScreeningCall = {
+      ...current,
+      ...normalizeSummaryFields(updates),
+      updatedAt: new Date().toISOString()
+    };
 
-  // Handle status-specific logic
-  if (updates.status) {
-    if (updates.status === 'screening_completed' && screenings[screeningIndex].status !== 'screening_completed') {
-      screenings[screeningIndex].completedAt = new Date().toISOString();
+    // Handle status-specific logic
+    if (updates.status) {
+      if (updates.status === 'screening_completed' && screening.status !== 'screening_completed') {
+        screening.completedAt = new Date().toISOString();
+        
+        // Calculate duration if we have start time
+        if (screening.startedAt) {
+          const startTime = new Date(screening.startedAt).getTime();
+          const endTime = new Date(screening.completedAt).getTime();
+          screening.duration = Math.round((endTime - startTime) / 1000);
+        }
+      }
       
-      // Calculate duration if we have start time
-      if (screenings[screeningIndex].startedAt) {
-        const startTime = new Date(screenings[screeningIndex].startedAt!).getTime();
-        const endTime = new Date(screenings[screeningIndex].completedAt!).getTime();
-        screenings[screeningIndex].duration = Math.round((endTime - startTime) / 1000);
+      if (updates.status === 'screening_in_progress' && screening.status !== 'screening_in_progress') {
+        screening.startedAt = new Date().toISOString();
       }
     }
-    
-    if (updates.status === 'screening_in_progress' && screenings[screeningIndex].status !== 'screening_in_progress') {
-      screenings[screeningIndex].startedAt = new Date().toISOString();
-    }
-  }
-  
-  writeScreeningsToFile(screenings);
-  return screenings[screeningIndex];
+
+    return screening;
+  }, options);
 }
 
 export function getScreeningsByFilters(filters: {
@@ -0,0 +1,238 @@
+/**
+ * SLA timers (server-side only)
+ *
+ * Workflow steps can set how many hours an application may stay in one of
+ * their statuses. The scheduler finds applications that have been waiting
+ * longer, flags each one for a recruiter once per stay in a status and, where
+ * the step says so, moves it on automatically (e.g. expiring a screening
+ * invite nobody answered). Response times per recruiter come from the same
+ * limits, measured over the status changes on each application's timeline.
+ */
+
+import { ApplicationStatus, ApplicationStep, JobApplication, ScreeningRole } from '../types';
+import { getAllJobs } from '../servers/jobs-server';
+import { getStatusDisplayInfo } from '../utils/statusManager';
+import { WorkflowConfig, WorkflowStepConfig, findStatusTransition } from '../workflow/workflowUtils';
+import { getAllApplications, getApplicationById, recordSlaEscalation } from './applicationService';
+import { getWorkflowRoleForJob, getWorkflows, transitionApplication } from './workflowService';
+
+const SLA_SCHEDULER_INTERVAL_MS = 15 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Nothing is waiting on anyone once an application is closed
+const CLOSED_STATUSES: ApplicationStatus[] = ['hired', 'rejected', 'withdrawn'];
+
+export interface ApplicationSlaStatus {
+  applicationId: string;
+  status: ApplicationStatus;
+  step: ApplicationStep;
+  stepLabel: string;
+  slaHours: number;
+  since: string; // When the application got to its current status
+  dueAt: string;
+  overdue: boolean;
+  hoursOverdue: number; // 0 while it's on time
+}
+
+export interface SlaRunResult {
+  overdue: number;
+  escalated: number;
+  autoTransitioned: number;
+  failed: number;
+}
+
+export interface RecruiterSlaMetrics {
+  userId: string;
+  name: string;
+  statusChanges: number;
+  averageHours: number; // How long applications had waited in their previous status
+  withinSla: number; // Changes made before the previous status went overdue
+  withinSlaRate: number | null; // Share of the changes whose previous status had a limit; null when none did
+}
+
+function label(status: ApplicationStatus): string {
+  return getStatusDisplayInfo(status)?.label || status;
+}
+
+// Workflows for a batch of applications, read once rather than per application
+function workflowLookup(): (application: Pick<JobApplication, 'jobId'>) => WorkflowConfig {
+  const workflows = getWorkflows();
+  const roles = new Map<string, ScreeningRole>(getAllJobs().map(job => [job.id, getWorkflowRoleForJob(job)]));
+  return application => workflows[roles.get(application.jobId) || 'general'];
+}
+
+// The step whose time limit applies to a status, if it has one
+function getSlaStep(status: ApplicationStatus, workflow: WorkflowConfig): WorkflowStepConfig | null {
+  if (CLOSED_STATUSES.includes(status)) {
+    return null;
+  }
+  const step = workflow.steps.find(candidate => candidate.statuses.includes(status));
+  return step?.slaHours ? step : null;
+}
+
+/**
+ * When the application got to its current status: the first of the latest run
+ * of timeline entries in that status. Records from before entries carried a
+ * status count from when the application was submitted.
+ */
+export function getStatusEnteredAt(application: JobApplication): string {
+  let enteredAt: string | null = null;
+  for (let i = application.timeline.length - 1; i >= 0; i--) {
+    const entry = application.timeline[i];
+    if (!entry.applicationStatus) continue;
+    if (entry.applicationStatus !== application.status) break;
+    enteredAt = entry.timestamp;
+  }
+  return enteredAt || application.submittedAt || application.createdAt;
+}
+
+// Null when the application's current status has no time limit
+export function getApplicationSlaStatus(
+  application: JobApplication,
+  workflow: WorkflowConfig,
+  now: Date = new Date()
+): ApplicationSlaStatus | null {
+  const step = getSlaStep(application.status, workflow);
+  if (!step?.slaHours) {
+    return null;
+  }
+
+  const since = getStatusEnteredAt(application);
+  const dueAt = new Date(since).getTime() + step.slaHours * HOUR_MS;
+  const overdueMs = now.getTime() - dueAt;
+  return {
+    applicationId: application.id,
+    status: application.status,
+    step: step.step,
+    stepLabel: step.label,
+    slaHours: step.slaHours,
+    since,
+    dueAt: new Date(dueAt).toISOString(),
+    overdue: overdueMs > 0,
+    hoursOverdue: overdueMs > 0 ? Math.floor(overdueMs / HOUR_MS) : 0
+  };
+}
+
+// Overdue applications among the given ones, longest overdue first
+export function listOverdueApplications(applications: JobApplication[], now: Date = new Date()): ApplicationSlaStatus[] {
+  const workflowFor = workflowLookup();
+  return applications
+    .map(application => getApplicationSlaStatus(application, workflowFor(application), now))
+    .filter((sla): sla is ApplicationSlaStatus => !!sla?.overdue)
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+}
+
+/**
+ * One pass over open applications. Overdue ones move on where their step has
+ * an automatic status change the workflow lets the system make; the rest, or
+ * any whose move fails, are flagged once per stay in the status.
+ */
+export function runSlaScheduler(now: Date = new Date()): SlaRunResult {
+  const result: SlaRunResult = { overdue: 0, escalated: 0, autoTransitioned: 0, failed: 0 };
+  const workflowFor = workflowLookup();
+
+  for (const listed of getAllApplications()) {
+    if (CLOSED_STATUSES.includes(listed.status)) continue;
+
+    // Re-read right before acting: the interval and /api/sla/scheduler can overlap
+    const application = getApplicationById(listed.id);
+    const workflow = application && workflowFor(application);
+    const sla = application && workflow && getApplicationSlaStatus(application, workflow, now);
+    if (!application || !workflow || !sla?.overdue) continue;
+    result.overdue++;
+
+    const target = workflow.steps.find(step => step.step === sla.step)?.slaAutoTransition;
+    if (target && findStatusTransition(application.status, target, workflow)?.allowedBy.includes('system')) {
+      try {
+        transitionApplication(
+          application.id,
+          { status: target, actor: 'system', notes: `No progress within ${sla.slaHours} hours at ${sla.stepLabel}` },
+          { expectedUpdatedAt: application.updatedAt }
+        );
+        result.autoTransitioned++;
+        continue;
+      } catch (error) {
+        console.error(`SLA scheduler could not move application ${application.id} to ${target}:`, error);
+        result.failed++;
+      }
+    }
+
+    if (application.slaEscalation?.status === application.status && application.slaEscalation.since === sla.since) {
+      continue;
+    }
+    recordSlaEscalation(
+      application.id,
+      { status: application.status, since: sla.since, escalatedAt: now.toISOString() },
+      `${label(application.status)} for over ${sla.slaHours} hours, past the limit for ${sla.stepLabel}`
+    );
+    result.escalated++;
+  }
+
+  return result;
+}
+
+/**
+ * Status changes each staff member made since `from`: how long the application
+ * had been waiting in its previous status, and whether that was within the
+ * limit. Uses each application's current workflow.
+ */
+export function getRecruiterSlaMetrics(applications: JobApplication[], from: Date): RecruiterSlaMetrics[] {
+  const workflowFor = workflowLookup();
+  const totals = new Map<string, { name: string; changes: number; hours: number; limited: number; withinSla: number }>();
+
+  for (const application of applications) {
+    const workflow = workflowFor(application);
+    let previous = { status: 'submitted' as ApplicationStatus, since: application.submittedAt || application.createdAt };
+
+    for (const entry of application.timeline) {
+      if (!entry.applicationStatus || entry.applicationStatus === previous.status) continue;
+
+      const at = new Date(entry.timestamp);
+      if (entry.performedByUser && at >= from) {
+        const hours = Math.max(0, at.getTime() - new Date(previous.since).getTime()) / HOUR_MS;
+        const slaHours = getSlaStep(previous.status, workflow)?.slaHours;
+        const total = totals.get(entry.performedByUser.id) || { name: entry.performedByUser.name, changes: 0, hours: 0, limited: 0, withinSla: 0 };
+        total.changes++;
+        total.hours += hours;
+        if (slaHours) {
+          total.limited++;
+          if (hours <= slaHours) total.withinSla++;
+        }
+        totals.set(entry.performedByUser.id, total);
+      }
+      previous = { status: entry.applicationStatus, since: entry.timestamp };
+    }
+  }
+
+  return Array.from(totals.entries())
+    .map(([userId, total]) => ({
+      userId,
+      name: total.name,
+      statusChanges: total.changes,
+      averageHours: Math.round((total.hours / total.changes) * 10) / 10,
+      withinSla: total.withinSla,
+      withinSlaRate: total.limited > 0 ? Math.round((total.withinSla / total.limited) * 100) / 100 : null
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Kept on globalThis so dev-server reloads don't start a second timer
+const schedulerState = globalThis as typeof globalThis & { slaSchedulerTimer?: ReturnType<typeof setInterval> };
+
+export function startSlaScheduler(intervalMs: number = SLA_SCHEDULER_INTERVAL_MS): void {
+  if (schedulerState.slaSchedulerTimer) {
+    return;
+  }
+
+  schedulerState.slaSchedulerTimer = setInterval(() => {
+    try {
+      const result = runSlaScheduler();
+      if (result.escalated || result.autoTransitioned || result.failed) {
+        console.log('SLA scheduler:', result);
+      }
+    } catch (error) {
+      console.error('SLA scheduler run failed:', error);
+    }
+  }, intervalMs);
+  console.log(`SLA scheduler running every ${Math.round(intervalMs / 1000)}s`);
+}
@@ -0,0 +1,185 @@
+/**
+ * Inbound SMS replies (server-side only)
+ *
+ * Texts from candidates arrive at /api/sms/inbound and are matched to the
+ * candidate by phone number. The first word decides what happens: STOP and
+ * START turn texts off and on, RESCHEDULE frees a booked screening slot (or
+ * flags the interview for the recruiter to move), WITHDRAW withdraws the
+ * application. Anything else is noted on the application's timeline.
+ */
+
+import crypto from 'crypto';
+import { ApplicationStatus, Candidate, JobApplication } from '../types';
+import { getStorageDriver } from '../data/storage';
+import { toE164 } from '../utils/phoneUtils';
+import { InboundSms } from '../notifications/sms';
+import { SmsReplyCommand, parseSmsReply } from '../notifications/sms/replies';
+import { getScreeningLink } from '../notifications/statusNotifications';
+import { flagApplication, getApplicationsByCandidateId, updateApplicationStatus } from './applicationService';
+import { getAllCandidates, updateCandidate } from './candidateService';
+import { formatInterviewTime, listInterviews } from './interviewService';
+import { cancelScreeningBooking } from './screeningSchedulingService';
+import { withdrawApplication } from './candidatePortalService';
+import { HttpError } from '../http/httpError';
+import { sendNotification } from './notificationService';
+import { getJobById } from '../servers/jobs-server';
+import { getLocationName } from './locationService';
+
+const SMS_INBOUND_LOG = 'sms-inbound';
+
+const CLOSED_STATUSES: ApplicationStatus[] = ['hired', 'rejected', 'withdrawn'];
+
+// Placeholders: {{company}}, {{position}}, {{screeningLink}}
+const REPLY_TEMPLATES = {
+  stop: 'You will no longer receive texts from {{company}}. Reply START to get them again.',
+  start: 'You will receive texts from {{company}} again. Reply STOP to stop them.',
+  screeningRescheduled: 'Your screening call for the {{position}} position has been cancelled. Book a new time here: {{screeningLink}}',
+  interviewRescheduleRequested: 'Thanks, we have asked the recruiter to find a new time for your {{position}} interview. They will be in touch.',
+  nothingToReschedule: 'There is nothing booked to reschedule for your {{position}} application.',
+  withdrawn: 'Your application for the {{position}} position has been withdrawn. Thank you for your interest in {{company}}.',
+  help: 'Reply RESCHEDULE to change your screening or interview time, WITHDRAW to withdraw your application, or STOP to stop texts.'
+};
+
+type ReplyTemplate = keyof typeof REPLY_TEMPLATES;
+
+export interface SmsReplyRecord extends InboundSms {
+  id: string;
+  command: SmsReplyCommand;
+  candidateId?: string;
+  applicationId?: string;
+  outcome: string; // What was done, for the log and the API response
+}
+
+interface ReplyContext {
+  phone: string;
+  candidates: Candidate[];
+  application: JobApplication | null;
+}
+
+// The application a reply is about: the candidate's most recently updated open one
+function findOpenApplication(candidates: Candidate[]): JobApplication | null {
+  const open = candidates
+    .flatMap(candidate => getApplicationsByCandidateId(candidate.id))
+    .filter(application => !CLOSED_STATUSES.includes(application.status))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  return open[0] || null;
+}
+
+// Replies go to the number that texted. After STOP only the opt-out and opt-in confirmations go out.
+function reply(context: ReplyContext, template: ReplyTemplate, type: string): void {
+  const { application } = context;
+  if (template !== 'stop' && template !== 'start' && context.candidates.some(candidate => candidate.smsOptOutAt)) {
+    return;
+  }
+  const job = application ? getJobById(application.jobId) : null;
+
+  sendNotification(
+    {
+      applicationId: application?.id || '',
+      candidateId: application?.candidateId || context.candidates[0]?.id || '',
+      channel: 'sms',
+      to: context.phone,
+      type,
+      subject: `SMS reply: ${type}`
+    },
+    REPLY_TEMPLATES[template],
+    {
+      company: getLocationName(job?.locationId),
+      position: job?.title || 'open',
+      screeningLink: application ? getScreeningLink(application) : ''
+    }
+  );
+}
+
+function noteOnApplication(application: JobApplication, notes: string): void {
+  updateApplicationStatus(application.id, application.status, undefined, notes, 'candidate');
+}
+
+function setOptOut(context: ReplyContext, optedOut: boolean): string {
+  for (const candidate of context.candidates) {
+    updateCandidate(candidate.id, { smsOptOutAt: optedOut ? new Date().toISOString() : undefined });
+  }
+  reply(context, optedOut ? 'stop' : 'start', optedOut ? 'sms_opt_out' : 'sms_opt_in');
+  return optedOut ? 'Texts turned off' : 'Texts turned back on';
+}
+
+function reschedule(context: ReplyContext, now: Date): string {
+  const application = context.application!;
+
+  if (application.screeningBooking?.status === 'booked') {
+    cancelScreeningBooking(application.id, 'candidate');
+    reply(context, 'screeningRescheduled', 'sms_screening_rescheduled');
+    return 'Screening booking cancelled; the candidate was sent the booking link';
+  }
+
+  const interview = listInterviews({ applicationId: application.id, status: 'scheduled' })
+    .find(scheduled => new Date(scheduled.startTime).getTime() > now.getTime());
+  if (interview) {
+    const reason = `Candidate asked by text to reschedule the interview on ${formatInterviewTime(interview.startTime)}`;
+    flagApplication(application.id, reason, 'sms_reply');
+    noteOnApplication(application, reason);
+    reply(context, 'interviewRescheduleRequested', 'sms_interview_reschedule_requested');
+    return 'Interview flagged for the recruiter to reschedule';
+  }
+
+  reply(context, 'nothingToReschedule', 'sms_nothing_to_reschedule');
+  return 'Nothing booked to reschedule';
+}
+
+function withdraw(context: ReplyContext): string {
+  const application = context.application!;
+  try {
+    withdrawApplication(application.id, 'Candidate withdrew by text message');
+  } catch (error) {
+    if (!(error instanceof HttpError)) {
+      throw error;
+    }
+    noteOnApplication(application, 'Candidate asked by text to withdraw');
+    return `Withdrawal noted; ${error.message}`;
+  }
+  reply(context, 'withdrawn', 'sms_withdrawn');
+  return 'Application withdrawn';
+}
+
+/**
+ * Acts on a text from a candidate and records it in the sms-inbound log.
+ * Texts from numbers that don't belong to a candidate are logged and ignored.
+ */
+export function handleInboundSms(message: InboundSms, now: Date = new Date()): SmsReplyRecord {
+  const phone = toE164(message.from) || message.from;
+  const candidates = getAllCandidates().filter(candidate => toE164(candidate.phone) === phone);
+  const command = parseSmsReply(message.body);
+  const context: ReplyContext = { phone, candidates, application: findOpenApplication(candidates) };
+
+  let outcome: string;
+  if (candidates.length === 0) {
+    outcome = 'Ignored: no candidate has this phone number';
+  } else if (command === 'stop' || command === 'start') {
+    outcome = setOptOut(context, command === 'stop');
+  } else if (command === 'help') {
+    reply(context, 'help', 'sms_help');
+    outcome = 'Sent the list of replies';
+  } else if (!context.application) {
+    outcome = 'Ignored: the candidate has no open application';
+  } else if (command === 'reschedule') {
+    outcome = reschedule(context, now);
+  } else if (command === 'withdraw') {
+    outcome = withdraw(context);
+  } else {
+    noteOnApplication(context.application, `Candidate texted: "${message.body.trim()}"`);
+    outcome = 'Added to the application timeline';
+  }
+
+  const record: SmsReplyRecord = {
+    ...message,
+    id: crypto.randomUUID(),
+    from: phone,
+    command,
+    candidateId: context.application?.candidateId || candidates[0]?.id,
+    applicationId: context.application?.id,
+    outcome
+  };
+  getStorageDriver().appendLog<SmsReplyRecord>(SMS_INBOUND_LOG, record);
+  console.log(`[SMS] ${command} from ${phone}: ${outcome}`);
+  return record;
+}
@@ -173,3 +173,38 @@ export function updateCandidateScreeningFromMarkdown(
     }
   };
 }
+
+/**
+ * Build the structured ScreeningSummary stored on a ScreeningCall from a markdown summary
+ */
+export function screeningSummaryFromMarkdown(markdownSummary: string): ScreeningSummary {
+  const parsedData = parseMarkdownSummary(markdownSummary);
+  const evaluations = parsedData.evaluations;
+  const roleSpecificEvaluation = parsedData.roleSpecificAnswers?.['Role-specific evaluation'] || '';
+
+  return {
+    experience: {
+      evaluation: evaluations?.experience.notes || '',
+      highlights: []
+    },
+    availability: {
+      morning: evaluations?.availability.morningShift || false,
+      evening: evaluations?.availability.eveningShift || false,
+      weekends: evaluations?.availability.weekendAvailable || false,
+      notes: evaluations?.availability.notes || ''
+    },
+    transportation: {
+      hasReliableTransportation: evaluations?.availability.transportation || false,
+      notes: ''
+    },
+    softSkills: {
+      evaluation: evaluations?.softSkills.notes || '',
+      highlights: []
+    },
+    roleSpecific: {
+      evaluation: roleSpecificEvaluation,
+      strengths: parsedData.strengths || [],
+      areas_of_improvement: parsedData.concerns || []
+    }
+  };
+}
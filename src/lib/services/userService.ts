@@ -0,0 +1,155 @@
+/**
+ * Staff user accounts (server-side only)
+ *
+ * Recruiters and admins sign in with their email and password. Admins manage
+ * accounts from /admin/users; the first admin is created with
+ * `npm run create-user`.
+ */
+
+import { Location, PublicUser, User, UserRole } from '../types';
+import { getStorageDriver } from '../data/storage';
+import { USER_ROLES } from '../auth/permissions';
+import { hashPassword, validatePassword, verifyPassword } from '../auth/passwords';
+import { HttpError } from '../http/httpError';
+
+const COLLECTION = 'users' as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface CreateUserInput {
+  email: string;
+  name: string;
+  role: UserRole;
+  password: string;
+  locationIds?: string[];
+}
+
+export type UserChanges = Partial<Pick<User, 'name' | 'role' | 'active' | 'locationIds'>> & { password?: string };
+
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+export function getUserById(id: string): User | null {
+  return getStorageDriver().findById<User>(COLLECTION, id);
+}
+
+export function findUserByEmail(email: string): User | null {
+  const normalized = (email || '').trim().toLowerCase();
+  return getStorageDriver().findAll<User>(COLLECTION).find(user => user.email === normalized) || null;
+}
+
+// Admins first, then by name
+export function listUsers(): User[] {
+  return getStorageDriver()
+    .findAll<User>(COLLECTION)
+    .sort((a, b) => a.role.localeCompare(b.role) || a.name.localeCompare(b.name));
+}
+
+function validateRole(role: unknown): UserRole {
+  if (!USER_ROLES.includes(role as UserRole)) {
+    throw new HttpError(`Role must be one of: ${USER_ROLES.join(', ')}`, 400);
+  }
+  return role as UserRole;
+}
+
+// Ids of existing locations, without duplicates; empty means all locations
+function validateLocationIds(locationIds: unknown): string[] {
+  if (!Array.isArray(locationIds) || locationIds.some(id => typeof id !== 'string')) {
+    throw new HttpError('locationIds must be a list of location ids', 400);
+  }
+  const unknownId = locationIds.find(id => !getStorageDriver().findById<Location>('locations', id));
+  if (unknownId) {
+    throw new HttpError(`Location ${unknownId} not found`, 400);
+  }
+  return Array.from(new Set(locationIds as string[]));
+}
+
+function validateName(name: unknown): string {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new HttpError('Name is required', 400);
+  }
+  return name.trim();
+}
+
+export function createUser(input: CreateUserInput): User {
+  const email = typeof input.email === 'string' ? input.email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new HttpError('A valid email address is required', 400);
+  }
+  if (findUserByEmail(email)) {
+    throw new HttpError(`A user with the email ${email} already exists`, 409);
+  }
+  const passwordError = validatePassword(input.password);
+  if (passwordError) {
+    throw new HttpError(passwordError, 400);
+  }
+
+  const now = new Date().toISOString();
+  return getStorageDriver().insert<User>(COLLECTION, {
+    id: `user-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    email,
+    name: validateName(input.name),
+    role: validateRole(input.role),
+    passwordHash: hashPassword(input.password),
+    locationIds: input.locationIds === undefined ? [] : validateLocationIds(input.locationIds),
+    active: true,
+    createdAt: now,
+    updatedAt: now
+  });
+}
+
+// There must always be someone who can manage users
+function isLastActiveAdmin(user: User): boolean {
+  return user.role === 'admin' && user.active &&
+    !listUsers().some(other => other.id !== user.id && other.role === 'admin' && other.active);
+}
+
+export function updateUser(id: string, changes: UserChanges): User {
+  const user = getUserById(id);
+  if (!user) {
+    throw new HttpError('User not found', 404);
+  }
+
+  const updates: Partial<User> = {};
+  if (changes.name !== undefined) updates.name = validateName(changes.name);
+  if (changes.role !== undefined) updates.role = validateRole(changes.role);
+  if (changes.active !== undefined) updates.active = !!changes.active;
+  if (changes.locationIds !== undefined) updates.locationIds = validateLocationIds(changes.locationIds);
+  if (changes.password !== undefined) {
+    const passwordError = validatePassword(changes.password);
+    if (passwordError) {
+      throw new HttpError(passwordError, 400);
+    }
+    updates.passwordHash = hashPassword(changes.password);
+  }
+
+  const demoted = (updates.role && updates.role !== 'admin') || updates.active === false;
+  if (demoted && isLastActiveAdmin(user)) {
+    throw new HttpError('At least one active admin is required', 409);
+  }
+
+  const updated = getStorageDriver().update<User>(COLLECTION, id, current => ({
+    ...current,
+    ...updates,
+    updatedAt: new Date().toISOString()
+  }));
+  if (!updated) {
+    throw new HttpError('User not found', 404);
+  }
+  return updated;
+}
+
+// The signed-in user, or null for an unknown email, wrong password or deactivated account
+export function authenticate(email: string, password: string): User | null {
+  const user = findUserByEmail(email);
+  if (!user || !user.active || typeof password !== 'string' || !verifyPassword(password, user.passwordHash)) {
+    return null;
+  }
+
+  return getStorageDriver().update<User>(COLLECTION, user.id, current => ({
+    ...current,
+    lastLoginAt: new Date().toISOString()
+  }));
+}
@@ -86,14 +86,15 @@ export function setupEnhancedVapiEventHandlers(vapi: any) {
 }
 
 /**
- * REST API method to get call data after the call
+ * REST API method to get call data after the call.
+ * Server-side callers pass the app's base URL so mock calls can reach /api/mock-vapi.
  */
-export async function getCallData(callId: string): Promise<VapiCallData | null> {
+export async function getCallData(callId: string, baseUrl: string = ''): Promise<VapiCallData | null> {
   try {
     // Check for test mode - if the call ID starts with 'mock-', use our mock API
     if (callId.startsWith('mock-')) {
       console.log('Using mock API for testing');
-      const response = await fetch(`/api/mock-vapi?callId=${callId}`);
+      const response = await fetch(`${baseUrl}/api/mock-vapi?callId=${callId}`);
       
       if (!response.ok) {
         throw new Error(`Failed to get mock call data: ${response.statusText}`);
@@ -0,0 +1,398 @@
+/**
+ * Application workflows (server-side only)
+ *
+ * Each screening role has its own pipeline: the steps an application goes
+ * through, which status changes are allowed and by whom, which of them need a
+ * note, and what runs automatically once one is made. Admins edit them under
+ * /admin/workflows; they're saved in config.json and every status change made
+ * through the status API is checked against the job's workflow. Steps may also
+ * set a time limit, which the SLA scheduler (slaService) enforces.
+ */
+
+import { ApplicationStatus, ApplicationStep, Job, JobApplication, ScreeningRole } from '../types';
+import { UpdateOptions } from '../data/storage';
+import { configRepository } from '../data/repositories/config-repository';
+import { getJobById } from '../servers/jobs-server';
+import { determineScreeningRole } from '../screening/screeningService';
+import { getStatusDisplayInfo } from '../utils/statusManager';
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STEPS,
+  DEFAULT_WORKFLOW_CONFIG,
+  StatusTransition,
+  WORKFLOW_ACTORS,
+  WORKFLOW_ROLES,
+  WorkflowActor,
+  WorkflowAutomation,
+  WorkflowConfig,
+  WorkflowStepConfig,
+  findStatusTransition,
+  getStepForStatus
+} from '../workflow/workflowUtils';
+import { getApplicationById, setScreeningBooking, updateApplicationStatus } from './applicationService';
+import { cancelInterview, listInterviews } from './interviewService';
+import { HttpError } from '../http/httpError';
+
+const AUTOMATION_TYPES: WorkflowAutomation['type'][] = ['cancel_screening_booking', 'cancel_interviews', 'advance_to'];
+
+export interface StatusChange {
+  status: ApplicationStatus;
+  actor: WorkflowActor;
+  notes?: string;
+  step?: ApplicationStep; // Overrides the step the workflow puts the application at
+}
+
+function label(status: ApplicationStatus): string {
+  return getStatusDisplayInfo(status)?.label || status;
+}
+
+function copyOf(workflow: WorkflowConfig): WorkflowConfig {
+  return JSON.parse(JSON.stringify(workflow));
+}
+
+function assertRole(role: string): ScreeningRole {
+  if (!WORKFLOW_ROLES.includes(role as ScreeningRole)) {
+    throw new HttpError(`No workflow for role ${role}`, 404);
+  }
+  return role as ScreeningRole;
+}
+
+// Roles without a saved workflow use the default pipeline
+export function getWorkflow(role: ScreeningRole): WorkflowConfig {
+  return configRepository.getConfig().workflows?.[role] || copyOf(DEFAULT_WORKFLOW_CONFIG);
+}
+
+export function getWorkflows(): Record<ScreeningRole, WorkflowConfig> {
+  const saved = configRepository.getConfig().workflows || {};
+  return Object.fromEntries(
+    WORKFLOW_ROLES.map(role => [role, saved[role] || copyOf(DEFAULT_WORKFLOW_CONFIG)])
+  ) as Record<ScreeningRole, WorkflowConfig>;
+}
+
+// Jobs that were removed fall back to the general workflow
+export function getWorkflowRoleForJob(job: Pick<Job, 'title' | 'department'> | null): ScreeningRole {
+  return job ? determineScreeningRole(job.title, job.department) : 'general';
+}
+
+export function getWorkflowForApplication(application: Pick<JobApplication, 'jobId'>): WorkflowConfig {
+  return getWorkflow(getWorkflowRoleForJob(getJobById(application.jobId)));
+}
+
+function validateSteps(steps: unknown, errors: string[]): WorkflowStepConfig[] {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    errors.push('A workflow needs at least one step');
+    return [];
+  }
+
+  const seenSteps = new Set<string>();
+  const seenStatuses = new Set<string>();
+  return steps.map((step: any, index) => {
+    const name = typeof step?.step === 'string' ? step.step : `step ${index + 1}`;
+    if (!APPLICATION_STEPS.includes(step?.step)) {
+      errors.push(`Unknown step ${name}`);
+    } else if (seenSteps.has(step.step)) {
+      errors.push(`Step ${name} is listed twice`);
+    }
+    seenSteps.add(step?.step);
+
+    if (typeof step?.label !== 'string' || !step.label.trim()) {
+      errors.push(`Step ${name} needs a label`);
+    }
+    const statuses: unknown[] = Array.isArray(step?.statuses) ? step.statuses : [];
+    for (const status of statuses) {
+      if (!APPLICATION_STATUSES.includes(status as ApplicationStatus)) {
+        errors.push(`Step ${name} lists unknown status ${String(status)}`);
+      } else if (seenStatuses.has(status as string)) {
+        errors.push(`${label(status as ApplicationStatus)} is on more than one step`);
+      }
+      seenStatuses.add(status as string);
+    }
+
+    const slaHours = step?.slaHours === undefined || step?.slaHours === null || step?.slaHours === '' ? undefined : Number(step.slaHours);
+    if (slaHours !== undefined && !(slaHours > 0)) {
+      errors.push(`The time limit for step ${name} must be a positive number of hours`);
+    }
+    const slaAutoTransition = step?.slaAutoTransition || undefined;
+    if (slaAutoTransition !== undefined && !APPLICATION_STATUSES.includes(slaAutoTransition)) {
+      errors.push(`Step ${name} moves overdue applications to unknown status ${String(slaAutoTransition)}`);
+    } else if (slaAutoTransition && slaHours === undefined) {
+      errors.push(`Step ${name} needs a time limit to move overdue applications on`);
+    }
+
+    return {
+      step: step?.step,
+      label: String(step?.label || '').trim(),
+      description: String(step?.description || '').trim(),
+      requiredFor: Array.isArray(step?.requiredFor) ? step.requiredFor.map(String) : ['all'],
+      isOptional: !!step?.isOptional,
+      estimatedDuration: String(step?.estimatedDuration || '').trim(),
+      automatable: !!step?.automatable,
+      statuses: statuses as ApplicationStatus[],
+      ...(slaHours !== undefined && { slaHours }),
+      ...(slaAutoTransition && { slaAutoTransition })
+    };
+  });
+}
+
+// The scheduler can only make moves the system is allowed to make
+function validateSlaAutoTransitions(workflow: WorkflowConfig, errors: string[]): void {
+  for (const step of workflow.steps) {
+    const target = step.slaAutoTransition;
+    if (target && !step.statuses.some(status => findStatusTransition(status, target, workflow)?.allowedBy.includes('system'))) {
+      errors.push(`${step.label} moves overdue applications to ${label(target)}, which needs a transition from one of its statuses the system may make`);
+    }
+  }
+}
+
+function validateAutomations(automations: unknown, name: string, errors: string[]): WorkflowAutomation[] | undefined {
+  if (automations === undefined || automations === null) {
+    return undefined;
+  }
+  if (!Array.isArray(automations)) {
+    errors.push(`Automations for ${name} must be a list`);
+    return undefined;
+  }
+
+  const seen = new Set<string>();
+  const valid = automations.filter((automation: any) => {
+    if (!AUTOMATION_TYPES.includes(automation?.type)) {
+      errors.push(`Unknown automation ${String(automation?.type)} on ${name}`);
+      return false;
+    }
+    if (seen.has(automation.type)) {
+      errors.push(`${name} has the ${automation.type} automation twice`);
+      return false;
+    }
+    seen.add(automation.type);
+    if (automation.type === 'advance_to' && !APPLICATION_STATUSES.includes(automation.status)) {
+      errors.push(`${name} must say which status to move on to`);
+      return false;
+    }
+    return true;
+  });
+  return valid.length > 0
+    ? valid.map((automation: any) => (automation.type === 'advance_to' ? { type: 'advance_to', status: automation.status } : { type: automation.type }))
+    : undefined;
+}
+
+function validateTransitions(transitions: unknown, errors: string[]): StatusTransition[] {
+  if (!Array.isArray(transitions)) {
+    errors.push('statusTransitions must be a list');
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const valid = transitions.flatMap((transition: any): StatusTransition[] => {
+    const { from, to } = transition || {};
+    if (!APPLICATION_STATUSES.includes(from) || !APPLICATION_STATUSES.includes(to)) {
+      errors.push(`Unknown status in transition ${String(from)} → ${String(to)}`);
+      return [];
+    }
+    const name = `${label(from)} → ${label(to)}`;
+    if (from === to) {
+      errors.push(`${name} doesn't change the status`);
+      return [];
+    }
+    if (seen.has(`${from}:${to}`)) {
+      errors.push(`${name} is listed twice`);
+      return [];
+    }
+    seen.add(`${from}:${to}`);
+
+    const allowedBy = Array.isArray(transition.allowedBy)
+      ? WORKFLOW_ACTORS.filter(actor => transition.allowedBy.includes(actor))
+      : [];
+    if (allowedBy.length === 0) {
+      errors.push(`${name} must be allowed for someone`);
+    }
+    return [{
+      from,
+      to,
+      allowedBy,
+      requiresNotes: !!transition.requiresNotes,
+      automations: validateAutomations(transition.automations, name, errors)
+    }];
+  });
+
+  // Moving on automatically only works when the system may make that move
+  for (const transition of valid) {
+    const advanceTo = transition.automations?.find(automation => automation.type === 'advance_to')?.status;
+    if (advanceTo && !findStatusTransition(transition.to, advanceTo, { steps: [], statusTransitions: valid })?.allowedBy.includes('system')) {
+      errors.push(`${label(transition.from)} → ${label(transition.to)} moves on to ${label(advanceTo)}, which needs a ${label(transition.to)} → ${label(advanceTo)} transition the system may make`);
+    }
+  }
+  return valid;
+}
+
+// Checks a workflow sent by the editor, reporting every problem at once
+export function validateWorkflow(input: any): WorkflowConfig {
+  if (!input || typeof input !== 'object') {
+    throw new HttpError('Workflow is required', 400);
+  }
+
+  const errors: string[] = [];
+  const workflow = {
+    steps: validateSteps(input.steps, errors),
+    statusTransitions: validateTransitions(input.statusTransitions, errors)
+  };
+  validateSlaAutoTransitions(workflow, errors);
+  if (errors.length > 0) {
+    throw new HttpError(errors.join('; '), 400);
+  }
+  return workflow;
+}
+
+export function updateWorkflow(role: string, input: unknown): WorkflowConfig {
+  const workflowRole = assertRole(role);
+  const workflow = validateWorkflow(input);
+  const config = configRepository.getConfig();
+  configRepository.updateConfig({ ...config, workflows: { ...config.workflows, [workflowRole]: workflow } });
+  return workflow;
+}
+
+// Puts the role back on the default pipeline
+export function resetWorkflow(role: string): WorkflowConfig {
+  return updateWorkflow(role, copyOf(DEFAULT_WORKFLOW_CONFIG));
+}
+
+/**
+ * The transition for a status change, or an HttpError saying why it isn't
+ * allowed: 400 when the workflow has no such move or it needs a note, 403 when
+ * the actor may not make it.
+ */
+export function assertStatusTransition(
+  workflow: WorkflowConfig,
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+  actor: WorkflowActor,
+  notes?: string
+): StatusTransition {
+  if (!APPLICATION_STATUSES.includes(to)) {
+    throw new HttpError(`Unknown status ${String(to)}`, 400);
+  }
+  if (from === to) {
+    throw new HttpError(`The application is already ${label(to).toLowerCase()}`, 400);
+  }
+
+  const transition = findStatusTransition(from, to, workflow);
+  if (!transition) {
+    throw new HttpError(`Application can't be moved from ${label(from)} to ${label(to)}`, 400);
+  }
+  if (!transition.allowedBy.includes(actor)) {
+    const staff = transition.allowedBy.filter(role => role === 'recruiter' || role === 'admin');
+    throw new HttpError(
+      staff.length > 0
+        ? `Only ${staff.join(' or ')} users can move a ${label(from)} application to ${label(to)}`
+        : `${label(from)} applications move to ${label(to)} automatically`,
+      403
+    );
+  }
+  if (transition.requiresNotes && !notes?.trim()) {
+    throw new HttpError(`Add a note to move a ${label(from)} application to ${label(to)}`, 400);
+  }
+  return transition;
+}
+
+/**
+ * The step, checked against the workflow: 400 unless it is one of the
+ * workflow's steps and either lists the status or is a step without statuses
+ * (like hiring_decision) that an application can sit at whatever its status.
+ */
+export function assertStepForStatus(
+  workflow: WorkflowConfig,
+  step: unknown,
+  status: ApplicationStatus
+): ApplicationStep {
+  const config = workflow.steps.find(candidate => candidate.step === step);
+  if (!config) {
+    throw new HttpError(`Unknown step ${String(step)}`, 400);
+  }
+  if (config.statuses.length > 0 && !config.statuses.includes(status)) {
+    throw new HttpError(`${label(status)} applications can't be at step ${config.label}`, 400);
+  }
+  return config.step;
+}
+
+// Follows the transition's automations; `visited` stops advance_to from going round in circles
+function runAutomations(
+  application: JobApplication,
+  transition: StatusTransition,
+  workflow: WorkflowConfig,
+  actor: WorkflowActor,
+  visited: Set<ApplicationStatus>
+): void {
+  for (const automation of transition.automations || []) {
+    try {
+      const current = getApplicationById(application.id) || application;
+      switch (automation.type) {
+        case 'cancel_screening_booking':
+          if (current.screeningBooking?.status === 'booked') {
+            setScreeningBooking(current.id, { ...current.screeningBooking, status: 'cancelled' });
+          }
+          break;
+        case 'cancel_interviews':
+          for (const interview of listInterviews({ applicationId: current.id, status: 'scheduled' })) {
+            cancelInterview(interview.id, `Application ${label(transition.to).toLowerCase()}`, actor);
+          }
+          break;
+        case 'advance_to': {
+          const next = automation.status && findStatusTransition(current.status, automation.status, workflow);
+          if (!next || !next.allowedBy.includes('system') || visited.has(next.to)) {
+            break;
+          }
+          visited.add(next.to);
+          const advanced = updateApplicationStatus(
+            current.id,
+            next.to,
+            getStepForStatus(next.to, workflow) || undefined,
+            `Moved on to ${next.to.replace(/_/g, ' ')} automatically`,
+            'system'
+          );
+          if (advanced) {
+            runAutomations(advanced, next, workflow, 'system', visited);
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      // The status change itself already happened; a failed hook shouldn't undo or fail it
+      console.error(`Workflow automation ${automation.type} failed for application ${application.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Moves an application to a new status after checking the change against its
+ * job's workflow, then runs the transition's automations. Throws
+ * StorageConflictError when options.expectedUpdatedAt is stale.
+ */
+export function transitionApplication(
+  applicationId: string,
+  change: StatusChange,
+  options?: UpdateOptions
+): JobApplication {
+  const application = getApplicationById(applicationId);
+  if (!application) {
+    throw new HttpError('Application not found', 404);
+  }
+
+  const workflow = getWorkflowForApplication(application);
+  const transition = assertStatusTransition(workflow, application.status, change.status, change.actor, change.notes);
+  const step = change.step === undefined ? getStepForStatus(change.status, workflow) : assertStepForStatus(workflow, change.step, change.status);
+  const note = `Application status changed to ${change.status.replace(/_/g, ' ')}${change.notes?.trim() ? `: ${change.notes.trim()}` : ''}`;
+
+  const updated = updateApplicationStatus(
+    application.id,
+    change.status,
+    step || undefined,
+    note,
+    change.actor,
+    options
+  );
+  if (!updated) {
+    throw new HttpError('Application not found', 404);
+  }
+
+  runAutomations(updated, transition, workflow, change.actor, new Set([application.status, change.status]));
+  return getApplicationById(updated.id) || updated;
+}
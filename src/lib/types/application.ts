@@ -1,4 +1,5 @@
 import { BaseEntity, ApplicationStatus, ApplicationStep, TimelineEntry } from './common';
+import { ScreeningChannel } from './screening';
 
 export interface JobApplication extends BaseEntity {
   jobId: string;
@@ -12,6 +13,59 @@ export interface JobApplication extends BaseEntity {
   recruiterNotes?: string;
   timeline: TimelineEntry[];
   feedback: Record<string, any>;
+  flags?: ApplicationFlag[]; // Raised automatically for a recruiter to look at
+  tags?: string[]; // Labels recruiters add, e.g. "weekends only"
+  screeningBooking?: ScreeningBooking; // Time slot the candidate picked for their screening
+  notificationDeliveries?: NotificationDelivery[]; // Messages sent to the candidate, newest last
+  portalToken?: string; // Secret in the candidate's magic link to their status portal
+  slaEscalation?: SlaEscalation; // Last time the SLA scheduler flagged it as overdue
+}
+
+export interface SlaEscalation {
+  status: ApplicationStatus; // Status the application sat in for too long
+  since: string; // When it got to that status
+  escalatedAt: string;
+}
+
+export type ScreeningBookingStatus = 'booked' | 'started' | 'missed' | 'failed' | 'cancelled';
+
+export interface ScreeningBooking {
+  slotStart: string;
+  slotEnd: string;
+  channel: ScreeningChannel;
+  status: ScreeningBookingStatus;
+  bookedAt: string;
+  reminderSentAt?: string;
+  startedAt?: string; // When the scheduler opened the screening link or placed the call
+  screeningId?: string; // Phone screening placed for the booking
+  error?: string; // Why the scheduler could not start the screening
+}
+
+// queued -> sent, or failed once the delivery job runs out of attempts
+export type NotificationDeliveryStatus = 'queued' | 'sent' | 'failed';
+
+export type NotificationChannel = 'email' | 'sms';
+
+export interface NotificationDelivery {
+  notificationId: string;
+  type: string; // What prompted it, e.g. 'status_rejected'
+  channel: NotificationChannel;
+  to: string; // Email address, or phone number in E.164 form for SMS
+  subject: string;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  transport?: string; // e.g. 'smtp' or 'file', or the SMS provider
+  messageId?: string;
+  lastError?: string;
+  queuedAt: string;
+  lastAttemptAt?: string;
+  sentAt?: string;
+}
+
+export interface ApplicationFlag {
+  reason: string;
+  source: 'knockout' | 'sms_reply' | 'sla';
+  createdAt: string;
 }
 
 export interface ApplicationTimelineEntry extends TimelineEntry {
@@ -0,0 +1,29 @@
+export type AuditEntityType = 'application' | 'candidate' | 'job' | 'screening' | 'interview' | 'user' | 'location' | 'config';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditActorRole = 'system' | 'candidate' | 'recruiter' | 'admin';
+
+export interface AuditActor {
+  role: AuditActorRole;
+  id?: string;
+  name?: string;
+}
+
+// One changed field; `path` uses dot notation for nested fields (e.g. "screeningSummary.overallScore")
+export interface AuditChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: AuditActor;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  source: string; // e.g. "PATCH /api/applications/app-123/status"
+  changes: AuditChange[];
+}
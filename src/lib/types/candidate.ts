@@ -1,4 +1,5 @@
 import { BaseEntity } from './common';
+import { CriterionScore, ScreeningStructuredData } from './screening';
 
 export interface Candidate extends BaseEntity {
   firstName: string;
@@ -6,12 +7,12 @@ export interface Candidate extends BaseEntity {
   email: string;
   phone?: string;
   resumeUrl?: string;
-  resumePath?: string; // Legacy property for compatibility
   resumeFileName?: string; // Legacy property for compatibility
   screeningSummary?: CandidateScreeningSummary;
   screeningId?: string;
   screeningCompleted?: boolean; // Legacy property for compatibility
   recruiterNotes?: string; // For recruiter notes
+  smsOptOutAt?: string; // Replied STOP; no texts until they reply START
 }
 
 export interface CandidateScreeningSummary {
@@ -36,10 +37,12 @@ export interface CandidateScreeningSummary {
     };
   };
   roleSpecificAnswers: Record<string, string>;
+  structuredData?: ScreeningStructuredData; // Typed answers from the call, when extraction succeeded
   overallSummary: string;
   recommendedNextSteps: string;
   completedAt: string;
   overallScore: number;
+  criteriaScores?: CriterionScore[]; // How overallScore was reached, one entry per evaluation criterion
   recommendation: 'hire' | 'reject' | 'maybe';
   aiSummary: string;
   strengths: string[];
@@ -12,6 +12,8 @@ export interface TimelineEntry {
   notes?: string;
   completedBy?: string;
   performedBy?: 'system' | 'candidate' | 'recruiter' | 'admin';
+  performedByUser?: { id: string; name: string }; // The signed-in staff member, when there was one
+  applicationStatus?: ApplicationStatus; // Status the application was in after this entry
 }
 
 export type ApplicationStatus = 
@@ -26,18 +28,25 @@ export type ApplicationStatus =
   | 'rejected' 
   | 'withdrawn';
 
+// The single definition of workflow steps; types/applications.ts and
+// data/validators/applications.ts re-export it
 export type ApplicationStep = 
   | 'application_submitted'
-  | 'resume_uploaded'
   | 'resume_review'
+  | 'resume_uploaded'
   | 'screening_call_pending'
   | 'screening_call_scheduled'
   | 'screening_call_completed'
-  | 'recruiter_review'
   | 'interview_scheduled'
   | 'interview_completed'
   | 'reference_check'
+  | 'manager_review'
+  | 'recruiter_review'
+  | 'offer_pending'
   | 'hiring_decision'
+  | 'onboarding'
+  | 'completed'
+  | 'rejected'
   | 'process_complete';
 
 export type ScreeningRole = 'server' | 'cook' | 'host' | 'manager' | 'general';
@@ -4,3 +4,8 @@ export * from './application';
 export * from './candidate';
 export * from './job';
 export * from './screening';
+export * from './audit';
+export * from './queue';
+export * from './interview';
+export * from './user';
+export * from './location';
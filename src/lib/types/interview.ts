@@ -0,0 +1,54 @@
+import { BaseEntity } from './common';
+
+export type InterviewFormat = 'in_person' | 'phone' | 'video';
+
+// scheduled -> completed, or cancelled / no_show
+export type InterviewStatus = 'scheduled' | 'completed' | 'cancelled' | 'no_show';
+
+// The hiring decision the panel came to; set when the interview is completed
+export type InterviewOutcome = 'advance' | 'hold' | 'reject';
+
+export type InterviewRecommendation = 'strong_yes' | 'yes' | 'no' | 'strong_no';
+
+export interface Interviewer {
+  name: string;
+  email?: string;
+}
+
+export interface ScorecardRating {
+  criterion: string;
+  score: number; // 1-5
+  notes?: string;
+}
+
+// Feedback from one interviewer
+export interface InterviewScorecard {
+  id: string;
+  interviewer: string;
+  ratings: ScorecardRating[];
+  overallScore: number; // Average of the ratings, 1-5
+  recommendation: InterviewRecommendation;
+  comments?: string;
+  submittedAt: string;
+}
+
+export interface Interview extends BaseEntity {
+  applicationId: string;
+  candidateId: string;
+  jobId: string;
+  interviewer: Interviewer;
+  format: InterviewFormat;
+  location?: string; // Address, meeting link or dial-in, depending on the format
+  startTime: string;
+  endTime: string;
+  status: InterviewStatus;
+  outcome?: InterviewOutcome;
+  notes?: string;
+  scorecards: InterviewScorecard[];
+  sequence: number; // iCalendar SEQUENCE; bumped whenever the invite changes
+  inviteToken?: string; // Secret in the emailed invite link; left out of API responses
+  scheduledBy?: string;
+  completedAt?: string;
+  cancelledAt?: string;
+  cancellationReason?: string;
+}
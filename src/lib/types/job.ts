@@ -1,4 +1,5 @@
 import { BaseEntity } from './common';
+import { VapiSettingsOverride } from './vapi';
 
 export interface Job extends BaseEntity {
   title: string;
@@ -10,4 +11,6 @@ export interface Job extends BaseEntity {
   weekendRequired: boolean;
   hourlyRate: string;
   status: string;
+  locationId?: string; // Jobs without one predate multi-location support
+  vapiOverrides?: VapiSettingsOverride; // Screening assistant settings for this job, applied over the role's
 }
@@ -0,0 +1,25 @@
+import { BaseEntity } from './common';
+import type { ScreeningAvailabilityWindow } from '../screening/screeningSlots';
+
+export interface LocationAddress {
+  street: string;
+  city: string;
+  state: string;
+  postalCode: string;
+}
+
+export interface HiringManager {
+  name: string;
+  email?: string;
+  phone?: string;
+}
+
+// A restaurant served by this install. Jobs, screenings and recruiters belong to one.
+export interface Location extends BaseEntity {
+  name: string; // Shown to candidates and used as {locationName} in screening prompts
+  address: LocationAddress;
+  timezone: string; // IANA zone, e.g. America/Chicago; screening hours are read in it
+  hiringManager?: HiringManager;
+  screeningHours?: ScreeningAvailabilityWindow[]; // Replaces the global availability windows for this location's jobs
+  active: boolean; // Inactive locations can't get new jobs
+}
@@ -0,0 +1,38 @@
+// Background jobs run by the server-side worker (see lib/queue)
+export type BackgroundJobType = 'process-end-of-call-report' | 'fetch-call-results' | 'deliver-notification';
+
+// queued -> running -> succeeded, or back to queued with a backoff; dead once out of attempts
+export type BackgroundJobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+export interface BackgroundJobAttemptError {
+  attempt: number;
+  at: string;
+  message: string;
+}
+
+export interface BackgroundJob<TPayload = Record<string, any>> {
+  id: string;
+  type: BackgroundJobType;
+  payload: TPayload;
+  status: BackgroundJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string; // Not picked up before this time
+  dedupeKey?: string; // At most one queued or running job per key
+  lockedBy?: string; // Worker run that claimed the job
+  lockedUntil?: string; // A running job past this time was abandoned (e.g. a restart) and is picked up again
+  lastError?: string;
+  errors: BackgroundJobAttemptError[];
+  result?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  deadAt?: string;
+}
+
+export interface BackgroundJobStats {
+  queued: number;
+  running: number;
+  succeeded: number;
+  dead: number;
+}
@@ -26,18 +26,34 @@ export interface ScreeningSummary {
   };
 }
 
+// How the screening call reaches the candidate; records without a channel are browser calls
+export type ScreeningChannel = 'web' | 'phone';
+
 export interface ScreeningCall extends BaseEntity {
   applicationId: string;
   candidateId: string;
   jobId: string;
+  locationId?: string; // The job's location when the screening was created
   status: ApplicationStatus;
+  channel?: ScreeningChannel;
+  phoneNumber?: string; // E.164 number dialled for phone screenings
   scheduledAt: string;
   startedAt?: string;
   completedAt?: string; 
   duration?: number;
   summary?: ScreeningSummary;
+  summaryMarkdown?: string; // Markdown summary as returned by VAPI
   transcript?: string;
   audioUrl?: string;
+  completedVia?: 'webhook' | 'job' | 'client'; // Which path recorded the call results
+  endedReason?: string; // VAPI endedReason from the end-of-call report
+  structuredData?: ScreeningStructuredData; // Validated analysis.structuredData from the end-of-call report
+  structuredDataRaw?: Record<string, any>; // What VAPI returned when it failed validation
+  structuredDataErrors?: string[];
+  successEvaluation?: string; // analysis.successEvaluation from the end-of-call report
+  callDiagnostics?: ScreeningCallDiagnostics;
+  criteriaScores?: CriterionScore[]; // Per-criterion breakdown behind `score`
+  knockoutResults?: KnockoutResult[]; // Knockout questions checked once the call completed
   questions?: ScreeningQuestion[];
   responses?: ScreeningResponse[];
   errorMessage?: string;
@@ -81,6 +97,56 @@ export interface ScreeningCall extends BaseEntity {
   aiCallProviderQuotaExceededMessage?: string; // AI provider request quota exceeded message, if applicable
 }
 
+export interface RoleQuestionAnswer {
+  question: string;
+  answer: string;
+  satisfactory?: boolean;
+}
+
+// Answers extracted by VAPI using the role's structuredDataSchema (see lib/screening/structuredData.ts)
+export interface ScreeningStructuredData {
+  morningShiftAvailable: boolean;
+  eveningShiftAvailable: boolean;
+  weekendAvailable: boolean;
+  hasReliableTransportation: boolean;
+  yearsOfExperience: number | null;
+  availabilityNotes?: string;
+  roleQuestionAnswers: RoleQuestionAnswer[];
+  [roleField: string]: unknown; // Extra fields a role's schema asks for
+}
+
+// One configured evaluation criterion, rated from the call (see lib/screening/scoringEngine.ts)
+export interface CriterionScore {
+  criterion: string; // Key in the role's evaluationCriteria
+  description: string;
+  weight: number; // Weight as configured
+  normalizedWeight: number; // Share of the overall score after weights are normalized to 1
+  rating: number | null; // 1-10, or null when the call gave nothing to rate it on
+  evidence: string; // Quote from the candidate, or the structured answer, behind the rating
+  source: 'structured-data' | 'transcript' | 'none';
+}
+
+// What happens to an application that fails a knockout question (see lib/screening/knockoutQuestions.ts)
+export type KnockoutAction = 'flag' | 'under_review' | 'reject';
+
+export interface KnockoutResult {
+  question: string;
+  answer: string; // The candidate's answer, e.g. "no" or "not answered"
+  expectedAnswer: string;
+  passed: boolean | null; // null when the candidate didn't answer
+  action?: KnockoutAction; // Set when the result calls for an action
+  note?: string;
+}
+
+// Hang and speech activity reported by VAPI during the call
+export interface ScreeningCallDiagnostics {
+  hangCount: number;
+  lastHangAt?: string;
+  speechTurns: number;
+  lastSpeechAt?: string;
+  lastSpeaker?: 'assistant' | 'user';
+}
+
 export interface ScreeningQuestion {
   id: string;
   question: string;
@@ -0,0 +1,17 @@
+import { BaseEntity } from './common';
+
+// Staff roles; candidates never have accounts and use their portal link instead
+export type UserRole = 'recruiter' | 'admin';
+
+export interface User extends BaseEntity {
+  email: string; // Stored lower-case; used to sign in
+  name: string;
+  role: UserRole;
+  passwordHash: string; // scrypt, see lib/auth/passwords.ts
+  locationIds?: string[]; // Locations a recruiter works; empty or missing means all of them
+  active: boolean; // Deactivated users can't sign in and their sessions stop working
+  lastLoginAt?: string;
+}
+
+// A user as returned by the API, without the password hash
+export type PublicUser = Omit<User, 'passwordHash'>;
@@ -2,6 +2,15 @@
  * Type definitions for Vapi.ai SDK
  */
 
+// Assistant settings a role (config.json) or a job can override on top of vapiSettings
+export interface VapiSettingsOverride {
+  voice?: { provider?: string; voiceId?: string };
+  model?: { provider?: string; model?: string };
+  transcriber?: { provider?: string; model?: string; language?: string };
+  conversationTone?: string;
+  maxCallDuration?: number; // Seconds
+}
+
 export interface VapiCallSummary {
   summary?: string;
   transcript?: string;
@@ -36,3 +45,110 @@ export interface VapiSdk {
   stop(): void;
   [key: string]: any;
 }
+
+/**
+ * Server messages posted by Vapi to the assistant's server URL
+ */
+
+export type VapiServerMessageType =
+  | 'end-of-call-report'
+  | 'status-update'
+  | 'hang'
+  | 'speech-update'
+  | 'transcript'
+  | 'tool-calls'
+  | 'conversation-update'
+  | 'model-output'
+  | string;
+
+export type VapiCallStatus = 'scheduled' | 'queued' | 'ringing' | 'in-progress' | 'forwarding' | 'ended';
+
+// Metadata we attach to every screening assistant so webhooks can find their screening
+export interface VapiScreeningMetadata {
+  screeningId?: string;
+  applicationId?: string;
+  candidateId?: string;
+  jobId?: string;
+}
+
+export interface VapiServerCall {
+  id: string;
+  type?: string;
+  status?: VapiCallStatus;
+  startedAt?: string;
+  endedAt?: string;
+  endedReason?: string;
+  cost?: number;
+  metadata?: VapiScreeningMetadata & Record<string, any>;
+  assistantOverrides?: {
+    metadata?: VapiScreeningMetadata & Record<string, any>;
+    [key: string]: any;
+  };
+  [key: string]: any;
+}
+
+export interface VapiCallAnalysis {
+  summary?: string;
+  structuredData?: Record<string, any>;
+  successEvaluation?: string | boolean | number;
+}
+
+export interface VapiCallArtifact {
+  transcript?: string;
+  recordingUrl?: string;
+  stereoRecordingUrl?: string;
+  recording?: {
+    stereoUrl?: string;
+    mono?: { combinedUrl?: string };
+  };
+  messages?: Array<Record<string, any>>;
+}
+
+interface VapiServerMessageBase {
+  type: VapiServerMessageType;
+  timestamp?: number | string;
+  call?: VapiServerCall;
+  assistant?: {
+    metadata?: VapiScreeningMetadata & Record<string, any>;
+    [key: string]: any;
+  };
+}
+
+export interface VapiEndOfCallReport extends VapiServerMessageBase {
+  type: 'end-of-call-report';
+  endedReason?: string;
+  startedAt?: string;
+  endedAt?: string;
+  durationSeconds?: number;
+  cost?: number;
+  summary?: string;
+  transcript?: string;
+  recordingUrl?: string;
+  stereoRecordingUrl?: string;
+  analysis?: VapiCallAnalysis;
+  artifact?: VapiCallArtifact;
+}
+
+export interface VapiStatusUpdate extends VapiServerMessageBase {
+  type: 'status-update';
+  status: VapiCallStatus;
+  endedReason?: string;
+}
+
+export interface VapiHangMessage extends VapiServerMessageBase {
+  type: 'hang';
+}
+
+export interface VapiSpeechUpdate extends VapiServerMessageBase {
+  type: 'speech-update';
+  status: 'started' | 'stopped';
+  role: 'assistant' | 'user';
+  turn?: number;
+}
+
+export type VapiServerMessage =
+  | VapiEndOfCallReport
+  | VapiStatusUpdate
+  | VapiHangMessage
+  | VapiSpeechUpdate
+  | (VapiServerMessageBase & Record<string, any>);
@@ -20,7 +20,8 @@ export function candidatesToCSV(
     'Application Date',
     'Application Status',
     'Screening Completed',
-    'Recruiter Notes'
+    'Recruiter Notes',
+    'Tags'
   ];
 
   // Helper to safely convert values and handle commas
@@ -51,7 +52,8 @@ export function candidatesToCSV(
       application ? new Date(application.submittedAt).toLocaleDateString() : 'N/A',
       application?.status?.replace(/_/g, ' ') || 'Unknown',
       candidate.screeningCompleted ? 'Yes' : 'No',
-      candidate.recruiterNotes || ''
+      candidate.recruiterNotes || '',
+      application?.tags?.join('; ') || ''
     ].map(safeValue);
   });
 
@@ -88,7 +90,8 @@ export function candidatesToJSON(
         position: job?.title || 'Unknown Position',
         department: job?.department || 'Unknown Department',
         date: application ? new Date(application.submittedAt).toLocaleDateString() : 'N/A',
-        status: application?.status?.replace(/_/g, ' ') || 'Unknown'
+        status: application?.status?.replace(/_/g, ' ') || 'Unknown',
+        tags: application?.tags || []
       },
       screening: {
         completed: candidate.screeningCompleted,
@@ -1,17 +1,15 @@
-import fs from 'fs';
-import path from 'path';
 import { ScreeningConfig } from '../screening/screeningConfigUtils';
+import { DEFAULT_KNOCKOUT_QUESTIONS } from '../screening/knockoutQuestions';
+import { DEFAULT_SCREENING_SCHEDULING } from '../screening/screeningSlots';
+import { DEFAULT_NOTIFICATION_TEMPLATES, DEFAULT_SMS_TEMPLATES } from '../notifications/templates';
+import { getDefaultStructuredDataSchema } from '../screening/structuredData';
+import { getStorageDriver } from '../data/storage';
 
-const CONFIG_FILE_PATH = path.join(process.cwd(), 'data', 'config.json');
-
-// Ensure the config file exists
+// Ensure the config document exists
 export const ensureConfigFile = () => {
-  const dataDir = path.dirname(CONFIG_FILE_PATH);
-  if (!fs.existsSync(dataDir)) {
-    fs.mkdirSync(dataDir, { recursive: true });
-  }
+  const storage = getStorageDriver();
 
-  if (!fs.existsSync(CONFIG_FILE_PATH)) {
+  if (!storage.readDocument<ScreeningConfig>('config')) {
     // Create default configuration if the file doesn't exist
     const defaultConfig: ScreeningConfig = {
       roles: {
@@ -36,7 +34,8 @@ export const ensureConfigFile = () => {
               weight: 0.3,
               description: "Communication skills and customer service attitude"
             }
-          }
+          },
+          structuredDataSchema: getDefaultStructuredDataSchema('server')
         },
         cook: {
           name: "Cook",
@@ -59,7 +58,8 @@ export const ensureConfigFile = () => {
               weight: 0.2,
               description: "Teamwork and ability to work under pressure"
             }
-          }
+          },
+          structuredDataSchema: getDefaultStructuredDataSchema('cook')
         },
         host: {
           name: "Host/Hostess",
@@ -82,7 +82,8 @@ export const ensureConfigFile = () => {
               weight: 0.4,
               description: "Professional demeanor and communication skills"
             }
-          }
+          },
+          structuredDataSchema: getDefaultStructuredDataSchema('host')
         },
         manager: {
           name: "Manager",
@@ -105,7 +106,8 @@ export const ensureConfigFile = () => {
               weight: 0.3,
               description: "Leadership and communication skills"
             }
-          }
+          },
+          structuredDataSchema: getDefaultStructuredDataSchema('manager')
         },
         general: {
           name: "General Staff",
@@ -128,7 +130,8 @@ export const ensureConfigFile = () => {
               weight: 0.3,
               description: "Teamwork and adaptability"
             }
-          }
+          },
+          structuredDataSchema: getDefaultStructuredDataSchema('general')
         }
       },
       mandatoryQuestions: [
@@ -137,6 +140,10 @@ export const ensureConfigFile = () => {
         "Can you work weekends?",
         "Do you have reliable transportation to get to work?"
       ],
+      knockoutQuestions: DEFAULT_KNOCKOUT_QUESTIONS,
+      screeningScheduling: DEFAULT_SCREENING_SCHEDULING,
+      notificationTemplates: DEFAULT_NOTIFICATION_TEMPLATES,
+      smsTemplates: DEFAULT_SMS_TEMPLATES,
       vapiSettings: {
         voice: {
           provider: "playht",
@@ -160,19 +167,17 @@ export const ensureConfigFile = () => {
         autoAdvanceToScreening: true
       }
     };
-    fs.writeFileSync(CONFIG_FILE_PATH, JSON.stringify(defaultConfig, null, 2), 'utf8');
+    storage.writeDocument('config', defaultConfig);
   }
 };
 
-// Read the config file
+// Read the config document
 export const readConfigFile = (): ScreeningConfig => {
   ensureConfigFile();
-  const data = fs.readFileSync(CONFIG_FILE_PATH, 'utf8');
-  return JSON.parse(data) as ScreeningConfig;
+  return getStorageDriver().readDocument<ScreeningConfig>('config') as ScreeningConfig;
 };
 
-// Write to the config file
+// Write the config document
 export const writeConfigFile = (config: ScreeningConfig): void => {
-  ensureConfigFile();
-  fs.writeFileSync(CONFIG_FILE_PATH, JSON.stringify(config, null, 2), 'utf8');
+  getStorageDriver().writeDocument('config', config);
 };
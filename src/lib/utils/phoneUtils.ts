@@ -0,0 +1,22 @@
+/**
+ * Phone number in E.164 form for VAPI calls and SMS, or null when it can't be
+ * dialled.
+ * Numbers without a country code get VAPI_DEFAULT_COUNTRY_CODE (1 by default).
+ */
+export function toE164(phone: string | undefined, defaultCountryCode: string = process.env.VAPI_DEFAULT_COUNTRY_CODE || '1'): string | null {
+  if (!phone) {
+    return null;
+  }
+
+  const digits = phone.replace(/\D/g, '');
+  if (phone.trim().startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10) {
+    return `+${defaultCountryCode}${digits}`;
+  }
+  if (digits.length === 11 && digits.startsWith(defaultCountryCode)) {
+    return `+${digits}`;
+  }
+  return null;
+}
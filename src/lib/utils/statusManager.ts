@@ -1,4 +1,5 @@
 import { ApplicationStatus, ApplicationStep } from '../types/common';
+import { DEFAULT_WORKFLOW_CONFIG, WorkflowConfig } from '../workflow/workflowUtils';
 
 /**
  * Centralized status management utility to ensure consistency across the application
@@ -90,31 +91,17 @@ export function getStatusBadgeClasses(status: ApplicationStatus): string {
 }
 
 /**
- * Get the next possible statuses for an application
+ * Get the next possible statuses for an application, by anyone, in the given workflow
  */
-export function getNextPossibleStatuses(currentStatus: ApplicationStatus): ApplicationStatus[] {
-  const statusTransitions: Record<ApplicationStatus, ApplicationStatus[]> = {
-    submitted: ['screening_scheduled', 'rejected', 'withdrawn'],
-    screening_scheduled: ['screening_in_progress', 'screening_completed', 'rejected', 'withdrawn'],
-    screening_in_progress: ['screening_completed', 'rejected', 'withdrawn'],
-    screening_completed: ['under_review', 'interview_scheduled', 'rejected', 'withdrawn'],
-    under_review: ['interview_scheduled', 'hired', 'rejected', 'withdrawn'],
-    interview_scheduled: ['interview_completed', 'hired', 'rejected', 'withdrawn'],
-    interview_completed: ['hired', 'rejected', 'withdrawn'],
-    hired: ['withdrawn'], // Only allow withdrawal after hiring
-    rejected: [], // Terminal state
-    withdrawn: [] // Terminal state
-  };
-
-  return statusTransitions[currentStatus] || [];
-}
-
-/**
- * Check if a status transition is valid
- */
-export function isValidStatusTransition(from: ApplicationStatus, to: ApplicationStatus): boolean {
-  const validNextStatuses = getNextPossibleStatuses(from);
-  return validNextStatuses.includes(to);
+export function getNextPossibleStatuses(
+  currentStatus: ApplicationStatus,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
+): ApplicationStatus[] {
+  return Array.from(new Set(
+    workflow.statusTransitions
+      .filter(transition => transition.from === currentStatus)
+      .map(transition => transition.to)
+  ));
 }
 
 /**
@@ -23,7 +23,8 @@ export function getSampleDataForTemplate(templateKey: string): Record<string, st
   // Common data across all templates - using generic test data
   const commonData = {
     candidateName: 'John Smith', // Sample name for preview
-    position: 'Head Chef' // Sample position for preview
+    position: 'Head Chef', // Sample position for preview
+    portalLink: 'https://restaurant.example/candidate/portal/abc123' // Sample link
   };
 
   // Template-specific data for preview purposes
@@ -36,7 +37,11 @@ export function getSampleDataForTemplate(templateKey: string): Record<string, st
     case 'interviewInvitation':
       return {
         ...commonData,
-        interviewLink: 'https://restaurant.example/interview/abc123' // Sample link
+        interviewLink: 'https://restaurant.example/interview/abc123', // Sample link
+        scheduledTime: 'Tuesday, January 10 at 2:00 PM EST',
+        format: 'In person',
+        location: 'Downtown Branch',
+        interviewer: 'Maria Lopez'
       };
     case 'offerLetter':
       return {
@@ -23,12 +23,7 @@ export {
 export {
   createScreeningAssistantOptions,
   generateScreeningSystemPrompt,
-  getRoleSpecificQuestions,
-  getMandatoryQuestions,
-  getConversationTone,
-  getCustomSystemPrompt,
-  getCustomAnalysisPrompt,
-  getVapiSettings,
+  getDefaultRoleSpecificQuestions,
   DEFAULT_VAPI_CONFIG,
   MANDATORY_QUESTIONS,
   type VapiConfig
@@ -1,11 +1,55 @@
-import { Application, ApplicationStatus, ApplicationStep } from '../types/applications';
+import type { Application } from '../types/applications';
+import type { ApplicationStatus, ApplicationStep, ScreeningRole } from '../types/common';
 
-// Workflow configuration and utilities
+// Workflow configuration and utilities. Each screening role has its own
+// definition, saved in config.json and edited under /admin/workflows; the
+// functions below take the one to use and fall back to the default pipeline.
 export interface WorkflowConfig {
   steps: WorkflowStepConfig[];
   statusTransitions: StatusTransition[];
 }
 
+export type WorkflowActor = 'system' | 'candidate' | 'recruiter' | 'admin';
+
+// Roles that get their own workflow, in the order the editor shows them
+export const WORKFLOW_ROLES: ScreeningRole[] = ['server', 'cook', 'host', 'manager', 'general'];
+
+export const WORKFLOW_ACTORS: WorkflowActor[] = ['system', 'candidate', 'recruiter', 'admin'];
+
+// Every status and step a workflow can use, in pipeline order
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  'submitted',
+  'screening_scheduled',
+  'screening_in_progress',
+  'screening_completed',
+  'under_review',
+  'interview_scheduled',
+  'interview_completed',
+  'hired',
+  'rejected',
+  'withdrawn'
+];
+
+export const APPLICATION_STEPS: ApplicationStep[] = [
+  'application_submitted',
+  'resume_review',
+  'resume_uploaded',
+  'screening_call_pending',
+  'screening_call_scheduled',
+  'screening_call_completed',
+  'interview_scheduled',
+  'interview_completed',
+  'reference_check',
+  'manager_review',
+  'recruiter_review',
+  'offer_pending',
+  'hiring_decision',
+  'onboarding',
+  'completed',
+  'rejected',
+  'process_complete'
+];
+
 export interface WorkflowStepConfig {
   step: ApplicationStep;
   label: string;
@@ -14,15 +58,39 @@ export interface WorkflowStepConfig {
   isOptional: boolean;
   estimatedDuration: string; // e.g., "5 minutes", "1-2 days"
   automatable: boolean; // Can this step be automated?
+  statuses: ApplicationStatus[]; // Moving to one of these puts the application at this step
+  slaHours?: number; // How long an application may stay in one of the statuses before it's overdue
+  slaAutoTransition?: ApplicationStatus; // Where the SLA scheduler moves overdue applications, if anywhere
+}
+
+// Run once a transition has been made
+export type WorkflowAutomationType = 'cancel_screening_booking' | 'cancel_interviews' | 'advance_to';
+
+export interface WorkflowAutomation {
+  type: WorkflowAutomationType;
+  status?: ApplicationStatus; // Where advance_to moves the application next
 }
 
 export interface StatusTransition {
   from: ApplicationStatus;
   to: ApplicationStatus;
-  allowedBy: ('system' | 'candidate' | 'recruiter' | 'admin')[];
+  allowedBy: WorkflowActor[];
   requiresNotes: boolean;
+  automations?: WorkflowAutomation[];
 }
 
+export const WORKFLOW_AUTOMATION_LABELS: Record<WorkflowAutomationType, string> = {
+  cancel_screening_booking: 'Cancel a booked screening',
+  cancel_interviews: 'Cancel scheduled interviews',
+  advance_to: 'Then move on to'
+};
+
+// Rejecting someone frees the slots they were holding
+const RELEASE_BOOKINGS: WorkflowAutomation[] = [
+  { type: 'cancel_screening_booking' },
+  { type: 'cancel_interviews' }
+];
+
 // Default workflow configuration
 export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
   steps: [
@@ -33,7 +101,9 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
       requiredFor: ['all'],
       isOptional: false,
       estimatedDuration: 'Immediate',
-      automatable: true
+      automatable: true,
+      statuses: ['submitted'],
+      slaHours: 48
     },
     {
       step: 'resume_uploaded',
@@ -42,7 +112,8 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
       requiredFor: ['all'],
       isOptional: false,
       estimatedDuration: '5 minutes',
-      automatable: false
+      automatable: false,
+      statuses: []
     },
     {
       step: 'screening_call_pending',
@@ -51,7 +122,9 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
       requiredFor: ['server', 'cook', 'host'],
       isOptional: false,
       estimatedDuration: '1-2 hours',
-      automatable: true
+      automatable: true,
+      statuses: ['screening_scheduled', 'screening_in_progress'],
+      slaHours: 72
     },
     {
       step: 'screening_call_completed',
@@ -60,7 +133,9 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
       requiredFor: ['server', 'cook', 'host'],
       isOptional: false,
       estimatedDuration: '10-15 minutes',
-      automatable: true
+      automatable: true,
+      statuses: ['screening_completed'],
+      slaHours: 48
     },
     {
       step: 'recruiter_review',
@@ -69,7 +144,9 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
       requiredFor: ['all'],
       isOptional: false,
       estimatedDuration: '1-3 days',
-      automatable: false
+      automatable: false,
+      statuses: ['under_review', 'interview_scheduled', 'interview_completed'],
+      slaHours: 120
     },
     {
       step: 'hiring_decision',
@@ -78,7 +155,8 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
       requiredFor: ['all'],
       isOptional: false,
       estimatedDuration: '1-2 days',
-      automatable: false
+      automatable: false,
+      statuses: []
     },
     {
       step: 'process_complete',
@@ -87,7 +165,8 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
       requiredFor: ['all'],
       isOptional: false,
       estimatedDuration: 'Immediate',
-      automatable: true
+      automatable: true,
+      statuses: ['hired', 'rejected']
     }
   ],
   statusTransitions: [
@@ -97,22 +176,86 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
       allowedBy: ['system', 'recruiter', 'admin'],
       requiresNotes: false
     },
+    {
+      from: 'submitted',
+      to: 'rejected',
+      allowedBy: ['recruiter', 'admin'],
+      requiresNotes: true,
+      automations: RELEASE_BOOKINGS
+    },
+    {
+      from: 'submitted',
+      to: 'withdrawn',
+      allowedBy: ['candidate', 'admin'],
+      requiresNotes: false
+    },
     {
       from: 'screening_scheduled',
       to: 'screening_in_progress',
       allowedBy: ['system'],
       requiresNotes: false
     },
+    {
+      from: 'screening_scheduled',
+      to: 'screening_completed',
+      allowedBy: ['system'],
+      requiresNotes: false
+    },
+    {
+      from: 'screening_scheduled',
+      to: 'rejected',
+      allowedBy: ['recruiter', 'admin'],
+      requiresNotes: true,
+      automations: RELEASE_BOOKINGS
+    },
+    {
+      from: 'screening_scheduled',
+      to: 'withdrawn',
+      allowedBy: ['candidate', 'admin'],
+      requiresNotes: false
+    },
     {
       from: 'screening_in_progress',
       to: 'screening_completed',
       allowedBy: ['system'],
       requiresNotes: false
     },
+    {
+      from: 'screening_in_progress',
+      to: 'rejected',
+      allowedBy: ['recruiter', 'admin'],
+      requiresNotes: true,
+      automations: RELEASE_BOOKINGS
+    },
+    {
+      from: 'screening_in_progress',
+      to: 'withdrawn',
+      allowedBy: ['candidate', 'admin'],
+      requiresNotes: false
+    },
     {
       from: 'screening_completed',
       to: 'under_review',
-      allowedBy: ['system'],
+      allowedBy: ['system', 'recruiter', 'admin'],
+      requiresNotes: false
+    },
+    {
+      from: 'screening_completed',
+      to: 'interview_scheduled',
+      allowedBy: ['recruiter', 'admin'],
+      requiresNotes: true
+    },
+    {
+      from: 'screening_completed',
+      to: 'rejected',
+      allowedBy: ['recruiter', 'admin'],
+      requiresNotes: true,
+      automations: RELEASE_BOOKINGS
+    },
+    {
+      from: 'screening_completed',
+      to: 'withdrawn',
+      allowedBy: ['candidate', 'admin'],
       requiresNotes: false
     },
     {
@@ -131,7 +274,20 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
       from: 'under_review',
       to: 'rejected',
       allowedBy: ['recruiter', 'admin'],
-      requiresNotes: true
+      requiresNotes: true,
+      automations: RELEASE_BOOKINGS
+    },
+    {
+      from: 'under_review',
+      to: 'withdrawn',
+      allowedBy: ['candidate', 'admin'],
+      requiresNotes: false
+    },
+    {
+      from: 'interview_scheduled',
+      to: 'interview_completed',
+      allowedBy: ['system', 'recruiter', 'admin'],
+      requiresNotes: false
     },
     {
       from: 'interview_scheduled',
@@ -143,28 +299,36 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
       from: 'interview_scheduled',
       to: 'rejected',
       allowedBy: ['recruiter', 'admin'],
-      requiresNotes: true
+      requiresNotes: true,
+      automations: RELEASE_BOOKINGS
     },
     {
-      from: 'submitted',
+      from: 'interview_scheduled',
       to: 'withdrawn',
       allowedBy: ['candidate', 'admin'],
       requiresNotes: false
     },
     {
-      from: 'screening_scheduled',
-      to: 'withdrawn',
-      allowedBy: ['candidate', 'admin'],
-      requiresNotes: false
+      from: 'interview_completed',
+      to: 'hired',
+      allowedBy: ['recruiter', 'admin'],
+      requiresNotes: true
     },
     {
-      from: 'screening_completed',
+      from: 'interview_completed',
+      to: 'rejected',
+      allowedBy: ['recruiter', 'admin'],
+      requiresNotes: true,
+      automations: RELEASE_BOOKINGS
+    },
+    {
+      from: 'interview_completed',
       to: 'withdrawn',
       allowedBy: ['candidate', 'admin'],
       requiresNotes: false
     },
     {
-      from: 'under_review',
+      from: 'hired',
       to: 'withdrawn',
       allowedBy: ['candidate', 'admin'],
       requiresNotes: false
@@ -172,21 +336,22 @@ export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
   ]
 };
 
+// A fresh copy of the default pipeline for every role
+export function getDefaultWorkflows(): Record<ScreeningRole, WorkflowConfig> {
+  return Object.fromEntries(
+    WORKFLOW_ROLES.map(role => [role, JSON.parse(JSON.stringify(DEFAULT_WORKFLOW_CONFIG)) as WorkflowConfig])
+  ) as Record<ScreeningRole, WorkflowConfig>;
+}
+
 /**
  * Get the next possible steps for an application
  */
-export function getNextPossibleSteps(currentStep: ApplicationStep): ApplicationStep[] {
-  const stepFlow: Record<ApplicationStep, ApplicationStep[]> = {
-    'application_submitted': ['resume_uploaded'],
-    'resume_uploaded': ['screening_call_pending'],
-    'screening_call_pending': ['screening_call_completed'],
-    'screening_call_completed': ['recruiter_review'],
-    'recruiter_review': ['hiring_decision'],
-    'hiring_decision': ['process_complete'],
-    'process_complete': []
-  };
-
-  return stepFlow[currentStep] || [];
+export function getNextPossibleSteps(
+  currentStep: ApplicationStep,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
+): ApplicationStep[] {
+  const index = workflow.steps.findIndex(step => step.step === currentStep);
+  return index === -1 || index === workflow.steps.length - 1 ? [] : [workflow.steps[index + 1].step];
 }
 
 /**
@@ -194,9 +359,10 @@ export function getNextPossibleSteps(currentStep: ApplicationStep): ApplicationS
  */
 export function getValidStatusTransitions(
   currentStatus: ApplicationStatus,
-  userRole: 'system' | 'candidate' | 'recruiter' | 'admin'
+  userRole: WorkflowActor,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
 ): ApplicationStatus[] {
-  return DEFAULT_WORKFLOW_CONFIG.statusTransitions
+  return workflow.statusTransitions
     .filter(transition => 
       transition.from === currentStatus && 
       transition.allowedBy.includes(userRole)
@@ -204,19 +370,27 @@ export function getValidStatusTransitions(
     .map(transition => transition.to);
 }
 
+/**
+ * Find the transition between two statuses, whoever makes it
+ */
+export function findStatusTransition(
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
+): StatusTransition | null {
+  return workflow.statusTransitions.find(transition => transition.from === from && transition.to === to) || null;
+}
+
 /**
  * Check if a status transition is valid
  */
 export function isValidStatusTransition(
   from: ApplicationStatus,
   to: ApplicationStatus,
-  userRole: 'system' | 'candidate' | 'recruiter' | 'admin'
+  userRole: WorkflowActor,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
 ): boolean {
-  return DEFAULT_WORKFLOW_CONFIG.statusTransitions.some(transition =>
-    transition.from === from &&
-    transition.to === to &&
-    transition.allowedBy.includes(userRole)
-  );
+  return !!findStatusTransition(from, to, workflow)?.allowedBy.includes(userRole);
 }
 
 /**
@@ -224,111 +398,72 @@ export function isValidStatusTransition(
  */
 export function requiresNotesForTransition(
   from: ApplicationStatus,
-  to: ApplicationStatus
+  to: ApplicationStatus,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
 ): boolean {
-  const transition = DEFAULT_WORKFLOW_CONFIG.statusTransitions.find(t =>
-    t.from === from && t.to === to
-  );
-  return transition?.requiresNotes || false;
+  return findStatusTransition(from, to, workflow)?.requiresNotes || false;
 }
 
 /**
  * Get step configuration for a specific step
  */
-export function getStepConfig(step: ApplicationStep): WorkflowStepConfig | null {
-  return DEFAULT_WORKFLOW_CONFIG.steps.find(s => s.step === step) || null;
+export function getStepConfig(
+  step: ApplicationStep,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
+): WorkflowStepConfig | null {
+  return workflow.steps.find(s => s.step === step) || null;
+}
+
+/**
+ * Get the step an application moving to a status should be at, or null to leave it where it is
+ */
+export function getStepForStatus(
+  status: ApplicationStatus,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
+): ApplicationStep | null {
+  return workflow.steps.find(step => step.statuses.includes(status))?.step || null;
 }
 
 /**
  * Calculate workflow progress percentage
  */
-export function calculateWorkflowProgress(application: Application): number {
-  const totalSteps = DEFAULT_WORKFLOW_CONFIG.steps.length;
+export function calculateWorkflowProgress(
+  application: Application,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
+): number {
+  const totalSteps = workflow.steps.length;
   const completedSteps = application.timeline.filter(entry => 
     entry.status === 'completed'
   ).length;
   
-  return Math.round((completedSteps / totalSteps) * 100);
-}
-
-/**
- * Get workflow status display information
- */
-export function getStatusDisplayInfo(status: ApplicationStatus): {
-  label: string;
-  color: string;
-  description: string;
-} {
-  const statusInfo: Record<ApplicationStatus, { label: string; color: string; description: string }> = {
-    'submitted': {
-      label: 'Submitted',
-      color: 'blue',
-      description: 'Application has been submitted'
-    },
-    'screening_scheduled': {
-      label: 'Screening Scheduled',
-      color: 'yellow',
-      description: 'Voice screening call is scheduled'
-    },
-    'screening_in_progress': {
-      label: 'Screening in Progress',
-      color: 'orange',
-      description: 'Voice screening call is currently in progress'
-    },
-    'screening_completed': {
-      label: 'Screening Completed',
-      color: 'green',
-      description: 'Voice screening has been completed'
-    },
-    'under_review': {
-      label: 'Under Review',
-      color: 'purple',
-      description: 'Application is being reviewed by recruiter'
-    },
-    'interview_scheduled': {
-      label: 'Interview Scheduled',
-      color: 'indigo',
-      description: 'In-person interview has been scheduled'
-    },
-    'hired': {
-      label: 'Hired',
-      color: 'green',
-      description: 'Candidate has been hired'
-    },
-    'rejected': {
-      label: 'Rejected',
-      color: 'red',
-      description: 'Application has been rejected'
-    },
-    'withdrawn': {
-      label: 'Withdrawn',
-      color: 'gray',
-      description: 'Application has been withdrawn'
-    }
-  };
-
-  return statusInfo[status];
+  return totalSteps === 0 ? 0 : Math.min(100, Math.round((completedSteps / totalSteps) * 100));
 }
 
 /**
  * Check if an application can be advanced to the next step
  */
-export function canAdvanceToNextStep(application: Application): boolean {
-  const nextSteps = getNextPossibleSteps(application.currentStep);
+export function canAdvanceToNextStep(
+  application: Application,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
+): boolean {
+  const nextSteps = getNextPossibleSteps(application.currentStep, workflow);
   return nextSteps.length > 0 && !['hired', 'rejected', 'withdrawn'].includes(application.status);
 }
 
 /**
  * Get estimated completion time for remaining steps
  */
-export function getEstimatedCompletionTime(application: Application): string {
-  const currentStepIndex = DEFAULT_WORKFLOW_CONFIG.steps.findIndex(
+export function getEstimatedCompletionTime(
+  application: Application,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW_CONFIG
+): string {
+  const currentStepIndex = workflow.steps.findIndex(
     step => step.step === application.currentStep
   );
   
   if (currentStepIndex === -1) return 'Unknown';
   
-  const remainingSteps = DEFAULT_WORKFLOW_CONFIG.steps.slice(currentStepIndex + 1);
+  const remainingSteps = workflow.steps.slice(currentStepIndex + 1);
   
   if (remainingSteps.length === 0) return 'Complete';
   
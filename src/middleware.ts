@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AUDIT_ACTOR_HEADER,
+  AUDIT_ACTOR_ID_HEADER,
+  AUDIT_ACTOR_NAME_HEADER,
+  AUDIT_SOURCE_HEADER
+} from './lib/audit/headers';
+import { ROLE_HOME, findAccessRule, hasPermission } from './lib/auth/permissions';
+import { SESSION_COOKIE, Session, verifySessionToken } from './lib/auth/session';
+import type { UserRole } from './lib/types/user';
+
+// Without a session a request can only come from a candidate page or an outside caller
+function inferAnonymousRole(request: NextRequest): string {
+  const referer = request.headers.get('referer');
+  if (!referer) {
+    return 'system';
+  }
+
+  try {
+    if (new URL(referer).pathname.startsWith('/candidate')) return 'candidate';
+  } catch {
+    // Malformed referer
+  }
+  return 'system';
+}
+
+// External cron authenticates with "Authorization: Bearer <CRON_SECRET>"
+function hasCronSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const provided = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+  if (!secret || provided.length !== secret.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < secret.length; i++) {
+    difference |= secret.charCodeAt(i) ^ provided.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * The session's role as it is now. The cookie stays valid for a whole shift,
+ * but deactivation and role changes must apply straight away, and storage
+ * can't be read on the edge runtime, so ask the app (GET /api/auth/session
+ * re-reads the user). Null when the account is gone, deactivated or can't be checked.
+ */
+async function getCurrentRole(request: NextRequest): Promise<UserRole | null> {
+  try {
+    const response = await fetch(new URL('/api/auth/session', request.url), {
+      headers: { cookie: request.headers.get('cookie') || '' },
+      cache: 'no-store'
+    });
+    if (!response.ok) {
+      return null;
+    }
+    const { user } = await response.json();
+    return user?.role || null;
+  } catch (error) {
+    console.error('Could not re-check the session:', error);
+    return null;
+  }
+}
+
+function deny(request: NextRequest, session: Session | null): NextResponse {
+  const { pathname, search } = request.nextUrl;
+  if (pathname.startsWith('/api/')) {
+    return session
+      ? NextResponse.json({ error: 'You do not have permission to do this' }, { status: 403 })
+      : NextResponse.json({ error: 'Sign in to continue' }, { status: 401 });
+  }
+
+  const url = request.nextUrl.clone();
+  url.search = '';
+  if (session) {
+    url.pathname = ROLE_HOME[session.role] || '/';
+  } else {
+    url.pathname = '/login';
+    url.searchParams.set('next', `${pathname}${search}`);
+  }
+  return NextResponse.redirect(url);
+}
+
+// Checks the session against the route's access rule, then stamps API requests
+// with audit attribution headers, overwriting anything the client sent
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  let session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  const rule = findAccessRule(pathname, request.method);
+  const viaCron = !!rule?.cron && hasCronSecret(request);
+
+  if (rule && rule.access !== 'public' && !viaCron) {
+    const role = session && await getCurrentRole(request);
+    session = session && role ? { ...session, role } : null;
+    if (!hasPermission(session?.role, rule.access)) {
+      return deny(request, session);
+    }
+  }
+
+  if (!pathname.startsWith('/api/')) {
+    return NextResponse.next();
+  }
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(AUDIT_SOURCE_HEADER, `${request.method} ${pathname}`);
+  requestHeaders.delete(AUDIT_ACTOR_ID_HEADER);
+  requestHeaders.delete(AUDIT_ACTOR_NAME_HEADER);
+  if (session && !viaCron) {
+    requestHeaders.set(AUDIT_ACTOR_HEADER, session.role);
+    requestHeaders.set(AUDIT_ACTOR_ID_HEADER, session.sub);
+    requestHeaders.set(AUDIT_ACTOR_NAME_HEADER, encodeURIComponent(session.name));
+  } else {
+    requestHeaders.set(AUDIT_ACTOR_HEADER, viaCron ? 'system' : inferAnonymousRole(request));
+  }
+
+  return NextResponse.next({ request: { headers: requestHeaders } });
+}
+
+export const config = {
+  matcher: ['/api/:path*', '/admin/:path*', '/recruiter/:path*']
+};